@@ -34,6 +34,8 @@ import Statistics from "@/pages/statistics";
 import RideRequestWaiting from "@/pages/ride-request";
 import DriverRequests from "@/pages/driver-requests";
 import SafetyCenter from "@/pages/safety-center";
+import OrganizationVerify from "@/pages/organization-verify";
+import CorporateBilling from "@/pages/corporate-billing";
 import Terms from "@/pages/terms";
 import Privacy from "@/pages/privacy";
 import RideSimulator from "@/pages/dev/RideSimulator";
@@ -76,6 +78,8 @@ function Router() {
         <ProtectedRoute path="/ride-request/:id" component={RideRequestWaiting} allowedRoles={['passenger']} />
         <ProtectedRoute path="/driver-requests" component={DriverRequests} allowedRoles={['driver']} />
         <ProtectedRoute path="/safety-center" component={SafetyCenter} allowedRoles={['passenger', 'driver']} />
+        <ProtectedRoute path="/organization/verify" component={OrganizationVerify} allowedRoles={['passenger', 'driver']} />
+        <ProtectedRoute path="/organization/billing" component={CorporateBilling} allowedRoles={['passenger', 'driver']} />
         <Route path="/help" component={Help} />
         <Route path="/terms" component={Terms} />
         <Route path="/privacy" component={Privacy} />
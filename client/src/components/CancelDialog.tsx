@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import {
     AlertDialog,
     AlertDialogAction,
@@ -12,12 +13,14 @@ import {
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { getCancellationQuote } from '@/lib/cancellation-service';
 
 interface CancelDialogProps {
     isOpen: boolean;
     onClose: () => void;
     onConfirm: (reason: string, details?: string) => void;
     type: 'trip' | 'booking';
+    bookingId?: string;
     loading?: boolean;
 }
 
@@ -38,10 +41,16 @@ const CANCELLATION_REASONS = {
     ],
 };
 
-export function CancelDialog({ isOpen, onClose, onConfirm, type, loading }: CancelDialogProps) {
+export function CancelDialog({ isOpen, onClose, onConfirm, type, bookingId, loading }: CancelDialogProps) {
     const [selectedReason, setSelectedReason] = useState('');
     const [details, setDetails] = useState('');
 
+    const { data: quote } = useQuery({
+        queryKey: ['cancellation-quote', bookingId],
+        queryFn: () => getCancellationQuote(bookingId!),
+        enabled: isOpen && type === 'booking' && !!bookingId,
+    });
+
     const handleConfirm = () => {
         if (!selectedReason) return;
         onConfirm(selectedReason, details);
@@ -60,9 +69,16 @@ export function CancelDialog({ isOpen, onClose, onConfirm, type, loading }: Canc
                     </AlertDialogTitle>
                     <AlertDialogDescription>
                         {type === 'trip'
-                            ? 'Cancelling this trip will notify all passengers and process refunds according to the cancellation policy.'
+                            ? 'Cancelling this trip will notify all passengers and refund them in full. Driver cancellations are recorded on your profile.'
                             : 'Cancellation policy: Full refund if cancelled 24+ hours before departure, 50% refund if 6-24 hours, no refund if less than 6 hours.'}
                     </AlertDialogDescription>
+                    {quote && quote.paid_amount > 0 && (
+                        <p className="text-sm font-medium" data-testid="text-refund-quote">
+                            {quote.refund_amount > 0
+                                ? `You will be refunded ₹${quote.refund_amount.toFixed(2)} (${quote.refund_percent}% of ₹${quote.paid_amount.toFixed(2)}).`
+                                : `No refund applies to this cancellation (₹${quote.paid_amount.toFixed(2)} paid).`}
+                        </p>
+                    )}
                 </AlertDialogHeader>
 
                 <div className="space-y-4 py-4">
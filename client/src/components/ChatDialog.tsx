@@ -9,13 +9,25 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Send, Loader2, Check, CheckCheck, AlertCircle, RefreshCw } from 'lucide-react';
+import { Send, Loader2, Check, CheckCheck, AlertCircle, RefreshCw, MapPin, ImagePlus } from 'lucide-react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
 import { queryClient } from '@/lib/queryClient';
-import { format, isToday, isYesterday, isSameDay } from 'date-fns';
+import { format, isToday, isYesterday } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { MapView } from '@/components/MapView';
+import { Message, QUICK_REPLIES, QuickReplyKey } from '@shared/schema';
+import {
+    chatRoom,
+    getConversation,
+    sendMessage,
+    sendQuickReply,
+    sendLocationPin,
+    sendImage,
+    getAttachmentUrl,
+    markConversationRead,
+} from '@/lib/chat-service';
+import { subscribeTripMessages, subscribeTyping, sendTyping } from '@/lib/realtime-service';
 
 interface ChatProps {
     isOpen: boolean;
@@ -26,13 +38,11 @@ interface ChatProps {
     otherUserPhoto?: string;
 }
 
-interface Message {
-    id: string;
-    senderId: string;
-    message: string;
-    createdAt: string;
-    isRead: boolean;
-}
+type OutgoingMessage =
+    | { type: 'text'; text: string }
+    | { type: 'quick_reply'; key: QuickReplyKey }
+    | { type: 'location'; coords: { lat: number; lng: number; accuracy?: number } }
+    | { type: 'image'; file: File };
 
 const MAX_MESSAGE_LENGTH = 500;
 
@@ -42,128 +52,138 @@ function getDateSeparator(date: Date): string {
     return format(date, 'MMMM dd, yyyy');
 }
 
+function ChatImage({ path }: { path: string }) {
+    const { data: url } = useQuery({
+        queryKey: ['chat-attachment', path],
+        queryFn: () => getAttachmentUrl(path),
+        staleTime: 30 * 60 * 1000, // signed URLs last an hour
+    });
+
+    if (!url) {
+        return <div className="w-48 h-32 rounded bg-background/20 animate-pulse" />;
+    }
+
+    return (
+        <a href={url} target="_blank" rel="noopener noreferrer">
+            <img src={url} alt="Shared photo" className="max-w-48 max-h-64 rounded object-cover" />
+        </a>
+    );
+}
+
+function MessageBody({ msg }: { msg: Message }) {
+    const { attachment } = msg;
+
+    if (msg.messageType === 'location' && attachment?.lat != null && attachment?.lng != null) {
+        const coords = { lat: attachment.lat, lng: attachment.lng };
+        return (
+            <div className="space-y-1">
+                <div className="w-56 h-32 rounded overflow-hidden">
+                    <MapView center={coords} zoom={16} markers={[{ id: msg.id, coordinates: coords }]} />
+                </div>
+                <a
+                    href={`https://www.google.com/maps/search/?api=1&query=${coords.lat},${coords.lng}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-xs underline"
+                >
+                    <MapPin className="w-3 h-3" /> Open in Maps
+                </a>
+            </div>
+        );
+    }
+
+    if (msg.messageType === 'image' && attachment?.path) {
+        return <ChatImage path={attachment.path} />;
+    }
+
+    return <p className={`text-sm break-words ${msg.messageType === 'quick_reply' ? 'font-medium' : ''}`}>{msg.message}</p>;
+}
+
 export function ChatDialog({ isOpen, onClose, tripId, otherUserId, otherUserName, otherUserPhoto }: ChatProps) {
     const { user } = useAuth();
     const { toast } = useToast();
     const [newMessage, setNewMessage] = useState('');
     const [isTyping, setIsTyping] = useState(false);
+    const [otherIsTyping, setOtherIsTyping] = useState(false);
     const scrollRef = useRef<HTMLDivElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
     const typingTimeoutRef = useRef<NodeJS.Timeout>();
+    const room = user ? chatRoom(tripId, user.id, otherUserId) : null;
 
     // Fetch messages
     const { data: messages, isLoading, error, refetch } = useQuery<Message[]>({
         queryKey: ['chat-messages', tripId, user?.id, otherUserId],
-        queryFn: async () => {
-            const { data, error } = await supabase
-                .from('messages')
-                .select('*')
-                .eq('trip_id', tripId)
-                .or(`and(sender_id.eq.${user?.id},receiver_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},receiver_id.eq.${user?.id})`)
-                .order('created_at', { ascending: true });
-
-            if (error) throw error;
-            return data.map((m: any) => ({
-                id: m.id,
-                senderId: m.sender_id,
-                message: m.message,
-                createdAt: m.created_at,
-                isRead: m.is_read,
-            }));
-        },
+        queryFn: () => getConversation(tripId, user!.id, otherUserId),
         enabled: isOpen && !!user,
         retry: 2,
     });
 
-    // Real-time subscription for new messages
+    // Real-time subscription for new messages and read receipts
     useEffect(() => {
         if (!isOpen || !user || !tripId) return;
 
-        const channel = supabase
-            .channel(`chat-${tripId}-${user.id}`)
-            .on(
-                'postgres_changes',
-                {
-                    event: 'INSERT',
-                    schema: 'public',
-                    table: 'messages',
-                    filter: `trip_id=eq.${tripId}`,
-                },
-                (payload) => {
-                    const newMsg = payload.new as any;
-                    // Only add if it's relevant to this conversation
-                    if (
-                        (newMsg.sender_id === user.id && newMsg.receiver_id === otherUserId) ||
-                        (newMsg.sender_id === otherUserId && newMsg.receiver_id === user.id)
-                    ) {
-                        queryClient.invalidateQueries({ queryKey: ['chat-messages', tripId] });
-
-                        // Mark as read if we received it
-                        if (newMsg.receiver_id === user.id) {
-                            markAsRead(newMsg.id);
-                        }
-                    }
-                }
-            )
-            .on(
-                'postgres_changes',
-                {
-                    event: 'UPDATE',
-                    schema: 'public',
-                    table: 'messages',
-                    filter: `trip_id=eq.${tripId}`,
-                },
-                () => {
-                    queryClient.invalidateQueries({ queryKey: ['chat-messages', tripId] });
+        return subscribeTripMessages(tripId, (payload) => {
+            const msg = payload.new;
+            // Only refresh if it's relevant to this conversation
+            if (
+                msg &&
+                ((msg.sender_id === user.id && msg.receiver_id === otherUserId) ||
+                    (msg.sender_id === otherUserId && msg.receiver_id === user.id))
+            ) {
+                queryClient.invalidateQueries({ queryKey: ['chat-messages', tripId] });
+
+                if (msg.sender_id === otherUserId) {
+                    setOtherIsTyping(false);
                 }
-            )
-            .subscribe();
+            }
+        });
+    }, [isOpen, user, tripId, otherUserId]);
+
+    // Typing indicator from the other person
+    useEffect(() => {
+        if (!isOpen || !room) return;
+
+        let clearTimer: NodeJS.Timeout | undefined;
+        const unsubscribe = subscribeTyping(room, (userId, typing) => {
+            if (userId !== otherUserId) return;
+            setOtherIsTyping(typing);
+
+            // Don't get stuck on "typing" if their stop event is lost
+            clearTimeout(clearTimer);
+            if (typing) clearTimer = setTimeout(() => setOtherIsTyping(false), 5000);
+        });
 
         return () => {
-            supabase.removeChannel(channel);
+            clearTimeout(clearTimer);
+            unsubscribe();
         };
-    }, [isOpen, user, tripId, otherUserId]);
+    }, [isOpen, room, otherUserId]);
 
-    // Mark messages as read
-    const markAsRead = async (messageId: string) => {
-        await supabase
-            .from('messages')
-            .update({ is_read: true })
-            .eq('id', messageId)
-            .eq('receiver_id', user?.id);
-    };
+    // Tell the other person when we start or stop typing
+    useEffect(() => {
+        if (room && user) {
+            sendTyping(room, user.id, isTyping);
+        }
+    }, [isTyping, room, user]);
 
     // Send message mutation
     const sendMessageMutation = useMutation({
-        mutationFn: async (message: string) => {
-            const { error } = await supabase
-                .from('messages')
-                .insert({
-                    trip_id: tripId,
-                    sender_id: user?.id,
-                    receiver_id: otherUserId,
-                    message: message,
-                    is_read: false,
-                });
+        mutationFn: async (outgoing: OutgoingMessage) => {
+            const base = { tripId, senderId: user!.id, senderName: user?.fullName, receiverId: otherUserId };
 
-            if (error) throw error;
-
-            // Trigger push notification
-            try {
-                await supabase.functions.invoke('send-push-notification', {
-                    body: {
-                        userId: otherUserId,
-                        title: `New message from ${user?.fullName || 'User'}`,
-                        body: message.substring(0, 50) + (message.length > 50 ? '...' : ''),
-                        data: { tripId, senderId: user?.id }
-                    }
-                });
-            } catch (notifError) {
-                // Don't fail the message send if notification fails
-                console.error('Push notification failed:', notifError);
+            switch (outgoing.type) {
+                case 'quick_reply':
+                    return sendQuickReply(base, outgoing.key);
+                case 'location':
+                    return sendLocationPin(base, outgoing.coords);
+                case 'image':
+                    return sendImage(base, outgoing.file);
+                default:
+                    return sendMessage({ ...base, message: outgoing.text });
             }
         },
-        onSuccess: () => {
-            setNewMessage('');
+        onSuccess: (_, outgoing) => {
+            if (outgoing.type === 'text') setNewMessage('');
             setIsTyping(false);
         },
         onError: (error: any) => {
@@ -186,7 +206,39 @@ export function ChatDialog({ isOpen, onClose, tripId, otherUserId, otherUserName
             });
             return;
         }
-        sendMessageMutation.mutate(trimmedMessage);
+        sendMessageMutation.mutate({ type: 'text', text: trimmedMessage });
+    };
+
+    const handleShareLocation = () => {
+        if (!navigator.geolocation) {
+            toast({ title: 'Location unavailable', description: 'Your browser does not support location sharing', variant: 'destructive' });
+            return;
+        }
+
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                sendMessageMutation.mutate({
+                    type: 'location',
+                    coords: {
+                        lat: position.coords.latitude,
+                        lng: position.coords.longitude,
+                        accuracy: Math.round(position.coords.accuracy),
+                    },
+                });
+            },
+            () => {
+                toast({ title: 'Location unavailable', description: 'Allow location access to share where you are', variant: 'destructive' });
+            },
+            { enableHighAccuracy: true, timeout: 10000 }
+        );
+    };
+
+    const handleImageSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) {
+            sendMessageMutation.mutate({ type: 'image', file });
+        }
     };
 
     // Handle typing indicator
@@ -215,16 +267,12 @@ export function ChatDialog({ isOpen, onClose, tripId, otherUserId, otherUserName
         }
     }, [messages]);
 
-    // Mark unread messages as read when chat opens
+    // Mark unread messages as read while the chat is open
     useEffect(() => {
-        if (isOpen && messages) {
-            messages.forEach((msg) => {
-                if (msg.senderId === otherUserId && !msg.isRead) {
-                    markAsRead(msg.id);
-                }
-            });
+        if (isOpen && messages?.some((msg) => msg.senderId === otherUserId && !msg.isRead)) {
+            markConversationRead(tripId, otherUserId);
         }
-    }, [isOpen, messages, otherUserId]);
+    }, [isOpen, messages, tripId, otherUserId]);
 
     // Group messages by date
     const groupedMessages = messages?.reduce((groups, message) => {
@@ -252,7 +300,7 @@ export function ChatDialog({ isOpen, onClose, tripId, otherUserId, otherUserName
                         </Avatar>
                         <div>
                             <DialogTitle>{otherUserName}</DialogTitle>
-                            <p className="text-xs text-muted-foreground">Trip Chat</p>
+                            <p className="text-xs text-muted-foreground">{otherIsTyping ? 'typing…' : 'Trip Chat'}</p>
                         </div>
                     </div>
                 </DialogHeader>
@@ -292,14 +340,16 @@ export function ChatDialog({ isOpen, onClose, tripId, otherUserId, otherUserName
                                             return (
                                                 <div key={msg.id} className={`flex ${isMe ? 'justify-end' : 'justify-start'}`}>
                                                     <div className={`max-w-[70%] ${isMe ? 'bg-primary text-primary-foreground' : 'bg-muted'} rounded-lg p-3`}>
-                                                        <p className="text-sm break-words">{msg.message}</p>
+                                                        <MessageBody msg={msg} />
                                                         <div className={`flex items-center gap-1 mt-1 ${isMe ? 'justify-end' : 'justify-start'}`}>
                                                             <p className={`text-[10px] ${isMe ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
                                                                 {format(new Date(msg.createdAt), 'hh:mm a')}
                                                             </p>
                                                             {isMe && (
                                                                 msg.isRead ? (
-                                                                    <CheckCheck className="w-3 h-3 text-primary-foreground/70" />
+                                                                    <span title={msg.readAt ? `Seen ${format(new Date(msg.readAt), 'hh:mm a')}` : 'Seen'}>
+                                                                        <CheckCheck className="w-3 h-3 text-primary-foreground" />
+                                                                    </span>
                                                                 ) : (
                                                                     <Check className="w-3 h-3 text-primary-foreground/70" />
                                                                 )
@@ -327,12 +377,51 @@ export function ChatDialog({ isOpen, onClose, tripId, otherUserId, otherUserName
                 </ScrollArea>
 
                 <div className="p-4 border-t">
+                    <div className="flex gap-2 overflow-x-auto pb-3">
+                        {(Object.entries(QUICK_REPLIES) as [QuickReplyKey, string][]).map(([key, label]) => (
+                            <Button
+                                key={key}
+                                size="sm"
+                                variant="outline"
+                                className="h-7 rounded-full text-xs whitespace-nowrap"
+                                onClick={() => sendMessageMutation.mutate({ type: 'quick_reply', key })}
+                                disabled={sendMessageMutation.isPending}
+                            >
+                                {label}
+                            </Button>
+                        ))}
+                    </div>
                     {isNearLimit && (
                         <p className={`text-xs mb-2 ${characterCount > MAX_MESSAGE_LENGTH ? 'text-destructive' : 'text-muted-foreground'}`}>
                             {characterCount}/{MAX_MESSAGE_LENGTH} characters
                         </p>
                     )}
                     <div className="flex gap-2">
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={handleShareLocation}
+                            disabled={sendMessageMutation.isPending}
+                            title="Share my current location"
+                        >
+                            <MapPin className="w-4 h-4" />
+                        </Button>
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={sendMessageMutation.isPending}
+                            title="Send a photo"
+                        >
+                            <ImagePlus className="w-4 h-4" />
+                        </Button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="image/*"
+                            className="hidden"
+                            onChange={handleImageSelected}
+                        />
                         <Input
                             placeholder="Type a message..."
                             value={newMessage}
@@ -0,0 +1,177 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Repeat, CalendarX, Pause, Play, Ticket } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { Trip } from '@shared/schema';
+import {
+    getRecurringTrip,
+    getMyPasses,
+    getWeekStart,
+    subscribeWeeklyPass,
+    cancelWeeklyPass,
+    skipRecurringOccurrence,
+    setRecurringTripStatus,
+    generateRecurringTrips,
+    WEEKDAY_LABELS,
+} from '@/lib/recurring-trips-service';
+
+interface CommutePassCardProps {
+    trip: Trip;
+    isDriver: boolean;
+    userId?: string;
+    seats: number;
+}
+
+export function CommutePassCard({ trip, isDriver, userId, seats }: CommutePassCardProps) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const recurringTripId = trip.recurringTripId!;
+    const weekStart = getWeekStart(trip.occurrenceDate ? new Date(`${trip.occurrenceDate}T00:00:00`) : new Date(trip.departureTime));
+
+    const { data: commute } = useQuery({
+        queryKey: ['recurring-trip', recurringTripId],
+        queryFn: () => getRecurringTrip(recurringTripId),
+    });
+
+    const { data: passes = [] } = useQuery({
+        queryKey: ['recurring-trip-passes', recurringTripId, userId],
+        queryFn: () => getMyPasses(recurringTripId, userId!),
+        enabled: !isDriver && !!userId,
+    });
+
+    const weekPass = passes.find(p => p.weekStart === weekStart && p.status === 'active');
+
+    const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: ['recurring-trip', recurringTripId] });
+        queryClient.invalidateQueries({ queryKey: ['recurring-trip-passes', recurringTripId] });
+        queryClient.invalidateQueries({ queryKey: ['trip-details', trip.id] });
+        queryClient.invalidateQueries({ queryKey: ['trip-stops', trip.id] });
+        queryClient.invalidateQueries({ queryKey: ['my-bookings'] });
+    };
+
+    const subscribeMutation = useMutation({
+        mutationFn: () => subscribeWeeklyPass(recurringTripId, weekStart, seats),
+        onSuccess: () => {
+            refresh();
+            toast({ title: 'Weekly pass booked', description: 'Your seat is held on every day of this commute this week.' });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not book pass', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const cancelPassMutation = useMutation({
+        mutationFn: (passId: string) => cancelWeeklyPass(passId),
+        onSuccess: () => {
+            refresh();
+            toast({ title: 'Weekly pass cancelled', description: 'Remaining days are refunded under the cancellation policy.' });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not cancel pass', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const skipMutation = useMutation({
+        mutationFn: () => skipRecurringOccurrence(recurringTripId, trip.occurrenceDate!),
+        onSuccess: () => {
+            refresh();
+            toast({ title: 'Day skipped', description: 'Passengers on this day are refunded. The rest of the commute is unchanged.' });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not skip day', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const statusMutation = useMutation({
+        mutationFn: async (status: 'active' | 'paused') => {
+            await setRecurringTripStatus(recurringTripId, status);
+            // Fill in the days missed while paused
+            if (status === 'active') await generateRecurringTrips(recurringTripId);
+        },
+        onSuccess: (_, status) => {
+            refresh();
+            toast({ title: status === 'paused' ? 'Commute paused' : 'Commute resumed' });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not update commute', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    if (!commute) return null;
+
+    const passPrice = Math.round(parseFloat(commute.pricePerSeat) * (100 - commute.passDiscountPercent)) / 100;
+
+    return (
+        <Card className="p-6">
+            <h3 className="font-semibold mb-2 flex items-center gap-2">
+                <Repeat className="w-5 h-5 text-primary" />
+                Weekly Commute
+                {commute.status !== 'active' && (
+                    <Badge variant="secondary" className="capitalize">{commute.status}</Badge>
+                )}
+            </h3>
+            <p className="text-sm text-muted-foreground mb-4">
+                Every {commute.weekdays.map(d => WEEKDAY_LABELS[d]).join(', ')} at {commute.departureTime.slice(0, 5)}
+                {commute.endsOn && ` until ${format(new Date(commute.endsOn), 'MMM dd')}`}
+            </p>
+
+            {isDriver ? (
+                <div className="space-y-2">
+                    {trip.status === 'upcoming' && trip.occurrenceDate && (
+                        <Button
+                            variant="outline"
+                            className="w-full gap-2"
+                            onClick={() => skipMutation.mutate()}
+                            disabled={skipMutation.isPending}
+                            data-testid="button-skip-occurrence"
+                        >
+                            <CalendarX className="w-4 h-4" />
+                            Skip {format(new Date(trip.departureTime), 'EEE, MMM dd')} only
+                        </Button>
+                    )}
+                    {commute.status !== 'ended' && (
+                        <Button
+                            variant="ghost"
+                            className="w-full gap-2"
+                            onClick={() => statusMutation.mutate(commute.status === 'active' ? 'paused' : 'active')}
+                            disabled={statusMutation.isPending}
+                            data-testid="button-toggle-commute"
+                        >
+                            {commute.status === 'active' ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                            {commute.status === 'active' ? 'Pause commute' : 'Resume commute'}
+                        </Button>
+                    )}
+                </div>
+            ) : weekPass ? (
+                <div className="space-y-3">
+                    <div className="p-3 rounded-lg bg-success/10 text-sm flex items-center gap-2">
+                        <Ticket className="w-4 h-4 text-success" />
+                        Pass for the week of {format(new Date(weekPass.weekStart), 'MMM dd')} · {weekPass.seats} seat{weekPass.seats === 1 ? '' : 's'} at ₹{weekPass.pricePerSeat}
+                    </div>
+                    <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => cancelPassMutation.mutate(weekPass.id)}
+                        disabled={cancelPassMutation.isPending}
+                        data-testid="button-cancel-pass"
+                    >
+                        Cancel weekly pass
+                    </Button>
+                </div>
+            ) : commute.status === 'active' && (
+                <Button
+                    className="w-full gap-2"
+                    onClick={() => subscribeMutation.mutate()}
+                    disabled={subscribeMutation.isPending || !userId}
+                    data-testid="button-weekly-pass"
+                >
+                    <Ticket className="w-4 h-4" />
+                    Get weekly pass · ₹{passPrice} per seat per day
+                </Button>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,151 @@
+import { useQuery } from '@tanstack/react-query';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Building2, AlertTriangle } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { CorporateRidePolicy } from '@shared/schema';
+import {
+    CorporateBillingSelection,
+    getMyCorporateAccount,
+    getCostCentres,
+    getPurposeCodes,
+    getRidePolicies,
+    effectiveRidePolicy,
+} from '@/lib/corporate-billing-service';
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+interface CorporateBillingSelectorProps {
+    amount: number;
+    value: CorporateBillingSelection | null;
+    onChange: (value: CorporateBillingSelection | null) => void;
+}
+
+function describePolicy(policy: CorporateRidePolicy) {
+    const parts: string[] = [];
+    if (policy.maxFare) parts.push(`Up to ₹${policy.maxFare}`);
+    if (policy.allowedDays.length < 7) {
+        parts.push([...policy.allowedDays].sort().map(day => WEEKDAY_LABELS[day - 1]).join(', '));
+    }
+    if (policy.allowedStart && policy.allowedEnd) parts.push(`${policy.allowedStart}–${policy.allowedEnd}`);
+    if (policy.placesOnly) parts.push('Home and office only');
+    return parts.join(' · ');
+}
+
+/**
+ * Lets an employee bill the booking to their company. Renders nothing when
+ * the user's organization has no corporate account.
+ */
+export function CorporateBillingSelector({ amount, value, onChange }: CorporateBillingSelectorProps) {
+    const { user } = useAuth();
+
+    const { data: account } = useQuery({
+        queryKey: ['corporate-account', user?.id],
+        queryFn: () => getMyCorporateAccount(user!.id),
+        enabled: !!user,
+    });
+
+    const { data: costCentres = [] } = useQuery({
+        queryKey: ['cost-centres', account?.id, 'active'],
+        queryFn: () => getCostCentres(account!.id, true),
+        enabled: !!account,
+    });
+
+    const { data: purposeCodes = [] } = useQuery({
+        queryKey: ['purpose-codes', account?.id, 'active'],
+        queryFn: () => getPurposeCodes(account!.id, true),
+        enabled: !!account,
+    });
+
+    const { data: policies = [] } = useQuery({
+        queryKey: ['ride-policies', account?.id],
+        queryFn: () => getRidePolicies(account!.id),
+        enabled: !!account,
+    });
+
+    if (!account) return null;
+
+    const policy = effectiveRidePolicy(policies, value?.costCentreId);
+    const overLimit = !!value && !!policy?.maxFare && amount > parseFloat(policy.maxFare);
+
+    return (
+        <div className="rounded-lg border p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="bill-to-company" className="flex items-center gap-2 cursor-pointer">
+                    <Building2 className="w-4 h-4 text-primary" />
+                    <span>
+                        Bill to {account.billingName}
+                        <span className="block text-[10px] text-muted-foreground font-normal">
+                            Nothing to pay now; your company is invoiced monthly
+                        </span>
+                    </span>
+                </Label>
+                <Switch
+                    id="bill-to-company"
+                    checked={!!value}
+                    onCheckedChange={(checked) => onChange(checked ? {} : null)}
+                />
+            </div>
+
+            {value && (
+                <>
+                    {costCentres.length > 0 && (
+                        <div>
+                            <Label className="text-xs text-muted-foreground mb-1.5 block">Cost Centre</Label>
+                            <Select
+                                value={value.costCentreId}
+                                onValueChange={(costCentreId) => onChange({ ...value, costCentreId })}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Choose a cost centre" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {costCentres.map(centre => (
+                                        <SelectItem key={centre.id} value={centre.id}>
+                                            {centre.code} · {centre.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    {purposeCodes.length > 0 && (
+                        <div>
+                            <Label className="text-xs text-muted-foreground mb-1.5 block">
+                                Purpose{policy?.requirePurpose ? '' : ' (optional)'}
+                            </Label>
+                            <Select
+                                value={value.purposeCode}
+                                onValueChange={(purposeCode) => onChange({ ...value, purposeCode })}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Why are you travelling?" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {purposeCodes.map(purpose => (
+                                        <SelectItem key={purpose.id} value={purpose.code}>
+                                            {purpose.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
+                    {policy && describePolicy(policy) && (
+                        <p className="text-xs text-muted-foreground">Company policy: {describePolicy(policy)}</p>
+                    )}
+
+                    {overLimit && (
+                        <p className="text-xs text-destructive flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            This fare is above your company's limit of ₹{policy!.maxFare}
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
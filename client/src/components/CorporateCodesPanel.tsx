@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CorporateAccount } from '@shared/schema';
+import {
+    getCostCentres,
+    createCostCentre,
+    setCostCentreActive,
+    getPurposeCodes,
+    createPurposeCode,
+    setPurposeCodeActive,
+} from '@/lib/corporate-billing-service';
+
+interface CodeRow {
+    id: string;
+    code: string;
+    name: string;
+    isActive: boolean;
+}
+
+interface CodeListProps {
+    title: string;
+    description: string;
+    nameLabel: string;
+    rows: CodeRow[];
+    onAdd: (code: string, name: string) => Promise<void>;
+    onToggle: (id: string, isActive: boolean) => Promise<void>;
+}
+
+function CodeList({ title, description, nameLabel, rows, onAdd, onToggle }: CodeListProps) {
+    const { toast } = useToast();
+    const [code, setCode] = useState('');
+    const [name, setName] = useState('');
+
+    const addMutation = useMutation({
+        mutationFn: () => onAdd(code.trim().toUpperCase(), name.trim()),
+        onSuccess: () => {
+            setCode('');
+            setName('');
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not add', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const toggleMutation = useMutation({
+        mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => onToggle(id, isActive),
+        onError: (error: any) => {
+            toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    return (
+        <Card className="p-6 space-y-4">
+            <div>
+                <h2 className="text-lg font-semibold">{title}</h2>
+                <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+
+            <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                    e.preventDefault();
+                    addMutation.mutate();
+                }}
+            >
+                <Input
+                    className="w-32"
+                    placeholder="Code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    required
+                />
+                <Input
+                    placeholder={nameLabel}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                />
+                <Button type="submit" size="icon" disabled={addMutation.isPending || !code.trim() || !name.trim()}>
+                    <Plus className="w-4 h-4" />
+                </Button>
+            </form>
+
+            {rows.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">None yet</p>
+            ) : (
+                <div className="divide-y">
+                    {rows.map(row => (
+                        <div key={row.id} className="flex items-center justify-between py-2">
+                            <div className={row.isActive ? '' : 'opacity-50'}>
+                                <span className="font-mono text-xs mr-2">{row.code}</span>
+                                <span className="text-sm">{row.name}</span>
+                            </div>
+                            <Switch
+                                checked={row.isActive}
+                                onCheckedChange={(isActive) => toggleMutation.mutate({ id: row.id, isActive })}
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </Card>
+    );
+}
+
+/**
+ * Cost centres and purpose codes employees pick from when billing a ride
+ */
+export function CorporateCodesPanel({ account }: { account: CorporateAccount }) {
+    const queryClient = useQueryClient();
+
+    const { data: costCentres = [] } = useQuery({
+        queryKey: ['cost-centres', account.id],
+        queryFn: () => getCostCentres(account.id),
+    });
+
+    const { data: purposeCodes = [] } = useQuery({
+        queryKey: ['purpose-codes', account.id],
+        queryFn: () => getPurposeCodes(account.id),
+    });
+
+    const refresh = (key: string) => queryClient.invalidateQueries({ queryKey: [key, account.id] });
+
+    return (
+        <div className="grid md:grid-cols-2 gap-6">
+            <CodeList
+                title="Cost Centres"
+                description="Once any exist, every company ride must be charged to one."
+                nameLabel="Name"
+                rows={costCentres}
+                onAdd={async (code, name) => {
+                    await createCostCentre(account.id, code, name);
+                    refresh('cost-centres');
+                }}
+                onToggle={async (id, isActive) => {
+                    await setCostCentreActive(id, isActive);
+                    refresh('cost-centres');
+                }}
+            />
+            <CodeList
+                title="Purpose Codes"
+                description="Why the trip was taken, e.g. client visit or late shift."
+                nameLabel="Label"
+                rows={purposeCodes.map(p => ({ id: p.id, code: p.code, name: p.label, isActive: p.isActive }))}
+                onAdd={async (code, label) => {
+                    await createPurposeCode(account.id, code, label);
+                    refresh('purpose-codes');
+                }}
+                onToggle={async (id, isActive) => {
+                    await setPurposeCodeActive(id, isActive);
+                    refresh('purpose-codes');
+                }}
+            />
+        </div>
+    );
+}
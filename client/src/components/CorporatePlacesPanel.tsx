@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LocationAutocomplete } from '@/components/LocationAutocomplete';
+import { Briefcase, Home, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Coordinates } from '@/lib/maps';
+import { CorporateAccount, CorporatePlace } from '@shared/schema';
+import { getCorporatePlaces, addCorporatePlace, removeCorporatePlace } from '@/lib/corporate-billing-service';
+
+const DEFAULT_RADIUS_M = 300;
+
+/**
+ * Office locations, and the employee homes used by home-and-office-only policies
+ */
+export function CorporatePlacesPanel({ account }: { account: CorporateAccount }) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [label, setLabel] = useState('');
+    const [address, setAddress] = useState('');
+    const [coords, setCoords] = useState<Coordinates | null>(null);
+    const [radius, setRadius] = useState(String(DEFAULT_RADIUS_M));
+
+    const { data: places = [] } = useQuery<CorporatePlace[]>({
+        queryKey: ['corporate-places', account.id],
+        queryFn: () => getCorporatePlaces(account.id),
+    });
+
+    const offices = places.filter(p => p.placeType === 'office');
+    const homes = places.filter(p => p.placeType === 'home');
+
+    const addMutation = useMutation({
+        mutationFn: () => addCorporatePlace({
+            corporateAccountId: account.id,
+            placeType: 'office',
+            label,
+            address,
+            lat: coords!.lat,
+            lng: coords!.lng,
+            radiusM: parseInt(radius) || DEFAULT_RADIUS_M,
+        }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['corporate-places', account.id] });
+            setLabel('');
+            setAddress('');
+            setCoords(null);
+            setRadius(String(DEFAULT_RADIUS_M));
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not add office', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const removeMutation = useMutation({
+        mutationFn: removeCorporatePlace,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['corporate-places', account.id] });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const renderPlace = (place: CorporatePlace) => (
+        <div key={place.id} className="flex items-start justify-between gap-3 py-3">
+            <div className="min-w-0">
+                <p className="font-medium text-sm">
+                    {place.placeType === 'home' ? place.user?.fullName ?? place.label : place.label}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{place.address}</p>
+                <p className="text-[10px] text-muted-foreground">Within {place.radiusM} m</p>
+            </div>
+            <Button
+                variant="ghost"
+                size="icon"
+                className="text-destructive shrink-0"
+                onClick={() => removeMutation.mutate(place.id)}
+                disabled={removeMutation.isPending}
+            >
+                <Trash2 className="w-4 h-4" />
+            </Button>
+        </div>
+    );
+
+    return (
+        <div className="grid md:grid-cols-2 gap-6">
+            <Card className="p-6 space-y-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Briefcase className="w-5 h-5 text-primary" />
+                    Offices
+                </h2>
+
+                <form
+                    className="space-y-3"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        addMutation.mutate();
+                    }}
+                >
+                    <div>
+                        <Label htmlFor="office-label">Name</Label>
+                        <Input
+                            id="office-label"
+                            placeholder="e.g. Whitefield Campus"
+                            value={label}
+                            onChange={(e) => setLabel(e.target.value)}
+                            required
+                        />
+                    </div>
+                    <div>
+                        <Label>Location</Label>
+                        <LocationAutocomplete
+                            value={address}
+                            onChange={(val, newCoords) => {
+                                setAddress(val);
+                                setCoords(newCoords || null);
+                            }}
+                            placeholder="Search office address"
+                        />
+                    </div>
+                    <div>
+                        <Label htmlFor="office-radius">Radius (m)</Label>
+                        <Input
+                            id="office-radius"
+                            type="number"
+                            min={50}
+                            max={5000}
+                            value={radius}
+                            onChange={(e) => setRadius(e.target.value)}
+                        />
+                    </div>
+                    <Button type="submit" className="w-full" disabled={addMutation.isPending || !label.trim() || !coords}>
+                        {addMutation.isPending ? 'Adding...' : 'Add Office'}
+                    </Button>
+                </form>
+
+                {offices.length > 0 && <div className="divide-y border-t">{offices.map(renderPlace)}</div>}
+            </Card>
+
+            <Card className="p-6 space-y-4">
+                <div>
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <Home className="w-5 h-5 text-primary" />
+                        Employee Homes
+                    </h2>
+                    <p className="text-sm text-muted-foreground">
+                        Employees set their own home from Corporate Carpooling in the account menu.
+                    </p>
+                </div>
+
+                {homes.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No homes registered yet</p>
+                ) : (
+                    <div className="divide-y">{homes.map(renderPlace)}</div>
+                )}
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CorporateAccount, CorporateRidePolicy } from '@shared/schema';
+import { getCostCentres, getRidePolicies, saveRidePolicy, deleteRidePolicy } from '@/lib/corporate-billing-service';
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DEFAULT_SCOPE = 'default';
+
+type PolicyForm = Omit<CorporateRidePolicy, 'id' | 'corporateAccountId' | 'costCentreId'>;
+
+const EMPTY_POLICY: PolicyForm = {
+    allowedDays: [1, 2, 3, 4, 5, 6, 7],
+    allowedStart: '',
+    allowedEnd: '',
+    maxFare: '',
+    placesOnly: false,
+    requirePurpose: false,
+};
+
+/**
+ * Edits the account's default ride policy and per-cost-centre overrides
+ */
+export function CorporatePolicyEditor({ account }: { account: CorporateAccount }) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [scope, setScope] = useState(DEFAULT_SCOPE);
+    const [form, setForm] = useState<PolicyForm>(EMPTY_POLICY);
+
+    const { data: policies = [] } = useQuery({
+        queryKey: ['ride-policies', account.id],
+        queryFn: () => getRidePolicies(account.id),
+    });
+
+    const { data: costCentres = [] } = useQuery({
+        queryKey: ['cost-centres', account.id],
+        queryFn: () => getCostCentres(account.id),
+    });
+
+    const current = policies.find(p => scope === DEFAULT_SCOPE ? !p.costCentreId : p.costCentreId === scope);
+
+    useEffect(() => {
+        setForm(current ? {
+            allowedDays: current.allowedDays,
+            allowedStart: current.allowedStart ?? '',
+            allowedEnd: current.allowedEnd ?? '',
+            maxFare: current.maxFare ?? '',
+            placesOnly: current.placesOnly,
+            requirePurpose: current.requirePurpose,
+        } : EMPTY_POLICY);
+    }, [current]);
+
+    const saveMutation = useMutation({
+        mutationFn: () => saveRidePolicy({
+            ...form,
+            id: current?.id,
+            corporateAccountId: account.id,
+            costCentreId: scope === DEFAULT_SCOPE ? null : scope,
+        }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['ride-policies', account.id] });
+            toast({ title: 'Policy saved' });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not save policy', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: deleteRidePolicy,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['ride-policies', account.id] });
+            toast({ title: 'Override removed', description: 'This cost centre now follows the default policy.' });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const toggleDay = (day: number) => {
+        setForm(prev => ({
+            ...prev,
+            allowedDays: prev.allowedDays.includes(day)
+                ? prev.allowedDays.filter(d => d !== day)
+                : [...prev.allowedDays, day].sort(),
+        }));
+    };
+
+    const hasWindow = !!form.allowedStart === !!form.allowedEnd;
+
+    return (
+        <Card className="p-6 space-y-5">
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <ShieldCheck className="w-5 h-5 text-primary" />
+                    Ride Policy
+                </h2>
+                <Select value={scope} onValueChange={setScope}>
+                    <SelectTrigger className="w-56">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={DEFAULT_SCOPE}>Company default</SelectItem>
+                        {costCentres.map(centre => (
+                            <SelectItem key={centre.id} value={centre.id}>
+                                {centre.code} · {centre.name}
+                                {policies.some(p => p.costCentreId === centre.id) ? ' (custom)' : ''}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {scope !== DEFAULT_SCOPE && !current && (
+                <p className="text-xs text-muted-foreground">
+                    This cost centre follows the company default. Saving creates an override.
+                </p>
+            )}
+
+            <div>
+                <Label className="mb-2 block">Allowed Days</Label>
+                <div className="flex flex-wrap gap-2">
+                    {WEEKDAY_LABELS.map((label, i) => (
+                        <Button
+                            key={label}
+                            type="button"
+                            size="sm"
+                            variant={form.allowedDays.includes(i + 1) ? 'default' : 'outline'}
+                            onClick={() => toggleDay(i + 1)}
+                        >
+                            {label}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <Label htmlFor="policy-start">Departures From</Label>
+                    <Input
+                        id="policy-start"
+                        type="time"
+                        value={form.allowedStart ?? ''}
+                        onChange={(e) => setForm(prev => ({ ...prev, allowedStart: e.target.value }))}
+                    />
+                </div>
+                <div>
+                    <Label htmlFor="policy-end">Until</Label>
+                    <Input
+                        id="policy-end"
+                        type="time"
+                        value={form.allowedEnd ?? ''}
+                        onChange={(e) => setForm(prev => ({ ...prev, allowedEnd: e.target.value }))}
+                    />
+                </div>
+            </div>
+            {!hasWindow && (
+                <p className="text-xs text-destructive">Set both times, or leave both empty for any time.</p>
+            )}
+
+            <div>
+                <Label htmlFor="policy-max-fare">Maximum Fare per Booking (₹)</Label>
+                <Input
+                    id="policy-max-fare"
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    value={form.maxFare ?? ''}
+                    onChange={(e) => setForm(prev => ({ ...prev, maxFare: e.target.value }))}
+                />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="policy-places-only">
+                    Home and office only
+                    <span className="block text-xs text-muted-foreground font-normal">
+                        Pickup and drop must each be an office or the employee's home
+                    </span>
+                </Label>
+                <Switch
+                    id="policy-places-only"
+                    checked={form.placesOnly}
+                    onCheckedChange={(placesOnly) => setForm(prev => ({ ...prev, placesOnly }))}
+                />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="policy-require-purpose">Require a purpose code</Label>
+                <Switch
+                    id="policy-require-purpose"
+                    checked={form.requirePurpose}
+                    onCheckedChange={(requirePurpose) => setForm(prev => ({ ...prev, requirePurpose }))}
+                />
+            </div>
+
+            <div className="flex gap-2">
+                <Button
+                    className="flex-1"
+                    onClick={() => saveMutation.mutate()}
+                    disabled={saveMutation.isPending || !hasWindow || form.allowedDays.length === 0}
+                >
+                    {saveMutation.isPending ? 'Saving...' : 'Save Policy'}
+                </Button>
+                {scope !== DEFAULT_SCOPE && current && (
+                    <Button
+                        variant="outline"
+                        onClick={() => deleteMutation.mutate(current.id)}
+                        disabled={deleteMutation.isPending}
+                    >
+                        Use Default
+                    </Button>
+                )}
+            </div>
+        </Card>
+    );
+}
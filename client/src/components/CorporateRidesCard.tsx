@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { LocationAutocomplete } from '@/components/LocationAutocomplete';
+import { Home, Receipt, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Coordinates } from '@/lib/maps';
+import { getMyCorporateAccount, getCorporatePlaces, addCorporatePlace, removeCorporatePlace } from '@/lib/corporate-billing-service';
+
+interface CorporateRidesCardProps {
+    userId: string;
+    isOrgAdmin: boolean;
+    onNavigate: () => void;
+}
+
+/**
+ * Company billing for a verified member: their registered home for
+ * home-and-office rides, and the billing dashboard link for org admins
+ */
+export function CorporateRidesCard({ userId, isOrgAdmin, onNavigate }: CorporateRidesCardProps) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [, setLocation] = useLocation();
+    const [address, setAddress] = useState('');
+    const [coords, setCoords] = useState<Coordinates | null>(null);
+
+    const { data: account } = useQuery({
+        queryKey: ['corporate-account', userId],
+        queryFn: () => getMyCorporateAccount(userId),
+    });
+
+    const { data: places = [] } = useQuery({
+        queryKey: ['corporate-places', account?.id],
+        queryFn: () => getCorporatePlaces(account!.id),
+        enabled: !!account,
+    });
+
+    const home = places.find(p => p.placeType === 'home' && p.userId === userId);
+
+    const saveMutation = useMutation({
+        mutationFn: async () => {
+            if (home) await removeCorporatePlace(home.id);
+            await addCorporatePlace({
+                corporateAccountId: account!.id,
+                placeType: 'home',
+                userId,
+                label: 'Home',
+                address,
+                lat: coords!.lat,
+                lng: coords!.lng,
+            });
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['corporate-places', account?.id] });
+            setAddress('');
+            setCoords(null);
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not save home', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const removeMutation = useMutation({
+        mutationFn: removeCorporatePlace,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['corporate-places', account?.id] });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    if (!account) return null;
+
+    return (
+        <div className="border rounded-lg p-3 space-y-3">
+            <p className="text-sm">
+                Rides can be billed to <strong>{account.billingName}</strong>.
+            </p>
+
+            <div className="space-y-2">
+                <p className="text-xs font-medium flex items-center gap-1">
+                    <Home className="w-3 h-3" />
+                    Home for company rides
+                </p>
+                {home && (
+                    <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        <span className="truncate">{home.address}</span>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-destructive shrink-0"
+                            onClick={() => removeMutation.mutate(home.id)}
+                            disabled={removeMutation.isPending}
+                        >
+                            <Trash2 className="w-3 h-3" />
+                        </Button>
+                    </div>
+                )}
+                <div className="flex gap-2">
+                    <LocationAutocomplete
+                        className="flex-1"
+                        value={address}
+                        onChange={(val, newCoords) => {
+                            setAddress(val);
+                            setCoords(newCoords || null);
+                        }}
+                        placeholder={home ? 'Change home address' : 'Search your home address'}
+                    />
+                    <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !coords}>
+                        Save
+                    </Button>
+                </div>
+            </div>
+
+            {isOrgAdmin && (
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full gap-2"
+                    onClick={() => {
+                        onNavigate();
+                        setLocation('/organization/billing');
+                    }}
+                >
+                    <Receipt className="w-4 h-4" />
+                    Company Billing
+                </Button>
+            )}
+        </div>
+    );
+}
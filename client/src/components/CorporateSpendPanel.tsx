@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Receipt, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CorporateAccount, CorporateInvoice } from '@shared/schema';
+import {
+    CorporateSpendReport,
+    getCorporateSpend,
+    getCorporateInvoices,
+    downloadCorporateInvoiceCsv,
+} from '@/lib/corporate-billing-service';
+
+const MONTHS_SHOWN = 6;
+
+const formatCurrency = (value: number | string) =>
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(Number(value));
+
+const INVOICE_STATUS_VARIANTS: Record<CorporateInvoice['status'], 'default' | 'secondary' | 'outline'> = {
+    issued: 'secondary',
+    paid: 'default',
+    void: 'outline',
+};
+
+/**
+ * Spend per employee and cost centre for a month, and the monthly invoices
+ */
+export function CorporateSpendPanel({ account }: { account: CorporateAccount }) {
+    const { toast } = useToast();
+    const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+    const monthStart = new Date(`${month}-01T00:00:00`);
+
+    const { data: report, isLoading } = useQuery<CorporateSpendReport>({
+        queryKey: ['corporate-spend', account.id, month],
+        queryFn: () => getCorporateSpend(account.id, startOfMonth(monthStart), endOfMonth(monthStart)),
+    });
+
+    const { data: invoices = [] } = useQuery<CorporateInvoice[]>({
+        queryKey: ['corporate-invoices', account.id],
+        queryFn: () => getCorporateInvoices(account.id),
+    });
+
+    const handleDownload = async (invoice: CorporateInvoice) => {
+        try {
+            await downloadCorporateInvoiceCsv(invoice);
+        } catch (error: any) {
+            toast({ title: 'Download failed', description: error.message, variant: 'destructive' });
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-lg font-semibold">Company Spend</h2>
+                <Select value={month} onValueChange={setMonth}>
+                    <SelectTrigger className="w-44">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {Array.from({ length: MONTHS_SHOWN }, (_, i) => subMonths(new Date(), i)).map(date => (
+                            <SelectItem key={format(date, 'yyyy-MM')} value={format(date, 'yyyy-MM')}>
+                                {format(date, 'MMMM yyyy')}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+                <Card className="p-4">
+                    <p className="text-xs text-muted-foreground">Total Spend</p>
+                    <p className="text-2xl font-bold">{formatCurrency(report?.total_amount ?? 0)}</p>
+                </Card>
+                <Card className="p-4">
+                    <p className="text-xs text-muted-foreground">Rides</p>
+                    <p className="text-2xl font-bold">{report?.ride_count ?? 0}</p>
+                </Card>
+                <Card className="p-4">
+                    <p className="text-xs text-muted-foreground">Average Fare</p>
+                    <p className="text-2xl font-bold">
+                        {formatCurrency(report?.ride_count ? report.total_amount / report.ride_count : 0)}
+                    </p>
+                </Card>
+            </div>
+
+            <Card>
+                <div className="p-4 border-b flex items-center gap-2">
+                    <Users className="w-4 h-4 text-primary" />
+                    <h3 className="font-semibold">By Employee</h3>
+                </div>
+                {isLoading ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">Loading spend...</p>
+                ) : !report?.employees.length ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">No company-billed rides this month</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Employee</TableHead>
+                                <TableHead className="text-right">Rides</TableHead>
+                                <TableHead className="text-right">Spend</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {report.employees.map(row => (
+                                <TableRow key={row.user_id}>
+                                    <TableCell>
+                                        <div className="font-medium">{row.full_name}</div>
+                                        {row.work_email && (
+                                            <div className="text-xs text-muted-foreground">{row.work_email}</div>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="text-right">{row.ride_count}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(row.total_amount)}</TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </Card>
+
+            {!!report?.cost_centres.length && (
+                <Card>
+                    <div className="p-4 border-b">
+                        <h3 className="font-semibold">By Cost Centre</h3>
+                    </div>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Cost Centre</TableHead>
+                                <TableHead className="text-right">Rides</TableHead>
+                                <TableHead className="text-right">Spend</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {report.cost_centres.map(row => (
+                                <TableRow key={row.cost_centre_id ?? 'none'}>
+                                    <TableCell>{row.code ? `${row.code} · ${row.name}` : 'Unassigned'}</TableCell>
+                                    <TableCell className="text-right">{row.ride_count}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(row.total_amount)}</TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </Card>
+            )}
+
+            <Card>
+                <div className="p-4 border-b flex items-center gap-2">
+                    <Receipt className="w-4 h-4 text-primary" />
+                    <h3 className="font-semibold">Invoices</h3>
+                </div>
+                {invoices.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-8">
+                        Rides are invoiced on the 1st of each month
+                    </p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Invoice</TableHead>
+                                <TableHead>Period</TableHead>
+                                <TableHead className="text-right">Rides</TableHead>
+                                <TableHead className="text-right">Total</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {invoices.map(invoice => (
+                                <TableRow key={invoice.id}>
+                                    <TableCell className="font-mono text-xs">{invoice.invoiceNumber}</TableCell>
+                                    <TableCell>{format(new Date(invoice.periodStart), 'MMM yyyy')}</TableCell>
+                                    <TableCell className="text-right">{invoice.rideCount}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(invoice.totalAmount)}</TableCell>
+                                    <TableCell>
+                                        <Badge variant={INVOICE_STATUS_VARIANTS[invoice.status]} className="capitalize">
+                                            {invoice.status}
+                                        </Badge>
+                                        {invoice.status === 'issued' && (
+                                            <div className="text-[10px] text-muted-foreground mt-1">
+                                                Due {format(new Date(invoice.dueDate), 'dd MMM')}
+                                            </div>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="text-right">
+                                        <Button size="sm" variant="ghost" className="gap-1" onClick={() => handleDownload(invoice)}>
+                                            <Download className="w-3 h-3" />
+                                            CSV
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </Card>
+        </div>
+    );
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { Clock, MapPin } from 'lucide-react';
+import { Clock, MapPin, AlertTriangle } from 'lucide-react';
 import { calculateDistance, formatDistance, Location } from '@/lib/geofence';
 import { getRoute } from '@/lib/maps';
 
@@ -9,6 +9,7 @@ interface DriverArrivalTimerProps {
     driverLocation: Location;
     pickupLocation: Location;
     estimatedArrivalMinutes?: number;
+    waitUntil?: string | null; // set once the driver checks in at the pickup
     className?: string;
 }
 
@@ -16,8 +17,10 @@ export function DriverArrivalTimer({
     driverLocation,
     pickupLocation,
     estimatedArrivalMinutes = 5,
+    waitUntil,
     className = '',
 }: DriverArrivalTimerProps) {
+    const [now, setNow] = useState(Date.now());
     const [distance, setDistance] = useState(0);
     const [timeRemaining, setTimeRemaining] = useState(estimatedArrivalMinutes * 60); // in seconds
     const [progress, setProgress] = useState(0);
@@ -66,6 +69,7 @@ export function DriverArrivalTimer({
                 if (prev <= 0) return 0;
                 return prev - 1;
             });
+            setNow(Date.now());
         }, 1000);
         return () => clearInterval(interval);
     }, []);
@@ -144,7 +148,21 @@ export function DriverArrivalTimer({
                     </div>
                 )}
 
-                {timeRemaining <= 0 && (
+                {waitUntil && (() => {
+                    const waitLeft = Math.max(0, Math.ceil((new Date(waitUntil).getTime() - now) / 1000));
+                    return (
+                        <div className="flex items-start gap-2 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+                            <AlertTriangle className="w-4 h-4 text-destructive mt-0.5" />
+                            <span className="text-sm">
+                                {waitLeft > 0
+                                    ? `Your driver is waiting at the pickup. Please be there within ${formatTime(waitLeft)} to avoid a no-show fee.`
+                                    : 'The wait time is over. Your driver can now mark you as a no-show.'}
+                            </span>
+                        </div>
+                    );
+                })()}
+
+                {!waitUntil && timeRemaining <= 0 && (
                     <div className="text-center">
                         <div className="inline-flex items-center gap-2 px-4 py-2 bg-success/10 border border-success/20 rounded-full">
                             <div className="w-2 h-2 bg-success rounded-full" />
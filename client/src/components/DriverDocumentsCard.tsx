@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { FileText, Upload, AlertTriangle, Clock } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import {
+    getDriverDocuments,
+    documentSlots,
+    daysUntilExpiry,
+    uploadDriverDocument,
+    DriverDocumentSlot,
+    EXPIRY_WARNING_DAYS,
+} from '@/lib/driver-documents-service';
+
+interface DriverDocumentsCardProps {
+    driverId: string;
+    userId: string;
+}
+
+export function DriverDocumentsCard({ driverId, userId }: DriverDocumentsCardProps) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [uploadingSlot, setUploadingSlot] = useState<DriverDocumentSlot | null>(null);
+    const [file, setFile] = useState<File | null>(null);
+
+    const { data: documents = [] } = useQuery({
+        queryKey: ['driver-documents', driverId],
+        queryFn: () => getDriverDocuments(driverId),
+    });
+
+    const uploadMutation = useMutation({
+        mutationFn: (values: { documentNumber: string; issuedOn: string; expiresOn: string }) =>
+            uploadDriverDocument(driverId, userId, { docType: uploadingSlot!.docType, file: file!, ...values }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['driver-documents', driverId] });
+            toast({ title: 'Document uploaded', description: 'We will review it shortly. Your current approval stays valid until then.' });
+            setUploadingSlot(null);
+            setFile(null);
+        },
+        onError: (error: any) => {
+            toast({ title: 'Upload failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const renderStatus = (slot: DriverDocumentSlot) => {
+        if (!slot.active) {
+            return slot.pending
+                ? <Badge variant="secondary">In review</Badge>
+                : <Badge variant="outline">Not uploaded</Badge>;
+        }
+
+        const days = daysUntilExpiry(slot.active);
+        if (slot.active.status === 'expired' || (days !== null && days < 0)) {
+            return <Badge variant="destructive">Expired</Badge>;
+        }
+        if (days !== null && days <= EXPIRY_WARNING_DAYS) {
+            return <Badge variant="secondary" className="text-warning">Expires in {days} day{days === 1 ? '' : 's'}</Badge>;
+        }
+        return <Badge>Verified</Badge>;
+    };
+
+    return (
+        <Card className="p-6 mt-6">
+            <h3 className="font-semibold mb-1 flex items-center gap-2">
+                <FileText className="w-5 h-5 text-primary" />
+                Documents
+            </h3>
+            <p className="text-sm text-muted-foreground mb-4">
+                Keep these up to date. You go offline automatically if an approved document expires.
+            </p>
+
+            <div className="divide-y">
+                {documentSlots(documents).map(slot => (
+                    <div key={slot.docType} className="py-3 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                            <div className="font-medium flex items-center gap-2">
+                                {slot.label}
+                                {renderStatus(slot)}
+                            </div>
+                            <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
+                                {slot.active?.expiresOn && (
+                                    <div>Valid until {format(new Date(slot.active.expiresOn), 'dd MMM yyyy')}</div>
+                                )}
+                                {slot.active && slot.pending && (
+                                    <div className="flex items-center gap-1">
+                                        <Clock className="w-3 h-3" />
+                                        Renewal uploaded {format(new Date(slot.pending.createdAt), 'dd MMM')}, in review
+                                    </div>
+                                )}
+                                {slot.rejected && (
+                                    <div className="flex items-center gap-1 text-destructive">
+                                        <AlertTriangle className="w-3 h-3" />
+                                        Last upload rejected{slot.rejected.rejectionReason ? `: ${slot.rejected.rejectionReason}` : ''}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2 shrink-0"
+                            onClick={() => setUploadingSlot(slot)}
+                            disabled={!!slot.pending}
+                            data-testid={`button-upload-${slot.docType}`}
+                        >
+                            <Upload className="w-4 h-4" />
+                            {slot.active ? 'Renew' : 'Upload'}
+                        </Button>
+                    </div>
+                ))}
+            </div>
+
+            <Dialog open={!!uploadingSlot} onOpenChange={(open) => !open && setUploadingSlot(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>{uploadingSlot?.label}</DialogTitle>
+                    </DialogHeader>
+                    <form
+                        className="space-y-4"
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            const formData = new FormData(e.currentTarget);
+                            uploadMutation.mutate({
+                                documentNumber: formData.get('documentNumber') as string,
+                                issuedOn: formData.get('issuedOn') as string,
+                                expiresOn: formData.get('expiresOn') as string,
+                            });
+                        }}
+                    >
+                        <div className="grid gap-2">
+                            <Label htmlFor="documentNumber">Document number</Label>
+                            <Input id="documentNumber" name="documentNumber" />
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="grid gap-2">
+                                <Label htmlFor="issuedOn">Issued on</Label>
+                                <Input id="issuedOn" name="issuedOn" type="date" />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="expiresOn">Expires on</Label>
+                                <Input
+                                    id="expiresOn"
+                                    name="expiresOn"
+                                    type="date"
+                                    min={format(new Date(), 'yyyy-MM-dd')}
+                                    required={uploadingSlot?.docType !== 'police_verification'}
+                                />
+                            </div>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="documentFile">Photo or PDF</Label>
+                            <Input
+                                id="documentFile"
+                                type="file"
+                                accept="image/*,application/pdf"
+                                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                                required
+                            />
+                        </div>
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => setUploadingSlot(null)}>Cancel</Button>
+                            <Button type="submit" disabled={!file || uploadMutation.isPending}>
+                                {uploadMutation.isPending ? 'Uploading...' : 'Submit for review'}
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Car, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_SEAT_COUNT, Vehicle } from '@shared/schema';
+import {
+    getDriverVehicles,
+    addVehicle,
+    archiveVehicle,
+    setActiveVehicle,
+} from '@/lib/vehicles-service';
+
+interface DriverVehiclesCardProps {
+    driverId: string;
+    activeVehicleId?: string | null;
+}
+
+export function DriverVehiclesCard({ driverId, activeVehicleId }: DriverVehiclesCardProps) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [isAdding, setIsAdding] = useState(false);
+    const [vehicleType, setVehicleType] = useState<Vehicle['vehicleType']>('car');
+
+    const { data: vehicles = [] } = useQuery({
+        queryKey: ['driver-vehicles', driverId],
+        queryFn: () => getDriverVehicles(driverId),
+    });
+
+    const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: ['driver-vehicles', driverId] });
+        queryClient.invalidateQueries({ queryKey: ['driver-profile'] });
+        queryClient.invalidateQueries({ queryKey: ['my-driver-profile'] });
+    };
+
+    const onError = (error: any) => {
+        toast({ title: 'Something went wrong', description: error.message, variant: 'destructive' });
+    };
+
+    const addMutation = useMutation({
+        mutationFn: (formData: FormData) => addVehicle(driverId, {
+            vehicleType,
+            make: formData.get('make') as string,
+            model: formData.get('model') as string,
+            year: parseInt(formData.get('year') as string) || null,
+            color: formData.get('color') as string,
+            plate: formData.get('plate') as string,
+            seatCount: parseInt(formData.get('seatCount') as string),
+        }),
+        onSuccess: () => {
+            refresh();
+            toast({ title: 'Vehicle added', description: 'You can drive with it once it is verified.' });
+            setIsAdding(false);
+        },
+        onError,
+    });
+
+    const activateMutation = useMutation({
+        mutationFn: (vehicleId: string) => setActiveVehicle(driverId, vehicleId),
+        onSuccess: refresh,
+        onError,
+    });
+
+    const archiveMutation = useMutation({
+        mutationFn: archiveVehicle,
+        onSuccess: refresh,
+        onError,
+    });
+
+    const renderStatus = (vehicle: Vehicle) => {
+        if (vehicle.id === activeVehicleId) return <Badge>Active</Badge>;
+        if (vehicle.verificationStatus === 'pending') return <Badge variant="secondary">In review</Badge>;
+        if (vehicle.verificationStatus === 'rejected') return <Badge variant="destructive">Rejected</Badge>;
+        return <Badge variant="outline">Verified</Badge>;
+    };
+
+    return (
+        <Card className="p-6 mt-6">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h3 className="font-semibold flex items-center gap-2">
+                        <Car className="w-5 h-5 text-primary" />
+                        Vehicles
+                    </h3>
+                    <p className="text-sm text-muted-foreground">
+                        Your active vehicle is used for ride requests and new trips.
+                    </p>
+                </div>
+                <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsAdding(true)} data-testid="button-add-vehicle">
+                    <Plus className="w-4 h-4" />
+                    Add
+                </Button>
+            </div>
+
+            <div className="divide-y">
+                {vehicles.map(vehicle => (
+                    <div key={vehicle.id} className="py-3 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                            <div className="font-medium flex items-center gap-2">
+                                {vehicle.make} {vehicle.model}
+                                {renderStatus(vehicle)}
+                            </div>
+                            <div className="text-xs text-muted-foreground mt-1">
+                                <span className="font-mono">{vehicle.plate}</span>
+                                {' · '}
+                                <span className="capitalize">{vehicle.vehicleType}</span>
+                                {' · '}
+                                {vehicle.seatCount} seat{vehicle.seatCount === 1 ? '' : 's'}
+                                {vehicle.color && ` · ${vehicle.color}`}
+                            </div>
+                            {vehicle.verificationStatus === 'rejected' && vehicle.rejectionReason && (
+                                <div className="text-xs text-destructive flex items-center gap-1 mt-1">
+                                    <AlertTriangle className="w-3 h-3" />
+                                    {vehicle.rejectionReason}
+                                </div>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                            {vehicle.id !== activeVehicleId && vehicle.verificationStatus === 'verified' && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => activateMutation.mutate(vehicle.id)}
+                                    disabled={activateMutation.isPending}
+                                >
+                                    Use this
+                                </Button>
+                            )}
+                            {vehicle.id !== activeVehicleId && (
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => archiveMutation.mutate(vehicle.id)}
+                                    disabled={archiveMutation.isPending}
+                                    aria-label="Remove vehicle"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <Dialog open={isAdding} onOpenChange={setIsAdding}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Add a vehicle</DialogTitle>
+                    </DialogHeader>
+                    <form
+                        className="space-y-4"
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            addMutation.mutate(new FormData(e.currentTarget));
+                        }}
+                    >
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="grid gap-2">
+                                <Label>Type</Label>
+                                <Select value={vehicleType} onValueChange={(value) => setVehicleType(value as Vehicle['vehicleType'])}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="car">Car</SelectItem>
+                                        <SelectItem value="auto">Auto</SelectItem>
+                                        <SelectItem value="bike">Bike</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="seatCount">Passenger seats</Label>
+                                <Input
+                                    key={vehicleType}
+                                    id="seatCount"
+                                    name="seatCount"
+                                    type="number"
+                                    min="1"
+                                    max="7"
+                                    defaultValue={DEFAULT_SEAT_COUNT[vehicleType]}
+                                    required
+                                />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="make">Make</Label>
+                                <Input id="make" name="make" placeholder="Maruti" required />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="model">Model</Label>
+                                <Input id="model" name="model" placeholder="Swift" required />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="year">Year</Label>
+                                <Input id="year" name="year" type="number" min="1990" max={new Date().getFullYear() + 1} />
+                            </div>
+                            <div className="grid gap-2">
+                                <Label htmlFor="color">Colour</Label>
+                                <Input id="color" name="color" />
+                            </div>
+                        </div>
+                        <div className="grid gap-2">
+                            <Label htmlFor="plate">Number plate</Label>
+                            <Input id="plate" name="plate" placeholder="KA 01 AB 1234" required />
+                        </div>
+                        <DialogFooter>
+                            <Button type="button" variant="outline" onClick={() => setIsAdding(false)}>Cancel</Button>
+                            <Button type="submit" disabled={addMutation.isPending}>
+                                {addMutation.isPending ? 'Adding...' : 'Submit for review'}
+                            </Button>
+                        </DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -14,9 +14,12 @@ import {
 import { CheckCircle, AlertTriangle, User, Car, Shield, Phone } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { TripWithDriver } from '@shared/schema';
+import { startCall } from '@/lib/contact-service';
 
 interface DriverVerificationProps {
     driver: TripWithDriver['driver'];
+    // The passenger's booking; calls are relayed so neither side sees the other's number
+    bookingId?: string;
     onVerified: () => void;
     onReportMismatch: () => void;
     className?: string;
@@ -24,6 +27,7 @@ interface DriverVerificationProps {
 
 export function DriverVerification({
     driver,
+    bookingId,
     onVerified,
     onReportMismatch,
     className = '',
@@ -55,13 +59,30 @@ export function DriverVerification({
         onReportMismatch();
     };
 
-    const handleCallDriver = () => {
-        if (driver.user.phone) {
-            window.location.href = `tel:${driver.user.phone}`;
-        } else {
+    const handleCallDriver = async () => {
+        if (!bookingId) {
             toast({
-                title: 'Phone number not available',
-                description: 'The driver has not provided a contact number.',
+                title: 'Calling unavailable',
+                description: 'You can call the driver once your booking is confirmed. Use chat instead.',
+                variant: 'destructive'
+            });
+            return;
+        }
+
+        try {
+            const { dialNumber } = await startCall(bookingId);
+            if (dialNumber) {
+                window.location.href = `tel:${dialNumber}`;
+            } else {
+                toast({
+                    title: 'Connecting your call',
+                    description: 'Your phone will ring shortly. Your number stays private.',
+                });
+            }
+        } catch (error: any) {
+            toast({
+                title: 'Call failed',
+                description: error.message,
                 variant: 'destructive'
             });
         }
@@ -93,7 +114,7 @@ export function DriverVerification({
                             <h3 className="text-xl font-bold">{driver.user.fullName}</h3>
                             <div className="flex items-center justify-center gap-2 mt-1">
                                 <Badge variant="secondary">
-                                    ⭐ {Number(driver.rating).toFixed(1)}
+                                    ⭐ {driver.rating ? Number(driver.rating).toFixed(1) : 'New'}
                                 </Badge>
                                 <Badge variant="outline">
                                     {driver.totalTrips} trips
@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import { Coordinates } from '@/lib/maps';
@@ -22,7 +22,17 @@ interface MapViewProps {
     popup?: string;
   }>;
   route?: Coordinates[];
+  polygons?: Array<{
+    id: string;
+    points: Coordinates[];
+    color?: string;
+    popup?: string;
+    dashed?: boolean;
+    editable?: boolean; // Show draggable vertex handles
+  }>;
   onMapClick?: (coords: Coordinates) => void;
+  onPolygonClick?: (id: string) => void;
+  onPolygonEdit?: (id: string, points: Coordinates[]) => void;
   className?: string;
   tripId?: string;
   isVisible?: boolean; // Add visibility prop to handle dynamic visibility
@@ -33,7 +43,10 @@ export function MapView({
   zoom = 12,
   markers = [],
   route,
+  polygons,
   onMapClick,
+  onPolygonClick,
+  onPolygonEdit,
   className = 'w-full h-full',
   tripId,
   isVisible = true
@@ -43,6 +56,16 @@ export function MapView({
   const markersRef = useRef<L.Marker[]>([]);
   const driverMarkerRef = useRef<L.Marker | null>(null);
   const routeLayerRef = useRef<L.Polyline | null>(null);
+  const polygonLayerRef = useRef<L.LayerGroup | null>(null);
+  const [isMapReady, setIsMapReady] = useState(false);
+
+  // Handlers are read through refs so the click listener bound at init never goes stale
+  const onMapClickRef = useRef(onMapClick);
+  const onPolygonClickRef = useRef(onPolygonClick);
+  const onPolygonEditRef = useRef(onPolygonEdit);
+  onMapClickRef.current = onMapClick;
+  onPolygonClickRef.current = onPolygonClick;
+  onPolygonEditRef.current = onPolygonEdit;
 
   // Initialize map
   useEffect(() => {
@@ -72,11 +95,12 @@ export function MapView({
         tileLayer.addTo(map.current);
 
         // Add click handler
-        if (onMapClick) {
-          map.current.on('click', (e) => {
-            onMapClick({ lat: e.latlng.lat, lng: e.latlng.lng });
-          });
-        }
+        map.current.on('click', (e) => {
+          onMapClickRef.current?.({ lat: e.latlng.lat, lng: e.latlng.lng });
+        });
+
+        polygonLayerRef.current = L.layerGroup().addTo(map.current);
+        setIsMapReady(true);
 
         // Invalidate size after initialization
         setTimeout(() => {
@@ -96,6 +120,7 @@ export function MapView({
           console.error('Error removing map:', error);
         }
         map.current = null;
+        polygonLayerRef.current = null;
       }
     };
   }, []);
@@ -244,6 +269,55 @@ export function MapView({
     });
   }, [route]);
 
+  // Update polygons
+  useEffect(() => {
+    if (!map.current || !polygonLayerRef.current) return;
+
+    const layer = polygonLayerRef.current;
+    layer.clearLayers();
+
+    (polygons ?? []).forEach(polygonData => {
+      if (polygonData.points.length === 0) return;
+
+      const color = polygonData.color || '#f97316';
+      const latlngs: L.LatLngExpression[] = polygonData.points.map(p => [p.lat, p.lng]);
+      const shape = polygonData.points.length > 2
+        ? L.polygon(latlngs, { color, weight: 2, fillOpacity: 0.2, dashArray: polygonData.dashed ? '6 6' : undefined })
+        : L.polyline(latlngs, { color, weight: 2, dashArray: '6 6' });
+
+      if (polygonData.popup) {
+        shape.bindTooltip(polygonData.popup, { sticky: true });
+      }
+      shape.on('click', (e) => {
+        if (!onPolygonClickRef.current) return;
+        L.DomEvent.stopPropagation(e);
+        onPolygonClickRef.current(polygonData.id);
+      });
+      shape.addTo(layer);
+
+      if (!polygonData.editable) return;
+
+      polygonData.points.forEach((point, index) => {
+        const handle = L.marker([point.lat, point.lng], {
+          draggable: true,
+          icon: L.divIcon({
+            className: 'polygon-vertex',
+            html: `<div style="width: 12px; height: 12px; background-color: white; border: 2px solid ${color}; border-radius: 50%;"></div>`,
+            iconSize: [12, 12],
+            iconAnchor: [6, 6]
+          })
+        });
+
+        handle.on('dragend', () => {
+          const { lat, lng } = handle.getLatLng();
+          const points = polygonData.points.map((p, i) => (i === index ? { lat, lng } : p));
+          onPolygonEditRef.current?.(polygonData.id, points);
+        });
+        handle.addTo(layer);
+      });
+    });
+  }, [polygons, isMapReady]);
+
   // Real-time driver location (if tripId provided)
   useEffect(() => {
     if (!tripId || !map.current) return;
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useLocation } from 'wouter';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -20,17 +21,20 @@ import {
     AlertCircle,
     Info,
     Trash2,
+    Search,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { format } from 'date-fns';
+import { addDays, format } from 'date-fns';
+import { snoozeSavedSearch, setSavedSearchAlerts } from '@/lib/saved-search-service';
 
 interface Notification {
     id: string;
     title: string;
     message: string;
-    type: 'booking' | 'arrival' | 'payment' | 'offer' | 'info';
+    type: 'booking' | 'arrival' | 'payment' | 'offer' | 'info' | 'saved_search';
     isRead: boolean;
     createdAt: string;
     data?: any;
@@ -39,6 +43,7 @@ interface Notification {
 export function NotificationCenter() {
     const { user } = useAuth();
     const { toast } = useToast();
+    const [, navigate] = useLocation();
     const [isOpen, setIsOpen] = useState(false);
     const [notifications, setNotifications] = useState<Notification[]>([]);
     const [unreadCount, setUnreadCount] = useState(0);
@@ -172,6 +177,35 @@ export function NotificationCenter() {
         }
     };
 
+    const viewSavedSearchRides = (notification: Notification) => {
+        markAsRead(notification.id);
+        setIsOpen(false);
+        navigate(`/search?${new URLSearchParams({ pickup: notification.data.pickup, drop: notification.data.drop })}`);
+    };
+
+    const updateSavedSearchAlert = async (notification: Notification, action: 'snooze' | 'unsubscribe') => {
+        try {
+            if (action === 'snooze') {
+                await snoozeSavedSearch(notification.data.savedSearchId, addDays(new Date(), 7));
+            } else {
+                await setSavedSearchAlerts(notification.data.savedSearchId, false);
+            }
+            markAsRead(notification.id);
+            queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+
+            toast({
+                title: action === 'snooze' ? 'Alert snoozed for a week' : 'Unsubscribed from this alert',
+                description: 'You can change this under Ride Alerts on the home page.',
+            });
+        } catch (error: any) {
+            toast({
+                title: 'Error',
+                description: error.message,
+                variant: 'destructive',
+            });
+        }
+    };
+
     const getNotificationIcon = (type: Notification['type']) => {
         switch (type) {
             case 'booking':
@@ -182,6 +216,8 @@ export function NotificationCenter() {
                 return CreditCard;
             case 'offer':
                 return Gift;
+            case 'saved_search':
+                return Search;
             default:
                 return Info;
         }
@@ -197,6 +233,8 @@ export function NotificationCenter() {
                 return 'text-blue-500';
             case 'offer':
                 return 'text-purple-500';
+            case 'saved_search':
+                return 'text-primary';
             default:
                 return 'text-muted-foreground';
         }
@@ -292,6 +330,27 @@ export function NotificationCenter() {
                                                         <p className="text-sm text-muted-foreground mb-2">
                                                             {notification.message}
                                                         </p>
+                                                        {notification.type === 'saved_search' && notification.data?.savedSearchId && (
+                                                            <div className="flex flex-wrap gap-2 mb-2" onClick={(e) => e.stopPropagation()}>
+                                                                <Button size="sm" onClick={() => viewSavedSearchRides(notification)}>
+                                                                    View Rides
+                                                                </Button>
+                                                                <Button
+                                                                    size="sm"
+                                                                    variant="outline"
+                                                                    onClick={() => updateSavedSearchAlert(notification, 'snooze')}
+                                                                >
+                                                                    Snooze 1 Week
+                                                                </Button>
+                                                                <Button
+                                                                    size="sm"
+                                                                    variant="ghost"
+                                                                    onClick={() => updateSavedSearchAlert(notification, 'unsubscribe')}
+                                                                >
+                                                                    Unsubscribe
+                                                                </Button>
+                                                            </div>
+                                                        )}
                                                         <div className="flex items-center justify-between">
                                                             <span className="text-xs text-muted-foreground">
                                                                 {format(
@@ -0,0 +1,181 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Check, X, ShieldCheck, UserMinus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Organization, OrganizationMember, OrganizationMemberRole } from '@shared/schema';
+import {
+    getOrganizationMembers,
+    reviewOrganizationMember,
+    setOrganizationMemberRole,
+    removeOrganizationMember,
+    setRequiresApproval,
+} from '@/lib/organization-service';
+
+interface OrganizationMembersPanelProps {
+    organization: Organization;
+    currentUserId: string;
+}
+
+/**
+ * Org admin tools: approval setting, pending requests and the member list
+ */
+export function OrganizationMembersPanel({ organization, currentUserId }: OrganizationMembersPanelProps) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data: members = [], isLoading } = useQuery<OrganizationMember[]>({
+        queryKey: ['organization-members', organization.id],
+        queryFn: () => getOrganizationMembers(organization.id),
+    });
+
+    const onSuccess = () => {
+        queryClient.invalidateQueries({ queryKey: ['organization-members', organization.id] });
+    };
+    const onError = (error: any) => {
+        toast({ title: 'Update failed', description: error.message, variant: 'destructive' });
+    };
+
+    const reviewMutation = useMutation({
+        mutationFn: ({ memberId, approve }: { memberId: string; approve: boolean }) =>
+            reviewOrganizationMember(memberId, approve),
+        onSuccess,
+        onError,
+    });
+
+    const roleMutation = useMutation({
+        mutationFn: ({ memberId, role }: { memberId: string; role: OrganizationMemberRole }) =>
+            setOrganizationMemberRole(memberId, role),
+        onSuccess,
+        onError,
+    });
+
+    const removeMutation = useMutation({
+        mutationFn: removeOrganizationMember,
+        onSuccess,
+        onError,
+    });
+
+    const approvalMutation = useMutation({
+        mutationFn: (requiresApproval: boolean) => setRequiresApproval(organization.id, requiresApproval),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['organization-membership'] });
+            queryClient.invalidateQueries({ queryKey: ['admin-organizations'] });
+        },
+        onError,
+    });
+
+    const pending = members.filter(m => m.status === 'pending_approval');
+    const active = members.filter(m => m.status === 'active');
+
+    return (
+        <div className="space-y-4 border-t pt-4">
+            <div className="flex items-center justify-between">
+                <Label htmlFor="org-requires-approval" className="text-sm">
+                    Approve new members
+                    <span className="block text-[10px] text-muted-foreground font-normal">
+                        Otherwise anyone with a verified work email joins automatically
+                    </span>
+                </Label>
+                <Switch
+                    id="org-requires-approval"
+                    checked={organization.requiresApproval}
+                    onCheckedChange={(checked) => approvalMutation.mutate(checked)}
+                    disabled={approvalMutation.isPending}
+                />
+            </div>
+
+            {isLoading ? (
+                <p className="text-sm text-muted-foreground text-center py-2">Loading members...</p>
+            ) : (
+                <>
+                    {pending.length > 0 && (
+                        <div className="space-y-2">
+                            <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                                Waiting for approval ({pending.length})
+                            </h4>
+                            {pending.map(member => (
+                                <div key={member.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium truncate">{member.user?.fullName || 'Unknown'}</p>
+                                        <p className="text-xs text-muted-foreground truncate">{member.workEmail}</p>
+                                    </div>
+                                    <div className="flex gap-1 shrink-0">
+                                        <Button
+                                            size="icon"
+                                            variant="outline"
+                                            className="h-8 w-8"
+                                            title="Approve"
+                                            onClick={() => reviewMutation.mutate({ memberId: member.id, approve: true })}
+                                            disabled={reviewMutation.isPending}
+                                        >
+                                            <Check className="w-4 h-4" />
+                                        </Button>
+                                        <Button
+                                            size="icon"
+                                            variant="outline"
+                                            className="h-8 w-8 text-destructive"
+                                            title="Decline"
+                                            onClick={() => reviewMutation.mutate({ memberId: member.id, approve: false })}
+                                            disabled={reviewMutation.isPending}
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <h4 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                            Members ({active.length})
+                        </h4>
+                        <div className="max-h-60 overflow-y-auto space-y-2">
+                            {active.map(member => (
+                                <div key={member.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium truncate flex items-center gap-1">
+                                            {member.user?.fullName || 'Unknown'}
+                                            {member.role === 'admin' && <Badge variant="secondary" className="text-[10px]">Admin</Badge>}
+                                        </p>
+                                        <p className="text-xs text-muted-foreground truncate">{member.workEmail}</p>
+                                    </div>
+                                    {member.userId !== currentUserId && (
+                                        <div className="flex gap-1 shrink-0">
+                                            <Button
+                                                size="icon"
+                                                variant="ghost"
+                                                className="h-8 w-8"
+                                                title={member.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                                                onClick={() => roleMutation.mutate({
+                                                    memberId: member.id,
+                                                    role: member.role === 'admin' ? 'member' : 'admin',
+                                                })}
+                                                disabled={roleMutation.isPending}
+                                            >
+                                                <ShieldCheck className={`w-4 h-4 ${member.role === 'admin' ? 'text-primary' : ''}`} />
+                                            </Button>
+                                            <Button
+                                                size="icon"
+                                                variant="ghost"
+                                                className="h-8 w-8 text-destructive"
+                                                title="Remove from organization"
+                                                onClick={() => removeMutation.mutate(member.id)}
+                                                disabled={removeMutation.isPending}
+                                            >
+                                                <UserMinus className="w-4 h-4" />
+                                            </Button>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
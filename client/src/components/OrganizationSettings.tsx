@@ -1,13 +1,16 @@
-import { useState, useEffect } from 'react';
-import { Card } from '@/components/ui/card';
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Building2, Save, X } from 'lucide-react';
+import { Building2, Mail, Clock, LogOut } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
 import { useToast } from '@/hooks/use-toast';
+import { OrganizationMember } from '@shared/schema';
+import { getMyMembership, requestWorkEmailVerification, removeOrganizationMember } from '@/lib/organization-service';
+import { OrganizationMembersPanel } from './OrganizationMembersPanel';
+import { CorporateRidesCard } from './CorporateRidesCard';
 
 interface OrganizationSettingsProps {
     isOpen: boolean;
@@ -15,45 +18,44 @@ interface OrganizationSettingsProps {
 }
 
 export function OrganizationSettings({ isOpen, onOpenChange }: OrganizationSettingsProps) {
-    const { user } = useAuth();
+    const { user, refreshSession } = useAuth();
     const { toast } = useToast();
-    const [organization, setOrganization] = useState('');
-    const [isEditing, setIsEditing] = useState(false);
-    const [loading, setLoading] = useState(false);
+    const queryClient = useQueryClient();
+    const [workEmail, setWorkEmail] = useState('');
 
-    useEffect(() => {
-        if (user?.organization) {
-            setOrganization(user.organization);
-        }
-    }, [user]);
-
-    const handleSave = async () => {
-        if (!user) return;
-        setLoading(true);
-
-        try {
-            const { error } = await supabase
-                .from('users')
-                .update({ organization: organization.trim() })
-                .eq('id', user.id);
-
-            if (error) throw error;
+    const { data: membership, isLoading } = useQuery<OrganizationMember | null>({
+        queryKey: ['organization-membership', user?.id],
+        queryFn: () => getMyMembership(user!.id),
+        enabled: isOpen && !!user,
+    });
 
+    const requestMutation = useMutation({
+        mutationFn: (email: string) => requestWorkEmailVerification(email),
+        onSuccess: ({ organizationName }) => {
             toast({
-                title: 'Success',
-                description: 'Organization updated successfully',
+                title: 'Check your inbox',
+                description: `We sent a link to confirm your ${organizationName} email.`,
             });
-            setIsEditing(false);
-        } catch (error: any) {
-            toast({
-                title: 'Error',
-                description: error.message,
-                variant: 'destructive',
-            });
-        } finally {
-            setLoading(false);
-        }
-    };
+            setWorkEmail('');
+            queryClient.invalidateQueries({ queryKey: ['organization-membership'] });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Verification failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const leaveMutation = useMutation({
+        mutationFn: removeOrganizationMember,
+        onSuccess: async () => {
+            queryClient.invalidateQueries({ queryKey: ['organization-membership'] });
+            await refreshSession();
+        },
+        onError: (error: any) => {
+            toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const organizationName = membership?.organization?.name;
 
     return (
         <Dialog open={isOpen} onOpenChange={onOpenChange}>
@@ -69,58 +71,83 @@ export function OrganizationSettings({ isOpen, onOpenChange }: OrganizationSetti
                         Join your organization's carpool network to ride with verified colleagues.
                     </p>
 
-                    {isEditing ? (
-                        <div className="space-y-4">
-                            <div className="space-y-2">
-                                <Label htmlFor="org-name">Organization Name</Label>
-                                <Input
-                                    id="org-name"
-                                    placeholder="e.g. TCS, Google, etc."
-                                    value={organization}
-                                    onChange={(e) => setOrganization(e.target.value)}
-                                />
-                                <p className="text-[10px] text-muted-foreground">
-                                    Use your official company name to match with colleagues.
-                                </p>
+                    {isLoading ? (
+                        <p className="text-sm text-center text-muted-foreground py-2">Loading...</p>
+                    ) : membership?.status === 'active' ? (
+                        <div className="bg-primary/5 border border-primary/20 rounded-lg p-3 space-y-1">
+                            <div className="flex items-center justify-between">
+                                <span className="font-medium">{organizationName}</span>
+                                <span className="text-[10px] bg-primary/10 text-primary px-2 py-0.5 rounded-full uppercase tracking-wider font-bold">
+                                    Verified
+                                </span>
                             </div>
+                            <p className="text-xs text-muted-foreground">{membership.workEmail}</p>
+                        </div>
+                    ) : membership ? (
+                        <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-3 flex gap-3">
+                            {membership.status === 'pending_email'
+                                ? <Mail className="w-5 h-5 text-amber-600 shrink-0" />
+                                : <Clock className="w-5 h-5 text-amber-600 shrink-0" />}
+                            <p className="text-sm">
+                                {membership.status === 'pending_email'
+                                    ? <>Open the link we sent to <strong>{membership.workEmail}</strong> to join {organizationName}.</>
+                                    : <>Your email is verified. An admin of {organizationName} needs to approve your request.</>}
+                            </p>
+                        </div>
+                    ) : null}
+
+                    {!isLoading && membership?.status !== 'active' && (
+                        <form
+                            className="space-y-2"
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                requestMutation.mutate(workEmail.trim());
+                            }}
+                        >
+                            <Label htmlFor="work-email">
+                                {membership ? 'Use a different work email' : 'Work Email'}
+                            </Label>
                             <div className="flex gap-2">
-                                <Button onClick={handleSave} disabled={loading} className="flex-1 gap-2">
-                                    <Save className="w-4 h-4" />
-                                    {loading ? 'Saving...' : 'Save Settings'}
-                                </Button>
-                                <Button
-                                    variant="ghost"
-                                    onClick={() => {
-                                        setIsEditing(false);
-                                        setOrganization(user?.organization || '');
-                                    }}
-                                    className="gap-2"
-                                >
-                                    <X className="w-4 h-4" />
-                                    Cancel
+                                <Input
+                                    id="work-email"
+                                    type="email"
+                                    placeholder="you@company.com"
+                                    value={workEmail}
+                                    onChange={(e) => setWorkEmail(e.target.value)}
+                                    required
+                                />
+                                <Button type="submit" disabled={requestMutation.isPending || !workEmail.trim()}>
+                                    {requestMutation.isPending ? 'Sending...' : 'Verify'}
                                 </Button>
                             </div>
-                        </div>
-                    ) : (
-                        <div className="bg-primary/5 border border-primary/20 rounded-lg p-3">
-                            {organization ? (
-                                <div className="flex items-center justify-between">
-                                    <span className="font-medium">{organization}</span>
-                                    <span className="text-[10px] bg-primary/10 text-primary px-2 py-0.5 rounded-full uppercase tracking-wider font-bold">
-                                        Verified
-                                    </span>
-                                </div>
-                            ) : (
-                                <p className="text-sm text-center text-muted-foreground py-2">
-                                    No organization set. Add one to enable colleague filtering.
-                                </p>
-                            )}
-                        </div>
+                            <p className="text-[10px] text-muted-foreground">
+                                Your company must be registered with us. We'll email a link to confirm the address is yours.
+                            </p>
+                        </form>
+                    )}
+
+                    {membership?.status === 'active' && user && (
+                        <CorporateRidesCard
+                            userId={user.id}
+                            isOrgAdmin={membership.role === 'admin'}
+                            onNavigate={() => onOpenChange(false)}
+                        />
+                    )}
+
+                    {membership?.status === 'active' && membership.role === 'admin' && membership.organization && user && (
+                        <OrganizationMembersPanel organization={membership.organization} currentUserId={user.id} />
                     )}
 
-                    {!isEditing && (
-                        <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} className="w-full">
-                            Edit Organization
+                    {membership && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full gap-2 text-destructive"
+                            onClick={() => leaveMutation.mutate(membership.id)}
+                            disabled={leaveMutation.isPending}
+                        >
+                            <LogOut className="w-4 h-4" />
+                            {membership.status === 'active' ? 'Leave Organization' : 'Cancel Request'}
                         </Button>
                     )}
                 </div>
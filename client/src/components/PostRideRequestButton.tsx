@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Megaphone } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Coordinates, geocodeAddress, getRoute } from '@/lib/maps';
+import { postRideRequest } from '@/lib/ride-request-marketplace-service';
+
+interface PostRideRequestButtonProps {
+    pickup: string;
+    pickupCoords?: Coordinates;
+    drop: string;
+    dropCoords?: Coordinates;
+    date?: string;
+    route?: { distance: number; duration: number } | null;
+}
+
+const shortName = (location: string) => location.split(',')[0].trim();
+
+/**
+ * Posts the searched route as a ride request that drivers can make offers on
+ */
+export function PostRideRequestButton({ pickup, pickupCoords, drop, dropCoords, date, route }: PostRideRequestButtonProps) {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [isOpen, setIsOpen] = useState(false);
+    const [day, setDay] = useState('');
+    const [windowStart, setWindowStart] = useState('17:00');
+    const [windowEnd, setWindowEnd] = useState('20:00');
+    const [seats, setSeats] = useState('1');
+    const [vehicleType, setVehicleType] = useState<'bike' | 'auto' | 'car'>('car');
+    const [pricePerSeat, setPricePerSeat] = useState('');
+    const [notes, setNotes] = useState('');
+
+    const openDialog = () => {
+        setDay(date || format(new Date(), 'yyyy-MM-dd'));
+        setIsOpen(true);
+    };
+
+    const start = day && windowStart ? new Date(`${day}T${windowStart}`) : null;
+    const end = day && windowEnd ? new Date(`${day}T${windowEnd}`) : null;
+    const hasWindow = !!start && !!end && start < end && end > new Date();
+
+    const postMutation = useMutation({
+        mutationFn: async () => {
+            const from = pickupCoords || await geocodeAddress(pickup);
+            const to = dropCoords || await geocodeAddress(drop);
+            if (!from || !to) throw new Error('Could not locate the pickup or drop address');
+
+            const routeData = route || await getRoute(from, to);
+
+            return postRideRequest(user!.id, {
+                pickupLocation: pickup,
+                pickupCoords: from,
+                dropLocation: drop,
+                dropCoords: to,
+                vehicleType,
+                seats: parseInt(seats),
+                pricePerSeat: parseFloat(pricePerSeat),
+                windowStart: start! > new Date() ? start! : new Date(Date.now() + 60 * 1000),
+                windowEnd: end!,
+                distance: Math.round(routeData.distance * 100) / 100,
+                duration: Math.round(routeData.duration),
+                notes,
+            });
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['posted-ride-requests'] });
+            setIsOpen(false);
+            toast({
+                title: 'Ride request posted',
+                description: "Drivers on this route can now send you offers. We'll notify you of each one.",
+            });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not post request', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    if (!user) return null;
+
+    return (
+        <>
+            <Button variant="outline" size="sm" className="gap-2 w-full" onClick={openDialog}>
+                <Megaphone className="w-4 h-4" />
+                Post a ride request for drivers
+            </Button>
+
+            <Dialog open={isOpen} onOpenChange={setIsOpen}>
+                <DialogContent className="sm:max-w-[425px]">
+                    <DialogHeader>
+                        <DialogTitle>Post a Ride Request</DialogTitle>
+                        <DialogDescription>
+                            {shortName(pickup)} to {shortName(drop)}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="request-date">Date</Label>
+                            <Input
+                                id="request-date"
+                                type="date"
+                                min={format(new Date(), 'yyyy-MM-dd')}
+                                value={day}
+                                onChange={(e) => setDay(e.target.value)}
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label htmlFor="request-window-start">Leaving After</Label>
+                                <Input
+                                    id="request-window-start"
+                                    type="time"
+                                    value={windowStart}
+                                    onChange={(e) => setWindowStart(e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="request-window-end">Leaving Before</Label>
+                                <Input
+                                    id="request-window-end"
+                                    type="time"
+                                    value={windowEnd}
+                                    onChange={(e) => setWindowEnd(e.target.value)}
+                                />
+                            </div>
+                        </div>
+                        {!hasWindow && (
+                            <p className="text-xs text-destructive">
+                                Set a start time before the end time, ending in the future.
+                            </p>
+                        )}
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label>Vehicle</Label>
+                                <Select value={vehicleType} onValueChange={(value) => {
+                                    setVehicleType(value as 'bike' | 'auto' | 'car');
+                                    if (value === 'bike') setSeats('1');
+                                }}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="car">Car</SelectItem>
+                                        <SelectItem value="auto">Auto</SelectItem>
+                                        <SelectItem value="bike">Bike</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Seats</Label>
+                                <Select value={seats} onValueChange={setSeats} disabled={vehicleType === 'bike'}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {[1, 2, 3, 4].map(n => (
+                                            <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="request-price">Willing to Pay per Seat (₹)</Label>
+                            <Input
+                                id="request-price"
+                                type="number"
+                                min={1}
+                                value={pricePerSeat}
+                                onChange={(e) => setPricePerSeat(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="request-notes">Notes for Drivers</Label>
+                            <Textarea
+                                id="request-notes"
+                                rows={2}
+                                placeholder="Luggage, pickup landmark..."
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button
+                            onClick={() => postMutation.mutate()}
+                            disabled={postMutation.isPending || !hasWindow || !(parseFloat(pricePerSeat) > 0)}
+                        >
+                            {postMutation.isPending ? 'Posting...' : 'Post Request'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -0,0 +1,204 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Megaphone, MapPin, Navigation, Star, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/lib/supabase';
+import {
+    getPostedRideRequests,
+    cancelPostedRideRequest,
+    acceptRideRequestOffer,
+    declineRideRequestOffer,
+} from '@/lib/ride-request-marketplace-service';
+
+function describeWindow(start?: string, end?: string | null) {
+    if (!start || !end) return '';
+    return `${format(new Date(start), 'EEE dd MMM, h:mm a')} – ${format(new Date(end), 'h:mm a')}`;
+}
+
+/**
+ * The passenger's posted ride requests with the offers drivers have made
+ */
+export function PostedRideRequests() {
+    const [, navigate] = useLocation();
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data: requests = [] } = useQuery({
+        queryKey: ['posted-ride-requests', user?.id],
+        queryFn: () => getPostedRideRequests(user!.id),
+        enabled: !!user,
+    });
+
+    // New offers arrive while the passenger is looking
+    useEffect(() => {
+        if (!user) return;
+
+        const channel = supabase
+            .channel(`ride-request-offers:${user.id}`)
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'ride_request_offers' },
+                () => queryClient.invalidateQueries({ queryKey: ['posted-ride-requests'] })
+            )
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    }, [user, queryClient]);
+
+    const onError = (error: any) => {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    };
+
+    const acceptMutation = useMutation({
+        mutationFn: acceptRideRequestOffer,
+        onSuccess: ({ tripId }) => {
+            queryClient.invalidateQueries({ queryKey: ['posted-ride-requests'] });
+            toast({ title: 'Ride booked', description: 'Your seat is confirmed with this driver.' });
+            navigate(`/trip/${tripId}`);
+        },
+        onError,
+    });
+
+    const declineMutation = useMutation({
+        mutationFn: declineRideRequestOffer,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ['posted-ride-requests'] }),
+        onError,
+    });
+
+    const cancelMutation = useMutation({
+        mutationFn: cancelPostedRideRequest,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['posted-ride-requests'] });
+            toast({ title: 'Request cancelled' });
+        },
+        onError,
+    });
+
+    if (!user || requests.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-4">
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+                <Megaphone className="w-6 h-6 text-primary" />
+                Posted Requests
+            </h2>
+
+            <div className="space-y-3">
+                {requests.map((request) => {
+                    const open = request.status === 'pending';
+                    const pricePerSeat = Math.round(parseFloat(request.fare) / request.seats);
+
+                    return (
+                        <Card key={request.id} className="p-4 space-y-3">
+                            <div className="flex items-start justify-between gap-2">
+                                <div className="space-y-1 text-sm min-w-0">
+                                    <div className="flex items-start gap-2">
+                                        <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0 text-success" />
+                                        <span className="truncate">{request.pickupLocation}</span>
+                                    </div>
+                                    <div className="flex items-start gap-2">
+                                        <Navigation className="w-4 h-4 mt-0.5 flex-shrink-0 text-destructive" />
+                                        <span className="truncate">{request.dropLocation}</span>
+                                    </div>
+                                </div>
+                                {open ? (
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8 text-destructive flex-shrink-0"
+                                        onClick={() => cancelMutation.mutate(request.id)}
+                                        disabled={cancelMutation.isPending}
+                                        aria-label="Cancel request"
+                                    >
+                                        <X className="w-4 h-4" />
+                                    </Button>
+                                ) : (
+                                    <Badge variant="secondary">Booked</Badge>
+                                )}
+                            </div>
+
+                            <p className="text-xs text-muted-foreground">
+                                {describeWindow(request.scheduled_time, request.scheduledUntil)}
+                                {` · ${request.seats} seat${request.seats === 1 ? '' : 's'} · up to ₹${pricePerSeat}/seat`}
+                            </p>
+
+                            {open && request.offers.length === 0 && (
+                                <p className="text-sm text-muted-foreground">Waiting for offers from drivers...</p>
+                            )}
+
+                            {request.offers.map((offer) => (
+                                <div key={offer.id} className="rounded-lg border p-3 space-y-2">
+                                    <div className="flex items-center justify-between gap-2">
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <Avatar className="h-8 w-8">
+                                                <AvatarImage src={offer.driver?.profilePhoto || undefined} />
+                                                <AvatarFallback>{offer.driver?.fullName?.charAt(0) || 'D'}</AvatarFallback>
+                                            </Avatar>
+                                            <div className="min-w-0">
+                                                <div className="font-medium text-sm truncate">{offer.driver?.fullName}</div>
+                                                <div className="text-xs text-muted-foreground flex items-center gap-1">
+                                                    {offer.driver?.rating && (
+                                                        <>
+                                                            <Star className="w-3 h-3 fill-warning text-warning" />
+                                                            {parseFloat(offer.driver.rating).toFixed(1)} ·
+                                                        </>
+                                                    )}
+                                                    <span className="truncate">{offer.driver?.vehicle}</span>
+                                                </div>
+                                            </div>
+                                        </div>
+                                        <div className="text-right flex-shrink-0">
+                                            <div className="font-bold">₹{parseFloat(offer.pricePerSeat)}/seat</div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {format(new Date(offer.departureTime), 'h:mm a')}
+                                            </div>
+                                        </div>
+                                    </div>
+                                    {offer.message && <p className="text-sm text-muted-foreground">{offer.message}</p>}
+                                    {open && offer.status === 'offered' && (
+                                        <div className="flex gap-2">
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                className="flex-1"
+                                                onClick={() => declineMutation.mutate(offer.id)}
+                                                disabled={declineMutation.isPending || acceptMutation.isPending}
+                                            >
+                                                Decline
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                className="flex-1"
+                                                onClick={() => acceptMutation.mutate(offer.id)}
+                                                disabled={acceptMutation.isPending}
+                                            >
+                                                {acceptMutation.isPending ? 'Booking...' : `Accept · ₹${parseFloat(offer.pricePerSeat) * request.seats}`}
+                                            </Button>
+                                        </div>
+                                    )}
+                                    {offer.status === 'accepted' && offer.tripId && (
+                                        <Button size="sm" variant="outline" className="w-full" onClick={() => navigate(`/trip/${offer.tripId}`)}>
+                                            View Trip
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+                        </Card>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
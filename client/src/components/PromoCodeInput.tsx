@@ -5,14 +5,17 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tag, Check, X, Loader2 } from 'lucide-react';
 import { formatCurrency } from '@/lib/fareCalculator';
-import { PromoCode } from '@/lib/promo-service';
-import { usePromoCode, useActivePromoCodes } from '@/hooks/usePromoCode';
+import { PromoCode, PromoCheckContext, validatePromoCode } from '@/lib/promo-service';
+import { useActivePromoCodes } from '@/hooks/usePromoCode';
 
 interface PromoCodeInputProps {
-    onPromoApplied?: (promoCode: PromoCode) => void;
+    onPromoApplied?: (promoCode: PromoCode, discount?: number) => void;
     onPromoRemoved?: () => void;
     defaultCode?: string;
     className?: string;
+    // Fare the discount is worked out on, and the ride the campaign rules are checked against
+    amount?: number;
+    context?: PromoCheckContext;
 }
 
 export function PromoCodeInput({
@@ -20,10 +23,12 @@ export function PromoCodeInput({
     onPromoRemoved,
     defaultCode,
     className = '',
+    amount,
+    context,
 }: PromoCodeInputProps) {
     const [code, setCode] = useState(defaultCode || '');
-    const [searchCode, setSearchCode] = useState(defaultCode || '');
     const [appliedPromo, setAppliedPromo] = useState<PromoCode | null>(null);
+    const [isValidating, setIsValidating] = useState(false);
     const [error, setError] = useState('');
 
     useEffect(() => {
@@ -35,9 +40,7 @@ export function PromoCodeInput({
     // Fetch available codes for suggestions
     const { data: availableCodes } = useActivePromoCodes();
 
-    // Fetch specific code when user clicks apply
-    const { data: promoCode, isLoading: isValidating, isError, refetch } = usePromoCode(searchCode);
-
+    // Campaign rules are checked on the server so every app gets the same answer
     const handleApply = async () => {
         if (!code.trim()) {
             setError('Please enter a promo code');
@@ -45,30 +48,23 @@ export function PromoCodeInput({
         }
 
         setError('');
-        setSearchCode(code);
+        setIsValidating(true);
 
-        const result = await refetch();
+        const result = await validatePromoCode(code, amount, context);
+        setIsValidating(false);
 
-        if (result.data) {
-            // Basic validation
-            if (!result.data.is_active || new Date(result.data.valid_until) < new Date()) {
-                setError('Promo code has expired');
-            } else if (result.data.max_uses && result.data.current_uses >= result.data.max_uses) {
-                setError('Promo code usage limit reached');
-            } else {
-                setAppliedPromo(result.data);
-                setCode('');
-                if (onPromoApplied) onPromoApplied(result.data);
-            }
+        if (result.valid && result.promo) {
+            setAppliedPromo(result.promo);
+            setCode('');
+            if (onPromoApplied) onPromoApplied(result.promo, result.discount);
         } else {
-            setError('Invalid or expired promo code');
+            setError(result.message);
         }
     };
 
     const handleRemove = () => {
         setAppliedPromo(null);
         setCode('');
-        setSearchCode('');
         setError('');
 
         if (onPromoRemoved) {
@@ -37,7 +37,7 @@ export function PromoCodeManager({ onApplyPromo, amount = 0, vehicleType }: Prom
 
         setValidating(true);
         try {
-            const result = await validatePromoCode(code, amount, vehicleType);
+            const result = await validatePromoCode(code, amount, { vehicleType });
 
             if (result.valid && result.promo && result.discount) {
                 toast({
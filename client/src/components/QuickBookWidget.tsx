@@ -16,11 +16,10 @@ import { Coordinates } from '@/lib/maps';
 import { getRoute } from '@/lib/maps';
 import {
     calculateFare,
-    calculateSurgeMultiplier,
-    getCurrentDemand,
     applyPromoCode,
     FareBreakdown as NewFareBreakdown,
 } from '@/lib/fareCalculator';
+import { getSurgeMultiplier } from '@/lib/surge-pricing-service';
 import { PromoCode } from '@/lib/promo-service';
 import { RidePreferences, RidePreference } from '@/components/RidePreferences';
 import { useToast } from '@/hooks/use-toast';
@@ -170,14 +169,13 @@ export function QuickBookWidget({
             setDistanceKm(distKm);
             setDurationMinutes(durMin);
 
-            // Get current demand
-            const currentHour = new Date().getHours();
-            const currentDemand = getCurrentDemand(currentHour);
+            // Surge for the pickup point (live zone pricing, else time of day)
+            const { multiplier: surgeMultiplier, demand: currentDemand } = await getSurgeMultiplier(
+                currentLocation.lat,
+                currentLocation.lng
+            );
             setDemand(currentDemand);
 
-            // Calculate surge multiplier
-            const surgeMultiplier = calculateSurgeMultiplier(currentDemand);
-
             // Calculate base fare
             let fare = calculateFare(vehicleType, distKm, durMin, surgeMultiplier);
 
@@ -261,7 +259,7 @@ export function QuickBookWidget({
         setLoading(true);
         try {
             // Create ride request using ride matching service
-            const { createRideRequest, autoMatchRideRequest } = await import('@/lib/ride-matching-service');
+            const { createRideRequest } = await import('@/lib/ride-matching-service');
 
             const isScheduled = bookingType === 'scheduled';
 
@@ -279,7 +277,6 @@ export function QuickBookWidget({
                 discountAmount: appliedPromo ? (fareEstimate?.discount || 0) : 0,
                 surgeMultiplier: fareEstimate?.surgeMultiplier || 1.0,
                 organizationOnly: organizationOnly,
-                organization: user?.organization || undefined,
                 scheduledTime: isScheduled ? (scheduledDateTime || undefined) : undefined,
             });
 
@@ -295,22 +292,8 @@ export function QuickBookWidget({
             // Navigate to ride request page
             navigate(`/ride-request/${request.id}`);
 
-            // Start auto-matching in background for instant rides only
-            if (!isScheduled) {
-                console.log('Instant ride created, starting auto-match sequence...');
-                setTimeout(async () => {
-                    try {
-                        const matched = await autoMatchRideRequest(request.id);
-                        if (matched) {
-                            console.log('Auto-match successful for request:', request.id);
-                        } else {
-                            console.log('Auto-match still searching for request:', request.id);
-                        }
-                    } catch (error) {
-                        console.error('Auto-match fatal error:', error);
-                    }
-                }, 1000);
-            } else {
+            // Instant rides are dispatched to drivers by the server
+            if (isScheduled) {
                 console.log('Scheduled ride created successfully:', request.id);
             }
 
@@ -423,6 +406,12 @@ export function QuickBookWidget({
                                 {/* PromoCodeInput - standard block element */}
                                 <div className="w-full">
                                     <PromoCodeInput
+                                        amount={fareEstimate?.totalFare}
+                                        context={{
+                                            vehicleType,
+                                            pickup: currentLocation || undefined,
+                                            rideAt: bookingType === 'scheduled' ? scheduledDateTime || undefined : undefined,
+                                        }}
                                         onPromoApplied={handlePromoApplied}
                                         onPromoRemoved={handlePromoRemoved}
                                     />
@@ -446,7 +435,7 @@ export function QuickBookWidget({
                                             <Building2 className="w-4 h-4 text-primary" />
                                             <div>
                                                 <Label htmlFor="org-toggle" className="font-medium text-xs sm:text-sm">Ride with Colleagues</Label>
-                                                <p className="text-[10px] text-muted-foreground">Only matching with drivers from {user.organization}</p>
+                                                <p className="text-[10px] text-muted-foreground">Only verified colleagues from {user.organization}</p>
                                             </div>
                                         </div>
                                         <Switch
@@ -619,7 +608,7 @@ export function QuickBookWidget({
                                             <Building2 className="w-4 h-4 text-primary" />
                                             <div>
                                                 <Label htmlFor="org-toggle-sched" className="font-medium text-xs sm:text-sm">Ride with Colleagues</Label>
-                                                <p className="text-[10px] text-muted-foreground">Only matching with drivers from {user.organization}</p>
+                                                <p className="text-[10px] text-muted-foreground">Only verified colleagues from {user.organization}</p>
                                             </div>
                                         </div>
                                         <Switch
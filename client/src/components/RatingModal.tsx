@@ -11,11 +11,12 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Star, ThumbsUp, Medal } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { RATING_CATEGORIES, RATING_CATEGORY_LABELS, RatingCategory } from '@shared/schema';
 
 interface RatingModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSubmit: (rating: number, feedback: string, tags: string[]) => void;
+    onSubmit: (rating: number, feedback: string, tags: string[], categories: Partial<Record<RatingCategory, number>>) => void;
     tripDetails: {
         driverName: string;
         driverPhoto?: string;
@@ -30,11 +31,13 @@ export function RatingModal({ isOpen, onClose, onSubmit, tripDetails, isDriver =
     const [rating, setRating] = useState(0);
     const [feedback, setFeedback] = useState('');
     const [selectedTags, setSelectedTags] = useState<string[]>([]);
+    const [categories, setCategories] = useState<Partial<Record<RatingCategory, number>>>({});
 
     const driverTags = ["Polite", "Safe Driving", "Clean Car", "Good Music", "Conversation"];
     const passengerTags = ["Polite", "Punctual", "Respectful", "Tipped"];
 
     const tags = isDriver ? passengerTags : driverTags;
+    const categoryKeys = isDriver ? RATING_CATEGORIES.passenger : RATING_CATEGORIES.driver;
 
     const toggleTag = (tag: string) => {
         if (selectedTags.includes(tag)) {
@@ -49,7 +52,7 @@ export function RatingModal({ isOpen, onClose, onSubmit, tripDetails, isDriver =
     };
 
     const handleSubmit = () => {
-        onSubmit(rating, feedback, selectedTags);
+        onSubmit(rating, feedback, selectedTags, categories);
         onClose();
     };
 
@@ -96,6 +99,31 @@ export function RatingModal({ isOpen, onClose, onSubmit, tripDetails, isDriver =
                         ))}
                     </div>
 
+                    {/* Categories */}
+                    <div className="w-full space-y-2">
+                        {categoryKeys.map((key) => (
+                            <div key={key} className="flex items-center justify-between">
+                                <span className="text-sm text-muted-foreground">{RATING_CATEGORY_LABELS[key]}</span>
+                                <div className="flex gap-1">
+                                    {[1, 2, 3, 4, 5].map((star) => (
+                                        <button
+                                            key={star}
+                                            type="button"
+                                            aria-label={`${RATING_CATEGORY_LABELS[key]} ${star}`}
+                                            className={`focus:outline-none ${(categories[key] || 0) >= star ? 'text-yellow-400' : 'text-gray-300'}`}
+                                            onClick={() => setCategories(prev => ({ ...prev, [key]: star }))}
+                                        >
+                                            <Star className={`w-4 h-4 ${(categories[key] || 0) >= star ? 'fill-current' : ''}`} />
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                        <p className="text-xs text-muted-foreground text-center pt-1">
+                            They won't see your rating until they rate you or 7 days pass.
+                        </p>
+                    </div>
+
                     {/* Tags */}
                     <div className="flex flex-wrap justify-center gap-2">
                         {tags.map((tag) => (
@@ -1,5 +1,5 @@
-import { useRef } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
     Dialog,
     DialogContent,
@@ -8,38 +8,116 @@ import {
 } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Star } from 'lucide-react';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Star, MessageSquareReply } from 'lucide-react';
 import { format } from 'date-fns';
-import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { RATING_CATEGORY_LABELS, RatingCategory } from '@shared/schema';
+import { getReviews, getRatingSummaries, respondToRating, ReviewFilters } from '@/lib/ratings-service';
 
 interface ReviewsListProps {
     isOpen: boolean;
     onClose: () => void;
     userId: string;
     userName: string;
+    role?: 'driver' | 'passenger'; // which side of the user to show; defaults to driver
 }
 
-export function ReviewsList({ isOpen, onClose, userId, userName }: ReviewsListProps) {
+export function ReviewsList({ isOpen, onClose, userId, userName, role = 'driver' }: ReviewsListProps) {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [starFilter, setStarFilter] = useState('all');
+    const [withComments, setWithComments] = useState(false);
+    const [replyingTo, setReplyingTo] = useState<string | null>(null);
+    const [replyText, setReplyText] = useState('');
+
+    const filters: ReviewFilters = {
+        role,
+        withComments,
+        ...(starFilter === 'critical' ? { maxStars: 3 } : starFilter !== 'all' ? { stars: Number(starFilter) } : {}),
+    };
+
     const { data: reviews, isLoading } = useQuery({
-        queryKey: ['user-reviews', userId],
-        queryFn: async () => {
-            const { data, error } = await supabase
-                .from('ratings')
-                .select('*, from:users(*)')
-                .eq('to_user_id', userId)
-                .order('created_at', { ascending: false });
+        queryKey: ['user-reviews', userId, filters],
+        queryFn: () => getReviews(userId, filters),
+        enabled: isOpen,
+    });
 
-            if (error) throw error;
-            return data;
-        },
+    const { data: summary } = useQuery({
+        queryKey: ['rating-summary', userId],
+        queryFn: () => getRatingSummaries(userId),
         enabled: isOpen,
+        select: (summaries) => summaries.find(s => s.role === role),
+    });
+
+    const replyMutation = useMutation({
+        mutationFn: ({ ratingId, response }: { ratingId: string; response: string }) =>
+            respondToRating(ratingId, response),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['user-reviews', userId] });
+            setReplyingTo(null);
+            setReplyText('');
+        },
+        onError: (error: any) => {
+            toast({ title: 'Reply failed', description: error.message, variant: 'destructive' });
+        },
     });
 
+    const isOwnProfile = user?.id === userId;
+
     return (
         <Dialog open={isOpen} onOpenChange={onClose}>
             <DialogContent className="sm:max-w-md h-[80vh] flex flex-col p-0">
                 <DialogHeader className="p-6 pb-4 border-b">
                     <DialogTitle>Reviews for {userName}</DialogTitle>
+                    {summary && summary.rating !== null && (
+                        <div className="pt-2 space-y-2 text-left">
+                            <div className="flex items-center gap-2">
+                                <Star className="w-5 h-5 fill-warning text-warning" />
+                                <span className="text-xl font-bold">{summary.rating.toFixed(2)}</span>
+                                <span className="text-sm text-muted-foreground">
+                                    from {summary.ratingCount} rating{summary.ratingCount === 1 ? '' : 's'}
+                                </span>
+                            </div>
+                            <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                                {(Object.entries(summary.categories) as [RatingCategory, number][]).map(([key, value]) => (
+                                    <div key={key} className="flex justify-between">
+                                        <span>{RATING_CATEGORY_LABELS[key]}</span>
+                                        <span className="font-medium text-foreground">{Number(value).toFixed(1)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    <div className="flex items-center justify-between gap-4 pt-3">
+                        <Select value={starFilter} onValueChange={setStarFilter}>
+                            <SelectTrigger className="h-8 w-36">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">All ratings</SelectItem>
+                                <SelectItem value="5">5 stars</SelectItem>
+                                <SelectItem value="4">4 stars</SelectItem>
+                                <SelectItem value="critical">3 stars or less</SelectItem>
+                            </SelectContent>
+                        </Select>
+                        <div className="flex items-center gap-2">
+                            <Switch id="with-comments" checked={withComments} onCheckedChange={setWithComments} />
+                            <Label htmlFor="with-comments" className="text-sm">With comments</Label>
+                        </div>
+                    </div>
                 </DialogHeader>
 
                 <ScrollArea className="flex-1 p-6">
@@ -49,17 +127,17 @@ export function ReviewsList({ isOpen, onClose, userId, userName }: ReviewsListPr
                         </div>
                     ) : reviews && reviews.length > 0 ? (
                         <div className="space-y-6">
-                            {reviews.map((review: any) => (
+                            {reviews.map((review) => (
                                 <div key={review.id} className="border-b last:border-0 pb-6 last:pb-0">
                                     <div className="flex items-start gap-3 mb-2">
                                         <Avatar className="w-8 h-8">
-                                            <AvatarImage src={review.from?.profile_photo} />
-                                            <AvatarFallback>{review.from?.full_name?.charAt(0) || 'U'}</AvatarFallback>
+                                            <AvatarImage src={review.from?.profilePhoto || undefined} />
+                                            <AvatarFallback>{review.from?.fullName?.charAt(0) || 'U'}</AvatarFallback>
                                         </Avatar>
                                         <div className="flex-1">
                                             <div className="flex items-center justify-between">
-                                                <span className="font-semibold text-sm">{review.from?.full_name || 'Anonymous'}</span>
-                                                <span className="text-xs text-muted-foreground">{format(new Date(review.created_at), 'MMM dd, yyyy')}</span>
+                                                <span className="font-semibold text-sm">{review.from?.fullName || 'Anonymous'}</span>
+                                                <span className="text-xs text-muted-foreground">{format(new Date(review.createdAt), 'MMM dd, yyyy')}</span>
                                             </div>
                                             <div className="flex items-center gap-1 my-1">
                                                 {[...Array(5)].map((_, i) => (
@@ -69,15 +147,64 @@ export function ReviewsList({ isOpen, onClose, userId, userName }: ReviewsListPr
                                                     />
                                                 ))}
                                             </div>
+                                            {Object.keys(review.categories).length > 0 && (
+                                                <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                                                    {(Object.entries(review.categories) as [RatingCategory, number][]).map(([key, value]) => (
+                                                        <span key={key}>{RATING_CATEGORY_LABELS[key]} {value}/5</span>
+                                                    ))}
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                     <p className="text-sm text-foreground/80 pl-11">{review.review || "No comment provided."}</p>
+
+                                    {review.response && (
+                                        <div className="ml-11 mt-3 pl-3 border-l-2 text-sm">
+                                            <span className="font-medium">Response from {userName}</span>
+                                            <p className="text-foreground/80">{review.response}</p>
+                                        </div>
+                                    )}
+
+                                    {isOwnProfile && replyingTo === review.id ? (
+                                        <div className="ml-11 mt-3 space-y-2">
+                                            <Textarea
+                                                value={replyText}
+                                                onChange={(e) => setReplyText(e.target.value)}
+                                                maxLength={500}
+                                                rows={3}
+                                                placeholder="Reply publicly to this review"
+                                            />
+                                            <div className="flex justify-end gap-2">
+                                                <Button variant="ghost" size="sm" onClick={() => setReplyingTo(null)}>Cancel</Button>
+                                                <Button
+                                                    size="sm"
+                                                    disabled={!replyText.trim() || replyMutation.isPending}
+                                                    onClick={() => replyMutation.mutate({ ratingId: review.id, response: replyText })}
+                                                >
+                                                    Post reply
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    ) : isOwnProfile && (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="ml-9 mt-1 gap-1 text-muted-foreground"
+                                            onClick={() => {
+                                                setReplyingTo(review.id);
+                                                setReplyText(review.response || '');
+                                            }}
+                                        >
+                                            <MessageSquareReply className="w-3 h-3" />
+                                            {review.response ? 'Edit reply' : 'Reply'}
+                                        </Button>
+                                    )}
                                 </div>
                             ))}
                         </div>
                     ) : (
                         <div className="text-center text-muted-foreground py-10">
-                            No reviews yet.
+                            {starFilter !== 'all' || withComments ? 'No reviews match these filters.' : 'No reviews yet.'}
                         </div>
                     )}
                 </ScrollArea>
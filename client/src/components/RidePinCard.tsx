@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { KeyRound } from 'lucide-react';
+import { getRidePin } from '@/lib/ride-pin-service';
+
+interface RidePinCardProps {
+    bookingId: string;
+    bookingStatus: string;
+    dropoffPin?: boolean;
+}
+
+export function RidePinCard({ bookingId, bookingStatus, dropoffPin }: RidePinCardProps) {
+    const { data: pin } = useQuery({
+        queryKey: ['ride-pin', bookingId],
+        queryFn: () => getRidePin(bookingId),
+    });
+
+    if (!pin) return null;
+
+    // Before pickup show the start PIN; once on board, the drop-off PIN if the trip uses one
+    const onBoard = bookingStatus === 'picked_up';
+    if (onBoard && !dropoffPin) return null;
+
+    return (
+        <Card className="p-4 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+                <KeyRound className="w-5 h-5 text-primary" />
+                <div>
+                    <p className="font-semibold text-sm">{onBoard ? 'Drop-off PIN' : 'Ride PIN'}</p>
+                    <p className="text-xs text-muted-foreground">
+                        {onBoard ? 'Share with your driver when you arrive' : 'Share with your driver when you get in'}
+                    </p>
+                </div>
+            </div>
+            <span className="text-2xl font-bold tracking-[0.3em]" data-testid="text-ride-pin">
+                {onBoard ? pin.endPin : pin.startPin}
+            </span>
+        </Card>
+    );
+}
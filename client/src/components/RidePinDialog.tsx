@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { useToast } from '@/hooks/use-toast';
+import { verifyRidePin, RidePinStage } from '@/lib/ride-pin-service';
+
+interface RidePinDialogProps {
+    bookingId: string | null;
+    passengerName?: string;
+    stage: RidePinStage;
+    onClose: () => void;
+    onVerified: () => void;
+}
+
+export function RidePinDialog({ bookingId, passengerName, stage, onClose, onVerified }: RidePinDialogProps) {
+    const { toast } = useToast();
+    const [pin, setPin] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+
+    const close = () => {
+        setPin('');
+        setMessage(null);
+        onClose();
+    };
+
+    const verifyMutation = useMutation({
+        mutationFn: () => verifyRidePin(bookingId!, pin, stage),
+        onSuccess: (result) => {
+            if (result.success) {
+                toast({ title: stage === 'start' ? 'Passenger picked up' : 'Passenger dropped off' });
+                setPin('');
+                setMessage(null);
+                onVerified();
+                return;
+            }
+
+            setPin('');
+            setMessage(result.attemptsLeft !== undefined
+                ? `${result.error}. ${result.attemptsLeft} attempt${result.attemptsLeft === 1 ? '' : 's'} left.`
+                : result.error || 'Could not verify PIN');
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not verify PIN', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    return (
+        <Dialog open={!!bookingId} onOpenChange={(open) => !open && close()}>
+            <DialogContent className="max-w-sm">
+                <DialogHeader>
+                    <DialogTitle>{stage === 'start' ? 'Enter ride PIN' : 'Enter drop-off PIN'}</DialogTitle>
+                    <DialogDescription>
+                        Ask {passengerName || 'the passenger'} for the 4-digit PIN shown in their app.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex flex-col items-center gap-3 py-2">
+                    <InputOTP maxLength={4} value={pin} onChange={setPin} data-testid="input-ride-pin">
+                        <InputOTPGroup>
+                            <InputOTPSlot index={0} />
+                            <InputOTPSlot index={1} />
+                            <InputOTPSlot index={2} />
+                            <InputOTPSlot index={3} />
+                        </InputOTPGroup>
+                    </InputOTP>
+                    {message && <p className="text-sm text-destructive text-center">{message}</p>}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={close}>Cancel</Button>
+                    <Button
+                        onClick={() => verifyMutation.mutate()}
+                        disabled={pin.length !== 4 || verifyMutation.isPending}
+                        data-testid="button-verify-ride-pin"
+                    >
+                        Verify
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CalendarClock, IndianRupee, MapPin, Navigation, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { Driver, MarketplaceRideRequest } from '@shared/schema';
+import { getDriverVehicles } from '@/lib/vehicles-service';
+import {
+    findMarketplaceRideRequests,
+    makeRideRequestOffer,
+    withdrawRideRequestOffer,
+} from '@/lib/ride-request-marketplace-service';
+
+interface RideRequestMarketplaceProps {
+    driver: Driver;
+}
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+
+/**
+ * Future ride requests posted by passengers nearby, which drivers answer with an offer
+ */
+export function RideRequestMarketplace({ driver }: RideRequestMarketplaceProps) {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [selected, setSelected] = useState<MarketplaceRideRequest | null>(null);
+    const [departureTime, setDepartureTime] = useState('');
+    const [pricePerSeat, setPricePerSeat] = useState('');
+    const [totalSeats, setTotalSeats] = useState('');
+    const [message, setMessage] = useState('');
+
+    const { data: requests = [] } = useQuery({
+        queryKey: ['marketplace-ride-requests', driver.id],
+        queryFn: () => findMarketplaceRideRequests(),
+        refetchInterval: 30000,
+    });
+
+    const { data: vehicles = [] } = useQuery({
+        queryKey: ['driver-vehicles', driver.id],
+        queryFn: () => getDriverVehicles(driver.id),
+    });
+    const activeVehicle = vehicles.find(v => v.id === driver.activeVehicleId);
+
+    const openOffer = (request: MarketplaceRideRequest) => {
+        const existing = request.myOffer;
+        setSelected(request);
+        setDepartureTime(toLocalInput(existing?.departureTime || request.scheduled_time!));
+        setPricePerSeat(existing ? String(parseFloat(existing.pricePerSeat)) : String(Math.round(parseFloat(request.fare) / request.seats)));
+        setTotalSeats(String(existing?.totalSeats || request.seats));
+        setMessage(existing?.message || '');
+    };
+
+    const onSuccess = () => {
+        queryClient.invalidateQueries({ queryKey: ['marketplace-ride-requests'] });
+    };
+
+    const offerMutation = useMutation({
+        mutationFn: () => makeRideRequestOffer(selected!.id, {
+            departureTime: new Date(departureTime),
+            pricePerSeat: parseFloat(pricePerSeat),
+            totalSeats: parseInt(totalSeats),
+            message,
+        }),
+        onSuccess: () => {
+            onSuccess();
+            setSelected(null);
+            toast({ title: 'Offer sent', description: "We'll let you know if the passenger accepts." });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not send offer', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const withdrawMutation = useMutation({
+        mutationFn: withdrawRideRequestOffer,
+        onSuccess: () => {
+            onSuccess();
+            toast({ title: 'Offer withdrawn' });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not withdraw offer', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    if (requests.length === 0) return null;
+
+    return (
+        <div className="space-y-3 mb-6">
+            <h2 className="text-lg font-semibold">Rides Wanted ({requests.length})</h2>
+            {requests.map((request) => {
+                const budget = Math.round(parseFloat(request.fare) / request.seats);
+
+                return (
+                    <Card key={request.id} className="p-4 border-l-4 border-l-secondary space-y-3">
+                        <div className="flex justify-between items-start gap-4">
+                            <div className="space-y-1 text-sm min-w-0">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium">{request.passengerName}</span>
+                                    <Badge variant="outline" className="uppercase text-xs">{request.vehicleType}</Badge>
+                                    {request.passengerReliability != null && (
+                                        <Badge variant="secondary" className="text-xs">{Math.round(request.passengerReliability)}% reliable</Badge>
+                                    )}
+                                </div>
+                                <div className="flex items-start gap-2">
+                                    <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0 text-success" />
+                                    <span className="truncate">{request.pickupLocation}</span>
+                                </div>
+                                <div className="flex items-start gap-2">
+                                    <Navigation className="w-4 h-4 mt-0.5 flex-shrink-0 text-destructive" />
+                                    <span className="truncate">{request.dropLocation}</span>
+                                </div>
+                            </div>
+                            <div className="text-right flex-shrink-0">
+                                <div className="font-bold flex items-center justify-end">
+                                    <IndianRupee className="w-4 h-4" />
+                                    {budget}/seat
+                                </div>
+                                {request.distanceKm != null && (
+                                    <div className="text-xs text-muted-foreground">{request.distanceKm} km away</div>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground bg-secondary/20 p-2 rounded">
+                            <div className="flex items-center gap-1">
+                                <CalendarClock className="w-4 h-4" />
+                                {format(new Date(request.scheduled_time!), 'EEE dd MMM, h:mm a')} – {format(new Date(request.scheduledUntil!), 'h:mm a')}
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <Users className="w-4 h-4" />
+                                {request.seats} seat{request.seats === 1 ? '' : 's'}
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <Navigation className="w-4 h-4" />
+                                {request.distance} km
+                            </div>
+                        </div>
+
+                        {request.notes && <p className="text-sm text-muted-foreground">{request.notes}</p>}
+
+                        {request.myOffer ? (
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-sm">
+                                    You offered ₹{parseFloat(request.myOffer.pricePerSeat)}/seat at {format(new Date(request.myOffer.departureTime), 'h:mm a')}
+                                </span>
+                                <div className="flex gap-2">
+                                    <Button variant="ghost" size="sm" onClick={() => openOffer(request)}>
+                                        Edit
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => withdrawMutation.mutate(request.myOffer!.id)}
+                                        disabled={withdrawMutation.isPending}
+                                    >
+                                        Withdraw
+                                    </Button>
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs text-muted-foreground">
+                                    {request.offerCount ? `${request.offerCount} offer${request.offerCount === 1 ? '' : 's'} so far` : 'No offers yet'}
+                                </span>
+                                <Button size="sm" onClick={() => openOffer(request)}>
+                                    Make Offer
+                                </Button>
+                            </div>
+                        )}
+                    </Card>
+                );
+            })}
+
+            <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+                <DialogContent className="sm:max-w-[425px]">
+                    <DialogHeader>
+                        <DialogTitle>Make an Offer</DialogTitle>
+                        <DialogDescription>
+                            {selected && `${selected.pickupLocation.split(',')[0]} to ${selected.dropLocation.split(',')[0]}`}
+                        </DialogDescription>
+                    </DialogHeader>
+                    {selected && (
+                        <div className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="offer-departure">Departure</Label>
+                                <Input
+                                    id="offer-departure"
+                                    type="datetime-local"
+                                    min={toLocalInput(selected.scheduled_time!)}
+                                    max={toLocalInput(selected.scheduledUntil!)}
+                                    value={departureTime}
+                                    onChange={(e) => setDepartureTime(e.target.value)}
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                    <Label htmlFor="offer-price">Price per Seat (₹)</Label>
+                                    <Input
+                                        id="offer-price"
+                                        type="number"
+                                        min={1}
+                                        value={pricePerSeat}
+                                        onChange={(e) => setPricePerSeat(e.target.value)}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="offer-seats">Seats on Trip</Label>
+                                    <Input
+                                        id="offer-seats"
+                                        type="number"
+                                        min={selected.seats}
+                                        max={activeVehicle?.seatCount}
+                                        value={totalSeats}
+                                        onChange={(e) => setTotalSeats(e.target.value)}
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                The passenger needs {selected.seats} seat{selected.seats === 1 ? '' : 's'}.
+                                Extra seats are published on the trip for others to book.
+                            </p>
+                            <div className="space-y-2">
+                                <Label htmlFor="offer-message">Message</Label>
+                                <Textarea
+                                    id="offer-message"
+                                    rows={2}
+                                    value={message}
+                                    onChange={(e) => setMessage(e.target.value)}
+                                />
+                            </div>
+                            {!activeVehicle && (
+                                <p className="text-xs text-destructive">Choose an active vehicle in your profile before making offers.</p>
+                            )}
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button
+                            onClick={() => offerMutation.mutate()}
+                            disabled={offerMutation.isPending || !activeVehicle || !departureTime || !(parseFloat(pricePerSeat) > 0)}
+                        >
+                            {offerMutation.isPending ? 'Sending...' : 'Send Offer'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -6,7 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Loader2, MapPin, User, Star, Phone, MessageCircle, X, Clock, Navigation, CheckCircle } from 'lucide-react';
-import { RideRequest, subscribeToRideRequest, cancelRideRequest, getRideRequest } from '@/lib/ride-matching-service';
+import { RideRequest, subscribeToRideRequest, cancelRideRequest, getRideRequest, dispatchRideRequest } from '@/lib/ride-matching-service';
 import { useToast } from '@/hooks/use-toast';
 import { formatDistance, formatDuration } from '@/lib/navigation-service';
 import { RideInsuranceInfo } from '@/components/RideInsuranceInfo';
@@ -38,6 +38,20 @@ export function RideRequestStatus({ requestId, onCancel }: RideRequestStatusProp
         return unsubscribe;
     }, [requestId]);
 
+    // Dispatch runs on the server; nudging it while the page is open just
+    // moves offers on sooner than the next sweep
+    useEffect(() => {
+        if (request?.status !== 'searching') return;
+
+        const interval = setInterval(() => {
+            dispatchRideRequest(requestId).catch((error) => {
+                console.error('Failed to nudge dispatch:', error);
+            });
+        }, 10000);
+
+        return () => clearInterval(interval);
+    }, [requestId, request?.status]);
+
     const loadRequest = async () => {
         try {
             const data = await getRideRequest(requestId);
@@ -339,7 +353,7 @@ export function RideRequestStatus({ requestId, onCancel }: RideRequestStatusProp
                                 <p className="font-semibold">{driver.user?.full_name}</p>
                                 <div className="flex items-center gap-1 text-sm text-muted-foreground">
                                     <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
-                                    <span>{driver.rating || '5.0'}</span>
+                                    <span>{driver.rating || 'New'}</span>
                                     <span className="mx-1">•</span>
                                     <span>{driver.total_trips || 0} trips</span>
                                 </div>
@@ -5,6 +5,7 @@ import { Progress } from '@/components/ui/progress';
 import { BarChart, TrendingUp, MapPin, Clock, IndianRupee, Award } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { getRatingSummaries } from '@/lib/ratings-service';
 
 interface RideStats {
     totalRides: number;
@@ -57,19 +58,9 @@ export function RideStatistics() {
 
             if (error) throw error;
 
-            // Fetch ratings received by the user
-            const { data: ratings, error: ratingsError } = await supabase
-                .from('ratings')
-                .select('rating')
-                .eq('to_user_id', user.id);
-
-            if (ratingsError) throw ratingsError;
-
-            let averageRating = 0;
-            if (ratings && ratings.length > 0) {
-                const totalRating = ratings.reduce((sum, r) => sum + r.rating, 0);
-                averageRating = totalRating / ratings.length;
-            }
+            // Passenger score kept by the database
+            const summaries = await getRatingSummaries(user.id);
+            const averageRating = summaries.find(s => s.role === 'passenger')?.rating || 0;
 
             if (bookings && bookings.length > 0) {
                 const totalRides = bookings.length;
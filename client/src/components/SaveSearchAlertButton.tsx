@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { BellPlus } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Coordinates } from '@/lib/maps';
+import { useSearchStore } from '@/lib/search-store';
+import { createSavedSearch } from '@/lib/saved-search-service';
+
+interface SaveSearchAlertButtonProps {
+    pickup: string;
+    pickupCoords?: Coordinates;
+    drop: string;
+    dropCoords?: Coordinates;
+}
+
+const shortName = (location: string) => location.split(',')[0].trim();
+
+/**
+ * Saves the current route as an alert for newly published trips,
+ * starting from the search page's time and price filters
+ */
+export function SaveSearchAlertButton({ pickup, pickupCoords, drop, dropCoords }: SaveSearchAlertButtonProps) {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const { filters } = useSearchStore();
+    const [isOpen, setIsOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [windowStart, setWindowStart] = useState('');
+    const [windowEnd, setWindowEnd] = useState('');
+    const [maxPrice, setMaxPrice] = useState('');
+
+    const openDialog = () => {
+        setName(`${shortName(pickup)} → ${shortName(drop)}`);
+        setWindowStart(filters.departureTimeStart || '');
+        setWindowEnd(filters.departureTimeEnd || '');
+        setMaxPrice(filters.maxPrice ? String(filters.maxPrice) : '');
+        setIsOpen(true);
+    };
+
+    const saveMutation = useMutation({
+        mutationFn: () => createSavedSearch(user!.id, {
+            name,
+            pickupLocation: pickup,
+            pickupCoords,
+            dropLocation: drop,
+            dropCoords,
+            windowStart,
+            windowEnd,
+            maxPrice: parseFloat(maxPrice) || undefined,
+        }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+            setIsOpen(false);
+            toast({
+                title: 'Alert saved',
+                description: "We'll notify you when a matching ride is published.",
+            });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Could not save alert', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const hasWindow = !!windowStart === !!windowEnd && (!windowStart || windowStart < windowEnd);
+
+    if (!user) return null;
+
+    return (
+        <>
+            <Button variant="outline" size="sm" className="gap-2 w-full" onClick={openDialog}>
+                <BellPlus className="w-4 h-4" />
+                Alert me about new rides on this route
+            </Button>
+
+            <Dialog open={isOpen} onOpenChange={setIsOpen}>
+                <DialogContent className="sm:max-w-[425px]">
+                    <DialogHeader>
+                        <DialogTitle>Save Search Alert</DialogTitle>
+                        <DialogDescription>
+                            {shortName(pickup)} to {shortName(drop)}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="alert-name">Name</Label>
+                            <Input id="alert-name" value={name} onChange={(e) => setName(e.target.value)} />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-2">
+                                <Label htmlFor="alert-window-start">Leaving After</Label>
+                                <Input
+                                    id="alert-window-start"
+                                    type="time"
+                                    value={windowStart}
+                                    onChange={(e) => setWindowStart(e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="alert-window-end">Leaving Before</Label>
+                                <Input
+                                    id="alert-window-end"
+                                    type="time"
+                                    value={windowEnd}
+                                    onChange={(e) => setWindowEnd(e.target.value)}
+                                />
+                            </div>
+                        </div>
+                        {!hasWindow && (
+                            <p className="text-xs text-destructive">
+                                Set a start time before the end time, or leave both empty for any time.
+                            </p>
+                        )}
+                        <div className="space-y-2">
+                            <Label htmlFor="alert-max-price">Max Price per Seat (₹)</Label>
+                            <Input
+                                id="alert-max-price"
+                                type="number"
+                                min={1}
+                                placeholder="Any price"
+                                value={maxPrice}
+                                onChange={(e) => setMaxPrice(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button
+                            onClick={() => saveMutation.mutate()}
+                            disabled={saveMutation.isPending || !name.trim() || !hasWindow}
+                        >
+                            {saveMutation.isPending ? 'Saving...' : 'Save Alert'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
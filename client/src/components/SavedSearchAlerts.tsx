@@ -0,0 +1,190 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { addDays, format, isFuture } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell, BellOff, MapPin, Navigation, Search, Trash2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { SavedSearch } from '@shared/schema';
+import {
+    getSavedSearches,
+    snoozeSavedSearch,
+    setSavedSearchAlerts,
+    deleteSavedSearch,
+    savedSearchUrl,
+} from '@/lib/saved-search-service';
+
+const SNOOZE_OPTIONS = [
+    { label: '1 day', days: 1 },
+    { label: '3 days', days: 3 },
+    { label: '1 week', days: 7 },
+];
+
+function describeSearch(search: SavedSearch) {
+    const parts: string[] = [];
+    if (search.windowStart && search.windowEnd) parts.push(`${search.windowStart}–${search.windowEnd}`);
+    if (search.maxPrice) parts.push(`up to ₹${parseFloat(search.maxPrice)}`);
+    return parts.join(' · ');
+}
+
+/**
+ * The passenger's saved search alerts, with snooze and unsubscribe controls
+ */
+export function SavedSearchAlerts() {
+    const [, navigate] = useLocation();
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data: searches = [] } = useQuery({
+        queryKey: ['saved-searches', user?.id],
+        queryFn: () => getSavedSearches(user!.id),
+        enabled: !!user,
+    });
+
+    const onSuccess = () => {
+        queryClient.invalidateQueries({ queryKey: ['saved-searches'] });
+    };
+    const onError = (error: any) => {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    };
+
+    const snoozeMutation = useMutation({
+        mutationFn: ({ id, until }: { id: string; until: Date | null }) => snoozeSavedSearch(id, until),
+        onSuccess,
+        onError,
+    });
+
+    const alertsMutation = useMutation({
+        mutationFn: ({ id, enabled }: { id: string; enabled: boolean }) => setSavedSearchAlerts(id, enabled),
+        onSuccess,
+        onError,
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: deleteSavedSearch,
+        onSuccess,
+        onError,
+    });
+
+    if (!user || searches.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-4">
+            <h2 className="text-2xl font-bold flex items-center gap-2">
+                <Bell className="w-6 h-6 text-primary" />
+                Ride Alerts
+            </h2>
+
+            <div className="space-y-3">
+                {searches.map((search) => {
+                    const snoozed = !!search.snoozedUntil && isFuture(new Date(search.snoozedUntil));
+                    const details = describeSearch(search);
+
+                    return (
+                        <Card key={search.id} className="p-4 space-y-3">
+                            <div className="flex items-start justify-between gap-2">
+                                <div className="min-w-0">
+                                    <h3 className="font-semibold truncate">{search.name}</h3>
+                                    {details && <p className="text-xs text-muted-foreground">{details}</p>}
+                                </div>
+                                <Switch
+                                    checked={search.alertsEnabled}
+                                    onCheckedChange={(enabled) => alertsMutation.mutate({ id: search.id, enabled })}
+                                    disabled={alertsMutation.isPending}
+                                    aria-label={search.alertsEnabled ? 'Unsubscribe' : 'Resubscribe'}
+                                />
+                            </div>
+
+                            <div className="space-y-1 text-sm text-muted-foreground">
+                                <div className="flex items-start gap-2">
+                                    <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0 text-success" />
+                                    <span className="truncate">{search.pickupLocation}</span>
+                                </div>
+                                <div className="flex items-start gap-2">
+                                    <Navigation className="w-4 h-4 mt-0.5 flex-shrink-0 text-destructive" />
+                                    <span className="truncate">{search.dropLocation}</span>
+                                </div>
+                            </div>
+
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-xs text-muted-foreground">
+                                    {!search.alertsEnabled
+                                        ? 'Unsubscribed'
+                                        : snoozed
+                                            ? `Snoozed until ${format(new Date(search.snoozedUntil!), 'dd MMM, h:mm a')}`
+                                            : search.lastAlertedAt
+                                                ? `Last alert ${format(new Date(search.lastAlertedAt), 'dd MMM')}`
+                                                : 'Watching for new rides'}
+                                </span>
+                                <div className="flex gap-1">
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8"
+                                        onClick={() => navigate(savedSearchUrl(search))}
+                                        aria-label="Search now"
+                                    >
+                                        <Search className="w-4 h-4" />
+                                    </Button>
+                                    {search.alertsEnabled && (snoozed ? (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-8"
+                                            onClick={() => snoozeMutation.mutate({ id: search.id, until: null })}
+                                            disabled={snoozeMutation.isPending}
+                                        >
+                                            Resume
+                                        </Button>
+                                    ) : (
+                                        <DropdownMenu>
+                                            <DropdownMenuTrigger asChild>
+                                                <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Snooze">
+                                                    <BellOff className="w-4 h-4" />
+                                                </Button>
+                                            </DropdownMenuTrigger>
+                                            <DropdownMenuContent align="end">
+                                                {SNOOZE_OPTIONS.map(option => (
+                                                    <DropdownMenuItem
+                                                        key={option.days}
+                                                        onClick={() => snoozeMutation.mutate({
+                                                            id: search.id,
+                                                            until: addDays(new Date(), option.days),
+                                                        })}
+                                                    >
+                                                        Snooze {option.label}
+                                                    </DropdownMenuItem>
+                                                ))}
+                                            </DropdownMenuContent>
+                                        </DropdownMenu>
+                                    ))}
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8 text-destructive"
+                                        onClick={() => deleteMutation.mutate(search.id)}
+                                        disabled={deleteMutation.isPending}
+                                        aria-label="Delete"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                </div>
+                            </div>
+                        </Card>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -7,6 +7,7 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Heart, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
+import { tipDriverFromWallet } from '@/lib/wallet-service';
 
 interface TipDriverDialogProps {
     open: boolean;
@@ -56,17 +57,13 @@ export function TipDriverDialog({
             const { data: { user } } = await supabase.auth.getUser();
             if (!user) throw new Error('User not authenticated');
 
-            // Check wallet balance
-            const { data: wallet } = await supabase
-                .from('wallets')
-                .select('id, balance')
-                .eq('user_id', user.id)
-                .single();
+            // Debit passenger wallet and credit the driver's payable in the ledger
+            const result = await tipDriverFromWallet(amount, bookingId);
 
-            if (!wallet || wallet.balance < amount) {
+            if (!result.success) {
                 toast({
                     title: 'Insufficient Balance',
-                    description: 'Please add money to your wallet to tip the driver',
+                    description: result.message || 'Please add money to your wallet to tip the driver',
                     variant: 'destructive',
                 });
                 setProcessing(false);
@@ -87,63 +84,12 @@ export function TipDriverDialog({
 
             if (tipError) throw tipError;
 
-            // Deduct from passenger wallet
-            const { error: deductError } = await supabase
-                .from('wallets')
-                .update({ balance: wallet.balance - amount })
-                .eq('user_id', user.id);
-
-            if (deductError) throw deductError;
-
-            // Add wallet transaction
-            const { error: txnError } = await supabase
-                .from('wallet_transactions')
-                .insert({
-                    wallet_id: wallet.id,
-                    type: 'debit',
-                    amount: amount,
-                    description: `Tip to ${driverName}`,
-                    status: 'completed',
-                    reference_id: bookingId,
-                });
-
-            if (txnError) throw txnError;
-
-            // Get driver's wallet
             const { data: driverUser } = await supabase
                 .from('drivers')
                 .select('user_id')
                 .eq('id', driverId)
                 .single();
 
-            if (driverUser) {
-                const { data: driverWallet } = await supabase
-                    .from('wallets')
-                    .select('*')
-                    .eq('user_id', driverUser.user_id)
-                    .single();
-
-                if (driverWallet) {
-                    // Credit to driver wallet
-                    await supabase
-                        .from('wallets')
-                        .update({ balance: driverWallet.balance + amount })
-                        .eq('user_id', driverUser.user_id);
-
-                    // Add driver wallet transaction
-                    await supabase
-                        .from('wallet_transactions')
-                        .insert({
-                            wallet_id: driverWallet.id,
-                            type: 'credit',
-                            amount: amount,
-                            description: `Tip from passenger`,
-                            status: 'completed',
-                            reference_id: bookingId,
-                        });
-                }
-            }
-
             // Send notification to driver
             if (driverUser) {
                 await supabase
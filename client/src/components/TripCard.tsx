@@ -2,7 +2,7 @@ import { Card } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Clock, MapPin, Users, Star } from 'lucide-react';
+import { Calendar, Clock, MapPin, Users, Star, Route } from 'lucide-react';
 import { TripWithDriver } from '@shared/schema';
 import { format } from 'date-fns';
 
@@ -15,6 +15,10 @@ interface TripCardProps {
 export function TripCard({ trip, onBook, showActions = true }: TripCardProps) {
   const departureDate = new Date(trip.departureTime);
   const driver = trip.driver;
+  const segment = trip.segment;
+  const match = trip.match;
+  const isPartialRide = !!segment &&
+    (segment.boardLocation !== trip.pickupLocation || segment.alightLocation !== trip.dropLocation);
 
   if (!driver || !driver.user) {
     return (
@@ -34,7 +38,7 @@ export function TripCard({ trip, onBook, showActions = true }: TripCardProps) {
           </Avatar>
           <div className="flex items-center gap-1 text-sm">
             <Star className="w-4 h-4 fill-warning text-warning" />
-            <span className="font-medium">{driver.rating}</span>
+            <span className="font-medium">{driver.rating || 'New'}</span>
           </div>
         </div>
 
@@ -56,7 +60,7 @@ export function TripCard({ trip, onBook, showActions = true }: TripCardProps) {
                     Surge
                   </span>
                 )}
-                ₹{trip.pricePerSeat}
+                ₹{segment?.seatPrice ?? trip.pricePerSeat}
               </div>
               <div className="text-xs text-muted-foreground">per seat</div>
             </div>
@@ -66,15 +70,27 @@ export function TripCard({ trip, onBook, showActions = true }: TripCardProps) {
             <div className="flex items-start gap-2">
               <MapPin className="w-4 h-4 text-success mt-0.5 flex-shrink-0" />
               <div className="flex-1 min-w-0">
-                <div className="text-sm font-medium" data-testid="trip-pickup">{trip.pickupLocation}</div>
+                <div className="text-sm font-medium" data-testid="trip-pickup">{segment?.boardLocation ?? trip.pickupLocation}</div>
               </div>
             </div>
             <div className="flex items-start gap-2">
               <MapPin className="w-4 h-4 text-destructive mt-0.5 flex-shrink-0" />
               <div className="flex-1 min-w-0">
-                <div className="text-sm font-medium" data-testid="trip-drop">{trip.dropLocation}</div>
+                <div className="text-sm font-medium" data-testid="trip-drop">{segment?.alightLocation ?? trip.dropLocation}</div>
               </div>
             </div>
+            {isPartialRide && (
+              <p className="text-xs text-muted-foreground" data-testid="trip-full-route">
+                Part of {trip.pickupLocation} → {trip.dropLocation}
+              </p>
+            )}
+            {match && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1.5" data-testid="trip-route-match">
+                <Route className="w-3.5 h-3.5 text-primary" />
+                Pickup {match.pickupDistanceKm.toFixed(1)} km · drop {match.dropDistanceKm.toFixed(1)} km from route
+                {match.detourMinutes !== null && ` · +${match.detourMinutes} min detour`}
+              </p>
+            )}
           </div>
 
           <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground mb-4">
@@ -88,7 +104,7 @@ export function TripCard({ trip, onBook, showActions = true }: TripCardProps) {
             </div>
             <div className="flex items-center gap-1.5">
               <Users className="w-4 h-4" />
-              <span data-testid="trip-seats">{trip.availableSeats} seats available</span>
+              <span data-testid="trip-seats">{segment?.seatsAvailable ?? trip.availableSeats} seats available</span>
             </div>
           </div>
 
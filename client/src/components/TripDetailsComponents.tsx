@@ -59,7 +59,7 @@ export function SimilarTrips({ currentTripId, pickupLocation, dropLocation, onTr
                                     <p className="text-sm font-medium">{trip.driver.user.fullName}</p>
                                     <div className="flex items-center gap-1">
                                         <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
-                                        <span className="text-xs text-muted-foreground">{trip.driver.rating}</span>
+                                        <span className="text-xs text-muted-foreground">{trip.driver.rating || 'New'}</span>
                                     </div>
                                 </div>
                             </div>
@@ -1,22 +1,35 @@
 
+import { useState, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import {
-    User, Phone, MapPin, CheckCircle, Navigation
+    User, Phone, MapPin, CheckCircle, Navigation, Clock, UserX
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { RidePinDialog } from '@/components/RidePinDialog';
+import { RidePinStage } from '@/lib/ride-pin-service';
+import { getPickupWaits, markArrivedAtPickup, reportNoShow } from '@/lib/no-show-service';
 
 interface TripManifestProps {
     tripId: string;
     currentLocation?: { lat: number; lng: number };
+    dropoffPin?: boolean; // trip asks passengers for a second PIN at drop-off
 }
 
-export function TripManifest({ tripId, currentLocation }: TripManifestProps) {
+export function TripManifest({ tripId, currentLocation, dropoffPin }: TripManifestProps) {
     const { toast } = useToast();
     const queryClient = useQueryClient();
+    const [pinCheck, setPinCheck] = useState<{ booking: any; stage: RidePinStage } | null>(null);
+    const [now, setNow] = useState(Date.now());
+
+    // Ticks the pickup wait countdowns
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
 
     // Fetch all bookings for this trip
     const { data: bookings } = useQuery({
@@ -34,6 +47,39 @@ export function TripManifest({ tripId, currentLocation }: TripManifestProps) {
         refetchInterval: 3000
     });
 
+    const { data: pickupWaits = {} } = useQuery({
+        queryKey: ['pickup-waits', tripId],
+        queryFn: () => getPickupWaits(tripId),
+    });
+
+    const arrivedMutation = useMutation({
+        mutationFn: (bookingId: string) => markArrivedAtPickup(bookingId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['pickup-waits', tripId] });
+            toast({ title: "Passenger Notified", description: "The wait timer has started." });
+        },
+        onError: (err: any) => {
+            toast({ title: "Check-in Failed", description: err.message, variant: "destructive" });
+        }
+    });
+
+    const noShowMutation = useMutation({
+        mutationFn: (bookingId: string) => reportNoShow(bookingId),
+        onSuccess: (result) => {
+            queryClient.invalidateQueries({ queryKey: ['trip-manifest'] });
+            queryClient.invalidateQueries({ queryKey: ['pickup-waits', tripId] });
+            toast({
+                title: "Marked as No-show",
+                description: result.outstanding > 0
+                    ? `₹${result.charged} of the ₹${result.fee} fee was collected from the passenger's wallet.`
+                    : `A ₹${result.fee} no-show fee was charged.`,
+            });
+        },
+        onError: (err: any) => {
+            toast({ title: "No-show Failed", description: err.message, variant: "destructive" });
+        }
+    });
+
     const updateStatusMutation = useMutation({
         mutationFn: async ({ id, status }: { id: string, status: string }) => {
             const { error } = await supabase
@@ -81,12 +127,49 @@ export function TripManifest({ tripId, currentLocation }: TripManifestProps) {
                                 </div>
                                 <Button
                                     size="sm"
-                                    onClick={() => updateStatusMutation.mutate({ id: booking.id, status: 'picked_up' })}
-                                    disabled={updateStatusMutation.isPending}
+                                    onClick={() => setPinCheck({ booking, stage: 'start' })}
                                 >
                                     Confirm Pickup
                                 </Button>
                             </div>
+                            {booking.passenger.reliability_score != null && booking.passenger.reliability_score < 90 && (
+                                <Badge variant="outline" className="mt-2 text-xs">
+                                    Reliability {Math.round(booking.passenger.reliability_score)}%
+                                </Badge>
+                            )}
+                            <div className="flex items-center justify-end gap-2 mt-2">
+                                {(() => {
+                                    const wait = pickupWaits[booking.id];
+                                    if (!wait) {
+                                        return (
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={() => arrivedMutation.mutate(booking.id)}
+                                                disabled={arrivedMutation.isPending}
+                                            >
+                                                <MapPin className="w-3 h-3 mr-1" /> I've Arrived
+                                            </Button>
+                                        );
+                                    }
+                                    const remaining = Math.max(0, Math.ceil((new Date(wait.waitUntil).getTime() - now) / 1000));
+                                    return remaining > 0 ? (
+                                        <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                                            <Clock className="w-3 h-3" />
+                                            Waiting {Math.floor(remaining / 60)}:{String(remaining % 60).padStart(2, '0')}
+                                        </span>
+                                    ) : (
+                                        <Button
+                                            size="sm"
+                                            variant="destructive"
+                                            onClick={() => noShowMutation.mutate(booking.id)}
+                                            disabled={noShowMutation.isPending}
+                                        >
+                                            <UserX className="w-3 h-3 mr-1" /> Mark No-show
+                                        </Button>
+                                    );
+                                })()}
+                            </div>
                         </Card>
                     ))}
                 </div>
@@ -109,7 +192,9 @@ export function TripManifest({ tripId, currentLocation }: TripManifestProps) {
                                 <Button
                                     size="sm"
                                     variant="secondary"
-                                    onClick={() => updateStatusMutation.mutate({ id: booking.id, status: 'completed' })}
+                                    onClick={() => dropoffPin
+                                        ? setPinCheck({ booking, stage: 'end' })
+                                        : updateStatusMutation.mutate({ id: booking.id, status: 'completed' })}
                                     disabled={updateStatusMutation.isPending}
                                 >
                                     Drop Off
@@ -132,6 +217,17 @@ export function TripManifest({ tripId, currentLocation }: TripManifestProps) {
                     ))}
                 </div>
             )}
+
+            <RidePinDialog
+                bookingId={pinCheck?.booking.id ?? null}
+                passengerName={pinCheck?.booking.passenger.fullName}
+                stage={pinCheck?.stage ?? 'start'}
+                onClose={() => setPinCheck(null)}
+                onVerified={() => {
+                    setPinCheck(null);
+                    queryClient.invalidateQueries({ queryKey: ['trip-manifest'] });
+                }}
+            />
         </div>
     );
 }
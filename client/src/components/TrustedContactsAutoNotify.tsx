@@ -98,17 +98,13 @@ export function TrustedContactsAutoNotify({
 
             // Attempt to send in-app notification if contact is a registered user
             const notifications = trustedContacts.map(async (contact) => {
-                // Try to resolve user by phone
-                // Note: In a real app, you might want a more robust way to link contacts to users
-                const { data: contactUser } = await supabase
-                    .from('users')
-                    .select('id')
-                    .eq('phone', contact.phone)
-                    .maybeSingle();
-
-                if (contactUser) {
+                // Phone numbers are masked on users, so the server matches the contact
+                const { data: contactUserId } = await supabase
+                    .rpc('get_emergency_contact_user_id', { p_contact_id: contact.id });
+
+                if (contactUserId) {
                     return supabase.from('notifications').insert({
-                        user_id: contactUser.id,
+                        user_id: contactUserId,
                         title: 'Ride Started',
                         message: message,
                         type: 'ride_status',
@@ -134,15 +130,12 @@ export function TrustedContactsAutoNotify({
             const message = `✅ Ride Completed: ${user?.fullName || 'Your friend'} has safely arrived at ${dropLocation}.`;
 
             const notifications = trustedContacts.map(async (contact) => {
-                const { data: contactUser } = await supabase
-                    .from('users')
-                    .select('id')
-                    .eq('phone', contact.phone)
-                    .maybeSingle();
+                const { data: contactUserId } = await supabase
+                    .rpc('get_emergency_contact_user_id', { p_contact_id: contact.id });
 
-                if (contactUser) {
+                if (contactUserId) {
                     return supabase.from('notifications').insert({
-                        user_id: contactUser.id,
+                        user_id: contactUserId,
                         title: 'Ride Completed',
                         message: message,
                         type: 'ride_status',
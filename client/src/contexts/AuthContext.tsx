@@ -152,7 +152,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         try {
           // Direct REST API call to avoid SDK timeouts
-          const response = await fetch(`${supabaseUrl}/rest/v1/users?id=eq.${userId}&select=*`, {
+          const response = await fetch(`${supabaseUrl}/rest/v1/users?id=eq.${userId}&select=*,user_phone_numbers(phone)`, {
             headers: {
               'apikey': supabaseAnonKey,
               'Authorization': `Bearer ${token}`
@@ -170,7 +170,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           const json = await response.json();
           const data = json?.[0];
 
-          if (data) {
+          if (data?.is_banned) {
+            console.warn('Auth: Signing out banned user', userId);
+            await supabase.auth.signOut();
+            setUser(null);
+            userRef.current = null;
+            toast({
+              title: 'Account suspended',
+              description: 'Your account has been suspended. Contact support if you think this is a mistake.',
+              variant: 'destructive',
+            });
+          } else if (data) {
             console.log('Auth: User profile fetched successfully via Direct Fetch', { id: data.id, role: data.role });
             const mappedUser = mapUser(data);
             setUser(mappedUser);
@@ -231,6 +241,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         // User asked to remove "Race Condition Prevention ... fetchInProgress".
         // I will simplify to just await fetchUserProfile.
         await fetchUserProfile(userId, data.session.access_token);
+
+        // Banned accounts are signed straight back out by fetchUserProfile
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return;
       }
 
       toast({
@@ -513,7 +527,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         .from('users')
         .update(dbUpdates)
         .eq('id', user.id)
-        .select()
+        .select('*, user_phone_numbers(phone)')
         .single();
 
       if (error) throw error;
@@ -0,0 +1,36 @@
+import { supabase } from './supabase';
+import { mapAdminAuditEntry } from './mapper';
+import { AdminAuditEntry } from '@shared/schema';
+
+export interface AuditLogFilters {
+    query?: string;
+    entityType?: string;
+    before?: string;
+    limit?: number;
+}
+
+/**
+ * Search the admin audit log, newest first. Pass the createdAt of the last
+ * entry as `before` to load the next page. Needs the audit.view permission.
+ */
+export async function searchAuditLog(filters: AuditLogFilters = {}): Promise<AdminAuditEntry[]> {
+    const { data, error } = await supabase.rpc('search_admin_audit_log', {
+        p_query: filters.query || null,
+        p_entity_type: filters.entityType || null,
+        p_before: filters.before || null,
+        p_limit: filters.limit ?? 50,
+    });
+
+    if (error) throw error;
+    return (data || []).map(mapAdminAuditEntry);
+}
+
+/**
+ * Fields that differ between the before and after snapshots
+ */
+export function changedFields(entry: AdminAuditEntry): string[] {
+    if (!entry.before || !entry.after) return [];
+    return Object.keys(entry.after).filter(
+        key => key !== 'updated_at' && JSON.stringify(entry.before![key]) !== JSON.stringify(entry.after![key])
+    );
+}
@@ -99,11 +99,6 @@ export async function getWallet(): Promise<Wallet> {
                 .from('wallets')
                 .insert({
                     user_id: user.id,
-                    balance: 0,
-                    blocked_amount: 0,
-                    total_added: 0,
-                    total_spent: 0,
-                    last_updated: new Date().toISOString(),
                 })
                 .select()
                 .single();
@@ -117,73 +112,6 @@ export async function getWallet(): Promise<Wallet> {
     return data;
 }
 
-/**
- * Add funds to wallet
- */
-export async function addFundsToWallet(
-    amount: number,
-    paymentMethodId: string,
-    description?: string
-): Promise<WalletTransaction> {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('User not authenticated');
-
-    // Get current wallet
-    const wallet = await getWallet();
-    const newBalance = wallet.balance + amount;
-
-    // Create transaction record
-    const { data: transaction, error: transactionError } = await supabase
-        .from('wallet_transactions')
-        .insert({
-            user_id: user.id,
-            type: 'credit',
-            amount,
-            balance: newBalance,
-            description: description || `Wallet top-up of ₹${amount}`,
-            category: 'topup',
-            status: 'pending',
-            reference_id: paymentMethodId,
-        })
-        .select()
-        .single();
-
-    if (transactionError) throw transactionError;
-
-    // Process the transaction (in real app, this would involve payment gateway)
-    await processWalletTransaction(transaction.id, 'completed');
-
-    // Update wallet balance
-    await supabase
-        .from('wallets')
-        .update({
-            balance: newBalance,
-            total_added: wallet.total_added + amount,
-            last_updated: new Date().toISOString(),
-        })
-        .eq('user_id', user.id);
-
-    return transaction;
-}
-
-/**
- * Process wallet transaction
- */
-export async function processWalletTransaction(
-    transactionId: string,
-    status: 'completed' | 'failed'
-): Promise<void> {
-    const { error } = await supabase
-        .from('wallet_transactions')
-        .update({
-            status,
-            processed_at: status === 'completed' ? new Date().toISOString() : null,
-        })
-        .eq('id', transactionId);
-
-    if (error) throw error;
-}
-
 /**
  * Get wallet transactions
  */
@@ -235,46 +163,19 @@ export async function processAutoPayment(
             return { success: false, error: `Auto-pay is disabled for ${category}` };
         }
 
-        // Get wallet balance
-        const wallet = await getWallet();
+        // Debit the wallet through the ledger; the balance check happens in the same transaction
+        const { data: result, error: payError } = await supabase.rpc('wallet_pay_booking', {
+            p_booking_id: referenceId,
+            p_amount: amount,
+        });
 
-        if (wallet.balance < amount) {
-            return { success: false, error: 'Insufficient wallet balance' };
-        }
+        if (payError) throw payError;
 
-        // Process payment from wallet
-        const newBalance = wallet.balance - amount;
+        if (!result?.success) {
+            return { success: false, error: result?.message || 'Insufficient wallet balance' };
+        }
 
-        // Create transaction record
-        const { data: transaction, error: transactionError } = await supabase
-            .from('wallet_transactions')
-            .insert({
-                user_id: user.id,
-                type: 'debit',
-                amount,
-                balance: newBalance,
-                description,
-                category,
-                status: 'completed',
-                reference_id: referenceId,
-                processed_at: new Date().toISOString(),
-            })
-            .select()
-            .single();
-
-        if (transactionError) throw transactionError;
-
-        // Update wallet balance
-        await supabase
-            .from('wallets')
-            .update({
-                balance: newBalance,
-                total_spent: wallet.total_spent + amount,
-                last_updated: new Date().toISOString(),
-            })
-            .eq('user_id', user.id);
-
-        return { success: true, transactionId: transaction.id };
+        return { success: true, transactionId: result.transaction_id };
 
     } catch (error: any) {
         console.error('Auto-pay error:', error);
@@ -292,7 +193,9 @@ export async function processAutoPayments(tripId: string) {
             .from('bookings')
             .select('*, passenger:users(*)')
             .eq('trip_id', tripId)
-            .eq('status', 'confirmed');
+            .eq('status', 'confirmed')
+            // Company-billed rides are invoiced to the employer instead
+            .or('payment_method.is.null,payment_method.neq.corporate');
 
         if (bookingError) throw bookingError;
         if (!bookings || bookings.length === 0) return;
@@ -309,13 +212,11 @@ export async function processAutoPayments(tripId: string) {
             );
 
             if (autoPayResult.success) {
-                // Update booking status
+                // wallet_pay_booking has already marked the booking paid
                 await supabase
                     .from('bookings')
                     .update({
                         status: 'completed',
-                        payment_status: 'paid',
-                        payment_method: 'wallet',
                         transaction_id: autoPayResult.transactionId
                     })
                     .eq('id', booking.id);
@@ -0,0 +1,63 @@
+import { supabase } from './supabase';
+import { processCancellation } from './edge-functions-service';
+import type { CancellationRefund } from '@/types/supabase-types';
+
+export interface CancellationQuote {
+    booking_id: string;
+    actor_role: 'passenger' | 'driver' | 'admin';
+    trip_type: string;
+    hours_before_departure: number | null;
+    paid_amount: number;
+    refund_percent: number;
+    refund_amount: number;
+}
+
+/**
+ * Get the refund the signed-in user would receive for cancelling a booking.
+ * Calculated by the same database function that applies the cancellation.
+ */
+export async function getCancellationQuote(bookingId: string): Promise<CancellationQuote | null> {
+    const { data, error } = await supabase.rpc('get_cancellation_quote', {
+        p_booking_id: bookingId,
+    });
+
+    if (error) {
+        console.error('Failed to fetch cancellation quote:', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Cancel a booking and process its refund
+ */
+export async function cancelBooking(
+    bookingId: string,
+    reason?: string
+): Promise<CancellationRefund | null> {
+    const { data, error } = await processCancellation({ bookingId, reason });
+
+    if (error || !data?.success) {
+        throw new Error(error?.message || 'Failed to cancel booking');
+    }
+
+    return data.cancellations[0] ?? null;
+}
+
+/**
+ * Cancel a trip as its driver. Every passenger is refunded in full and the
+ * cancellation is counted against the driver's record.
+ */
+export async function cancelTrip(
+    tripId: string,
+    reason?: string
+): Promise<CancellationRefund[]> {
+    const { data, error } = await processCancellation({ tripId, reason });
+
+    if (error || !data?.success) {
+        throw new Error(error?.message || 'Failed to cancel trip');
+    }
+
+    return data.cancellations;
+}
@@ -0,0 +1,124 @@
+import { supabase } from './supabase';
+import { mapMessage } from './mapper';
+import { uploadChatImage, createSignedUrl, BUCKETS } from './storage-service';
+import { Message, MessageAttachment, MessageType, QUICK_REPLIES, QuickReplyKey } from '@shared/schema';
+
+export interface SendMessageInput {
+    tripId: string;
+    senderId: string;
+    senderName?: string;
+    receiverId: string;
+    message: string;
+    messageType?: MessageType;
+    attachment?: MessageAttachment;
+}
+
+/**
+ * Realtime room for one conversation on a trip, the same for both people
+ */
+export function chatRoom(tripId: string, userId: string, otherUserId: string): string {
+    return [tripId, ...[userId, otherUserId].sort()].join(':');
+}
+
+/**
+ * Messages between two people on a trip, oldest first
+ */
+export async function getConversation(tripId: string, userId: string, otherUserId: string): Promise<Message[]> {
+    const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('trip_id', tripId)
+        .or(`and(sender_id.eq.${userId},receiver_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},receiver_id.eq.${userId})`)
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(mapMessage);
+}
+
+/**
+ * Send a chat message and push it to the receiver
+ */
+export async function sendMessage(input: SendMessageInput): Promise<void> {
+    const { error } = await supabase
+        .from('messages')
+        .insert({
+            trip_id: input.tripId,
+            sender_id: input.senderId,
+            receiver_id: input.receiverId,
+            message: input.message,
+            message_type: input.messageType || 'text',
+            attachment: input.attachment || null,
+        });
+
+    if (error) throw error;
+
+    // Don't fail the message send if the notification fails
+    try {
+        await supabase.functions.invoke('send-push-notification', {
+            body: {
+                userId: input.receiverId,
+                title: `New message from ${input.senderName || 'User'}`,
+                body: input.message.substring(0, 50) + (input.message.length > 50 ? '...' : ''),
+                data: { tripId: input.tripId, senderId: input.senderId }
+            }
+        });
+    } catch (notifError) {
+        console.error('Push notification failed:', notifError);
+    }
+}
+
+/**
+ * Send one of the canned quick replies
+ */
+export async function sendQuickReply(
+    input: Omit<SendMessageInput, 'message' | 'messageType' | 'attachment'>,
+    key: QuickReplyKey
+): Promise<void> {
+    return sendMessage({ ...input, message: QUICK_REPLIES[key], messageType: 'quick_reply', attachment: { key } });
+}
+
+/**
+ * Share a location pin
+ */
+export async function sendLocationPin(
+    input: Omit<SendMessageInput, 'message' | 'messageType' | 'attachment'>,
+    coords: { lat: number; lng: number; accuracy?: number }
+): Promise<void> {
+    return sendMessage({ ...input, message: 'Shared a location', messageType: 'location', attachment: coords });
+}
+
+/**
+ * Upload a photo to the trip's chat folder and send it
+ */
+export async function sendImage(
+    input: Omit<SendMessageInput, 'message' | 'messageType' | 'attachment'>,
+    file: File
+): Promise<void> {
+    const upload = await uploadChatImage(input.senderId, file, input.tripId);
+
+    if (!upload.success || !upload.path) {
+        throw new Error(upload.error || 'Failed to upload photo');
+    }
+
+    return sendMessage({ ...input, message: 'Sent a photo', messageType: 'image', attachment: { path: upload.path } });
+}
+
+/**
+ * Short-lived URL for a chat photo; the bucket is private to the trip
+ */
+export async function getAttachmentUrl(path: string): Promise<string | null> {
+    const result = await createSignedUrl(BUCKETS.CHAT_ATTACHMENTS, path);
+    return result.url ?? null;
+}
+
+/**
+ * Mark everything the other person sent you on a trip as read
+ */
+export async function markConversationRead(tripId: string, senderId: string): Promise<void> {
+    const { error } = await supabase.rpc('mark_messages_read', {
+        p_trip_id: tripId,
+        p_sender_id: senderId,
+    });
+
+    if (error) console.error('Failed to mark messages read:', error);
+}
@@ -0,0 +1,46 @@
+import { supabase } from './supabase';
+import { startCall as startCallRelay } from './edge-functions-service';
+import { mapMessageFlag } from './mapper';
+import { MessageFlag, MessageFlagStatus } from '@shared/schema';
+
+/**
+ * Phone the other side of a booking through the call relay. Returns a proxy
+ * number to dial when the provider uses one; otherwise the provider rings the
+ * caller's own phone and connects them.
+ */
+export async function startCall(bookingId: string): Promise<{ dialNumber: string | null }> {
+    const { data, error } = await startCallRelay({ bookingId });
+
+    if (error || !data?.success) {
+        throw new Error(error?.message || 'Failed to start call');
+    }
+
+    return { dialNumber: data.dialNumber };
+}
+
+/**
+ * Chat messages flagged for sharing contact details, newest first
+ */
+export async function getMessageFlags(status: MessageFlagStatus = 'open'): Promise<MessageFlag[]> {
+    const { data, error } = await supabase
+        .from('message_flags')
+        .select('*, sender:users!message_flags_sender_id_fkey(*)')
+        .eq('status', status)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapMessageFlag);
+}
+
+/**
+ * Close a flag as dismissed (false positive) or actioned (followed up with the sender)
+ */
+export async function resolveMessageFlag(flagId: string, status: Exclude<MessageFlagStatus, 'open'>): Promise<void> {
+    const { data, error } = await supabase.rpc('resolve_message_flag', {
+        p_flag_id: flagId,
+        p_status: status,
+    });
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+}
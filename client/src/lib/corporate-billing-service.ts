@@ -0,0 +1,417 @@
+import { supabase } from './supabase';
+import { format } from 'date-fns';
+import {
+    mapCorporateAccount,
+    mapCostCentre,
+    mapCorporatePurposeCode,
+    mapCorporateRidePolicy,
+    mapCorporatePlace,
+    mapCorporateInvoice,
+} from './mapper';
+import {
+    CorporateAccount,
+    CostCentre,
+    CorporatePurposeCode,
+    CorporateRidePolicy,
+    CorporatePlace,
+    CorporatePlaceType,
+    CorporateInvoice,
+} from '@shared/schema';
+
+export interface CorporateSpendRow {
+    user_id: string;
+    full_name: string;
+    work_email: string | null;
+    ride_count: number;
+    total_amount: number;
+}
+
+export interface CorporateCostCentreSpend {
+    cost_centre_id: string | null;
+    code: string | null;
+    name: string | null;
+    ride_count: number;
+    total_amount: number;
+}
+
+export interface CorporateSpendReport {
+    ride_count: number;
+    total_amount: number;
+    employees: CorporateSpendRow[];
+    cost_centres: CorporateCostCentreSpend[];
+}
+
+export interface CorporateInvoiceLine {
+    booking_id: string;
+    billed_at: string;
+    employee_name: string;
+    work_email: string | null;
+    cost_centre: string | null;
+    purpose_code: string | null;
+    route: string;
+    seats: number;
+    amount: number;
+}
+
+/**
+ * What the passenger picked when billing a booking to their company
+ */
+export interface CorporateBillingSelection {
+    costCentreId?: string;
+    purposeCode?: string;
+}
+
+const CORPORATE_ACCOUNT_SELECT = '*, organization:organizations(*, organization_domains(domain))';
+
+async function callCorporateRpc(fn: string, params: Record<string, unknown>): Promise<any> {
+    const { data, error } = await supabase.rpc(fn, params);
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+    return data;
+}
+
+/**
+ * The active corporate account of an organization, if it has one
+ */
+export async function getCorporateAccount(organizationId: string): Promise<CorporateAccount | null> {
+    const { data, error } = await supabase
+        .from('corporate_accounts')
+        .select(CORPORATE_ACCOUNT_SELECT)
+        .eq('organization_id', organizationId)
+        .eq('is_active', true)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Failed to fetch corporate account:', error);
+        return null;
+    }
+
+    return data ? mapCorporateAccount(data) : null;
+}
+
+/**
+ * The corporate account that pays for this user's rides, through their active membership
+ */
+export async function getMyCorporateAccount(userId: string): Promise<CorporateAccount | null> {
+    const { data: membership } = await supabase
+        .from('organization_members')
+        .select('organization_id')
+        .eq('user_id', userId)
+        .eq('status', 'active')
+        .maybeSingle();
+
+    return membership ? getCorporateAccount(membership.organization_id) : null;
+}
+
+export async function getCostCentres(corporateAccountId: string, activeOnly = false): Promise<CostCentre[]> {
+    let query = supabase
+        .from('cost_centres')
+        .select('*')
+        .eq('corporate_account_id', corporateAccountId)
+        .order('code');
+
+    if (activeOnly) query = query.eq('is_active', true);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapCostCentre);
+}
+
+export async function createCostCentre(corporateAccountId: string, code: string, name: string): Promise<void> {
+    const { error } = await supabase
+        .from('cost_centres')
+        .insert({ corporate_account_id: corporateAccountId, code: code.trim().toUpperCase(), name: name.trim() });
+
+    if (error) throw error;
+}
+
+export async function setCostCentreActive(costCentreId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+        .from('cost_centres')
+        .update({ is_active: isActive })
+        .eq('id', costCentreId);
+
+    if (error) throw error;
+}
+
+export async function getPurposeCodes(corporateAccountId: string, activeOnly = false): Promise<CorporatePurposeCode[]> {
+    let query = supabase
+        .from('corporate_purpose_codes')
+        .select('*')
+        .eq('corporate_account_id', corporateAccountId)
+        .order('code');
+
+    if (activeOnly) query = query.eq('is_active', true);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapCorporatePurposeCode);
+}
+
+export async function createPurposeCode(corporateAccountId: string, code: string, label: string): Promise<void> {
+    const { error } = await supabase
+        .from('corporate_purpose_codes')
+        .insert({ corporate_account_id: corporateAccountId, code: code.trim().toUpperCase(), label: label.trim() });
+
+    if (error) throw error;
+}
+
+export async function setPurposeCodeActive(purposeCodeId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+        .from('corporate_purpose_codes')
+        .update({ is_active: isActive })
+        .eq('id', purposeCodeId);
+
+    if (error) throw error;
+}
+
+/**
+ * The account default policy and any cost-centre overrides
+ */
+export async function getRidePolicies(corporateAccountId: string): Promise<CorporateRidePolicy[]> {
+    const { data, error } = await supabase
+        .from('corporate_ride_policies')
+        .select('*')
+        .eq('corporate_account_id', corporateAccountId);
+
+    if (error) throw error;
+    return (data || []).map(mapCorporateRidePolicy);
+}
+
+/**
+ * The policy a booking on this cost centre is checked against, mirroring the database
+ */
+export function effectiveRidePolicy(policies: CorporateRidePolicy[], costCentreId?: string): CorporateRidePolicy | undefined {
+    return policies.find(p => costCentreId && p.costCentreId === costCentreId)
+        ?? policies.find(p => !p.costCentreId);
+}
+
+export async function saveRidePolicy(
+    policy: Omit<CorporateRidePolicy, 'id'> & { id?: string }
+): Promise<void> {
+    const row = {
+        corporate_account_id: policy.corporateAccountId,
+        cost_centre_id: policy.costCentreId || null,
+        allowed_days: policy.allowedDays,
+        allowed_start: policy.allowedStart || null,
+        allowed_end: policy.allowedEnd || null,
+        max_fare: policy.maxFare || null,
+        places_only: policy.placesOnly,
+        require_purpose: policy.requirePurpose,
+    };
+
+    const { error } = policy.id
+        ? await supabase.from('corporate_ride_policies').update(row).eq('id', policy.id)
+        : await supabase.from('corporate_ride_policies').insert(row);
+
+    if (error) throw error;
+}
+
+export async function deleteRidePolicy(policyId: string): Promise<void> {
+    const { error } = await supabase
+        .from('corporate_ride_policies')
+        .delete()
+        .eq('id', policyId);
+
+    if (error) throw error;
+}
+
+/**
+ * Offices, plus employee homes for org admins (members only see their own)
+ */
+export async function getCorporatePlaces(corporateAccountId: string): Promise<CorporatePlace[]> {
+    const { data, error } = await supabase
+        .from('corporate_places')
+        .select('*, user:users(*)')
+        .eq('corporate_account_id', corporateAccountId)
+        .order('place_type', { ascending: false })
+        .order('label');
+
+    if (error) throw error;
+    return (data || []).map(mapCorporatePlace);
+}
+
+export async function addCorporatePlace(place: {
+    corporateAccountId: string;
+    placeType: CorporatePlaceType;
+    userId?: string;
+    label: string;
+    address: string;
+    lat: number;
+    lng: number;
+    radiusM?: number;
+}): Promise<void> {
+    const { error } = await supabase
+        .from('corporate_places')
+        .insert({
+            corporate_account_id: place.corporateAccountId,
+            place_type: place.placeType,
+            user_id: place.placeType === 'home' ? place.userId : null,
+            label: place.label.trim(),
+            address: place.address,
+            lat: place.lat,
+            lng: place.lng,
+            ...(place.radiusM && { radius_m: place.radiusM }),
+        });
+
+    if (error) throw error;
+}
+
+export async function removeCorporatePlace(placeId: string): Promise<void> {
+    const { error } = await supabase
+        .from('corporate_places')
+        .delete()
+        .eq('id', placeId);
+
+    if (error) throw error;
+}
+
+/**
+ * Company-billed spend per employee and cost centre, for org admins
+ */
+export async function getCorporateSpend(corporateAccountId: string, from: Date, to: Date): Promise<CorporateSpendReport> {
+    const data = await callCorporateRpc('get_corporate_spend', {
+        p_corporate_account_id: corporateAccountId,
+        p_from: format(from, 'yyyy-MM-dd'),
+        p_to: format(to, 'yyyy-MM-dd'),
+    });
+
+    return {
+        ride_count: data.ride_count,
+        total_amount: Number(data.total_amount),
+        employees: data.employees,
+        cost_centres: data.cost_centres,
+    };
+}
+
+/**
+ * Monthly invoices, newest first. Without an account, every account's (platform admins).
+ */
+export async function getCorporateInvoices(corporateAccountId?: string): Promise<CorporateInvoice[]> {
+    let query = supabase
+        .from('corporate_invoices')
+        .select(`*, corporate_account:corporate_accounts(${CORPORATE_ACCOUNT_SELECT})`)
+        .order('period_start', { ascending: false })
+        .order('issued_at', { ascending: false });
+
+    if (corporateAccountId) query = query.eq('corporate_account_id', corporateAccountId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapCorporateInvoice);
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Download the rides on an invoice as CSV
+ */
+export async function downloadCorporateInvoiceCsv(invoice: CorporateInvoice) {
+    const { lines } = await callCorporateRpc('get_corporate_invoice_lines', { p_invoice_id: invoice.id }) as {
+        lines: CorporateInvoiceLine[];
+    };
+    const escape = (value: string | number | null) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+    const rows = [
+        ['Date', 'Booking', 'Employee', 'Work Email', 'Cost Centre', 'Purpose', 'Route', 'Seats', 'Amount'],
+        ...lines.map((line) => [
+            format(new Date(line.billed_at), 'yyyy-MM-dd HH:mm'),
+            line.booking_id.slice(0, 8),
+            line.employee_name,
+            line.work_email,
+            line.cost_centre,
+            line.purpose_code,
+            line.route,
+            line.seats,
+            line.amount,
+        ]),
+        [],
+        ['Invoice', invoice.invoiceNumber],
+        ['Period', `${invoice.periodStart} to ${invoice.periodEnd}`],
+        ['GST included', invoice.gst],
+        ['Total', invoice.totalAmount],
+        ['Due', invoice.dueDate],
+    ];
+
+    const csv = rows.map((row) => row.map(escape).join(',')).join('\n');
+    downloadBlob(
+        new Blob([csv], { type: 'text/csv;charset=utf-8' }),
+        `TCSYGO_${invoice.invoiceNumber.replace(/\//g, '-')}.csv`
+    );
+}
+
+/**
+ * Corporate accounts with their organization, for platform admins
+ */
+export async function getCorporateAccounts(): Promise<CorporateAccount[]> {
+    const { data, error } = await supabase
+        .from('corporate_accounts')
+        .select(CORPORATE_ACCOUNT_SELECT)
+        .order('billing_name');
+
+    if (error) throw error;
+    return (data || []).map(mapCorporateAccount);
+}
+
+export async function createCorporateAccount(account: {
+    organizationId: string;
+    billingName: string;
+    billingEmail: string;
+    gstin?: string;
+    billingStateCode?: string;
+    billingAddress?: string;
+    paymentTermsDays: number;
+    createdBy: string;
+}): Promise<void> {
+    const { error } = await supabase
+        .from('corporate_accounts')
+        .insert({
+            organization_id: account.organizationId,
+            billing_name: account.billingName.trim(),
+            billing_email: account.billingEmail.trim(),
+            gstin: account.gstin?.trim().toUpperCase() || null,
+            billing_state_code: account.billingStateCode?.trim() || null,
+            billing_address: account.billingAddress?.trim() || null,
+            payment_terms_days: account.paymentTermsDays,
+            created_by: account.createdBy,
+        });
+
+    if (error) throw error;
+}
+
+export async function setCorporateAccountActive(corporateAccountId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+        .from('corporate_accounts')
+        .update({ is_active: isActive })
+        .eq('id', corporateAccountId);
+
+    if (error) throw error;
+}
+
+/**
+ * Invoice a finished month now instead of waiting for the scheduled run (admin only)
+ */
+export async function generateCorporateInvoices(periodStart: Date): Promise<{ invoices: number }> {
+    const data = await callCorporateRpc('generate_corporate_invoices', {
+        p_period_start: format(periodStart, 'yyyy-MM-dd'),
+    });
+    return { invoices: data.invoices };
+}
+
+/**
+ * Mark an invoice paid once the company's transfer has arrived (admin only)
+ */
+export async function recordCorporateInvoicePayment(invoiceId: string, reference: string): Promise<void> {
+    await callCorporateRpc('record_corporate_invoice_payment', {
+        p_invoice_id: invoiceId,
+        p_reference: reference,
+    });
+}
@@ -0,0 +1,178 @@
+import { supabase } from './supabase';
+import { mapDriverDocument } from './mapper';
+import { uploadDocument } from './storage-service';
+import { DriverDocument, DriverDocumentType, DRIVER_DOCUMENT_LABELS } from '@shared/schema';
+
+export const DRIVER_DOCUMENT_TYPES = Object.values(DriverDocumentType);
+
+// Remind this many days ahead; matches process_driver_document_expiry()
+export const EXPIRY_WARNING_DAYS = 30;
+
+export interface DriverDocumentSlot {
+    docType: string;
+    label: string;
+    active?: DriverDocument; // latest approved (or since-expired) copy
+    pending?: DriverDocument; // upload waiting for review
+    rejected?: DriverDocument; // latest upload, if it was rejected
+}
+
+export interface DocumentUpload {
+    docType: string;
+    file: File;
+    documentNumber?: string;
+    issuedOn?: string;
+    expiresOn?: string;
+}
+
+export interface SnapshotChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+export interface ReverificationEntry {
+    driverId: string;
+    userId: string;
+    fullName: string;
+    email: string;
+    verificationStatus: string;
+    approvedAt: string;
+    lapsedDocuments: string[];
+    pendingDocuments: DriverDocument[];
+    changes: SnapshotChange[];
+    waitingSince: string | null;
+}
+
+/**
+ * All uploaded copies of a driver's documents, newest first
+ */
+export async function getDriverDocuments(driverId: string): Promise<DriverDocument[]> {
+    const { data, error } = await supabase
+        .from('driver_documents')
+        .select('*')
+        .eq('driver_id', driverId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Failed to fetch driver documents:', error);
+        return [];
+    }
+
+    return (data || []).map(mapDriverDocument);
+}
+
+/**
+ * Group document copies by type for display
+ */
+export function documentSlots(documents: DriverDocument[]): DriverDocumentSlot[] {
+    return DRIVER_DOCUMENT_TYPES.map(docType => {
+        const ofType = documents.filter(d => d.docType === docType);
+        const latest = ofType[0];
+        return {
+            docType,
+            label: DRIVER_DOCUMENT_LABELS[docType],
+            active: ofType.find(d => d.status === 'verified' || d.status === 'expired'),
+            pending: ofType.find(d => d.status === 'pending'),
+            rejected: latest?.status === 'rejected' ? latest : undefined,
+        };
+    });
+}
+
+/**
+ * Whole days until a document expires; negative once expired, null if it
+ * has no expiry date
+ */
+export function daysUntilExpiry(document: DriverDocument): number | null {
+    if (!document.expiresOn) return null;
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const expiry = new Date(`${document.expiresOn}T00:00:00`);
+    return Math.round((expiry.getTime() - today.getTime()) / 86_400_000);
+}
+
+/**
+ * Upload a new copy of a document. It's reviewed on its own; the previously
+ * approved copy stays valid until then.
+ */
+export async function uploadDriverDocument(driverId: string, userId: string, upload: DocumentUpload): Promise<DriverDocument> {
+    const result = await uploadDocument(userId, upload.file, upload.docType);
+    if (!result.success || !result.url) {
+        throw new Error(result.error || 'Upload failed');
+    }
+
+    const { data, error } = await supabase
+        .from('driver_documents')
+        .insert({
+            driver_id: driverId,
+            doc_type: upload.docType,
+            document_number: upload.documentNumber || null,
+            file_url: result.url,
+            issued_on: upload.issuedOn || null,
+            expires_on: upload.expiresOn || null,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return mapDriverDocument(data);
+}
+
+/**
+ * Approve or reject an uploaded document (admins with drivers.verify)
+ */
+export async function reviewDriverDocument(documentId: string, approve: boolean, reason?: string): Promise<void> {
+    const { data, error } = await supabase.rpc('review_driver_document', {
+        p_document_id: documentId,
+        p_approve: approve,
+        p_reason: reason || null,
+    });
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+}
+
+/**
+ * Differences between two driver profile snapshots, documents included
+ */
+export function snapshotChanges(approved: Record<string, any> | null, current: Record<string, any> | null): SnapshotChange[] {
+    if (!approved || !current) return [];
+    const changes: SnapshotChange[] = [];
+
+    for (const field of Object.keys(current)) {
+        if (field === 'documents') continue;
+        if (JSON.stringify(approved[field]) !== JSON.stringify(current[field])) {
+            changes.push({ field, before: approved[field], after: current[field] });
+        }
+    }
+
+    const approvedDocs = approved.documents || {};
+    const currentDocs = current.documents || {};
+    for (const docType of new Set([...Object.keys(approvedDocs), ...Object.keys(currentDocs)])) {
+        if (approvedDocs[docType]?.id !== currentDocs[docType]?.id) {
+            changes.push({ field: docType, before: approvedDocs[docType] ?? null, after: currentDocs[docType] ?? null });
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Previously approved drivers waiting on a document or profile review
+ */
+export async function getReverificationQueue(): Promise<ReverificationEntry[]> {
+    const { data, error } = await supabase.rpc('get_reverification_queue');
+
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+        driverId: row.driver_id,
+        userId: row.user_id,
+        fullName: row.full_name,
+        email: row.email,
+        verificationStatus: row.verification_status,
+        approvedAt: row.approved_at,
+        lapsedDocuments: row.lapsed_documents || [],
+        pendingDocuments: (row.pending_documents || []).map(mapDriverDocument),
+        changes: snapshotChanges(row.approved_snapshot, row.current_snapshot),
+        waitingSince: row.waiting_since,
+    }));
+}
@@ -18,6 +18,12 @@ import type {
     SafetyCheckinResponse,
     SendRideShareEmailRequest,
     SendSplitFareEmailRequest,
+    ProcessCancellationRequest,
+    ProcessCancellationResponse,
+    StartCallRequest,
+    StartCallResponse,
+    VerifyWorkEmailRequest,
+    VerifyWorkEmailResponse,
 } from '@/types/supabase-types';
 
 /**
@@ -207,6 +213,45 @@ class EdgeFunctionsService {
         );
     }
 
+    /**
+     * Cancel a booking or trip and pay out the refund decided by the cancellation policy
+     */
+    async processCancellation(
+        request: ProcessCancellationRequest
+    ): Promise<{ data: ProcessCancellationResponse | null; error: any }> {
+        return this.invokeWithRetry<ProcessCancellationRequest, ProcessCancellationResponse>(
+            'process-cancellation',
+            request,
+            { retries: 0 } // Not idempotent from the caller's side
+        );
+    }
+
+    /**
+     * Connect a rider and driver by phone without revealing either number
+     */
+    async startCall(
+        request: StartCallRequest
+    ): Promise<{ data: StartCallResponse | null; error: any }> {
+        return this.invokeWithRetry<StartCallRequest, StartCallResponse>(
+            'call-relay',
+            request,
+            { retries: 0 } // A retry would ring the phone twice
+        );
+    }
+
+    /**
+     * Email a magic link that proves the user owns a work address on an organization's domain
+     */
+    async verifyWorkEmail(
+        request: VerifyWorkEmailRequest
+    ): Promise<{ data: VerifyWorkEmailResponse | null; error: any }> {
+        return this.invokeWithRetry<VerifyWorkEmailRequest, VerifyWorkEmailResponse>(
+            'verify-work-email',
+            request,
+            { retries: 0 } // Each attempt issues a new link
+        );
+    }
+
     /**
      * Auto-process payment after ride completion
      */
@@ -255,3 +300,11 @@ export const sendSplitFareEmail = (request: SendSplitFareEmailRequest) =>
 export const autoProcessPayment = (bookingId: string) =>
     edgeFunctions.autoProcessPayment(bookingId);
 
+export const processCancellation = (request: ProcessCancellationRequest) =>
+    edgeFunctions.processCancellation(request);
+
+export const startCall = (request: StartCallRequest) =>
+    edgeFunctions.startCall(request);
+
+export const verifyWorkEmail = (request: VerifyWorkEmailRequest) =>
+    edgeFunctions.verifyWorkEmail(request);
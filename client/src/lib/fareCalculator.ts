@@ -100,9 +100,9 @@ const TRAFFIC_PATTERNS = {
 };
 
 /**
- * Get current demand level based on time and location strategy
- * Currently implements a static time-of-day model.
- * Future: Integrate with real-time traffic data API.
+ * Get current demand level from a static time-of-day model.
+ * Used outside surge zones; zone multipliers come from live supply and
+ * demand (see surge-pricing-service.ts).
  */
 export function getCurrentDemand(hour: number): 'low' | 'medium' | 'high' | 'very_high' {
     const day = new Date().getDay();
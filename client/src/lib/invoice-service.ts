@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+
+export interface TaxInvoice {
+    id: string;
+    invoice_number: string;
+    document_type: 'invoice' | 'credit_note';
+    financial_year: string;
+    original_invoice_id: string | null;
+    booking_id: string | null;
+    supplier_name: string;
+    supplier_gstin: string | null;
+    driver_name: string | null;
+    driver_gstin: string | null;
+    recipient_name: string;
+    recipient_gstin: string | null;
+    place_of_supply: string;
+    description: string;
+    taxable_value: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    total_amount: number;
+    pdf_path: string | null;
+    issued_at: string;
+}
+
+export interface BillingDetails {
+    gstin: string | null;
+    billing_name: string | null;
+    billing_state_code: string | null;
+}
+
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z0-9]{10}[0-9A-Z]Z[0-9A-Z]$/;
+
+/**
+ * Get the passenger's tax invoices and credit notes, newest first
+ */
+export async function getMyInvoices(userId: string): Promise<TaxInvoice[]> {
+    const { data, error } = await supabase
+        .from('tax_invoices')
+        .select('*')
+        .eq('passenger_id', userId)
+        .order('issued_at', { ascending: false });
+
+    if (error) {
+        console.error('Failed to fetch tax invoices:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Get a signed download URL for an invoice PDF, rendering it if needed
+ */
+export async function getInvoiceDownloadUrl(invoiceId: string): Promise<string> {
+    const { data, error } = await supabase.functions.invoke('generate-invoice', {
+        body: { invoiceId },
+    });
+
+    if (error) throw error;
+    if (!data?.url) throw new Error(data?.error || 'Could not generate invoice');
+    return data.url;
+}
+
+/**
+ * Get the GSTIN and billing name printed on the user's invoices
+ */
+export async function getBillingDetails(userId: string): Promise<BillingDetails | null> {
+    const { data, error } = await supabase
+        .from('users')
+        .select('gstin, billing_name, billing_state_code')
+        .eq('id', userId)
+        .single();
+
+    if (error) {
+        console.error('Failed to fetch billing details:', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Save billing details; applies to invoices issued from now on
+ */
+export async function updateBillingDetails(userId: string, details: BillingDetails): Promise<void> {
+    const gstin = details.gstin?.trim().toUpperCase() || null;
+
+    if (gstin && !GSTIN_PATTERN.test(gstin)) {
+        throw new Error('Enter a valid 15-character GSTIN');
+    }
+
+    const { error } = await supabase
+        .from('users')
+        .update({
+            gstin,
+            billing_name: details.billing_name?.trim() || null,
+            // The GSTIN already encodes the state
+            billing_state_code: gstin ? gstin.slice(0, 2) : details.billing_state_code || null,
+        })
+        .eq('id', userId);
+
+    if (error) throw error;
+}
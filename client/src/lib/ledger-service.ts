@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+import { edgeFunctions } from './edge-functions-service';
+
+export interface LedgerWalletDrift {
+    wallet_id: string;
+    user_id: string;
+    full_name: string | null;
+    stored_balance: number;
+    ledger_balance: number;
+    drift: number;
+}
+
+export interface LedgerUnbalancedTransaction {
+    transaction_id: string;
+    description: string;
+    debits: number;
+    credits: number;
+}
+
+export interface LedgerAccountSummary {
+    account_type: 'passenger_wallet' | 'driver_payable' | 'platform_fees' | 'gst_payable' | 'payment_gateway' | 'opening_balance';
+    accounts: number;
+    balance: number;
+}
+
+export interface LedgerReconciliation {
+    generated_at: string;
+    total_debits: number;
+    total_credits: number;
+    is_balanced: boolean;
+    wallet_drift: LedgerWalletDrift[];
+    unbalanced_transactions: LedgerUnbalancedTransaction[];
+    accounts: LedgerAccountSummary[];
+}
+
+/**
+ * Get the ledger reconciliation report (admin only).
+ * Flags wallets whose stored balance differs from the ledger and any
+ * transaction whose debits and credits do not match.
+ */
+export async function getLedgerReconciliation(): Promise<LedgerReconciliation | null> {
+    const { data, error } = await supabase.rpc('get_ledger_reconciliation');
+
+    if (error) {
+        console.error('Failed to fetch ledger reconciliation:', error);
+        return null;
+    }
+
+    return data;
+}
+
+export interface FailedRefund {
+    id: string;
+    booking_id: string;
+    refund_amount: number;
+    razorpay_payment_id: string | null;
+    refund_error: string | null;
+    refund_attempts: number;
+    created_at: string;
+}
+
+/**
+ * Razorpay refunds that failed after a cancellation (admin only), oldest first
+ */
+export async function getFailedRefunds(): Promise<FailedRefund[]> {
+    const { data, error } = await supabase
+        .from('booking_cancellations')
+        .select('id, booking_id, refund_amount, razorpay_payment_id, refund_error, refund_attempts, created_at')
+        .eq('refund_method', 'razorpay')
+        .eq('refund_status', 'failed')
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Send a failed refund to Razorpay again. Resolves to false if it failed again.
+ */
+export async function retryFailedRefund(cancellationId: string): Promise<boolean> {
+    const { data, error } = await edgeFunctions.processCancellation({ retryCancellationId: cancellationId });
+
+    if (error) throw error;
+    return data?.cancellations[0]?.refund_status !== 'failed';
+}
@@ -1,5 +1,5 @@
 
-import { Trip, TripWithDriver, Driver, User, Booking, BookingWithDetails, Notification, PromoCode, EmergencyAlert, SupportTicket, RideRequest } from '@shared/schema';
+import { Trip, TripWithDriver, TripStop, RecurringTrip, RecurringTripPass, BookingPin, Driver, User, Booking, BookingWithDetails, Notification, PromoCode, PromoCampaignReport, EmergencyAlert, SupportTicket, RideRequest, RideRequestOffer, MarketplaceRideRequest, AdminAuditEntry, DriverDocument, Vehicle, Rating, RatingSummary, PickupWait, Message, MessageFlag, Organization, OrganizationMember, CorporateAccount, CostCentre, CorporatePurposeCode, CorporateRidePolicy, CorporatePlace, CorporateInvoice, SavedSearch } from '@shared/schema';
 
 export function mapUser(data: any): User {
     if (!data) return data;
@@ -7,13 +7,18 @@ export function mapUser(data: any): User {
         id: data.id,
         email: data.email,
         fullName: data.full_name,
-        phone: data.phone,
+        // users.phone is masked; the real number is only readable by its owner and admins
+        phone: data.user_phone_numbers?.phone ?? data.phone,
         profilePhoto: data.profile_photo,
         role: data.role,
+        adminRole: data.admin_role,
+        isBanned: data.is_banned,
         bio: data.bio,
         verificationStatus: data.verification_status,
         pushToken: data.push_token,
         organization: data.organization,
+        reliabilityScore: data.reliability_score != null ? Number(data.reliability_score) : undefined,
+        noShowCount: data.no_show_count,
         notificationPreferences: data.notification_preferences,
         createdAt: data.created_at,
         updatedAt: data.updated_at,
@@ -38,6 +43,9 @@ export function mapDriver(data: any): Driver {
         totalTrips: data.total_trips,
         verificationStatus: data.verification_status,
         documents: data.documents || [],
+        approvedAt: data.approved_at,
+        activeVehicleId: data.active_vehicle_id,
+        minAutoApproveReliability: data.min_auto_approve_reliability,
         createdAt: data.created_at,
         updatedAt: data.updated_at,
     };
@@ -73,6 +81,9 @@ export function mapTrip(data: any): TripWithDriver {
         preferences: data.preferences || {},
         basePrice: data.base_price,
         surgeMultiplier: data.surge_multiplier,
+        recurringTripId: data.recurring_trip_id,
+        occurrenceDate: data.occurrence_date,
+        vehicleId: data.vehicle_id,
         createdAt: data.created_at,
         updatedAt: data.updated_at,
     };
@@ -87,6 +98,71 @@ export function mapTrip(data: any): TripWithDriver {
     return trip;
 }
 
+export function mapTripStop(data: any): TripStop {
+    if (!data) return data;
+    return {
+        id: data.id,
+        tripId: data.trip_id,
+        stopOrder: data.stop_order,
+        location: data.location,
+        lat: data.lat,
+        lng: data.lng,
+        distanceFromStartKm: data.distance_from_start_km,
+        seatsAvailable: data.seats_available,
+    };
+}
+
+export function mapRecurringTrip(data: any): RecurringTrip {
+    if (!data) return data;
+    return {
+        id: data.id,
+        driverId: data.driver_id,
+        pickupLocation: data.pickup_location,
+        pickupLat: data.pickup_lat,
+        pickupLng: data.pickup_lng,
+        dropLocation: data.drop_location,
+        dropLat: data.drop_lat,
+        dropLng: data.drop_lng,
+        pricePerSeat: data.price_per_seat,
+        passDiscountPercent: data.pass_discount_percent,
+        totalSeats: data.total_seats,
+        weekdays: data.weekdays || [],
+        departureTime: data.departure_time,
+        startsOn: data.starts_on,
+        endsOn: data.ends_on,
+        generatedUntil: data.generated_until,
+        status: data.status,
+        vehicleId: data.vehicle_id,
+        createdAt: data.created_at,
+    };
+}
+
+export function mapRecurringTripPass(data: any): RecurringTripPass {
+    if (!data) return data;
+    return {
+        id: data.id,
+        recurringTripId: data.recurring_trip_id,
+        passengerId: data.passenger_id,
+        weekStart: data.week_start,
+        seats: data.seats,
+        pricePerSeat: data.price_per_seat,
+        paymentMethod: data.payment_method,
+        status: data.status,
+        createdAt: data.created_at,
+    };
+}
+
+export function mapBookingPin(data: any): BookingPin {
+    if (!data) return data;
+    return {
+        bookingId: data.booking_id,
+        startPin: data.start_pin,
+        endPin: data.end_pin,
+        startVerifiedAt: data.start_verified_at,
+        endVerifiedAt: data.end_verified_at,
+    };
+}
+
 export function mapBooking(data: any): BookingWithDetails {
     if (!data) return data;
 
@@ -100,6 +176,9 @@ export function mapBooking(data: any): BookingWithDetails {
         paymentStatus: data.payment_status,
         pickupLocation: data.pickup_location,
         dropLocation: data.drop_location,
+        boardStopOrder: data.board_stop_order,
+        alightStopOrder: data.alight_stop_order,
+        recurringPassId: data.recurring_pass_id,
         createdAt: data.created_at,
         updatedAt: data.updated_at,
     };
@@ -171,6 +250,28 @@ export function mapNotification(data: any): Notification {
     };
 }
 
+export function mapSavedSearch(data: any): SavedSearch {
+    if (!data) return data;
+    return {
+        id: data.id,
+        userId: data.user_id,
+        name: data.name,
+        pickupLocation: data.pickup_location,
+        pickupLat: data.pickup_lat,
+        pickupLng: data.pickup_lng,
+        dropLocation: data.drop_location,
+        dropLat: data.drop_lat,
+        dropLng: data.drop_lng,
+        windowStart: data.window_start?.slice(0, 5) ?? null,
+        windowEnd: data.window_end?.slice(0, 5) ?? null,
+        maxPrice: data.max_price,
+        alertsEnabled: data.alerts_enabled,
+        snoozedUntil: data.snoozed_until,
+        lastAlertedAt: data.last_alerted_at,
+        createdAt: data.created_at,
+    };
+}
+
 export function mapPromoCode(data: any): PromoCode {
     if (!data) return data;
     return {
@@ -183,10 +284,38 @@ export function mapPromoCode(data: any): PromoCode {
         validFrom: data.valid_from,
         validUntil: data.valid_until,
         isActive: data.is_active,
+        description: data.description,
+        maxDiscount: data.max_discount,
+        minAmount: data.min_amount,
+        perUserLimit: data.per_user_limit || 1,
+        applicableVehicleTypes: data.applicable_vehicle_types,
+        firstRideOnly: data.first_ride_only || false,
+        minCompletedRides: data.min_completed_rides || 0,
+        surgeZoneIds: data.surge_zone_ids,
+        minSurgeMultiplier: data.min_surge_multiplier,
+        activeFrom: data.active_from,
+        activeUntil: data.active_until,
+        activeDays: data.active_days || [0, 1, 2, 3, 4, 5, 6],
+        organizationId: data.organization_id,
+        budgetCap: data.budget_cap,
         createdAt: data.created_at,
     };
 }
 
+export function mapPromoCampaignReport(data: any): PromoCampaignReport {
+    return {
+        promoCodeId: data.promo_code_id,
+        code: data.code,
+        redemptions: Number(data.redemptions) || 0,
+        uniqueUsers: Number(data.unique_users) || 0,
+        totalDiscount: Number(data.total_discount) || 0,
+        grossAmount: Number(data.gross_amount) || 0,
+        budgetCap: data.budget_cap != null ? Number(data.budget_cap) : null,
+        budgetRemaining: data.budget_remaining != null ? Number(data.budget_remaining) : null,
+        lastRedeemedAt: data.last_redeemed_at,
+    };
+}
+
 export function mapSupportTicket(data: any): SupportTicket {
     if (!data) return data;
     return {
@@ -222,8 +351,309 @@ export function mapRideRequest(data: any): RideRequest {
         organization_only: data.organization_only,
         scheduled_time: data.scheduled_time,
         seats: data.seats || 1,
+        isMarketplace: data.is_marketplace,
+        scheduledUntil: data.scheduled_until,
+        notes: data.notes,
         createdAt: data.created_at,
         updatedAt: data.updated_at,
     };
 }
 
+export function mapRideRequestOffer(data: any): RideRequestOffer {
+    if (!data) return data;
+    const driver = data.driver;
+    const vehicle = data.vehicle;
+    return {
+        id: data.id,
+        rideRequestId: data.ride_request_id,
+        driverId: data.driver_id,
+        vehicleId: data.vehicle_id,
+        departureTime: data.departure_time,
+        pricePerSeat: data.price_per_seat,
+        totalSeats: data.total_seats,
+        message: data.message,
+        status: data.status,
+        tripId: data.trip_id,
+        createdAt: data.created_at,
+        driver: driver ? {
+            fullName: driver.user?.full_name,
+            profilePhoto: driver.user?.profile_photo,
+            rating: driver.rating,
+            vehicle: vehicle ? `${vehicle.color ? `${vehicle.color} ` : ''}${vehicle.make} ${vehicle.model}` : null,
+        } : undefined,
+    };
+}
+
+export function mapMarketplaceRideRequest(data: any): MarketplaceRideRequest {
+    if (!data) return data;
+    return {
+        ...mapRideRequest({ ...data, is_marketplace: true, status: 'pending' }),
+        passengerName: data.passenger_name,
+        passengerReliability: data.passenger_reliability != null ? Number(data.passenger_reliability) : null,
+        distanceKm: data.distance_km != null ? Number(data.distance_km) : null,
+        offerCount: Number(data.offer_count) || 0,
+        myOffer: data.my_offer ? mapRideRequestOffer(data.my_offer) : null,
+    };
+}
+
+export function mapAdminAuditEntry(data: any): AdminAuditEntry {
+    if (!data) return data;
+    return {
+        id: data.id,
+        actorId: data.actor_id,
+        actorName: data.actor_name,
+        actorEmail: data.actor_email,
+        actorAdminRole: data.actor_admin_role,
+        action: data.action,
+        entityType: data.entity_type,
+        entityId: data.entity_id,
+        before: data.before_data,
+        after: data.after_data,
+        createdAt: data.created_at,
+    };
+}
+
+export function mapDriverDocument(data: any): DriverDocument {
+    if (!data) return data;
+    return {
+        id: data.id,
+        driverId: data.driver_id,
+        docType: data.doc_type,
+        documentNumber: data.document_number,
+        fileUrl: data.file_url,
+        issuedOn: data.issued_on,
+        expiresOn: data.expires_on,
+        status: data.status,
+        rejectionReason: data.rejection_reason,
+        reviewedAt: data.reviewed_at,
+        createdAt: data.created_at,
+    };
+}
+
+export function mapVehicle(data: any): Vehicle {
+    if (!data) return data;
+    return {
+        id: data.id,
+        driverId: data.driver_id,
+        vehicleType: data.vehicle_type,
+        make: data.make,
+        model: data.model,
+        year: data.year,
+        color: data.color,
+        plate: data.plate,
+        seatCount: data.seat_count,
+        photos: data.photos || [],
+        verificationStatus: data.verification_status,
+        rejectionReason: data.rejection_reason,
+        reviewedAt: data.reviewed_at,
+        isArchived: data.is_archived,
+        createdAt: data.created_at,
+    };
+}
+
+export function mapRating(data: any): Rating {
+    if (!data) return data;
+    return {
+        id: data.id,
+        tripId: data.trip_id,
+        fromUserId: data.from_user_id,
+        toUserId: data.to_user_id,
+        raterRole: data.rater_role,
+        rating: data.rating,
+        categories: Object.fromEntries(
+            (['driving', 'punctuality', 'cleanliness', 'behaviour'] as const)
+                .filter(key => data[key] != null)
+                .map(key => [key, data[key]])
+        ),
+        review: data.review,
+        visibleAt: data.visible_at,
+        excludedReason: data.excluded_reason,
+        response: data.response,
+        respondedAt: data.responded_at,
+        createdAt: data.created_at,
+    };
+}
+
+export function mapRatingSummary(data: any): RatingSummary {
+    if (!data) return data;
+    return {
+        userId: data.user_id,
+        role: data.role,
+        rating: data.rating != null ? Number(data.rating) : null,
+        ratingCount: data.rating_count || 0,
+        excludedCount: data.excluded_count || 0,
+        categories: data.categories || {},
+        updatedAt: data.updated_at,
+    };
+}
+
+export function mapPickupWait(data: any): PickupWait {
+    if (!data) return data;
+    return {
+        bookingId: data.booking_id,
+        tripId: data.trip_id,
+        passengerId: data.passenger_id,
+        driverId: data.driver_id,
+        arrivedAt: data.arrived_at,
+        arrivalDistanceM: Number(data.arrival_distance_m),
+        waitUntil: data.wait_until,
+        noShowAt: data.no_show_at,
+        noShowDistanceM: data.no_show_distance_m != null ? Number(data.no_show_distance_m) : null,
+        feeAmount: data.fee_amount,
+        feeCharged: data.fee_charged,
+        feeOutstanding: data.fee_outstanding,
+    };
+}
+
+export function mapMessage(data: any): Message {
+    if (!data) return data;
+    return {
+        id: data.id,
+        tripId: data.trip_id,
+        senderId: data.sender_id,
+        receiverId: data.receiver_id,
+        message: data.message,
+        messageType: data.message_type || 'text',
+        attachment: data.attachment,
+        isRead: data.is_read || false,
+        readAt: data.read_at,
+        createdAt: data.created_at,
+    };
+}
+
+export function mapMessageFlag(data: any): MessageFlag {
+    if (!data) return data;
+    return {
+        id: data.id,
+        messageId: data.message_id,
+        tripId: data.trip_id,
+        senderId: data.sender_id,
+        reason: data.reason,
+        excerpt: data.excerpt,
+        status: data.status,
+        reviewedBy: data.reviewed_by,
+        reviewedAt: data.reviewed_at,
+        createdAt: data.created_at,
+        sender: data.sender ? mapUser(data.sender) : undefined,
+    };
+}
+
+export function mapOrganization(data: any): Organization {
+    if (!data) return data;
+    return {
+        id: data.id,
+        name: data.name,
+        requiresApproval: data.requires_approval,
+        isActive: data.is_active,
+        domains: (data.organization_domains || []).map((d: any) => d.domain),
+        createdAt: data.created_at,
+    };
+}
+
+export function mapOrganizationMember(data: any): OrganizationMember {
+    if (!data) return data;
+    return {
+        id: data.id,
+        organizationId: data.organization_id,
+        userId: data.user_id,
+        workEmail: data.work_email,
+        role: data.role,
+        status: data.status,
+        emailVerifiedAt: data.email_verified_at,
+        reviewedAt: data.reviewed_at,
+        createdAt: data.created_at,
+        organization: data.organization ? mapOrganization(data.organization) : undefined,
+        user: data.user ? mapUser(data.user) : undefined,
+    };
+}
+
+export function mapCorporateAccount(data: any): CorporateAccount {
+    if (!data) return data;
+    return {
+        id: data.id,
+        organizationId: data.organization_id,
+        billingName: data.billing_name,
+        billingEmail: data.billing_email,
+        gstin: data.gstin,
+        billingStateCode: data.billing_state_code,
+        billingAddress: data.billing_address,
+        paymentTermsDays: data.payment_terms_days,
+        isActive: data.is_active,
+        createdAt: data.created_at,
+        organization: data.organization ? mapOrganization(data.organization) : undefined,
+    };
+}
+
+export function mapCostCentre(data: any): CostCentre {
+    if (!data) return data;
+    return {
+        id: data.id,
+        corporateAccountId: data.corporate_account_id,
+        code: data.code,
+        name: data.name,
+        isActive: data.is_active,
+    };
+}
+
+export function mapCorporatePurposeCode(data: any): CorporatePurposeCode {
+    if (!data) return data;
+    return {
+        id: data.id,
+        corporateAccountId: data.corporate_account_id,
+        code: data.code,
+        label: data.label,
+        isActive: data.is_active,
+    };
+}
+
+export function mapCorporateRidePolicy(data: any): CorporateRidePolicy {
+    if (!data) return data;
+    return {
+        id: data.id,
+        corporateAccountId: data.corporate_account_id,
+        costCentreId: data.cost_centre_id,
+        allowedDays: data.allowed_days || [],
+        // Postgres TIME comes back as HH:MM:SS
+        allowedStart: data.allowed_start?.slice(0, 5) ?? null,
+        allowedEnd: data.allowed_end?.slice(0, 5) ?? null,
+        maxFare: data.max_fare,
+        placesOnly: data.places_only,
+        requirePurpose: data.require_purpose,
+    };
+}
+
+export function mapCorporatePlace(data: any): CorporatePlace {
+    if (!data) return data;
+    return {
+        id: data.id,
+        corporateAccountId: data.corporate_account_id,
+        userId: data.user_id,
+        placeType: data.place_type,
+        label: data.label,
+        address: data.address,
+        lat: parseFloat(data.lat),
+        lng: parseFloat(data.lng),
+        radiusM: data.radius_m,
+        user: data.user ? mapUser(data.user) : undefined,
+    };
+}
+
+export function mapCorporateInvoice(data: any): CorporateInvoice {
+    if (!data) return data;
+    return {
+        id: data.id,
+        corporateAccountId: data.corporate_account_id,
+        invoiceNumber: data.invoice_number,
+        periodStart: data.period_start,
+        periodEnd: data.period_end,
+        rideCount: data.ride_count,
+        gst: data.gst,
+        totalAmount: data.total_amount,
+        status: data.status,
+        dueDate: data.due_date,
+        paymentReference: data.payment_reference,
+        issuedAt: data.issued_at,
+        paidAt: data.paid_at,
+        corporateAccount: data.corporate_account ? mapCorporateAccount(data.corporate_account) : undefined,
+    };
+}
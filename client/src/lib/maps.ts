@@ -9,6 +9,7 @@ export interface RouteData {
     distance: number; // in km
     duration: number; // in minutes
     geometry: Coordinates[];
+    legs?: { distance: number; duration: number }[]; // one per stop-to-stop leg, in km / minutes
     steps?: {
         instruction: string;
         distance: number;
@@ -71,6 +72,10 @@ export async function getRoute(
                 distance: route.distance / 1000, // meters to km
                 duration: Math.round(route.duration / 60), // seconds to minutes
                 geometry,
+                legs: (route.legs || []).map((leg: any) => ({
+                    distance: leg.distance / 1000,
+                    duration: Math.round(leg.duration / 60)
+                })),
                 steps
             };
         }
@@ -187,6 +192,7 @@ function getStraightLineRoute(
     const steps = 20;
     let geometry: Coordinates[] = [];
     let totalDist = 0;
+    const legs: RouteData['legs'] = [];
 
     for (let i = 0; i < points.length - 1; i++) {
         const p1 = points[i];
@@ -211,12 +217,14 @@ function getStraightLineRoute(
             Math.sin(dLon / 2) * Math.sin(dLon / 2);
         const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
         totalDist += R * c;
+        legs.push({ distance: R * c, duration: Math.round(R * c * 2) });
     }
 
     return {
         distance: parseFloat(totalDist.toFixed(1)),
         duration: Math.round(totalDist * 2), // ~30km/h average
         geometry,
+        legs,
         steps: [
             {
                 instruction: 'Head towards destination',
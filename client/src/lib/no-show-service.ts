@@ -0,0 +1,120 @@
+import { supabase } from './supabase';
+import { mapBooking, mapPickupWait } from './mapper';
+import { BookingWithDetails, PickupWait } from '@shared/schema';
+
+export interface NoShowResult {
+    fee: number;
+    charged: number;
+    outstanding: number; // part of the fee the passenger's wallet couldn't cover
+    refund: number;
+}
+
+/**
+ * Check in at a passenger's pickup. The server checks your latest shared
+ * location against the pickup point and starts the wait timer.
+ */
+export async function markArrivedAtPickup(bookingId: string): Promise<{ waitUntil: string }> {
+    const { data, error } = await supabase.rpc('mark_arrived_at_pickup', {
+        p_booking_id: bookingId,
+    });
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+    return { waitUntil: data.wait_until };
+}
+
+/**
+ * Report a passenger who didn't turn up once the wait has run out. Cancels
+ * the booking and charges the no-show fee.
+ */
+export async function reportNoShow(bookingId: string): Promise<NoShowResult> {
+    const { data, error } = await supabase.rpc('report_passenger_no_show', {
+        p_booking_id: bookingId,
+    });
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+    return {
+        fee: Number(data.fee),
+        charged: Number(data.charged),
+        outstanding: Number(data.outstanding),
+        refund: Number(data.refund),
+    };
+}
+
+/**
+ * Pickup check-ins on a trip, keyed by booking
+ */
+export async function getPickupWaits(tripId: string): Promise<Record<string, PickupWait>> {
+    const { data, error } = await supabase
+        .from('pickup_waits')
+        .select('*')
+        .eq('trip_id', tripId);
+
+    if (error) {
+        console.error('Failed to fetch pickup waits:', error);
+        return {};
+    }
+
+    return Object.fromEntries((data || []).map(row => [row.booking_id, mapPickupWait(row)]));
+}
+
+/**
+ * The driver's check-in at a booking's pickup, if they've arrived
+ */
+export async function getPickupWait(bookingId: string): Promise<PickupWait | null> {
+    const { data, error } = await supabase
+        .from('pickup_waits')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Failed to fetch pickup wait:', error);
+        return null;
+    }
+
+    return data ? mapPickupWait(data) : null;
+}
+
+/**
+ * Bookings on a driver's trips waiting for their approval
+ */
+export async function getBookingRequests(driverId: string): Promise<BookingWithDetails[]> {
+    const { data, error } = await supabase
+        .from('bookings')
+        .select('*, trip:trips!inner(*), passenger:users(*)')
+        .eq('trip.driver_id', driverId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(mapBooking);
+}
+
+/**
+ * Approve or decline a booking request. A declined booking is refunded in
+ * full to the passenger's wallet.
+ */
+export async function respondToBookingRequest(bookingId: string, approve: boolean): Promise<void> {
+    const { data, error } = await supabase.rpc('respond_to_booking_request', {
+        p_booking_id: bookingId,
+        p_approve: approve,
+    });
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+}
+
+/**
+ * Lowest passenger reliability score booked in without the driver's
+ * approval. null approves everyone.
+ */
+export async function setAutoApproveThreshold(driverId: string, threshold: number | null): Promise<void> {
+    const { error } = await supabase
+        .from('drivers')
+        .update({ min_auto_approve_reliability: threshold })
+        .eq('id', driverId);
+
+    if (error) throw error;
+}
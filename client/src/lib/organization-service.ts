@@ -0,0 +1,151 @@
+import { supabase } from './supabase';
+import { verifyWorkEmail } from './edge-functions-service';
+import { mapOrganization, mapOrganizationMember } from './mapper';
+import { Organization, OrganizationMember, OrganizationMemberRole, OrganizationMemberStatus } from '@shared/schema';
+
+const ORGANIZATION_SELECT = '*, organization_domains(domain)';
+
+async function callOrganizationRpc(fn: string, params: Record<string, unknown>): Promise<any> {
+    const { data, error } = await supabase.rpc(fn, params);
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+    return data;
+}
+
+/**
+ * The user's current membership, whether active or still being verified
+ */
+export async function getMyMembership(userId: string): Promise<OrganizationMember | null> {
+    const { data, error } = await supabase
+        .from('organization_members')
+        .select(`*, organization:organizations(${ORGANIZATION_SELECT})`)
+        .eq('user_id', userId)
+        .in('status', ['pending_email', 'pending_approval', 'active'])
+        .maybeSingle();
+
+    if (error) {
+        console.error('Failed to fetch organization membership:', error);
+        return null;
+    }
+
+    return data ? mapOrganizationMember(data) : null;
+}
+
+/**
+ * Email a magic link to a work address; the domain picks the organization
+ */
+export async function requestWorkEmailVerification(workEmail: string): Promise<{ organizationName: string }> {
+    const { data, error } = await verifyWorkEmail({ workEmail });
+
+    if (error || !data?.success) {
+        throw new Error(error?.message || 'Failed to send verification email');
+    }
+
+    return { organizationName: data.organizationName };
+}
+
+/**
+ * Redeem the magic link token from the verification email
+ */
+export async function confirmWorkEmail(token: string): Promise<{ status: OrganizationMemberStatus; organizationName: string }> {
+    const data = await callOrganizationRpc('confirm_organization_email', { p_token: token });
+    return { status: data.status, organizationName: data.organization_name };
+}
+
+/**
+ * Members of an organization, for its admins. Pending requests come first.
+ */
+export async function getOrganizationMembers(organizationId: string): Promise<OrganizationMember[]> {
+    const { data, error } = await supabase
+        .from('organization_members')
+        .select('*, user:users!organization_members_user_id_fkey(*)')
+        .eq('organization_id', organizationId)
+        .in('status', ['pending_approval', 'active'])
+        .order('status', { ascending: false })
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(mapOrganizationMember);
+}
+
+export async function reviewOrganizationMember(memberId: string, approve: boolean): Promise<void> {
+    await callOrganizationRpc('review_organization_member', { p_member_id: memberId, p_approve: approve });
+}
+
+export async function setOrganizationMemberRole(memberId: string, role: OrganizationMemberRole): Promise<void> {
+    await callOrganizationRpc('set_organization_member_role', { p_member_id: memberId, p_role: role });
+}
+
+/**
+ * Leave an organization, or remove a member as an org admin
+ */
+export async function removeOrganizationMember(memberId: string): Promise<void> {
+    await callOrganizationRpc('remove_organization_member', { p_member_id: memberId });
+}
+
+/**
+ * Whether new members need an org admin's approval after verifying their email
+ */
+export async function setRequiresApproval(organizationId: string, requiresApproval: boolean): Promise<void> {
+    const { error } = await supabase
+        .from('organizations')
+        .update({ requires_approval: requiresApproval })
+        .eq('id', organizationId);
+
+    if (error) throw error;
+}
+
+/**
+ * All organizations with their verified domains, for platform admins
+ */
+export async function getOrganizations(): Promise<Organization[]> {
+    const { data, error } = await supabase
+        .from('organizations')
+        .select(ORGANIZATION_SELECT)
+        .order('name');
+
+    if (error) throw error;
+    return (data || []).map(mapOrganization);
+}
+
+export async function createOrganization(name: string, requiresApproval: boolean, createdBy: string): Promise<void> {
+    const { error } = await supabase
+        .from('organizations')
+        .insert({ name: name.trim(), requires_approval: requiresApproval, created_by: createdBy });
+
+    if (error) throw error;
+}
+
+export async function setOrganizationActive(organizationId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+        .from('organizations')
+        .update({ is_active: isActive })
+        .eq('id', organizationId);
+
+    if (error) throw error;
+}
+
+/**
+ * Add a verified email domain. Only add domains the organization has proven it owns.
+ */
+export async function addOrganizationDomain(organizationId: string, domain: string, verifiedBy: string): Promise<void> {
+    const { error } = await supabase
+        .from('organization_domains')
+        .insert({
+            organization_id: organizationId,
+            domain: domain.trim().toLowerCase().replace(/^@/, ''),
+            verified_by: verifiedBy,
+        });
+
+    if (error) throw error;
+}
+
+export async function removeOrganizationDomain(domain: string): Promise<void> {
+    const { error } = await supabase
+        .from('organization_domains')
+        .delete()
+        .eq('domain', domain);
+
+    if (error) throw error;
+}
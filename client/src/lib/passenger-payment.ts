@@ -30,8 +30,6 @@ export async function handlePassengerPayment(bookingId: string, amount: number,
             .from('bookings')
             .update({
                 status: 'completed',
-                payment_status: 'paid',
-                payment_method: 'wallet',
                 transaction_id: result.transactionId
             })
             .eq('id', bookingId);
@@ -0,0 +1,288 @@
+import { supabase } from './supabase';
+import { format } from 'date-fns';
+
+export type PayoutStatus = 'requested' | 'processing' | 'paid' | 'failed';
+
+export interface DriverPayout {
+    id: string;
+    driver_id: string;
+    batch_id: string | null;
+    source: 'request' | 'weekly';
+    status: PayoutStatus;
+    period_start: string | null;
+    period_end: string;
+    gross_fares: number;
+    platform_fees: number;
+    gst: number;
+    tips: number;
+    refunds: number;
+    net_amount: number;
+    transfer_reference: string | null;
+    failure_reason: string | null;
+    requested_at: string;
+    paid_at: string | null;
+}
+
+export interface PayoutStatementItem {
+    booking_id: string | null;
+    item_type: 'ride' | 'tip' | 'refund' | 'adjustment';
+    description: string | null;
+    route: string | null;
+    gross_amount: number;
+    platform_fee: number;
+    gst: number;
+    net_amount: number;
+    occurred_at: string;
+}
+
+export interface PayoutStatement {
+    payout_id: string;
+    driver_name: string;
+    driver_email: string;
+    source: 'request' | 'weekly';
+    status: PayoutStatus;
+    period_start: string | null;
+    period_end: string;
+    gross_fares: number;
+    platform_fees: number;
+    gst: number;
+    tips: number;
+    refunds: number;
+    net_amount: number;
+    transfer_reference: string | null;
+    requested_at: string;
+    paid_at: string | null;
+    items: PayoutStatementItem[];
+}
+
+/**
+ * Request a payout of everything earned so far
+ */
+export async function requestPayout(
+    driverId: string
+): Promise<{ success: boolean; message?: string; amount?: number; payout_id?: string }> {
+    const { data, error } = await supabase.rpc('request_payout', {
+        p_driver_id: driverId,
+    });
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Get a driver's payouts, newest first
+ */
+export async function getDriverPayouts(driverId: string): Promise<DriverPayout[]> {
+    const { data, error } = await supabase
+        .from('driver_payouts')
+        .select('*')
+        .eq('driver_id', driverId)
+        .order('requested_at', { ascending: false });
+
+    if (error) {
+        console.error('Failed to fetch payouts:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Get the settlement statement for a payout
+ */
+export async function getPayoutStatement(payoutId: string): Promise<PayoutStatement | null> {
+    const { data, error } = await supabase.rpc('get_payout_statement', {
+        p_payout_id: payoutId,
+    });
+
+    if (error) {
+        console.error('Failed to fetch payout statement:', error);
+        return null;
+    }
+
+    return data;
+}
+
+/**
+ * Get payouts awaiting a bank transfer, with driver names (admin only)
+ */
+export async function getOpenPayouts(): Promise<(DriverPayout & { driver_name: string | null })[]> {
+    const { data, error } = await supabase
+        .from('driver_payouts')
+        .select('*, driver:drivers(user:users(full_name))')
+        .in('status', ['requested', 'processing'])
+        .order('requested_at', { ascending: true });
+
+    if (error) {
+        console.error('Failed to fetch open payouts:', error);
+        return [];
+    }
+
+    return (data || []).map((payout: any) => ({
+        ...payout,
+        driver_name: payout.driver?.user?.full_name ?? null,
+    }));
+}
+
+/**
+ * Run the weekly settlement (admin only)
+ */
+export async function createWeeklyPayoutBatch(): Promise<{ success: boolean; batch_id: string; created: boolean }> {
+    const { data, error } = await supabase.rpc('create_weekly_payout_batch');
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Record the bank transfer for a payout (admin only)
+ */
+export async function markPayoutPaid(payoutId: string, transferReference?: string): Promise<void> {
+    const { error } = await supabase.rpc('mark_payout_paid', {
+        p_payout_id: payoutId,
+        p_transfer_reference: transferReference ?? null,
+    });
+
+    if (error) throw error;
+}
+
+/**
+ * Mark a payout as failed; its earnings return to the next batch (admin only)
+ */
+export async function markPayoutFailed(payoutId: string, reason: string): Promise<void> {
+    const { error } = await supabase.rpc('mark_payout_failed', {
+        p_payout_id: payoutId,
+        p_reason: reason,
+    });
+
+    if (error) throw error;
+}
+
+const ITEM_LABELS: Record<PayoutStatementItem['item_type'], string> = {
+    ride: 'Ride',
+    tip: 'Tip',
+    refund: 'Refund',
+    adjustment: 'Adjustment',
+};
+
+function statementFileName(statement: PayoutStatement, extension: string) {
+    return `TCSYGO_Settlement_${format(new Date(statement.period_end), 'yyyy-MM-dd')}_${statement.payout_id.slice(0, 8)}.${extension}`;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Download a settlement statement as CSV
+ */
+export function downloadStatementCsv(statement: PayoutStatement) {
+    const escape = (value: string | number | null) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+    const rows = [
+        ['Date', 'Type', 'Booking', 'Route', 'Fare', 'Platform Fee', 'GST', 'Net'],
+        ...statement.items.map((item) => [
+            format(new Date(item.occurred_at), 'yyyy-MM-dd HH:mm'),
+            ITEM_LABELS[item.item_type],
+            item.booking_id?.slice(0, 8) ?? '',
+            item.route ?? item.description ?? '',
+            item.gross_amount,
+            item.platform_fee,
+            item.gst,
+            item.net_amount,
+        ]),
+        [],
+        ['Gross fares', statement.gross_fares],
+        ['Platform fees', -statement.platform_fees],
+        ['GST', -statement.gst],
+        ['Tips', statement.tips],
+        ['Refunds', -statement.refunds],
+        ['Net payout', statement.net_amount],
+    ];
+
+    const csv = rows.map((row) => row.map(escape).join(',')).join('\n');
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), statementFileName(statement, 'csv'));
+}
+
+/**
+ * Download a settlement statement as PDF
+ */
+export async function downloadStatementPdf(statement: PayoutStatement) {
+    const { jsPDF } = await import('jspdf');
+    const doc = new jsPDF();
+
+    doc.setFillColor(59, 130, 246);
+    doc.rect(0, 0, 210, 40, 'F');
+    doc.setFontSize(28);
+    doc.setTextColor(255, 255, 255);
+    doc.text('TCSYGO', 105, 25, { align: 'center' });
+    doc.setFontSize(14);
+    doc.text('Driver Settlement Statement', 105, 35, { align: 'center' });
+
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(10);
+    let y = 52;
+    doc.text(`Driver: ${statement.driver_name}`, 20, y);
+    doc.text(`Payout ID: ${statement.payout_id.slice(0, 8).toUpperCase()}`, 190, y, { align: 'right' });
+    y += 6;
+    const periodStart = statement.period_start ? format(new Date(statement.period_start), 'dd MMM yyyy') : '—';
+    doc.text(`Period: ${periodStart} – ${format(new Date(statement.period_end), 'dd MMM yyyy')}`, 20, y);
+    doc.text(`Status: ${statement.status.toUpperCase()}`, 190, y, { align: 'right' });
+    if (statement.transfer_reference) {
+        y += 6;
+        doc.text(`Transfer reference: ${statement.transfer_reference}`, 20, y);
+    }
+
+    y += 8;
+    doc.setDrawColor(230, 230, 230);
+    doc.line(20, y, 190, y);
+    y += 8;
+
+    doc.setFont('helvetica', 'bold');
+    doc.text('Date', 20, y);
+    doc.text('Type', 50, y);
+    doc.text('Fare', 120, y, { align: 'right' });
+    doc.text('Fee + GST', 155, y, { align: 'right' });
+    doc.text('Net', 190, y, { align: 'right' });
+    doc.setFont('helvetica', 'normal');
+    y += 6;
+
+    statement.items.forEach((item) => {
+        if (y > 260) {
+            doc.addPage();
+            y = 20;
+        }
+        doc.text(format(new Date(item.occurred_at), 'dd MMM'), 20, y);
+        doc.text(ITEM_LABELS[item.item_type], 50, y);
+        doc.text(`₹${Number(item.gross_amount).toFixed(2)}`, 120, y, { align: 'right' });
+        doc.text(`₹${(Number(item.platform_fee) + Number(item.gst)).toFixed(2)}`, 155, y, { align: 'right' });
+        doc.text(`₹${Number(item.net_amount).toFixed(2)}`, 190, y, { align: 'right' });
+        y += 6;
+    });
+
+    y += 4;
+    doc.line(20, y, 190, y);
+    y += 8;
+
+    const addSummaryRow = (label: string, value: number, isBold = false) => {
+        if (isBold) doc.setFont('helvetica', 'bold');
+        doc.text(label, 120, y);
+        doc.text(`₹${value.toFixed(2)}`, 190, y, { align: 'right' });
+        doc.setFont('helvetica', 'normal');
+        y += 6;
+    };
+
+    addSummaryRow('Gross fares', Number(statement.gross_fares));
+    addSummaryRow('Platform fees', -Number(statement.platform_fees));
+    addSummaryRow('GST', -Number(statement.gst));
+    addSummaryRow('Tips', Number(statement.tips));
+    addSummaryRow('Refunds', -Number(statement.refunds));
+    addSummaryRow('Net payout', Number(statement.net_amount), true);
+
+    doc.save(statementFileName(statement, 'pdf'));
+}
@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { mapPromoCampaignReport } from './mapper';
+import { PromoCampaignReport } from '@shared/schema';
 
 export interface PromoCode {
     id: string;
@@ -15,6 +17,15 @@ export interface PromoCode {
     valid_until: string;
     is_active: boolean;
     applicable_vehicle_types: string[];
+    first_ride_only: boolean;
+    min_completed_rides: number;
+    surge_zone_ids?: string[] | null;
+    min_surge_multiplier?: number | null;
+    active_from?: string | null;
+    active_until?: string | null;
+    active_days: number[];
+    organization_id?: string | null;
+    budget_cap?: number | null;
     created_at: string;
 }
 
@@ -30,6 +41,32 @@ export interface PromoCodeUse {
     created_at: string;
 }
 
+/**
+ * What is known about the ride when a code is checked. Campaign rules that
+ * depend on a missing detail (e.g. a surge zone without a pickup) fail.
+ */
+export interface PromoCheckContext {
+    vehicleType?: string;
+    pickup?: { lat: number; lng: number };
+    rideAt?: Date;
+}
+
+export interface PromoRedemption {
+    promoCodeId: string;
+    code: string;
+    discount: number;
+    originalAmount: number;
+    finalAmount: number;
+}
+
+async function callPromoRpc(fn: string, params: Record<string, unknown>): Promise<any> {
+    const { data, error } = await supabase.rpc(fn, params);
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+    return data;
+}
+
 /**
  * Get all active promo codes
  */
@@ -50,48 +87,6 @@ export async function getActivePromoCodes(): Promise<PromoCode[]> {
     return data || [];
 }
 
-/**
- * Validate and apply promo code
- */
-export async function applyPromoCode(
-    code: string,
-    amount: number,
-    vehicleType?: string
-): Promise<{
-    success: boolean;
-    promo?: PromoCode;
-    discount?: number;
-    finalAmount?: number;
-    message: string;
-}> {
-    const { data, error } = await supabase.rpc('apply_promo_code', {
-        p_code: code.toUpperCase(),
-        p_amount: amount,
-    });
-
-    if (error) {
-        console.error('Failed to apply promo code:', error);
-        return {
-            success: false,
-            message: 'Failed to apply promo code',
-        };
-    }
-
-    if (!data.success) {
-        return {
-            success: false,
-            message: data.message || 'Invalid promo code',
-        };
-    }
-
-    return {
-        success: true,
-        discount: data.discount,
-        finalAmount: data.final_amount,
-        message: data.message || 'Promo code applied successfully',
-    };
-}
-
 /**
  * Get promo code by code
  */
@@ -115,71 +110,88 @@ export async function getPromoCodeByCode(code: string): Promise<PromoCode | null
 }
 
 /**
- * Check if user can use promo code
+ * Check a code against every campaign rule on the server. The discount is
+ * only worked out when an amount is given.
  */
-export async function canUsePromoCode(
-    promoCodeId: string,
-    userId: string
-): Promise<boolean> {
-    const { data: promo, error: promoError } = await supabase
-        .from('promo_codes')
-        .select('*')
-        .eq('id', promoCodeId)
-        .single();
-
-    if (promoError || !promo) return false;
+export async function validatePromoCode(
+    code: string,
+    amount?: number,
+    context: PromoCheckContext = {}
+): Promise<{
+    valid: boolean;
+    promo?: PromoCode;
+    discount?: number;
+    message: string;
+}> {
+    const { data, error } = await supabase.rpc('check_promo_code', {
+        p_code: code,
+        p_amount: amount ?? null,
+        p_vehicle_type: context.vehicleType || null,
+        p_pickup_lat: context.pickup?.lat ?? null,
+        p_pickup_lng: context.pickup?.lng ?? null,
+        p_ride_at: context.rideAt?.toISOString() || null,
+    });
 
-    // Check if promo code has reached max uses
-    if (promo.max_uses && promo.current_uses >= promo.max_uses) {
-        return false;
+    if (error) {
+        console.error('Failed to check promo code:', error);
+        return {
+            valid: false,
+            message: 'Failed to check promo code',
+        };
     }
 
-    // Check user's usage count
-    const { data: uses, error: usesError } = await supabase
-        .from('promo_code_uses')
-        .select('id')
-        .eq('promo_code_id', promoCodeId)
-        .eq('user_id', userId);
+    if (!data.success) {
+        return {
+            valid: false,
+            message: data.error || 'Invalid promo code',
+        };
+    }
 
-    if (usesError) return false;
+    const discount = data.discount != null ? Number(data.discount) : undefined;
 
-    if (uses && uses.length >= promo.per_user_limit) {
-        return false;
-    }
+    return {
+        valid: true,
+        promo: data.promo,
+        discount,
+        message: discount != null ? `You saved ₹${discount.toFixed(2)}!` : 'Promo code applied',
+    };
+}
 
-    return true;
+/**
+ * Redeem a code on the passenger's unpaid booking. The server recalculates
+ * the discount, updates the booking total and counts it against the budget.
+ */
+export async function applyPromoCodeToBooking(bookingId: string, code: string): Promise<PromoRedemption> {
+    const data = await callPromoRpc('apply_promo_code', { p_booking_id: bookingId, p_code: code });
+    return {
+        promoCodeId: data.promo_code_id,
+        code: data.code,
+        discount: Number(data.discount),
+        originalAmount: Number(data.original_amount),
+        finalAmount: Number(data.final_amount),
+    };
 }
 
 /**
- * Record promo code usage
+ * Undo a booking's redemption and restore its original amount
  */
-export async function recordPromoCodeUse(
-    promoCodeId: string,
-    discountAmount: number,
-    originalAmount: number,
-    finalAmount: number,
-    bookingId?: string,
-    rideRequestId?: string
-): Promise<boolean> {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return false;
-
-    const { error } = await supabase.from('promo_code_uses').insert({
-        promo_code_id: promoCodeId,
-        user_id: user.id,
-        booking_id: bookingId,
-        ride_request_id: rideRequestId,
-        discount_amount: discountAmount,
-        original_amount: originalAmount,
-        final_amount: finalAmount,
-    });
+export async function removePromoCodeFromBooking(bookingId: string): Promise<number> {
+    const data = await callPromoRpc('remove_promo_code', { p_booking_id: bookingId });
+    return Number(data.final_amount);
+}
 
-    if (error) {
-        console.error('Failed to record promo use:', error);
-        return false;
-    }
+/**
+ * The redemption recorded on a booking, if any
+ */
+export async function getBookingPromoRedemption(bookingId: string): Promise<PromoCodeUse | null> {
+    const { data, error } = await supabase
+        .from('promo_code_uses')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .maybeSingle();
 
-    return true;
+    if (error) throw error;
+    return data;
 }
 
 /**
@@ -203,87 +215,6 @@ export async function getUserPromoHistory(): Promise<PromoCodeUse[]> {
     return data || [];
 }
 
-/**
- * Calculate discount amount
- */
-export function calculateDiscount(
-    promo: PromoCode,
-    amount: number
-): number {
-    let discount = 0;
-
-    if (promo.discount_type === 'percentage') {
-        discount = (amount * promo.discount_value) / 100;
-        if (promo.max_discount && discount > promo.max_discount) {
-            discount = promo.max_discount;
-        }
-    } else {
-        discount = promo.discount_value;
-    }
-
-    return Math.min(discount, amount); // Discount can't exceed amount
-}
-
-/**
- * Validate promo code eligibility
- */
-export async function validatePromoCode(
-    code: string,
-    amount: number,
-    vehicleType?: string
-): Promise<{
-    valid: boolean;
-    promo?: PromoCode;
-    discount?: number;
-    message: string;
-}> {
-    const promo = await getPromoCodeByCode(code);
-
-    if (!promo) {
-        return {
-            valid: false,
-            message: 'Invalid or expired promo code',
-        };
-    }
-
-    // Check minimum amount
-    if (amount < promo.min_amount) {
-        return {
-            valid: false,
-            message: `Minimum order amount is ₹${promo.min_amount}`,
-        };
-    }
-
-    // Check vehicle type
-    if (vehicleType && !promo.applicable_vehicle_types.includes(vehicleType)) {
-        return {
-            valid: false,
-            message: 'Promo code not applicable for this vehicle type',
-        };
-    }
-
-    // Check user eligibility
-    const { data: { user } } = await supabase.auth.getUser();
-    if (user) {
-        const canUse = await canUsePromoCode(promo.id, user.id);
-        if (!canUse) {
-            return {
-                valid: false,
-                message: 'You have already used this promo code',
-            };
-        }
-    }
-
-    const discount = calculateDiscount(promo, amount);
-
-    return {
-        valid: true,
-        promo,
-        discount,
-        message: `You saved ₹${discount.toFixed(2)}!`,
-    };
-}
-
 /**
  * Get recommended promo codes for user
  */
@@ -310,3 +241,13 @@ export async function getRecommendedPromoCodes(
         return true;
     });
 }
+
+/**
+ * Redemptions and cost per campaign for the admin dashboard
+ */
+export async function getPromoCampaignReport(): Promise<PromoCampaignReport[]> {
+    const { data, error } = await supabase.rpc('get_promo_campaign_report');
+
+    if (error) throw error;
+    return (data || []).map(mapPromoCampaignReport);
+}
@@ -0,0 +1,93 @@
+import { supabase } from './supabase';
+import { mapRating, mapRatingSummary, mapUser } from './mapper';
+import { Rating, RatingCategory, RatingSummary, User } from '@shared/schema';
+
+export interface RatingInput {
+    tripId: string;
+    toUserId: string;
+    rating: number;
+    categories?: Partial<Record<RatingCategory, number>>;
+    review?: string;
+}
+
+export interface ReviewFilters {
+    role?: 'driver' | 'passenger'; // the side the person was rated on
+    stars?: number; // exact star rating
+    maxStars?: number;
+    withComments?: boolean;
+}
+
+export type Review = Rating & { from: User | null };
+
+/**
+ * Rate the other side of a completed ride. The rating stays hidden from
+ * them until they rate back or the 7-day window closes.
+ */
+export async function submitRating(input: RatingInput): Promise<{ revealed: boolean }> {
+    const { data, error } = await supabase.rpc('submit_rating', {
+        p_trip_id: input.tripId,
+        p_to_user_id: input.toUserId,
+        p_rating: input.rating,
+        p_categories: input.categories || {},
+        p_review: input.review || null,
+    });
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+    return { revealed: data.revealed };
+}
+
+/**
+ * Revealed reviews of a user, newest first, with their authors
+ */
+export async function getReviews(userId: string, filters: ReviewFilters = {}): Promise<Review[]> {
+    let query = supabase
+        .from('ratings')
+        .select('*, from:users!ratings_from_user_id_fkey(*)')
+        .eq('to_user_id', userId)
+        .lte('visible_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+    if (filters.role) query = query.eq('rater_role', filters.role === 'driver' ? 'passenger' : 'driver');
+    if (filters.stars) query = query.eq('rating', filters.stars);
+    if (filters.maxStars) query = query.lte('rating', filters.maxStars);
+    if (filters.withComments) query = query.not('review', 'is', null);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+        ...mapRating(row),
+        from: row.from ? mapUser(row.from) : null,
+    }));
+}
+
+/**
+ * A user's score on each side they've been rated on
+ */
+export async function getRatingSummaries(userId: string): Promise<RatingSummary[]> {
+    const { data, error } = await supabase
+        .from('rating_summaries')
+        .select('*')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Failed to fetch rating summary:', error);
+        return [];
+    }
+
+    return (data || []).map(mapRatingSummary);
+}
+
+/**
+ * Reply publicly to a rating you received
+ */
+export async function respondToRating(ratingId: string, response: string): Promise<void> {
+    const { data, error } = await supabase.rpc('respond_to_rating', {
+        p_rating_id: ratingId,
+        p_response: response,
+    });
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+}
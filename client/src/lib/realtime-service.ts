@@ -214,6 +214,73 @@ class RealtimeService {
         return () => this.unsubscribe(channelName);
     }
 
+    /**
+     * Subscribe to new and updated messages on a trip; updates carry read receipts
+     */
+    subscribeTripMessages(
+        tripId: string,
+        callback: RealtimeCallback<any>
+    ): () => void {
+        const channelName = `trip-messages:${tripId}`;
+
+        this.unsubscribe(channelName);
+
+        const channel = supabase
+            .channel(channelName)
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'messages',
+                    filter: `trip_id=eq.${tripId}`,
+                },
+                (payload) => {
+                    callback(payload as unknown as RealtimePayload<any>);
+                }
+            )
+            .subscribe();
+
+        this.channels.set(channelName, channel);
+
+        return () => this.unsubscribe(channelName);
+    }
+
+    /**
+     * Subscribe to typing indicators in a room. These are broadcasts only
+     * and never stored.
+     */
+    subscribeTyping(
+        roomName: string,
+        onTyping: (userId: string, isTyping: boolean) => void
+    ): () => void {
+        const channelName = `typing:${roomName}`;
+
+        this.unsubscribe(channelName);
+
+        const channel = supabase
+            .channel(channelName)
+            .on('broadcast', { event: 'typing' }, ({ payload }) => {
+                onTyping(payload.userId, payload.isTyping);
+            })
+            .subscribe();
+
+        this.channels.set(channelName, channel);
+
+        return () => this.unsubscribe(channelName);
+    }
+
+    /**
+     * Tell the other people in a room whether you are typing
+     */
+    async sendTyping(roomName: string, userId: string, isTyping: boolean): Promise<void> {
+        const channel = this.channels.get(`typing:${roomName}`);
+
+        if (channel) {
+            await channel.send({ type: 'broadcast', event: 'typing', payload: { userId, isTyping } });
+        }
+    }
+
     /**
      * Subscribe to presence (online/offline status)
      */
@@ -318,6 +385,15 @@ export const subscribeNotifications = (userId: string, callback: RealtimeCallbac
 export const subscribeMessages = (conversationId: string, callback: RealtimeCallback<any>) =>
     realtime.subscribeMessages(conversationId, callback);
 
+export const subscribeTripMessages = (tripId: string, callback: RealtimeCallback<any>) =>
+    realtime.subscribeTripMessages(tripId, callback);
+
+export const subscribeTyping = (roomName: string, onTyping: (userId: string, isTyping: boolean) => void) =>
+    realtime.subscribeTyping(roomName, onTyping);
+
+export const sendTyping = (roomName: string, userId: string, isTyping: boolean) =>
+    realtime.sendTyping(roomName, userId, isTyping);
+
 export const subscribePresence = (
     roomName: string,
     onJoin: (key: string, currentPresence: any, newPresence: any) => void,
@@ -0,0 +1,189 @@
+import { supabase } from './supabase';
+import { mapRecurringTrip, mapRecurringTripPass } from './mapper';
+import { RecurringTrip, RecurringTripPass } from '@shared/schema';
+import { TripStopInput } from './trip-stops-service';
+
+export interface RecurringTripInput {
+    driverId: string;
+    vehicleId?: string; // defaults to the driver's active vehicle
+    pickupLocation: string;
+    pickupLat: number;
+    pickupLng: number;
+    dropLocation: string;
+    dropLat: number;
+    dropLng: number;
+    stops?: TripStopInput[]; // origin first and destination last, only when there are waypoints
+    route?: { lat: number; lng: number }[];
+    distance: string;
+    duration: number;
+    pricePerSeat: number;
+    totalSeats: number;
+    preferences: Record<string, any>;
+    weekdays: number[]; // 0 = Sunday .. 6 = Saturday
+    departureTime: string; // HH:mm, India time
+    startsOn: string; // YYYY-MM-DD
+    endsOn?: string;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Save a commute template and generate its first trips
+ */
+export async function createRecurringTrip(input: RecurringTripInput): Promise<RecurringTrip> {
+    const { data, error } = await supabase
+        .from('recurring_trips')
+        .insert({
+            driver_id: input.driverId,
+            vehicle_id: input.vehicleId || null,
+            pickup_location: input.pickupLocation,
+            pickup_lat: input.pickupLat,
+            pickup_lng: input.pickupLng,
+            drop_location: input.dropLocation,
+            drop_lat: input.dropLat,
+            drop_lng: input.dropLng,
+            stops: input.stops && input.stops.length > 2
+                ? input.stops.map((stop) => ({
+                    location: stop.location,
+                    lat: stop.lat,
+                    lng: stop.lng,
+                    ...(stop.distanceKm !== undefined && { distance_km: Number(stop.distanceKm.toFixed(2)) }),
+                }))
+                : null,
+            route: input.route,
+            distance: input.distance,
+            duration: input.duration,
+            price_per_seat: input.pricePerSeat,
+            total_seats: input.totalSeats,
+            preferences: input.preferences,
+            weekdays: input.weekdays,
+            departure_time: input.departureTime,
+            starts_on: input.startsOn,
+            ends_on: input.endsOn || null,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+
+    await generateRecurringTrips(data.id);
+    return mapRecurringTrip(data);
+}
+
+/**
+ * Generate any missing trips for a commute, returns how many were created
+ */
+export async function generateRecurringTrips(recurringTripId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('generate_recurring_trips', {
+        p_recurring_trip_id: recurringTripId,
+    });
+
+    if (error) throw error;
+    return data || 0;
+}
+
+/**
+ * Get a commute template by id
+ */
+export async function getRecurringTrip(recurringTripId: string): Promise<RecurringTrip | null> {
+    const { data, error } = await supabase
+        .from('recurring_trips')
+        .select('*')
+        .eq('id', recurringTripId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Failed to fetch recurring trip:', error);
+        return null;
+    }
+
+    return data ? mapRecurringTrip(data) : null;
+}
+
+/**
+ * Pause, resume or end a commute. Trips already generated are kept.
+ */
+export async function setRecurringTripStatus(
+    recurringTripId: string,
+    status: RecurringTrip['status']
+): Promise<void> {
+    const { error } = await supabase
+        .from('recurring_trips')
+        .update({ status })
+        .eq('id', recurringTripId);
+
+    if (error) throw error;
+}
+
+/**
+ * Skip one day of a commute; that day's trip is cancelled and refunded
+ */
+export async function skipRecurringOccurrence(
+    recurringTripId: string,
+    date: string,
+    reason?: string
+): Promise<void> {
+    const { error } = await supabase.rpc('skip_recurring_occurrence', {
+        p_recurring_trip_id: recurringTripId,
+        p_date: date,
+        p_reason: reason || null,
+    });
+
+    if (error) throw error;
+}
+
+/**
+ * Monday of the week containing a date, as YYYY-MM-DD
+ */
+export function getWeekStart(date: Date): string {
+    const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+    return `${monday.getFullYear()}-${String(monday.getMonth() + 1).padStart(2, '0')}-${String(monday.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Buy a weekly pass: a seat on every occurrence of the commute that week
+ */
+export async function subscribeWeeklyPass(
+    recurringTripId: string,
+    weekStart: string,
+    seats: number,
+    paymentMethod: string = 'cash'
+): Promise<string> {
+    const { data, error } = await supabase.rpc('subscribe_recurring_pass', {
+        p_recurring_trip_id: recurringTripId,
+        p_week_start: weekStart,
+        p_seats: seats,
+        p_payment_method: paymentMethod,
+    });
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Get the current user's passes for a commute
+ */
+export async function getMyPasses(recurringTripId: string, passengerId: string): Promise<RecurringTripPass[]> {
+    const { data, error } = await supabase
+        .from('recurring_trip_passes')
+        .select('*')
+        .eq('recurring_trip_id', recurringTripId)
+        .eq('passenger_id', passengerId)
+        .order('week_start', { ascending: false });
+
+    if (error) {
+        console.error('Failed to fetch weekly passes:', error);
+        return [];
+    }
+
+    return (data || []).map(mapRecurringTripPass);
+}
+
+/**
+ * Cancel a weekly pass; its remaining bookings follow the refund policy
+ */
+export async function cancelWeeklyPass(passId: string): Promise<void> {
+    const { error } = await supabase.rpc('cancel_recurring_pass', { p_pass_id: passId });
+    if (error) throw error;
+}
@@ -29,7 +29,10 @@ export interface RideRequest {
     cancellation_reason?: string;
     organization_only?: boolean;
     organization?: string;
+    organization_id?: string;
     scheduled_time?: string;
+    is_marketplace?: boolean;
+    scheduled_until?: string;
     created_at: string;
     updated_at: string;
 }
@@ -43,6 +46,9 @@ export interface NearbyDriver {
     current_lat: number;
     current_lng: number;
     organization?: string;
+    vehicle_id: string;
+    vehicle_type: 'bike' | 'auto' | 'car';
+    seat_count: number;
 }
 
 /**
@@ -61,8 +67,8 @@ export async function createRideRequest(params: {
     promoCode?: string;
     discountAmount?: number;
     surgeMultiplier?: number;
+    // Scoped to the passenger's verified organization on the server
     organizationOnly?: boolean;
-    organization?: string;
     scheduledTime?: Date;
 }): Promise<RideRequest> {
     const { data: { user } } = await supabase.auth.getUser();
@@ -104,7 +110,6 @@ export async function createRideRequest(params: {
             discount_amount: params.discountAmount || 0,
             surge_multiplier: params.surgeMultiplier || 1.0,
             organization_only: params.organizationOnly || false,
-            organization: params.organization,
             search_radius: 5000, // Start with 5km radius
             timeout_at: timeoutAt,
             scheduled_time: params.scheduledTime?.toISOString(),
@@ -117,20 +122,23 @@ export async function createRideRequest(params: {
 }
 
 /**
- * Find nearby available drivers
+ * Find nearby available drivers whose active vehicle fits the request.
+ * With organizationOnly, only verified colleagues of the signed-in user.
  */
 export async function findNearbyDrivers(
     location: Coordinates,
     radius: number = 5000,
     vehicleType?: 'bike' | 'auto' | 'car',
-    organization?: string
+    organizationOnly: boolean = false,
+    minSeats: number = 1
 ): Promise<NearbyDriver[]> {
     const { data, error } = await supabase.rpc('find_nearby_drivers', {
         p_lat: location.lat,
         p_lng: location.lng,
         p_radius: radius,
         p_vehicle_type: vehicleType || null,
-        p_organization: organization || null,
+        p_organization_only: organizationOnly,
+        p_min_seats: minSeats,
     });
 
     if (error) throw error;
@@ -216,50 +224,16 @@ export function subscribeToRideRequest(
 }
 
 /**
- * Auto-match ride request with nearest available driver
+ * Run a dispatch step for a request now instead of waiting for the server's
+ * sweep. Offers go to drivers one at a time; returns how many were made.
  */
-export async function autoMatchRideRequest(requestId: string): Promise<boolean> {
-    try {
-        // Get ride request details
-        const { data: request, error: requestError } = await supabase
-            .from('ride_requests')
-            .select('*')
-            .eq('id', requestId)
-            .single();
-
-        if (requestError || !request) {
-            console.error('Failed to fetch ride request:', requestError);
-            return false;
-        }
-
-        // Find nearby drivers
-        const drivers = await findNearbyDrivers(
-            { lat: request.pickup_lat, lng: request.pickup_lng },
-            request.search_radius,
-            request.vehicle_type,
-            request.organization_only ? request.organization : undefined
-        );
-
-        if (drivers.length === 0) {
-            // Expand search radius if no drivers found
-            if (request.search_radius < 20000) {
-                await supabase
-                    .from('ride_requests')
-                    .update({ search_radius: request.search_radius + 2000 })
-                    .eq('id', requestId);
-            }
-            return false;
-        }
-
-        // Match with nearest driver
-        const nearestDriver = drivers[0];
-        const result = await matchRideWithDriver(requestId, nearestDriver.driver_id);
+export async function dispatchRideRequest(requestId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('dispatch_ride_request', {
+        p_request_id: requestId,
+    });
 
-        return result.success;
-    } catch (error) {
-        console.error('Auto-match error:', error);
-        return false;
-    }
+    if (error) throw error;
+    return data || 0;
 }
 
 /**
@@ -307,6 +281,7 @@ export async function getActiveRideRequest(): Promise<RideRequest | null> {
         .select('*')
         .eq('passenger_id', user.id)
         .in('status', ['searching', 'matched', 'accepted', 'pending'])
+        .eq('is_marketplace', false)
         .order('created_at', { ascending: false })
         .limit(1)
         .single();
@@ -0,0 +1,54 @@
+import { supabase } from './supabase';
+import { mapBookingPin } from './mapper';
+import { BookingPin } from '@shared/schema';
+
+export type RidePinStage = 'start' | 'end';
+
+export interface VerifyRidePinResult {
+    success: boolean;
+    error?: string;
+    attemptsLeft?: number;
+    lockedUntil?: string;
+}
+
+/**
+ * Get the passenger's PINs for a booking. Only the passenger can read them.
+ */
+export async function getRidePin(bookingId: string): Promise<BookingPin | null> {
+    const { data, error } = await supabase
+        .from('booking_pins')
+        .select('*')
+        .eq('booking_id', bookingId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Failed to fetch ride PIN:', error);
+        return null;
+    }
+
+    return data ? mapBookingPin(data) : null;
+}
+
+/**
+ * Driver enters the passenger's PIN to pick them up ('start') or drop them
+ * off ('end'). Wrong PINs are rate-limited by the server.
+ */
+export async function verifyRidePin(
+    bookingId: string,
+    pin: string,
+    stage: RidePinStage = 'start'
+): Promise<VerifyRidePinResult> {
+    const { data, error } = await supabase.rpc('verify_ride_pin', {
+        p_booking_id: bookingId,
+        p_pin: pin,
+        p_stage: stage,
+    });
+
+    if (error) throw error;
+    return {
+        success: data.success,
+        error: data.error,
+        attemptsLeft: data.attempts_left,
+        lockedUntil: data.locked_until,
+    };
+}
@@ -0,0 +1,155 @@
+import { supabase } from './supabase';
+import { mapRideRequest, mapRideRequestOffer, mapMarketplaceRideRequest } from './mapper';
+import { Coordinates } from './maps';
+import { RideRequest, RideRequestOffer, MarketplaceRideRequest } from '@shared/schema';
+
+export interface PostRideRequestInput {
+    pickupLocation: string;
+    pickupCoords: Coordinates;
+    dropLocation: string;
+    dropCoords: Coordinates;
+    vehicleType: 'bike' | 'auto' | 'car';
+    seats: number;
+    pricePerSeat: number;
+    windowStart: Date;
+    windowEnd: Date;
+    distance: number;
+    duration: number;
+    notes?: string;
+    organizationOnly?: boolean;
+}
+
+export interface RideRequestOfferInput {
+    departureTime: Date;
+    pricePerSeat: number;
+    totalSeats: number;
+    message?: string;
+}
+
+export interface PostedRideRequest extends RideRequest {
+    offers: RideRequestOffer[];
+}
+
+const OFFER_SELECT = '*, driver:drivers(rating, user:users(full_name, profile_photo)), vehicle:vehicles(make, model, color)';
+
+async function callMarketplaceRpc(fn: string, params: Record<string, unknown>): Promise<any> {
+    const { data, error } = await supabase.rpc(fn, params);
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+    return data;
+}
+
+/**
+ * Post a future ride request for drivers to make offers on. It is never
+ * dispatched to drivers nearby like an instant request.
+ */
+export async function postRideRequest(passengerId: string, request: PostRideRequestInput): Promise<RideRequest> {
+    const { data, error } = await supabase
+        .from('ride_requests')
+        .insert({
+            passenger_id: passengerId,
+            pickup_location: request.pickupLocation,
+            pickup_lat: request.pickupCoords.lat,
+            pickup_lng: request.pickupCoords.lng,
+            drop_location: request.dropLocation,
+            drop_lat: request.dropCoords.lat,
+            drop_lng: request.dropCoords.lng,
+            vehicle_type: request.vehicleType,
+            seats: request.seats,
+            fare: request.pricePerSeat * request.seats,
+            distance: request.distance,
+            duration: request.duration,
+            status: 'pending',
+            is_marketplace: true,
+            scheduled_time: request.windowStart.toISOString(),
+            scheduled_until: request.windowEnd.toISOString(),
+            notes: request.notes?.trim() || null,
+            organization_only: request.organizationOnly || false,
+        })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return mapRideRequest(data);
+}
+
+/**
+ * The passenger's open and recently closed marketplace requests, each with its offers
+ */
+export async function getPostedRideRequests(passengerId: string): Promise<PostedRideRequest[]> {
+    const { data, error } = await supabase
+        .from('ride_requests')
+        .select(`*, offers:ride_request_offers(${OFFER_SELECT})`)
+        .eq('passenger_id', passengerId)
+        .eq('is_marketplace', true)
+        .in('status', ['pending', 'accepted'])
+        .gte('scheduled_until', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
+        .order('scheduled_time', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+        ...mapRideRequest(row),
+        offers: (row.offers || [])
+            .map(mapRideRequestOffer)
+            .filter((offer: RideRequestOffer) => offer.status === 'offered' || offer.status === 'accepted')
+            .sort((a: RideRequestOffer, b: RideRequestOffer) => Number(a.pricePerSeat) - Number(b.pricePerSeat)),
+    }));
+}
+
+export async function cancelPostedRideRequest(requestId: string): Promise<void> {
+    const { error } = await supabase
+        .from('ride_requests')
+        .update({
+            status: 'cancelled',
+            cancelled_at: new Date().toISOString(),
+            cancellation_reason: 'Cancelled by passenger',
+        })
+        .eq('id', requestId)
+        .eq('status', 'pending');
+
+    if (error) throw error;
+}
+
+/**
+ * Accept a driver's offer. Creates the trip and the passenger's booking together.
+ */
+export async function acceptRideRequestOffer(offerId: string): Promise<{ tripId: string; bookingId: string }> {
+    const data = await callMarketplaceRpc('accept_ride_request_offer', { p_offer_id: offerId });
+    return { tripId: data.trip_id, bookingId: data.booking_id };
+}
+
+export async function declineRideRequestOffer(offerId: string): Promise<void> {
+    await callMarketplaceRpc('decline_ride_request_offer', { p_offer_id: offerId });
+}
+
+/**
+ * Open marketplace requests near the signed-in driver, nearest pickup first
+ */
+export async function findMarketplaceRideRequests(radiusKm: number = 50): Promise<MarketplaceRideRequest[]> {
+    const { data, error } = await supabase.rpc('find_marketplace_ride_requests', {
+        p_radius_km: radiusKm,
+    });
+
+    if (error) throw error;
+    return (data || []).map(mapMarketplaceRideRequest);
+}
+
+/**
+ * Offer to drive a marketplace request with the driver's active vehicle.
+ * Replaces the driver's earlier open offer on the same request.
+ */
+export async function makeRideRequestOffer(requestId: string, offer: RideRequestOfferInput): Promise<string> {
+    const data = await callMarketplaceRpc('make_ride_request_offer', {
+        p_request_id: requestId,
+        p_departure_time: offer.departureTime.toISOString(),
+        p_price_per_seat: offer.pricePerSeat,
+        p_total_seats: offer.totalSeats,
+        p_message: offer.message || null,
+    });
+    return data.offer_id;
+}
+
+export async function withdrawRideRequestOffer(offerId: string): Promise<void> {
+    await callMarketplaceRpc('withdraw_ride_request_offer', { p_offer_id: offerId });
+}
@@ -0,0 +1,162 @@
+import { Trip, RouteMatch } from '@shared/schema';
+import { Coordinates, calculateDistance, calculateDetour } from './maps';
+
+export type RouteMatchableTrip = Pick<
+    Trip,
+    'pickupLat' | 'pickupLng' | 'dropLat' | 'dropLng' | 'departureTime' | 'duration' | 'route'
+>;
+
+export interface RouteMatchOptions {
+    maxOffRouteKm?: number; // how far pickup/drop may be from the route
+    when?: Date; // requested pickup time
+    windowMinutes?: number; // allowed gap between driver ETA and `when`
+    maxDetourMinutes?: number;
+    detourChecks?: number; // best geometric matches to check with the router
+}
+
+// Score weights: points lost per km off route, per detour minute and per minute of waiting
+const OFF_ROUTE_PENALTY = 15;
+const DETOUR_PENALTY = 2;
+const TIME_GAP_PENALTY = 0.5;
+
+/**
+ * Find the nearest point on a polyline, with its distance along the route
+ */
+export function nearestPointOnRoute(
+    point: Coordinates,
+    route: Coordinates[]
+): { point: Coordinates; distanceKm: number; alongKm: number } {
+    let best = { point: route[0], distanceKm: Infinity, alongKm: 0 };
+    let travelled = 0;
+
+    for (let i = 0; i < route.length - 1; i++) {
+        const a = route[i];
+        const b = route[i + 1];
+
+        // Project on a flat plane scaled by latitude; fine at city scale
+        const scale = Math.cos(a.lat * Math.PI / 180);
+        const dx = (b.lng - a.lng) * scale;
+        const dy = b.lat - a.lat;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq === 0
+            ? 0
+            : Math.max(0, Math.min(1, (((point.lng - a.lng) * scale) * dx + (point.lat - a.lat) * dy) / lengthSq));
+
+        const projected = { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) };
+        const distanceKm = calculateDistance(point.lat, point.lng, projected.lat, projected.lng);
+        const segmentKm = calculateDistance(a.lat, a.lng, b.lat, b.lng);
+
+        if (distanceKm < best.distanceKm) {
+            best = { point: projected, distanceKm, alongKm: travelled + t * segmentKm };
+        }
+        travelled += segmentKm;
+    }
+
+    return best;
+}
+
+function routeOf(trip: RouteMatchableTrip): Coordinates[] {
+    if (trip.route && trip.route.length >= 2) return trip.route;
+    return [
+        { lat: parseFloat(trip.pickupLat), lng: parseFloat(trip.pickupLng) },
+        { lat: parseFloat(trip.dropLat), lng: parseFloat(trip.dropLng) },
+    ];
+}
+
+/**
+ * Check whether a passenger's pickup and drop lie along a trip's route, in
+ * the driving direction. Returns null when the trip doesn't fit.
+ */
+export function matchTripToRoute(
+    trip: RouteMatchableTrip,
+    pickup: Coordinates,
+    drop: Coordinates,
+    options: RouteMatchOptions = {}
+): RouteMatch | null {
+    const { maxOffRouteKm = 2, when, windowMinutes = 60 } = options;
+    const route = routeOf(trip);
+
+    const nearPickup = nearestPointOnRoute(pickup, route);
+    const nearDrop = nearestPointOnRoute(drop, route);
+
+    if (nearPickup.distanceKm > maxOffRouteKm || nearDrop.distanceKm > maxOffRouteKm) return null;
+    if (nearPickup.alongKm >= nearDrop.alongKm) return null; // driver is going the other way
+
+    // Estimate when the driver reaches the pickup, assuming a steady pace
+    let departureGapMinutes: number | null = null;
+    if (when) {
+        const routeKm = nearestPointOnRoute(route[route.length - 1], route).alongKm;
+        const etaOffset = routeKm > 0 ? (nearPickup.alongKm / routeKm) * trip.duration : 0;
+        const eta = new Date(trip.departureTime).getTime() + etaOffset * 60000;
+        departureGapMinutes = Math.round(Math.abs(eta - when.getTime()) / 60000);
+        if (departureGapMinutes > windowMinutes) return null;
+    }
+
+    const score = 100
+        - OFF_ROUTE_PENALTY * (nearPickup.distanceKm + nearDrop.distanceKm)
+        - TIME_GAP_PENALTY * (departureGapMinutes ?? 0);
+
+    return {
+        pickupPoint: nearPickup.point,
+        dropPoint: nearDrop.point,
+        pickupDistanceKm: Math.round(nearPickup.distanceKm * 100) / 100,
+        dropDistanceKm: Math.round(nearDrop.distanceKm * 100) / 100,
+        departureGapMinutes,
+        detourMinutes: null,
+        detourKm: null,
+        score: Math.max(0, Math.round(score)),
+    };
+}
+
+/**
+ * Rank trips whose route passes the passenger's pickup and drop. The best
+ * geometric matches are re-scored with the driver's actual detour.
+ */
+export async function findRouteMatches<T extends RouteMatchableTrip>(
+    trips: T[],
+    pickup: Coordinates,
+    drop: Coordinates,
+    options: RouteMatchOptions = {}
+): Promise<(T & { match: RouteMatch })[]> {
+    const { maxDetourMinutes = 20, detourChecks = 5 } = options;
+
+    const matches: (T & { match: RouteMatch })[] = [];
+    for (const trip of trips) {
+        const match = matchTripToRoute(trip, pickup, drop, options);
+        if (match) matches.push({ ...trip, match });
+    }
+    matches.sort((a, b) => b.match.score - a.match.score);
+
+    // The router is a shared public service, so only check the top few
+    const checked = await Promise.all(
+        matches.slice(0, detourChecks).map(async (trip): Promise<(T & { match: RouteMatch }) | null> => {
+            try {
+                const route = routeOf(trip);
+                const detour = await calculateDetour(route[0], route[route.length - 1], [], [pickup, drop]);
+                const detourMinutes = Math.max(0, detour.detourDuration);
+
+                if (detourMinutes > maxDetourMinutes) return null;
+
+                return {
+                    ...trip,
+                    match: {
+                        ...trip.match,
+                        detourMinutes,
+                        detourKm: Math.max(0, Math.round(detour.detourDistance * 10) / 10),
+                        score: Math.max(0, Math.round(trip.match.score - DETOUR_PENALTY * detourMinutes)),
+                    },
+                };
+            } catch (error) {
+                console.error('Failed to check detour:', error);
+                return trip;
+            }
+        })
+    );
+
+    const ranked = matches.slice(detourChecks);
+    for (const trip of checked) {
+        if (trip) ranked.push(trip);
+    }
+
+    return ranked.sort((a, b) => b.match.score - a.match.score);
+}
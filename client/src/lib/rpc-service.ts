@@ -16,8 +16,6 @@ import type {
     GetDriverStatisticsResult,
     GetUserStatisticsParams,
     GetUserStatisticsResult,
-    AddMoneyToWalletParams,
-    AddMoneyToWalletResult,
 } from '@/types/supabase-types';
 import type {
     FindNearbyDriversParams,
@@ -41,9 +39,8 @@ class RPCService {
     ): Promise<{ data: ApplyPromoCodeResult | null; error: any }> {
         try {
             const { data, error } = await supabase.rpc('apply_promo_code', {
-                p_code: params.code,
                 p_booking_id: params.bookingId,
-                p_amount: params.amount,
+                p_code: params.code,
             });
 
             if (error) {
@@ -68,6 +65,10 @@ class RPCService {
             const { data, error } = await supabase.rpc('check_promo_code', {
                 p_code: params.code,
                 p_amount: params.amount,
+                p_vehicle_type: params.vehicleType || null,
+                p_pickup_lat: params.pickupLat ?? null,
+                p_pickup_lng: params.pickupLng ?? null,
+                p_ride_at: params.rideAt || null,
             });
 
             if (error) {
@@ -239,6 +240,7 @@ class RPCService {
                 p_lng: params.lng,
                 p_radius: params.radius || 5000,
                 p_vehicle_type: params.vehicleType || null,
+                p_min_seats: params.minSeats || 1,
             });
 
             if (error) {
@@ -277,30 +279,6 @@ class RPCService {
         }
     }
 
-    /**
-     * Add money to wallet
-     */
-    async addMoneyToWallet(
-        params: AddMoneyToWalletParams
-    ): Promise<{ data: AddMoneyToWalletResult | null; error: any }> {
-        try {
-            const { data, error } = await supabase.rpc('add_money_to_wallet', {
-                p_amount: params.amount,
-                p_payment_id: params.paymentId,
-            });
-
-            if (error) {
-                console.error('Error adding money to wallet:', error);
-                return { data: null, error };
-            }
-
-            return { data, error: null };
-        } catch (error) {
-            console.error('Exception adding money to wallet:', error);
-            return { data: null, error };
-        }
-    }
-
     /**
      * Get or create referral code for user
      */
@@ -331,7 +309,7 @@ class RPCService {
         amount: number
     ): Promise<{ data: CheckPromoCodeResult | null; error: any }> {
         try {
-            const { data, error } = await supabase.rpc('apply_promo_code', {
+            const { data, error } = await supabase.rpc('check_promo_code', {
                 p_code: code,
                 p_amount: amount,
             });
@@ -346,7 +324,7 @@ class RPCService {
                 valid: data?.success || false,
                 discountAmount: data?.discount || 0,
                 finalAmount: data?.final_amount || amount,
-                message: data?.message || '',
+                message: data?.error || '',
             };
 
             return { data: result, error: null };
@@ -372,7 +350,6 @@ export const {
     getUserStatistics,
     findNearbyDrivers,
     matchRideRequest,
-    addMoneyToWallet,
     getOrCreateReferralCode,
     checkPromoCodeValidity,
 } = rpc;
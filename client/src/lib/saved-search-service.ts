@@ -0,0 +1,98 @@
+import { supabase } from './supabase';
+import { mapSavedSearch } from './mapper';
+import { Coordinates } from './maps';
+import { SavedSearch } from '@shared/schema';
+
+export interface SavedSearchInput {
+    name: string;
+    pickupLocation: string;
+    pickupCoords?: Coordinates;
+    dropLocation: string;
+    dropCoords?: Coordinates;
+    windowStart?: string;
+    windowEnd?: string;
+    maxPrice?: number;
+}
+
+export async function getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapSavedSearch);
+}
+
+/**
+ * Save a route and start alerting on trips published from now on
+ */
+export async function createSavedSearch(userId: string, search: SavedSearchInput): Promise<void> {
+    const { error } = await supabase
+        .from('saved_searches')
+        .insert({
+            user_id: userId,
+            name: search.name.trim(),
+            pickup_location: search.pickupLocation.trim(),
+            pickup_lat: search.pickupCoords?.lat ?? null,
+            pickup_lng: search.pickupCoords?.lng ?? null,
+            drop_location: search.dropLocation.trim(),
+            drop_lat: search.dropCoords?.lat ?? null,
+            drop_lng: search.dropCoords?.lng ?? null,
+            window_start: search.windowStart || null,
+            window_end: search.windowEnd || null,
+            max_price: search.maxPrice || null,
+        });
+
+    if (error) throw error;
+}
+
+/**
+ * Pause alerts until the given time. Trips published meanwhile are not alerted later.
+ */
+export async function snoozeSavedSearch(savedSearchId: string, until: Date | null): Promise<void> {
+    const { error } = await supabase
+        .from('saved_searches')
+        .update({ snoozed_until: until?.toISOString() ?? null })
+        .eq('id', savedSearchId);
+
+    if (error) throw error;
+}
+
+/**
+ * Unsubscribe from, or resubscribe to, alerts while keeping the search saved
+ */
+export async function setSavedSearchAlerts(savedSearchId: string, enabled: boolean): Promise<void> {
+    const { error } = await supabase
+        .from('saved_searches')
+        .update({ alerts_enabled: enabled })
+        .eq('id', savedSearchId);
+
+    if (error) throw error;
+}
+
+export async function deleteSavedSearch(savedSearchId: string): Promise<void> {
+    const { error } = await supabase
+        .from('saved_searches')
+        .delete()
+        .eq('id', savedSearchId);
+
+    if (error) throw error;
+}
+
+/**
+ * The search page URL that runs a saved search
+ */
+export function savedSearchUrl(search: SavedSearch): string {
+    const params = new URLSearchParams({ pickup: search.pickupLocation, drop: search.dropLocation });
+    if (search.pickupLat && search.pickupLng) {
+        params.set('pickupLat', search.pickupLat);
+        params.set('pickupLng', search.pickupLng);
+    }
+    if (search.dropLat && search.dropLng) {
+        params.set('dropLat', search.dropLat);
+        params.set('dropLng', search.dropLng);
+    }
+    return `/search?${params.toString()}`;
+}
@@ -27,21 +27,13 @@ export interface RecentSearch {
     timestamp: number;
 }
 
-export interface SavedSearch extends RecentSearch {
-    id: string;
-    name: string;
-}
-
 interface SearchStore {
     filters: SearchFilters;
     recentSearches: RecentSearch[];
-    savedSearches: SavedSearch[];
     setFilters: (newFilters: Partial<SearchFilters>) => void;
     resetFilters: () => void;
     addRecentSearch: (search: Omit<RecentSearch, 'timestamp'>) => void;
     clearRecentSearches: () => void;
-    saveSearch: (search: SavedSearch) => void;
-    removeSavedSearch: (id: string) => void;
 }
 
 export const useSearchStore = create<SearchStore>()(
@@ -49,7 +41,6 @@ export const useSearchStore = create<SearchStore>()(
         (set) => ({
             filters: {},
             recentSearches: [],
-            savedSearches: [],
 
             setFilters: (newFilters: Partial<SearchFilters>) =>
                 set((state: SearchStore) => ({
@@ -83,22 +74,6 @@ export const useSearchStore = create<SearchStore>()(
                 set({
                     recentSearches: [],
                 }),
-
-            saveSearch: (search: SavedSearch) =>
-                set((state: SearchStore) => {
-                    const exists = state.savedSearches.some((s: SavedSearch) => s.id === search.id);
-                    if (exists) {
-                        return state;
-                    }
-                    return {
-                        savedSearches: [...state.savedSearches, search],
-                    };
-                }),
-
-            removeSavedSearch: (id: string) =>
-                set((state: SearchStore) => ({
-                    savedSearches: state.savedSearches.filter((s: SavedSearch) => s.id !== id),
-                })),
         }),
         {
             name: 'tcsygo-search-storage',
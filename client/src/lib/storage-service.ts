@@ -25,7 +25,9 @@ export const BUCKETS = {
     VEHICLES: 'vehicles',
     DOCUMENTS: 'documents',
     RECEIPTS: 'receipts',
+    INVOICES: 'invoices',
     SAFETY_MEDIA: 'safety-media',
+    CHAT_ATTACHMENTS: 'chat-attachments',
 } as const;
 
 export type BucketName = typeof BUCKETS[keyof typeof BUCKETS];
@@ -445,6 +447,29 @@ export async function uploadSafetyMedia(
     return uploadFile(BUCKETS.SAFETY_MEDIA, file, fileName);
 }
 
+/**
+ * Helper function to upload a photo sent in trip chat
+ */
+export async function uploadChatImage(
+    userId: string,
+    file: File,
+    tripId: string
+): Promise<UploadResult> {
+    const validation = validateFile(file, {
+        maxSize: 10 * 1024 * 1024,
+        allowedTypes: ['image/*'],
+    });
+
+    if (!validation.valid) {
+        return { success: false, error: validation.error };
+    }
+
+    const fileExt = file.name.split('.').pop();
+    const fileName = `${userId}/${tripId}/chat-${Date.now()}.${fileExt}`;
+
+    return uploadFile(BUCKETS.CHAT_ATTACHMENTS, file, fileName);
+}
+
 /**
  * Helper function to upload multiple safety media files
  */
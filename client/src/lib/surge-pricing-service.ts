@@ -0,0 +1,246 @@
+import { supabase } from './supabase';
+import { calculateSurgeMultiplier, getCurrentDemand } from './fareCalculator';
+
+export type DemandLevel = 'low' | 'medium' | 'high' | 'very_high';
+
+export interface LatLng {
+    lat: number;
+    lng: number;
+}
+
+export interface SurgeZone {
+    id: string;
+    zone_name: string;
+    zone_polygon: LatLng[];
+    current_multiplier: number;
+    demand_level: DemandLevel;
+    active_requests: number;
+    available_drivers: number;
+    min_multiplier: number;
+    max_multiplier: number;
+    smoothing_factor: number;
+    override_multiplier: number | null;
+    override_expires_at: string | null;
+    override_reason: string | null;
+    last_computed_at: string | null;
+    active_from: string | null;
+    active_until: string | null;
+    active_days: number[];
+    is_active: boolean;
+    updated_at: string;
+    created_at: string;
+}
+
+export type SurgeZoneInput = Pick<
+    SurgeZone,
+    | 'zone_name'
+    | 'zone_polygon'
+    | 'min_multiplier'
+    | 'max_multiplier'
+    | 'smoothing_factor'
+    | 'active_from'
+    | 'active_until'
+    | 'active_days'
+    | 'is_active'
+>;
+
+export interface SurgeZonePreview {
+    totalTrips: number;
+    tripsInZone: number;
+    tripsSurged: number;
+}
+
+export interface SurgeQuote {
+    multiplier: number;
+    demand: DemandLevel;
+    zoneId?: string;
+    zoneName?: string;
+}
+
+/**
+ * Check if a point is inside a polygon zone (ray casting)
+ */
+export function isPointInZone(lat: number, lng: number, polygon: LatLng[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const xi = polygon[i].lng;
+        const yi = polygon[i].lat;
+        const xj = polygon[j].lng;
+        const yj = polygon[j].lat;
+
+        const intersect =
+            yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+        if (intersect) inside = !inside;
+    }
+    return inside;
+}
+
+const IST_OFFSET_MINUTES = 330;
+
+const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Check if a zone's active window (India time) covers the given moment.
+ * Mirrors surge_zone_in_window() in the database, including windows that wrap midnight.
+ */
+export function isZoneActiveAt(
+    zone: Pick<SurgeZone, 'active_from' | 'active_until' | 'active_days'>,
+    at: Date = new Date()
+): boolean {
+    const ist = new Date(at.getTime() + IST_OFFSET_MINUTES * 60000);
+    if (zone.active_days && !zone.active_days.includes(ist.getUTCDay())) return false;
+    if (!zone.active_from || !zone.active_until) return true;
+
+    const now = ist.getUTCHours() * 60 + ist.getUTCMinutes();
+    const from = toMinutes(zone.active_from);
+    const until = toMinutes(zone.active_until);
+
+    return from <= until ? now >= from && now < until : now >= from || now < until;
+}
+
+/**
+ * Get the active surge zones, highest multiplier first
+ */
+export async function getActiveSurgeZones(): Promise<SurgeZone[]> {
+    const { data, error } = await supabase
+        .from('surge_pricing_zones')
+        .select('*')
+        .eq('is_active', true)
+        .order('current_multiplier', { ascending: false });
+
+    if (error) {
+        console.error('Failed to fetch surge zones:', error);
+        return [];
+    }
+
+    return data || [];
+}
+
+/**
+ * Get the surge multiplier for a pickup point. Zone multipliers are kept
+ * current by the server; outside any zone the time-of-day model applies.
+ */
+export async function getSurgeMultiplier(lat: number, lng: number): Promise<SurgeQuote> {
+    const zones = await getActiveSurgeZones();
+    const zone = zones.find((z) => isZoneActiveAt(z) && isPointInZone(lat, lng, z.zone_polygon));
+
+    if (zone) {
+        return {
+            multiplier: Number(zone.current_multiplier),
+            demand: zone.demand_level,
+            zoneId: zone.id,
+            zoneName: zone.zone_name,
+        };
+    }
+
+    const demand = getCurrentDemand(new Date().getHours());
+    return { multiplier: calculateSurgeMultiplier(demand), demand };
+}
+
+/**
+ * Pin a zone's multiplier until it expires (admin only); pass null to clear
+ */
+export async function setSurgeOverride(
+    zoneId: string,
+    multiplier: number | null,
+    expiresAt?: string | null,
+    reason?: string
+): Promise<{ success: boolean; message?: string; multiplier?: number }> {
+    const { data, error } = await supabase.rpc('set_surge_override', {
+        p_zone_id: zoneId,
+        p_multiplier: multiplier,
+        p_expires_at: expiresAt ?? null,
+        p_reason: reason ?? null,
+    });
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Recompute every active zone now instead of waiting for the schedule (admin only)
+ */
+export async function recomputeSurgeZones(): Promise<number> {
+    const { data, error } = await supabase.rpc('recompute_surge_zones');
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Get every surge zone, including inactive ones (admin only)
+ */
+export async function getAllSurgeZones(): Promise<SurgeZone[]> {
+    const { data, error } = await supabase
+        .from('surge_pricing_zones')
+        .select('*')
+        .order('zone_name');
+
+    if (error) throw error;
+    return data || [];
+}
+
+/**
+ * Create a zone, or update it when an id is given (admin only)
+ */
+export async function saveSurgeZone(zone: SurgeZoneInput, zoneId?: string): Promise<SurgeZone> {
+    const query = zoneId
+        ? supabase
+              .from('surge_pricing_zones')
+              .update({ ...zone, updated_at: new Date().toISOString() })
+              .eq('id', zoneId)
+        : supabase.from('surge_pricing_zones').insert(zone);
+
+    const { data, error } = await query.select().single();
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Delete a zone; its multiplier history is kept (admin only)
+ */
+export async function deleteSurgeZone(zoneId: string): Promise<void> {
+    const { error } = await supabase.from('surge_pricing_zones').delete().eq('id', zoneId);
+
+    if (error) throw error;
+}
+
+/**
+ * Count recent trips that picked up inside a drawn polygon, and how many of
+ * those departed inside the zone's active window and would have been surged
+ */
+export async function previewSurgeZone(
+    zone: Pick<SurgeZone, 'zone_polygon' | 'active_from' | 'active_until' | 'active_days'>,
+    days = 30
+): Promise<SurgeZonePreview> {
+    // Bounded at now like the server, which only evaluates windows at NOW();
+    // scheduled future trips would otherwise inflate the counts
+    const now = new Date();
+    const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+        .from('trips')
+        .select('pickup_lat, pickup_lng, departure_time')
+        .gte('departure_time', since)
+        .lte('departure_time', now.toISOString())
+        .not('pickup_lat', 'is', null)
+        .order('departure_time', { ascending: false })
+        .limit(5000);
+
+    if (error) throw error;
+
+    const trips = data || [];
+    const inZone = trips.filter((trip) =>
+        isPointInZone(Number(trip.pickup_lat), Number(trip.pickup_lng), zone.zone_polygon)
+    );
+
+    return {
+        totalTrips: trips.length,
+        tripsInZone: inZone.length,
+        tripsSurged: inZone.filter((trip) => isZoneActiveAt(zone, new Date(trip.departure_time))).length,
+    };
+}
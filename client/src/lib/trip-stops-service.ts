@@ -0,0 +1,110 @@
+import { supabase } from './supabase';
+import { mapTripStop } from './mapper';
+import { TripStop, TripSegment } from '@shared/schema';
+
+export interface TripStopInput {
+    location: string;
+    lat: number;
+    lng: number;
+    distanceKm?: number; // road distance from the origin
+}
+
+/**
+ * Get a trip's stops in route order
+ */
+export async function getTripStops(tripId: string): Promise<TripStop[]> {
+    const { data, error } = await supabase
+        .from('trip_stops')
+        .select('*')
+        .eq('trip_id', tripId)
+        .order('stop_order');
+
+    if (error) {
+        console.error('Failed to fetch trip stops:', error);
+        return [];
+    }
+
+    return (data || []).map(mapTripStop);
+}
+
+/**
+ * Replace a trip's stops, origin first and destination last (driver only,
+ * before any seats are booked)
+ */
+export async function setTripStops(tripId: string, stops: TripStopInput[]): Promise<number> {
+    const { data, error } = await supabase.rpc('set_trip_stops', {
+        p_trip_id: tripId,
+        p_stops: stops.map((stop) => ({
+            location: stop.location,
+            lat: stop.lat,
+            lng: stop.lng,
+            ...(stop.distanceKm !== undefined && { distance_km: Number(stop.distanceKm.toFixed(2)) }),
+        })),
+    });
+
+    if (error) throw error;
+    return data;
+}
+
+/**
+ * Find upcoming trips passing a pickup stop before a drop stop, keyed by trip id
+ */
+export async function searchTripSegments(params: {
+    pickup?: string;
+    drop?: string;
+    from?: string;
+    to?: string;
+}): Promise<Map<string, TripSegment>> {
+    const { data, error } = await supabase.rpc('search_trip_segments', {
+        p_pickup: params.pickup || null,
+        p_drop: params.drop || null,
+        p_from: params.from || null,
+        p_to: params.to || null,
+    });
+
+    if (error) throw error;
+
+    return new Map(
+        (data || []).map((row: any) => [
+            row.trip_id,
+            {
+                boardStopOrder: row.board_stop_order,
+                alightStopOrder: row.alight_stop_order,
+                boardLocation: row.board_location,
+                alightLocation: row.alight_location,
+                seatsAvailable: row.seats_available,
+                seatPrice: row.seat_price,
+            },
+        ])
+    );
+}
+
+/**
+ * Free seats across every segment between two stops. Mirrors segment_seats_available().
+ */
+export function getSegmentSeats(stops: TripStop[], boardStopOrder: number, alightStopOrder: number): number {
+    const seats = stops
+        .filter((s) => s.stopOrder >= boardStopOrder && s.stopOrder < alightStopOrder && s.seatsAvailable !== null)
+        .map((s) => s.seatsAvailable as number);
+
+    return seats.length > 0 ? Math.min(...seats) : 0;
+}
+
+/**
+ * Per-seat price for part of a trip, pro-rated by distance. Mirrors segment_seat_price().
+ */
+export function getSegmentSeatPrice(
+    stops: TripStop[],
+    pricePerSeat: number,
+    boardStopOrder: number,
+    alightStopOrder: number
+): number {
+    const distanceAt = (order: number) =>
+        parseFloat(stops.find((s) => s.stopOrder === order)?.distanceFromStartKm || '0');
+    const totalDistance = Math.max(0, ...stops.map((s) => parseFloat(s.distanceFromStartKm)));
+
+    if (totalDistance === 0) return pricePerSeat;
+
+    const share = (distanceAt(alightStopOrder) - distanceAt(boardStopOrder)) / totalDistance;
+    return Math.round(pricePerSeat * share * 100) / 100;
+}
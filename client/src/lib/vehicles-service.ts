@@ -0,0 +1,163 @@
+import { supabase } from './supabase';
+import { mapVehicle, mapUser } from './mapper';
+import { Vehicle, User } from '@shared/schema';
+
+export interface VehicleInput {
+    vehicleType: Vehicle['vehicleType'];
+    make: string;
+    model: string;
+    year?: number | null;
+    color?: string | null;
+    plate: string;
+    seatCount: number;
+    photos?: string[];
+}
+
+export type PendingVehicle = Vehicle & { owner: User | null };
+
+function toRow(input: VehicleInput) {
+    return {
+        vehicle_type: input.vehicleType,
+        make: input.make.trim(),
+        model: input.model.trim(),
+        year: input.year || null,
+        color: input.color?.trim() || null,
+        plate: input.plate.trim().toUpperCase(),
+        seat_count: input.seatCount,
+        ...(input.photos && { photos: input.photos }),
+    };
+}
+
+/**
+ * Short description of a vehicle for pickers and lists
+ */
+export function vehicleLabel(vehicle: Pick<Vehicle, 'make' | 'model' | 'plate'>): string {
+    return `${vehicle.make} ${vehicle.model} · ${vehicle.plate}`;
+}
+
+/**
+ * A driver's vehicles, oldest first; archived ones are left out
+ */
+export async function getDriverVehicles(driverId: string): Promise<Vehicle[]> {
+    const { data, error } = await supabase
+        .from('vehicles')
+        .select('*')
+        .eq('driver_id', driverId)
+        .eq('is_archived', false)
+        .order('created_at');
+
+    if (error) {
+        console.error('Failed to fetch vehicles:', error);
+        return [];
+    }
+
+    return (data || []).map(mapVehicle);
+}
+
+/**
+ * The vehicle a driver is currently driving, or null if they have none
+ */
+export async function getActiveVehicle(driverId: string): Promise<Vehicle | null> {
+    const { data: driver, error: driverError } = await supabase
+        .from('drivers')
+        .select('active_vehicle_id')
+        .eq('id', driverId)
+        .single();
+
+    if (driverError) throw driverError;
+    if (!driver.active_vehicle_id) return null;
+
+    const { data, error } = await supabase
+        .from('vehicles')
+        .select('*')
+        .eq('id', driver.active_vehicle_id)
+        .single();
+
+    if (error) throw error;
+    return mapVehicle(data);
+}
+
+/**
+ * Register a vehicle; it can be used once an admin verifies it
+ */
+export async function addVehicle(driverId: string, input: VehicleInput): Promise<Vehicle> {
+    const { data, error } = await supabase
+        .from('vehicles')
+        .insert({ driver_id: driverId, ...toRow(input) })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return mapVehicle(data);
+}
+
+/**
+ * Edit a vehicle. Changing a verified vehicle's details sends it back for review.
+ */
+export async function updateVehicle(vehicleId: string, input: VehicleInput): Promise<Vehicle> {
+    const { data, error } = await supabase
+        .from('vehicles')
+        .update(toRow(input))
+        .eq('id', vehicleId)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return mapVehicle(data);
+}
+
+/**
+ * Remove a vehicle the driver no longer uses. Trips it ran stay linked to it.
+ */
+export async function archiveVehicle(vehicleId: string): Promise<void> {
+    const { error } = await supabase
+        .from('vehicles')
+        .update({ is_archived: true })
+        .eq('id', vehicleId);
+
+    if (error) throw error;
+}
+
+/**
+ * Switch the vehicle used for matching and new trips; it must be verified
+ */
+export async function setActiveVehicle(driverId: string, vehicleId: string): Promise<void> {
+    const { error } = await supabase
+        .from('drivers')
+        .update({ active_vehicle_id: vehicleId })
+        .eq('id', driverId);
+
+    if (error) throw error;
+}
+
+/**
+ * Vehicles waiting for review, oldest first, with their owner
+ */
+export async function getPendingVehicles(): Promise<PendingVehicle[]> {
+    const { data, error } = await supabase
+        .from('vehicles')
+        .select('*, driver:drivers(user:users(*))')
+        .eq('verification_status', 'pending')
+        .eq('is_archived', false)
+        .order('created_at');
+
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+        ...mapVehicle(row),
+        owner: row.driver?.user ? mapUser(row.driver.user) : null,
+    }));
+}
+
+/**
+ * Approve or reject a vehicle (admins with drivers.verify)
+ */
+export async function reviewVehicle(vehicleId: string, approve: boolean, reason?: string): Promise<void> {
+    const { data, error } = await supabase.rpc('review_vehicle', {
+        p_vehicle_id: vehicleId,
+        p_approve: approve,
+        p_reason: reason || null,
+    });
+
+    if (error) throw error;
+    if (!data.success) throw new Error(data.error);
+}
@@ -16,9 +16,10 @@ export interface WalletTransaction {
     amount: number;
     description: string;
     reference_id?: string;
-    reference_type?: 'booking' | 'refund' | 'topup' | 'tip' | 'payout';
+    reference_type?: 'booking' | 'refund' | 'topup' | 'tip' | 'payout' | 'opening_balance';
     status: 'pending' | 'completed' | 'failed';
     razorpay_payment_id?: string;
+    ledger_transaction_id?: string;
     created_at: string;
 }
 
@@ -58,7 +59,6 @@ async function createWallet(): Promise<Wallet> {
         .from('wallets')
         .insert({
             user_id: user.id,
-            balance: 0,
             currency: 'INR',
         })
         .select()
@@ -94,52 +94,42 @@ export async function getWalletTransactions(
 }
 
 /**
- * Add money to wallet via Razorpay
+ * Pay for a booking from the wallet. The debit and the driver / platform / GST
+ * split are posted to the ledger together; wallets.balance follows the ledger.
  */
-export async function addMoneyToWallet(
+export async function deductFromWallet(
     amount: number,
-    paymentId: string
-): Promise<{ success: boolean; transaction_id?: string; message: string }> {
-    const { data, error } = await supabase.rpc('add_money_to_wallet', {
+    bookingId: string
+): Promise<boolean> {
+    const { data, error } = await supabase.rpc('wallet_pay_booking', {
+        p_booking_id: bookingId,
         p_amount: amount,
-        p_payment_id: paymentId,
     });
 
     if (error) {
-        console.error('Failed to add money:', error);
-        return { success: false, message: error.message };
+        console.error('Failed to deduct from wallet:', error);
+        return false;
     }
 
-    return data;
+    return !!data?.success;
 }
 
 /**
- * Deduct money from wallet for booking
+ * Refund a booking to the passenger's wallet (admin only)
  */
-export async function deductFromWallet(
+export async function refundToWallet(
     amount: number,
     bookingId: string,
-    description: string = 'Ride payment'
+    description: string = 'Ride refund'
 ): Promise<boolean> {
-    const wallet = await getWallet();
-    if (!wallet) return false;
-
-    if (wallet.balance < amount) {
-        return false; // Insufficient balance
-    }
-
-    const { error } = await supabase.from('wallet_transactions').insert({
-        wallet_id: wallet.id,
-        type: 'debit',
-        amount,
-        description,
-        reference_id: bookingId,
-        reference_type: 'booking',
-        status: 'completed',
+    const { error } = await supabase.rpc('wallet_refund_booking', {
+        p_booking_id: bookingId,
+        p_amount: amount,
+        p_description: description,
     });
 
     if (error) {
-        console.error('Failed to deduct from wallet:', error);
+        console.error('Failed to refund to wallet:', error);
         return false;
     }
 
@@ -147,32 +137,23 @@ export async function deductFromWallet(
 }
 
 /**
- * Refund to wallet
+ * Tip the driver of a booking from the wallet
  */
-export async function refundToWallet(
+export async function tipDriverFromWallet(
     amount: number,
-    bookingId: string,
-    description: string = 'Ride refund'
-): Promise<boolean> {
-    const wallet = await getWallet();
-    if (!wallet) return false;
-
-    const { error } = await supabase.from('wallet_transactions').insert({
-        wallet_id: wallet.id,
-        type: 'credit',
-        amount,
-        description,
-        reference_id: bookingId,
-        reference_type: 'refund',
-        status: 'completed',
+    bookingId: string
+): Promise<{ success: boolean; message?: string }> {
+    const { data, error } = await supabase.rpc('wallet_tip_driver', {
+        p_booking_id: bookingId,
+        p_amount: amount,
     });
 
     if (error) {
-        console.error('Failed to refund to wallet:', error);
-        return false;
+        console.error('Failed to tip from wallet:', error);
+        return { success: false, message: error.message };
     }
 
-    return true;
+    return data;
 }
 
 /**
@@ -208,10 +189,8 @@ export function subscribeToWalletUpdates(callback: (wallet: Wallet) => void) {
 }
 
 /**
- * Create Razorpay order for wallet topup
- */
-/**
- * Create Razorpay order for wallet topup via Edge Function
+ * Create a Razorpay order for a wallet top-up. The edge function records the
+ * pending top-up that verify-wallet-payment credits through the ledger.
  */
 export async function createWalletTopupOrder(amount: number): Promise<{
     orderId: string;
@@ -219,14 +198,8 @@ export async function createWalletTopupOrder(amount: number): Promise<{
     currency: string;
     key: string;
 }> {
-    const { data, error } = await supabase.functions.invoke('create-payment-order', {
-        body: {
-            amount: amount, // Function expects amount in rupees
-            currency: 'INR',
-            notes: {
-                purpose: 'wallet_topup',
-            }
-        }
+    const { data, error } = await supabase.functions.invoke('add-money-to-wallet', {
+        body: { amount }, // Function expects amount in rupees
     });
 
     if (error) {
@@ -235,7 +208,7 @@ export async function createWalletTopupOrder(amount: number): Promise<{
     }
 
     return {
-        orderId: data.orderId,
+        orderId: data.razorpayOrderId,
         amount: data.amount,
         currency: data.currency,
         key: import.meta.env.VITE_RAZORPAY_KEY_ID,
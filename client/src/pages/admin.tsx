@@ -15,17 +15,39 @@ import {
   Shield
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
+import { hasAdminPermission, AdminPermission, ADMIN_ROLE_LABELS, AdminRole } from '@shared/admin-permissions';
 
 // Helper Components
 import { UsersTab } from './admin/components/UsersTab';
+import { OrganizationsTab } from './admin/components/OrganizationsTab';
 import { PromoCodesTab } from './admin/components/PromoCodesTab';
 import { DriversTab } from './admin/components/DriversTab';
 import { TripsTab } from './admin/components/TripsTab';
 import { BookingsTab } from './admin/components/BookingsTab';
 import { PaymentsTab } from './admin/components/PaymentsTab';
+import { CorporateTab } from './admin/components/CorporateTab';
+import { SurgeZonesTab } from './admin/components/SurgeZonesTab';
 import { AlertsTab } from './admin/components/AlertsTab';
 import { SupportTab } from './admin/components/SupportTab';
 import { SettingsTab } from './admin/components/SettingsTab';
+import { AuditLogTab } from './admin/components/AuditLogTab';
+
+// Tabs in display order, with the permissions that unlock each one
+const TAB_PERMISSIONS: [string, AdminPermission[]][] = [
+  ['verifications', ['drivers.verify']],
+  ['users', ['users.edit', 'users.ban', 'users.roles']],
+  ['organizations', ['users.edit']],
+  ['trips', ['trips.cancel']],
+  ['bookings', ['bookings.manage']],
+  ['payments', ['payments.manage']],
+  ['corporate', ['payments.manage']],
+  ['surge', ['pricing.manage']],
+  ['promocodes', ['promos.manage']],
+  ['alerts', ['support.manage']],
+  ['support', ['support.manage']],
+  ['settings', ['settings.manage']],
+  ['audit', ['audit.view']],
+];
 
 export default function AdminDashboard() {
   const [, navigate] = useLocation();
@@ -92,6 +114,11 @@ export default function AdminDashboard() {
     }
   });
 
+  const visibleTabs = TAB_PERMISSIONS
+    .filter(([, permissions]) => permissions.some(permission => hasAdminPermission(user, permission)))
+    .map(([tab]) => tab);
+  const canSee = (tab: string) => visibleTabs.includes(tab);
+
   return (
     <div className="min-h-screen bg-background">
       <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur">
@@ -103,7 +130,7 @@ export default function AdminDashboard() {
           <div className="flex items-center gap-4">
             <Badge variant="outline" className="gap-1 hidden md:flex">
               <Shield className="w-3 h-3" />
-              Admin Access
+              {ADMIN_ROLE_LABELS[user.adminRole as AdminRole] || 'Admin'} Access
             </Badge>
             <Button
               variant="destructive"
@@ -187,68 +214,133 @@ export default function AdminDashboard() {
           </Card>
         </div>
 
-        <Tabs defaultValue="verifications" className="space-y-6">
+        <Tabs defaultValue={visibleTabs[0]} className="space-y-6">
           <TabsList className="flex flex-wrap h-auto gap-2 bg-transparent justify-start p-0">
             {/* Styling TabsList to support many tabs wrapping */}
-            <TabsTrigger value="verifications" data-testid="tab-verifications">
-              Drivers
-            </TabsTrigger>
-            <TabsTrigger value="users" data-testid="tab-users">
-              Users
-            </TabsTrigger>
-            <TabsTrigger value="trips" data-testid="tab-trips">Trips</TabsTrigger>
-            <TabsTrigger value="bookings" data-testid="tab-bookings">Bookings</TabsTrigger>
-            <TabsTrigger value="payments" data-testid="tab-payments">Payments</TabsTrigger>
-            <TabsTrigger value="promocodes" data-testid="tab-promocodes">
-              Promo Codes
-            </TabsTrigger>
-            <TabsTrigger value="alerts" data-testid="tab-alerts" className="text-destructive data-[state=active]:text-destructive">
-              SOS Alerts
-            </TabsTrigger>
-            <TabsTrigger value="support" data-testid="tab-support">
-              Support
-            </TabsTrigger>
-            <TabsTrigger value="settings" data-testid="tab-settings">
-              Settings
-            </TabsTrigger>
+            {canSee('verifications') && (
+              <TabsTrigger value="verifications" data-testid="tab-verifications">
+                Drivers
+              </TabsTrigger>
+            )}
+            {canSee('users') && (
+              <TabsTrigger value="users" data-testid="tab-users">
+                Users
+              </TabsTrigger>
+            )}
+            {canSee('organizations') && (
+              <TabsTrigger value="organizations" data-testid="tab-organizations">
+                Organizations
+              </TabsTrigger>
+            )}
+            {canSee('trips') && <TabsTrigger value="trips" data-testid="tab-trips">Trips</TabsTrigger>}
+            {canSee('bookings') && <TabsTrigger value="bookings" data-testid="tab-bookings">Bookings</TabsTrigger>}
+            {canSee('payments') && <TabsTrigger value="payments" data-testid="tab-payments">Payments</TabsTrigger>}
+            {canSee('corporate') && <TabsTrigger value="corporate" data-testid="tab-corporate">Corporate</TabsTrigger>}
+            {canSee('surge') && <TabsTrigger value="surge" data-testid="tab-surge">Surge Zones</TabsTrigger>}
+            {canSee('promocodes') && (
+              <TabsTrigger value="promocodes" data-testid="tab-promocodes">
+                Promo Codes
+              </TabsTrigger>
+            )}
+            {canSee('alerts') && (
+              <TabsTrigger value="alerts" data-testid="tab-alerts" className="text-destructive data-[state=active]:text-destructive">
+                SOS Alerts
+              </TabsTrigger>
+            )}
+            {canSee('support') && (
+              <TabsTrigger value="support" data-testid="tab-support">
+                Support
+              </TabsTrigger>
+            )}
+            {canSee('settings') && (
+              <TabsTrigger value="settings" data-testid="tab-settings">
+                Settings
+              </TabsTrigger>
+            )}
+            {canSee('audit') && (
+              <TabsTrigger value="audit" data-testid="tab-audit">
+                Audit Log
+              </TabsTrigger>
+            )}
           </TabsList>
 
-          <TabsContent value="verifications">
-            <DriversTab />
-          </TabsContent>
+          {canSee('verifications') && (
+            <TabsContent value="verifications">
+              <DriversTab />
+            </TabsContent>
+          )}
+
+          {canSee('users') && (
+            <TabsContent value="users">
+              <UsersTab />
+            </TabsContent>
+          )}
+
+          {canSee('organizations') && (
+            <TabsContent value="organizations">
+              <OrganizationsTab />
+            </TabsContent>
+          )}
+
+          {canSee('trips') && (
+            <TabsContent value="trips">
+              <TripsTab />
+            </TabsContent>
+          )}
 
-          <TabsContent value="users">
-            <UsersTab />
-          </TabsContent>
+          {canSee('bookings') && (
+            <TabsContent value="bookings">
+              <BookingsTab />
+            </TabsContent>
+          )}
 
-          <TabsContent value="trips">
-            <TripsTab />
-          </TabsContent>
+          {canSee('payments') && (
+            <TabsContent value="payments">
+              <PaymentsTab />
+            </TabsContent>
+          )}
 
-          <TabsContent value="bookings">
-            <BookingsTab />
-          </TabsContent>
+          {canSee('corporate') && (
+            <TabsContent value="corporate">
+              <CorporateTab />
+            </TabsContent>
+          )}
 
-          <TabsContent value="payments">
-            <PaymentsTab />
-          </TabsContent>
+          {canSee('surge') && (
+            <TabsContent value="surge">
+              <SurgeZonesTab />
+            </TabsContent>
+          )}
 
-          <TabsContent value="promocodes">
-            <PromoCodesTab />
-          </TabsContent>
+          {canSee('promocodes') && (
+            <TabsContent value="promocodes">
+              <PromoCodesTab />
+            </TabsContent>
+          )}
 
-          <TabsContent value="alerts">
-            <AlertsTab />
-          </TabsContent>
+          {canSee('alerts') && (
+            <TabsContent value="alerts">
+              <AlertsTab />
+            </TabsContent>
+          )}
 
-          <TabsContent value="support">
-            <SupportTab />
-          </TabsContent>
+          {canSee('support') && (
+            <TabsContent value="support">
+              <SupportTab />
+            </TabsContent>
+          )}
 
-          <TabsContent value="settings">
-            <SettingsTab />
-          </TabsContent>
+          {canSee('settings') && (
+            <TabsContent value="settings">
+              <SettingsTab />
+            </TabsContent>
+          )}
 
+          {canSee('audit') && (
+            <TabsContent value="audit">
+              <AuditLogTab />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div >
@@ -25,7 +25,7 @@ export function AlertsTab() {
         queryFn: async (): Promise<EmergencyAlert[]> => {
             const { data, error } = await supabase
                 .from('emergency_alerts')
-                .select('*, user:users(*)')
+                .select('*, user:users(*, user_phone_numbers(phone))')
                 .order('created_at', { ascending: false });
 
             if (error) throw error;
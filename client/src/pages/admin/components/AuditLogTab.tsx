@@ -0,0 +1,189 @@
+import { Fragment, useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { AdminAuditEntry } from '@shared/schema';
+import { ADMIN_ROLE_LABELS, AdminRole } from '@shared/admin-permissions';
+import { searchAuditLog, changedFields } from '@/lib/admin-audit-service';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Search, ScrollText, ChevronDown, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+
+const PAGE_SIZE = 50;
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined) return '—';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function AuditLogTab() {
+    const [searchTerm, setSearchTerm] = useState('');
+    const [query, setQuery] = useState('');
+    const [entityType, setEntityType] = useState('all');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+        queryKey: ['admin-audit-log', query, entityType],
+        queryFn: ({ pageParam }) => searchAuditLog({
+            query,
+            entityType: entityType === 'all' ? undefined : entityType,
+            before: pageParam,
+            limit: PAGE_SIZE,
+        }),
+        initialPageParam: undefined as string | undefined,
+        getNextPageParam: (lastPage) =>
+            lastPage.length === PAGE_SIZE ? lastPage[lastPage.length - 1].createdAt : undefined,
+    });
+
+    const entries = data?.pages.flat() || [];
+
+    const renderChanges = (entry: AdminAuditEntry) => {
+        if (!entry.after) {
+            return <p className="text-sm text-muted-foreground">Record deleted. Last snapshot: {formatValue(entry.before)}</p>;
+        }
+        const fields = changedFields(entry);
+        if (fields.length === 0) {
+            return <p className="text-sm text-muted-foreground">No field changes recorded</p>;
+        }
+        return (
+            <div className="space-y-1 text-sm">
+                {fields.map(field => (
+                    <div key={field} className="grid grid-cols-[10rem_1fr] gap-2">
+                        <span className="font-mono text-xs text-muted-foreground">{field}</span>
+                        <span className="break-all">
+                            <span className="line-through text-destructive/80">{formatValue(entry.before?.[field])}</span>
+                            {' → '}
+                            <span className="text-success">{formatValue(entry.after?.[field])}</span>
+                        </span>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <Card>
+            <div className="p-6 border-b flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <ScrollText className="w-5 h-5 text-primary" />
+                    Audit Log
+                </h2>
+                <form
+                    className="flex items-center gap-2"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        setQuery(searchTerm.trim());
+                    }}
+                >
+                    <Select value={entityType} onValueChange={setEntityType}>
+                        <SelectTrigger className="w-36">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">All records</SelectItem>
+                            <SelectItem value="user">Users</SelectItem>
+                            <SelectItem value="driver">Drivers</SelectItem>
+                            <SelectItem value="vehicle">Vehicles</SelectItem>
+                            <SelectItem value="trip">Trips</SelectItem>
+                            <SelectItem value="booking">Bookings</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <div className="relative w-64">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                        <Input
+                            placeholder="Admin, action, ID or value..."
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            className="pl-9"
+                            data-testid="input-audit-search"
+                        />
+                    </div>
+                    <Button type="submit" variant="outline">Search</Button>
+                </form>
+            </div>
+            <div className="p-6">
+                {isLoading ? (
+                    <div className="text-center py-8 text-muted-foreground">Loading audit log...</div>
+                ) : entries.length === 0 ? (
+                    <div className="text-center py-12">
+                        <ScrollText className="w-16 h-16 text-muted-foreground/50 mx-auto mb-4" />
+                        <p className="text-muted-foreground">No admin actions found</p>
+                    </div>
+                ) : (
+                    <>
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-8" />
+                                    <TableHead>Time</TableHead>
+                                    <TableHead>Admin</TableHead>
+                                    <TableHead>Action</TableHead>
+                                    <TableHead>Record</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {entries.map(entry => (
+                                    <Fragment key={entry.id}>
+                                        <TableRow
+                                            className="cursor-pointer"
+                                            onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                                        >
+                                            <TableCell>
+                                                {expandedId === entry.id
+                                                    ? <ChevronDown className="w-4 h-4" />
+                                                    : <ChevronRight className="w-4 h-4" />}
+                                            </TableCell>
+                                            <TableCell className="whitespace-nowrap">{format(new Date(entry.createdAt), 'MMM dd, yyyy HH:mm:ss')}</TableCell>
+                                            <TableCell>
+                                                <div className="font-medium">{entry.actorName || 'Deleted user'}</div>
+                                                <div className="text-xs text-muted-foreground">
+                                                    {entry.actorEmail}
+                                                    {entry.actorAdminRole && ` · ${ADMIN_ROLE_LABELS[entry.actorAdminRole as AdminRole] || entry.actorAdminRole}`}
+                                                </div>
+                                            </TableCell>
+                                            <TableCell>
+                                                <Badge variant="outline" className="font-mono">{entry.action}</Badge>
+                                            </TableCell>
+                                            <TableCell className="font-mono text-xs">
+                                                {entry.entityType} {entry.entityId.slice(0, 8)}...
+                                            </TableCell>
+                                        </TableRow>
+                                        {expandedId === entry.id && (
+                                            <TableRow className="bg-muted/30 hover:bg-muted/30">
+                                                <TableCell />
+                                                <TableCell colSpan={4}>{renderChanges(entry)}</TableCell>
+                                            </TableRow>
+                                        )}
+                                    </Fragment>
+                                ))}
+                            </TableBody>
+                        </Table>
+                        {hasNextPage && (
+                            <div className="text-center mt-4">
+                                <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                                    {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                                </Button>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </Card>
+    );
+}
@@ -0,0 +1,393 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { CorporateAccount, CorporateInvoice, Organization } from '@shared/schema';
+import {
+    getCorporateAccounts,
+    createCorporateAccount,
+    setCorporateAccountActive,
+    getCorporateInvoices,
+    generateCorporateInvoices,
+    recordCorporateInvoicePayment,
+    downloadCorporateInvoiceCsv,
+} from '@/lib/corporate-billing-service';
+import { getOrganizations } from '@/lib/organization-service';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card } from '@/components/ui/card';
+import { Briefcase, Plus, Receipt, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format, startOfMonth, subMonths } from 'date-fns';
+
+const EMPTY_ACCOUNT = {
+    organizationId: '',
+    billingName: '',
+    billingEmail: '',
+    gstin: '',
+    billingStateCode: '',
+    billingAddress: '',
+    paymentTermsDays: '15',
+};
+
+const formatCurrency = (value: number | string) =>
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(Number(value));
+
+export function CorporateTab() {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [isCreateOpen, setIsCreateOpen] = useState(false);
+    const [newAccount, setNewAccount] = useState(EMPTY_ACCOUNT);
+    const [payingInvoice, setPayingInvoice] = useState<CorporateInvoice | null>(null);
+    const [paymentReference, setPaymentReference] = useState('');
+
+    const { data: accounts = [], isLoading } = useQuery<CorporateAccount[]>({
+        queryKey: ['admin-corporate-accounts'],
+        queryFn: getCorporateAccounts,
+    });
+
+    const { data: organizations = [] } = useQuery<Organization[]>({
+        queryKey: ['admin-organizations'],
+        queryFn: getOrganizations,
+    });
+
+    const { data: invoices = [] } = useQuery<CorporateInvoice[]>({
+        queryKey: ['admin-corporate-invoices'],
+        queryFn: () => getCorporateInvoices(),
+    });
+
+    const unbilledOrganizations = organizations.filter(org => !accounts.some(a => a.organizationId === org.id));
+    const outstanding = invoices
+        .filter(invoice => invoice.status === 'issued')
+        .reduce((sum, invoice) => sum + parseFloat(invoice.totalAmount), 0);
+
+    const onError = (error: any) => {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    };
+
+    const createMutation = useMutation({
+        mutationFn: () => createCorporateAccount({
+            ...newAccount,
+            paymentTermsDays: parseInt(newAccount.paymentTermsDays) || 15,
+            createdBy: user!.id,
+        }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-corporate-accounts'] });
+            setIsCreateOpen(false);
+            setNewAccount(EMPTY_ACCOUNT);
+            toast({ title: 'Billing account created', description: 'Employees can now bill rides to their company.' });
+        },
+        onError,
+    });
+
+    const activeMutation = useMutation({
+        mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => setCorporateAccountActive(id, isActive),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-corporate-accounts'] });
+        },
+        onError,
+    });
+
+    const generateMutation = useMutation({
+        mutationFn: () => generateCorporateInvoices(startOfMonth(subMonths(new Date(), 1))),
+        onSuccess: ({ invoices: count }) => {
+            queryClient.invalidateQueries({ queryKey: ['admin-corporate-invoices'] });
+            toast({
+                title: count ? `${count} invoice${count === 1 ? '' : 's'} issued` : 'Nothing to invoice',
+                description: `Rides up to the end of ${format(subMonths(new Date(), 1), 'MMMM')}`,
+            });
+        },
+        onError,
+    });
+
+    const paymentMutation = useMutation({
+        mutationFn: () => recordCorporateInvoicePayment(payingInvoice!.id, paymentReference.trim()),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-corporate-invoices'] });
+            setPayingInvoice(null);
+            setPaymentReference('');
+            toast({ title: 'Payment recorded' });
+        },
+        onError,
+    });
+
+    const updateField = (field: keyof typeof EMPTY_ACCOUNT) => (e: React.ChangeEvent<HTMLInputElement>) =>
+        setNewAccount(prev => ({ ...prev, [field]: e.target.value }));
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <div className="p-6 border-b flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-semibold flex items-center gap-2">
+                            <Briefcase className="w-5 h-5 text-primary" />
+                            Corporate Accounts
+                        </h2>
+                        <p className="text-sm text-muted-foreground mt-1">
+                            Organizations whose employees' rides are invoiced monthly
+                        </p>
+                    </div>
+                    <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+                        <DialogTrigger asChild>
+                            <Button className="gap-2" disabled={unbilledOrganizations.length === 0}>
+                                <Plus className="w-4 h-4" />
+                                Add Account
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent className="sm:max-w-[480px]">
+                            <DialogHeader>
+                                <DialogTitle>Add Corporate Account</DialogTitle>
+                            </DialogHeader>
+                            <div className="space-y-4">
+                                <div className="space-y-2">
+                                    <Label>Organization</Label>
+                                    <Select
+                                        value={newAccount.organizationId}
+                                        onValueChange={(organizationId) => {
+                                            const org = organizations.find(o => o.id === organizationId);
+                                            setNewAccount(prev => ({
+                                                ...prev,
+                                                organizationId,
+                                                billingName: prev.billingName || org?.name || '',
+                                            }));
+                                        }}
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue placeholder="Choose an organization" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {unbilledOrganizations.map(org => (
+                                                <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="corp-billing-name">Legal Name</Label>
+                                    <Input id="corp-billing-name" value={newAccount.billingName} onChange={updateField('billingName')} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="corp-billing-email">Accounts Payable Email</Label>
+                                    <Input
+                                        id="corp-billing-email"
+                                        type="email"
+                                        value={newAccount.billingEmail}
+                                        onChange={updateField('billingEmail')}
+                                    />
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="corp-gstin">GSTIN</Label>
+                                        <Input
+                                            id="corp-gstin"
+                                            placeholder="Optional"
+                                            value={newAccount.gstin}
+                                            onChange={updateField('gstin')}
+                                        />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="corp-state">State Code</Label>
+                                        <Input
+                                            id="corp-state"
+                                            placeholder="e.g. 29"
+                                            value={newAccount.billingStateCode}
+                                            onChange={updateField('billingStateCode')}
+                                        />
+                                    </div>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="corp-address">Billing Address</Label>
+                                    <Input id="corp-address" value={newAccount.billingAddress} onChange={updateField('billingAddress')} />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="corp-terms">Payment Terms (days)</Label>
+                                    <Input
+                                        id="corp-terms"
+                                        type="number"
+                                        min={0}
+                                        value={newAccount.paymentTermsDays}
+                                        onChange={updateField('paymentTermsDays')}
+                                    />
+                                </div>
+                            </div>
+                            <DialogFooter>
+                                <Button
+                                    onClick={() => createMutation.mutate()}
+                                    disabled={
+                                        createMutation.isPending ||
+                                        !newAccount.organizationId ||
+                                        !newAccount.billingName.trim() ||
+                                        !newAccount.billingEmail.trim()
+                                    }
+                                >
+                                    {createMutation.isPending ? 'Creating...' : 'Create'}
+                                </Button>
+                            </DialogFooter>
+                        </DialogContent>
+                    </Dialog>
+                </div>
+                <div className="p-6">
+                    {isLoading ? (
+                        <div className="text-center py-12 text-muted-foreground">Loading accounts...</div>
+                    ) : accounts.length === 0 ? (
+                        <div className="text-center py-12">
+                            <Briefcase className="w-16 h-16 text-muted-foreground/50 mx-auto mb-4" />
+                            <p className="text-muted-foreground">No corporate accounts yet</p>
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Account</TableHead>
+                                    <TableHead>Organization</TableHead>
+                                    <TableHead>GSTIN</TableHead>
+                                    <TableHead>Terms</TableHead>
+                                    <TableHead>Active</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {accounts.map(account => (
+                                    <TableRow key={account.id}>
+                                        <TableCell>
+                                            <div className="font-medium">{account.billingName}</div>
+                                            <div className="text-xs text-muted-foreground">{account.billingEmail}</div>
+                                        </TableCell>
+                                        <TableCell>{account.organization?.name}</TableCell>
+                                        <TableCell className="font-mono text-xs">{account.gstin || '—'}</TableCell>
+                                        <TableCell>{account.paymentTermsDays} days</TableCell>
+                                        <TableCell>
+                                            <Switch
+                                                checked={account.isActive}
+                                                onCheckedChange={(checked) => activeMutation.mutate({ id: account.id, isActive: checked })}
+                                                disabled={activeMutation.isPending}
+                                            />
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </div>
+            </Card>
+
+            <Card>
+                <div className="p-6 border-b flex items-center justify-between">
+                    <div>
+                        <h2 className="text-lg font-semibold flex items-center gap-2">
+                            <Receipt className="w-5 h-5 text-primary" />
+                            Corporate Invoices
+                        </h2>
+                        <p className="text-sm text-muted-foreground mt-1">
+                            {formatCurrency(outstanding)} outstanding · issued automatically on the 1st
+                        </p>
+                    </div>
+                    <Button
+                        variant="outline"
+                        onClick={() => generateMutation.mutate()}
+                        disabled={generateMutation.isPending}
+                    >
+                        {generateMutation.isPending ? 'Generating...' : 'Invoice Last Month'}
+                    </Button>
+                </div>
+                <div className="p-6">
+                    {invoices.length === 0 ? (
+                        <div className="text-center py-12 text-muted-foreground">No invoices yet</div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Invoice</TableHead>
+                                    <TableHead>Account</TableHead>
+                                    <TableHead>Period</TableHead>
+                                    <TableHead className="text-right">Total</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {invoices.map(invoice => (
+                                    <TableRow key={invoice.id}>
+                                        <TableCell className="font-mono text-xs">{invoice.invoiceNumber}</TableCell>
+                                        <TableCell>{invoice.corporateAccount?.billingName}</TableCell>
+                                        <TableCell>{format(new Date(invoice.periodStart), 'MMM yyyy')}</TableCell>
+                                        <TableCell className="text-right">{formatCurrency(invoice.totalAmount)}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={invoice.status === 'paid' ? 'default' : 'secondary'} className="capitalize">
+                                                {invoice.status}
+                                            </Badge>
+                                            {invoice.paymentReference && (
+                                                <div className="text-[10px] text-muted-foreground mt-1">{invoice.paymentReference}</div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-right space-x-1">
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                onClick={() => downloadCorporateInvoiceCsv(invoice).catch(onError)}
+                                            >
+                                                <Download className="w-3 h-3" />
+                                            </Button>
+                                            {invoice.status === 'issued' && (
+                                                <Button size="sm" variant="outline" onClick={() => setPayingInvoice(invoice)}>
+                                                    Record Payment
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </div>
+            </Card>
+
+            <Dialog open={!!payingInvoice} onOpenChange={(open) => !open && setPayingInvoice(null)}>
+                <DialogContent className="sm:max-w-[425px]">
+                    <DialogHeader>
+                        <DialogTitle>Record Payment · {payingInvoice?.invoiceNumber}</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                        <p className="text-sm text-muted-foreground">
+                            {payingInvoice && formatCurrency(payingInvoice.totalAmount)} from {payingInvoice?.corporateAccount?.billingName}
+                        </p>
+                        <Label htmlFor="payment-reference">Bank Reference</Label>
+                        <Input
+                            id="payment-reference"
+                            placeholder="UTR or cheque number"
+                            value={paymentReference}
+                            onChange={(e) => setPaymentReference(e.target.value)}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button
+                            onClick={() => paymentMutation.mutate()}
+                            disabled={paymentMutation.isPending || !paymentReference.trim()}
+                        >
+                            {paymentMutation.isPending ? 'Saving...' : 'Mark Paid'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -17,6 +17,8 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Check, X, Car, ShieldCheck } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ReverificationQueue } from './ReverificationQueue';
+import { VehicleReviewQueue } from './VehicleReviewQueue';
 
 export function DriversTab() {
     const queryClient = useQueryClient();
@@ -27,7 +29,8 @@ export function DriversTab() {
             const { data, error } = await supabase
                 .from('drivers')
                 .select('*, user:users(*)')
-                .eq('verification_status', 'pending');
+                .eq('verification_status', 'pending')
+                .is('approved_at', null); // Returning drivers are in the re-verification queue
 
             if (error) throw error;
             return (data || []).map((d: any) => ({
@@ -65,6 +68,8 @@ export function DriversTab() {
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['admin-drivers-pending'] });
             queryClient.invalidateQueries({ queryKey: ['admin-drivers-all'] });
+            queryClient.invalidateQueries({ queryKey: ['admin-reverification-queue'] });
+            queryClient.invalidateQueries({ queryKey: ['admin-pending-vehicles'] });
             queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
         }
     });
@@ -79,6 +84,8 @@ export function DriversTab() {
                     </h2>
                     <TabsList>
                         <TabsTrigger value="pending">Pending Verifications</TabsTrigger>
+                        <TabsTrigger value="reverification">Re-verification</TabsTrigger>
+                        <TabsTrigger value="vehicles">Vehicles</TabsTrigger>
                         <TabsTrigger value="all">All Drivers</TabsTrigger>
                     </TabsList>
                 </div>
@@ -151,6 +158,14 @@ export function DriversTab() {
                     )}
                 </TabsContent>
 
+                <TabsContent value="reverification">
+                    <ReverificationQueue />
+                </TabsContent>
+
+                <TabsContent value="vehicles">
+                    <VehicleReviewQueue />
+                </TabsContent>
+
                 <TabsContent value="all">
                     {allDrivers && allDrivers.length > 0 ? (
                         <Table>
@@ -178,7 +193,7 @@ export function DriversTab() {
                                                 </div>
                                             </div>
                                         </TableCell>
-                                        <TableCell>{driver.rating} ★</TableCell>
+                                        <TableCell>{driver.rating ? `${driver.rating} ★` : 'New'}</TableCell>
                                         <TableCell>{driver.totalTrips}</TableCell>
                                         <TableCell>
                                             <Badge variant={driver.verificationStatus === 'verified' ? 'default' : 'secondary'}>
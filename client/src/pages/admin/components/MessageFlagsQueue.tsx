@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getMessageFlags, resolveMessageFlag } from '@/lib/contact-service';
+import { MessageFlag, MessageFlagReason } from '@shared/schema';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, X, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+const REASON_LABELS: Record<MessageFlagReason, string> = {
+    phone_number: 'Phone number',
+    upi_id: 'UPI ID',
+};
+
+export function MessageFlagsQueue() {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+
+    const { data: flags = [], isLoading } = useQuery<MessageFlag[]>({
+        queryKey: ['admin-message-flags'],
+        queryFn: () => getMessageFlags(),
+    });
+
+    const resolveMutation = useMutation({
+        mutationFn: ({ flagId, status }: { flagId: string; status: 'dismissed' | 'actioned' }) =>
+            resolveMessageFlag(flagId, status),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-message-flags'] });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Update failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    if (isLoading) {
+        return <div className="text-center py-12 text-muted-foreground">Loading flagged messages...</div>;
+    }
+
+    if (flags.length === 0) {
+        return (
+            <div className="text-center py-12">
+                <ShieldCheck className="w-16 h-16 text-muted-foreground/50 mx-auto mb-4" />
+                <p className="text-muted-foreground">No flagged chat messages</p>
+            </div>
+        );
+    }
+
+    return (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Sender</TableHead>
+                    <TableHead>Message</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {flags.map(flag => (
+                    <TableRow key={flag.id}>
+                        <TableCell>{format(new Date(flag.createdAt), 'MMM dd, HH:mm')}</TableCell>
+                        <TableCell>
+                            <div className="font-medium">{flag.sender?.fullName || 'Unknown'}</div>
+                            <div className="text-xs text-muted-foreground">{flag.sender?.email}</div>
+                        </TableCell>
+                        <TableCell className="max-w-md truncate" title={flag.excerpt}>
+                            {flag.excerpt}
+                        </TableCell>
+                        <TableCell>
+                            <Badge variant="outline">{REASON_LABELS[flag.reason]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                            <div className="flex justify-end items-center gap-2">
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="gap-1"
+                                    onClick={() => resolveMutation.mutate({ flagId: flag.id, status: 'dismissed' })}
+                                    disabled={resolveMutation.isPending}
+                                >
+                                    <X className="w-3 h-3" />
+                                    Dismiss
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="gap-1 text-destructive"
+                                    onClick={() => resolveMutation.mutate({ flagId: flag.id, status: 'actioned' })}
+                                    disabled={resolveMutation.isPending}
+                                >
+                                    <Check className="w-3 h-3" />
+                                    Actioned
+                                </Button>
+                            </div>
+                        </TableCell>
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+    );
+}
@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Organization } from '@shared/schema';
+import {
+    getOrganizations,
+    createOrganization,
+    setOrganizationActive,
+    addOrganizationDomain,
+    removeOrganizationDomain,
+} from '@/lib/organization-service';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+    DialogFooter,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card } from '@/components/ui/card';
+import { Building2, Plus, X, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+import { OrganizationMembersPanel } from '@/components/OrganizationMembersPanel';
+
+export function OrganizationsTab() {
+    const { user } = useAuth();
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [isCreateOpen, setIsCreateOpen] = useState(false);
+    const [newName, setNewName] = useState('');
+    const [newRequiresApproval, setNewRequiresApproval] = useState(true);
+    const [domainInputs, setDomainInputs] = useState<Record<string, string>>({});
+    const [membersOf, setMembersOf] = useState<Organization | null>(null);
+
+    const { data: organizations = [], isLoading } = useQuery<Organization[]>({
+        queryKey: ['admin-organizations'],
+        queryFn: getOrganizations,
+    });
+
+    const onSuccess = () => {
+        queryClient.invalidateQueries({ queryKey: ['admin-organizations'] });
+    };
+    const onError = (error: any) => {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    };
+
+    const createMutation = useMutation({
+        mutationFn: () => createOrganization(newName, newRequiresApproval, user!.id),
+        onSuccess: () => {
+            onSuccess();
+            setIsCreateOpen(false);
+            setNewName('');
+            setNewRequiresApproval(true);
+            toast({ title: 'Organization created', description: 'Add its email domains so employees can join.' });
+        },
+        onError,
+    });
+
+    const activeMutation = useMutation({
+        mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => setOrganizationActive(id, isActive),
+        onSuccess,
+        onError,
+    });
+
+    const addDomainMutation = useMutation({
+        mutationFn: ({ organizationId, domain }: { organizationId: string; domain: string }) =>
+            addOrganizationDomain(organizationId, domain, user!.id),
+        onSuccess: (_, { organizationId }) => {
+            onSuccess();
+            setDomainInputs(prev => ({ ...prev, [organizationId]: '' }));
+        },
+        onError,
+    });
+
+    const removeDomainMutation = useMutation({
+        mutationFn: removeOrganizationDomain,
+        onSuccess,
+        onError,
+    });
+
+    return (
+        <Card>
+            <div className="p-6 border-b flex items-center justify-between">
+                <div>
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <Building2 className="w-5 h-5 text-primary" />
+                        Organizations
+                    </h2>
+                    <p className="text-sm text-muted-foreground mt-1">
+                        Only add email domains after confirming the company owns them
+                    </p>
+                </div>
+                <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+                    <DialogTrigger asChild>
+                        <Button className="gap-2">
+                            <Plus className="w-4 h-4" />
+                            Add Organization
+                        </Button>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-[425px]">
+                        <DialogHeader>
+                            <DialogTitle>Add Organization</DialogTitle>
+                        </DialogHeader>
+                        <div className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="org-name">Name</Label>
+                                <Input
+                                    id="org-name"
+                                    placeholder="e.g. Tata Consultancy Services"
+                                    value={newName}
+                                    onChange={(e) => setNewName(e.target.value)}
+                                />
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <Label htmlFor="org-approval">Org admins approve new members</Label>
+                                <Switch
+                                    id="org-approval"
+                                    checked={newRequiresApproval}
+                                    onCheckedChange={setNewRequiresApproval}
+                                />
+                            </div>
+                        </div>
+                        <DialogFooter>
+                            <Button
+                                onClick={() => createMutation.mutate()}
+                                disabled={createMutation.isPending || !newName.trim()}
+                            >
+                                {createMutation.isPending ? 'Creating...' : 'Create'}
+                            </Button>
+                        </DialogFooter>
+                    </DialogContent>
+                </Dialog>
+            </div>
+            <div className="p-6">
+                {isLoading ? (
+                    <div className="text-center py-12 text-muted-foreground">Loading organizations...</div>
+                ) : organizations.length === 0 ? (
+                    <div className="text-center py-12">
+                        <Building2 className="w-16 h-16 text-muted-foreground/50 mx-auto mb-4" />
+                        <p className="text-muted-foreground">No organizations yet</p>
+                    </div>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Organization</TableHead>
+                                <TableHead>Verified Domains</TableHead>
+                                <TableHead>Active</TableHead>
+                                <TableHead className="text-right">Members</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {organizations.map(org => (
+                                <TableRow key={org.id}>
+                                    <TableCell>
+                                        <div className="font-medium">{org.name}</div>
+                                        <div className="text-xs text-muted-foreground">
+                                            {org.requiresApproval ? 'Approval required' : 'Auto-join'} · since {format(new Date(org.createdAt), 'MMM yyyy')}
+                                        </div>
+                                    </TableCell>
+                                    <TableCell>
+                                        <div className="flex flex-wrap items-center gap-1 mb-2">
+                                            {org.domains.map(domain => (
+                                                <Badge key={domain} variant="secondary" className="gap-1">
+                                                    @{domain}
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => removeDomainMutation.mutate(domain)}
+                                                        disabled={removeDomainMutation.isPending}
+                                                        aria-label={`Remove ${domain}`}
+                                                    >
+                                                        <X className="w-3 h-3" />
+                                                    </button>
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                        <form
+                                            className="flex gap-1"
+                                            onSubmit={(e) => {
+                                                e.preventDefault();
+                                                addDomainMutation.mutate({ organizationId: org.id, domain: domainInputs[org.id] || '' });
+                                            }}
+                                        >
+                                            <Input
+                                                placeholder="company.com"
+                                                className="h-8 w-40"
+                                                value={domainInputs[org.id] || ''}
+                                                onChange={(e) => setDomainInputs(prev => ({ ...prev, [org.id]: e.target.value }))}
+                                            />
+                                            <Button
+                                                type="submit"
+                                                size="sm"
+                                                variant="outline"
+                                                disabled={addDomainMutation.isPending || !domainInputs[org.id]?.trim()}
+                                            >
+                                                Add
+                                            </Button>
+                                        </form>
+                                    </TableCell>
+                                    <TableCell>
+                                        <Switch
+                                            checked={org.isActive}
+                                            onCheckedChange={(checked) => activeMutation.mutate({ id: org.id, isActive: checked })}
+                                            disabled={activeMutation.isPending}
+                                        />
+                                    </TableCell>
+                                    <TableCell className="text-right">
+                                        <Button size="sm" variant="outline" className="gap-1" onClick={() => setMembersOf(org)}>
+                                            <Users className="w-3 h-3" />
+                                            Manage
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </div>
+
+            <Dialog open={!!membersOf} onOpenChange={(open) => !open && setMembersOf(null)}>
+                <DialogContent className="sm:max-w-[500px]">
+                    <DialogHeader>
+                        <DialogTitle>{membersOf?.name} Members</DialogTitle>
+                    </DialogHeader>
+                    {membersOf && user && (
+                        <OrganizationMembersPanel
+                            organization={organizations.find(o => o.id === membersOf.id) || membersOf}
+                            currentUserId={user.id}
+                        />
+                    )}
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
@@ -1,5 +1,5 @@
 
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { Payment } from '@shared/schema';
 import { mapPayment } from '@/lib/mapper';
@@ -13,76 +13,422 @@ import {
 } from '@/components/ui/table';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { DollarSign } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { DollarSign, Scale, RefreshCw, Banknote, RotateCcw } from 'lucide-react';
+import {
+    getLedgerReconciliation,
+    LedgerReconciliation,
+    getFailedRefunds,
+    retryFailedRefund,
+} from '@/lib/ledger-service';
+import {
+    getOpenPayouts,
+    createWeeklyPayoutBatch,
+    markPayoutPaid,
+    markPayoutFailed,
+} from '@/lib/payout-service';
 
-export function PaymentsTab() {
-    const { data: allPayments } = useQuery<Payment[]>({
-        queryKey: ['admin-payments'],
-        queryFn: async () => {
-            const { data, error } = await supabase
-                .from('payments')
-                .select('*')
-                .order('created_at', { ascending: false });
+const ACCOUNT_LABELS: Record<string, string> = {
+    passenger_wallet: 'Passenger Wallets',
+    driver_payable: 'Driver Payables',
+    platform_fees: 'Platform Fees',
+    gst_payable: 'GST Payable',
+    payment_gateway: 'Payment Gateway',
+    opening_balance: 'Opening Balances',
+};
 
-            if (error) throw error;
-            return (data || []).map(mapPayment);
-        }
+function LedgerReconciliationCard() {
+    const { data: report, isLoading, refetch, isFetching } = useQuery<LedgerReconciliation | null>({
+        queryKey: ['admin-ledger-reconciliation'],
+        queryFn: getLedgerReconciliation,
     });
 
     return (
         <Card>
             <div className="p-6 border-b flex items-center justify-between">
                 <h2 className="text-lg font-semibold flex items-center gap-2">
-                    <DollarSign className="w-5 h-5 text-chart-1" />
-                    Payment Transactions
+                    <Scale className="w-5 h-5 text-chart-2" />
+                    Ledger Reconciliation
+                </h2>
+                <div className="flex items-center gap-3">
+                    {report && (
+                        <Badge
+                            variant="outline"
+                            className={report.is_balanced ? 'bg-success/10 text-success' : 'bg-destructive/10 text-destructive'}
+                            data-testid="badge-ledger-status"
+                        >
+                            {report.is_balanced ? 'Balanced' : 'Drift detected'}
+                        </Badge>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                        <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                        Refresh
+                    </Button>
+                </div>
+            </div>
+            <div className="p-6 space-y-6">
+                {isLoading ? (
+                    <p className="text-muted-foreground text-center py-6">Running reconciliation...</p>
+                ) : !report ? (
+                    <p className="text-muted-foreground text-center py-6">Could not load the reconciliation report</p>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                            {report.accounts.map((account) => (
+                                <div key={account.account_type} className="p-4 rounded-lg border">
+                                    <p className="text-sm text-muted-foreground">
+                                        {ACCOUNT_LABELS[account.account_type] || account.account_type}
+                                    </p>
+                                    <p className="text-xl font-semibold">₹{Number(account.balance).toFixed(2)}</p>
+                                    <p className="text-xs text-muted-foreground">{account.accounts} account(s)</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        <p className="text-sm text-muted-foreground">
+                            Total debits ₹{Number(report.total_debits).toFixed(2)} · Total credits ₹{Number(report.total_credits).toFixed(2)} · Generated {new Date(report.generated_at).toLocaleString()}
+                        </p>
+
+                        {report.wallet_drift.length > 0 && (
+                            <div>
+                                <h3 className="font-medium mb-2 text-destructive">Wallets out of sync with the ledger</h3>
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>User</TableHead>
+                                            <TableHead>Stored Balance</TableHead>
+                                            <TableHead>Ledger Balance</TableHead>
+                                            <TableHead>Drift</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {report.wallet_drift.map((row) => (
+                                            <TableRow key={row.wallet_id}>
+                                                <TableCell>{row.full_name || row.user_id.slice(0, 8)}</TableCell>
+                                                <TableCell>₹{row.stored_balance}</TableCell>
+                                                <TableCell>₹{row.ledger_balance}</TableCell>
+                                                <TableCell className="text-destructive">₹{row.drift}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        )}
+
+                        {report.unbalanced_transactions.length > 0 && (
+                            <div>
+                                <h3 className="font-medium mb-2 text-destructive">Unbalanced ledger transactions</h3>
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Transaction ID</TableHead>
+                                            <TableHead>Description</TableHead>
+                                            <TableHead>Debits</TableHead>
+                                            <TableHead>Credits</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {report.unbalanced_transactions.map((row) => (
+                                            <TableRow key={row.transaction_id}>
+                                                <TableCell className="font-mono text-xs">{row.transaction_id.slice(0, 8)}...</TableCell>
+                                                <TableCell>{row.description}</TableCell>
+                                                <TableCell>₹{row.debits}</TableCell>
+                                                <TableCell>₹{row.credits}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </Card>
+    );
+}
+
+function FailedRefundsCard() {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+
+    const { data: refunds } = useQuery({
+        queryKey: ['admin-failed-refunds'],
+        queryFn: getFailedRefunds,
+    });
+
+    const retryMutation = useMutation({
+        mutationFn: retryFailedRefund,
+        onSuccess: (refunded) => {
+            toast(refunded
+                ? { title: 'Refund sent', description: 'Razorpay accepted the refund.' }
+                : { title: 'Refund failed again', description: 'See the latest error in the list.', variant: 'destructive' });
+            queryClient.invalidateQueries({ queryKey: ['admin-failed-refunds'] });
+            queryClient.invalidateQueries({ queryKey: ['admin-ledger-reconciliation'] });
+        },
+        onError: (error: any) => {
+            toast({
+                title: 'Refund retry failed',
+                description: error.message,
+                variant: 'destructive',
+            });
+        },
+    });
+
+    // Nothing to chase; keep the tab uncluttered
+    if (!refunds || refunds.length === 0) {
+        return null;
+    }
+
+    return (
+        <Card>
+            <div className="p-6 border-b">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <RotateCcw className="w-5 h-5 text-destructive" />
+                    Failed Refunds
                 </h2>
             </div>
             <div className="p-6">
-                {allPayments && allPayments.length > 0 ? (
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Booking</TableHead>
+                            <TableHead>Amount</TableHead>
+                            <TableHead>Error</TableHead>
+                            <TableHead>Attempts</TableHead>
+                            <TableHead>Cancelled</TableHead>
+                            <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {refunds.map((refund) => (
+                            <TableRow key={refund.id}>
+                                <TableCell className="font-mono text-sm">{refund.booking_id.slice(0, 8)}</TableCell>
+                                <TableCell>₹{Number(refund.refund_amount).toFixed(2)}</TableCell>
+                                <TableCell className="text-sm text-muted-foreground">{refund.refund_error || 'Unknown error'}</TableCell>
+                                <TableCell>{refund.refund_attempts}</TableCell>
+                                <TableCell>{new Date(refund.created_at).toLocaleDateString()}</TableCell>
+                                <TableCell className="text-right">
+                                    <Button
+                                        size="sm"
+                                        disabled={retryMutation.isPending}
+                                        onClick={() => retryMutation.mutate(refund.id)}
+                                    >
+                                        Retry refund
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </div>
+        </Card>
+    );
+}
+
+function DriverPayoutsCard() {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+
+    const { data: payouts } = useQuery({
+        queryKey: ['admin-open-payouts'],
+        queryFn: getOpenPayouts,
+    });
+
+    const onError = (error: any) => {
+        toast({
+            title: 'Payout update failed',
+            description: error.message,
+            variant: 'destructive',
+        });
+    };
+
+    const runBatchMutation = useMutation({
+        mutationFn: createWeeklyPayoutBatch,
+        onSuccess: (result) => {
+            toast({
+                title: result.created ? 'Weekly settlement created' : 'Settlement already ran',
+                description: result.created
+                    ? 'Payouts for last week are ready for transfer.'
+                    : 'This week\'s batch was created earlier.',
+            });
+            queryClient.invalidateQueries({ queryKey: ['admin-open-payouts'] });
+            queryClient.invalidateQueries({ queryKey: ['admin-ledger-reconciliation'] });
+        },
+        onError,
+    });
+
+    const markPaidMutation = useMutation({
+        mutationFn: ({ payoutId, reference }: { payoutId: string; reference?: string }) =>
+            markPayoutPaid(payoutId, reference),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-open-payouts'] });
+            queryClient.invalidateQueries({ queryKey: ['admin-ledger-reconciliation'] });
+        },
+        onError,
+    });
+
+    const markFailedMutation = useMutation({
+        mutationFn: ({ payoutId, reason }: { payoutId: string; reason: string }) =>
+            markPayoutFailed(payoutId, reason),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-open-payouts'] });
+        },
+        onError,
+    });
+
+    return (
+        <Card>
+            <div className="p-6 border-b flex items-center justify-between">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Banknote className="w-5 h-5 text-chart-3" />
+                    Driver Payouts
+                </h2>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => runBatchMutation.mutate()}
+                    disabled={runBatchMutation.isPending}
+                    data-testid="button-run-settlement"
+                >
+                    {runBatchMutation.isPending ? 'Running...' : 'Run weekly settlement'}
+                </Button>
+            </div>
+            <div className="p-6">
+                {payouts && payouts.length > 0 ? (
                     <Table>
                         <TableHeader>
                             <TableRow>
-                                <TableHead>Transaction ID</TableHead>
-                                <TableHead>Amount</TableHead>
-                                <TableHead>Platform Fee</TableHead>
-                                <TableHead>Driver Earnings</TableHead>
+                                <TableHead>Driver</TableHead>
+                                <TableHead>Source</TableHead>
+                                <TableHead>Net Amount</TableHead>
                                 <TableHead>Status</TableHead>
-                                <TableHead>Date</TableHead>
+                                <TableHead>Requested</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
                             </TableRow>
                         </TableHeader>
                         <TableBody>
-                            {allPayments.slice(0, 20).map((payment) => (
-                                <TableRow key={payment.id}>
-                                    <TableCell className="font-mono text-xs">{payment.id.slice(0, 8)}...</TableCell>
-                                    <TableCell>₹{payment.amount}</TableCell>
-                                    <TableCell>₹{payment.platformFee}</TableCell>
-                                    <TableCell>₹{payment.driverEarnings}</TableCell>
+                            {payouts.map((payout) => (
+                                <TableRow key={payout.id}>
+                                    <TableCell>{payout.driver_name || payout.driver_id.slice(0, 8)}</TableCell>
+                                    <TableCell className="capitalize">{payout.source}</TableCell>
+                                    <TableCell>₹{Number(payout.net_amount).toFixed(2)}</TableCell>
                                     <TableCell>
-                                        <Badge
+                                        <Badge variant="outline" className="bg-warning/10 text-warning">
+                                            {payout.status}
+                                        </Badge>
+                                    </TableCell>
+                                    <TableCell>{new Date(payout.requested_at).toLocaleDateString()}</TableCell>
+                                    <TableCell className="text-right space-x-2">
+                                        <Button
+                                            size="sm"
+                                            disabled={markPaidMutation.isPending}
+                                            onClick={() => {
+                                                const reference = prompt('Bank transfer reference (optional)');
+                                                if (reference === null) return;
+                                                markPaidMutation.mutate({ payoutId: payout.id, reference: reference || undefined });
+                                            }}
+                                        >
+                                            Mark paid
+                                        </Button>
+                                        <Button
+                                            size="sm"
                                             variant="outline"
-                                            className={
-                                                payment.status === 'success'
-                                                    ? 'bg-success/10 text-success'
-                                                    : payment.status === 'pending'
-                                                        ? 'bg-warning/10 text-warning'
-                                                        : 'bg-destructive/10 text-destructive'
-                                            }
+                                            disabled={markFailedMutation.isPending}
+                                            onClick={() => {
+                                                const reason = prompt('Why did this transfer fail?');
+                                                if (!reason) return;
+                                                markFailedMutation.mutate({ payoutId: payout.id, reason });
+                                            }}
                                         >
-                                            {payment.status}
-                                        </Badge>
+                                            Mark failed
+                                        </Button>
                                     </TableCell>
-                                    <TableCell>{new Date(payment.createdAt).toLocaleDateString()}</TableCell>
                                 </TableRow>
                             ))}
                         </TableBody>
                     </Table>
                 ) : (
-                    <div className="text-center py-12">
-                        <DollarSign className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-                        <p className="text-muted-foreground">No payments found</p>
-                    </div>
+                    <p className="text-muted-foreground text-center py-6">No payouts awaiting transfer</p>
                 )}
             </div>
         </Card>
     );
 }
+
+export function PaymentsTab() {
+    const { data: allPayments } = useQuery<Payment[]>({
+        queryKey: ['admin-payments'],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('payments')
+                .select('*')
+                .order('created_at', { ascending: false });
+
+            if (error) throw error;
+            return (data || []).map(mapPayment);
+        }
+    });
+
+    return (
+        <div className="space-y-6">
+            <LedgerReconciliationCard />
+            <FailedRefundsCard />
+            <DriverPayoutsCard />
+            <Card>
+                <div className="p-6 border-b flex items-center justify-between">
+                    <h2 className="text-lg font-semibold flex items-center gap-2">
+                        <DollarSign className="w-5 h-5 text-chart-1" />
+                        Payment Transactions
+                    </h2>
+                </div>
+                <div className="p-6">
+                    {allPayments && allPayments.length > 0 ? (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Transaction ID</TableHead>
+                                    <TableHead>Amount</TableHead>
+                                    <TableHead>Platform Fee</TableHead>
+                                    <TableHead>Driver Earnings</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Date</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {allPayments.slice(0, 20).map((payment) => (
+                                    <TableRow key={payment.id}>
+                                        <TableCell className="font-mono text-xs">{payment.id.slice(0, 8)}...</TableCell>
+                                        <TableCell>₹{payment.amount}</TableCell>
+                                        <TableCell>₹{payment.platformFee}</TableCell>
+                                        <TableCell>₹{payment.driverEarnings}</TableCell>
+                                        <TableCell>
+                                            <Badge
+                                                variant="outline"
+                                                className={
+                                                    payment.status === 'success'
+                                                        ? 'bg-success/10 text-success'
+                                                        : payment.status === 'pending'
+                                                            ? 'bg-warning/10 text-warning'
+                                                            : 'bg-destructive/10 text-destructive'
+                                                }
+                                            >
+                                                {payment.status}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell>{new Date(payment.createdAt).toLocaleDateString()}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    ) : (
+                        <div className="text-center py-12">
+                            <DollarSign className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                            <p className="text-muted-foreground">No payments found</p>
+                        </div>
+                    )}
+                </div>
+            </Card>
+        </div>
+    );
+}
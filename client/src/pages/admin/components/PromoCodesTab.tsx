@@ -2,7 +2,11 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
-import { PromoCode, insertPromoCodeSchema } from '@shared/schema';
+import { mapPromoCode } from '@/lib/mapper';
+import { getPromoCampaignReport } from '@/lib/promo-service';
+import { getOrganizations } from '@/lib/organization-service';
+import { getAllSurgeZones, SurgeZone } from '@/lib/surge-pricing-service';
+import { InsertPromoCode, Organization, PromoCode, PromoCampaignReport, insertPromoCodeSchema } from '@shared/schema';
 import {
     Table,
     TableBody,
@@ -14,6 +18,9 @@ import {
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { Ticket, Plus, Trash2 } from 'lucide-react';
 import {
     Dialog,
@@ -42,7 +49,58 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
-import { z } from 'zod';
+
+const VEHICLE_TYPES = ['bike', 'auto', 'car'] as const;
+
+const optionalNumber = (value?: string | null) => (value ? parseFloat(value) : null);
+
+// The form is camelCase; promo_codes columns are snake_case
+function toPromoCodeRow(values: InsertPromoCode) {
+    return {
+        code: values.code.trim().toUpperCase(),
+        description: values.description || null,
+        discount_type: values.discountType,
+        discount_value: parseFloat(values.discountValue),
+        max_discount: optionalNumber(values.maxDiscount),
+        min_amount: optionalNumber(values.minAmount) ?? 0,
+        max_uses: values.maxUses || null,
+        per_user_limit: values.perUserLimit,
+        valid_from: values.validFrom,
+        valid_until: values.validUntil,
+        is_active: values.isActive,
+        applicable_vehicle_types: values.applicableVehicleTypes,
+        first_ride_only: values.firstRideOnly,
+        min_completed_rides: values.minCompletedRides,
+        surge_zone_ids: values.surgeZoneIds?.length ? values.surgeZoneIds : null,
+        min_surge_multiplier: optionalNumber(values.minSurgeMultiplier),
+        active_from: values.activeFrom || null,
+        active_until: values.activeUntil || null,
+        organization_id: values.organizationId || null,
+        budget_cap: optionalNumber(values.budgetCap),
+    };
+}
+
+// Short labels for the rules a campaign adds on top of the discount
+function describeRules(promo: PromoCode, organizations: Organization[], zones: SurgeZone[]): string[] {
+    const rules: string[] = [];
+    if (promo.firstRideOnly) rules.push('First ride');
+    if (promo.minCompletedRides > 0) rules.push(`${promo.minCompletedRides}+ rides`);
+    if (promo.applicableVehicleTypes && promo.applicableVehicleTypes.length < VEHICLE_TYPES.length) {
+        rules.push(promo.applicableVehicleTypes.join(', '));
+    }
+    if (promo.activeFrom && promo.activeUntil) {
+        rules.push(`${promo.activeFrom.slice(0, 5)}–${promo.activeUntil.slice(0, 5)}`);
+    }
+    const zoneIds = promo.surgeZoneIds || [];
+    if (zoneIds.length) {
+        rules.push(zones.filter(z => zoneIds.includes(z.id)).map(z => z.zone_name).join(', ') || 'Surge zones');
+    }
+    if (promo.minSurgeMultiplier) rules.push(`Surge ≥ ${parseFloat(promo.minSurgeMultiplier)}x`);
+    if (promo.organizationId) {
+        rules.push(organizations.find(o => o.id === promo.organizationId)?.name || 'Organization');
+    }
+    return rules;
+}
 
 export function PromoCodesTab() {
     const queryClient = useQueryClient();
@@ -58,11 +116,26 @@ export function PromoCodesTab() {
                 .order('created_at', { ascending: false });
 
             if (error) throw error;
-            return data as PromoCode[];
+            return (data || []).map(mapPromoCode);
         }
     });
 
-    const form = useForm<z.infer<typeof insertPromoCodeSchema>>({
+    const { data: report = [] } = useQuery<PromoCampaignReport[]>({
+        queryKey: ['admin-promo-report'],
+        queryFn: getPromoCampaignReport,
+    });
+
+    const { data: organizations = [] } = useQuery<Organization[]>({
+        queryKey: ['admin-organizations'],
+        queryFn: getOrganizations,
+    });
+
+    const { data: surgeZones = [] } = useQuery<SurgeZone[]>({
+        queryKey: ['admin-surge-zones'],
+        queryFn: getAllSurgeZones,
+    });
+
+    const form = useForm<InsertPromoCode>({
         resolver: zodResolver(insertPromoCodeSchema),
         defaultValues: {
             code: '',
@@ -71,24 +144,23 @@ export function PromoCodesTab() {
             maxUses: undefined, // Optional
             validFrom: new Date().toISOString().split('T')[0],
             validUntil: '',
-            isActive: true
+            isActive: true,
+            perUserLimit: 1,
+            applicableVehicleTypes: [...VEHICLE_TYPES],
+            firstRideOnly: false,
+            minCompletedRides: 0,
+            surgeZoneIds: [],
         }
     });
 
     const createMutation = useMutation({
-        mutationFn: async (values: any) => {
-            // Convert discountValue to string if it's not already
-            const formattedValues = {
-                ...values,
-                discountValue: values.discountValue.toString(),
-                // Ensure optional fields are handled correctly
-                maxUses: values.maxUses ? parseInt(values.maxUses) : null
-            };
-            const { error } = await supabase.from('promo_codes').insert(formattedValues);
+        mutationFn: async (values: InsertPromoCode) => {
+            const { error } = await supabase.from('promo_codes').insert(toPromoCodeRow(values));
             if (error) throw error;
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['admin-promocodes'] });
+            queryClient.invalidateQueries({ queryKey: ['admin-promo-report'] });
             setIsDialogOpen(false);
             form.reset();
             toast({ title: "Success", description: "Promo code created successfully" });
@@ -105,14 +177,18 @@ export function PromoCodesTab() {
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['admin-promocodes'] });
+            queryClient.invalidateQueries({ queryKey: ['admin-promo-report'] });
             toast({ title: "Success", description: "Promo code deleted" });
         }
     });
 
-    function onSubmit(values: any) {
+    function onSubmit(values: InsertPromoCode) {
         createMutation.mutate(values);
     }
 
+    const totalCost = report.reduce((sum, row) => sum + row.totalDiscount, 0);
+    const totalRedemptions = report.reduce((sum, row) => sum + row.redemptions, 0);
+
     return (
         <Card>
             <div className="p-6 border-b flex items-center justify-between">
@@ -127,7 +203,7 @@ export function PromoCodesTab() {
                             Create New
                         </Button>
                     </DialogTrigger>
-                    <DialogContent className="sm:max-w-[425px]">
+                    <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
                         <DialogHeader>
                             <DialogTitle>Create Promo Code</DialogTitle>
                         </DialogHeader>
@@ -223,6 +299,7 @@ export function PromoCodesTab() {
                                                     type="number"
                                                     placeholder="100"
                                                     {...field}
+                                                    value={field.value ?? ''}
                                                     onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
                                                 />
                                             </FormControl>
@@ -231,6 +308,251 @@ export function PromoCodesTab() {
                                     )}
                                 />
 
+                                <div className="grid grid-cols-2 gap-4">
+                                    <FormField
+                                        control={form.control}
+                                        name="maxDiscount"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Max Discount (₹)</FormLabel>
+                                                <FormControl>
+                                                    <Input
+                                                        type="number"
+                                                        placeholder="Optional"
+                                                        {...field}
+                                                        value={field.value ?? ''}
+                                                        onChange={(e) => field.onChange(e.target.value || null)}
+                                                    />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name="minAmount"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Min Fare (₹)</FormLabel>
+                                                <FormControl>
+                                                    <Input
+                                                        type="number"
+                                                        placeholder="Optional"
+                                                        {...field}
+                                                        value={field.value ?? ''}
+                                                        onChange={(e) => field.onChange(e.target.value || null)}
+                                                    />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name="perUserLimit"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Uses per Rider</FormLabel>
+                                                <FormControl>
+                                                    <Input
+                                                        type="number"
+                                                        placeholder="1"
+                                                        {...field}
+                                                        value={field.value ?? ''}
+                                                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : 1)}
+                                                    />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name="budgetCap"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Budget Cap (₹)</FormLabel>
+                                                <FormControl>
+                                                    <Input
+                                                        type="number"
+                                                        placeholder="Optional"
+                                                        {...field}
+                                                        value={field.value ?? ''}
+                                                        onChange={(e) => field.onChange(e.target.value || null)}
+                                                    />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                </div>
+
+                                <FormField
+                                    control={form.control}
+                                    name="applicableVehicleTypes"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Vehicle Types</FormLabel>
+                                            <div className="flex gap-4">
+                                                {VEHICLE_TYPES.map((type) => (
+                                                    <label key={type} className="flex items-center gap-2 text-sm capitalize">
+                                                        <Checkbox
+                                                            checked={field.value?.includes(type)}
+                                                            onCheckedChange={(checked) => field.onChange(
+                                                                checked
+                                                                    ? [...(field.value || []), type]
+                                                                    : (field.value || []).filter((t) => t !== type)
+                                                            )}
+                                                        />
+                                                        {type}
+                                                    </label>
+                                                ))}
+                                            </div>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                <div className="grid grid-cols-2 gap-4 items-end">
+                                    <FormField
+                                        control={form.control}
+                                        name="firstRideOnly"
+                                        render={({ field }) => (
+                                            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                                                <FormLabel>First Ride Only</FormLabel>
+                                                <FormControl>
+                                                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                                                </FormControl>
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name="minCompletedRides"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Min Completed Rides</FormLabel>
+                                                <FormControl>
+                                                    <Input
+                                                        type="number"
+                                                        placeholder="0"
+                                                        {...field}
+                                                        value={field.value ?? ''}
+                                                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : 0)}
+                                                    />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-4">
+                                    <FormField
+                                        control={form.control}
+                                        name="activeFrom"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Active From (IST)</FormLabel>
+                                                <FormControl>
+                                                    <Input type="time" {...field} value={field.value ?? ''} />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name="activeUntil"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Active Until (IST)</FormLabel>
+                                                <FormControl>
+                                                    <Input type="time" {...field} value={field.value ?? ''} />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                </div>
+
+                                {surgeZones.length > 0 && (
+                                    <FormField
+                                        control={form.control}
+                                        name="surgeZoneIds"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Surge Zones</FormLabel>
+                                                <div className="grid grid-cols-2 gap-2 rounded-lg border p-3 max-h-32 overflow-y-auto">
+                                                    {surgeZones.map((zone) => (
+                                                        <label key={zone.id} className="flex items-center gap-2 text-sm">
+                                                            <Checkbox
+                                                                checked={field.value?.includes(zone.id)}
+                                                                onCheckedChange={(checked) => field.onChange(
+                                                                    checked
+                                                                        ? [...(field.value || []), zone.id]
+                                                                        : (field.value || []).filter((id) => id !== zone.id)
+                                                                )}
+                                                            />
+                                                            {zone.zone_name}
+                                                        </label>
+                                                    ))}
+                                                </div>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                )}
+
+                                <div className="grid grid-cols-2 gap-4">
+                                    <FormField
+                                        control={form.control}
+                                        name="minSurgeMultiplier"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Min Surge (x)</FormLabel>
+                                                <FormControl>
+                                                    <Input
+                                                        type="number"
+                                                        step="0.1"
+                                                        placeholder="Optional"
+                                                        {...field}
+                                                        value={field.value ?? ''}
+                                                        onChange={(e) => field.onChange(e.target.value || null)}
+                                                    />
+                                                </FormControl>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                    <FormField
+                                        control={form.control}
+                                        name="organizationId"
+                                        render={({ field }) => (
+                                            <FormItem>
+                                                <FormLabel>Organization</FormLabel>
+                                                <Select
+                                                    onValueChange={(value) => field.onChange(value === 'all' ? null : value)}
+                                                    value={field.value || 'all'}
+                                                >
+                                                    <FormControl>
+                                                        <SelectTrigger>
+                                                            <SelectValue />
+                                                        </SelectTrigger>
+                                                    </FormControl>
+                                                    <SelectContent>
+                                                        <SelectItem value="all">All riders</SelectItem>
+                                                        {organizations.map((org) => (
+                                                            <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                                                        ))}
+                                                    </SelectContent>
+                                                </Select>
+                                                <FormMessage />
+                                            </FormItem>
+                                        )}
+                                    />
+                                </div>
+
                                 <DialogFooter>
                                     <Button type="submit" disabled={createMutation.isPending}>
                                         {createMutation.isPending ? 'Creating...' : 'Create Promo Code'}
@@ -242,6 +564,11 @@ export function PromoCodesTab() {
                 </Dialog>
             </div>
             <div className="p-6">
+                {report.length > 0 && (
+                    <p className="text-sm text-muted-foreground mb-4">
+                        {totalRedemptions} redemptions · ₹{totalCost.toFixed(0)} in discounts across all campaigns
+                    </p>
+                )}
                 {isLoading ? (
                     <div className="text-center py-12">Loading promo codes...</div>
                 ) : promoCodes && promoCodes.length > 0 ? (
@@ -250,49 +577,70 @@ export function PromoCodesTab() {
                             <TableRow>
                                 <TableHead>Code</TableHead>
                                 <TableHead>Discount</TableHead>
-                                <TableHead>Uses</TableHead>
+                                <TableHead>Rules</TableHead>
+                                <TableHead>Redemptions</TableHead>
+                                <TableHead>Cost</TableHead>
                                 <TableHead>Valid Until</TableHead>
                                 <TableHead>Status</TableHead>
                                 <TableHead className="text-right">Actions</TableHead>
                             </TableRow>
                         </TableHeader>
                         <TableBody>
-                            {promoCodes.map((promo) => (
-                                <TableRow key={promo.id}>
-                                    <TableCell className="font-medium font-mono">{promo.code}</TableCell>
-                                    <TableCell>
-                                        {promo.discountType === 'percentage' ? `${promo.discountValue}%` : `₹${promo.discountValue}`}
-                                    </TableCell>
-                                    <TableCell>
-                                        {promo.currentUses} / {promo.maxUses || '∞'}
-                                    </TableCell>
-                                    <TableCell>
-                                        {promo.validUntil && !isNaN(new Date(promo.validUntil).getTime())
-                                            ? format(new Date(promo.validUntil), 'MMM d, yyyy')
-                                            : '-'
-                                        }
-                                    </TableCell>
-                                    <TableCell>
-                                        <div className={`text-xs px-2 py-1 rounded-full w-fit ${promo.isActive ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
-                                            {promo.isActive ? 'Active' : 'Inactive'}
-                                        </div>
-                                    </TableCell>
-                                    <TableCell className="text-right">
-                                        <Button
-                                            size="icon"
-                                            variant="ghost"
-                                            className="text-destructive hover:text-destructive/90"
-                                            onClick={() => {
-                                                if (confirm('Are you sure you want to delete this promo code?')) {
-                                                    deleteMutation.mutate(promo.id);
-                                                }
-                                            }}
-                                        >
-                                            <Trash2 className="w-4 h-4" />
-                                        </Button>
-                                    </TableCell>
-                                </TableRow>
-                            ))}
+                            {promoCodes.map((promo) => {
+                                const stats = report.find(r => r.promoCodeId === promo.id);
+                                const rules = describeRules(promo, organizations, surgeZones);
+
+                                return (
+                                    <TableRow key={promo.id}>
+                                        <TableCell className="font-medium font-mono">{promo.code}</TableCell>
+                                        <TableCell>
+                                            {promo.discountType === 'percentage' ? `${promo.discountValue}%` : `₹${promo.discountValue}`}
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex flex-wrap gap-1 max-w-[220px]">
+                                                {rules.length > 0 ? rules.map(rule => (
+                                                    <Badge key={rule} variant="outline" className="text-xs">{rule}</Badge>
+                                                )) : <span className="text-muted-foreground">-</span>}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            {stats?.redemptions ?? 0} / {promo.maxUses || '∞'}
+                                            <div className="text-xs text-muted-foreground">{stats?.uniqueUsers ?? 0} riders</div>
+                                        </TableCell>
+                                        <TableCell>
+                                            ₹{(stats?.totalDiscount ?? 0).toFixed(0)}
+                                            {promo.budgetCap && (
+                                                <div className="text-xs text-muted-foreground">of ₹{parseFloat(promo.budgetCap).toFixed(0)}</div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            {promo.validUntil && !isNaN(new Date(promo.validUntil).getTime())
+                                                ? format(new Date(promo.validUntil), 'MMM d, yyyy')
+                                                : '-'
+                                            }
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className={`text-xs px-2 py-1 rounded-full w-fit ${promo.isActive ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                                                {promo.isActive ? 'Active' : 'Inactive'}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <Button
+                                                size="icon"
+                                                variant="ghost"
+                                                className="text-destructive hover:text-destructive/90"
+                                                onClick={() => {
+                                                    if (confirm('Are you sure you want to delete this promo code?')) {
+                                                        deleteMutation.mutate(promo.id);
+                                                    }
+                                                }}
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
                         </TableBody>
                     </Table>
                 ) : (
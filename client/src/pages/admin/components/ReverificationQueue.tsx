@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { DRIVER_DOCUMENT_LABELS } from '@shared/schema';
+import {
+    getReverificationQueue,
+    reviewDriverDocument,
+    ReverificationEntry,
+    SnapshotChange,
+} from '@/lib/driver-documents-service';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Check, X, ExternalLink, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+function describeValue(value: any): string {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'object') {
+        const parts = [value.document_number, value.expires_on && `expires ${value.expires_on}`].filter(Boolean);
+        return parts.length > 0 ? parts.join(', ') : 'uploaded';
+    }
+    return String(value);
+}
+
+function changeLabel(change: SnapshotChange): string {
+    return DRIVER_DOCUMENT_LABELS[change.field] || change.field.replace(/_/g, ' ');
+}
+
+export function ReverificationQueue() {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [rejectReasons, setRejectReasons] = useState<Record<string, string>>({});
+
+    const { data: queue = [], isLoading } = useQuery<ReverificationEntry[]>({
+        queryKey: ['admin-reverification-queue'],
+        queryFn: getReverificationQueue,
+    });
+
+    const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: ['admin-reverification-queue'] });
+        queryClient.invalidateQueries({ queryKey: ['admin-drivers-all'] });
+        queryClient.invalidateQueries({ queryKey: ['admin-stats'] });
+    };
+
+    const reviewMutation = useMutation({
+        mutationFn: ({ documentId, approve }: { documentId: string; approve: boolean }) =>
+            reviewDriverDocument(documentId, approve, rejectReasons[documentId]),
+        onSuccess: refresh,
+        onError: (error: any) => {
+            toast({ title: 'Review failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const driverMutation = useMutation({
+        mutationFn: async ({ driverId, status }: { driverId: string; status: 'verified' | 'rejected' }) => {
+            const { error } = await supabase
+                .from('drivers')
+                .update({ verification_status: status })
+                .eq('id', driverId);
+
+            if (error) throw error;
+        },
+        onSuccess: refresh,
+        onError: (error: any) => {
+            toast({ title: 'Review failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    if (isLoading) {
+        return <div className="text-center py-12 text-muted-foreground">Loading queue...</div>;
+    }
+
+    if (queue.length === 0) {
+        return (
+            <div className="text-center py-12">
+                <RefreshCw className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No drivers waiting for re-verification</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {queue.map(entry => (
+                <div key={entry.driverId} className="border rounded-lg p-4 space-y-4">
+                    <div className="flex items-start justify-between gap-4">
+                        <div>
+                            <div className="font-medium">{entry.fullName}</div>
+                            <div className="text-sm text-muted-foreground">{entry.email}</div>
+                            <div className="text-xs text-muted-foreground mt-1">
+                                Last approved {format(new Date(entry.approvedAt), 'dd MMM yyyy')}
+                                {entry.waitingSince && ` · waiting since ${format(new Date(entry.waitingSince), 'dd MMM, HH:mm')}`}
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap gap-1 justify-end">
+                            <Badge variant={entry.verificationStatus === 'verified' ? 'default' : 'secondary'}>
+                                {entry.verificationStatus === 'verified' ? 'Driving' : 'Offline until reviewed'}
+                            </Badge>
+                            {entry.lapsedDocuments.map(docType => (
+                                <Badge key={docType} variant="destructive" className="gap-1">
+                                    <AlertTriangle className="w-3 h-3" />
+                                    {DRIVER_DOCUMENT_LABELS[docType] || docType} expired
+                                </Badge>
+                            ))}
+                        </div>
+                    </div>
+
+                    {entry.changes.length > 0 && (
+                        <div>
+                            <div className="text-sm font-medium mb-1">Changed since approval</div>
+                            <div className="space-y-1 text-sm">
+                                {entry.changes.map(change => (
+                                    <div key={change.field} className="grid grid-cols-[12rem_1fr] gap-2">
+                                        <span className="text-muted-foreground capitalize">{changeLabel(change)}</span>
+                                        <span>
+                                            <span className="line-through text-muted-foreground">{describeValue(change.before)}</span>
+                                            {' → '}
+                                            {describeValue(change.after)}
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {entry.pendingDocuments.map(doc => (
+                        <div key={doc.id} className="flex flex-wrap items-center justify-between gap-3 bg-muted/40 rounded-md p-3">
+                            <div className="text-sm">
+                                <div className="font-medium flex items-center gap-2">
+                                    {DRIVER_DOCUMENT_LABELS[doc.docType] || doc.docType}
+                                    <a href={doc.fileUrl} target="_blank" rel="noopener noreferrer" className="text-primary">
+                                        <ExternalLink className="w-3 h-3" />
+                                    </a>
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                    {doc.documentNumber || 'No number'}
+                                    {doc.issuedOn && ` · issued ${doc.issuedOn}`}
+                                    {doc.expiresOn && ` · expires ${doc.expiresOn}`}
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    placeholder="Reason if rejecting"
+                                    className="h-8 w-48"
+                                    value={rejectReasons[doc.id] || ''}
+                                    onChange={(e) => setRejectReasons(prev => ({ ...prev, [doc.id]: e.target.value }))}
+                                />
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="gap-1"
+                                    onClick={() => reviewMutation.mutate({ documentId: doc.id, approve: true })}
+                                    disabled={reviewMutation.isPending}
+                                >
+                                    <Check className="w-3 h-3" />
+                                    Approve
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="gap-1 text-destructive"
+                                    onClick={() => reviewMutation.mutate({ documentId: doc.id, approve: false })}
+                                    disabled={reviewMutation.isPending}
+                                >
+                                    <X className="w-3 h-3" />
+                                    Reject
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+
+                    {entry.verificationStatus === 'pending' && entry.pendingDocuments.length === 0 && (
+                        <div className="flex justify-end gap-2">
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                className="gap-1"
+                                onClick={() => driverMutation.mutate({ driverId: entry.driverId, status: 'verified' })}
+                                disabled={driverMutation.isPending || entry.lapsedDocuments.length > 0}
+                            >
+                                <Check className="w-3 h-3" />
+                                Re-approve driver
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                className="gap-1 text-destructive"
+                                onClick={() => driverMutation.mutate({ driverId: entry.driverId, status: 'rejected' })}
+                                disabled={driverMutation.isPending}
+                            >
+                                <X className="w-3 h-3" />
+                                Reject
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
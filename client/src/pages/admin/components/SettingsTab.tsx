@@ -1,4 +1,5 @@
 
+import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { z } from 'zod';
 import { supabase } from '@/lib/supabase';
@@ -16,11 +17,92 @@ import {
     FormLabel,
     FormMessage,
 } from "@/components/ui/form";
-import { Settings, Save } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Settings, Save, Receipt } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useToast } from '@/hooks/use-toast';
 
+interface InvoicingSettings {
+    platform_legal_name: string;
+    platform_gstin: string;
+    platform_state_code: string;
+    platform_address: string;
+}
+
+function TaxInvoicingCard({ settingsId, initial }: { settingsId?: string; initial?: Partial<InvoicingSettings> }) {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const [values, setValues] = useState<InvoicingSettings>({
+        platform_legal_name: initial?.platform_legal_name ?? 'TCSYGO',
+        platform_gstin: initial?.platform_gstin ?? '',
+        platform_state_code: initial?.platform_state_code ?? '27',
+        platform_address: initial?.platform_address ?? '',
+    });
+
+    const mutation = useMutation({
+        mutationFn: async () => {
+            if (!settingsId) throw new Error('Save the system configuration first');
+            const { error } = await supabase
+                .from('system_settings')
+                .update({
+                    ...values,
+                    platform_gstin: values.platform_gstin.trim().toUpperCase() || null,
+                    updated_at: new Date().toISOString(),
+                })
+                .eq('id', settingsId);
+            if (error) throw error;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-settings'] });
+            toast({ title: "Success", description: "Invoicing details updated" });
+        },
+        onError: (error: any) => {
+            toast({ title: "Error", description: error.message, variant: "destructive" });
+        }
+    });
+
+    const field = (key: keyof InvoicingSettings, label: string, placeholder?: string) => (
+        <div className="space-y-2">
+            <Label htmlFor={key}>{label}</Label>
+            <Input
+                id={key}
+                placeholder={placeholder}
+                value={values[key]}
+                onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+            />
+        </div>
+    );
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Receipt className="w-5 h-5" />
+                    Tax Invoicing
+                </CardTitle>
+                <CardDescription>
+                    Printed on every GST invoice and credit note. Rides billed to another state are charged IGST.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {field('platform_legal_name', 'Legal Name', 'TCSYGO Mobility Pvt Ltd')}
+                    {field('platform_gstin', 'GSTIN', '27ABCDE1234F1Z5')}
+                    {field('platform_state_code', 'State Code', '27')}
+                    {field('platform_address', 'Registered Address')}
+                </div>
+                <div className="flex justify-end">
+                    <Button onClick={() => mutation.mutate()} disabled={mutation.isPending} className="gap-2">
+                        <Save className="w-4 h-4" />
+                        Save Invoicing Details
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
+
 export function SettingsTab() {
     const queryClient = useQueryClient();
     const { toast } = useToast();
@@ -181,6 +263,12 @@ export function SettingsTab() {
                     </Form>
                 </CardContent>
             </Card>
+
+            <TaxInvoicingCard
+                key={currentSettings?.id}
+                settingsId={currentSettings?.id}
+                initial={currentSettings as Partial<InvoicingSettings> | undefined}
+            />
         </div>
     );
 }
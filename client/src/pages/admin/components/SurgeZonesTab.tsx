@@ -0,0 +1,517 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { MapView } from '@/components/MapView';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Coordinates } from '@/lib/maps';
+import { Zap, Plus, Pencil, Trash2, Undo2, RefreshCw, Eye, Pin } from 'lucide-react';
+import {
+    SurgeZone,
+    SurgeZoneInput,
+    SurgeZonePreview,
+    getAllSurgeZones,
+    saveSurgeZone,
+    deleteSurgeZone,
+    previewSurgeZone,
+    setSurgeOverride,
+    recomputeSurgeZones,
+    isZoneActiveAt,
+} from '@/lib/surge-pricing-service';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DRAFT_ID = 'draft';
+
+const EMPTY_ZONE: SurgeZoneInput = {
+    zone_name: '',
+    zone_polygon: [],
+    min_multiplier: 1,
+    max_multiplier: 2,
+    smoothing_factor: 0.5,
+    active_from: null,
+    active_until: null,
+    active_days: [0, 1, 2, 3, 4, 5, 6],
+    is_active: true,
+};
+
+const zoneColor = (multiplier: number) => {
+    if (multiplier >= 1.8) return '#dc2626';
+    if (multiplier >= 1.5) return '#f97316';
+    if (multiplier >= 1.1) return '#eab308';
+    return '#22c55e';
+};
+
+const formatWindow = (zone: Pick<SurgeZone, 'active_from' | 'active_until'>) =>
+    zone.active_from && zone.active_until
+        ? `${zone.active_from.slice(0, 5)} - ${zone.active_until.slice(0, 5)}`
+        : 'All day';
+
+const centroid = (points: Coordinates[]): Coordinates => ({
+    lat: points.reduce((sum, p) => sum + p.lat, 0) / points.length,
+    lng: points.reduce((sum, p) => sum + p.lng, 0) / points.length,
+});
+
+export function SurgeZonesTab() {
+    const queryClient = useQueryClient();
+    const { toast } = useToast();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<SurgeZoneInput | null>(null);
+    const [preview, setPreview] = useState<SurgeZonePreview | null>(null);
+    const [mapCenter, setMapCenter] = useState<Coordinates>({ lat: 22.7196, lng: 75.8577 });
+    const [overrideMultiplier, setOverrideMultiplier] = useState('');
+    const [overrideHours, setOverrideHours] = useState('2');
+
+    const { data: zones = [], isLoading } = useQuery<SurgeZone[]>({
+        queryKey: ['admin-surge-zones'],
+        queryFn: getAllSurgeZones,
+    });
+
+    const editingZone = zones.find((z) => z.id === editingId);
+
+    const startEditing = (zone?: SurgeZone) => {
+        setEditingId(zone?.id ?? null);
+        setDraft(
+            zone
+                ? {
+                      zone_name: zone.zone_name,
+                      zone_polygon: zone.zone_polygon,
+                      min_multiplier: Number(zone.min_multiplier),
+                      max_multiplier: Number(zone.max_multiplier),
+                      smoothing_factor: Number(zone.smoothing_factor),
+                      active_from: zone.active_from?.slice(0, 5) ?? null,
+                      active_until: zone.active_until?.slice(0, 5) ?? null,
+                      active_days: zone.active_days ?? EMPTY_ZONE.active_days,
+                      is_active: zone.is_active,
+                  }
+                : EMPTY_ZONE
+        );
+        setPreview(null);
+        setOverrideMultiplier('');
+        if (zone?.zone_polygon.length) {
+            setMapCenter(centroid(zone.zone_polygon));
+        }
+    };
+
+    const stopEditing = () => {
+        setEditingId(null);
+        setDraft(null);
+        setPreview(null);
+    };
+
+    const updateDraft = (changes: Partial<SurgeZoneInput>) => {
+        setDraft((current) => (current ? { ...current, ...changes } : current));
+        setPreview(null);
+    };
+
+    const saveMutation = useMutation({
+        mutationFn: () => {
+            if (!draft) throw new Error('Nothing to save');
+            if (!draft.zone_name.trim()) throw new Error('Give the zone a name');
+            if (draft.zone_polygon.length < 3) throw new Error('Draw at least 3 points on the map');
+            if (draft.min_multiplier > draft.max_multiplier) {
+                throw new Error('Minimum multiplier cannot exceed the maximum');
+            }
+            if (!draft.active_from !== !draft.active_until) {
+                throw new Error('Set both a start and end time, or neither');
+            }
+            return saveSurgeZone({ ...draft, zone_name: draft.zone_name.trim() }, editingId ?? undefined);
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-surge-zones'] });
+            stopEditing();
+            toast({ title: 'Zone saved' });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: deleteSurgeZone,
+        onSuccess: (_, zoneId) => {
+            queryClient.invalidateQueries({ queryKey: ['admin-surge-zones'] });
+            if (zoneId === editingId) stopEditing();
+            toast({ title: 'Zone deleted' });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const previewMutation = useMutation({
+        mutationFn: () => previewSurgeZone(draft!),
+        onSuccess: setPreview,
+        onError: (error: any) => {
+            toast({ title: 'Preview failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const overrideMutation = useMutation({
+        mutationFn: (multiplier: number | null) => {
+            const hours = Number(overrideHours);
+            const expiresAt = multiplier !== null && hours > 0
+                ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString()
+                : null;
+            return setSurgeOverride(editingId!, multiplier, expiresAt, multiplier !== null ? 'Set from zone editor' : undefined);
+        },
+        onSuccess: (result) => {
+            queryClient.invalidateQueries({ queryKey: ['admin-surge-zones'] });
+            if (!result.success) {
+                toast({ title: 'Override failed', description: result.message, variant: 'destructive' });
+                return;
+            }
+            toast({ title: 'Override updated', description: `Zone is now at ${result.multiplier}x` });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Override failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const recomputeMutation = useMutation({
+        mutationFn: recomputeSurgeZones,
+        onSuccess: (count) => {
+            queryClient.invalidateQueries({ queryKey: ['admin-surge-zones'] });
+            toast({ title: 'Surge recomputed', description: `${count} active zones updated` });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Recompute failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    const handleMapClick = (coords: Coordinates) => {
+        if (!draft) return;
+        updateDraft({ zone_polygon: [...draft.zone_polygon, coords] });
+    };
+
+    const toggleDay = (day: number) => {
+        if (!draft) return;
+        const days = draft.active_days.includes(day)
+            ? draft.active_days.filter((d) => d !== day)
+            : [...draft.active_days, day].sort();
+        updateDraft({ active_days: days });
+    };
+
+    const polygons = [
+        ...zones
+            .filter((z) => z.id !== editingId)
+            .map((z) => ({
+                id: z.id,
+                points: z.zone_polygon,
+                color: z.is_active ? zoneColor(Number(z.current_multiplier)) : '#9ca3af',
+                popup: `${z.zone_name} · ${Number(z.current_multiplier).toFixed(2)}x`,
+            })),
+        ...(draft
+            ? [{ id: DRAFT_ID, points: draft.zone_polygon, color: '#3b82f6', dashed: true, editable: true }]
+            : []),
+    ];
+
+    return (
+        <Card>
+            <div className="p-6 border-b flex items-center justify-between">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Zap className="w-5 h-5 text-chart-4" />
+                    Surge Zones
+                </h2>
+                <div className="flex items-center gap-2">
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => recomputeMutation.mutate()}
+                        disabled={recomputeMutation.isPending}
+                        data-testid="button-recompute-surge"
+                    >
+                        <RefreshCw className={`w-4 h-4 mr-2 ${recomputeMutation.isPending ? 'animate-spin' : ''}`} />
+                        Recompute now
+                    </Button>
+                    <Button size="sm" className="gap-2" onClick={() => startEditing()} data-testid="button-new-zone">
+                        <Plus className="w-4 h-4" />
+                        New Zone
+                    </Button>
+                </div>
+            </div>
+
+            <div className="grid lg:grid-cols-3 gap-6 p-6">
+                <div className="space-y-3 lg:col-span-1">
+                    {isLoading ? (
+                        <p className="text-sm text-muted-foreground">Loading zones...</p>
+                    ) : zones.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No surge zones yet. Create one and draw it on the map.</p>
+                    ) : (
+                        zones.map((zone) => (
+                            <div
+                                key={zone.id}
+                                className={`p-3 rounded-md border ${zone.id === editingId ? 'border-primary' : ''}`}
+                                data-testid={`surge-zone-${zone.id}`}
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <p className="font-medium truncate">{zone.zone_name}</p>
+                                    <Badge
+                                        variant="outline"
+                                        style={{ color: zoneColor(Number(zone.current_multiplier)) }}
+                                    >
+                                        {Number(zone.current_multiplier).toFixed(2)}x
+                                    </Badge>
+                                </div>
+                                <p className="text-xs text-muted-foreground mt-1">
+                                    Cap {Number(zone.min_multiplier)}x - {Number(zone.max_multiplier)}x · {formatWindow(zone)}
+                                    {zone.active_days?.length < 7 &&
+                                        ` · ${zone.active_days.map((d) => DAY_LABELS[d]).join(', ')}`}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                    {!zone.is_active
+                                        ? 'Disabled'
+                                        : !isZoneActiveAt(zone)
+                                          ? 'Outside active hours'
+                                          : `${zone.active_requests} requests / ${zone.available_drivers} drivers`}
+                                    {zone.override_multiplier !== null && ' · Override'}
+                                    {zone.last_computed_at &&
+                                        ` · ${formatDistanceToNow(new Date(zone.last_computed_at), { addSuffix: true })}`}
+                                </p>
+                                <div className="flex gap-2 mt-2">
+                                    <Button variant="ghost" size="sm" onClick={() => startEditing(zone)}>
+                                        <Pencil className="w-4 h-4 mr-1" />
+                                        Edit
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="text-destructive"
+                                        onClick={() => {
+                                            if (confirm(`Delete zone "${zone.zone_name}"?`)) {
+                                                deleteMutation.mutate(zone.id);
+                                            }
+                                        }}
+                                        disabled={deleteMutation.isPending}
+                                    >
+                                        <Trash2 className="w-4 h-4 mr-1" />
+                                        Delete
+                                    </Button>
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </div>
+
+                <div className="space-y-4 lg:col-span-2">
+                    <div className="h-[480px] rounded-md overflow-hidden border">
+                        <MapView
+                            center={mapCenter}
+                            zoom={12}
+                            polygons={polygons}
+                            onMapClick={handleMapClick}
+                            onPolygonClick={draft ? undefined : (id) => startEditing(zones.find((z) => z.id === id))}
+                            onPolygonEdit={(_, points) => updateDraft({ zone_polygon: points })}
+                        />
+                    </div>
+
+                    {draft ? (
+                        <div className="space-y-4" data-testid="surge-zone-editor">
+                            <div className="flex items-center justify-between">
+                                <p className="text-sm text-muted-foreground">
+                                    Click the map to add points ({draft.zone_polygon.length} so far). Drag a point to move it.
+                                </p>
+                                <div className="flex gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => updateDraft({ zone_polygon: draft.zone_polygon.slice(0, -1) })}
+                                        disabled={draft.zone_polygon.length === 0}
+                                    >
+                                        <Undo2 className="w-4 h-4 mr-1" />
+                                        Undo
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => updateDraft({ zone_polygon: [] })}
+                                        disabled={draft.zone_polygon.length === 0}
+                                    >
+                                        Clear
+                                    </Button>
+                                </div>
+                            </div>
+
+                            <div className="grid md:grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="zone-name">Zone Name</Label>
+                                    <Input
+                                        id="zone-name"
+                                        value={draft.zone_name}
+                                        onChange={(e) => updateDraft({ zone_name: e.target.value })}
+                                        placeholder="Vijay Nagar"
+                                    />
+                                </div>
+                                <div className="flex items-center gap-3 pt-6">
+                                    <Switch
+                                        id="zone-active"
+                                        checked={draft.is_active}
+                                        onCheckedChange={(checked) => updateDraft({ is_active: checked })}
+                                    />
+                                    <Label htmlFor="zone-active">Zone enabled</Label>
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="zone-min">Minimum Multiplier</Label>
+                                    <Input
+                                        id="zone-min"
+                                        type="number"
+                                        step="0.1"
+                                        min="1"
+                                        value={draft.min_multiplier}
+                                        onChange={(e) => updateDraft({ min_multiplier: Number(e.target.value) })}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="zone-max">Maximum Multiplier</Label>
+                                    <Input
+                                        id="zone-max"
+                                        type="number"
+                                        step="0.1"
+                                        min="1"
+                                        value={draft.max_multiplier}
+                                        onChange={(e) => updateDraft({ max_multiplier: Number(e.target.value) })}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="zone-from">Active From</Label>
+                                    <Input
+                                        id="zone-from"
+                                        type="time"
+                                        value={draft.active_from ?? ''}
+                                        onChange={(e) => updateDraft({ active_from: e.target.value || null })}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="zone-until">Active Until</Label>
+                                    <Input
+                                        id="zone-until"
+                                        type="time"
+                                        value={draft.active_until ?? ''}
+                                        onChange={(e) => updateDraft({ active_until: e.target.value || null })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Active Days</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {DAY_LABELS.map((label, day) => (
+                                        <Button
+                                            key={label}
+                                            type="button"
+                                            size="sm"
+                                            variant={draft.active_days.includes(day) ? 'default' : 'outline'}
+                                            onClick={() => toggleDay(day)}
+                                        >
+                                            {label}
+                                        </Button>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    Times are India time. Leave both times empty to surge all day; a window like 22:00 - 02:00 runs past midnight.
+                                </p>
+                            </div>
+
+                            <div className="flex items-center justify-between p-3 rounded-md bg-muted/50">
+                                <div className="text-sm">
+                                    {preview ? (
+                                        <span data-testid="text-zone-preview">
+                                            {preview.tripsInZone} of {preview.totalTrips} trips in the last 30 days picked up here;{' '}
+                                            <span className="font-semibold">{preview.tripsSurged}</span> fell inside the active window and would have been surged.
+                                        </span>
+                                    ) : (
+                                        <span className="text-muted-foreground">
+                                            Preview how many recent trips this zone would have surged.
+                                        </span>
+                                    )}
+                                </div>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => previewMutation.mutate()}
+                                    disabled={draft.zone_polygon.length < 3 || previewMutation.isPending}
+                                    data-testid="button-preview-zone"
+                                >
+                                    <Eye className="w-4 h-4 mr-1" />
+                                    Preview
+                                </Button>
+                            </div>
+
+                            {editingZone && (
+                                <div className="space-y-2 p-3 rounded-md border">
+                                    <Label>Manual Override</Label>
+                                    <p className="text-xs text-muted-foreground">
+                                        {editingZone.override_multiplier !== null
+                                            ? `Pinned at ${Number(editingZone.override_multiplier)}x${editingZone.override_expires_at ? ` until ${new Date(editingZone.override_expires_at).toLocaleString()}` : ''}.`
+                                            : 'Pin the multiplier regardless of demand, e.g. during an event.'}
+                                    </p>
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <Input
+                                            type="number"
+                                            step="0.1"
+                                            min="1"
+                                            placeholder="1.5"
+                                            className="w-24"
+                                            value={overrideMultiplier}
+                                            onChange={(e) => setOverrideMultiplier(e.target.value)}
+                                        />
+                                        <span className="text-sm text-muted-foreground">x for</span>
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            className="w-20"
+                                            value={overrideHours}
+                                            onChange={(e) => setOverrideHours(e.target.value)}
+                                        />
+                                        <span className="text-sm text-muted-foreground">hours</span>
+                                        <Button
+                                            size="sm"
+                                            variant="outline"
+                                            onClick={() => overrideMutation.mutate(Number(overrideMultiplier))}
+                                            disabled={!overrideMultiplier || overrideMutation.isPending}
+                                        >
+                                            <Pin className="w-4 h-4 mr-1" />
+                                            Pin
+                                        </Button>
+                                        {editingZone.override_multiplier !== null && (
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                onClick={() => overrideMutation.mutate(null)}
+                                                disabled={overrideMutation.isPending}
+                                            >
+                                                Clear override
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="flex justify-end gap-2">
+                                <Button variant="outline" onClick={stopEditing}>
+                                    Cancel
+                                </Button>
+                                <Button
+                                    onClick={() => saveMutation.mutate()}
+                                    disabled={saveMutation.isPending}
+                                    data-testid="button-save-zone"
+                                >
+                                    {saveMutation.isPending ? 'Saving...' : editingId ? 'Save Zone' : 'Create Zone'}
+                                </Button>
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            Select a zone on the map or in the list to edit it, or create a new one.
+                        </p>
+                    )}
+                </div>
+            </div>
+        </Card>
+    );
+}
@@ -17,7 +17,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Search, Users, Edit } from 'lucide-react';
+import { Search, Users, Edit, Ban } from 'lucide-react';
 import { format } from 'date-fns';
 import {
     Dialog,
@@ -35,6 +35,8 @@ import {
     SelectValue,
 } from "@/components/ui/select";
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { ADMIN_ROLES, ADMIN_ROLE_LABELS, AdminRole, hasAdminPermission } from '@shared/admin-permissions';
 
 export function UsersTab() {
     const [searchTerm, setSearchTerm] = useState('');
@@ -44,7 +46,7 @@ export function UsersTab() {
         queryFn: async () => {
             const { data, error } = await supabase
                 .from('users')
-                .select('*')
+                .select('*, user_phone_numbers(phone)')
                 .order('created_at', { ascending: false });
 
             if (error) throw error;
@@ -54,7 +56,19 @@ export function UsersTab() {
 
     const { toast } = useToast();
     const queryClient = useQueryClient();
+    const { user: currentUser } = useAuth();
     const [editingUser, setEditingUser] = useState<User | null>(null);
+    const [editRole, setEditRole] = useState('');
+
+    // The database enforces the same permissions; these only hide controls
+    const canEdit = hasAdminPermission(currentUser, 'users.edit');
+    const canBan = hasAdminPermission(currentUser, 'users.ban');
+    const canChangeRoles = hasAdminPermission(currentUser, 'users.roles');
+
+    const openEditor = (user: User) => {
+        setEditingUser(user);
+        setEditRole(user.role);
+    };
 
     // Edit User Mutation
     const updateUserMutation = useMutation({
@@ -62,10 +76,15 @@ export function UsersTab() {
             const { error } = await supabase
                 .from('users')
                 .update({
-                    full_name: values.fullName,
-                    email: values.email,
-                    phone: values.phone,
-                    role: values.role
+                    ...(canEdit && {
+                        full_name: values.fullName,
+                        email: values.email,
+                        phone: values.phone,
+                    }),
+                    ...(canChangeRoles && {
+                        role: values.role,
+                        admin_role: values.role === 'admin' ? values.adminRole : null,
+                    }),
                 })
                 .eq('id', values.id);
 
@@ -81,6 +100,24 @@ export function UsersTab() {
         }
     });
 
+    const banMutation = useMutation({
+        mutationFn: async (user: User) => {
+            const { error } = await supabase
+                .from('users')
+                .update({ is_banned: !user.isBanned })
+                .eq('id', user.id);
+
+            if (error) throw error;
+        },
+        onSuccess: (_, user) => {
+            queryClient.invalidateQueries({ queryKey: ['admin-users'] });
+            toast({ title: "Success", description: user.isBanned ? "User unbanned" : "User banned" });
+        },
+        onError: (error: any) => {
+            toast({ title: "Error", description: error.message, variant: "destructive" });
+        }
+    });
+
     const filteredUsers = users?.filter(user =>
         (user.fullName || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
         (user.email || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -120,26 +157,27 @@ export function UsersTab() {
                                         fullName: formData.get('fullName') as string,
                                         email: formData.get('email') as string,
                                         phone: formData.get('phone') as string,
-                                        role: formData.get('role') as string
+                                        role: editRole,
+                                        adminRole: formData.get('adminRole') as string
                                     });
                                 }}
                                 className="space-y-4"
                             >
                                 <div className="grid gap-2">
                                     <Label htmlFor="fullName">Full Name</Label>
-                                    <Input id="fullName" name="fullName" defaultValue={editingUser.fullName} required />
+                                    <Input id="fullName" name="fullName" defaultValue={editingUser.fullName} disabled={!canEdit} required />
                                 </div>
                                 <div className="grid gap-2">
                                     <Label htmlFor="email">Email</Label>
-                                    <Input id="email" name="email" type="email" defaultValue={editingUser.email} required />
+                                    <Input id="email" name="email" type="email" defaultValue={editingUser.email} disabled={!canEdit} required />
                                 </div>
                                 <div className="grid gap-2">
                                     <Label htmlFor="phone">Phone</Label>
-                                    <Input id="phone" name="phone" defaultValue={editingUser.phone || ''} />
+                                    <Input id="phone" name="phone" defaultValue={editingUser.phone || ''} disabled={!canEdit} />
                                 </div>
                                 <div className="grid gap-2">
                                     <Label htmlFor="role">Role</Label>
-                                    <Select name="role" defaultValue={editingUser.role}>
+                                    <Select value={editRole} onValueChange={setEditRole} disabled={!canChangeRoles}>
                                         <SelectTrigger>
                                             <SelectValue placeholder="Select role" />
                                         </SelectTrigger>
@@ -150,6 +188,21 @@ export function UsersTab() {
                                         </SelectContent>
                                     </Select>
                                 </div>
+                                {editRole === 'admin' && (
+                                    <div className="grid gap-2">
+                                        <Label htmlFor="adminRole">Admin Role</Label>
+                                        <Select name="adminRole" defaultValue={editingUser.adminRole || 'support'} disabled={!canChangeRoles}>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Select admin role" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {ADMIN_ROLES.map(role => (
+                                                    <SelectItem key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                )}
                                 <DialogFooter>
                                     <Button type="button" variant="outline" onClick={() => setEditingUser(null)}>Cancel</Button>
                                     <Button type="submit" disabled={updateUserMutation.isPending}>Save Changes</Button>
@@ -189,9 +242,14 @@ export function UsersTab() {
                                         </div>
                                     </TableCell>
                                     <TableCell>
-                                        <Badge variant="outline" className="capitalize">
-                                            {user.role}
-                                        </Badge>
+                                        <div className="flex flex-wrap gap-1">
+                                            <Badge variant="outline" className="capitalize">
+                                                {user.role === 'admin' && user.adminRole
+                                                    ? ADMIN_ROLE_LABELS[user.adminRole as AdminRole] || user.adminRole
+                                                    : user.role}
+                                            </Badge>
+                                            {user.isBanned && <Badge variant="destructive">Banned</Badge>}
+                                        </div>
                                     </TableCell>
                                     <TableCell>{user.phone || '-'}</TableCell>
                                     <TableCell>
@@ -210,9 +268,23 @@ export function UsersTab() {
                                         )}
                                     </TableCell>
                                     <TableCell className="text-right">
-                                        <Button variant="ghost" size="icon" onClick={() => setEditingUser(user)}>
-                                            <Edit className="w-4 h-4" />
-                                        </Button>
+                                        {(canEdit || canChangeRoles) && (
+                                            <Button variant="ghost" size="icon" onClick={() => openEditor(user)}>
+                                                <Edit className="w-4 h-4" />
+                                            </Button>
+                                        )}
+                                        {canBan && user.id !== currentUser?.id && (
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                title={user.isBanned ? 'Unban user' : 'Ban user'}
+                                                className={user.isBanned ? 'text-destructive' : undefined}
+                                                onClick={() => banMutation.mutate(user)}
+                                                disabled={banMutation.isPending}
+                                            >
+                                                <Ban className="w-4 h-4" />
+                                            </Button>
+                                        )}
                                     </TableCell>
                                 </TableRow>
                             ))}
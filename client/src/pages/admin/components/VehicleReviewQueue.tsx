@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getPendingVehicles, reviewVehicle, PendingVehicle } from '@/lib/vehicles-service';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, X, Car } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+export function VehicleReviewQueue() {
+    const { toast } = useToast();
+    const queryClient = useQueryClient();
+    const [rejectReasons, setRejectReasons] = useState<Record<string, string>>({});
+
+    const { data: vehicles = [], isLoading } = useQuery<PendingVehicle[]>({
+        queryKey: ['admin-pending-vehicles'],
+        queryFn: getPendingVehicles,
+    });
+
+    const reviewMutation = useMutation({
+        mutationFn: ({ vehicleId, approve }: { vehicleId: string; approve: boolean }) =>
+            reviewVehicle(vehicleId, approve, rejectReasons[vehicleId]),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['admin-pending-vehicles'] });
+            queryClient.invalidateQueries({ queryKey: ['admin-drivers-all'] });
+        },
+        onError: (error: any) => {
+            toast({ title: 'Review failed', description: error.message, variant: 'destructive' });
+        },
+    });
+
+    if (isLoading) {
+        return <div className="text-center py-12 text-muted-foreground">Loading vehicles...</div>;
+    }
+
+    if (vehicles.length === 0) {
+        return (
+            <div className="text-center py-12">
+                <Car className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">No vehicles waiting for review</p>
+            </div>
+        );
+    }
+
+    return (
+        <Table>
+            <TableHeader>
+                <TableRow>
+                    <TableHead>Driver</TableHead>
+                    <TableHead>Vehicle</TableHead>
+                    <TableHead>Plate</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {vehicles.map(vehicle => (
+                    <TableRow key={vehicle.id}>
+                        <TableCell>
+                            <div className="font-medium">{vehicle.owner?.fullName || 'Unknown'}</div>
+                            <div className="text-xs text-muted-foreground">{vehicle.owner?.email}</div>
+                        </TableCell>
+                        <TableCell>
+                            <div>{vehicle.year} {vehicle.make} {vehicle.model}</div>
+                            <div className="text-xs text-muted-foreground capitalize">
+                                {vehicle.vehicleType} · {vehicle.seatCount} seat{vehicle.seatCount === 1 ? '' : 's'}
+                                {vehicle.color && ` · ${vehicle.color}`}
+                            </div>
+                        </TableCell>
+                        <TableCell className="font-mono">{vehicle.plate}</TableCell>
+                        <TableCell>{format(new Date(vehicle.createdAt), 'MMM dd, yyyy')}</TableCell>
+                        <TableCell className="text-right">
+                            <div className="flex justify-end items-center gap-2">
+                                <Input
+                                    placeholder="Reason if rejecting"
+                                    className="h-8 w-44"
+                                    value={rejectReasons[vehicle.id] || ''}
+                                    onChange={(e) => setRejectReasons(prev => ({ ...prev, [vehicle.id]: e.target.value }))}
+                                />
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="gap-1"
+                                    onClick={() => reviewMutation.mutate({ vehicleId: vehicle.id, approve: true })}
+                                    disabled={reviewMutation.isPending}
+                                >
+                                    <Check className="w-3 h-3" />
+                                    Approve
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="gap-1 text-destructive"
+                                    onClick={() => reviewMutation.mutate({ vehicleId: vehicle.id, approve: false })}
+                                    disabled={reviewMutation.isPending}
+                                >
+                                    <X className="w-3 h-3" />
+                                    Reject
+                                </Button>
+                            </div>
+                        </TableCell>
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+    );
+}
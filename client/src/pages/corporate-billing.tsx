@@ -0,0 +1,89 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Navbar } from '@/components/Navbar';
+import { CorporateSpendPanel } from '@/components/CorporateSpendPanel';
+import { CorporatePolicyEditor } from '@/components/CorporatePolicyEditor';
+import { CorporateCodesPanel } from '@/components/CorporateCodesPanel';
+import { CorporatePlacesPanel } from '@/components/CorporatePlacesPanel';
+import { useAuth } from '@/contexts/AuthContext';
+import { getMyMembership } from '@/lib/organization-service';
+import { getCorporateAccount } from '@/lib/corporate-billing-service';
+import { Building2 } from 'lucide-react';
+
+export default function CorporateBilling() {
+    const { user } = useAuth();
+
+    const { data: membership, isLoading: membershipLoading } = useQuery({
+        queryKey: ['organization-membership', user?.id],
+        queryFn: () => getMyMembership(user!.id),
+        enabled: !!user,
+    });
+
+    const isOrgAdmin = membership?.status === 'active' && membership.role === 'admin';
+
+    const { data: account, isLoading: accountLoading } = useQuery({
+        queryKey: ['corporate-account', 'organization', membership?.organizationId],
+        queryFn: () => getCorporateAccount(membership!.organizationId),
+        enabled: isOrgAdmin,
+    });
+
+    if (membershipLoading || (isOrgAdmin && accountLoading)) {
+        return (
+            <div className="min-h-screen bg-background flex items-center justify-center">
+                <div className="text-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                    <p className="text-muted-foreground">Loading company billing...</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="min-h-screen bg-background">
+            <Navbar />
+
+            <div className="container mx-auto px-6 py-8 max-w-5xl">
+                <div className="mb-6">
+                    <h1 className="text-3xl font-bold">Company Billing</h1>
+                    <p className="text-muted-foreground mt-1">
+                        {account ? account.billingName : membership?.organization?.name}
+                    </p>
+                </div>
+
+                {!isOrgAdmin || !account ? (
+                    <Card className="p-12 text-center">
+                        <Building2 className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                        <p className="text-muted-foreground">
+                            {!isOrgAdmin
+                                ? 'Only organization admins can manage company billing.'
+                                : 'Your organization has no billing account yet. Contact support to set one up.'}
+                        </p>
+                    </Card>
+                ) : (
+                    <Tabs defaultValue="spend">
+                        <TabsList className="grid w-full max-w-xl grid-cols-4">
+                            <TabsTrigger value="spend">Spend</TabsTrigger>
+                            <TabsTrigger value="policy">Policy</TabsTrigger>
+                            <TabsTrigger value="codes">Codes</TabsTrigger>
+                            <TabsTrigger value="places">Places</TabsTrigger>
+                        </TabsList>
+
+                        <TabsContent value="spend" className="mt-6">
+                            <CorporateSpendPanel account={account} />
+                        </TabsContent>
+                        <TabsContent value="policy" className="mt-6">
+                            <CorporatePolicyEditor account={account} />
+                        </TabsContent>
+                        <TabsContent value="codes" className="mt-6">
+                            <CorporateCodesPanel account={account} />
+                        </TabsContent>
+                        <TabsContent value="places" className="mt-6">
+                            <CorporatePlacesPanel account={account} />
+                        </TabsContent>
+                    </Tabs>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -11,11 +11,14 @@ import { MapView } from '@/components/MapView';
 import { useToast } from '@/hooks/use-toast';
 import { queryClient } from '@/lib/queryClient';
 import { getRoute, Coordinates, reverseGeocode } from '@/lib/maps';
-import { calculateFare } from '@/lib/fareCalculator';
+import { calculateFare, fetchFareConfig } from '@/lib/fareCalculator';
 import { MapPin, Calendar, Users, Route as RouteIcon, Plus, X } from 'lucide-react';
-import { InsertTrip } from '@shared/schema';
+import { InsertTrip, DEFAULT_SEAT_COUNT, Vehicle } from '@shared/schema';
 import { supabase } from '@/lib/supabase';
 import { mapDriver } from '@/lib/mapper';
+import { setTripStops } from '@/lib/trip-stops-service';
+import { createRecurringTrip, WEEKDAY_LABELS } from '@/lib/recurring-trips-service';
+import { getDriverVehicles, vehicleLabel } from '@/lib/vehicles-service';
 import { useAuth } from '@/contexts/AuthContext';
 import { Navbar } from '@/components/Navbar';
 
@@ -34,21 +37,30 @@ export default function CreateTrip() {
   const [waypoints, setWaypoints] = useState<{ id: string; location: string; coords: Coordinates }[]>([]);
   const [departureDate, setDepartureDate] = useState('');
   const [departureTime, setDepartureTime] = useState('');
+  // Commutes repeat on the chosen weekdays from departureDate until repeatUntil
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [repeatUntil, setRepeatUntil] = useState('');
   const [seats, setSeats] = useState('4');
+  const [vehicleId, setVehicleId] = useState<string>();
   const [pricePerSeat, setPricePerSeat] = useState('');
   const [preferences, setPreferences] = useState<{
     music: boolean;
     vehicleType: 'car' | 'auto' | 'bike';
     smoking: boolean;
     pets: boolean;
+    dropoffPin: boolean;
   }>({
     music: true,
     vehicleType: 'car',
     smoking: false,
-    pets: false
+    pets: false,
+    dropoffPin: false
   });
 
-  const [routeInfo, setRouteInfo] = useState<{ distance: number; duration: number; route: Coordinates[] }>();
+  const validWaypoints = waypoints.filter(w => w.coords.lat !== 0 && w.location);
+
+  const [routeInfo, setRouteInfo] = useState<{ distance: number; duration: number; route: Coordinates[]; legs?: { distance: number }[] }>();
   const [selectionMode, setSelectionMode] = useState<'pickup' | 'drop' | null>(null);
 
   const handleMapClick = async (coords: Coordinates) => {
@@ -91,6 +103,27 @@ export default function CreateTrip() {
     enabled: !!user,
   });
 
+  const { data: vehicles = [] } = useQuery({
+    queryKey: ['driver-vehicles', driverProfile?.id],
+    queryFn: () => getDriverVehicles(driverProfile!.id),
+    enabled: !!driverProfile,
+  });
+
+  const verifiedVehicles = vehicles.filter(v => v.verificationStatus === 'verified');
+  const selectedVehicle = verifiedVehicles.find(v => v.id === vehicleId);
+
+  const selectVehicle = (vehicle: Vehicle) => {
+    setVehicleId(vehicle.id);
+    setPreferences(prev => ({ ...prev, vehicleType: vehicle.vehicleType }));
+    setSeats(String(vehicle.seatCount));
+  };
+
+  // Start from the active vehicle
+  useEffect(() => {
+    if (vehicleId || verifiedVehicles.length === 0) return;
+    selectVehicle(verifiedVehicles.find(v => v.id === driverProfile?.activeVehicleId) || verifiedVehicles[0]);
+  }, [verifiedVehicles, vehicleId, driverProfile]);
+
   // ... (keep redirect effect)
   // Redirect if not a driver or not verified
   // Redirect if not a driver or not verified
@@ -115,9 +148,34 @@ export default function CreateTrip() {
   // ... (keep mutation and calculation logic)
   const createTripMutation = useMutation({
     mutationFn: async (tripData: Partial<InsertTrip>) => {
+      if (isRecurring) {
+        return createRecurringTrip({
+          driverId: tripData.driverId!,
+          vehicleId,
+          pickupLocation: tripData.pickupLocation!,
+          pickupLat: Number(tripData.pickupLat),
+          pickupLng: Number(tripData.pickupLng),
+          dropLocation: tripData.dropLocation!,
+          dropLat: Number(tripData.dropLat),
+          dropLng: Number(tripData.dropLng),
+          stops: getRouteStops(),
+          route: tripData.route,
+          distance: tripData.distance!,
+          duration: tripData.duration!,
+          pricePerSeat: Number(tripData.pricePerSeat),
+          totalSeats: tripData.totalSeats!,
+          preferences,
+          weekdays,
+          departureTime,
+          startsOn: departureDate,
+          endsOn: repeatUntil || undefined,
+        });
+      }
+
       // Map to snake_case
       const dbTrip = {
         driver_id: tripData.driverId,
+        vehicle_id: vehicleId || null,
         pickup_location: tripData.pickupLocation,
         pickup_lat: tripData.pickupLat,
         pickup_lng: tripData.pickupLng,
@@ -137,12 +195,26 @@ export default function CreateTrip() {
 
       const { data, error } = await supabase.from('trips').insert(dbTrip).select().single();
       if (error) throw error;
+
+      // Origin and destination stops are created with the trip; add the stops in between
+      const stops = getRouteStops();
+      if (stops.length > 2) {
+        try {
+          await setTripStops(data.id, stops);
+        } catch (stopsError) {
+          // Don't leave a trip behind without the stops the driver asked for
+          await supabase.from('trips').delete().eq('id', data.id);
+          throw stopsError;
+        }
+      }
       return data;
     },
     onSuccess: () => {
       toast({
-        title: 'Trip created successfully!',
-        description: 'Your trip has been published and is now visible to passengers.',
+        title: isRecurring ? 'Commute created successfully!' : 'Trip created successfully!',
+        description: isRecurring
+          ? 'Trips for the next two weeks are published. New days are added automatically.'
+          : 'Your trip has been published and is now visible to passengers.',
       });
       queryClient.invalidateQueries({ queryKey: ['my-created-trips'] });
       navigate('/my-trips');
@@ -160,22 +232,22 @@ export default function CreateTrip() {
     if (!pickupCoords || !dropCoords) return;
 
     try {
-      const route = await getRoute(pickupCoords, dropCoords, waypoints.map(w => w.coords));
+      const route = await getRoute(pickupCoords, dropCoords, validWaypoints.map(w => w.coords));
       setRouteInfo({
         distance: route.distance,
         duration: route.duration,
-        route: route.geometry
+        route: route.geometry,
+        legs: route.legs
       });
 
       // Calculate suggested price based on distance and demand
       const distance = route.distance;
-      // Use centralized fare calculator for selected vehicle type
-      // const distance = route.distance; // Already declared above
-      const fareBreakdown = calculateFare(preferences.vehicleType, distance, route.duration);
-      // For car, we can suggest splitting by 4. For auto/bike, maybe different logic?
-      // Keeping it simple: Base Suggestion = Total Fare / Typical Capacity
-      const typicalCapacity = preferences.vehicleType === 'bike' ? 1 : preferences.vehicleType === 'auto' ? 3 : 4;
-      const basePrice = Math.round(fareBreakdown.totalFare / typicalCapacity);
+      // Use centralized fare calculator with the fare_config rates for the selected vehicle type
+      const fareConfig = await fetchFareConfig();
+      const fareBreakdown = calculateFare(preferences.vehicleType, distance, route.duration, 1, fareConfig);
+      // Base Suggestion = Total Fare / the vehicle's seats
+      const capacity = selectedVehicle?.seatCount || DEFAULT_SEAT_COUNT[preferences.vehicleType];
+      const basePrice = Math.round(fareBreakdown.totalFare / capacity);
 
       // Check similar trips for dynamic pricing
       // This is a simplified "demand" check
@@ -220,7 +292,30 @@ export default function CreateTrip() {
     if (pickupCoords && dropCoords) {
       calculateRoute();
     }
-  }, [pickupCoords, dropCoords, waypoints]);
+  }, [pickupCoords, dropCoords, waypoints, vehicleId]);
+
+  // Ordered stops with road distance from the origin, used to price partial rides
+  const getRouteStops = () => {
+    if (!pickupCoords || !dropCoords) return [];
+
+    const points = [
+      { location: pickup, ...pickupCoords },
+      ...validWaypoints.map(w => ({ location: w.location, ...w.coords })),
+      { location: drop, ...dropCoords }
+    ];
+    const legs = routeInfo?.legs?.length === points.length - 1 ? routeInfo.legs : undefined;
+
+    let distanceKm = 0;
+    return points.map((point, index) => {
+      if (index > 0 && legs) distanceKm += legs[index - 1].distance;
+      return {
+        location: point.location,
+        lat: point.lat,
+        lng: point.lng,
+        ...(legs && { distanceKm })
+      };
+    });
+  };
 
   const addWaypoint = () => {
     setWaypoints([...waypoints, { id: crypto.randomUUID(), location: '', coords: { lat: 0, lng: 0 } }]);
@@ -258,6 +353,24 @@ export default function CreateTrip() {
       return;
     }
 
+    if (vehicles.length > 0 && !selectedVehicle) {
+      toast({
+        title: 'Missing information',
+        description: 'Choose a verified vehicle for this trip',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (isRecurring && weekdays.length === 0) {
+      toast({
+        title: 'Missing information',
+        description: 'Pick at least one day for your commute',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     const departureDateTime = new Date(`${departureDate}T${departureTime}`).toISOString();
 
     createTripMutation.mutate({
@@ -284,7 +397,7 @@ export default function CreateTrip() {
 
   const markers = pickupCoords && dropCoords ? [
     { id: 'pickup', coordinates: pickupCoords, color: '#22c55e', popup: pickup },
-    ...waypoints.map((w, i) => ({
+    ...validWaypoints.map((w, i) => ({
       id: `waypoint-${i}`,
       coordinates: w.coords,
       color: '#3b82f6',
@@ -391,6 +504,11 @@ export default function CreateTrip() {
                     Add Stop
                   </Button>
                 </div>
+                {validWaypoints.length > 0 && (
+                  <p className="text-xs text-muted-foreground text-center">
+                    Passengers can book between any two stops. Their fare is your seat price pro-rated by distance.
+                  </p>
+                )}
 
                 <div>
                   <div className="flex justify-between items-center">
@@ -439,7 +557,7 @@ export default function CreateTrip() {
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="date">Departure Date</Label>
+                  <Label htmlFor="date">{isRecurring ? 'First Day' : 'Departure Date'}</Label>
                   <Input
                     id="date"
                     type="date"
@@ -462,6 +580,57 @@ export default function CreateTrip() {
                   />
                 </div>
               </div>
+
+              <div className="mt-4 pt-4 border-t space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="recurring" className="text-base">Repeat weekly</Label>
+                    <p className="text-sm text-muted-foreground">For a regular commute; trips are added two weeks ahead</p>
+                  </div>
+                  <Switch
+                    id="recurring"
+                    checked={isRecurring}
+                    onCheckedChange={setIsRecurring}
+                    data-testid="switch-recurring"
+                  />
+                </div>
+
+                {isRecurring && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="md:col-span-2">
+                      <Label className="mb-2 block">Days</Label>
+                      <div className="flex gap-2">
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <Button
+                            key={label}
+                            type="button"
+                            size="sm"
+                            variant={weekdays.includes(day) ? 'default' : 'outline'}
+                            className="flex-1 px-0"
+                            onClick={() => setWeekdays(weekdays.includes(day)
+                              ? weekdays.filter(d => d !== day)
+                              : [...weekdays, day].sort((a, b) => a - b))}
+                            data-testid={`button-weekday-${day}`}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="repeat-until">Repeat Until (optional)</Label>
+                      <Input
+                        id="repeat-until"
+                        type="date"
+                        min={departureDate}
+                        value={repeatUntil}
+                        onChange={(e) => setRepeatUntil(e.target.value)}
+                        data-testid="input-repeat-until"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
             </Card>
 
             <Card className="p-6">
@@ -472,20 +641,28 @@ export default function CreateTrip() {
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="md:col-span-2">
-                  <Label className="text-base mb-2 block">Vehicle Type</Label>
-                  <div className="flex gap-4">
-                    {(['car', 'auto', 'bike'] as const).map((type) => (
-                      <div key={type} className="flex items-center space-x-2 border p-3 rounded-md flex-1 hover:bg-muted cursor-pointer" onClick={() => setPreferences({ ...preferences, vehicleType: type })}>
-                        <div className={`w-4 h-4 rounded-full border flex items-center justify-center ${preferences.vehicleType === type ? 'border-primary' : 'border-muted-foreground'}`}>
-                          {preferences.vehicleType === type && <div className="w-2 h-2 rounded-full bg-primary" />}
+                  <Label className="text-base mb-2 block">Vehicle</Label>
+                  {verifiedVehicles.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      {vehicles.length > 0
+                        ? 'Your vehicles are still being verified.'
+                        : 'Add a vehicle from your driver profile to choose it here.'}
+                    </p>
+                  ) : (
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {verifiedVehicles.map((vehicle) => (
+                        <div key={vehicle.id} className="flex items-center space-x-2 border p-3 rounded-md hover:bg-muted cursor-pointer" onClick={() => selectVehicle(vehicle)}>
+                          <div className={`w-4 h-4 rounded-full border flex items-center justify-center ${vehicleId === vehicle.id ? 'border-primary' : 'border-muted-foreground'}`}>
+                            {vehicleId === vehicle.id && <div className="w-2 h-2 rounded-full bg-primary" />}
+                          </div>
+                          <span className="font-medium truncate">{vehicleLabel(vehicle)}</span>
+                          <span className="text-xs text-muted-foreground ml-auto whitespace-nowrap">
+                            {vehicle.seatCount} Seat
+                          </span>
                         </div>
-                        <span className="capitalize font-medium">{type}</span>
-                        <span className="text-xs text-muted-foreground ml-auto">
-                          {type === 'car' ? '4 Seat' : type === 'auto' ? '3 Seat' : '1 Seat'}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div>
                   <Label htmlFor="seats">Available Seats</Label>
@@ -493,7 +670,7 @@ export default function CreateTrip() {
                     id="seats"
                     type="number"
                     min="1"
-                    max="7"
+                    max={selectedVehicle?.seatCount || 7}
                     value={seats}
                     onChange={(e) => setSeats(e.target.value)}
                     required
@@ -564,6 +741,19 @@ export default function CreateTrip() {
                     data-testid="switch-music"
                   />
                 </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="dropoff-pin" className="text-base">Drop-off PIN</Label>
+                    <p className="text-sm text-muted-foreground">Passengers confirm drop-off with a second PIN</p>
+                  </div>
+                  <Switch
+                    id="dropoff-pin"
+                    checked={preferences.dropoffPin}
+                    onCheckedChange={(checked) => setPreferences({ ...preferences, dropoffPin: checked })}
+                    data-testid="switch-dropoff-pin"
+                  />
+                </div>
               </div>
             </Card>
 
@@ -574,7 +764,7 @@ export default function CreateTrip() {
               disabled={createTripMutation.isPending || !pickupCoords || !dropCoords || !departureDate || !departureTime}
               data-testid="button-publish-trip"
             >
-              {createTripMutation.isPending ? 'Publishing...' : 'Publish Trip'}
+              {createTripMutation.isPending ? 'Publishing...' : isRecurring ? 'Publish Commute' : 'Publish Trip'}
             </Button>
           </form>
         </div>
@@ -12,6 +12,8 @@ import { ArrowLeft, Car, FileText, CheckCircle, Upload, X } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { mapDriver } from '@/lib/mapper';
+import { DriverDocumentsCard } from '@/components/DriverDocumentsCard';
+import { DriverVehiclesCard } from '@/components/DriverVehiclesCard';
 
 export default function DriverOnboarding() {
     const [, navigate] = useLocation();
@@ -91,13 +93,11 @@ export default function DriverOnboarding() {
                     vehicle_photos: data.vehiclePhotos,
                     verification_status: 'pending', // Reset to pending on update
                     is_available: false,
-                    // Preserve existing stats if updating
+                    // Preserve existing stats if updating; rating is kept by the database
                     ...(existingDriver ? {
                         updated_at: new Date().toISOString(),
-                        rating: existingDriver.rating,
                         total_trips: existingDriver.totalTrips
                     } : {
-                        rating: 0,
                         total_trips: 0
                     })
                 }, { onConflict: 'user_id' });
@@ -479,6 +479,9 @@ export default function DriverOnboarding() {
                                 </div>
                             </div>
                         </Card>
+
+                        {existingDriver && <DriverVehiclesCard driverId={existingDriver.id} activeVehicleId={existingDriver.activeVehicleId} />}
+                        {existingDriver && user && <DriverDocumentsCard driverId={existingDriver.id} userId={user.id} />}
                     </div>
                 </div>
             </div>
@@ -4,13 +4,34 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Navigation, Clock, IndianRupee } from 'lucide-react';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Navigation, Clock, IndianRupee, ShieldCheck } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { Navbar } from '@/components/Navbar';
 import { useToast } from '@/hooks/use-toast';
 import { RideRequest } from '@shared/schema';
 import { useAuth } from '@/contexts/AuthContext';
 import { mapDriver } from '@/lib/mapper';
+import { getBookingRequests, respondToBookingRequest, setAutoApproveThreshold } from '@/lib/no-show-service';
+import { RideRequestMarketplace } from '@/components/RideRequestMarketplace';
+import { getActiveVehicle } from '@/lib/vehicles-service';
+
+function ReliabilityBadge({ score, threshold }: { score?: number | null; threshold?: number | null }) {
+    if (score == null) return null;
+    const belowThreshold = threshold != null && score < threshold;
+    return (
+        <Badge variant={belowThreshold ? 'destructive' : 'secondary'} className="gap-1 text-xs">
+            <ShieldCheck className="w-3 h-3" />
+            {Math.round(score)}% reliable
+        </Badge>
+    );
+}
 
 export default function DriverRequests() {
     const [, navigate] = useLocation();
@@ -39,8 +60,9 @@ export default function DriverRequests() {
             // 1. Get pending requests
             const { data: requestData, error: requestError } = await supabase
                 .from('ride_requests')
-                .select('*')
+                .select('*, passenger:users(reliability_score)')
                 .in('status', ['pending', 'searching'])
+                .eq('is_marketplace', false) // Posted requests are answered with offers below
                 .order('created_at', { ascending: false });
 
             if (requestError) throw requestError;
@@ -77,6 +99,7 @@ export default function DriverRequests() {
                 duration: item.duration,
                 status: item.status,
                 seats: item.seats,
+                passengerReliability: item.passenger?.reliability_score != null ? Number(item.passenger.reliability_score) : null,
                 createdAt: item.created_at,
                 updatedAt: item.updated_at
             }));
@@ -101,6 +124,37 @@ export default function DriverRequests() {
         enabled: !!driverProfile // requests query depends on driverProfile
     });
 
+    // Bookings held for approval because of the passenger's reliability
+    const { data: bookingRequests = [] } = useQuery({
+        queryKey: ['booking-requests', driverProfile?.id],
+        queryFn: () => getBookingRequests(driverProfile!.id),
+        refetchInterval: 15000,
+        enabled: !!driverProfile
+    });
+
+    const respondMutation = useMutation({
+        mutationFn: ({ bookingId, approve }: { bookingId: string; approve: boolean }) =>
+            respondToBookingRequest(bookingId, approve),
+        onSuccess: (_, { approve }) => {
+            queryClient.invalidateQueries({ queryKey: ['booking-requests'] });
+            toast({ title: approve ? "Booking Approved" : "Booking Declined" });
+        },
+        onError: (error: any) => {
+            toast({ title: "Failed to respond", description: error.message, variant: "destructive" });
+        }
+    });
+
+    const thresholdMutation = useMutation({
+        mutationFn: (threshold: number | null) => setAutoApproveThreshold(driverProfile!.id, threshold),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['my-driver-profile'] });
+            toast({ title: "Auto-approval Updated" });
+        },
+        onError: (error: any) => {
+            toast({ title: "Update Failed", description: error.message, variant: "destructive" });
+        }
+    });
+
     // Play sound on new request
     useEffect(() => {
         if (requests && requests.length > previousRequestCount.current) {
@@ -235,7 +289,10 @@ export default function DriverRequests() {
                         .eq('id', tripId);
 
                 } else {
-                    // Create New Trip
+                    // Create New Trip, sized to the vehicle the driver is driving
+                    const vehicle = await getActiveVehicle(driverProfile.id);
+                    const totalSeats = vehicle?.seatCount ?? 4;
+
                     const { data: trip, error: tripError } = await supabase
                         .from('trips')
                         .insert({
@@ -251,8 +308,9 @@ export default function DriverRequests() {
                             distance: request.distance,
                             duration: request.duration,
                             price_per_seat: request.fare,
-                            available_seats: 3, // Assuming 4 seater - 1
-                            total_seats: 4,
+                            available_seats: totalSeats - 1,
+                            total_seats: totalSeats,
+                            vehicle_id: vehicle?.id ?? null,
                             status: 'ongoing',
                             preferences: {},
                         })
@@ -302,7 +360,8 @@ export default function DriverRequests() {
                         })
                         .eq('passenger_id', request.passengerId)
                         .neq('id', request.id) // Don't cancel the one we just accepted
-                        .in('status', ['pending', 'searching']);
+                        .in('status', ['pending', 'searching'])
+                        .eq('is_marketplace', false);
                 } catch (cleanupError) {
                     console.error("Non-fatal error: Failed to auto-cancel sibling requests", cleanupError);
                 }
@@ -351,7 +410,8 @@ export default function DriverRequests() {
             const { data: allRequests } = await supabase
                 .from('ride_requests')
                 .select('*')
-                .in('status', ['pending', 'searching']);
+                .in('status', ['pending', 'searching'])
+                .eq('is_marketplace', false);
 
             if (!allRequests || allRequests.length === 0) return;
 
@@ -422,6 +482,78 @@ export default function DriverRequests() {
                     </Button>
                 </div>
 
+                <Card className="p-4 mb-6 flex items-center justify-between gap-4">
+                    <div>
+                        <div className="font-medium text-sm">Auto-approve bookings</div>
+                        <div className="text-xs text-muted-foreground">
+                            Passengers below this reliability score need your approval to book.
+                        </div>
+                    </div>
+                    <Select
+                        value={driverProfile?.minAutoApproveReliability != null ? String(driverProfile.minAutoApproveReliability) : 'all'}
+                        onValueChange={(value) => thresholdMutation.mutate(value === 'all' ? null : Number(value))}
+                        disabled={!driverProfile || thresholdMutation.isPending}
+                    >
+                        <SelectTrigger className="w-36">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all">Everyone</SelectItem>
+                            <SelectItem value="70">70% and above</SelectItem>
+                            <SelectItem value="80">80% and above</SelectItem>
+                            <SelectItem value="90">90% and above</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </Card>
+
+                {bookingRequests.length > 0 && (
+                    <div className="space-y-3 mb-6">
+                        <h2 className="text-lg font-semibold">Booking Requests ({bookingRequests.length})</h2>
+                        {bookingRequests.map((booking) => (
+                            <Card key={booking.id} className="p-4 border-l-4 border-l-warning">
+                                <div className="flex justify-between items-start gap-4">
+                                    <div className="space-y-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="font-medium">{booking.passenger?.fullName}</span>
+                                            <ReliabilityBadge score={booking.passenger?.reliabilityScore} />
+                                        </div>
+                                        <div className="text-sm text-muted-foreground">
+                                            {booking.pickupLocation || booking.trip?.pickupLocation} → {booking.dropLocation || booking.trip?.dropLocation}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground">
+                                            {booking.seatsBooked} seat{booking.seatsBooked === 1 ? '' : 's'}
+                                            {booking.passenger?.noShowCount ? ` · ${booking.passenger.noShowCount} no-show${booking.passenger.noShowCount === 1 ? '' : 's'}` : ''}
+                                        </div>
+                                    </div>
+                                    <div className="font-bold flex items-center">
+                                        <IndianRupee className="w-4 h-4" />
+                                        {booking.totalAmount}
+                                    </div>
+                                </div>
+                                <div className="flex gap-2 mt-4">
+                                    <Button
+                                        variant="outline"
+                                        className="flex-1"
+                                        onClick={() => respondMutation.mutate({ bookingId: booking.id, approve: false })}
+                                        disabled={respondMutation.isPending}
+                                    >
+                                        Decline
+                                    </Button>
+                                    <Button
+                                        className="flex-1"
+                                        onClick={() => respondMutation.mutate({ bookingId: booking.id, approve: true })}
+                                        disabled={respondMutation.isPending}
+                                    >
+                                        Approve
+                                    </Button>
+                                </div>
+                            </Card>
+                        ))}
+                    </div>
+                )}
+
+                {driverProfile && <RideRequestMarketplace driver={driverProfile} />}
+
                 <div className="space-y-4">
                     {requests && requests.length === 0 && (
                         <div className="text-center py-10 text-muted-foreground">
@@ -434,6 +566,7 @@ export default function DriverRequests() {
                             <div className="flex justify-between items-start mb-4">
                                 <div className="flex items-center gap-2">
                                     <Badge variant="outline" className="uppercase text-xs">{req.vehicleType}</Badge>
+                                    <ReliabilityBadge score={req.passengerReliability} threshold={driverProfile?.minAutoApproveReliability} />
                                     <span className="text-xs text-muted-foreground">{new Date(req.createdAt).toLocaleTimeString()}</span>
                                 </div>
                                 <div className="font-bold text-lg flex items-center text-green-600">
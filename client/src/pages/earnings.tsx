@@ -8,7 +8,15 @@ import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
 import { queryClient } from '@/lib/queryClient';
 import { useAuth } from '@/contexts/AuthContext';
-import { ArrowLeft, DollarSign, TrendingUp, Calendar, Download } from 'lucide-react';
+import {
+    requestPayout,
+    getDriverPayouts,
+    getPayoutStatement,
+    downloadStatementCsv,
+    downloadStatementPdf,
+    type DriverPayout,
+} from '@/lib/payout-service';
+import { ArrowLeft, DollarSign, TrendingUp, Calendar, Download, FileText } from 'lucide-react';
 import { format, subDays } from 'date-fns';
 import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from 'recharts';
 
@@ -93,14 +101,16 @@ export default function Earnings() {
         enabled: !!driverProfile,
     });
 
+    const { data: payouts } = useQuery({
+        queryKey: ['driver-payouts', driverProfile?.id],
+        queryFn: () => getDriverPayouts(driverProfile!.id),
+        enabled: !!driverProfile,
+    });
+
     const requestPayoutMutation = useMutation({
         mutationFn: async () => {
             if (!driverProfile) return;
-            const { data, error } = await supabase.rpc('request_payout', {
-                p_driver_id: driverProfile.id
-            });
-
-            if (error) throw error;
+            const data = await requestPayout(driverProfile.id);
             if (!data.success) throw new Error(data.message);
             return data;
         },
@@ -110,6 +120,7 @@ export default function Earnings() {
                 description: `Successfully requested ₹${data.amount}.`,
             });
             queryClient.invalidateQueries({ queryKey: ['earnings'] });
+            queryClient.invalidateQueries({ queryKey: ['driver-payouts'] });
         },
         onError: (error: any) => {
             toast({
@@ -120,6 +131,31 @@ export default function Earnings() {
         }
     });
 
+    const downloadStatement = async (payout: DriverPayout, kind: 'pdf' | 'csv') => {
+        const statement = await getPayoutStatement(payout.id);
+        if (!statement) {
+            toast({
+                title: 'Download Failed',
+                description: 'Could not load the settlement statement',
+                variant: 'destructive',
+            });
+            return;
+        }
+
+        if (kind === 'pdf') {
+            await downloadStatementPdf(statement);
+        } else {
+            downloadStatementCsv(statement);
+        }
+    };
+
+    const payoutStatusClass: Record<DriverPayout['status'], string> = {
+        requested: 'text-warning',
+        processing: 'text-warning',
+        paid: 'text-success',
+        failed: 'text-destructive',
+    };
+
 
     if (!user || user.role === 'passenger') {
         return (
@@ -218,6 +254,53 @@ export default function Earnings() {
                     )}
                 </Card>
 
+                {/* Payouts & Statements */}
+                <Card className="p-6 mb-8">
+                    <h2 className="text-lg font-semibold mb-6">Payouts & Statements</h2>
+
+                    <div className="space-y-4">
+                        {payouts && payouts.length > 0 ? (
+                            payouts.map((payout) => (
+                                <div key={payout.id} className="flex items-center justify-between p-4 border rounded-lg">
+                                    <div className="flex-1">
+                                        <div className="font-medium">
+                                            {payout.source === 'weekly' ? 'Weekly settlement' : 'Requested payout'}
+                                        </div>
+                                        <div className="text-sm text-muted-foreground">
+                                            {payout.period_start
+                                                ? `${format(new Date(payout.period_start), 'MMM dd')} – ${format(new Date(payout.period_end), 'MMM dd, yyyy')}`
+                                                : `Until ${format(new Date(payout.period_end), 'MMM dd, yyyy')}`}
+                                        </div>
+                                        {payout.status === 'failed' && payout.failure_reason && (
+                                            <div className="text-xs text-destructive mt-1">{payout.failure_reason}</div>
+                                        )}
+                                    </div>
+                                    <div className="text-right mr-4">
+                                        <div className="font-semibold">₹{Number(payout.net_amount).toFixed(2)}</div>
+                                        <div className={`text-xs capitalize ${payoutStatusClass[payout.status]}`}>
+                                            {payout.status}
+                                        </div>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button variant="outline" size="sm" onClick={() => downloadStatement(payout, 'pdf')}>
+                                            <FileText className="w-4 h-4 mr-1" />
+                                            PDF
+                                        </Button>
+                                        <Button variant="outline" size="sm" onClick={() => downloadStatement(payout, 'csv')}>
+                                            <Download className="w-4 h-4 mr-1" />
+                                            CSV
+                                        </Button>
+                                    </div>
+                                </div>
+                            ))
+                        ) : (
+                            <div className="text-center py-8 text-muted-foreground">
+                                No payouts yet
+                            </div>
+                        )}
+                    </div>
+                </Card>
+
                 {/* Transactions List */}
                 <Card className="p-6">
                     <div className="flex items-center justify-between mb-6">
@@ -9,6 +9,8 @@ import { Navbar } from '@/components/Navbar';
 import { RecentSearches, PopularRoutes } from '@/components/SearchSuggestions';
 import { RepeatRideButton } from '@/components/RepeatRideButton';
 import { FavoriteRoutes } from '@/components/FavoriteRoutes';
+import { SavedSearchAlerts } from '@/components/SavedSearchAlerts';
+import { PostedRideRequests } from '@/components/PostedRideRequests';
 import { SafetyTips } from '@/components/SafetyTips';
 import { CarbonFootprint } from '@/components/CarbonFootprint';
 import { RidePreferences } from '@/components/RidePreferences';
@@ -287,6 +289,8 @@ export default function Home() {
           <div className="space-y-6">
             <RepeatRideButton />
             <FavoriteRoutes />
+            <SavedSearchAlerts />
+            <PostedRideRequests />
             {userStats && (
               <CarbonFootprint
                 totalDistance={userStats.totalDistance}
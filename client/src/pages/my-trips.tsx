@@ -8,21 +8,26 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Calendar, MapPin, Users, Star, Plus, MessageCircle } from 'lucide-react';
-import { TripWithDriver, BookingWithDetails, RideRequest } from '@shared/schema';
+import { TripWithDriver, BookingWithDetails, RideRequest, RatingCategory } from '@shared/schema';
 import { format } from 'date-fns';
 import { RatingModal } from '@/components/RatingModal';
 import { ChatDialog } from '@/components/ChatDialog';
+import { CancelDialog } from '@/components/CancelDialog';
 import { useUnreadMessagesForTrips } from '@/hooks/useUnreadMessages';
 import { Navbar } from '@/components/Navbar';
 import { supabase } from '@/lib/supabase';
 import { mapBooking, mapTrip, mapRideRequest } from '@/lib/mapper';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { cancelBooking, cancelTrip } from '@/lib/cancellation-service';
+import { submitRating } from '@/lib/ratings-service';
+import { canPerform } from '@shared/lifecycle';
 
 export default function MyTrips() {
   const [, navigate] = useLocation();
   const [activeTab, setActiveTab] = useState('bookings');
   const [ratingBooking, setRatingBooking] = useState<BookingWithDetails | null>(null);
+  const [cancellingBookingId, setCancellingBookingId] = useState<string | null>(null);
   const [chatState, setChatState] = useState<{
     isOpen: boolean;
     tripId: string;
@@ -119,6 +124,7 @@ export default function MyTrips() {
         .select('*')
         .eq('passenger_id', user.id)
         .in('status', ['pending', 'searching', 'matched', 'accepted', 'completed', 'cancelled'])
+        .eq('is_marketplace', false)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -211,7 +217,7 @@ export default function MyTrips() {
           const toCancel = group.filter(t => t.id !== toKeep.id);
 
           for (const t of toCancel) {
-            await supabase.from('trips').update({ status: 'cancelled' }).eq('id', t.id);
+            await cancelTrip(t.id, 'Duplicate trip');
             removed++;
           }
         }
@@ -244,7 +250,7 @@ export default function MyTrips() {
   const { toast } = useToast();
 
   const ratingMutation = useMutation({
-    mutationFn: async (data: { tripId: string; rating: number; feedback: string; tags: string[] }) => {
+    mutationFn: async (data: { tripId: string; rating: number; feedback: string; tags: string[]; categories: Partial<Record<RatingCategory, number>> }) => {
       if (!user) throw new Error("Must be logged in");
       if (!ratingBooking) throw new Error("No booking selected");
 
@@ -255,20 +261,20 @@ export default function MyTrips() {
         ? `${data.feedback}\n\nTags: ${data.tags.join(', ')}`
         : data.feedback;
 
-      const { error } = await supabase.from('ratings').insert({
-        trip_id: data.tripId,
-        from_user_id: user.id,
-        to_user_id: driverUserId,
+      return submitRating({
+        tripId: data.tripId,
+        toUserId: driverUserId,
         rating: data.rating,
+        categories: data.categories,
         review: reviewText.trim(),
       });
-
-      if (error) throw error;
     },
-    onSuccess: () => {
+    onSuccess: ({ revealed }) => {
       toast({
         title: "Rating Submitted",
-        description: "Thank you for sharing your experience!",
+        description: revealed
+          ? "Thank you! You can now see each other's ratings."
+          : "Thank you! Your driver will see it once they rate you.",
       });
       setRatingBooking(null);
     },
@@ -285,29 +291,26 @@ export default function MyTrips() {
 
 
   const cancelBookingMutation = useMutation({
-    mutationFn: async (bookingId: string) => {
-      // 1. Update booking status
-      const { data: booking, error: bookingError } = await supabase
-        .from('bookings')
-        .update({ status: 'cancelled' })
-        .eq('id', bookingId)
-        .select()
-        .single();
-
-      if (bookingError) throw bookingError;
-
-      // 2. Increment available seats (Optimistic: assume it succeeds)
-      const seats = booking.seats_booked;
-      const tripId = booking.trip_id;
-
-      const { data: trip } = await supabase.from('trips').select('available_seats').eq('id', tripId).single();
-      if (trip) {
-        await supabase.from('trips').update({ available_seats: trip.available_seats + seats }).eq('id', tripId);
-      }
-      return booking;
+    mutationFn: async ({ bookingId, reason }: { bookingId: string; reason: string }) => {
+      // Seats are released by the booking triggers; the refund follows the cancellation policy
+      return cancelBooking(bookingId, reason);
     },
-    onSuccess: () => {
+    onSuccess: (refund) => {
       queryClient.invalidateQueries({ queryKey: ['my-bookings'] });
+      setCancellingBookingId(null);
+      toast({
+        title: "Booking Cancelled",
+        description: refund && refund.refund_amount > 0
+          ? `₹${refund.refund_amount} will be refunded to your ${refund.refund_method === 'wallet' ? 'wallet' : 'original payment method'}.`
+          : "Your booking has been cancelled.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cancellation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
     },
   });
 
@@ -490,11 +493,11 @@ export default function MyTrips() {
                                 Rate Driver
                               </Button>
                             )}
-                            {(booking.status === 'confirmed' || booking.status === 'pending') && new Date(booking.trip.departureTime) > new Date() && booking.paymentStatus !== 'paid' && booking.paymentStatus !== 'PAID' && booking.paymentStatus !== 'success' && (
+                            {canPerform('booking', booking.status, 'passenger', 'cancel') && new Date(booking.trip.departureTime) > new Date() && (
                               <Button
                                 className="flex-1"
                                 variant="destructive"
-                                onClick={() => cancelBookingMutation.mutate(booking.id)}
+                                onClick={() => setCancellingBookingId(booking.id)}
                                 disabled={cancelBookingMutation.isPending}
                               >
                                 Cancel Booking
@@ -624,13 +627,14 @@ export default function MyTrips() {
         <RatingModal
           isOpen={!!ratingBooking}
           onClose={() => setRatingBooking(null)}
-          onSubmit={(rating, feedback, tags) => {
+          onSubmit={(rating, feedback, tags, categories) => {
             const fullReview = `${feedback}\n\nTags: ${tags.join(', ')}`;
             ratingMutation.mutate({
               tripId: ratingBooking.trip.id,
               rating,
               feedback: fullReview,
-              tags
+              tags,
+              categories
             });
           }}
           tripDetails={{
@@ -643,6 +647,20 @@ export default function MyTrips() {
         />
       )}
 
+      <CancelDialog
+        isOpen={!!cancellingBookingId}
+        onClose={() => setCancellingBookingId(null)}
+        onConfirm={(reason, details) => {
+          if (!cancellingBookingId) return;
+          cancelBookingMutation.mutate({
+            bookingId: cancellingBookingId,
+            reason: details ? `${reason}: ${details}` : reason,
+          });
+        }}
+        type="booking"
+        bookingId={cancellingBookingId ?? undefined}
+        loading={cancelBookingMutation.isPending}
+      />
 
       <ChatDialog
         isOpen={chatState.isOpen}
@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { confirmWorkEmail } from '@/lib/organization-service';
+import { Building2, Loader2 } from 'lucide-react';
+
+export default function OrganizationVerify() {
+    const [, navigate] = useLocation();
+    const { refreshSession } = useAuth();
+    const [title, setTitle] = useState('Confirming your work email');
+    const [message, setMessage] = useState('');
+    const [loading, setLoading] = useState(true);
+    // The link is single-use, so don't redeem it twice in strict mode
+    const started = useRef(false);
+
+    useEffect(() => {
+        if (started.current) return;
+        started.current = true;
+
+        const token = new URLSearchParams(window.location.search).get('token');
+        if (!token) {
+            setTitle('Invalid link');
+            setMessage('This verification link is incomplete. Request a new one from Corporate Carpooling.');
+            setLoading(false);
+            return;
+        }
+
+        confirmWorkEmail(token)
+            .then(async ({ status, organizationName }) => {
+                if (status === 'active') {
+                    setTitle(`Welcome to ${organizationName}`);
+                    setMessage('You can now choose to ride only with verified colleagues.');
+                    await refreshSession();
+                } else {
+                    setTitle('Email confirmed');
+                    setMessage(`An admin of ${organizationName} will review your request. We'll notify you when you're approved.`);
+                }
+            })
+            .catch((error: any) => {
+                setTitle('Verification failed');
+                setMessage(error.message || 'Could not confirm your email');
+            })
+            .finally(() => setLoading(false));
+    }, [refreshSession]);
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background p-4">
+            <Card className="w-full max-w-md">
+                <CardHeader>
+                    <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-4">
+                        {loading
+                            ? <Loader2 className="w-8 h-8 text-primary animate-spin" />
+                            : <Building2 className="w-8 h-8 text-primary" />}
+                    </div>
+                    <CardTitle className="text-center">{title}</CardTitle>
+                    {message && (
+                        <CardDescription className="text-center">{message}</CardDescription>
+                    )}
+                </CardHeader>
+                {!loading && (
+                    <CardContent>
+                        <Button className="w-full" onClick={() => navigate('/')}>
+                            Continue
+                        </Button>
+                    </CardContent>
+                )}
+            </Card>
+        </div>
+    );
+}
@@ -1,19 +1,32 @@
 import { useState } from 'react';
 import { useLocation } from 'wouter';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
-import { ArrowLeft, Search, Download, CreditCard } from 'lucide-react';
+import { queryClient } from '@/lib/queryClient';
+import {
+    getMyInvoices,
+    getInvoiceDownloadUrl,
+    getBillingDetails,
+    updateBillingDetails,
+    type BillingDetails,
+    type TaxInvoice,
+} from '@/lib/invoice-service';
+import { ArrowLeft, Search, Download, CreditCard, FileText } from 'lucide-react';
 import { format } from 'date-fns';
 
 export default function PaymentHistory() {
     const [, navigate] = useLocation();
     const { user } = useAuth();
+    const { toast } = useToast();
     const [searchTerm, setSearchTerm] = useState('');
+    const [billingForm, setBillingForm] = useState<BillingDetails | null>(null);
 
     const { data: payments } = useQuery({
         queryKey: ['payment-history', user?.id],
@@ -46,6 +59,50 @@ export default function PaymentHistory() {
         enabled: !!user,
     });
 
+    const { data: invoices } = useQuery({
+        queryKey: ['tax-invoices', user?.id],
+        queryFn: () => getMyInvoices(user!.id),
+        enabled: !!user,
+    });
+
+    const { data: billingDetails } = useQuery({
+        queryKey: ['billing-details', user?.id],
+        queryFn: () => getBillingDetails(user!.id),
+        enabled: !!user,
+    });
+
+    const saveBillingMutation = useMutation({
+        mutationFn: (details: BillingDetails) => updateBillingDetails(user!.id, details),
+        onSuccess: () => {
+            toast({
+                title: 'GST details saved',
+                description: 'New invoices will be issued to these details.',
+            });
+            setBillingForm(null);
+            queryClient.invalidateQueries({ queryKey: ['billing-details'] });
+        },
+        onError: (error: any) => {
+            toast({
+                title: 'Could not save GST details',
+                description: error.message,
+                variant: 'destructive',
+            });
+        },
+    });
+
+    const downloadInvoice = async (invoice: TaxInvoice) => {
+        try {
+            const url = await getInvoiceDownloadUrl(invoice.id);
+            window.open(url, '_blank');
+        } catch (error: any) {
+            toast({
+                title: 'Download failed',
+                description: error.message || 'Could not generate the invoice',
+                variant: 'destructive',
+            });
+        }
+    };
+
     const filteredPayments = payments?.filter((p: any) =>
         p.route.toLowerCase().includes(searchTerm.toLowerCase()) ||
         p.razorpayPaymentId?.toLowerCase().includes(searchTerm.toLowerCase())
@@ -92,6 +149,106 @@ export default function PaymentHistory() {
                     </div>
                 </Card>
 
+                {/* Tax Invoices */}
+                <Card className="p-6 mb-6">
+                    <div className="flex items-center justify-between mb-4">
+                        <div>
+                            <h2 className="text-lg font-semibold">Tax Invoices</h2>
+                            <p className="text-sm text-muted-foreground">
+                                {billingDetails?.gstin
+                                    ? `Issued to ${billingDetails.billing_name || user?.fullName} · GSTIN ${billingDetails.gstin}`
+                                    : 'Add your company GSTIN to claim input tax credit'}
+                            </p>
+                        </div>
+                        {!billingForm && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setBillingForm({
+                                    gstin: billingDetails?.gstin ?? '',
+                                    billing_name: billingDetails?.billing_name ?? '',
+                                    billing_state_code: billingDetails?.billing_state_code ?? '',
+                                })}
+                            >
+                                GST Details
+                            </Button>
+                        )}
+                    </div>
+
+                    {billingForm && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 mb-4 border rounded-lg">
+                            <div className="space-y-2">
+                                <Label htmlFor="billing-name">Company / billing name</Label>
+                                <Input
+                                    id="billing-name"
+                                    value={billingForm.billing_name ?? ''}
+                                    onChange={(e) => setBillingForm({ ...billingForm, billing_name: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="billing-gstin">GSTIN</Label>
+                                <Input
+                                    id="billing-gstin"
+                                    placeholder="27ABCDE1234F1Z5"
+                                    value={billingForm.gstin ?? ''}
+                                    onChange={(e) => setBillingForm({ ...billingForm, gstin: e.target.value.toUpperCase() })}
+                                />
+                            </div>
+                            <div className="flex gap-2 md:col-span-2">
+                                <Button
+                                    size="sm"
+                                    disabled={saveBillingMutation.isPending}
+                                    onClick={() => saveBillingMutation.mutate(billingForm)}
+                                >
+                                    {saveBillingMutation.isPending ? 'Saving...' : 'Save'}
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => setBillingForm(null)}>
+                                    Cancel
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="space-y-3">
+                        {invoices && invoices.length > 0 ? (
+                            invoices.map((invoice) => (
+                                <div key={invoice.id} className="flex items-center justify-between p-4 border rounded-lg">
+                                    <div className="flex-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="font-mono text-sm font-medium">{invoice.invoice_number}</span>
+                                            {invoice.document_type === 'credit_note' && (
+                                                <Badge variant="outline">Credit Note</Badge>
+                                            )}
+                                        </div>
+                                        <div className="text-sm text-muted-foreground">
+                                            {format(new Date(invoice.issued_at), 'MMM dd, yyyy')} · {invoice.description}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground mt-1">
+                                            Taxable ₹{Number(invoice.taxable_value).toFixed(2)} ·{' '}
+                                            {Number(invoice.igst) > 0
+                                                ? `IGST ₹${Number(invoice.igst).toFixed(2)}`
+                                                : `CGST ₹${Number(invoice.cgst).toFixed(2)} + SGST ₹${Number(invoice.sgst).toFixed(2)}`}
+                                        </div>
+                                    </div>
+                                    <div className="text-right mr-4">
+                                        <div className={`font-semibold ${invoice.document_type === 'credit_note' ? 'text-success' : ''}`}>
+                                            {invoice.document_type === 'credit_note' ? '-' : ''}₹{Number(invoice.total_amount).toFixed(2)}
+                                        </div>
+                                    </div>
+                                    <Button variant="outline" size="sm" onClick={() => downloadInvoice(invoice)}>
+                                        <FileText className="w-4 h-4 mr-2" />
+                                        PDF
+                                    </Button>
+                                </div>
+                            ))
+                        ) : (
+                            <div className="text-center py-6 text-sm text-muted-foreground">
+                                Invoices appear here once a ride payment goes through
+                            </div>
+                        )}
+                    </div>
+                </Card>
+
                 {/* Search */}
                 <div className="mb-6 relative">
                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
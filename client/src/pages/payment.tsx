@@ -13,6 +13,12 @@ import { mapBooking } from '@/lib/mapper';
 import { PromoCodeInput } from '@/components/PromoCodeInput';
 import { useAuth } from '@/contexts/AuthContext';
 import { MultiPaymentSelector } from '@/components/MultiPaymentSelector';
+import {
+  PromoCode,
+  applyPromoCodeToBooking,
+  removePromoCodeFromBooking,
+  getBookingPromoRedemption,
+} from '@/lib/promo-service';
 
 export default function Payment() {
   const [, navigate] = useLocation();
@@ -72,54 +78,61 @@ export default function Payment() {
     enabled: !!bookingId,
   });
 
-  // ... (keep updateBookingAmountMutation)
-
-  const updateBookingAmountMutation = useMutation({
-    mutationFn: async ({ amount, promoCodeId }: { amount: number, promoCodeId?: string }) => {
-      const { error } = await supabase
-        .from('bookings')
-        .update({
-          total_amount: amount.toString(),
-          promo_code_id: promoCodeId
-        })
-        .eq('id', bookingId);
+  // Tips are added to the booking total before payment
+  const addTipMutation = useMutation({
+    mutationFn: async ({ amount }: { amount: number }) => {
+      const { data, error } = await supabase.rpc('add_booking_tip', {
+        p_booking_id: bookingId,
+        p_amount: amount,
+      });
       if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Could not add the tip');
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['booking-payment', bookingId] });
-      toast({ title: 'Promo code applied', description: 'Total amount updated.' });
     },
     onError: (e: any) => {
       toast({ title: 'Update failed', description: e.message, variant: 'destructive' });
     }
   });
 
-  const handleApplyPromo = (promo: any) => {
-    if (!booking) return;
-    const fare = parseFloat(trip.pricePerSeat) * booking.seatsBooked;
-    const value = parseFloat(promo.discountValue);
-    let discount = 0;
-    if (promo.discountType === 'percentage') {
-      discount = (fare * value) / 100;
-    } else {
-      discount = value;
+  // The booking's promo redemption, recorded by the server when a code is applied
+  const { data: redemption } = useQuery({
+    queryKey: ['booking-promo-redemption', bookingId],
+    queryFn: () => getBookingPromoRedemption(bookingId!),
+    enabled: !!bookingId,
+  });
+
+  const onPromoChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['booking-payment', bookingId] });
+    queryClient.invalidateQueries({ queryKey: ['booking-promo-redemption', bookingId] });
+  };
+
+  const applyPromoMutation = useMutation({
+    mutationFn: (code: string) => applyPromoCodeToBooking(bookingId!, code),
+    onSuccess: ({ discount }) => {
+      onPromoChanged();
+      toast({ title: 'Promo code applied', description: `You saved ₹${discount.toFixed(2)}.` });
+    },
+    onError: (e: any) => {
+      toast({ title: 'Could not apply promo code', description: e.message, variant: 'destructive' });
     }
-    const newSubtotal = Math.max(0, fare - discount);
-    const newTotal = newSubtotal * 1.05;
-    updateBookingAmountMutation.mutate({
-      amount: newTotal,
-      promoCodeId: promo.id
-    });
+  });
+
+  const removePromoMutation = useMutation({
+    mutationFn: () => removePromoCodeFromBooking(bookingId!),
+    onSuccess: onPromoChanged,
+    onError: (e: any) => {
+      toast({ title: 'Update failed', description: e.message, variant: 'destructive' });
+    }
+  });
+
+  const handleApplyPromo = (promo: PromoCode) => {
+    applyPromoMutation.mutate(promo.code);
   };
 
   const handleRemovePromo = () => {
-    if (!booking) return;
-    const fare = parseFloat(trip.pricePerSeat) * booking.seatsBooked;
-    const newTotal = fare * 1.05;
-    updateBookingAmountMutation.mutate({
-      amount: newTotal,
-      promoCodeId: undefined
-    });
+    removePromoMutation.mutate();
   };
 
   // ... (keep mutations createPayment and verifyPayment)
@@ -211,7 +224,7 @@ export default function Payment() {
       prefill: {
         name: booking?.passenger.fullName,
         email: booking?.passenger.email,
-        contact: booking?.passenger.phone,
+        contact: user?.phone,
       },
       theme: {
         color: '#3b82f6',
@@ -249,19 +262,16 @@ export default function Payment() {
         return;
       }
       try {
-        // SECURITY NOTE: This invokes a Supabase Edge Function 'deduct-wallet'. 
-        // Ensure the Edge Function validates the userId matches the authenticated user 
-        // and checks balance atomically to prevent race conditions or fraud.
+        // 'deduct-wallet' checks the balance and posts the payment to the ledger
+        // atomically; it also marks the booking paid.
         const { error } = await supabase.functions.invoke('deduct-wallet', {
-          body: { userId: user?.id, amount: currentTotal }
+          body: { bookingId, amount: currentTotal }
         });
 
         if (error) throw error;
 
         await supabase.from('bookings').update({
-          status: 'completed',
-          payment_status: 'success',
-          payment_method: 'wallet'
+          status: 'completed'
         }).eq('id', bookingId);
 
         toast({ title: "Payment Successful", description: "Paid via Wallet" });
@@ -273,8 +283,7 @@ export default function Payment() {
     } else if (paymentMethod.type === 'cash') {
       try {
         await supabase.from('bookings').update({
-          payment_method: 'cash',
-          payment_status: 'pending'
+          payment_method: 'cash'
         }).eq('id', bookingId);
         toast({ title: "Cash Payment Selected", description: "Please pay the driver" });
         navigate('/payment-success');
@@ -347,22 +356,13 @@ export default function Payment() {
 
   const trip = booking.trip;
   const currentTotal = parseFloat(booking.totalAmount);
-  const subtotal = currentTotal / 1.05;
-  const platformFee = currentTotal - subtotal;
+  // The discount comes off the total including the platform fee
+  const undiscountedTotal = redemption ? Number(redemption.original_amount) : currentTotal;
+  const subtotal = undiscountedTotal / 1.05;
+  const platformFee = undiscountedTotal - subtotal;
   const baseFare = parseFloat(trip.pricePerSeat) * booking.seatsBooked;
   const storedPromo = booking.promoCode;
-
-  let displayedDiscountAmount = 0;
-  if (storedPromo) {
-    const val = parseFloat(storedPromo.discountValue);
-    if (storedPromo.discountType === 'percentage') {
-      displayedDiscountAmount = (baseFare * val) / 100;
-    } else {
-      displayedDiscountAmount = val;
-    }
-  } else {
-    displayedDiscountAmount = Math.max(0, baseFare - subtotal);
-  }
+  const displayedDiscountAmount = redemption ? Number(redemption.discount_amount) : 0;
   const hasDiscount = displayedDiscountAmount > 0.1;
 
   return (
@@ -443,6 +443,11 @@ export default function Payment() {
                 {/* Promo Code Section */}
                 <div className="py-2">
                   <PromoCodeInput
+                    amount={undiscountedTotal}
+                    context={{
+                      pickup: { lat: parseFloat(booking.pickupLat || trip.pickupLat), lng: parseFloat(booking.pickupLng || trip.pickupLng) },
+                      rideAt: new Date(trip.departureTime),
+                    }}
                     onPromoApplied={handleApplyPromo}
                     onPromoRemoved={handleRemovePromo}
                     className="border-none p-0 shadow-none bg-transparent"
@@ -486,9 +491,9 @@ export default function Payment() {
                 variant="outline"
                 className="h-12 flex-col gap-0"
                 onClick={() => {
-                  const newTotal = parseFloat(booking.totalAmount) + amount;
-                  updateBookingAmountMutation.mutate({ amount: newTotal });
-                  toast({ title: `Added ₹${amount} tip` });
+                  addTipMutation.mutate({ amount }, {
+                    onSuccess: () => toast({ title: `Added ₹${amount} tip` }),
+                  });
                 }}
               >
                 <span className="font-bold">₹{amount}</span>
@@ -13,12 +13,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { User, Car, Star, Camera, Shield, Check, Activity, Loader2, Settings, Wallet } from 'lucide-react';
-import { Driver, TripWithDriver, BookingWithDetails } from '@shared/schema';
+import { Driver, TripWithDriver, BookingWithDetails, RatingCategory } from '@shared/schema';
 import { format } from 'date-fns';
 import { RatingModal } from '@/components/RatingModal';
 import { Navbar } from '@/components/Navbar';
 import { supabase } from '@/lib/supabase';
 import { mapDriver, mapBooking, mapTrip } from '@/lib/mapper';
+import { submitRating } from '@/lib/ratings-service';
 import { RidePreferences } from '@/components/RidePreferences';
 import { EmergencyContactsWrapper } from '@/components/EmergencyContactsWrapper';
 import { WalletBalanceWidget } from '@/components/WalletBalanceWidget';
@@ -40,7 +41,7 @@ export default function Profile() {
   const [ratingBooking, setRatingBooking] = useState<BookingWithDetails | null>(null);
 
   const ratingMutation = useMutation({
-    mutationFn: async (data: { tripId: string; rating: number; feedback: string; tags: string[] }) => {
+    mutationFn: async (data: { tripId: string; rating: number; feedback: string; tags: string[]; categories: Partial<Record<RatingCategory, number>> }) => {
       if (!user) throw new Error("Must be logged in");
       if (!ratingBooking) throw new Error("No booking selected");
 
@@ -51,20 +52,20 @@ export default function Profile() {
         ? `${data.feedback}\n\nTags: ${data.tags.join(', ')}`
         : data.feedback;
 
-      const { error } = await supabase.from('ratings').insert({
-        trip_id: data.tripId,
-        from_user_id: user.id,
-        to_user_id: driverUserId,
+      return submitRating({
+        tripId: data.tripId,
+        toUserId: driverUserId,
         rating: data.rating,
+        categories: data.categories,
         review: reviewText.trim(),
       });
-
-      if (error) throw error;
     },
-    onSuccess: () => {
+    onSuccess: ({ revealed }) => {
       toast({
         title: "Rating Submitted",
-        description: "Thank you for sharing your experience!",
+        description: revealed
+          ? "Thank you! You can now see each other's ratings."
+          : "Thank you! Your driver will see it once they rate you.",
       });
       setRatingBooking(null);
     },
@@ -469,7 +470,7 @@ export default function Profile() {
                         <Label>Rating</Label>
                         <div className="flex items-center gap-1 mt-1">
                           <Star className="w-4 h-4 fill-warning text-warning" />
-                          <span className="text-sm font-medium">{driverProfile.rating}</span>
+                          <span className="text-sm font-medium">{driverProfile.rating || 'New'}</span>
                           <span className="text-xs text-muted-foreground">({driverProfile.totalTrips} trips)</span>
                         </div>
                       </div>
@@ -609,12 +610,13 @@ export default function Profile() {
         <RatingModal
           isOpen={!!ratingBooking}
           onClose={() => setRatingBooking(null)}
-          onSubmit={(rating, feedback, tags) => {
+          onSubmit={(rating, feedback, tags, categories) => {
             ratingMutation.mutate({
               tripId: ratingBooking.trip.id,
               rating,
               feedback,
-              tags
+              tags,
+              categories
             });
           }}
           tripDetails={{
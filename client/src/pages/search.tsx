@@ -18,18 +18,25 @@ import { FareEstimator } from '@/components/FareEstimator';
 import { RideScheduler } from '@/components/RideScheduler';
 import { SafetyTips } from '@/components/SafetyTips';
 import { CarbonFootprint } from '@/components/CarbonFootprint';
-import { Search as SearchIcon, MapPin, Zap, Clock, Rocket } from 'lucide-react';
+import { Search as SearchIcon, MapPin, Zap, Clock, Rocket, Route } from 'lucide-react';
 import { QuickBookWidget } from '@/components/QuickBookWidget';
-import { TripWithDriver } from '@shared/schema';
+import { SaveSearchAlertButton } from '@/components/SaveSearchAlertButton';
+import { PostRideRequestButton } from '@/components/PostRideRequestButton';
+import { TripWithDriver, TripSegment } from '@shared/schema';
 import { Coordinates, getRoute, reverseGeocode } from '@/lib/maps';
 import { supabase } from '@/lib/supabase';
 import { mapTrip } from '@/lib/mapper';
+import { searchTripSegments } from '@/lib/trip-stops-service';
+import { findRouteMatches } from '@/lib/route-matching';
 import { useSearchStore } from '@/lib/search-store';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTranslation } from 'react-i18next';
 import { format } from 'date-fns';
 import { calculateFare } from '@/lib/fareCalculator';
 
+// Searches matching part of a multi-stop trip are priced for that part only
+const seatPriceOf = (trip: TripWithDriver) => parseFloat(trip.segment?.seatPrice ?? trip.pricePerSeat);
+
 export default function Search() {
   const { t } = useTranslation();
   const [, navigate] = useLocation();
@@ -57,6 +64,10 @@ export default function Search() {
     return '';
   });
   const [isMobileMapOpen, setIsMobileMapOpen] = useState(false);
+  // 'stops' matches place names against trip stops; 'route' matches points along the driven route
+  const [matchMode, setMatchMode] = useState<'stops' | 'route'>(
+    searchParams.get('match') === 'route' ? 'route' : 'stops'
+  );
   const { filters } = useSearchStore();
   const { user } = useAuth();
 
@@ -95,6 +106,7 @@ export default function Search() {
     setDate(searchParams.get('date') || '');
     setVehicleType((searchParams.get('vehicleType') as 'all' | 'bike' | 'auto' | 'car') || 'all');
     setPromoCode(searchParams.get('promoCode') || '');
+    setMatchMode(searchParams.get('match') === 'route' ? 'route' : 'stops');
 
     const preferencesParam = searchParams.get('preferences');
     if (preferencesParam) {
@@ -115,29 +127,36 @@ export default function Search() {
   }, []);
 
   const { data: allTrips, isLoading } = useQuery<TripWithDriver[]>({
-    queryKey: ['trips-search', pickup, drop, date],
+    queryKey: ['trips-search', pickup, drop, date, matchMode, pickupCoords, dropCoords, scheduledDateTime],
     queryFn: async () => {
+      const matchAlongRoute = matchMode === 'route' && !!pickupCoords && !!dropCoords;
+
       let query = supabase
         .from('trips')
         .select('*, driver:drivers!inner(*, user:users(*))')
         .eq('status', 'upcoming')
-        .gt('available_seats', 0) // Ensure we only show trips with seats
         .eq('driver.verification_status', 'verified'); // Only show verified drivers
 
-      if (pickup) {
-        query = query.ilike('pickup_location', `%${pickup}%`);
-      }
-      if (drop) {
-        query = query.ilike('drop_location', `%${drop}%`);
+      // Create date objects ensuring we respect the selected date in local time
+      const startOfDay = date ? new Date(`${date}T00:00:00`).toISOString() : undefined;
+      const endOfDay = date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined;
+
+      // Match pickup and drop against every stop, so trips passing through count too
+      let segments: Map<string, TripSegment> | undefined;
+      if (matchAlongRoute) {
+        query = query.gt('available_seats', 0); // Route matching scores every trip with seats
+      } else if (pickup || drop) {
+        segments = await searchTripSegments({ pickup, drop, from: startOfDay, to: endOfDay });
+        if (segments.size === 0) return [];
+        query = query.in('id', Array.from(segments.keys()));
+      } else {
+        query = query.gt('available_seats', 0); // Ensure we only show trips with seats
       }
-      if (date) {
-        // Create date objects ensuring we respect the selected date in local time
-        const startOfDay = new Date(`${date}T00:00:00`);
-        const endOfDay = new Date(`${date}T23:59:59.999`);
 
+      if (startOfDay && endOfDay) {
         query = query
-          .gte('departure_time', startOfDay.toISOString())
-          .lte('departure_time', endOfDay.toISOString());
+          .gte('departure_time', startOfDay)
+          .lte('departure_time', endOfDay);
       }
 
       const { data, error } = await query.order('departure_time', { ascending: true });
@@ -148,7 +167,17 @@ export default function Search() {
       }
 
       console.log('Search results raw:', data);
-      return (data || []).map(mapTrip);
+      if (matchAlongRoute) {
+        return findRouteMatches((data || []).map(mapTrip), pickupCoords!, dropCoords!, {
+          when: scheduledDateTime,
+        });
+      }
+
+      return (data || []).map((row) => {
+        const trip = mapTrip(row);
+        const segment = segments?.get(trip.id);
+        return segment ? { ...trip, segment } : trip;
+      });
     },
     // Query should be enabled by default so users see trips immediately
   });
@@ -237,10 +266,10 @@ export default function Search() {
 
     // Price filter
     if (filters.minPrice !== undefined) {
-      filtered = filtered.filter(trip => parseFloat(trip.pricePerSeat) >= filters.minPrice!);
+      filtered = filtered.filter(trip => seatPriceOf(trip) >= filters.minPrice!);
     }
     if (filters.maxPrice !== undefined) {
-      filtered = filtered.filter(trip => parseFloat(trip.pricePerSeat) <= filters.maxPrice!);
+      filtered = filtered.filter(trip => seatPriceOf(trip) <= filters.maxPrice!);
     }
 
     // Vehicle Type filter
@@ -270,7 +299,7 @@ export default function Search() {
 
     // Seats filter
     if (filters.minSeats) {
-      filtered = filtered.filter(trip => trip.availableSeats >= filters.minSeats!);
+      filtered = filtered.filter(trip => (trip.segment?.seatsAvailable ?? trip.availableSeats) >= filters.minSeats!);
     }
 
     // Time filter
@@ -306,8 +335,8 @@ export default function Search() {
         let aVal: any, bVal: any;
         switch (filters.sortBy) {
           case 'price':
-            aVal = parseFloat(a.pricePerSeat);
-            bVal = parseFloat(b.pricePerSeat);
+            aVal = seatPriceOf(a);
+            bVal = seatPriceOf(b);
             break;
           case 'departure':
             aVal = new Date(a.departureTime).getTime();
@@ -360,7 +389,7 @@ export default function Search() {
             <div class="p-1">
               <strong>${trip.driver?.user?.fullName || 'Driver'}</strong>
               <div class="text-xs text-gray-500 my-1">${new Date(trip.departureTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>
-              <div class="font-bold text-green-600">₹${trip.pricePerSeat}</div>
+              <div class="font-bold text-green-600">₹${trip.segment?.seatPrice ?? trip.pricePerSeat}</div>
               <div class="text-xs truncate max-w-[150px]">${trip.pickupLocation}</div>
             </div>
           `
@@ -489,6 +518,34 @@ export default function Search() {
                     </div>
                   </div>
 
+                  {/* Match Mode */}
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">Match trips by</span>
+                    <Button
+                      variant={matchMode === 'stops' ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setMatchMode('stops')}
+                      className="h-7 text-xs px-2"
+                      data-testid="button-match-stops"
+                    >
+                      <MapPin className="w-3 h-3 mr-1" />
+                      Stops
+                    </Button>
+                    <Button
+                      variant={matchMode === 'route' ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => setMatchMode('route')}
+                      className="h-7 text-xs px-2"
+                      data-testid="button-match-route"
+                    >
+                      <Route className="w-3 h-3 mr-1" />
+                      Along route
+                    </Button>
+                    {matchMode === 'route' && (!pickupCoords || !dropCoords) && (
+                      <span className="text-xs text-warning">Pick both points from suggestions or the map</span>
+                    )}
+                  </div>
+
                   {/* Date/Time and Filters */}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                     {/* Date/Time Selection */}
@@ -526,6 +583,25 @@ export default function Search() {
                     </div> */}
                   </div>
 
+                  {pickup && drop && (
+                    <div className="space-y-2">
+                      <SaveSearchAlertButton
+                        pickup={pickup}
+                        pickupCoords={pickupCoords}
+                        drop={drop}
+                        dropCoords={dropCoords}
+                      />
+                      <PostRideRequestButton
+                        pickup={pickup}
+                        pickupCoords={pickupCoords}
+                        drop={drop}
+                        dropCoords={dropCoords}
+                        date={date}
+                        route={routeInfo}
+                      />
+                    </div>
+                  )}
+
                   {/* Scheduled Time Display */}
                   {scheduledDateTime && bookingType === 'scheduled' && (
                     <div className="p-3 bg-primary/10 border border-primary/20 rounded-lg">
@@ -803,6 +879,19 @@ export default function Search() {
 
                           const prefs = useSearchStore.getState().filters.preferences;
                           if (prefs) params.set('preferences', JSON.stringify(prefs));
+                          if (trip.segment) {
+                            params.set('board', trip.segment.boardStopOrder.toString());
+                            params.set('alight', trip.segment.alightStopOrder.toString());
+                          }
+                          if (trip.match && pickupCoords && dropCoords) {
+                            // Book with the passenger's own points, not the trip's endpoints
+                            params.set('pickup', pickup);
+                            params.set('pickupLat', pickupCoords.lat.toString());
+                            params.set('pickupLng', pickupCoords.lng.toString());
+                            params.set('drop', drop);
+                            params.set('dropLat', dropCoords.lat.toString());
+                            params.set('dropLng', dropCoords.lng.toString());
+                          }
 
                           navigate(`/trip/${trip.id}?${params.toString()}`);
                         }}
@@ -857,6 +946,19 @@ export default function Search() {
 
                           const prefs = useSearchStore.getState().filters.preferences;
                           if (prefs) params.set('preferences', JSON.stringify(prefs));
+                          if (trip.segment) {
+                            params.set('board', trip.segment.boardStopOrder.toString());
+                            params.set('alight', trip.segment.alightStopOrder.toString());
+                          }
+                          if (trip.match && pickupCoords && dropCoords) {
+                            // Book with the passenger's own points, not the trip's endpoints
+                            params.set('pickup', pickup);
+                            params.set('pickupLat', pickupCoords.lat.toString());
+                            params.set('pickupLng', pickupCoords.lng.toString());
+                            params.set('drop', drop);
+                            params.set('dropLat', dropCoords.lat.toString());
+                            params.set('dropLng', dropCoords.lng.toString());
+                          }
 
                           navigate(`/trip/${trip.id}?${params.toString()}`);
                         }}
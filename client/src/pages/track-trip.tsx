@@ -17,7 +17,8 @@ import { SafetyCheckIn } from '@/components/SafetyCheckIn';
 import { DriverVerification } from '@/components/DriverVerification';
 import { TurnByTurnNavigation } from '@/components/TurnByTurnNavigation';
 import { TripManifest } from '@/components/TripManifest';
-import { TripWithDriver } from '@shared/schema';
+import { RidePinCard } from '@/components/RidePinCard';
+import { TripWithDriver, RatingCategory } from '@shared/schema';
 import { supabase } from '@/lib/supabase';
 import { mapTrip } from '@/lib/mapper';
 import { locationTrackingService, LocationUpdate } from '@/lib/location-tracking';
@@ -41,7 +42,11 @@ import { RealDriverTracker } from '@/components/RealDriverTracker';
 import { processAutoPayments } from '@/lib/auto-pay';
 import { handlePassengerPayment } from '@/lib/passenger-payment';
 import { CancelDialog } from '@/components/CancelDialog';
+import { cancelTrip } from '@/lib/cancellation-service';
+import { submitRating } from '@/lib/ratings-service';
 import { RatingModal } from '@/components/RatingModal';
+import { getPickupWait } from '@/lib/no-show-service';
+import { startCall } from '@/lib/contact-service';
 
 export default function TrackTrip() {
     const [, navigate] = useLocation();
@@ -162,13 +167,22 @@ export default function TrackTrip() {
             if (!tripId) return null;
             const { data } = await supabase
                 .from('bookings')
-                .select('id, passenger_id, total_amount, pickup_location, pickup_lat, pickup_lng, drop_location, drop_lat, drop_lng')
+                .select('id, passenger_id, status, total_amount, pickup_location, pickup_lat, pickup_lng, drop_location, drop_lat, drop_lng')
                 .eq('trip_id', tripId)
                 .eq('passenger_id', user?.id || '')
                 .maybeSingle();
             return data;
         },
-        enabled: !!tripId
+        enabled: !!tripId,
+        refetchInterval: 10000 // picks up the move to picked_up for the ride PIN card
+    });
+
+    // Driver's check-in at this passenger's pickup, for the no-show warning
+    const { data: pickupWait } = useQuery({
+        queryKey: ['pickup-wait', booking?.id],
+        queryFn: () => getPickupWait(booking!.id),
+        enabled: booking?.status === 'confirmed',
+        refetchInterval: 10000
     });
 
     // Use booking coordinates if available (for pooled passengers), otherwise trip coordinates
@@ -312,19 +326,16 @@ export default function TrackTrip() {
         }
     };
 
-    const handleCancelTrip = async () => {
+    const handleCancelTrip = async (reason: string, details?: string) => {
         if (!trip) return;
         try {
-            const { error } = await supabase
-                .from('trips')
-                .update({ status: 'cancelled' })
-                .eq('id', trip.id);
-
-            if (error) throw error;
+            const refunds = await cancelTrip(trip.id, details ? `${reason}: ${details}` : reason);
 
             toast({
                 title: "Trip Cancelled",
-                description: "The trip has been cancelled.",
+                description: refunds.length > 0
+                    ? `The trip has been cancelled and ${refunds.length} passenger(s) will be refunded in full.`
+                    : "The trip has been cancelled.",
             });
             setShowCancelTrip(false);
             navigate('/my-trips');
@@ -338,32 +349,64 @@ export default function TrackTrip() {
         }
     };
 
-    const handleRatingSubmit = async (rating: number, feedback: string, tags: string[]) => {
+    // Numbers stay hidden; the relay rings the passenger and connects the driver
+    const handleCallDriver = async () => {
+        if (!booking) {
+            toast({
+                title: "Calling unavailable",
+                description: "You can call your driver once your booking is confirmed. Use chat instead.",
+            });
+            return;
+        }
+
+        try {
+            const { dialNumber } = await startCall(booking.id);
+            if (dialNumber) {
+                window.location.href = `tel:${dialNumber}`;
+            } else {
+                toast({
+                    title: "Connecting your call",
+                    description: "Your phone will ring shortly. Your number stays private.",
+                });
+            }
+        } catch (error: any) {
+            toast({
+                title: "Call failed",
+                description: error.message,
+                variant: 'destructive',
+            });
+        }
+    };
+
+    const handleRatingSubmit = async (
+        rating: number,
+        feedback: string,
+        tags: string[],
+        categories: Partial<Record<RatingCategory, number>>
+    ) => {
         if (!trip) return;
 
         try {
-            // Check if ratings table exists and insert, otherwise just log (fail-safe)
-            const { error } = await supabase.from('ratings').insert({
-                trip_id: trip.id,
-                rater_id: user?.id,
-                rated_user_id: trip.driver.userId, // Rating the driver
+            await submitRating({
+                tripId: trip.id,
+                toUserId: trip.driver.userId, // Rating the driver
                 rating,
-                feedback,
-                tags,
-                role: 'passenger'
+                categories,
+                review: tags.length > 0 ? `${feedback}\n\nTags: ${tags.join(', ')}`.trim() : feedback,
             });
 
-            if (error) {
-                console.warn("Rating submission failed (table might be missing):", error);
-            }
-
             toast({
                 title: "Feedback Submitted",
                 description: "Thank you for rating your ride!",
             });
             navigate('/my-trips');
-        } catch (error) {
+        } catch (error: any) {
             console.error("Error submitting rating:", error);
+            toast({
+                title: "Rating Failed",
+                description: error.message,
+                variant: 'destructive',
+            });
             navigate('/my-trips');
         }
     };
@@ -563,11 +606,21 @@ export default function TrackTrip() {
 
                 {/* Driver Info Overlay */}
                 <div className="absolute bottom-6 left-6 right-6 md:left-auto md:right-6 md:w-96 space-y-3 z-[500] animate-in slide-in-from-bottom-5 duration-500">
+                    {/* Ride PIN (Only for Passenger) */}
+                    {booking && ['confirmed', 'picked_up'].includes(booking.status) && (
+                        <RidePinCard
+                            bookingId={booking.id}
+                            bookingStatus={booking.status}
+                            dropoffPin={trip.preferences?.dropoffPin}
+                        />
+                    )}
+
                     {/* Driver Arrival Timer */}
                     {trip.status !== 'completed' && driverLocation && (
                         <DriverArrivalTimer
                             driverLocation={{ lat: driverLocation.lat, lng: driverLocation.lng }}
                             pickupLocation={{ lat: Number(trip.pickupLat), lng: Number(trip.pickupLng) }}
+                            waitUntil={pickupWait && !pickupWait.noShowAt ? pickupWait.waitUntil : null}
                         />
                     )}
 
@@ -636,7 +689,7 @@ export default function TrackTrip() {
                                 >
                                     <Shield className="w-4 h-4 text-primary" />
                                 </Button>
-                                <Button size="icon" variant="secondary" className="rounded-full h-10 w-10" onClick={() => window.location.href = `tel:${driver.user.phone}`}>
+                                <Button size="icon" variant="secondary" className="rounded-full h-10 w-10" onClick={handleCallDriver}>
                                     <Phone className="w-4 h-4" />
                                 </Button>
                                 <Button
@@ -681,6 +734,7 @@ export default function TrackTrip() {
             {showVerification && driver && (
                 <DriverVerification
                     driver={driver}
+                    bookingId={booking?.id}
                     onVerified={() => {
                         setShowVerification(false);
                         setVerificationCompleted(true);
@@ -698,7 +752,7 @@ export default function TrackTrip() {
             {/* Trip Manifest (Only for Driver) */}
             {trip && user?.id === trip.driver.userId && (
                 <div className="absolute top-24 left-6 md:left-auto md:right-6 md:w-96 z-[500] animate-in slide-in-from-right-5 duration-500 bg-background/90 backdrop-blur rounded-lg p-4 shadow-xl border overflow-y-auto max-h-[60vh]">
-                    <TripManifest tripId={trip.id} currentLocation={driverLocation ? { lat: driverLocation.lat, lng: driverLocation.lng } : undefined} />
+                    <TripManifest tripId={trip.id} currentLocation={driverLocation ? { lat: driverLocation.lat, lng: driverLocation.lng } : undefined} dropoffPin={trip.preferences?.dropoffPin} />
                 </div>
             )}
 
@@ -8,6 +8,7 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import {
   AlertDialog,
@@ -26,15 +27,19 @@ import { LiveDriveStats } from '@/components/LiveDriveStats';
 import { locationTrackingService } from '@/lib/location-tracking'; // Added import
 import { useToast } from '@/hooks/use-toast';
 import { queryClient } from '@/lib/queryClient';
-import { Calendar, MapPin, Users, Star, Car, Check, X, Shield, Play, Square, ThumbsUp, Eye, Edit2, AlertTriangle, Phone, Navigation } from 'lucide-react';
+import { Calendar, MapPin, Users, Star, Car, Check, X, Shield, Play, Square, ThumbsUp, Eye, Edit2, AlertTriangle, Phone, Navigation, Building2 } from 'lucide-react';
 import { RatingModal } from '@/components/RatingModal';
 import { ReviewsList } from '@/components/ReviewsList';
 import { EditTripModal } from '@/components/EditTripModal';
-import { TripWithDriver } from '@shared/schema';
+import { TripWithDriver, RatingCategory } from '@shared/schema';
 import { format } from 'date-fns';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { mapTrip } from '@/lib/mapper';
+import { submitRating } from '@/lib/ratings-service';
+import { cancelBooking } from '@/lib/cancellation-service';
+import { getTripStops, getSegmentSeats, getSegmentSeatPrice } from '@/lib/trip-stops-service';
+import { Coordinates } from '@/lib/maps';
 import { ChatDialog } from '@/components/ChatDialog';
 import { MessageCircle } from 'lucide-react';
 import { useUnreadMessages } from '@/hooks/useUnreadMessages';
@@ -47,17 +52,22 @@ import { RidePreferences } from '@/components/RidePreferences';
 import { SplitFare } from '@/components/SplitFare';
 import { ShareRideStatus } from '@/components/ShareRideStatus';
 import { MultiPaymentSelector } from '@/components/MultiPaymentSelector';
+import { CorporateBillingSelector } from '@/components/CorporateBillingSelector';
+import { CorporateBillingSelection } from '@/lib/corporate-billing-service';
 import { RideInsuranceInfo } from '@/components/RideInsuranceInfo';
 import { SafetyTips } from '@/components/SafetyTips';
+import { CommutePassCard } from '@/components/CommutePassCard';
 import { RideSharingInvite } from '@/components/RideSharingInvite';
 import { RidePreference } from '@/components/RidePreferences';
 import { FareBreakdown } from '@/components/FareBreakdown';
 import { PaymentReceipt } from '@/components/PaymentReceipt';
 import { PromoCodeInput } from '@/components/PromoCodeInput';
-import { PromoCode } from '@/lib/promo-service';
+import { PromoCode, validatePromoCode, applyPromoCodeToBooking } from '@/lib/promo-service';
 import { calculateFare } from '@/lib/fareCalculator';
 import { processAutoPayments } from '@/lib/auto-pay';
+import { deductFromWallet, tipDriverFromWallet } from '@/lib/wallet-service';
 import { useTranslation } from 'react-i18next';
+import { canPerform } from '@shared/lifecycle';
 
 declare global {
   interface Window {
@@ -65,6 +75,13 @@ declare global {
   }
 }
 
+function coordsFromUrl(prefix: 'pickup' | 'drop'): Coordinates | undefined {
+  const params = new URLSearchParams(window.location.search);
+  const lat = params.get(`${prefix}Lat`);
+  const lng = params.get(`${prefix}Lng`);
+  return lat && lng ? { lat: parseFloat(lat), lng: parseFloat(lng) } : undefined;
+}
+
 export default function TripDetails() {
   const { t } = useTranslation();
   const [, navigate] = useLocation();
@@ -82,10 +99,15 @@ export default function TripDetails() {
   const [showTripReplay, setShowTripReplay] = useState(false);
 
   const [paymentMethod, setPaymentMethod] = useState<any>({ type: 'cash' });
+  // Set when the passenger bills the booking to their company instead of paying
+  const [corporateBilling, setCorporateBilling] = useState<CorporateBillingSelection | null>(null);
 
 
   const [customPickup, setCustomPickup] = useState('');
   const [customDrop, setCustomDrop] = useState('');
+  // Passenger's own points; route-matched searches pass them in the URL
+  const [customPickupCoords, setCustomPickupCoords] = useState<Coordinates | undefined>(() => coordsFromUrl('pickup'));
+  const [customDropCoords, setCustomDropCoords] = useState<Coordinates | undefined>(() => coordsFromUrl('drop'));
   const [appliedPromo, setAppliedPromo] = useState<PromoCode | null>(null);
   const [discount, setDiscount] = useState(0);
   const [selectedPreferences, setSelectedPreferences] = useState<RidePreference>({
@@ -140,6 +162,33 @@ export default function TripDetails() {
     enabled: !!tripId,
   });
 
+  const { data: stops = [] } = useQuery({
+    queryKey: ['trip-stops', tripId],
+    queryFn: () => getTripStops(tripId!),
+    enabled: !!tripId,
+  });
+
+  // Boarding and alighting stops; search links pass them in for partial rides
+  const [boardStop, setBoardStop] = useState(() => parseInt(new URLSearchParams(window.location.search).get('board') || '0'));
+  const [alightStop, setAlightStop] = useState<number | null>(() => {
+    const alight = new URLSearchParams(window.location.search).get('alight');
+    return alight ? parseInt(alight) : null;
+  });
+
+  const lastStopOrder = stops.length > 0 ? stops[stops.length - 1].stopOrder : 1;
+  const alightStopOrder = alightStop ?? lastStopOrder;
+  const isMultiStop = stops.length > 2;
+  const boardingStop = stops.find(s => s.stopOrder === boardStop);
+  const alightingStop = stops.find(s => s.stopOrder === alightStopOrder);
+  const seatsAvailable = trip
+    ? (stops.length > 0 ? getSegmentSeats(stops, boardStop, alightStopOrder) : trip.availableSeats)
+    : 0;
+  const seatPrice = trip
+    ? (stops.length > 0
+      ? getSegmentSeatPrice(stops, parseFloat(trip.pricePerSeat.toString()), boardStop, alightStopOrder)
+      : parseFloat(trip.pricePerSeat.toString()))
+    : 0;
+
   const [driverLocation, setDriverLocation] = useState<{ lat: number; lng: number; speed?: number; heading?: number } | null>(null);
 
   // Subscribe to real-time location updates
@@ -170,10 +219,11 @@ export default function TripDetails() {
   // Set default values when trip loads
   useEffect(() => {
     if (trip) {
-      setCustomPickup(trip.pickupLocation);
-      setCustomDrop(trip.dropLocation);
+      const params = new URLSearchParams(window.location.search);
+      setCustomPickup(params.get('pickup') || boardingStop?.location || trip.pickupLocation);
+      setCustomDrop(params.get('drop') || alightingStop?.location || trip.dropLocation);
     }
-  }, [trip]);
+  }, [trip, boardingStop?.location, alightingStop?.location]);
 
   // Handle Promo Code from URL
   const searchParams = new URLSearchParams(window.location.search);
@@ -193,8 +243,8 @@ export default function TripDetails() {
       console.log('[TripDetails] Mutation started', data);
       if (!user) throw new Error("Must be logged in");
 
-      // Calculate amount (Fare + 5% Platform Fee) - Discount
-      const basePrice = (parseInt(trip?.pricePerSeat.toString() || '0') * data.seatsBooked);
+      // Estimate (Fare + 5% Platform Fee) - Discount; the server prices the booking itself
+      const basePrice = seatPrice * data.seatsBooked;
       const priceWithPlatform = basePrice * 1.05;
       const finalAmount = Math.max(0, priceWithPlatform - discount);
 
@@ -212,23 +262,6 @@ export default function TripDetails() {
           throw new Error("Insufficient wallet balance. Please add money or choose another method.");
         }
 
-        // Deduct from wallet
-        const { error: updateError } = await supabase
-          .from('wallets')
-          .update({ balance: parseFloat(wallet.balance) - finalAmount })
-          .eq('id', wallet.id);
-
-        if (updateError) throw new Error("Wallet transaction failed");
-
-        // Record transaction
-        await supabase.from('wallet_transactions').insert({
-          wallet_id: wallet.id,
-          type: 'debit',
-          amount: finalAmount,
-          description: `Payment for trip #${data.tripId.slice(0, 8)}`,
-          status: 'completed',
-          reference_id: data.tripId
-        });
       }
 
       // 1. Create booking
@@ -236,16 +269,20 @@ export default function TripDetails() {
         trip_id: data.tripId,
         passenger_id: user.id,
         seats_booked: data.seatsBooked,
-        total_amount: finalAmount,
         status: 'confirmed',
-        payment_status: data.paymentMethod.type === 'wallet' ? 'paid' : 'pending',
+        payment_status: 'pending',
         payment_method: data.paymentMethod.type,
+        ...(data.paymentMethod.type === 'corporate' && {
+          cost_centre_id: data.paymentMethod.costCentreId || null,
+          purpose_code: data.paymentMethod.purposeCode || null,
+        }),
         pickup_location: customPickup || trip?.pickupLocation,
         drop_location: customDrop || trip?.dropLocation,
-        pickup_lat: trip?.pickupLat,
-        pickup_lng: trip?.pickupLng,
-        drop_lat: trip?.dropLat,
-        drop_lng: trip?.dropLng,
+        pickup_lat: customPickupCoords?.lat ?? boardingStop?.lat ?? trip?.pickupLat,
+        pickup_lng: customPickupCoords?.lng ?? boardingStop?.lng ?? trip?.pickupLng,
+        drop_lat: customDropCoords?.lat ?? alightingStop?.lat ?? trip?.dropLat,
+        drop_lng: customDropCoords?.lng ?? alightingStop?.lng ?? trip?.dropLng,
+        ...(stops.length > 0 && { board_stop_order: boardStop, alight_stop_order: alightStopOrder }),
         preferences: selectedPreferences, // Including preferences if table supports JSONB
       };
 
@@ -257,25 +294,59 @@ export default function TripDetails() {
 
       if (bookingError) throw bookingError;
 
+      // The booking trigger prices the seats from the trip; the server then redeems
+      // the promo against the campaign's rules and budget and sets the booking total
+      let amountDue = Number(booking.total_amount);
+      if (appliedPromo) {
+        try {
+          amountDue = (await applyPromoCodeToBooking(booking.id, appliedPromo.code)).finalAmount;
+        } catch (error) {
+          await cancelBooking(booking.id, 'Promo code could not be applied');
+          throw error;
+        }
+      }
+
+      // Pay from wallet now that the booking exists; the ledger marks it paid
+      if (data.paymentMethod.type === 'wallet') {
+        const paid = await deductFromWallet(amountDue, booking.id);
+
+        if (!paid) {
+          await cancelBooking(booking.id, 'Wallet payment failed');
+          throw new Error("Wallet transaction failed");
+        }
+      }
+
       // Decrement available seats
       // Manual seat update removed: Handled by database trigger 'on_booking_created'
 
 
       return booking;
     },
-    onSuccess: (_, variables) => {
-      toast({
-        title: 'Booking Confirmed!',
-        description: variables.paymentMethod.type === 'wallet'
-          ? 'Payment successful. Have a safe ride!'
-          : 'Your seat is reserved. Payment will be collected after the ride.',
-      });
+    onSuccess: (booking, variables) => {
+      // Held for the driver's approval when the passenger's reliability is below their threshold
+      if (booking.status === 'pending') {
+        toast({
+          title: 'Booking Requested',
+          description: 'The driver will review your request. You will be refunded in full if they decline.',
+        });
+      } else {
+        toast({
+          title: 'Booking Confirmed!',
+          description: variables.paymentMethod.type === 'wallet'
+            ? 'Payment successful. Have a safe ride!'
+            : variables.paymentMethod.type === 'corporate'
+              ? 'Your seat is reserved. The ride will be billed to your company.'
+              : 'Your seat is reserved. Payment will be collected after the ride.',
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ['trip-details', tripId] });
+      queryClient.invalidateQueries({ queryKey: ['trip-stops', tripId] });
       queryClient.invalidateQueries({ queryKey: ['my-bookings'] });
       queryClient.invalidateQueries({ queryKey: ['my-created-trips'] }); // Ensure driver view updates if testing on same device
       // Clear promo logic
       setAppliedPromo(null);
       setDiscount(0);
+      setCorporateBilling(null);
       navigate('/my-trips');
     },
     onError: (error: any) => {
@@ -345,24 +416,24 @@ export default function TripDetails() {
   });
 
   const ratingMutation = useMutation({
-    mutationFn: async (data: { rating: number; feedback: string; tags: string[]; toUserId: string }) => {
+    mutationFn: async (data: { rating: number; feedback: string; tags: string[]; toUserId: string; categories: Partial<Record<RatingCategory, number>> }) => {
       if (!user) throw new Error("Must be logged in");
       if (!trip) throw new Error("Trip details not loaded");
 
-      const { error } = await supabase.from('ratings').insert({
-        trip_id: trip.id,
-        from_user_id: user.id,
-        to_user_id: data.toUserId,
+      return submitRating({
+        tripId: trip.id,
+        toUserId: data.toUserId,
         rating: data.rating,
+        categories: data.categories,
         review: data.feedback,
       });
-
-      if (error) throw error;
     },
-    onSuccess: () => {
+    onSuccess: ({ revealed }) => {
       toast({
         title: "Rating Submitted",
-        description: "Thank you for your feedback!",
+        description: revealed
+          ? "Thank you! You can now see each other's ratings."
+          : "Thank you! They'll see it once they rate you.",
       });
       setShowRatingModal(false);
     },
@@ -381,42 +452,17 @@ export default function TripDetails() {
 
       // Handle Wallet Payment
       if (data.paymentMethod.type === 'wallet') {
-        const { data: wallet, error: walletError } = await supabase
-          .from('wallets')
-          .select('*')
-          .eq('user_id', user!.id)
-          .single();
-
-        if (walletError) throw new Error("Could not fetch wallet balance");
+        const paid = await deductFromWallet(data.amount, data.bookingId);
 
-        if (parseFloat(wallet.balance) < data.amount) {
+        if (!paid) {
           throw new Error("Insufficient wallet balance. Please add money or choose another method.");
         }
-
-        // Deduct from wallet
-        const { error: updateError } = await supabase
-          .from('wallets')
-          .update({ balance: parseFloat(wallet.balance) - data.amount })
-          .eq('id', wallet.id);
-
-        if (updateError) throw new Error("Wallet transaction failed");
-
-        // Record transaction
-        await supabase.from('wallet_transactions').insert({
-          wallet_id: wallet.id,
-          type: 'debit',
-          amount: data.amount,
-          description: `Payment for trip #${tripId!.slice(0, 8)}`,
-          status: 'completed',
-          reference_id: tripId
-        });
       }
 
-      // Update Booking Status
+      // Update Booking Status; the payment status is only ever set by the server
       const { data: updatedBooking, error: bookingError } = await supabase
         .from('bookings')
         .update({
-          payment_status: 'paid',
           payment_method: data.paymentMethod.type,
           status: 'completed' // Ensure it's completed
         })
@@ -493,27 +539,39 @@ export default function TripDetails() {
   }, [isDriver, trip?.status, trip?.id]);
 
 
-  const baseTotalPrice = trip ? parseFloat(trip.pricePerSeat.toString()) * seatsToBook : 0;
+  const baseTotalPrice = seatPrice * seatsToBook;
+
+  const promoContext = trip ? {
+    pickup: {
+      lat: customPickupCoords?.lat ?? parseFloat(boardingStop?.lat ?? trip.pickupLat),
+      lng: customPickupCoords?.lng ?? parseFloat(boardingStop?.lng ?? trip.pickupLng),
+    },
+    rideAt: new Date(trip.departureTime),
+  } : undefined;
 
-  // Update discount when seats or promo changes
+  // Re-quote the applied promo on the server when the number of seats changes
   useEffect(() => {
-    if (appliedPromo && trip) {
-      let newDiscount = 0;
-      const totalFare = baseTotalPrice * 1.05; // Base + platform fee
-
-      if (appliedPromo.discount_type === 'percentage') {
-        newDiscount = (totalFare * appliedPromo.discount_value) / 100;
-        if (appliedPromo.max_discount) {
-          newDiscount = Math.min(newDiscount, appliedPromo.max_discount);
-        }
-      } else {
-        newDiscount = appliedPromo.discount_value;
-      }
-      setDiscount(newDiscount);
-    } else {
+    if (!appliedPromo || !trip) {
       setDiscount(0);
+      return;
     }
-  }, [seatsToBook, appliedPromo, trip, baseTotalPrice]);
+
+    let cancelled = false;
+    validatePromoCode(appliedPromo.code, baseTotalPrice * 1.05, promoContext).then((result) => {
+      if (cancelled) return;
+      if (result.valid) {
+        setDiscount(result.discount || 0);
+      } else {
+        setAppliedPromo(null);
+        setDiscount(0);
+        toast({ title: 'Promo code removed', description: result.message, variant: 'destructive' });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [seatsToBook, appliedPromo?.code, trip?.id, baseTotalPrice]);
 
   const finalTotalPrice = Math.max(0, (baseTotalPrice * 1.05) - discount);
 
@@ -534,7 +592,12 @@ export default function TripDetails() {
   // Handle legacy route (array) and new route (object)
   const routeData = Array.isArray(trip.route) ? { geometry: trip.route, waypoints: [] } : (trip.route as any);
   const routeGeometry = routeData?.geometry || [];
-  const waypoints = routeData?.waypoints || [];
+  const waypoints = isMultiStop
+    ? stops.slice(1, -1).map(stop => ({
+      location: stop.location,
+      coords: { lat: parseFloat(stop.lat), lng: parseFloat(stop.lng) }
+    }))
+    : routeData?.waypoints || [];
 
   const markers = [
     { id: 'pickup', coordinates: { lat: parseFloat(trip.pickupLat), lng: parseFloat(trip.pickupLng) }, color: '#22c55e', popup: trip.pickupLocation },
@@ -625,18 +688,28 @@ export default function TripDetails() {
 
   const handleBookTrip = () => {
     console.log('[TripDetails] Book Trip Clicked');
-    console.log('[TripDetails] Seats:', seatsToBook, 'Available:', trip?.availableSeats);
+    console.log('[TripDetails] Seats:', seatsToBook, 'Available:', seatsAvailable);
     console.log('[TripDetails] Payment Method:', paymentMethod);
 
-    if (seatsToBook < 1 || seatsToBook > trip.availableSeats) {
+    if (seatsToBook < 1 || seatsToBook > seatsAvailable) {
       toast({
         title: 'Invalid seats',
-        description: `Please select between 1 and ${trip.availableSeats} seats`,
+        description: `Please select between 1 and ${seatsAvailable} seats`,
         variant: 'destructive',
       });
       return;
     }
 
+    // Company-billed bookings skip payment; the database checks the ride policy
+    if (corporateBilling) {
+      bookingMutation.mutate({
+        tripId: trip.id,
+        seatsBooked: seatsToBook,
+        paymentMethod: { type: 'corporate', ...corporateBilling },
+      });
+      return;
+    }
+
     // Validate Payment Method
     if (paymentMethod.type === 'upi' && !paymentMethod.details?.upiId && !paymentMethod.details?.upiApp) {
       toast({
@@ -647,7 +720,7 @@ export default function TripDetails() {
       return;
     }
 
-    const finalAmount = Math.max(0, parseFloat(trip.pricePerSeat.toString()) * seatsToBook * 1.05 - discount);
+    const finalAmount = Math.max(0, seatPrice * seatsToBook * 1.05 - discount);
 
     if ((paymentMethod.type === 'upi' || paymentMethod.type === 'card') && finalAmount > 0) {
       // Trigger Razorpay Flow
@@ -743,7 +816,7 @@ export default function TripDetails() {
                 >
                   <div className="flex items-center gap-1">
                     <Star className="w-4 h-4 fill-warning text-warning" />
-                    <span className="font-medium">{driver.rating}</span>
+                    <span className="font-medium">{driver.rating || 'New'}</span>
                   </div>
                   <span className="text-muted-foreground">•</span>
                   <span className="text-muted-foreground">{driver.totalTrips} trips</span>
@@ -1067,6 +1140,10 @@ export default function TripDetails() {
             />
           )}
 
+          {trip.recurringTripId && (
+            <CommutePassCard trip={trip} isDriver={isDriver} userId={user?.id} seats={seatsToBook} />
+          )}
+
           {isDriver ? (
             <>
               <Card className="p-6 border-primary/20 bg-primary/5">
@@ -1082,7 +1159,7 @@ export default function TripDetails() {
                       : "Start the trip when you are ready to leave. This will enable live location tracking for passengers."}
                   </p>
 
-                  {trip.status === 'confirmed' || trip.status === 'upcoming' ? (
+                  {canPerform('trip', trip.status, 'driver', 'start') ? (
                     <Button
                       size="lg"
                       className="w-full gap-2"
@@ -1092,7 +1169,7 @@ export default function TripDetails() {
                       <Play className="w-4 h-4" />
                       {t('trip.start_trip')}
                     </Button>
-                  ) : trip.status === 'ongoing' ? (
+                  ) : canPerform('trip', trip.status, 'driver', 'complete') ? (
                     <Button
                       size="lg"
                       variant="destructive"
@@ -1109,7 +1186,7 @@ export default function TripDetails() {
                     </div>
                   )}
 
-                  {(trip.status === 'confirmed' || trip.status === 'upcoming') && (
+                  {trip.status === 'upcoming' && (
                     <>
                       <Button
                         size="lg"
@@ -1231,8 +1308,18 @@ export default function TripDetails() {
                       </div>
                     )}
 
+                    {/* Company-billed rides are settled by the employer */}
+                    {myBooking.payment_method === 'corporate' && (
+                      <div className="mt-4 pt-4 border-t border-dashed border-green-200 flex items-center gap-2 text-sm text-muted-foreground">
+                        <Building2 className="w-4 h-4 text-primary" />
+                        {myBooking.payment_status === 'paid'
+                          ? `₹${myBooking.total_amount} billed to your company`
+                          : 'Billed to your company when the ride ends'}
+                      </div>
+                    )}
+
                     {/* Pending Payment Section */}
-                    {(myBooking.payment_status === 'pending' || myBooking.status === 'payment_pending') && (
+                    {myBooking.payment_method !== 'corporate' && (myBooking.payment_status === 'pending' || myBooking.status === 'payment_pending') && (
                       <div className="mt-4 pt-4 border-t border-dashed border-green-200">
                         <h4 className="font-medium mb-2 text-primary">Complete Your Payment</h4>
                         <div className="mb-4">
@@ -1268,13 +1355,68 @@ export default function TripDetails() {
                   <h3 className="font-semibold mb-4">Book Your Seats</h3>
 
                   <div className="space-y-4">
+                    {isMultiStop && (
+                      <div className="grid grid-cols-2 gap-3" data-testid="stop-selectors">
+                        <div>
+                          <Label className="text-xs text-muted-foreground mb-1.5 block">Board At</Label>
+                          <Select
+                            value={boardStop.toString()}
+                            onValueChange={(value) => {
+                              const order = parseInt(value);
+                              setBoardStop(order);
+                              if (alightStopOrder <= order) setAlightStop(order + 1);
+                              setSeatsToBook(1);
+                            }}
+                          >
+                            <SelectTrigger className="h-9 text-sm" data-testid="select-board-stop">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {stops.slice(0, -1).map(stop => (
+                                <SelectItem key={stop.id} value={stop.stopOrder.toString()}>
+                                  {stop.location}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <Label className="text-xs text-muted-foreground mb-1.5 block">Get Off At</Label>
+                          <Select
+                            value={alightStopOrder.toString()}
+                            onValueChange={(value) => {
+                              setAlightStop(parseInt(value));
+                              setSeatsToBook(1);
+                            }}
+                          >
+                            <SelectTrigger className="h-9 text-sm" data-testid="select-alight-stop">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {stops.filter(stop => stop.stopOrder > boardStop).map(stop => (
+                                <SelectItem key={stop.id} value={stop.stopOrder.toString()}>
+                                  {stop.location}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <p className="col-span-2 text-xs text-muted-foreground">
+                          ₹{seatPrice.toFixed(2)} per seat for this part of the route · {seatsAvailable} seat{seatsAvailable === 1 ? '' : 's'} left
+                        </p>
+                      </div>
+                    )}
+
                     {/* Custom Location Inputs */}
                     <div className="space-y-3">
                       <div>
                         <Label className="text-xs text-muted-foreground mb-1.5 block">Pickup Location</Label>
                         <LocationAutocomplete
                           value={customPickup}
-                          onChange={(val) => setCustomPickup(val)}
+                          onChange={(val, coords) => {
+                            setCustomPickup(val);
+                            setCustomPickupCoords(coords);
+                          }}
                           placeholder="Enter pickup location"
                           className="h-9 text-sm"
                         />
@@ -1283,7 +1425,10 @@ export default function TripDetails() {
                         <Label className="text-xs text-muted-foreground mb-1.5 block">Drop Location</Label>
                         <LocationAutocomplete
                           value={customDrop}
-                          onChange={(val) => setCustomDrop(val)}
+                          onChange={(val, coords) => {
+                            setCustomDrop(val);
+                            setCustomDropCoords(coords);
+                          }}
                           placeholder="Enter drop location"
                           className="h-9 text-sm"
                         />
@@ -1308,7 +1453,7 @@ export default function TripDetails() {
                           id="seats"
                           type="number"
                           min="1"
-                          max={trip.availableSeats}
+                          max={seatsAvailable}
                           value={seatsToBook}
                           onChange={(e) => setSeatsToBook(parseInt(e.target.value) || 1)}
                           className="w-20 text-center"
@@ -1317,8 +1462,8 @@ export default function TripDetails() {
                         <Button
                           variant="outline"
                           size="icon"
-                          onClick={() => setSeatsToBook(Math.min(trip.availableSeats, seatsToBook + 1))}
-                          disabled={seatsToBook >= trip.availableSeats}
+                          onClick={() => setSeatsToBook(Math.min(seatsAvailable, seatsToBook + 1))}
+                          disabled={seatsToBook >= seatsAvailable}
                           data-testid="button-increase-seats"
                         >
                           +
@@ -1356,7 +1501,12 @@ export default function TripDetails() {
                     <Separator />
 
                     <PromoCodeInput
-                      onPromoApplied={(promo) => setAppliedPromo(promo)}
+                      amount={baseTotalPrice * 1.05}
+                      context={promoContext}
+                      onPromoApplied={(promo, promoDiscount) => {
+                        setAppliedPromo(promo);
+                        setDiscount(promoDiscount || 0);
+                      }}
                       onPromoRemoved={() => {
                         setAppliedPromo(null);
                         setDiscount(0);
@@ -1367,13 +1517,21 @@ export default function TripDetails() {
 
                     <Separator />
 
-                    <div className="py-2">
-                      <MultiPaymentSelector
-                        amount={finalTotalPrice}
-                        onPaymentMethodSelect={(method) => setPaymentMethod(method)}
-                        selectedMethod={paymentMethod}
-                      />
-                    </div>
+                    <CorporateBillingSelector
+                      amount={finalTotalPrice}
+                      value={corporateBilling}
+                      onChange={setCorporateBilling}
+                    />
+
+                    {!corporateBilling && (
+                      <div className="py-2">
+                        <MultiPaymentSelector
+                          amount={finalTotalPrice}
+                          onPaymentMethodSelect={(method) => setPaymentMethod(method)}
+                          selectedMethod={paymentMethod}
+                        />
+                      </div>
+                    )}
 
                     <div className="relative z-[50]">
                       <Button
@@ -1381,10 +1539,10 @@ export default function TripDetails() {
                         size="lg"
                         className="w-full cursor-pointer"
                         onClick={handleBookTrip}
-                        disabled={bookingMutation.isPending || trip.availableSeats === 0 || (trip.status !== 'upcoming' && trip.status !== 'confirmed' && trip.status !== 'ongoing')}
+                        disabled={bookingMutation.isPending || seatsAvailable === 0 || (trip.status !== 'upcoming' && trip.status !== 'confirmed' && trip.status !== 'ongoing')}
                         data-testid="button-confirm-booking"
                       >
-                        {bookingMutation.isPending ? 'Booking...' : trip.availableSeats === 0 ? 'Sold Out' : 'Confirm & Pay'}
+                        {bookingMutation.isPending ? 'Booking...' : seatsAvailable === 0 ? 'Sold Out' : corporateBilling ? 'Confirm Booking' : 'Confirm & Pay'}
                       </Button>
                     </div>
                   </div>
@@ -1398,7 +1556,7 @@ export default function TripDetails() {
             <div className="mt-6">
               <RideSharingInvite
                 tripId={trip.id}
-                totalFare={parseFloat(trip.pricePerSeat) * seatsToBook}
+                totalFare={seatPrice * seatsToBook}
               />
             </div>
           )}
@@ -1409,7 +1567,7 @@ export default function TripDetails() {
               <RatingModal
                 isOpen={showRatingModal}
                 onClose={() => setShowRatingModal(false)}
-                onSubmit={(rating, feedback, tags) => {
+                onSubmit={(rating, feedback, tags, categories) => {
                   const fullReview = `${feedback}\n\nTags: ${tags.join(', ')}`;
                   // If ratingTargetUserId is set (e.g. driver rating passenger), use it. 
                   // Otherwise default to rating the driver (passenger flow).
@@ -1419,7 +1577,8 @@ export default function TripDetails() {
                     rating,
                     feedback: fullReview,
                     tags,
-                    toUserId: targetId
+                    toUserId: targetId,
+                    categories
                   });
                 }}
                 tripDetails={{
@@ -1453,6 +1612,7 @@ export default function TripDetails() {
               {showDriverVerification && !isDriver && trip.status === 'ongoing' && (
                 <DriverVerification
                   driver={driver}
+                  bookingId={myBooking?.id}
                   onVerified={() => {
                     setShowDriverVerification(false);
                     sessionStorage.setItem(`verified_driver_${trip.id}`, 'true');
@@ -1489,17 +1649,10 @@ export default function TripDetails() {
                   driverName={driver.user.fullName}
                   onTipSelected={async (amount) => {
                     try {
-                      // Check wallet balance
-                      const { data: wallet, error: walletError } = await supabase
-                        .from('wallets')
-                        .select('id, balance')
-                        .eq('user_id', user!.id)
-                        .single();
+                      if (!myBooking) throw new Error("Booking not found");
 
-                      if (walletError || !wallet) throw new Error("Wallet not found");
-
-                      const balance = parseFloat(wallet.balance);
-                      if (balance < amount) {
+                      const result = await tipDriverFromWallet(amount, myBooking.id);
+                      if (!result.success) {
                         toast({
                           title: "Insufficient Balance",
                           description: "Please add money to your wallet to tip.",
@@ -1508,20 +1661,7 @@ export default function TripDetails() {
                         return;
                       }
 
-                      // Deduct from wallet
-                      await supabase.from('wallets').update({ balance: balance - amount }).eq('id', wallet.id);
-
-                      // Create transaction
-                      await supabase.from('wallet_transactions').insert({
-                        wallet_id: wallet.id,
-                        type: 'debit',
-                        amount: amount,
-                        description: `Tip for Driver ${driver.user.fullName}`,
-                        status: 'completed',
-                        reference_id: trip.id
-                      });
-
-                      // Credit to driver (Optional: In a real app we'd add to driver wallet too, but let's just record the tip)
+                      // The ledger credits the driver's payable; keep the tip record for earnings
                       await supabase.from('driver_tips').insert({
                         trip_id: trip.id,
                         amount: amount,
@@ -1586,7 +1726,12 @@ export default function TripDetails() {
                 {myBooking && (
                   <SplitFare
                     bookingId={myBooking.id}
-                    totalAmount={parseFloat(trip.pricePerSeat) * myBooking.seats_booked}
+                    totalAmount={getSegmentSeatPrice(
+                      stops,
+                      parseFloat(trip.pricePerSeat),
+                      myBooking.board_stop_order ?? 0,
+                      myBooking.alight_stop_order ?? lastStopOrder
+                    ) * myBooking.seats_booked}
                     className="w-full gap-2"
                   />
                 )}
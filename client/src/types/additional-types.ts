@@ -143,6 +143,7 @@ export interface FindNearbyDriversParams {
     lng: number;
     radius?: number;
     vehicleType?: string;
+    minSeats?: number;
 }
 
 export interface FindNearbyDriversResult {
@@ -153,6 +154,9 @@ export interface FindNearbyDriversResult {
     vehicle_info: string;
     current_lat: number;
     current_lng: number;
+    vehicle_id: string;
+    vehicle_type: string;
+    seat_count: number;
 }
 
 export interface MatchRideRequestParams {
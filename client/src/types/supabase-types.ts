@@ -278,22 +278,9 @@ export interface VerifyWalletPaymentResponse {
     walletBalance: number;
 }
 
-export interface AddMoneyToWalletParams {
-    amount: number;
-    paymentId: string;
-}
-
-export interface AddMoneyToWalletResult {
-    success: boolean;
-    transactionId: string;
-    message: string;
-}
-
 export interface DeductWalletRequest {
-    userId: string;
-    amount: number;
     bookingId: string;
-    description: string;
+    amount?: number;
 }
 
 export interface DeductWalletResponse {
@@ -358,6 +345,49 @@ export interface SendSplitFareEmailRequest {
     bookingId: string;
 }
 
+export interface ProcessCancellationRequest {
+    bookingId?: string;
+    tripId?: string;
+    reason?: string;
+    // Finance admins only: retry the Razorpay refund of a cancellation whose refund failed
+    retryCancellationId?: string;
+}
+
+export interface CancellationRefund {
+    cancellation_id: string;
+    booking_id: string;
+    actor_role: 'passenger' | 'driver' | 'admin';
+    refund_percent: number;
+    refund_amount: number;
+    refund_method: 'none' | 'wallet' | 'razorpay';
+    refund_status: 'not_applicable' | 'pending' | 'processed' | 'failed';
+}
+
+export interface ProcessCancellationResponse {
+    success: boolean;
+    cancellations: CancellationRefund[];
+}
+
+export interface StartCallRequest {
+    bookingId: string;
+}
+
+export interface StartCallResponse {
+    success: boolean;
+    sessionId: string;
+    // Only set by providers that hand out a proxy number to dial
+    dialNumber: string | null;
+}
+
+export interface VerifyWorkEmailRequest {
+    workEmail: string;
+}
+
+export interface VerifyWorkEmailResponse {
+    success: boolean;
+    organizationName: string;
+}
+
 // ============================================================================
 // RPC Function Types
 // ============================================================================
@@ -365,7 +395,6 @@ export interface SendSplitFareEmailRequest {
 export interface ApplyPromoCodeParams {
     code: string;
     bookingId: string;
-    amount: number;
 }
 
 export interface ApplyPromoCodeResult {
@@ -377,7 +406,11 @@ export interface ApplyPromoCodeResult {
 
 export interface CheckPromoCodeParams {
     code: string;
-    amount: number;
+    amount?: number;
+    vehicleType?: string;
+    pickupLat?: number;
+    pickupLng?: number;
+    rideAt?: string;
 }
 
 export interface CheckPromoCodeResult {
@@ -18,6 +18,7 @@ import { NotificationDropdown } from '@/components/NotificationDropdown';
 import { RateDriverModal } from '@/components/RateDriverModal';
 import { NoBookingsYet, NoTripsCreated } from '@/components/EmptyStates';
 import { useResponsive } from '@/hooks/useResponsive';
+import { CancellationService } from '@/services/CancellationService';
 
 export default function MyTripsScreen() {
     const router = useRouter();
@@ -69,32 +70,15 @@ export default function MyTripsScreen() {
 
     const cancelBookingMutation = useMutation({
         mutationFn: async (bookingId: string) => {
-            const booking = bookings?.find((b: any) => b.id === bookingId);
-            if (!booking) throw new Error('Booking not found');
-
-            const { error: bookingError } = await supabase
-                .from('bookings')
-                .update({ status: 'cancelled' })
-                .eq('id', bookingId);
-
-            if (bookingError) throw bookingError;
-
-            const { data: trip } = await supabase
-                .from('trips')
-                .select('available_seats')
-                .eq('id', booking.trip.id)
-                .single();
-
-            if (trip) {
-                await supabase
-                    .from('trips')
-                    .update({ available_seats: trip.available_seats + booking.seatsBooked })
-                    .eq('id', booking.trip.id);
-            }
-            return true;
+            return CancellationService.cancelBooking(bookingId, 'Cancelled by passenger');
         },
-        onSuccess: () => {
-            Alert.alert('Success', 'Booking cancelled successfully');
+        onSuccess: (refund) => {
+            Alert.alert(
+                'Booking Cancelled',
+                refund && refund.refund_amount > 0
+                    ? `₹${refund.refund_amount} will be refunded to your ${refund.refund_method === 'wallet' ? 'wallet' : 'original payment method'}.`
+                    : 'Your booking has been cancelled.'
+            );
             queryClient.invalidateQueries({ queryKey: ['my-bookings'] });
         },
         onError: (error: any) => {
@@ -102,10 +86,17 @@ export default function MyTripsScreen() {
         }
     });
 
-    const handleCancelBooking = (bookingId: string) => {
+    const handleCancelBooking = async (bookingId: string) => {
+        const quote = await CancellationService.getQuote(bookingId);
+        const refundText = quote && quote.paid_amount > 0
+            ? quote.refund_amount > 0
+                ? ` You will be refunded ₹${quote.refund_amount} (${quote.refund_percent}%).`
+                : ' No refund applies at this time.'
+            : '';
+
         Alert.alert(
             'Cancel Booking',
-            'Are you sure you want to cancel this booking? This action cannot be undone.',
+            `Are you sure you want to cancel this booking? This action cannot be undone.${refundText}`,
             [
                 { text: 'No', style: 'cancel' },
                 {
@@ -22,7 +22,7 @@ export default function SOSAlertsScreen() {
             // Assuming an 'emergency_alerts' table exists as per schema
             const { data, error } = await supabase
                 .from('emergency_alerts')
-                .select('*, user:users(*)')
+                .select('*, user:users(*, user_phone_numbers(phone))')
                 .order('created_at', { ascending: false });
 
             // Mock data if table doesn't exist for demo purposes (or empty)
@@ -143,7 +143,7 @@ export default function SOSAlertsScreen() {
                                             style={{ height: vScale(48), borderRadius: hScale(12) }}
                                             className="flex-1 bg-white border border-slate-200 shadow-sm"
                                             variant="outline"
-                                            onPress={() => callUser(alert.user?.phone)}
+                                            onPress={() => callUser(alert.user?.user_phone_numbers?.phone)}
                                         >
                                             <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: spacing.sm }}>
                                                 <Phone size={hScale(16)} color="#475569" />
@@ -10,10 +10,13 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Search, ArrowLeft, MapPin, Calendar, Clock, DollarSign, Navigation2, MoreVertical, Trash2 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { CancellationService } from '@/services/CancellationService';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { Alert } from 'react-native';
 import { useResponsive } from '@/hooks/useResponsive';
+import { useAuth } from '@/contexts/AuthContext';
+import { hasAdminPermission } from '@shared/admin-permissions';
 import {
     DropdownMenu,
     DropdownMenuContent,
@@ -25,6 +28,8 @@ export default function AdminTripsScreen() {
     const router = useRouter();
     const { hScale, vScale, spacing, fontSize: fontSizes } = useResponsive();
     const [searchQuery, setSearchQuery] = useState('');
+    const { user } = useAuth();
+    const canCancel = hasAdminPermission(user, 'trips.cancel');
 
     const { data: trips, isLoading } = useQuery({
         queryKey: ['admin-trips-full'],
@@ -46,10 +51,8 @@ export default function AdminTripsScreen() {
 
     const queryClient = useQueryClient(); // Add queryClient hook
     const cancelTripMutation = useMutation({
-        mutationFn: async (id: string) => {
-            const { error } = await supabase.from('trips').update({ status: 'cancelled' }).eq('id', id);
-            if (error) throw error;
-        },
+        // Refunds every passenger through the cancellation policy
+        mutationFn: (id: string) => CancellationService.cancelTrip(id, 'Cancelled by admin'),
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['admin-trips-full'] });
             Alert.alert('Success', 'Trip has been cancelled.');
@@ -91,7 +94,7 @@ export default function AdminTripsScreen() {
                                 </Text>
                             </View>
 
-                            {item.status !== 'cancelled' && item.status !== 'completed' && (
+                            {canCancel && item.status !== 'cancelled' && item.status !== 'completed' && (
                                 <DropdownMenu>
                                     <DropdownMenuTrigger asChild>
                                         <Button variant="ghost" size="sm" style={{ height: hScale(32), width: hScale(32) }} className="p-0 rounded-full bg-slate-50 items-center justify-center">
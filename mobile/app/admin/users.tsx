@@ -12,6 +12,8 @@ import { Search, ArrowLeft, MoreVertical, Shield, Trash2, Ban } from 'lucide-rea
 import { supabase } from '@/lib/supabase';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useResponsive } from '@/hooks/useResponsive';
+import { useAuth } from '@/contexts/AuthContext';
+import { ADMIN_ROLE_LABELS, AdminRole, hasAdminPermission } from '@shared/admin-permissions';
 import {
     DropdownMenu,
     DropdownMenuContent,
@@ -24,13 +26,16 @@ export default function AdminUsersScreen() {
     const queryClient = useQueryClient();
     const { hScale, vScale, spacing, fontSize: fontSizes } = useResponsive();
     const [searchQuery, setSearchQuery] = useState('');
+    const { user: currentUser } = useAuth();
+    const canChangeRoles = hasAdminPermission(currentUser, 'users.roles');
+    const canBan = hasAdminPermission(currentUser, 'users.ban');
 
     const { data: users, isLoading } = useQuery({
         queryKey: ['admin-users'],
         queryFn: async () => {
             const { data, error } = await supabase
                 .from('users')
-                .select('*')
+                .select('*, user_phone_numbers(phone)')
                 .order('created_at', { ascending: false });
             if (error) throw error;
             return data;
@@ -39,10 +44,14 @@ export default function AdminUsersScreen() {
 
     const toggleRoleId = async ({ id, role }: { id: string, role: string }) => {
         try {
-            const newRole = role === 'admin' ? 'user' : 'admin';
-            const { error } = await supabase.from('users').update({ role: newRole }).eq('id', id);
+            // New admins start with the narrowest role; superadmins can widen it on the web
+            const newRole = role === 'admin' ? 'passenger' : 'admin';
+            const { error } = await supabase
+                .from('users')
+                .update({ role: newRole, admin_role: newRole === 'admin' ? 'support' : null })
+                .eq('id', id);
             if (error) throw error;
-            Alert.alert('Success', `User is now a ${newRole}`);
+            Alert.alert('Success', newRole === 'admin' ? 'User is now a support admin' : 'Admin access removed');
             queryClient.invalidateQueries({ queryKey: ['admin-users'] });
         } catch (error: any) {
             Alert.alert('Error', error.message);
@@ -51,11 +60,6 @@ export default function AdminUsersScreen() {
 
     const toggleBanMutation = useMutation({
         mutationFn: async ({ id, isBanned }: { id: string, isBanned: boolean }) => {
-            // Assuming 'is_banned' column exists. If not, this might need schema update or 'status' column.
-            // Using 'status' = 'banned' / 'active' is safer if is_banned doesn't exist. 
-            // Checking previous code, there was no status usage for users, so I'll try 'is_banned'.
-            // Fallback: if is_banned fails, we might need to handle it. 
-            // Let's assume 'is_banned' is the convention.
             const { error } = await supabase.from('users').update({ is_banned: !isBanned }).eq('id', id);
             if (error) throw error;
         },
@@ -92,14 +96,17 @@ export default function AdminUsersScreen() {
                         <View style={{ flexDirection: 'row', marginTop: vScale(6), gap: spacing.sm }}>
                             <Badge variant={item.role === 'admin' ? 'default' : 'secondary'} style={{ height: vScale(20), paddingHorizontal: hScale(8) }} className={`${item.role === 'admin' ? 'bg-violet-100' : 'bg-slate-100'}`}>
                                 <Text style={{ fontSize: hScale(10) }} className={`capitalize font-bold ${item.role === 'admin' ? 'text-violet-700' : 'text-slate-600'}`}>
-                                    {item.role}
+                                    {item.role === 'admin' && item.admin_role
+                                        ? ADMIN_ROLE_LABELS[item.admin_role as AdminRole] || item.admin_role
+                                        : item.role}
                                 </Text>
                             </Badge>
-                            {item.phone && <Text style={{ fontSize: hScale(11) }} className="text-slate-400 font-medium items-center flex">{item.phone}</Text>}
+                            {item.phone && <Text style={{ fontSize: hScale(11) }} className="text-slate-400 font-medium items-center flex">{item.user_phone_numbers?.phone ?? item.phone}</Text>}
                         </View>
                     </View>
                 </View>
 
+                {(canChangeRoles || canBan) && item.id !== currentUser?.id && (
                 <DropdownMenu>
                     <DropdownMenuTrigger asChild>
                         <Button variant="ghost" size="sm" style={{ height: hScale(32), width: hScale(32) }} className="p-0 rounded-full bg-slate-50 items-center justify-center">
@@ -107,6 +114,7 @@ export default function AdminUsersScreen() {
                         </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end" style={{ width: hScale(192), borderRadius: hScale(16), borderWidth: 1 }} className="border-slate-100 bg-white shadow-lg">
+                        {canChangeRoles && (
                         <DropdownMenuItem
                             style={{ borderRadius: hScale(12) }}
                              onPress={() => toggleRoleId({ id: item.id, role: item.role })}
@@ -114,6 +122,8 @@ export default function AdminUsersScreen() {
                             <Shield size={hScale(16)} style={{ marginRight: spacing.sm }} className="text-slate-700" />
                             <Text style={{ fontSize: hScale(14) }} className="font-medium text-slate-700">{item.role === 'admin' ? 'Remove Admin' : 'Make Admin'}</Text>
                         </DropdownMenuItem>
+                        )}
+                        {canBan && (
                         <DropdownMenuItem
                             style={{ borderRadius: hScale(12) }}
                             className={`${item.is_banned ? 'active:bg-green-50' : 'active:bg-red-50'}`}
@@ -124,8 +134,10 @@ export default function AdminUsersScreen() {
                                 {item.is_banned ? 'Unban User' : 'Ban User'}
                             </Text>
                         </DropdownMenuItem>
+                        )}
                     </DropdownMenuContent>
                 </DropdownMenu>
+                )}
             </View>
         </TouchableOpacity>
     );
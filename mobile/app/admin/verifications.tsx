@@ -11,6 +11,9 @@ import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, Check, X, FileText, User, ChevronRight, Calendar, CreditCard, Shield, Filter, Clock, AlertTriangle, CheckCircle2 } from 'lucide-react-native';
 import { format } from 'date-fns';
 import { useResponsive } from '@/hooks/useResponsive';
+import { useAuth } from '@/contexts/AuthContext';
+import { hasAdminPermission } from '@shared/admin-permissions';
+import { DRIVER_DOCUMENT_LABELS } from '@shared/schema';
 
 
 export default function DriverVerificationsScreen() {
@@ -20,13 +23,15 @@ export default function DriverVerificationsScreen() {
     const [refreshing, setRefreshing] = useState(false);
     const [selectedDriver, setSelectedDriver] = useState<any>(null);
     const [filter, setFilter] = useState<'pending' | 'verified' | 'rejected'>('pending');
+    const { user } = useAuth();
+    const canVerify = hasAdminPermission(user, 'drivers.verify');
 
     const { data: drivers, isLoading, refetch } = useQuery({
         queryKey: ['admin-verifications', filter],
         queryFn: async () => {
             const { data, error } = await supabase
                 .from('drivers')
-                .select('*, user:users(*)')
+                .select('*, user:users(*), documents:driver_documents(*)')
                 .eq('verification_status', filter)
                 .order('created_at', { ascending: false });
 
@@ -322,13 +327,30 @@ export default function DriverVerificationsScreen() {
                                                 <Image source={{ uri: selectedDriver.license_photo }} style={{ width: '100%', height: vScale(224), borderRadius: hScale(16), borderWidth: 1 }} className="bg-slate-100 border-slate-200" resizeMode="cover" />
                                             )}
                                         </View>
+
+                                        {(selectedDriver.documents || [])
+                                            .filter((doc: any) => doc.status !== 'superseded')
+                                            .map((doc: any) => (
+                                                <View key={doc.id} style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingVertical: vScale(10), borderTopWidth: 1 }} className="border-slate-100">
+                                                    <View style={{ flex: 1 }}>
+                                                        <Text style={{ fontSize: hScale(14) }} className="font-bold text-slate-900">{DRIVER_DOCUMENT_LABELS[doc.doc_type] || doc.doc_type}</Text>
+                                                        <Text style={{ fontSize: hScale(12) }} className="text-slate-500">
+                                                            {doc.document_number || 'No number'}
+                                                            {doc.expires_on ? ` · expires ${format(new Date(doc.expires_on), 'MMM d, yyyy')}` : ''}
+                                                        </Text>
+                                                    </View>
+                                                    <Badge variant={doc.status === 'verified' ? 'default' : doc.status === 'pending' ? 'secondary' : 'destructive'}>
+                                                        {doc.status}
+                                                    </Badge>
+                                                </View>
+                                            ))}
                                     </View>
                                 </View>
                             </ScrollView>
 
                             {/* Sticky Action Footer */}
                             <View style={{ position: 'absolute', bottom: 0, left: 0, right: 0, padding: spacing.xl, borderTopWidth: 1 }} className="bg-white border-slate-100 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.05)]">
-                                {filter === 'pending' ? (
+                                {filter === 'pending' && canVerify ? (
                                     <View style={{ flexDirection: 'row', gap: spacing.lg }}>
                                         <Button
                                             style={{ flex: 1, height: vScale(56), borderRadius: hScale(16), borderWidth: 2 }}
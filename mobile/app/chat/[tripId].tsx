@@ -1,19 +1,34 @@
 import { useState, useEffect, useRef } from 'react';
-import { View, Text, TextInput, FlatList, TouchableOpacity, KeyboardAvoidingView, Platform, ActivityIndicator, StatusBar } from 'react-native';
+import { View, Text, TextInput, FlatList, TouchableOpacity, KeyboardAvoidingView, Platform, ActivityIndicator, StatusBar, ScrollView, Image, Linking, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { Map, Marker } from '../../components/Map';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { format } from 'date-fns';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useResponsive } from '@/hooks/useResponsive';
+import { ChatService, ChatMessage, QUICK_REPLIES, QuickReplyKey } from '@/services/ChatService';
+import { LocationService } from '@/services/LocationService';
  
-interface Message {
-    id: string;
-    senderId: string;
-    message: string;
-    createdAt: string;
+function ChatImage({ path, size }: { path: string; size: number }) {
+    const [url, setUrl] = useState<string | null>(null);
+ 
+    useEffect(() => {
+        ChatService.getAttachmentUrl(path).then(setUrl);
+    }, [path]);
+ 
+    if (!url) {
+        return <View style={{ width: size, height: size * 0.75, borderRadius: 12 }} className="bg-slate-200 dark:bg-slate-800" />;
+    }
+ 
+    return (
+        <TouchableOpacity onPress={() => Linking.openURL(url)}>
+            <Image source={{ uri: url }} style={{ width: size, height: size * 0.75, borderRadius: 12 }} resizeMode="cover" />
+        </TouchableOpacity>
+    );
 }
  
 export default function ChatScreen() {
@@ -22,101 +37,181 @@ export default function ChatScreen() {
     const { user } = useAuth();
     const { theme, isDark } = useTheme();
     const { hScale, vScale, spacing } = useResponsive();
-    const [messages, setMessages] = useState<Message[]>([]);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [newMessage, setNewMessage] = useState('');
     const [loading, setLoading] = useState(true);
     const [sending, setSending] = useState(false);
+    const [otherIsTyping, setOtherIsTyping] = useState(false);
     const flatListRef = useRef<FlatList>(null);
+    const typingChannelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+    const typingTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+    const isTypingRef = useRef(false);
+ 
+    const conversation = { tripId: tripId as string, senderId: user?.id || '', receiverId: otherUserId as string };
  
     useEffect(() => {
+        if (!user?.id) return;
         fetchMessages();
  
+        // New messages, and read receipts on ours
         const channel = supabase
             .channel(`trip_chat:${tripId}`)
             .on(
                 'postgres_changes',
                 {
-                    event: 'INSERT',
+                    event: '*',
                     schema: 'public',
                     table: 'messages',
                     filter: `trip_id=eq.${tripId}`,
                 },
                 (payload) => {
-                    const message = payload.new;
+                    const message = payload.new as ChatMessage;
                     const isRelevant =
                         (message.sender_id === user?.id && message.receiver_id === otherUserId) ||
                         (message.sender_id === otherUserId && message.receiver_id === user?.id);
  
                     if (isRelevant) {
                         setMessages((current) => {
-                            if (current.some(m => m.id === message.id)) return current;
-                            return [...current, {
-                                id: message.id,
-                                senderId: message.sender_id,
-                                message: message.message,
-                                createdAt: message.created_at,
-                            }];
+                            if (current.some(m => m.id === message.id)) {
+                                return current.map(m => m.id === message.id ? message : m);
+                            }
+                            return [...current, message];
                         });
+ 
+                        if (message.sender_id === otherUserId) {
+                            setOtherIsTyping(false);
+                            if (payload.eventType === 'INSERT') ChatService.markRead(tripId as string, otherUserId as string);
+                        }
                     }
                 }
             )
             .subscribe();
  
+        // Typing indicators are broadcasts; nothing is stored
+        let clearTimer: ReturnType<typeof setTimeout> | undefined;
+        const typingChannel = supabase
+            .channel(`typing:${ChatService.room(tripId as string, user.id, otherUserId as string)}`)
+            .on('broadcast', { event: 'typing' }, ({ payload }) => {
+                if (payload.userId !== otherUserId) return;
+                setOtherIsTyping(payload.isTyping);
+                clearTimeout(clearTimer);
+                if (payload.isTyping) clearTimer = setTimeout(() => setOtherIsTyping(false), 5000);
+            })
+            .subscribe();
+        typingChannelRef.current = typingChannel;
+ 
         return () => {
+            clearTimeout(clearTimer);
             supabase.removeChannel(channel);
+            supabase.removeChannel(typingChannel);
+            typingChannelRef.current = null;
         };
     }, [tripId, user?.id, otherUserId]);
  
     const fetchMessages = async () => {
-        try {
-            const { data, error } = await supabase
-                .from('messages')
-                .select('*')
-                .eq('trip_id', tripId)
-                .or(`sender_id.eq.${user?.id},receiver_id.eq.${user?.id}`)
-                .or(`sender_id.eq.${otherUserId},receiver_id.eq.${otherUserId}`)
-                .order('created_at', { ascending: true });
- 
-            if (error) throw error;
- 
-            setMessages(data.map((m: any) => ({
-                id: m.id,
-                senderId: m.sender_id,
-                message: m.message,
-                createdAt: m.created_at,
-            })));
-        } catch (error) {
-            console.error('Error fetching messages:', error);
-        } finally {
-            setLoading(false);
-        }
+        if (!user?.id) return;
+        setMessages(await ChatService.getConversation(tripId as string, user.id, otherUserId as string));
+        setLoading(false);
+        ChatService.markRead(tripId as string, otherUserId as string);
     };
  
-    const sendMessage = async () => {
-        if (!newMessage.trim()) return;
+    const broadcastTyping = (isTyping: boolean) => {
+        if (isTypingRef.current === isTyping) return;
+        isTypingRef.current = isTyping;
+        typingChannelRef.current?.send({ type: 'broadcast', event: 'typing', payload: { userId: user?.id, isTyping } });
+    };
+ 
+    const handleChangeText = (text: string) => {
+        setNewMessage(text);
+        broadcastTyping(text.length > 0);
  
+        if (typingTimeoutRef.current) clearTimeout(typingTimeoutRef.current);
+        typingTimeoutRef.current = setTimeout(() => broadcastTyping(false), 2000);
+    };
+ 
+    const send = async (action: () => Promise<void>) => {
         setSending(true);
         try {
-            const { error } = await supabase
-                .from('messages')
-                .insert({
-                    trip_id: tripId,
-                    sender_id: user?.id,
-                    receiver_id: otherUserId,
-                    message: newMessage.trim(),
-                });
- 
-            if (error) throw error;
-            setNewMessage('');
-        } catch (error) {
+            await action();
+            broadcastTyping(false);
+        } catch (error: any) {
             console.error('Error sending message:', error);
+            Alert.alert('Error', error.message || 'Failed to send message');
         } finally {
             setSending(false);
         }
     };
  
-    const renderMessage = ({ item }: { item: Message }) => {
-        const isMe = item.senderId === user?.id;
+    const sendMessage = async () => {
+        if (!newMessage.trim()) return;
+        await send(async () => {
+            await ChatService.sendText(conversation, newMessage.trim());
+            setNewMessage('');
+        });
+    };
+ 
+    const sendQuickReply = (key: QuickReplyKey) => send(() => ChatService.sendQuickReply(conversation, key));
+ 
+    const shareLocation = () => send(async () => {
+        const location = await LocationService.getCurrentLocation();
+        if (!location) throw new Error('Allow location access to share where you are');
+        await ChatService.sendLocation(conversation, {
+            lat: location.coords.lat,
+            lng: location.coords.lng,
+            accuracy: Math.round(location.accuracy),
+        });
+    });
+ 
+    const sendPhoto = async () => {
+        const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (status !== 'granted') {
+            Alert.alert('Permission needed', 'Please grant photo library access to send a photo.');
+            return;
+        }
+ 
+        const result = await ImagePicker.launchImageLibraryAsync({
+            mediaTypes: ImagePicker.MediaTypeOptions.Images,
+            quality: 0.6,
+            base64: true,
+        });
+ 
+        if (result.canceled || !result.assets[0].base64) return;
+        const fileExt = result.assets[0].uri.split('.').pop() || 'jpg';
+        await send(() => ChatService.sendImage(conversation, result.assets[0].base64!, fileExt));
+    };
+ 
+    const renderBody = (item: ChatMessage, isMe: boolean) => {
+        const attachment = item.attachment;
+ 
+        if (item.message_type === 'location' && attachment?.lat != null && attachment?.lng != null) {
+            const { lat, lng } = attachment;
+            return (
+                <TouchableOpacity onPress={() => Linking.openURL(`https://www.google.com/maps/search/?api=1&query=${lat},${lng}`)}>
+                    <View style={{ width: hScale(220), height: vScale(130), borderRadius: hScale(16), overflow: 'hidden' }} pointerEvents="none">
+                        <Map initialRegion={{ latitude: lat, longitude: lng, latitudeDelta: 0.005, longitudeDelta: 0.005 }}>
+                            <Marker coordinate={{ latitude: lat, longitude: lng }} />
+                        </Map>
+                    </View>
+                    <Text style={{ fontSize: hScale(11), marginTop: vScale(8) }} className={`font-bold ${isMe ? 'text-blue-100' : 'text-blue-600'}`}>
+                        Open in Maps
+                    </Text>
+                </TouchableOpacity>
+            );
+        }
+ 
+        if (item.message_type === 'image' && attachment?.path) {
+            return <ChatImage path={attachment.path} size={hScale(220)} />;
+        }
+ 
+        return (
+            <Text style={{ fontSize: hScale(15), lineHeight: vScale(24) }} className={`font-bold tracking-tight ${isMe ? 'text-white' : 'text-slate-800 dark:text-slate-200'}`}>
+                {item.message}
+            </Text>
+        );
+    };
+ 
+    const renderMessage = ({ item }: { item: ChatMessage }) => {
+        const isMe = item.sender_id === user?.id;
         return (
             <View style={{ marginBottom: vScale(24), maxWidth: '85%', alignSelf: isMe ? 'flex-end' : 'flex-start' }}>
                 <View 
@@ -124,11 +219,10 @@ export default function ChatScreen() {
                     className={`${isMe 
                     ? 'bg-slate-900 dark:bg-blue-600 rounded-br-sm shadow-slate-900/10' 
                     : 'bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-bl-sm shadow-slate-900/5'}`}>
-                    <Text style={{ fontSize: hScale(15), lineHeight: vScale(24) }} className={`font-bold tracking-tight ${isMe ? 'text-white' : 'text-slate-800 dark:text-slate-200'}`}>
-                        {item.message}
-                    </Text>
+                    {renderBody(item, isMe)}
                     <Text style={{ fontSize: hScale(9), marginTop: vScale(8), opacity: 0.6 }} className={`font-black uppercase tracking-widest ${isMe ? 'text-blue-100 text-right' : 'text-slate-500'}`}>
-                        {format(new Date(item.createdAt), 'hh:mm a')}
+                        {format(new Date(item.created_at), 'hh:mm a')}
+                        {isMe && (item.is_read ? `  ·  Seen${item.read_at ? ' ' + format(new Date(item.read_at), 'hh:mm a') : ''}` : '  ·  Sent')}
                     </Text>
                 </View>
             </View>
@@ -155,7 +249,7 @@ export default function ChatScreen() {
                     </View>
                     <View>
                         <Text style={{ fontSize: hScale(18) }} className="font-black text-slate-900 dark:text-white tracking-tighter uppercase">{otherUserName || 'User'}</Text>
-                        <Text style={{ fontSize: hScale(10) }} className="font-black text-slate-500 dark:text-slate-500 uppercase tracking-widest">Secure Trip Channel</Text>
+                        <Text style={{ fontSize: hScale(10) }} className="font-black text-slate-500 dark:text-slate-500 uppercase tracking-widest">{otherIsTyping ? 'Typing…' : 'Secure Trip Channel'}</Text>
                     </View>
                 </View>
             </View>
@@ -191,14 +285,50 @@ export default function ChatScreen() {
                     />
                 )}
  
-                <View style={{ flexDirection: 'row', padding: spacing.xl, borderTopWidth: 1, alignItems: 'flex-end' }} className="bg-white dark:bg-slate-950 border-slate-100 dark:border-slate-800/50 shadow-2xl">
+                <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    style={{ flexGrow: 0 }}
+                    contentContainerStyle={{ paddingHorizontal: spacing.xl, paddingVertical: vScale(10), gap: hScale(8) }}
+                    className="bg-white dark:bg-slate-950 border-t border-slate-100 dark:border-slate-800/50"
+                >
+                    {(Object.entries(QUICK_REPLIES) as [QuickReplyKey, string][]).map(([key, label]) => (
+                        <TouchableOpacity
+                            key={key}
+                            onPress={() => sendQuickReply(key)}
+                            disabled={sending}
+                            style={{ paddingHorizontal: hScale(14), paddingVertical: vScale(8), borderRadius: hScale(20), borderWidth: 1 }}
+                            className="bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-800"
+                        >
+                            <Text style={{ fontSize: hScale(12) }} className="font-bold text-slate-700 dark:text-slate-300">{label}</Text>
+                        </TouchableOpacity>
+                    ))}
+                </ScrollView>
+ 
+                <View style={{ flexDirection: 'row', padding: spacing.xl, paddingTop: vScale(4), alignItems: 'flex-end' }} className="bg-white dark:bg-slate-950 shadow-2xl">
+                    <TouchableOpacity
+                        onPress={shareLocation}
+                        disabled={sending}
+                        style={{ width: hScale(44), height: hScale(56), marginRight: hScale(4) }}
+                        className="justify-center items-center"
+                    >
+                        <Ionicons name="location" size={hScale(24)} color={isDark ? "#60a5fa" : "#2563eb"} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        onPress={sendPhoto}
+                        disabled={sending}
+                        style={{ width: hScale(44), height: hScale(56), marginRight: hScale(8) }}
+                        className="justify-center items-center"
+                    >
+                        <Ionicons name="image" size={hScale(24)} color={isDark ? "#60a5fa" : "#2563eb"} />
+                    </TouchableOpacity>
                     <TextInput
                         style={{ flex: 1, paddingHorizontal: spacing.xl, paddingVertical: vScale(16), marginRight: spacing.lg, fontSize: hScale(16), maxHeight: vScale(140), borderRadius: hScale(28), borderWidth: 1 }}
                         className="bg-slate-50 dark:bg-slate-900 border-slate-100 dark:border-slate-800 tracking-tight text-slate-900 dark:text-white shadow-inner"
                         placeholder="Type your message..."
                         placeholderTextColor={isDark ? "#475569" : "#94a3b8"}
                         value={newMessage}
-                        onChangeText={setNewMessage}
+                        onChangeText={handleChangeText}
                         multiline
                         maxLength={500}
                     />
@@ -13,6 +13,8 @@ import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Text } from '@/components/ui/text';
 import { MapService, Coordinates } from '@/services/MapService';
+import { TripStopsService } from '@/services/TripStopsService';
+import { VehicleService, Vehicle } from '@/services/VehicleService';
 import { Switch, Platform } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { useTheme } from '@/contexts/ThemeContext';
@@ -44,6 +46,7 @@ const CreateTripScreen = () => {
  
     const [waypoints, setWaypoints] = useState<{ id: string; location: string; coords: Coordinates }[]>([]);
     const [seats, setSeats] = useState('4');
+    const [vehicleId, setVehicleId] = useState<string>();
     const [price, setPrice] = useState('');
     const [preferences, setPreferences] = useState({
         smoking: false,
@@ -88,6 +91,25 @@ const CreateTripScreen = () => {
         enabled: !!user,
     });
  
+    const { data: vehicles = [] } = useQuery({
+        queryKey: ['driver-vehicles', driverProfile?.id],
+        queryFn: async () => (await VehicleService.getVehicles(driverProfile.id))
+            .filter(v => v.verification_status === 'verified'),
+        enabled: !!driverProfile,
+    });
+
+    const selectVehicle = (vehicle: Vehicle) => {
+        setVehicleId(vehicle.id);
+        setPreferences(prev => ({ ...prev, vehicleType: vehicle.vehicle_type }));
+        setSeats(String(vehicle.seat_count));
+    };
+
+    // Start from the active vehicle
+    useEffect(() => {
+        if (vehicleId || vehicles.length === 0) return;
+        selectVehicle(vehicles.find(v => v.id === driverProfile?.active_vehicle_id) || vehicles[0]);
+    }, [vehicles, vehicleId, driverProfile]);
+ 
     useEffect(() => {
         if (!isLoadingDriver) {
             if (!driverProfile) {
@@ -127,8 +149,9 @@ const CreateTripScreen = () => {
             });
 
             if (!price || price === '0') {
-                const { calculateFare } = await import('@/lib/fareCalculator');
-                const fare = calculateFare(preferences.vehicleType, route.distance, route.duration, surge.multiplier);
+                const { calculateFare, fetchFareConfig } = await import('@/lib/fareCalculator');
+                const fareConfig = await fetchFareConfig();
+                const fare = calculateFare(preferences.vehicleType, route.distance, route.duration, surge.multiplier, fareConfig);
                 setPrice(fare.totalFare.toString());
             }
         } catch (error) {
@@ -150,6 +173,21 @@ const CreateTripScreen = () => {
                 .select()
                 .single();
             if (error) throw error;
+
+            // Origin and destination stops come with the trip; register the stops in between
+            const stops = waypoints.filter(w => w.coords.lat !== 0 && w.location);
+            if (stops.length > 0 && pickupCoords && dropCoords) {
+                try {
+                    await TripStopsService.setStops(data.id, [
+                        { location: pickup, lat: pickupCoords.lat, lng: pickupCoords.lng },
+                        ...stops.map(w => ({ location: w.location, lat: w.coords.lat, lng: w.coords.lng })),
+                        { location: drop, lat: dropCoords.lat, lng: dropCoords.lng },
+                    ]);
+                } catch (stopsError) {
+                    await supabase.from('trips').delete().eq('id', data.id);
+                    throw stopsError;
+                }
+            }
             return data;
         },
         onSuccess: () => {
@@ -193,8 +231,15 @@ const CreateTripScreen = () => {
             return;
         }
  
+        const selectedVehicle = vehicles.find(v => v.id === vehicleId);
+        if (selectedVehicle && parseInt(seats) > selectedVehicle.seat_count) {
+            Alert.alert('Configuration Error', `Your ${selectedVehicle.make} ${selectedVehicle.model} only has ${selectedVehicle.seat_count} passenger seat(s).`);
+            return;
+        }
+ 
         const tripData = {
             driver_id: driverProfile.id,
+            vehicle_id: vehicleId || null,
             pickup_location: pickup,
             pickup_lat: pickupCoords.lat.toString(),
             pickup_lng: pickupCoords.lng.toString(),
@@ -407,29 +452,32 @@ const CreateTripScreen = () => {
                             <Text style={{ fontSize: fontSize.lg }} className="font-black text-slate-900 dark:text-white uppercase tracking-tighter">Tech Specs</Text>
                         </View>
                         <Label>Vehicle Configuration</Label>
-                        <View style={{ gap: spacing.sm, marginTop: spacing.xs, marginBottom: spacing.xxl }} className="flex-row">
-                            {(['car', 'auto', 'bike'] as const).map((type) => (
-                                <TouchableOpacity
-                                    key={type}
-                                    onPress={() => {
-                                        const seatsMap = { car: '4', auto: '3', bike: '1' };
-                                        setPreferences({ ...preferences, vehicleType: type });
-                                        setSeats(seatsMap[type]);
-                                    }}
-                                    style={{ paddingVertical: vScale(16), borderRadius: hScale(16), borderWidth: 2 }}
-                                    className={`flex-1 items-center transition-all ${preferences.vehicleType === type 
-                                        ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/20 shadow-lg shadow-blue-500/10' 
-                                        : 'border-slate-50 dark:border-slate-800 bg-white dark:bg-slate-900'}`}
-                                >
-                                    <Ionicons
-                                        name={type === 'car' ? 'car' : type === 'auto' ? 'car-sport' : 'bicycle'}
-                                        size={hScale(28)}
-                                        color={preferences.vehicleType === type ? (isDark ? '#60a5fa' : '#2563eb') : (isDark ? '#334155' : '#cbd5e1')}
-                                    />
-                                    <Text style={{ fontSize: hScale(9), marginTop: spacing.sm }} className={`font-black uppercase tracking-widest ${preferences.vehicleType === type ? 'text-blue-600 dark:text-blue-400' : 'text-slate-400 dark:text-slate-500'}`}>{type}</Text>
-                                </TouchableOpacity>
-                            ))}
-                        </View>
+                        {vehicles.length === 0 ? (
+                            <TouchableOpacity onPress={() => router.push('/profile/vehicles' as any)} style={{ marginTop: spacing.xs, marginBottom: spacing.xxl }}>
+                                <Text style={{ fontSize: hScale(11) }} className="font-bold text-slate-500 dark:text-slate-400">No verified vehicle yet. Tap to manage your vehicles.</Text>
+                            </TouchableOpacity>
+                        ) : (
+                            <View style={{ gap: spacing.sm, marginTop: spacing.xs, marginBottom: spacing.xxl }} className="flex-row flex-wrap">
+                                {vehicles.map((vehicle) => (
+                                    <TouchableOpacity
+                                        key={vehicle.id}
+                                        onPress={() => selectVehicle(vehicle)}
+                                        style={{ paddingVertical: vScale(16), paddingHorizontal: spacing.md, borderRadius: hScale(16), borderWidth: 2, minWidth: '30%' }}
+                                        className={`flex-1 items-center transition-all ${vehicleId === vehicle.id
+                                            ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/20 shadow-lg shadow-blue-500/10'
+                                            : 'border-slate-50 dark:border-slate-800 bg-white dark:bg-slate-900'}`}
+                                    >
+                                        <Ionicons
+                                            name={vehicle.vehicle_type === 'car' ? 'car' : vehicle.vehicle_type === 'auto' ? 'car-sport' : 'bicycle'}
+                                            size={hScale(28)}
+                                            color={vehicleId === vehicle.id ? (isDark ? '#60a5fa' : '#2563eb') : (isDark ? '#334155' : '#cbd5e1')}
+                                        />
+                                        <Text style={{ fontSize: hScale(9), marginTop: spacing.sm }} className={`font-black uppercase tracking-widest ${vehicleId === vehicle.id ? 'text-blue-600 dark:text-blue-400' : 'text-slate-400 dark:text-slate-500'}`}>{vehicle.make} {vehicle.model}</Text>
+                                        <Text style={{ fontSize: hScale(8) }} className="font-bold text-slate-400 dark:text-slate-500 uppercase tracking-widest">{vehicle.plate}</Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                        )}
                         
                         <View style={{ gap: spacing.xl }} className="flex-row">
                             <View className="flex-1">
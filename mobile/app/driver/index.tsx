@@ -27,6 +27,7 @@ import { DriverAcceptanceModal } from '@/components/DriverAcceptanceModal';
 import { useTheme } from '@/contexts/ThemeContext';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useResponsive } from '@/hooks/useResponsive';
+import { VehicleService } from '@/services/VehicleService';
  
 export default function DriverDashboard() {
     const router = useRouter();
@@ -104,19 +105,53 @@ export default function DriverDashboard() {
         enabled: !!driver
     });
  
+    const setAvailability = async (isAvailable: boolean, vehicleId?: string) => {
+        if (!driver) return;
+ 
+        try {
+            if (vehicleId && vehicleId !== driver.active_vehicle_id) {
+                await VehicleService.setActiveVehicle(driver.id, vehicleId);
+            }
+ 
+            const { error } = await supabase
+                .from('drivers')
+                .update({ is_available: isAvailable })
+                .eq('id', driver.id);
+ 
+            if (error) throw error;
+            refetch();
+        } catch (error: any) {
+            Alert.alert("Error", error.message || "Failed to update status");
+        }
+    };
+ 
+    // Going online asks which vehicle to drive when there's more than one
     const toggleAvailability = async () => {
         if (!driver) return;
  
-        const newStatus = !driver.is_available;
-        const { error } = await supabase
-            .from('drivers')
-            .update({ is_available: newStatus })
-            .eq('id', driver.id);
+        if (driver.is_available) {
+            await setAvailability(false);
+            return;
+        }
+ 
+        const vehicles = (await VehicleService.getVehicles(driver.id))
+            .filter(v => v.verification_status === 'verified');
  
-        if (error) {
-            Alert.alert("Error", "Failed to update status");
+        if (vehicles.length === 0) {
+            Alert.alert("No Verified Vehicle", "Add a vehicle and wait for it to be verified before going online.", [
+                { text: "Cancel", style: "cancel" },
+                { text: "My Vehicles", onPress: () => router.push('/profile/vehicles' as any) }
+            ]);
+        } else if (vehicles.length === 1) {
+            await setAvailability(true, vehicles[0].id);
         } else {
-            refetch();
+            Alert.alert("Which vehicle?", "Ride requests will be matched to this vehicle.", [
+                ...vehicles.map(v => ({
+                    text: `${v.make} ${v.model} · ${v.plate}`,
+                    onPress: () => setAvailability(true, v.id)
+                })),
+                { text: "Cancel", style: "cancel" as const }
+            ]);
         }
     };
  
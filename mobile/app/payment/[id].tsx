@@ -9,6 +9,7 @@ import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { PaymentMethodSelectorMobile, PromoCodeDialogMobile } from '../../components/PaymentComponents';
 import { PaymentService } from '@/services/PaymentService';
+import { PromoCodeService } from '@/services/PromoCodeService';
 import { RazorpayService } from '@/services/RazorpayService';
 import { AutoPaySetup } from '@/components/AutoPaySetup';
 import PaymentWebView from '../../components/PaymentWebView';
@@ -29,7 +30,7 @@ const PaymentScreen = () => {
     const [isProcessing, setIsProcessing] = useState(false);
     const [selectedMethod, setSelectedMethod] = useState('upi');
     const [promoVisible, setPromoVisible] = useState(false);
-    const [appliedPromo, setAppliedPromo] = useState<{ code: string, discount: number, id: string } | null>(null);
+    const [appliedPromo, setAppliedPromo] = useState<{ code: string, discount: number, id: string, originalAmount: number } | null>(null);
     const [paymentOrder, setPaymentOrder] = useState<any>(null);
     const [showWebView, setShowWebView] = useState(false);
     const [webViewOrder, setWebViewOrder] = useState<any>(null);
@@ -52,20 +53,15 @@ const PaymentScreen = () => {
                 
                 if (error) throw error;
 
-                // Secondary fetch for promo code usage since relationship is missing
-                const { data: promoUsage } = await supabase
-                    .from('promo_code_uses')
-                    .select('*, promo_code:promo_codes(*)')
-                    .eq('booking_id', bookingId)
-                    .single();
+                // Secondary fetch for the booking's promo redemption since relationship is missing
+                const promoUsage = await PromoCodeService.getBookingRedemption(bookingId as string);
 
-                if (promoUsage && promoUsage.promo_code) {
-                    setAppliedPromo({
-                        code: promoUsage.promo_code.code,
-                        discount: parseFloat(promoUsage.discount_amount),
-                        id: promoUsage.promo_code.id
-                    });
-                }
+                setAppliedPromo(promoUsage && promoUsage.promo_code ? {
+                    code: promoUsage.promo_code.code,
+                    discount: parseFloat(promoUsage.discount_amount),
+                    id: promoUsage.promo_code_id,
+                    originalAmount: parseFloat(promoUsage.original_amount)
+                } : null);
 
                 return data;
             } catch (err) {
@@ -79,27 +75,27 @@ const PaymentScreen = () => {
  
     useEffect(() => {
         if (booking) {
-            const baseAmount = parseFloat(booking.total_amount);
-            const fee = baseAmount * 0.05;
-            const discount = appliedPromo?.discount || 0;
-            setFinalTotal(Math.max(0, baseAmount + fee - discount));
+            // total_amount is priced by the server, fee included, and already net of the promo
+            setFinalTotal(Math.max(0, parseFloat(booking.total_amount)));
         }
     }, [booking, appliedPromo]);
  
-    const updateBookingMutation = useMutation({
-        mutationFn: async ({ amount, promoCodeId }: { amount: number, promoCodeId?: string | null }) => {
-            const { error } = await supabase
-                .from('bookings')
-                .update({
-                    total_amount: amount.toString()
-                })
-                .eq('id', bookingId);
-            if (error) throw error;
+    const applyPromoMutation = useMutation({
+        mutationFn: (code: string) => PromoCodeService.applyPromoCode(bookingId as string, code),
+        onSuccess: () => {
+            refetch();
+        },
+    });
+ 
+    const removePromoMutation = useMutation({
+        mutationFn: () => PromoCodeService.removePromoCode(bookingId as string),
+        onSuccess: () => {
+            refetch();
         },
         onError: (error: any) => {
             toast({
                 title: 'Error',
-                description: 'Failed to update booking amount',
+                description: error.message || 'Failed to remove promo code',
                 variant: 'destructive',
             });
         }
@@ -238,7 +234,9 @@ const PaymentScreen = () => {
     }
  
     const { trip } = booking;
-    const platformFee = parseFloat(booking.total_amount) * 0.05;
+    const grossFare = appliedPromo?.originalAmount ?? parseFloat(booking.total_amount);
+    const tripFare = grossFare / 1.05;
+    const platformFee = grossFare - tripFare;
  
     return (
         <View className="flex-1 bg-slate-50 dark:bg-slate-950">
@@ -302,7 +300,7 @@ const PaymentScreen = () => {
                     <View style={{ gap: vScale(16) }}>
                         <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
                             <Text style={{ fontSize: hScale(14) }} className="font-bold text-slate-500 dark:text-slate-500">Trip Fare ({booking.seats_booked} seats)</Text>
-                            <Text style={{ fontSize: hScale(14) }} className="font-black text-slate-900 dark:text-white uppercase tracking-tighter">₹{booking.total_amount}</Text>
+                            <Text style={{ fontSize: hScale(14) }} className="font-black text-slate-900 dark:text-white uppercase tracking-tighter">₹{tripFare.toFixed(2)}</Text>
                         </View>
                         <View style={{ flexDirection: 'row', justifyContent: 'space-between' }}>
                             <Text style={{ fontSize: hScale(14) }} className="font-bold text-slate-500 dark:text-slate-500">Platform Fee (5%)</Text>
@@ -351,14 +349,8 @@ const PaymentScreen = () => {
                             </View>
                         </View>
                         <TouchableOpacity
-                            onPress={async () => {
-                                const baseFare = parseFloat(trip.price_per_seat) * booking.seats_booked;
-                                const newTotal = baseFare * 1.05;
-                                try {
-                                    setAppliedPromo(null);
-                                    await updateBookingMutation.mutateAsync({ amount: newTotal, promoCodeId: null });
-                                } catch (e) { }
-                            }}
+                            onPress={() => removePromoMutation.mutate()}
+                            disabled={removePromoMutation.isPending}
                             style={{ padding: hScale(10), borderRadius: hScale(16) }}
                             className="bg-slate-100 dark:bg-slate-800"
                         >
@@ -407,18 +399,8 @@ const PaymentScreen = () => {
             <PromoCodeDialogMobile
                 visible={promoVisible}
                 onClose={() => setPromoVisible(false)}
-                onApply={async (code, discount, id) => {
-                    const baseFare = parseFloat(trip.price_per_seat) * booking.seats_booked;
-                    const newSubtotal = Math.max(0, baseFare - discount);
-                    const newTotal = newSubtotal * 1.05;
- 
-                    try {
-                        setAppliedPromo({ code, discount, id });
-                        await updateBookingMutation.mutateAsync({ amount: newTotal, promoCodeId: id });
-                        setPromoVisible(false);
-                    } catch (e) {
-                        setAppliedPromo(null);
-                    }
+                onApply={async (code) => {
+                    await applyPromoMutation.mutateAsync(code);
                 }}
             />
  
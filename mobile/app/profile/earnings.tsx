@@ -1,9 +1,9 @@
-import { View, ScrollView, TouchableOpacity, StatusBar, ActivityIndicator } from 'react-native';
+import { View, ScrollView, TouchableOpacity, StatusBar, ActivityIndicator, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabase';
 import { LineChart } from 'react-native-chart-kit';
 import { Dimensions } from 'react-native';
@@ -12,6 +12,7 @@ import { Text } from '@/components/ui/text';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Card } from '@/components/ui/card';
 import { useResponsive } from '@/hooks/useResponsive';
+import { PayoutService } from '@/services/PayoutService';
  
 const screenWidth = Dimensions.get('window').width;
  
@@ -20,6 +21,7 @@ export default function EarningsScreen() {
     const { user } = useAuth();
     const { theme, isDark, colors } = useTheme();
     const { hScale, vScale, spacing, fontSize, width } = useResponsive();
+    const queryClient = useQueryClient();
  
     const { data: driverProfile } = useQuery({
         queryKey: ['driver-profile', user?.id],
@@ -60,7 +62,7 @@ export default function EarningsScreen() {
             trips.forEach((trip: any) => {
                 trip.bookings?.forEach((booking: any) => {
                     const payment = booking.payment?.[0];
-                    if (payment && payment.status === 'completed') {
+                    if (payment && payment.status === 'success') {
                         const amount = parseFloat(payment.driver_earnings || 0);
                         total += amount;
  
@@ -92,6 +94,39 @@ export default function EarningsScreen() {
         enabled: !!driverProfile,
     });
  
+    const { data: payouts } = useQuery({
+        queryKey: ['driver-payouts', driverProfile?.id],
+        queryFn: () => PayoutService.getPayouts(driverProfile.id),
+        enabled: !!driverProfile,
+    });
+ 
+    const requestPayoutMutation = useMutation({
+        mutationFn: () => PayoutService.requestPayout(driverProfile.id),
+        onSuccess: (result) => {
+            if (!result.success) {
+                Alert.alert('Request Failed', result.message || 'Could not request payout');
+                return;
+            }
+            Alert.alert('Payout Requested', `₹${result.amount} will be transferred to your bank account.`);
+            queryClient.invalidateQueries({ queryKey: ['earnings'] });
+            queryClient.invalidateQueries({ queryKey: ['driver-payouts'] });
+        },
+    });
+ 
+    const shareStatement = async (payoutId: string, kind: 'pdf' | 'csv') => {
+        const shared = await PayoutService.shareStatement(payoutId, kind);
+        if (!shared) {
+            Alert.alert('Export Failed', 'Could not export the settlement statement');
+        }
+    };
+ 
+    const payoutStatusStyles: Record<string, { bg: string; text: string }> = {
+        requested: { bg: 'bg-amber-100 dark:bg-amber-900/30', text: 'text-amber-700 dark:text-amber-400' },
+        processing: { bg: 'bg-amber-100 dark:bg-amber-900/30', text: 'text-amber-700 dark:text-amber-400' },
+        paid: { bg: 'bg-green-100 dark:bg-green-900/30', text: 'text-green-700 dark:text-green-400' },
+        failed: { bg: 'bg-red-100 dark:bg-red-900/30', text: 'text-red-700 dark:text-red-400' },
+    };
+ 
     if (!user || user.role === 'passenger') {
         return (
             <SafeAreaView className="flex-1 bg-white dark:bg-slate-950 flex items-center justify-center p-8">
@@ -168,6 +203,22 @@ export default function EarningsScreen() {
                     </Card>
                 </View>
  
+                {/* Request Payout */}
+                <View style={{ paddingHorizontal: spacing.xl, marginBottom: vScale(32) }}>
+                    <TouchableOpacity
+                        style={{ height: vScale(56), borderRadius: hScale(16) }}
+                        className={`items-center justify-center ${!earnings?.pending || requestPayoutMutation.isPending ? 'bg-slate-300 dark:bg-slate-800' : 'bg-slate-900 dark:bg-white'}`}
+                        disabled={!earnings?.pending || requestPayoutMutation.isPending}
+                        onPress={() => requestPayoutMutation.mutate()}
+                    >
+                        {requestPayoutMutation.isPending ? (
+                            <ActivityIndicator color={isDark ? "#0f172a" : "#ffffff"} />
+                        ) : (
+                            <Text style={{ fontSize: fontSize.base }} className="text-white dark:text-slate-900 font-black uppercase tracking-widest">Request Payout</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+ 
                 {/* Chart */}
                 {earnings?.chartData && earnings.chartData.data.length > 0 && (
                     <Card style={{ marginHorizontal: spacing.xl, borderRadius: hScale(32), padding: spacing.xl, marginBottom: vScale(32), borderWidth: 1 }} className="bg-white dark:bg-slate-900 shadow-sm border-slate-100/60 dark:border-slate-800">
@@ -199,6 +250,58 @@ export default function EarningsScreen() {
                     </Card>
                 )}
  
+                {/* Payouts & Statements */}
+                {payouts && payouts.length > 0 && (
+                    <View style={{ paddingHorizontal: spacing.xl, marginBottom: vScale(16) }}>
+                        <Text style={{ fontSize: hScale(10), marginBottom: vScale(24), paddingHorizontal: spacing.xs }} className="font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Payouts & Statements</Text>
+                        {payouts.map((payout) => (
+                            <View key={payout.id} style={{ padding: spacing.xl, borderRadius: hScale(28), marginBottom: vScale(16), borderWidth: 1 }} className="bg-white dark:bg-slate-900 shadow-sm border-slate-100/60 dark:border-slate-800">
+                                <View className="flex-row justify-between">
+                                    <View style={{ flex: 1, paddingRight: spacing.lg }}>
+                                        <Text style={{ fontSize: fontSize.sm, marginBottom: vScale(4) }} className="font-bold text-slate-800 dark:text-slate-200 tracking-tight">
+                                            {payout.source === 'weekly' ? 'Weekly Settlement' : 'Requested Payout'}
+                                        </Text>
+                                        <Text style={{ fontSize: hScale(10) }} className="font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">
+                                            {payout.period_start
+                                                ? `${format(new Date(payout.period_start), 'MMM dd')} – ${format(new Date(payout.period_end), 'MMM dd, yyyy')}`
+                                                : `Until ${format(new Date(payout.period_end), 'MMM dd, yyyy')}`}
+                                        </Text>
+                                    </View>
+                                    <View className="items-end">
+                                        <Text style={{ fontSize: fontSize.lg }} className="font-black text-slate-900 dark:text-white uppercase tracking-tighter">₹{Number(payout.net_amount).toFixed(0)}</Text>
+                                        <View style={{ paddingHorizontal: spacing.sm, paddingVertical: vScale(2), borderRadius: hScale(6), marginTop: vScale(4) }} className={payoutStatusStyles[payout.status].bg}>
+                                            <Text style={{ fontSize: hScale(8) }} className={`font-black uppercase tracking-widest ${payoutStatusStyles[payout.status].text}`}>
+                                                {payout.status}
+                                            </Text>
+                                        </View>
+                                    </View>
+                                </View>
+                                {payout.status === 'failed' && payout.failure_reason && (
+                                    <Text style={{ fontSize: fontSize.xs, marginTop: vScale(8) }} className="text-red-600 dark:text-red-400">{payout.failure_reason}</Text>
+                                )}
+                                <View style={{ flexDirection: 'row', gap: spacing.sm, marginTop: vScale(16) }}>
+                                    <TouchableOpacity
+                                        style={{ flex: 1, height: vScale(40), borderRadius: hScale(12), flexDirection: 'row', gap: spacing.xs }}
+                                        className="bg-slate-100 dark:bg-slate-800 items-center justify-center"
+                                        onPress={() => shareStatement(payout.id, 'pdf')}
+                                    >
+                                        <Ionicons name="document-text-outline" size={hScale(16)} color={isDark ? "#f8fafc" : "#1e293b"} />
+                                        <Text style={{ fontSize: hScale(10) }} className="font-black text-slate-900 dark:text-white uppercase tracking-widest">PDF</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity
+                                        style={{ flex: 1, height: vScale(40), borderRadius: hScale(12), flexDirection: 'row', gap: spacing.xs }}
+                                        className="bg-slate-100 dark:bg-slate-800 items-center justify-center"
+                                        onPress={() => shareStatement(payout.id, 'csv')}
+                                    >
+                                        <Ionicons name="grid-outline" size={hScale(16)} color={isDark ? "#f8fafc" : "#1e293b"} />
+                                        <Text style={{ fontSize: hScale(10) }} className="font-black text-slate-900 dark:text-white uppercase tracking-widest">CSV</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            </View>
+                        ))}
+                    </View>
+                )}
+ 
                 {/* Transactions */}
                 <View style={{ paddingHorizontal: spacing.xl, paddingBottom: vScale(100) }}>
                     <Text style={{ fontSize: hScale(10), marginBottom: vScale(24), paddingHorizontal: spacing.xs }} className="font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Recent Activity</Text>
@@ -5,6 +5,7 @@ import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { RatingService } from '@/services/RatingService';
 import { Text } from '@/components/ui/text';
 import { Card } from '@/components/ui/card';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -62,17 +63,9 @@ export default function RideStatsScreen() {
 
             if (error) throw error;
 
-            // Fetch ratings received
-            const { data: ratings } = await supabase
-                .from('ratings')
-                .select('rating')
-                .eq('to_user_id', user.id);
-
-            let averageRating = 0;
-            if (ratings && ratings.length > 0) {
-                const totalRating = ratings.reduce((sum, r) => sum + r.rating, 0);
-                averageRating = totalRating / ratings.length;
-            }
+            // Passenger score kept by the server
+            const summaries = await RatingService.getSummaries(user.id);
+            const averageRating = Number(summaries.find(s => s.role === 'passenger')?.rating) || 0;
 
             if (bookings && bookings.length > 0) {
                 const totalRides = bookings.length;
@@ -11,6 +11,8 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useResponsive } from '@/hooks/useResponsive';
+import { VehicleService, Vehicle } from '@/services/VehicleService';
+import { DEFAULT_SEAT_COUNT } from '@shared/schema';
  
 export default function MyVehiclesScreen() {
     const router = useRouter();
@@ -20,75 +22,116 @@ export default function MyVehiclesScreen() {
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
     const [driverProfile, setDriverProfile] = useState<any>(null);
+    const [vehicles, setVehicles] = useState<Vehicle[]>([]);
  
-    const [formData, setFormData] = useState({
-        vehicleMake: '',
-        vehicleModel: '',
-        vehicleYear: '',
-        vehicleColor: '',
-        vehiclePlate: '',
-    });
+    const emptyForm = {
+        vehicleType: 'car' as Vehicle['vehicle_type'],
+        make: '',
+        model: '',
+        year: '',
+        color: '',
+        plate: '',
+        seatCount: String(DEFAULT_SEAT_COUNT.car),
+    };
+    const [formData, setFormData] = useState(emptyForm);
  
     useEffect(() => {
         if (user) {
-            fetchDriverProfile();
+            fetchVehicles();
         }
     }, [user]);
  
-    const fetchDriverProfile = async () => {
+    const fetchVehicles = async () => {
         try {
             setLoading(true);
-            const { data, error } = await supabase
+            const { data } = await supabase
                 .from('drivers')
                 .select('*')
-                .eq('userId', user?.id)
-                .single();
+                .eq('user_id', user?.id)
+                .maybeSingle();
  
+            setDriverProfile(data);
             if (data) {
-                setDriverProfile(data);
-                setFormData({
-                    vehicleMake: data.vehicleMake || '',
-                    vehicleModel: data.vehicleModel || '',
-                    vehicleYear: String(data.vehicleYear || ''),
-                    vehicleColor: data.vehicleColor || '',
-                    vehiclePlate: data.vehiclePlate || '',
-                });
+                setVehicles(await VehicleService.getVehicles(data.id));
             }
         } catch (error) {
-            console.error('Error fetching driver profile:', error);
+            console.error('Error fetching vehicles:', error);
         } finally {
             setLoading(false);
         }
     };
  
-    const handleSave = async () => {
-        if (!formData.vehicleMake || !formData.vehicleModel || !formData.vehiclePlate) {
+    const handleAdd = async () => {
+        if (!formData.make || !formData.model || !formData.plate) {
             Alert.alert('Error', 'Please fill in required vehicle details');
             return;
         }
  
         try {
             setSaving(true);
-            const { error } = await supabase
-                .from('drivers')
-                .update({
-                    vehicleMake: formData.vehicleMake,
-                    vehicleModel: formData.vehicleModel,
-                    vehicleYear: parseInt(formData.vehicleYear) || null,
-                    vehicleColor: formData.vehicleColor,
-                    vehiclePlate: formData.vehiclePlate,
-                })
-                .eq('userId', user?.id);
- 
-            if (error) throw error;
-            Alert.alert('Success', 'Vehicle information updated successfully');
+            await VehicleService.addVehicle(driverProfile.id, {
+                vehicle_type: formData.vehicleType,
+                make: formData.make,
+                model: formData.model,
+                year: parseInt(formData.year) || null,
+                color: formData.color || null,
+                plate: formData.plate,
+                seat_count: parseInt(formData.seatCount) || DEFAULT_SEAT_COUNT[formData.vehicleType],
+            });
+            setFormData(emptyForm);
+            await fetchVehicles();
+            Alert.alert('Vehicle Added', 'You can drive with it once it is verified.');
         } catch (error: any) {
-            Alert.alert('Error', error.message || 'Failed to update vehicle information');
+            Alert.alert('Error', error.message || 'Failed to add vehicle');
         } finally {
             setSaving(false);
         }
     };
  
+    const handleSetActive = async (vehicle: Vehicle) => {
+        try {
+            await VehicleService.setActiveVehicle(driverProfile.id, vehicle.id);
+            await fetchVehicles();
+        } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to switch vehicle');
+        }
+    };
+ 
+    const handleRemove = (vehicle: Vehicle) => {
+        Alert.alert('Remove Vehicle', `Remove ${vehicle.make} ${vehicle.model} (${vehicle.plate})?`, [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Remove',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await VehicleService.archiveVehicle(vehicle.id);
+                        await fetchVehicles();
+                    } catch (error: any) {
+                        Alert.alert('Error', error.message || 'Failed to remove vehicle');
+                    }
+                },
+            },
+        ]);
+    };
+ 
+    const statusStyles = (vehicle: Vehicle) => {
+        if (vehicle.id === driverProfile?.active_vehicle_id) {
+            return { label: 'Active', className: 'bg-blue-50 dark:bg-blue-900/20 border-blue-100 dark:border-blue-900/30', text: 'text-blue-600 dark:text-blue-400' };
+        }
+        if (vehicle.verification_status === 'verified') {
+            return { label: 'Verified', className: 'bg-green-50 dark:bg-green-900/20 border-green-100 dark:border-green-900/30', text: 'text-green-600 dark:text-green-500' };
+        }
+        if (vehicle.verification_status === 'rejected') {
+            return { label: 'Rejected', className: 'bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-900/30', text: 'text-red-600 dark:text-red-500' };
+        }
+        return { label: 'In Review', className: 'bg-amber-50 dark:bg-amber-900/20 border-amber-100 dark:border-amber-900/30', text: 'text-amber-600 dark:text-amber-500' };
+    };
+ 
+    const inputClassName = "font-bold text-slate-900 dark:text-white bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 shadow-sm";
+    const inputStyle = { height: vScale(56), borderRadius: hScale(20), paddingHorizontal: spacing.xl };
+    const labelClassName = "font-black text-slate-500 dark:text-slate-500 uppercase tracking-widest";
+ 
     if (loading) {
         return (
             <SafeAreaView style={{ gap: spacing.lg }} className="flex-1 bg-white dark:bg-slate-950 justify-center items-center">
@@ -141,7 +184,7 @@ export default function MyVehiclesScreen() {
                 >
                     <Ionicons name="arrow-back" size={hScale(24)} color={isDark ? "#f8fafc" : "#1e293b"} />
                 </TouchableOpacity>
-                <Text style={{ fontSize: fontSize.xl }} className="font-black text-slate-900 dark:text-white uppercase tracking-tighter">My Vehicle</Text>
+                <Text style={{ fontSize: fontSize.xl }} className="font-black text-slate-900 dark:text-white uppercase tracking-tighter">My Vehicles</Text>
                 <View style={{ width: hScale(40) }} />
             </View>
  
@@ -149,45 +192,94 @@ export default function MyVehiclesScreen() {
                 contentContainerStyle={{ padding: spacing.xl, paddingBottom: vScale(100) }}
                 showsVerticalScrollIndicator={false}
             >
-                <Card style={{ padding: spacing.xl, borderRadius: hScale(32), marginBottom: vScale(40), borderWidth: 1 }} className="flex-row items-center justify-between bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 shadow-sm">
-                    <View style={{ gap: spacing.xs }}>
-                        <Text style={{ fontSize: hScale(10) }} className="font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Asset Integrity</Text>
-                        <View style={{ alignSelf: 'flex-start', paddingHorizontal: spacing.lg, paddingVertical: vScale(6), borderRadius: hScale(12), borderWidth: 1 }} className={`${driverProfile?.verificationStatus === 'verified' ? 'bg-green-50 dark:bg-green-900/20 border-green-100 dark:border-green-900/30' : 'bg-amber-50 dark:bg-amber-900/20 border-amber-100 dark:border-amber-900/30'}`}>
-                            <Text style={{ fontSize: hScale(10) }} className={`font-black uppercase tracking-widest ${driverProfile?.verificationStatus === 'verified' ? 'text-green-600 dark:text-green-500' : 'text-amber-600 dark:text-amber-500'}`}>
-                                {driverProfile?.verificationStatus?.toUpperCase() || 'PENDING VERIFICATION'}
-                            </Text>
-                        </View>
-                    </View>
-                    <View style={{ width: hScale(56), height: hScale(56), borderRadius: hScale(16) }} className="bg-slate-50 dark:bg-slate-800 items-center justify-center">
-                        <Ionicons
-                            name={driverProfile?.verificationStatus === 'verified' ? "shield-checkmark" : "time"}
-                            size={hScale(32)}
-                            color={driverProfile?.verificationStatus === 'verified' ? "#22c55e" : "#f59e0b"}
-                        />
-                    </View>
-                </Card>
+                <View style={{ gap: spacing.md, marginBottom: vScale(40) }}>
+                    {vehicles.map(vehicle => {
+                        const status = statusStyles(vehicle);
+                        const isActive = vehicle.id === driverProfile?.active_vehicle_id;
+                        return (
+                            <Card key={vehicle.id} style={{ padding: spacing.xl, borderRadius: hScale(32), borderWidth: 1 }} className="bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 shadow-sm">
+                                <View className="flex-row items-center justify-between">
+                                    <View style={{ flex: 1, gap: spacing.xs }}>
+                                        <Text style={{ fontSize: fontSize.lg }} className="font-black text-slate-900 dark:text-white uppercase tracking-tighter">{vehicle.make} {vehicle.model}</Text>
+                                        <Text style={{ fontSize: hScale(11) }} className="font-bold text-slate-500 dark:text-slate-400 uppercase tracking-widest">
+                                            {vehicle.plate} · {vehicle.vehicle_type} · {vehicle.seat_count} {vehicle.seat_count === 1 ? 'seat' : 'seats'}
+                                        </Text>
+                                    </View>
+                                    <View style={{ paddingHorizontal: spacing.lg, paddingVertical: vScale(6), borderRadius: hScale(12), borderWidth: 1 }} className={status.className}>
+                                        <Text style={{ fontSize: hScale(10) }} className={`font-black uppercase tracking-widest ${status.text}`}>{status.label}</Text>
+                                    </View>
+                                </View>
+                                {vehicle.verification_status === 'rejected' && vehicle.rejection_reason && (
+                                    <Text style={{ fontSize: hScale(11), marginTop: spacing.sm }} className="text-red-500 font-medium">{vehicle.rejection_reason}</Text>
+                                )}
+                                {!isActive && (
+                                    <View style={{ gap: spacing.sm, marginTop: spacing.lg }} className="flex-row">
+                                        {vehicle.verification_status === 'verified' && (
+                                            <TouchableOpacity
+                                                onPress={() => handleSetActive(vehicle)}
+                                                style={{ height: vScale(44), borderRadius: hScale(16) }}
+                                                className="flex-1 items-center justify-center bg-slate-900 dark:bg-white"
+                                            >
+                                                <Text style={{ fontSize: hScale(11) }} className="text-white dark:text-slate-900 font-black uppercase tracking-widest">Drive This</Text>
+                                            </TouchableOpacity>
+                                        )}
+                                        <TouchableOpacity
+                                            onPress={() => handleRemove(vehicle)}
+                                            style={{ height: vScale(44), width: vScale(44), borderRadius: hScale(16) }}
+                                            className="items-center justify-center bg-slate-50 dark:bg-slate-800"
+                                        >
+                                            <Ionicons name="trash-outline" size={hScale(18)} color="#ef4444" />
+                                        </TouchableOpacity>
+                                    </View>
+                                )}
+                            </Card>
+                        );
+                    })}
+                </View>
+ 
+                <Text style={{ fontSize: fontSize.lg, marginBottom: vScale(16) }} className="font-black text-slate-900 dark:text-white uppercase tracking-tighter">Add Vehicle</Text>
  
                 <View style={{ gap: spacing.lg }}>
+                    <View style={{ flexDirection: 'row', gap: spacing.sm }}>
+                        {(['car', 'auto', 'bike'] as const).map((type) => (
+                            <TouchableOpacity
+                                key={type}
+                                onPress={() => setFormData({ ...formData, vehicleType: type, seatCount: String(DEFAULT_SEAT_COUNT[type]) })}
+                                style={{ paddingVertical: vScale(14), borderRadius: hScale(16), borderWidth: 2 }}
+                                className={`flex-1 items-center ${formData.vehicleType === type
+                                    ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/20'
+                                    : 'border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-900'}`}
+                            >
+                                <Ionicons
+                                    name={type === 'car' ? 'car' : type === 'auto' ? 'car-sport' : 'bicycle'}
+                                    size={hScale(24)}
+                                    color={formData.vehicleType === type ? (isDark ? '#60a5fa' : '#2563eb') : (isDark ? '#334155' : '#cbd5e1')}
+                                />
+                                <Text style={{ fontSize: hScale(9), marginTop: spacing.xs }} className={`font-black uppercase tracking-widest ${formData.vehicleType === type ? 'text-blue-600 dark:text-blue-400' : 'text-slate-400 dark:text-slate-500'}`}>{type}</Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+ 
                     <View style={{ flexDirection: 'row', gap: spacing.lg }}>
                         <View style={{ flex: 1, gap: spacing.xs }}>
-                            <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className="font-black text-slate-500 dark:text-slate-500 uppercase tracking-widest">Make</Text>
+                            <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className={labelClassName}>Make</Text>
                             <Input
-                                value={formData.vehicleMake}
-                                onChangeText={(text) => setFormData({ ...formData, vehicleMake: text })}
+                                value={formData.make}
+                                onChangeText={(text) => setFormData({ ...formData, make: text })}
                                 placeholder="TOYOTA"
-                                style={{ height: vScale(56), borderRadius: hScale(20), paddingHorizontal: spacing.xl }}
-                                className="font-bold text-slate-900 dark:text-white bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 shadow-sm"
+                                style={inputStyle}
+                                className={inputClassName}
                                 placeholderTextColor={isDark ? "#475569" : "#94a3b8"}
                             />
                         </View>
                         <View style={{ flex: 1, gap: spacing.xs }}>
-                            <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className="font-black text-slate-500 dark:text-slate-500 uppercase tracking-widest">Model</Text>
+                            <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className={labelClassName}>Model</Text>
                             <Input
-                                value={formData.vehicleModel}
-                                onChangeText={(text) => setFormData({ ...formData, vehicleModel: text })}
+                                value={formData.model}
+                                onChangeText={(text) => setFormData({ ...formData, model: text })}
                                 placeholder="COROLLA"
-                                style={{ height: vScale(56), borderRadius: hScale(20), paddingHorizontal: spacing.xl }}
-                                className="font-bold text-slate-900 dark:text-white bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 shadow-sm"
+                                style={inputStyle}
+                                className={inputClassName}
                                 placeholderTextColor={isDark ? "#475569" : "#94a3b8"}
                             />
                         </View>
@@ -195,59 +287,72 @@ export default function MyVehiclesScreen() {
  
                     <View style={{ flexDirection: 'row', gap: spacing.lg }}>
                         <View style={{ flex: 1, gap: spacing.xs }}>
-                            <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className="font-black text-slate-500 dark:text-slate-500 uppercase tracking-widest">Year</Text>
+                            <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className={labelClassName}>Year</Text>
                             <Input
-                                value={formData.vehicleYear}
-                                onChangeText={(text) => setFormData({ ...formData, vehicleYear: text })}
+                                value={formData.year}
+                                onChangeText={(text) => setFormData({ ...formData, year: text })}
                                 placeholder="2024"
                                 keyboardType="numeric"
-                                style={{ height: vScale(56), borderRadius: hScale(20), paddingHorizontal: spacing.xl }}
-                                className="font-bold text-slate-900 dark:text-white bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 shadow-sm"
+                                style={inputStyle}
+                                className={inputClassName}
                                 placeholderTextColor={isDark ? "#475569" : "#94a3b8"}
                             />
                         </View>
                         <View style={{ flex: 1, gap: spacing.xs }}>
-                            <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className="font-black text-slate-500 dark:text-slate-500 uppercase tracking-widest">Color</Text>
+                            <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className={labelClassName}>Color</Text>
                             <Input
-                                value={formData.vehicleColor}
-                                onChangeText={(text) => setFormData({ ...formData, vehicleColor: text })}
+                                value={formData.color}
+                                onChangeText={(text) => setFormData({ ...formData, color: text })}
                                 placeholder="METALLIC GREY"
-                                style={{ height: vScale(56), borderRadius: hScale(20), paddingHorizontal: spacing.xl }}
-                                className="font-bold text-slate-900 dark:text-white bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 shadow-sm"
+                                style={inputStyle}
+                                className={inputClassName}
                                 placeholderTextColor={isDark ? "#475569" : "#94a3b8"}
                             />
                         </View>
                     </View>
  
-                    <View style={{ gap: spacing.xs }}>
-                        <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className="font-black text-slate-500 dark:text-slate-500 uppercase tracking-widest">Secure Plate Registry</Text>
-                        <Input
-                            value={formData.vehiclePlate}
-                            onChangeText={(text) => setFormData({ ...formData, vehiclePlate: text })}
-                            placeholder="KA-01-AB-1234"
-                            autoCapitalize="characters"
-                            style={{ height: vScale(56), borderRadius: hScale(20), paddingHorizontal: spacing.xl }}
-                            className="font-bold text-slate-900 dark:text-white bg-white dark:bg-slate-900 border-slate-100 dark:border-slate-800 shadow-sm"
-                            placeholderTextColor={isDark ? "#475569" : "#94a3b8"}
-                        />
+                    <View style={{ flexDirection: 'row', gap: spacing.lg }}>
+                        <View style={{ flex: 2, gap: spacing.xs }}>
+                            <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className={labelClassName}>Secure Plate Registry</Text>
+                            <Input
+                                value={formData.plate}
+                                onChangeText={(text) => setFormData({ ...formData, plate: text })}
+                                placeholder="KA-01-AB-1234"
+                                autoCapitalize="characters"
+                                style={inputStyle}
+                                className={inputClassName}
+                                placeholderTextColor={isDark ? "#475569" : "#94a3b8"}
+                            />
+                        </View>
+                        <View style={{ flex: 1, gap: spacing.xs }}>
+                            <Text style={{ fontSize: hScale(10), marginLeft: spacing.xs }} className={labelClassName}>Seats</Text>
+                            <Input
+                                value={formData.seatCount}
+                                onChangeText={(text) => setFormData({ ...formData, seatCount: text })}
+                                keyboardType="numeric"
+                                style={inputStyle}
+                                className={inputClassName}
+                                placeholderTextColor={isDark ? "#475569" : "#94a3b8"}
+                            />
+                        </View>
                     </View>
  
                     <TouchableOpacity
                         style={{ height: vScale(64), borderRadius: hScale(24), marginTop: vScale(24) }}
                         className={`items-center justify-center ${saving ? 'bg-slate-100 dark:bg-slate-800' : 'bg-slate-900 dark:bg-white shadow-lg shadow-slate-900/10'}`}
-                        onPress={handleSave}
+                        onPress={handleAdd}
                         disabled={saving}
                     >
                         {saving ? (
                             <ActivityIndicator color={isDark ? "#3b82f6" : "#64748b"} />
                         ) : (
-                            <Text style={{ fontSize: fontSize.base }} className="text-white dark:text-slate-900 font-black uppercase tracking-widest">Update Registry</Text>
+                            <Text style={{ fontSize: fontSize.base }} className="text-white dark:text-slate-900 font-black uppercase tracking-widest">Submit for Verification</Text>
                         )}
                     </TouchableOpacity>
  
                     <View style={{ borderRadius: hScale(28), padding: spacing.xl, marginTop: vScale(16), borderWidth: 1 }} className="bg-slate-100 dark:bg-slate-900/50 border-slate-200 dark:border-slate-800/50 opacity-40">
                         <Text style={{ fontSize: hScale(9), lineHeight: vScale(16) }} className="font-black text-slate-500 text-center uppercase tracking-widest">
-                            Changes to vehicle details may trigger a manual audit of your professional documents.
+                            Each vehicle is verified separately. Editing a verified vehicle sends it back for review.
                         </Text>
                     </View>
                 </View>
@@ -104,7 +104,7 @@ export default function WalletScreen() {
                         try {
                             setLoading(true);
  
-                            const orderData = await PaymentService.createOrder(numAmount, 'INR', `wallet_${Date.now()}`);
+                            const orderData = await PaymentService.createWalletTopupOrder(numAmount);
  
                             const RazorpayCheckout = (await import('react-native-razorpay')).default;
                             const options = {
@@ -114,7 +114,7 @@ export default function WalletScreen() {
                                 key: process.env.EXPO_PUBLIC_RAZORPAY_KEY_ID,
                                 amount: orderData.amount,
                                 name: 'TCSYGO',
-                                order_id: orderData.id,
+                                order_id: orderData.razorpayOrderId,
                                 prefill: {
                                     email: user?.email || '',
                                     contact: user?.phone || '',
@@ -124,7 +124,11 @@ export default function WalletScreen() {
                             };
  
                             RazorpayCheckout.open(options).then(async (data: any) => {
-                                const result = await PaymentService.addMoneyToWallet(user!.id, numAmount, data.razorpay_payment_id);
+                                const result = await PaymentService.verifyWalletTopup(
+                                    data.razorpay_order_id,
+                                    data.razorpay_payment_id,
+                                    data.razorpay_signature
+                                );
  
                                 if (result) {
                                     Alert.alert("Success", `₹${numAmount} added to your wallet!`);
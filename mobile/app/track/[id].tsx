@@ -13,6 +13,9 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { DriverVerificationModal } from '@/components/DriverVerificationModal';
 import { RatingModal } from '@/components/RatingModal';
 import { SplitFareModal } from '@/components/SplitFareModal';
+import { RidePinService } from '@/services/RidePinService';
+import { NoShowService } from '@/services/NoShowService';
+import { ContactService } from '@/services/ContactService';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useResponsive } from '@/hooks/useResponsive';
 
@@ -47,6 +50,40 @@ export default function TrackTripScreen() {
         enabled: !!tripId,
     });
 
+    // Passenger's own booking and ride PIN; refetched to notice the pickup
+    const { data: myBooking } = useQuery({
+        queryKey: ['track-booking', tripId, user?.id],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('bookings')
+                .select('id, status')
+                .eq('trip_id', tripId)
+                .eq('passenger_id', user?.id)
+                .in('status', ['confirmed', 'picked_up'])
+                .maybeSingle();
+            if (error) throw error;
+            return data;
+        },
+        enabled: !!tripId && !!user?.id,
+        refetchInterval: 10000,
+    });
+
+    const { data: ridePin } = useQuery({
+        queryKey: ['ride-pin', myBooking?.id],
+        queryFn: () => RidePinService.getPin(myBooking!.id),
+        enabled: !!myBooking?.id,
+    });
+
+    // Driver's check-in at the pickup; the passenger has until wait_until
+    const { data: pickupWait } = useQuery({
+        queryKey: ['pickup-wait', myBooking?.id],
+        queryFn: () => NoShowService.getPickupWait(myBooking!.id),
+        enabled: myBooking?.status === 'confirmed',
+        refetchInterval: 10000,
+    });
+
+    const showDropoffPin = myBooking?.status === 'picked_up' && !!trip?.preferences?.dropoffPin;
+
     // Subscribe to real-time location updates using our service
     useEffect(() => {
         if (!tripId || typeof tripId !== 'string') return;
@@ -195,6 +232,35 @@ Track my ride: https://tcsygo.app/track/${trip.id}`;
         }
     };
 
+    // Numbers stay hidden; the relay rings this phone and connects the driver
+    const callDriver = async () => {
+        if (!myBooking) {
+            toast({
+                title: "Calling unavailable",
+                description: "You can call your driver once your booking is confirmed. Use chat instead.",
+            });
+            return;
+        }
+
+        try {
+            const { dial_number } = await ContactService.startCall(myBooking.id);
+            if (dial_number) {
+                Linking.openURL(`tel:${dial_number}`);
+            } else {
+                toast({
+                    title: "Connecting your call",
+                    description: "Your phone will ring shortly. Your number stays private.",
+                });
+            }
+        } catch (err: any) {
+            toast({
+                title: "Call failed",
+                description: err.message || "Could not connect the call.",
+                variant: "destructive",
+            });
+        }
+    };
+
     const openInMaps = () => {
         if (!trip) return;
         const url = `https://www.openstreetmap.org/directions?engine=fossgis_osrm_car&route=${trip.pickup_lat}%2C${trip.pickup_lng}%3B${trip.drop_lat}%2C${trip.drop_lng}`;
@@ -324,11 +390,38 @@ Track my ride: https://tcsygo.app/track/${trip.id}`;
                         >
                             <Ionicons name="chatbubble" size={hScale(20)} color={isDark ? "#60a5fa" : "#2563eb"} />
                         </TouchableOpacity>
-                        <TouchableOpacity style={{ width: hScale(48), height: hScale(48), borderRadius: hScale(16), borderWidth: 1 }} className="bg-slate-100 dark:bg-slate-800 justify-center items-center border-slate-200 dark:border-slate-700">
+                        <TouchableOpacity
+                            style={{ width: hScale(48), height: hScale(48), borderRadius: hScale(16), borderWidth: 1 }}
+                            className="bg-slate-100 dark:bg-slate-800 justify-center items-center border-slate-200 dark:border-slate-700"
+                            onPress={callDriver}
+                        >
                             <Ionicons name="call" size={hScale(20)} color={isDark ? "#60a5fa" : "#2563eb"} />
                         </TouchableOpacity>
                     </View>
                 </View>
+                {pickupWait && !pickupWait.no_show_at && myBooking?.status === 'confirmed' && (
+                    <View style={{ flexDirection: 'row', alignItems: 'center', gap: hScale(12), padding: hScale(16), borderRadius: hScale(16), borderWidth: 1, marginBottom: vScale(16) }} className="bg-amber-50 dark:bg-amber-900/20 border-amber-100 dark:border-amber-800/50">
+                        <Ionicons name="time" size={hScale(20)} color="#f59e0b" />
+                        <Text style={{ fontSize: hScale(12) }} className="flex-1 font-medium text-slate-700 dark:text-slate-200">
+                            Your driver is waiting at the pickup until {new Date(pickupWait.wait_until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}. A no-show fee applies after that.
+                        </Text>
+                    </View>
+                )}
+                {ridePin && (myBooking?.status === 'confirmed' || showDropoffPin) && (
+                    <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: hScale(16), borderRadius: hScale(16), borderWidth: 1, marginBottom: vScale(16) }} className="bg-blue-50 dark:bg-blue-900/20 border-blue-100 dark:border-blue-800/50">
+                        <View>
+                            <Text style={{ fontSize: hScale(10) }} className="font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">
+                                {showDropoffPin ? 'Drop-off PIN' : 'Ride PIN'}
+                            </Text>
+                            <Text style={{ fontSize: hScale(12), marginTop: vScale(2) }} className="font-medium text-slate-500 dark:text-slate-400">
+                                {showDropoffPin ? 'Share with your driver when you arrive' : 'Share with your driver when you get in'}
+                            </Text>
+                        </View>
+                        <Text style={{ fontSize: hScale(28), letterSpacing: hScale(6) }} className="font-black text-slate-900 dark:text-white">
+                            {showDropoffPin ? ridePin.end_pin : ridePin.start_pin}
+                        </Text>
+                    </View>
+                )}
                 <View style={{ flexDirection: 'row', alignItems: 'center', gap: hScale(12), padding: hScale(16), borderRadius: hScale(16), borderWidth: 1 }} className="bg-slate-50 dark:bg-slate-800/50 border-slate-100 dark:border-slate-800">
                     <View style={{ flexDirection: 'row', alignItems: 'center', gap: hScale(8) }}>
                         <Ionicons name="shield-checkmark" size={hScale(16)} color="#10b981" />
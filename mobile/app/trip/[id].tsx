@@ -24,6 +24,7 @@ import { TripTimelineMobile, DriverVerificationMobile, SimilarTripsMobile } from
 import { BookingConfirmationModal, SeatSelector } from '../../components/BookingComponents';
 import { locationTrackingService } from '@/services/LocationTrackingService';
 import { RatePassengerModal } from '../../components/RatePassengerModal';
+import { RidePinModal } from '../../components/RidePinModal';
 import { EmergencyButton } from '../../components/EmergencyButton';
 import { saveTrip, unsaveTrip, isTripSaved } from '@/lib/savedTrips';
 import { EditTripModal } from '../../components/EditTripModal';
@@ -33,6 +34,7 @@ import { SafetyTipsModal } from '../../components/SafetyTipsModal';
 import { GeofenceAlerts } from '../../components/GeofenceAlerts';
 import { SplitFareModal } from '../../components/SplitFareModal';
 import { RideService } from '@/services/RideService';
+import { TripStopsService } from '@/services/TripStopsService';
 import { FareBreakdownModal } from '@/components/FareBreakdownModal';
 import { TipDriverModal } from '@/components/TipDriverModal';
 import { PaymentService } from '@/services/PaymentService';
@@ -50,6 +52,7 @@ import { Button } from '@/components/ui/button';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useResponsive } from '@/hooks/useResponsive';
 import { useToast } from '@/components/ui/toast';
+import { canPerform, canTransition } from '@shared/lifecycle';
 import { Phone, MessageSquare, Navigation, MapPin, Clock, Calendar, Users, Info, Shield, CheckCircle, XCircle } from 'lucide-react-native';
 
 const TripDetailsScreen = () => {
@@ -73,6 +76,7 @@ const TripDetailsScreen = () => {
     // For Driver Rating Passengers
     const [ratePassengerModalVisible, setRatePassengerModalVisible] = useState(false);
     const [selectedPassenger, setSelectedPassenger] = useState<{ id: string, name: string } | null>(null);
+    const [pinCheck, setPinCheck] = useState<{ bookingId: string, name: string, stage: 'start' | 'end' } | null>(null);
 
     const [showFareBreakdown, setShowFareBreakdown] = useState(false);
     const { toast } = useToast();
@@ -106,6 +110,27 @@ const TripDetailsScreen = () => {
 
     const isDriver = user?.id === trip?.driver_id;
 
+    const { data: stops = [] } = useQuery({
+        queryKey: ['trip-stops', id],
+        queryFn: () => TripStopsService.getStops(id as string),
+        enabled: !!id,
+    });
+
+    // Passengers can ride any part of a multi-stop trip
+    const [boardStop, setBoardStop] = useState(0);
+    const [alightStop, setAlightStop] = useState<number | null>(null);
+    const lastStopOrder = stops.length > 0 ? stops[stops.length - 1].stop_order : 1;
+    const alightStopOrder = alightStop ?? lastStopOrder;
+    const isMultiStop = stops.length > 2;
+    const boardingStop = stops.find(s => s.stop_order === boardStop);
+    const alightingStop = stops.find(s => s.stop_order === alightStopOrder);
+    const seatsAvailable = stops.length > 0
+        ? TripStopsService.getSegmentSeats(stops, boardStop, alightStopOrder)
+        : trip?.available_seats ?? 0;
+    const seatPrice = stops.length > 0
+        ? TripStopsService.getSegmentSeatPrice(stops, Number(trip?.price_per_seat || 0), boardStop, alightStopOrder)
+        : Number(trip?.price_per_seat || 0);
+
     const { data: bookings } = useQuery({
         queryKey: ['trip-bookings', id],
         queryFn: async () => {
@@ -170,6 +195,7 @@ const TripDetailsScreen = () => {
                 async () => {
                     // Refetch trip data when bookings change
                     queryClient.invalidateQueries({ queryKey: ['trip', id] });
+                    queryClient.invalidateQueries({ queryKey: ['trip-stops', id] });
                 }
             )
             .subscribe();
@@ -188,13 +214,13 @@ const TripDetailsScreen = () => {
                     passenger_id: user?.id,
                     driver_id: trip.driver_id,
                     seats_booked: seatsToBook,
-                    total_amount: (trip.price_per_seat * seatsToBook),
-                    pickup_location: trip.pickup_location,
-                    pickup_lat: trip.pickup_lat,
-                    pickup_lng: trip.pickup_lng,
-                    drop_location: trip.drop_location,
-                    drop_lat: trip.drop_lat,
-                    drop_lng: trip.drop_lng,
+                    pickup_location: boardingStop?.location ?? trip.pickup_location,
+                    pickup_lat: boardingStop?.lat ?? trip.pickup_lat,
+                    pickup_lng: boardingStop?.lng ?? trip.pickup_lng,
+                    drop_location: alightingStop?.location ?? trip.drop_location,
+                    drop_lat: alightingStop?.lat ?? trip.drop_lat,
+                    drop_lng: alightingStop?.lng ?? trip.drop_lng,
+                    ...(stops.length > 0 && { board_stop_order: boardStop, alight_stop_order: alightStopOrder }),
                     status: 'pending'
                 }])
                 .select()
@@ -581,7 +607,7 @@ const TripDetailsScreen = () => {
                                     driverLocation={driverLocation}
                                     pickupLocation={{ lat: parseFloat(trip.pickup_lat), lng: parseFloat(trip.pickup_lng) }}
                                     onArrival={() => {
-                                        if (trip.status === 'upcoming') {
+                                        if (canTransition('trip', trip.status, 'arrived')) {
                                             updateStatusMutation.mutate('arrived');
                                         }
                                     }}
@@ -744,6 +770,22 @@ const TripDetailsScreen = () => {
                                             <Ionicons name="chatbubble" size={hScale(18)} color={isDark ? "#60a5fa" : "#2563eb"} />
                                         </TouchableOpacity>
  
+                                        {trip.status === 'ongoing' && (canPerform('booking', booking.status, 'driver', 'pick_up') || (canPerform('booking', booking.status, 'driver', 'drop_off') && trip.preferences?.dropoffPin)) && (
+                                            <TouchableOpacity
+                                                onPress={() => setPinCheck({
+                                                    bookingId: booking.id,
+                                                    name: booking.passenger?.full_name || 'Passenger',
+                                                    stage: booking.status === 'confirmed' ? 'start' : 'end'
+                                                })}
+                                                style={{ paddingHorizontal: hScale(16), paddingVertical: vScale(8), borderRadius: hScale(12), borderWidth: 1 }}
+                                                className="bg-blue-50 dark:bg-blue-900/20 border-blue-100 dark:border-blue-800/50"
+                                            >
+                                                <Text style={{ fontSize: hScale(12) }} className="font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">
+                                                    {booking.status === 'confirmed' ? 'Pick up' : 'Drop off'}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        )}
+ 
                                         {trip.status === 'completed' && (
                                             <TouchableOpacity
                                                 onPress={() => {
@@ -828,7 +870,7 @@ const TripDetailsScreen = () => {
                 isVisible={showSplitFare}
                 onClose={() => setShowSplitFare(false)}
                 bookingId={bookings?.find((b: any) => b.passenger_id === user?.id)?.id || ''}
-                totalAmount={trip?.price_per_seat * seatsToBook || 0}
+                totalAmount={seatPrice * seatsToBook || 0}
             />
 
             <BookingConfirmationModal
@@ -839,13 +881,13 @@ const TripDetailsScreen = () => {
                     bookingMutation.mutate();
                 }}
                 trip={{
-                    pickupLocation: trip.pickup_location,
-                    dropLocation: trip.drop_location,
+                    pickupLocation: boardingStop?.location ?? trip.pickup_location,
+                    dropLocation: alightingStop?.location ?? trip.drop_location,
                     departureTime: trip.departure_time,
-                    pricePerSeat: trip.price_per_seat,
+                    pricePerSeat: seatPrice,
                 }}
                 seatsToBook={seatsToBook}
-                totalAmount={trip.price_per_seat * seatsToBook}
+                totalAmount={seatPrice * seatsToBook}
             />
 
             {showDriverVerification && trip && (
@@ -882,6 +924,21 @@ const TripDetailsScreen = () => {
                 />
             )}
 
+            {pinCheck && (
+                <RidePinModal
+                    visible={!!pinCheck}
+                    onClose={() => setPinCheck(null)}
+                    onVerified={() => {
+                        setPinCheck(null);
+                        queryClient.invalidateQueries({ queryKey: ['trip-bookings', id] });
+                        toast({ title: 'Success', description: pinCheck.stage === 'start' ? 'Passenger picked up' : 'Passenger dropped off' });
+                    }}
+                    bookingId={pinCheck.bookingId}
+                    passengerName={pinCheck.name}
+                    stage={pinCheck.stage}
+                />
+            )}
+
             <EditTripModal
                 isOpen={showEditTripModal}
                 onClose={() => setShowEditTripModal(false)}
@@ -898,11 +955,46 @@ const TripDetailsScreen = () => {
                 driverName={trip.driver?.full_name || 'Driver'}
             />
 
+            {!isDriver && trip.status === 'upcoming' && isMultiStop && (
+                <View style={{ paddingHorizontal: hScale(24), paddingTop: vScale(16), borderTopWidth: 1, gap: vScale(8) }} className="border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-900">
+                    {[
+                        { label: 'Board at', options: stops.slice(0, -1), selected: boardStop },
+                        { label: 'Get off at', options: stops.filter(s => s.stop_order > boardStop), selected: alightStopOrder },
+                    ].map(({ label, options, selected }) => (
+                        <View key={label}>
+                            <Text style={{ fontSize: hScale(11) }} className="font-black text-slate-400 uppercase tracking-widest mb-1">{label}</Text>
+                            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: hScale(8) }}>
+                                {options.map(stop => (
+                                    <TouchableOpacity
+                                        key={stop.id}
+                                        style={{ paddingHorizontal: hScale(12), paddingVertical: vScale(6), borderRadius: hScale(12) }}
+                                        className={stop.stop_order === selected ? 'bg-blue-600' : 'bg-slate-100 dark:bg-slate-800'}
+                                        onPress={() => {
+                                            if (label === 'Board at') {
+                                                setBoardStop(stop.stop_order);
+                                                if (alightStopOrder <= stop.stop_order) setAlightStop(stop.stop_order + 1);
+                                            } else {
+                                                setAlightStop(stop.stop_order);
+                                            }
+                                            setSeatsToBook(1);
+                                        }}
+                                    >
+                                        <Text style={{ fontSize: hScale(13) }} className={stop.stop_order === selected ? 'text-white font-bold' : 'text-slate-700 dark:text-slate-300'}>
+                                            {stop.location.split(',')[0]}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </ScrollView>
+                        </View>
+                    ))}
+                </View>
+            )}
+
             {!isDriver && trip.status === 'upcoming' && (
                 <View style={{ padding: hScale(24), borderTopWidth: 1, gap: hScale(16) }} className="border-slate-100 dark:border-slate-800 flex-row items-center bg-white dark:bg-slate-900 shadow-2xl">
                     <View className="flex-[0.8]">
                         <SeatSelector
-                            availableSeats={trip.available_seats}
+                            availableSeats={seatsAvailable}
                             selectedSeats={seatsToBook}
                             onSelectSeats={setSeatsToBook}
                         />
@@ -913,7 +1005,7 @@ const TripDetailsScreen = () => {
                         onPress={() => setShowBookingConfirmation(true)}
                     >
                         <Text style={{ fontSize: hScale(18) }} className="text-white font-black tracking-tight">
-                            Book • ₹{trip.price_per_seat * seatsToBook}
+                            Book • ₹{seatPrice * seatsToBook}
                         </Text>
                     </TouchableOpacity>
                 </View>
@@ -921,7 +1013,7 @@ const TripDetailsScreen = () => {
 
             {isDriver && (
                 <View style={{ padding: hScale(24), borderTopWidth: 1, gap: hScale(16) }} className="border-slate-100 dark:border-slate-800 flex-row items-center bg-white dark:bg-slate-900 shadow-2xl">
-                    {trip.status === 'upcoming' || trip.status === 'confirmed' ? (
+                    {canPerform('trip', trip.status, 'driver', 'start') ? (
                         <>
                             <TouchableOpacity
                                 style={{ width: hScale(64), height: hScale(64), borderRadius: hScale(24), borderWidth: 1 }}
@@ -939,7 +1031,7 @@ const TripDetailsScreen = () => {
                                 <Text style={{ fontSize: hScale(18) }} className="text-white font-black tracking-tight">Start Trip</Text>
                             </TouchableOpacity>
                         </>
-                    ) : trip.status === 'ongoing' ? (
+                    ) : canPerform('trip', trip.status, 'driver', 'complete') ? (
                         <View style={{ flexDirection: 'row', gap: hScale(16), width: '100%' }}>
                             <TouchableOpacity
                                 style={{ height: vScale(64), borderRadius: hScale(24), gap: hScale(12) }}
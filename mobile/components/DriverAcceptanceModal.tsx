@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { View, StyleSheet, Modal, TouchableOpacity, ActivityIndicator } from 'react-native';
 import { Text } from './ui/text';
 import { Button } from './ui/button';
@@ -8,6 +8,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { RideService } from '@/services/RideService';
 import { logger } from '@/services/LoggerService';
+import { mapRideRequest } from '@/lib/mapper';
 import { useRouter } from 'expo-router';
 import { useTheme } from '@/contexts/ThemeContext';
  
@@ -18,9 +19,12 @@ export function DriverAcceptanceModal() {
     const isDark = theme === 'dark';
  
     const [visible, setVisible] = useState(false);
+    const [offer, setOffer] = useState<any>(null);
     const [bookingDetails, setBookingDetails] = useState<any>(null);
+    const [secondsLeft, setSecondsLeft] = useState(0);
     const [loading, setLoading] = useState(false);
-    const [isDriver, setIsDriver] = useState(false);
+    const [driverId, setDriverId] = useState<string | null>(null);
+    const offerIdRef = useRef<string | null>(null);
  
     useEffect(() => {
         if (user) {
@@ -37,7 +41,7 @@ export function DriverAcceptanceModal() {
                 .single();
  
             if (data && data.verification_status === 'verified') {
-                setIsDriver(true);
+                setDriverId(data.id);
             }
         } catch (error) {
             logger.error('Error checking driver status:', error);
@@ -45,23 +49,37 @@ export function DriverAcceptanceModal() {
     };
  
     useEffect(() => {
-        if (!isDriver || !user) return;
+        if (!driverId) return;
  
-        // Subscribe to real-time notifications
+        // Offers are sent by the server-side dispatcher, one driver at a time
         const channel = supabase
-            .channel(`driver-notifications-${user.id}`)
+            .channel(`driver-offers-${driverId}`)
             .on(
                 'postgres_changes',
                 {
                     event: 'INSERT',
                     schema: 'public',
-                    table: 'notifications',
-                    filter: `user_id=eq.${user.id}`,
+                    table: 'dispatch_offers',
+                    filter: `driver_id=eq.${driverId}`,
                 },
                 (payload) => {
-                    const notification = payload.new as any;
-                    if (notification.type === 'booking_confirmation' && notification.data?.type === 'new_booking') {
-                        fetchBookingDetails(notification.data.bookingId);
+                    showOffer(payload.new as any);
+                }
+            )
+            .on(
+                'postgres_changes',
+                {
+                    event: 'UPDATE',
+                    schema: 'public',
+                    table: 'dispatch_offers',
+                    filter: `driver_id=eq.${driverId}`,
+                },
+                (payload) => {
+                    // Withdrawn when the passenger cancels or another driver takes it
+                    const updated = payload.new as any;
+                    if (updated.status !== 'offered' && offerIdRef.current === updated.id) {
+                        setVisible(false);
+                        setOffer(null);
                     }
                 }
             )
@@ -70,66 +88,78 @@ export function DriverAcceptanceModal() {
         return () => {
             supabase.removeChannel(channel);
         };
-    }, [isDriver, user]);
+    }, [driverId]);
  
-    const fetchBookingDetails = async (bookingId: string) => {
+    useEffect(() => {
+        offerIdRef.current = offer?.id || null;
+    }, [offer]);
+ 
+    // Count down to the offer's expiry; the server moves on to the next driver then
+    useEffect(() => {
+        if (!offer) return;
+ 
+        const tick = () => {
+            const remaining = Math.max(0, Math.ceil((new Date(offer.expires_at).getTime() - Date.now()) / 1000));
+            setSecondsLeft(remaining);
+            if (remaining === 0) {
+                setVisible(false);
+                setOffer(null);
+            }
+        };
+ 
+        tick();
+        const interval = setInterval(tick, 1000);
+        return () => clearInterval(interval);
+    }, [offer]);
+ 
+    const showOffer = async (newOffer: any) => {
         try {
-            const { data: booking, error } = await supabase
-                .from('bookings')
+            const { data: request, error } = await supabase
+                .from('ride_requests')
                 .select('*, passenger:users(full_name, rating)')
-                .eq('id', bookingId)
+                .eq('id', newOffer.ride_request_id)
                 .single();
  
             if (error) throw error;
-            if (booking.status !== 'pending') return; // Already taken or cancelled
+            if (request.status !== 'searching') return; // Already taken or cancelled
  
-            setBookingDetails(booking);
+            setBookingDetails(request);
+            setOffer(newOffer);
             setVisible(true);
- 
-            // Auto close after 30 seconds if no action
-            setTimeout(() => {
-                setVisible(prev => {
-                    if (prev && bookingDetails?.id === bookingId) return false;
-                    return prev;
-                });
-            }, 30000);
- 
         } catch (error) {
-            logger.error('Error fetching booking details:', error);
+            logger.error('Error fetching offered ride:', error);
         }
     };
  
     const handleAccept = async () => {
-        if (!bookingDetails || !user) return;
+        if (!bookingDetails || !offer || !driverId) return;
         setLoading(true);
         try {
-            const { data: driver } = await supabase
-                .from('drivers')
-                .select('id')
-                .eq('user_id', user.id)
-                .single();
- 
-            if (!driver) throw new Error('Driver profile not found');
- 
-            const result = await RideService.matchDriver(bookingDetails.id, driver.id);
-            if (result.success) {
-                setVisible(false);
-                router.push(`/booking/${bookingDetails.id}`);
-            } else {
-                alert(result.error || 'Failed to accept ride. It might have been taken by another driver.');
-                setVisible(false);
-            }
+            const trip = await RideService.acceptRequest(mapRideRequest(bookingDetails), driverId, offer.id);
+            setVisible(false);
+            setOffer(null);
+            router.push(`/track/${trip.id}`);
         } catch (error: any) {
             logger.error('Error accepting ride:', error);
-            alert(error.message || 'Something went wrong');
+            alert(error.message || 'Failed to accept ride. It might have been taken by another driver.');
+            setVisible(false);
+            setOffer(null);
         } finally {
             setLoading(false);
         }
     };
  
-    const handleDecline = () => {
+    const handleDecline = async () => {
+        if (!offer) return;
+        const offerId = offer.id;
         setVisible(false);
+        setOffer(null);
         setBookingDetails(null);
+        try {
+            await RideService.declineOffer(offerId);
+        } catch (error) {
+            logger.error('Error declining offer:', error);
+        }
     };
  
     if (!visible || !bookingDetails) return null;
@@ -149,7 +179,7 @@ export function DriverAcceptanceModal() {
                             </View>
                             <Text className="text-lg font-bold text-slate-900 dark:text-white">New Ride Request</Text>
                         </View>
-                        <Text className="text-sm font-bold text-red-500">30s</Text>
+                        <Text className="text-sm font-bold text-red-500">{secondsLeft}s</Text>
                     </View>
  
                     <View className="flex-row items-center bg-slate-50 dark:bg-slate-800/50 p-4 rounded-2xl mb-6">
@@ -167,7 +197,7 @@ export function DriverAcceptanceModal() {
                         </View>
                         <View className="items-end">
                             <Text className="text-[10px] text-slate-400 dark:text-slate-500 font-bold uppercase tracking-wider">You Earn</Text>
-                            <Text className="text-xl font-bold text-emerald-600 dark:text-emerald-400">₹{Math.round(bookingDetails.total_amount * 0.8)}</Text>
+                            <Text className="text-xl font-bold text-emerald-600 dark:text-emerald-400">₹{Math.round(bookingDetails.fare * 0.8)}</Text>
                         </View>
                     </View>
  
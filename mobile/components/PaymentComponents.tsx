@@ -92,7 +92,7 @@ export function PromoCodeDialogMobile({
 }: {
     visible: boolean;
     onClose: () => void;
-    onApply: (code: string, discount: number, id: string) => void;
+    onApply: (code: string) => Promise<void>;
 }) {
     const { theme, isDark } = useTheme();
     const { hScale, vScale, spacing } = useResponsive();
@@ -120,18 +120,20 @@ export function PromoCodeDialogMobile({
         enabled: visible
     });
  
-    const handleApply = () => {
+    // The server checks every campaign rule and redeems the code on the booking
+    const handleApply = async () => {
         if (!code) return;
         setLoadingApply(true);
  
-        const offer = availableOffers?.find(o => o.code.toUpperCase() === code.toUpperCase());
-        if (offer) {
-            onApply(offer.code, offer.discount, offer.id);
+        try {
+            await onApply(code.trim().toUpperCase());
+            setCode('');
             onClose();
-        } else {
-            Alert.alert('Invalid Code', 'Invalid or expired promo code');
+        } catch (error: any) {
+            Alert.alert('Invalid Code', error.message || 'Invalid or expired promo code');
+        } finally {
+            setLoadingApply(false);
         }
-        setLoadingApply(false);
     };
  
     return (
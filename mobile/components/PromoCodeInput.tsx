@@ -72,9 +72,8 @@ export const PromoCodeInput: React.FC<PromoCodeInputProps> = ({
         try {
             const result = await PromoCodeService.validatePromoCode(
                 codeToApply,
-                user.id,
                 orderAmount,
-                vehicleType
+                { vehicleType }
             );
  
             if (result.valid && result.promoCode) {
@@ -122,9 +121,9 @@ export const PromoCodeInput: React.FC<PromoCodeInputProps> = ({
                 <View className="flex-1">
                     <Text className="text-base font-black text-slate-900 dark:text-white mb-0.5">{item.code}</Text>
                     <Text className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{item.description}</Text>
-                    {item.min_order_value > 0 && (
+                    {item.min_amount > 0 && (
                         <Text className="text-[10px] font-bold text-slate-400/80 dark:text-slate-500 uppercase">
-                            Min. order: ₹{item.min_order_value}
+                            Min. order: ₹{item.min_amount}
                         </Text>
                     )}
                 </View>
@@ -13,7 +13,6 @@ import { QuickBookService } from '@/services/QuickBookService';
 import { PromoCodeService, PromoCodeValidation } from '@/services/PromoCodeService';
 import { Coordinates } from '@/lib/maps';
 import { Input } from '@/components/ui/input';
-import { supabase } from '@/lib/supabase';
 import { useTheme } from '@/contexts/ThemeContext';
  
 interface QuickBookModalProps {
@@ -68,15 +67,11 @@ export function QuickBookModal({ visible, onClose, pickup, drop, onBookingSucces
         if (!promoCode) return;
         setValidatingPromo(true);
         try {
-            const { data: { user } } = await supabase.auth.getUser();
-            if (!user) throw new Error('User not found');
- 
             const estimate = estimates[selectedType];
             const result = await PromoCodeService.validatePromoCode(
                 promoCode,
-                user.id,
                 estimate?.estimatedPrice || 0,
-                selectedType
+                { vehicleType: selectedType, pickup: pickup.coords }
             );
             setPromoValidation(result);
         } catch (error) {
@@ -2,10 +2,17 @@ import React, { useState } from 'react';
 import { View, StyleSheet, Modal, TouchableOpacity, TextInput, ActivityIndicator, Alert } from 'react-native';
 import { Text } from '@/components/ui/text';
 import { Ionicons } from '@expo/vector-icons';
-import { supabase } from '@/lib/supabase';
+import { RatingService, RatingCategory } from '@/services/RatingService';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
  
+const DRIVER_CATEGORIES: { key: RatingCategory; label: string }[] = [
+    { key: 'driving', label: 'Driving' },
+    { key: 'punctuality', label: 'Punctuality' },
+    { key: 'cleanliness', label: 'Cleanliness' },
+    { key: 'behaviour', label: 'Behaviour' },
+];
+ 
 interface RateDriverModalProps {
     visible: boolean;
     onClose: () => void;
@@ -21,6 +28,7 @@ export function RateDriverModal({ visible, onClose, tripId, driverId, driverName
  
     const [rating, setRating] = useState(0);
     const [review, setReview] = useState('');
+    const [categories, setCategories] = useState<Partial<Record<RatingCategory, number>>>({});
     const [tip, setTip] = useState(0);
     const [submitting, setSubmitting] = useState(false);
  
@@ -31,17 +39,15 @@ export function RateDriverModal({ visible, onClose, tripId, driverId, driverName
         try {
             setSubmitting(true);
  
-            // 1. Submit Rating
-            const { error } = await supabase.from('ratings').insert({
+            // 1. Submit Rating (hidden from the driver until they rate you back)
+            await RatingService.submitRating({
                 trip_id: tripId,
-                from_user_id: user.id,
                 to_user_id: driverId,
                 rating,
+                categories,
                 review
             });
  
-            if (error) throw error;
- 
             // 2. Process Tip (Simulated for now, would likely hit an edge function)
             if (tip > 0) {
                 // Example: await supabase.rpc('send_tip', { booking_id: ..., amount: tip })
@@ -82,6 +88,25 @@ export function RateDriverModal({ visible, onClose, tripId, driverId, driverName
                         {rating === 5 ? 'Excellent!' : rating >= 4 ? 'Good' : rating >= 3 ? 'Average' : rating > 0 ? 'Poor' : 'Select a rating'}
                     </Text>
  
+                    <View className="w-full mb-8">
+                        {DRIVER_CATEGORIES.map(({ key, label }) => (
+                            <View key={key} className="flex-row items-center justify-between mb-2">
+                                <Text className="text-sm font-medium text-slate-500 dark:text-slate-400">{label}</Text>
+                                <View className="flex-row gap-1">
+                                    {[1, 2, 3, 4, 5].map((star) => (
+                                        <TouchableOpacity key={star} onPress={() => setCategories(prev => ({ ...prev, [key]: star }))}>
+                                            <Ionicons
+                                                name={star <= (categories[key] || 0) ? "star" : "star-outline"}
+                                                size={18}
+                                                color={star <= (categories[key] || 0) ? "#f59e0b" : (isDark ? "#334155" : "#e2e8f0")}
+                                            />
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            </View>
+                        ))}
+                    </View>
+ 
                     {/* Tipping Section */}
                     <View className="w-full mb-8">
                         <Text className="text-xs font-bold text-slate-400 dark:text-slate-600 uppercase tracking-widest mb-4">Add a Tip</Text>
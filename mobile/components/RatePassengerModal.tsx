@@ -2,11 +2,17 @@ import React, { useState } from 'react';
 import { View, StyleSheet, Modal, TouchableOpacity, TextInput, ActivityIndicator, Alert } from 'react-native';
 import { Text } from '@/components/ui/text';
 import { Ionicons } from '@expo/vector-icons';
-import { supabase } from '@/lib/supabase';
+import { RatingService, RatingCategory } from '@/services/RatingService';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useResponsive } from '@/hooks/useResponsive';
  
+const PASSENGER_CATEGORIES: { key: RatingCategory; label: string }[] = [
+    { key: 'punctuality', label: 'Punctuality' },
+    { key: 'cleanliness', label: 'Cleanliness' },
+    { key: 'behaviour', label: 'Behaviour' },
+];
+ 
 interface RatePassengerModalProps {
     visible: boolean;
     onClose: () => void;
@@ -22,6 +28,7 @@ export function RatePassengerModal({ visible, onClose, tripId, passengerId, pass
  
     const [rating, setRating] = useState(0);
     const [review, setReview] = useState('');
+    const [categories, setCategories] = useState<Partial<Record<RatingCategory, number>>>({});
     const [submitting, setSubmitting] = useState(false);
  
     const handleSubmit = async () => {
@@ -30,17 +37,17 @@ export function RatePassengerModal({ visible, onClose, tripId, passengerId, pass
  
         try {
             setSubmitting(true);
-            const { error } = await supabase.from('ratings').insert({
+            const { revealed } = await RatingService.submitRating({
                 trip_id: tripId,
-                from_user_id: user.id,
                 to_user_id: passengerId, // Rating the passenger
                 rating,
+                categories,
                 review
             });
  
-            if (error) throw error;
- 
-            Alert.alert("Success", "Rating submitted successfully");
+            Alert.alert("Success", revealed
+                ? "Rating submitted. You can now see each other's ratings."
+                : "Rating submitted. They'll see it once they rate you.");
             onClose();
         } catch (error: any) {
             Alert.alert("Error", error.message || "Failed to submit rating");
@@ -72,6 +79,25 @@ export function RatePassengerModal({ visible, onClose, tripId, passengerId, pass
                         {rating === 5 ? 'Excellent!' : rating >= 4 ? 'Good' : rating >= 3 ? 'Average' : rating > 0 ? 'Poor' : 'Select a rating'}
                     </Text>
  
+                    <View style={{ width: '100%', marginBottom: vScale(24) }}>
+                        {PASSENGER_CATEGORIES.map(({ key, label }) => (
+                            <View key={key} style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: vScale(8) }}>
+                                <Text style={{ fontSize: hScale(14) }} className="font-medium text-slate-500 dark:text-slate-400">{label}</Text>
+                                <View style={{ flexDirection: 'row', gap: hScale(4) }}>
+                                    {[1, 2, 3, 4, 5].map((star) => (
+                                        <TouchableOpacity key={star} onPress={() => setCategories(prev => ({ ...prev, [key]: star }))}>
+                                            <Ionicons
+                                                name={star <= (categories[key] || 0) ? "star" : "star-outline"}
+                                                size={hScale(18)}
+                                                color={star <= (categories[key] || 0) ? "#f59e0b" : (isDark ? "#334155" : "#e2e8f0")}
+                                            />
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            </View>
+                        ))}
+                    </View>
+ 
                     <TextInput
                         style={{ width: '100%', borderRadius: hScale(16), padding: hScale(16), height: vScale(112), marginBottom: vScale(32), fontSize: hScale(14) }}
                         className="bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-800 font-medium text-slate-900 dark:text-white"
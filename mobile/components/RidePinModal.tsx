@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { View, Modal, TouchableOpacity, TextInput, ActivityIndicator, Alert } from 'react-native';
+import { Text } from '@/components/ui/text';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useResponsive } from '@/hooks/useResponsive';
+import { RidePinService } from '@/services/RidePinService';
+
+interface RidePinModalProps {
+    visible: boolean;
+    onClose: () => void;
+    onVerified: () => void;
+    bookingId: string;
+    passengerName: string;
+    stage: 'start' | 'end';
+}
+
+export function RidePinModal({ visible, onClose, onVerified, bookingId, passengerName, stage }: RidePinModalProps) {
+    const { isDark } = useTheme();
+    const { hScale, vScale } = useResponsive();
+
+    const [pin, setPin] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+    const [submitting, setSubmitting] = useState(false);
+
+    const handleClose = () => {
+        setPin('');
+        setMessage(null);
+        onClose();
+    };
+
+    const handleVerify = async () => {
+        if (pin.length !== 4) return;
+
+        try {
+            setSubmitting(true);
+            const result = await RidePinService.verifyPin(bookingId, pin, stage);
+            setPin('');
+
+            if (result.success) {
+                setMessage(null);
+                onVerified();
+                return;
+            }
+
+            setMessage(result.attempts_left !== undefined
+                ? `${result.error}. ${result.attempts_left} attempt${result.attempts_left === 1 ? '' : 's'} left.`
+                : result.error || 'Could not verify PIN');
+        } catch (error: any) {
+            Alert.alert("Error", error.message || "Failed to verify PIN");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+            <View style={{ flex: 1, justifyContent: 'center', padding: hScale(24) }} className="bg-black/60">
+                <View style={{ borderRadius: hScale(32), padding: hScale(32), alignItems: 'center' }} className="bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 shadow-xl">
+                    <Ionicons name="keypad" size={hScale(32)} color={isDark ? "#60a5fa" : "#2563eb"} />
+                    <Text style={{ fontSize: hScale(24), marginTop: vScale(12), marginBottom: vScale(8) }} className="font-black text-slate-900 dark:text-white">
+                        {stage === 'start' ? 'Ride PIN' : 'Drop-off PIN'}
+                    </Text>
+                    <Text style={{ fontSize: hScale(14), marginBottom: vScale(24), paddingHorizontal: hScale(16) }} className="font-medium text-slate-500 dark:text-slate-400 text-center">
+                        Ask {passengerName} for the 4-digit PIN shown in their app
+                    </Text>
+
+                    <TextInput
+                        style={{ width: '70%', borderRadius: hScale(16), padding: hScale(16), fontSize: hScale(28), letterSpacing: hScale(12), marginBottom: vScale(12) }}
+                        className="bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-800 font-black text-slate-900 dark:text-white text-center"
+                        placeholder="••••"
+                        placeholderTextColor={isDark ? "#475569" : "#94a3b8"}
+                        keyboardType="number-pad"
+                        maxLength={4}
+                        value={pin}
+                        onChangeText={(text) => setPin(text.replace(/[^0-9]/g, ''))}
+                    />
+
+                    <Text style={{ fontSize: hScale(12), minHeight: vScale(20), marginBottom: vScale(16) }} className="font-bold text-rose-500 text-center">
+                        {message || ''}
+                    </Text>
+
+                    <View style={{ flexDirection: 'row', gap: hScale(16), width: '100%' }}>
+                        <TouchableOpacity
+                            style={{ flex: 1, height: vScale(56), borderRadius: hScale(16) }}
+                            className="bg-slate-100 dark:bg-slate-800 items-center justify-center"
+                            onPress={handleClose}
+                        >
+                            <Text style={{ fontSize: hScale(14) }} className="text-slate-500 dark:text-slate-400 font-bold">Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={{ flex: 1, height: vScale(56), borderRadius: hScale(16) }}
+                            className={`items-center justify-center shadow-lg ${pin.length !== 4 || submitting
+                                ? 'bg-slate-200 dark:bg-slate-800 shadow-none'
+                                : 'bg-blue-600 shadow-blue-500/20'
+                                }`}
+                            onPress={handleVerify}
+                            disabled={pin.length !== 4 || submitting}
+                        >
+                            {submitting ? (
+                                <ActivityIndicator color="white" size="small" />
+                            ) : (
+                                <Text style={{ fontSize: hScale(16) }} className={`font-bold ${pin.length !== 4 ? 'text-slate-400 dark:text-slate-600' : 'text-white'}`}>
+                                    Verify
+                                </Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+}
@@ -3,6 +3,7 @@ import { View, StyleSheet, TouchableOpacity, FlatList, Modal, Alert } from 'reac
 import { Text } from '@/components/ui/text';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/lib/supabase';
+import { PaymentService } from '@/services/PaymentService';
 import { Card } from '@/components/ui/card';
 import { useTranslation } from 'react-i18next';
 import { useTheme } from '@/contexts/ThemeContext';
@@ -93,27 +94,26 @@ export function WalletSystem({ userId, style }: { userId?: string, style?: any }
  
         setLoading(true);
         try {
-            // 1. Update balance
-            const newBalance = wallet.balance + amount;
-            const { error: updateError } = await supabase
-                .from('wallets')
-                .update({ balance: newBalance })
-                .eq('id', wallet.id);
- 
-            if (updateError) throw updateError;
- 
-            // 2. Add transaction record
-            const { error: txError } = await supabase
-                .from('wallet_transactions')
-                .insert({
-                    wallet_id: wallet.id,
-                    type: 'credit',
-                    amount: amount,
-                    description: 'Added via Mobile App',
-                    status: 'completed'
-                });
- 
-            if (txError) throw txError;
+            // Balance is credited server-side once Razorpay confirms the payment
+            const order = await PaymentService.createWalletTopupOrder(amount);
+
+            const RazorpayCheckout = (await import('react-native-razorpay')).default;
+            const payment = await RazorpayCheckout.open({
+                description: 'Wallet Recharge',
+                currency: order.currency,
+                key: process.env.EXPO_PUBLIC_RAZORPAY_KEY_ID,
+                amount: order.amount,
+                name: 'TCSYGO',
+                order_id: order.razorpayOrderId,
+            });
+
+            const verified = await PaymentService.verifyWalletTopup(
+                payment.razorpay_order_id,
+                payment.razorpay_payment_id,
+                payment.razorpay_signature
+            );
+
+            if (!verified) throw new Error('Payment verification failed');
  
             Alert.alert('Success', `Added ₹${amount} to wallet!`);
             setShowAddMoney(false);
@@ -8,14 +8,23 @@ import { Ticket, Plus, Trash2 } from 'lucide-react-native';
 interface PromoCode {
     id: string;
     code: string;
-    discount_amount: number;
-    discount_type: 'percent' | 'fixed';
-    expires_at: string;
+    discount_value: number;
+    discount_type: 'percentage' | 'fixed';
+    valid_until: string;
     is_active: boolean;
+    budget_cap: number | null;
+}
+
+interface PromoCampaignStats {
+    promo_code_id: string;
+    redemptions: number;
+    unique_users: number;
+    total_discount: number;
 }
 
 export function PromoCodesTab() {
     const [promos, setPromos] = useState<PromoCode[]>([]);
+    const [stats, setStats] = useState<Record<string, PromoCampaignStats>>({});
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
@@ -32,6 +41,10 @@ export function PromoCodesTab() {
 
             if (error) throw error;
             setPromos(data || []);
+
+            // Redemptions and discount spend per campaign
+            const { data: report } = await supabase.rpc('get_promo_campaign_report');
+            setStats(Object.fromEntries((report || []).map((row: PromoCampaignStats) => [row.promo_code_id, row])));
         } catch (error) {
             console.error('Error fetching promo codes:', error);
             // Fallback to empty if table doesn't exist yet
@@ -41,29 +54,37 @@ export function PromoCodesTab() {
         }
     };
 
-    const renderPromoItem = ({ item }: { item: PromoCode }) => (
-        <Card className="mb-4">
-            <CardContent className="flex-row items-center justify-between p-4">
-                <View>
-                    <View className="flex-row items-center">
-                        <Ticket size={20} className="text-primary mr-2" />
-                        <Text className="text-lg font-bold text-foreground">{item.code}</Text>
+    const renderPromoItem = ({ item }: { item: PromoCode }) => {
+        const itemStats = stats[item.id];
+
+        return (
+            <Card className="mb-4">
+                <CardContent className="flex-row items-center justify-between p-4">
+                    <View>
+                        <View className="flex-row items-center">
+                            <Ticket size={20} className="text-primary mr-2" />
+                            <Text className="text-lg font-bold text-foreground">{item.code}</Text>
+                        </View>
+                        <Text className="text-muted-foreground mt-1">
+                            {item.discount_type === 'percentage' ? `${item.discount_value}% OFF` : `₹${item.discount_value} OFF`}
+                        </Text>
+                        <Text className="text-xs text-muted-foreground mt-1">
+                            Expires: {item.valid_until ? new Date(item.valid_until).toLocaleDateString() : 'Never'}
+                        </Text>
+                        <Text className="text-xs text-muted-foreground mt-1">
+                            {itemStats?.redemptions ?? 0} redemptions · ₹{Number(itemStats?.total_discount ?? 0).toFixed(0)}
+                            {item.budget_cap ? ` of ₹${Number(item.budget_cap).toFixed(0)}` : ''} spent
+                        </Text>
                     </View>
-                    <Text className="text-muted-foreground mt-1">
-                        {item.discount_type === 'percent' ? `${item.discount_amount}% OFF` : `$${item.discount_amount} OFF`}
-                    </Text>
-                    <Text className="text-xs text-muted-foreground mt-1">
-                        Expires: {item.expires_at ? new Date(item.expires_at).toLocaleDateString() : 'Never'}
-                    </Text>
-                </View>
-                <View className="flex-row gap-2">
-                    <Button variant="outline" size="icon">
-                        <Trash2 size={20} className="text-destructive" />
-                    </Button>
-                </View>
-            </CardContent>
-        </Card>
-    );
+                    <View className="flex-row gap-2">
+                        <Button variant="outline" size="icon">
+                            <Trash2 size={20} className="text-destructive" />
+                        </Button>
+                    </View>
+                </CardContent>
+            </Card>
+        );
+    };
 
     return (
         <View className="flex-1">
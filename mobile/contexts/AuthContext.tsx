@@ -18,6 +18,8 @@ export interface User {
   phone?: string | null;
   profilePhoto?: string | null;
   role: string;
+  adminRole?: string | null;
+  isBanned?: boolean;
   bio?: string | null;
   verificationStatus?: string | null;
   createdAt?: string;
@@ -138,7 +140,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       // Add a timeout to the profile fetch to prevent infinite hangs
       const profilePromise = supabase
         .from('users')
-        .select('*')
+        .select('*, user_phone_numbers(phone)')
         .eq('id', userId)
         .single();
 
@@ -154,6 +156,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       } else if (!data) {
         console.log('Auth: User profile not found in database for userId:', userId);
         setUser(null);
+      } else if (data.is_banned) {
+        console.warn('Auth: Signing out banned user', userId);
+        await supabase.auth.signOut();
+        setUser(null);
+        toast({
+          title: 'Account suspended',
+          description: 'Your account has been suspended. Contact support if you think this is a mistake.',
+          variant: 'destructive',
+        });
       } else {
         console.log('Auth: User profile fetched successfully', { id: data.id, role: data.role });
         setUser(mapUser(data));
@@ -291,7 +302,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         .from('users')
         .update(dbUpdates)
         .eq('id', user.id)
-        .select()
+        .select('*, user_phone_numbers(phone)')
         .single();
 
       if (error) throw error;
@@ -1,3 +1,5 @@
+import { supabase } from './supabase';
+
 export interface FareBreakdown {
     baseFare: number;
     distanceCharge: number;
@@ -18,6 +20,35 @@ export const DEFAULT_FARE_CONFIG = {
     car: { baseFare: 50, perKm: 15, perMinute: 2, minFare: 80 },
 };
 
+/**
+ * Fare rates per vehicle type from fare_config, falling back to the defaults
+ */
+export async function fetchFareConfig(): Promise<typeof DEFAULT_FARE_CONFIG> {
+    try {
+        const { data, error } = await supabase.from('fare_config').select('*');
+        if (error || !data || data.length === 0) return DEFAULT_FARE_CONFIG;
+
+        const config: any = {};
+        data.forEach((item: any) => {
+            config[item.vehicle_type] = {
+                baseFare: parseFloat(item.base_fare),
+                perKm: parseFloat(item.per_km),
+                perMinute: parseFloat(item.per_minute),
+                minFare: parseFloat(item.min_fare),
+            };
+        });
+
+        return {
+            bike: config.bike || DEFAULT_FARE_CONFIG.bike,
+            auto: config.auto || DEFAULT_FARE_CONFIG.auto,
+            car: config.car || DEFAULT_FARE_CONFIG.car,
+        };
+    } catch (e) {
+        console.error('Error fetching fare config:', e);
+        return DEFAULT_FARE_CONFIG;
+    }
+}
+
 export function calculateFare(
     vehicleType: 'bike' | 'auto' | 'car',
     distanceKm: number,
@@ -7,8 +7,11 @@ export function mapUser(data: any): any {
         id: data.id,
         fullName: data.full_name,
         email: data.email,
-        phone: data.phone,
+        // users.phone is masked; the real number is only readable by its owner and admins
+        phone: data.user_phone_numbers?.phone ?? data.phone,
         role: data.role,
+        adminRole: data.admin_role,
+        isBanned: data.is_banned,
         profilePhoto: data.profile_photo || data.avatar_url,
         avatarUrl: data.avatar_url,
         bio: data.bio,
@@ -208,8 +211,19 @@ export function mapRating(data: any): any {
         tripId: data.trip_id,
         fromUserId: data.from_user_id,
         toUserId: data.to_user_id,
+        raterRole: data.rater_role,
         rating: data.rating,
+        categories: {
+            driving: data.driving,
+            punctuality: data.punctuality,
+            cleanliness: data.cleanliness,
+            behaviour: data.behaviour
+        },
         review: data.review,
+        visibleAt: data.visible_at,
+        excludedReason: data.excluded_reason,
+        response: data.response,
+        respondedAt: data.responded_at,
         createdAt: data.created_at
     };
 }
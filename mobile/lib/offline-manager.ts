@@ -154,18 +154,14 @@ class OfflineManager {
                 // Process rating
                 console.log('Processing offline rating:', item.data);
                 try {
-                    const { supabase } = await import('@/lib/supabase');
-                    const { error } = await supabase
-                        .from('ratings')
-                        .insert({
-                            booking_id: item.data.bookingId,
-                            driver_id: item.data.driverId,
-                            passenger_id: item.data.passengerId,
-                            rating: item.data.rating,
-                            review: item.data.review,
-                            created_at: new Date().toISOString(),
-                        });
-                    if (error) throw error;
+                    const { RatingService } = await import('@/services/RatingService');
+                    await RatingService.submitRating({
+                        trip_id: item.data.tripId,
+                        to_user_id: item.data.toUserId,
+                        rating: item.data.rating,
+                        categories: item.data.categories,
+                        review: item.data.review,
+                    });
                     console.log('Successfully processed offline rating');
                 } catch (error) {
                     console.error('Failed to process offline rating:', error);
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { queueAction, getPendingActions, removePendingAction, type PendingAction } from './offline-storage';
 import { supabase } from './supabase';
+import { CancellationService } from '../services/CancellationService';
 
 interface SyncStatus {
     isSyncing: boolean;
@@ -122,11 +123,8 @@ class SyncManager {
     }
 
     private async syncCancelBooking(data: any) {
-        const { error } = await supabase
-            .from('bookings')
-            .update({ status: 'cancelled' })
-            .eq('id', data.bookingId);
-        if (error) throw error;
+        // Goes through the cancellation policy so queued cancellations are refunded too
+        await CancellationService.cancelBooking(data.bookingId, data.reason);
     }
 
     private async syncUpdateProfile(data: any) {
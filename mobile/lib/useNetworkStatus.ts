@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import NetInfo from '@react-native-community/netinfo';
 import { supabase } from './supabase';
+import { CancellationService } from '../services/CancellationService';
 import { getPendingActions, removePendingAction, PendingAction } from './offline-storage';
 
 export function useNetworkStatus() {
@@ -46,7 +47,7 @@ export function useNetworkStatus() {
                 await supabase.from('bookings').insert(action.data);
                 break;
             case 'cancel_booking':
-                await supabase.from('bookings').update({ status: 'cancelled' }).eq('id', action.data.bookingId);
+                await CancellationService.cancelBooking(action.data.bookingId, action.data.reason);
                 break;
             case 'update_profile':
                 await supabase.from('users').update(action.data).eq('id', action.data.userId);
@@ -0,0 +1,13 @@
+const path = require('path');
+const { getDefaultConfig } = require('expo/metro-config');
+
+const config = getDefaultConfig(__dirname);
+
+// Lets the app import plain TypeScript from the repo's shared/ folder
+config.watchFolders = [...(config.watchFolders || []), path.resolve(__dirname, '../shared')];
+config.resolver.extraNodeModules = {
+    ...config.resolver.extraNodeModules,
+    '@shared': path.resolve(__dirname, '../shared'),
+};
+
+module.exports = config;
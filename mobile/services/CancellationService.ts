@@ -0,0 +1,67 @@
+import { supabase } from '@/lib/supabase';
+
+export interface CancellationQuote {
+    booking_id: string;
+    actor_role: 'passenger' | 'driver' | 'admin';
+    trip_type: string;
+    hours_before_departure: number | null;
+    paid_amount: number;
+    refund_percent: number;
+    refund_amount: number;
+}
+
+export interface CancellationRefund {
+    cancellation_id: string;
+    booking_id: string;
+    refund_amount: number;
+    refund_method: 'none' | 'wallet' | 'razorpay';
+    refund_status: 'not_applicable' | 'pending' | 'processed' | 'failed';
+}
+
+export const CancellationService = {
+    /**
+     * Refund the current user would get for cancelling this booking
+     */
+    getQuote: async (bookingId: string): Promise<CancellationQuote | null> => {
+        const { data, error } = await supabase.rpc('get_cancellation_quote', {
+            p_booking_id: bookingId,
+        });
+
+        if (error) {
+            console.error('Error fetching cancellation quote:', error);
+            return null;
+        }
+
+        return data;
+    },
+
+    /**
+     * Cancel a booking; the refund is decided and paid out on the server
+     */
+    cancelBooking: async (bookingId: string, reason?: string): Promise<CancellationRefund | null> => {
+        const { data, error } = await supabase.functions.invoke('process-cancellation', {
+            body: { bookingId, reason },
+        });
+
+        if (error || !data?.success) {
+            throw new Error(data?.error || error?.message || 'Failed to cancel booking');
+        }
+
+        return data.cancellations[0] ?? null;
+    },
+
+    /**
+     * Cancel a trip as its driver; all passengers are refunded in full
+     */
+    cancelTrip: async (tripId: string, reason?: string): Promise<CancellationRefund[]> => {
+        const { data, error } = await supabase.functions.invoke('process-cancellation', {
+            body: { tripId, reason },
+        });
+
+        if (error || !data?.success) {
+            throw new Error(data?.error || error?.message || 'Failed to cancel trip');
+        }
+
+        return data.cancellations;
+    },
+};
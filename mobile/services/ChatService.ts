@@ -0,0 +1,131 @@
+import { decode } from 'base64-arraybuffer';
+import { supabase } from '@/lib/supabase';
+import { logger } from './LoggerService';
+
+export type MessageType = 'text' | 'location' | 'image' | 'quick_reply';
+
+// Canned replies; keys must match the ones the database accepts
+export const QUICK_REPLIES = {
+    arrived: "I'm here",
+    late_5: 'Running 5 min late',
+    on_my_way: 'On my way',
+    cant_find: "I can't find you",
+    coming_out: 'Coming out now',
+} as const;
+
+export type QuickReplyKey = keyof typeof QUICK_REPLIES;
+
+export interface ChatMessage {
+    id: string;
+    trip_id: string;
+    sender_id: string;
+    receiver_id: string;
+    message: string;
+    message_type: MessageType;
+    attachment: { lat?: number; lng?: number; accuracy?: number; path?: string; key?: QuickReplyKey } | null;
+    is_read: boolean;
+    read_at: string | null;
+    created_at: string;
+}
+
+interface Conversation {
+    tripId: string;
+    senderId: string;
+    receiverId: string;
+}
+
+const sendMessage = async (
+    conversation: Conversation,
+    message: string,
+    messageType: MessageType = 'text',
+    attachment: ChatMessage['attachment'] = null
+): Promise<void> => {
+    const { error } = await supabase.from('messages').insert({
+        trip_id: conversation.tripId,
+        sender_id: conversation.senderId,
+        receiver_id: conversation.receiverId,
+        message,
+        message_type: messageType,
+        attachment,
+    });
+
+    if (error) throw error;
+};
+
+export const ChatService = {
+    /**
+     * Realtime room for one conversation on a trip, the same for both people
+     */
+    room: (tripId: string, userId: string, otherUserId: string): string =>
+        [tripId, ...[userId, otherUserId].sort()].join(':'),
+
+    /**
+     * Messages between two people on a trip, oldest first
+     */
+    getConversation: async (tripId: string, userId: string, otherUserId: string): Promise<ChatMessage[]> => {
+        try {
+            const { data, error } = await supabase
+                .from('messages')
+                .select('*')
+                .eq('trip_id', tripId)
+                .or(`and(sender_id.eq.${userId},receiver_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},receiver_id.eq.${userId})`)
+                .order('created_at', { ascending: true });
+
+            if (error) throw error;
+            return (data || []).map((m: any) => ({ ...m, message_type: m.message_type || 'text' }));
+        } catch (error) {
+            logger.error('Error fetching messages:', error);
+            return [];
+        }
+    },
+
+    sendText: (conversation: Conversation, text: string) => sendMessage(conversation, text),
+
+    sendQuickReply: (conversation: Conversation, key: QuickReplyKey) =>
+        sendMessage(conversation, QUICK_REPLIES[key], 'quick_reply', { key }),
+
+    sendLocation: (conversation: Conversation, coords: { lat: number; lng: number; accuracy?: number }) =>
+        sendMessage(conversation, 'Shared a location', 'location', coords),
+
+    /**
+     * Upload a photo (base64 from the image picker) to the trip's chat folder and send it
+     */
+    sendImage: async (conversation: Conversation, base64: string, fileExt: string = 'jpg'): Promise<void> => {
+        const path = `${conversation.senderId}/${conversation.tripId}/chat-${Date.now()}.${fileExt}`;
+
+        const { error: uploadError } = await supabase.storage
+            .from('chat-attachments')
+            .upload(path, decode(base64), { contentType: `image/${fileExt}` });
+
+        if (uploadError) throw uploadError;
+
+        await sendMessage(conversation, 'Sent a photo', 'image', { path });
+    },
+
+    /**
+     * Short-lived URL for a chat photo; the bucket is private to the trip
+     */
+    getAttachmentUrl: async (path: string): Promise<string | null> => {
+        const { data, error } = await supabase.storage
+            .from('chat-attachments')
+            .createSignedUrl(path, 3600);
+
+        if (error) {
+            logger.error('Error signing chat photo URL:', error);
+            return null;
+        }
+        return data.signedUrl;
+    },
+
+    /**
+     * Mark everything the other person sent you on a trip as read
+     */
+    markRead: async (tripId: string, senderId: string): Promise<void> => {
+        const { error } = await supabase.rpc('mark_messages_read', {
+            p_trip_id: tripId,
+            p_sender_id: senderId,
+        });
+
+        if (error) logger.error('Error marking messages read:', error);
+    },
+};
@@ -0,0 +1,22 @@
+import { supabase } from '@/lib/supabase';
+import { logger } from './LoggerService';
+
+export const ContactService = {
+    /**
+     * Phone the other side of a booking through the call relay, without
+     * either person seeing the other's number. Returns a proxy number to dial
+     * when the provider uses one; otherwise the caller's own phone rings.
+     */
+    startCall: async (bookingId: string): Promise<{ dial_number: string | null }> => {
+        const { data, error } = await supabase.functions.invoke('call-relay', {
+            body: { bookingId },
+        });
+
+        if (error || !data?.success) {
+            logger.error('Error starting relayed call:', data?.error || error);
+            throw new Error(data?.error || error?.message || 'Failed to start call');
+        }
+
+        return { dial_number: data.dialNumber ?? null };
+    },
+};
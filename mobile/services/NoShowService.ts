@@ -0,0 +1,64 @@
+import { supabase } from '@/lib/supabase';
+import { logger } from './LoggerService';
+
+export interface PickupWait {
+    booking_id: string;
+    trip_id: string | null;
+    passenger_id: string;
+    driver_id: string;
+    arrived_at: string;
+    arrival_distance_m: number;
+    wait_until: string;
+    no_show_at: string | null;
+    fee_amount: number | null;
+    fee_charged: number | null;
+    fee_outstanding: number | null;
+}
+
+export const NoShowService = {
+    /**
+     * The driver's check-in at a booking's pickup, if they've arrived
+     */
+    getPickupWait: async (bookingId: string): Promise<PickupWait | null> => {
+        try {
+            const { data, error } = await supabase
+                .from('pickup_waits')
+                .select('*')
+                .eq('booking_id', bookingId)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data;
+        } catch (error) {
+            logger.error('Error fetching pickup wait:', error);
+            return null;
+        }
+    },
+
+    /**
+     * Driver checks in at the pickup. The server checks their latest shared
+     * location against the pickup point and starts the wait timer.
+     */
+    markArrived: async (bookingId: string): Promise<{ wait_until: string }> => {
+        const { data, error } = await supabase.rpc('mark_arrived_at_pickup', {
+            p_booking_id: bookingId,
+        });
+
+        if (error) throw error;
+        if (!data.success) throw new Error(data.error);
+        return { wait_until: data.wait_until };
+    },
+
+    /**
+     * Driver reports a passenger who didn't turn up once the wait has run out
+     */
+    reportNoShow: async (bookingId: string): Promise<{ fee: number; charged: number; refund: number }> => {
+        const { data, error } = await supabase.rpc('report_passenger_no_show', {
+            p_booking_id: bookingId,
+        });
+
+        if (error) throw error;
+        if (!data.success) throw new Error(data.error);
+        return { fee: data.fee, charged: data.charged, refund: data.refund };
+    },
+};
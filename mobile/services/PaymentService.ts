@@ -158,57 +158,24 @@ export const PaymentService = {
         amount: number
     ): Promise<PaymentResult> => {
         try {
-            // Get wallet
-            const { data: wallet, error: walletError } = await supabase
-                .from('wallets')
-                .select('*')
-                .eq('user_id', userId)
-                .single();
+            // Debit wallet and credit driver / platform / GST in one ledger transaction
+            const { data: result, error: payError } = await supabase.rpc('wallet_pay_booking', {
+                p_booking_id: bookingId,
+                p_amount: amount,
+            });
 
-            if (walletError) throw walletError;
-            if (!wallet) throw new Error('Wallet not found');
+            if (payError) throw payError;
 
-            // Check balance
-            if (wallet.balance < amount) {
+            if (!result?.success) {
                 return {
                     success: false,
-                    error: 'Insufficient wallet balance',
+                    error: result?.message || 'Insufficient wallet balance',
                 };
             }
 
-            // Deduct from wallet
-            const { error: updateError } = await supabase
-                .from('wallets')
-                .update({ balance: wallet.balance - amount })
-                .eq('id', wallet.id);
-
-            if (updateError) throw updateError;
-
-            // Create transaction record
-            const { data: transaction, error: txError } = await supabase
-                .from('wallet_transactions')
-                .insert({
-                    wallet_id: wallet.id,
-                    type: 'debit',
-                    amount,
-                    description: `Payment for booking ${bookingId}`,
-                    status: 'completed',
-                    reference_id: bookingId,
-                })
-                .select()
-                .single();
-
-            if (txError) throw txError;
-
-            // Update booking payment status
-            await supabase
-                .from('bookings')
-                .update({ payment_status: 'completed', payment_method: 'wallet' })
-                .eq('id', bookingId);
-
             return {
                 success: true,
-                paymentId: transaction.id,
+                paymentId: result.transaction_id,
             };
         } catch (error: any) {
             logger.error('Error processing wallet payment:', error);
@@ -227,10 +194,10 @@ export const PaymentService = {
         amount: number
     ): Promise<PaymentResult> => {
         try {
-            // Update booking payment status
+            // Payment stays pending until the driver collects it
             const { error } = await supabase
                 .from('bookings')
-                .update({ payment_status: 'pending', payment_method: 'cash' })
+                .update({ payment_method: 'cash' })
                 .eq('id', bookingId);
 
             if (error) throw error;
@@ -312,55 +279,42 @@ export const PaymentService = {
     },
 
     /**
-     * Add money to wallet
+     * Create a Razorpay order for a wallet top-up
      */
-    addMoneyToWallet: async (
-        userId: string,
-        amount: number,
+    createWalletTopupOrder: async (amount: number): Promise<{ razorpayOrderId: string; amount: number; currency: string }> => {
+        const { data, error } = await supabase.functions.invoke('add-money-to-wallet', {
+            body: { amount },
+        });
+
+        if (error) throw error;
+        return data;
+    },
+
+    /**
+     * Verify a wallet top-up; the server credits the wallet through the ledger
+     */
+    verifyWalletTopup: async (
+        orderId: string,
         paymentId: string,
-        description: string = 'Added money to wallet'
+        signature: string
     ): Promise<boolean> => {
         try {
-            // Get wallet
-            const { data: wallet, error: walletError } = await supabase
-                .from('wallets')
-                .select('*')
-                .eq('user_id', userId)
-                .single();
-
-            if (walletError) throw walletError;
-
-            // Add to wallet
-            const { error: updateError } = await supabase
-                .from('wallets')
-                .update({ balance: wallet.balance + amount })
-                .eq('id', wallet.id);
-
-            if (updateError) throw updateError;
-
-            // Create transaction record
-            const { error: txError } = await supabase
-                .from('wallet_transactions')
-                .insert({
-                    wallet_id: wallet.id,
-                    type: 'credit',
-                    amount,
-                    description,
-                    status: 'completed',
-                    reference_id: paymentId,
-                });
-
-            if (txError) throw txError;
+            const { data, error } = await supabase.functions.invoke('verify-wallet-payment', {
+                body: {
+                    razorpayOrderId: orderId,
+                    razorpayPaymentId: paymentId,
+                    razorpaySignature: signature,
+                },
+            });
 
-            return true;
+            if (error) throw error;
+            return !!data?.success;
         } catch (error: any) {
-            logger.error('Error adding money to wallet:', error);
+            logger.error('Error verifying wallet top-up:', error);
             return false;
         }
     },
 
-
-
     /**
      * Settle all payments for a trip (Auto-pay)
      */
@@ -0,0 +1,244 @@
+import { supabase } from '@/lib/supabase';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as Print from 'expo-print';
+import { format } from 'date-fns';
+import { logger } from './LoggerService';
+
+export type PayoutStatus = 'requested' | 'processing' | 'paid' | 'failed';
+
+export interface DriverPayout {
+    id: string;
+    source: 'request' | 'weekly';
+    status: PayoutStatus;
+    period_start: string | null;
+    period_end: string;
+    net_amount: number;
+    failure_reason: string | null;
+    requested_at: string;
+    paid_at: string | null;
+}
+
+export interface PayoutStatementItem {
+    booking_id: string | null;
+    item_type: 'ride' | 'tip' | 'refund' | 'adjustment';
+    description: string | null;
+    route: string | null;
+    gross_amount: number;
+    platform_fee: number;
+    gst: number;
+    net_amount: number;
+    occurred_at: string;
+}
+
+export interface PayoutStatement {
+    payout_id: string;
+    driver_name: string;
+    status: PayoutStatus;
+    period_start: string | null;
+    period_end: string;
+    gross_fares: number;
+    platform_fees: number;
+    gst: number;
+    tips: number;
+    refunds: number;
+    net_amount: number;
+    transfer_reference: string | null;
+    items: PayoutStatementItem[];
+}
+
+const ITEM_LABELS: Record<PayoutStatementItem['item_type'], string> = {
+    ride: 'Ride',
+    tip: 'Tip',
+    refund: 'Refund',
+    adjustment: 'Adjustment',
+};
+
+const fileNameFor = (statement: PayoutStatement, extension: string) =>
+    `TCSYGO_Settlement_${format(new Date(statement.period_end), 'yyyy-MM-dd')}_${statement.payout_id.slice(0, 8)}.${extension}`;
+
+export const PayoutService = {
+    /**
+     * Request a payout of everything earned so far
+     */
+    requestPayout: async (driverId: string): Promise<{ success: boolean; message?: string; amount?: number }> => {
+        try {
+            const { data, error } = await supabase.rpc('request_payout', {
+                p_driver_id: driverId,
+            });
+
+            if (error) throw error;
+            return data;
+        } catch (error: any) {
+            logger.error('Error requesting payout:', error);
+            return { success: false, message: error.message || 'Could not request payout' };
+        }
+    },
+
+    /**
+     * Get a driver's payouts, newest first
+     */
+    getPayouts: async (driverId: string): Promise<DriverPayout[]> => {
+        const { data, error } = await supabase
+            .from('driver_payouts')
+            .select('id, source, status, period_start, period_end, net_amount, failure_reason, requested_at, paid_at')
+            .eq('driver_id', driverId)
+            .order('requested_at', { ascending: false });
+
+        if (error) {
+            logger.error('Error fetching payouts:', error);
+            return [];
+        }
+
+        return data || [];
+    },
+
+    /**
+     * Get the settlement statement for a payout
+     */
+    getStatement: async (payoutId: string): Promise<PayoutStatement | null> => {
+        const { data, error } = await supabase.rpc('get_payout_statement', {
+            p_payout_id: payoutId,
+        });
+
+        if (error) {
+            logger.error('Error fetching payout statement:', error);
+            return null;
+        }
+
+        return data;
+    },
+
+    /**
+     * Generate HTML statement for PDF export
+     */
+    generateHTMLStatement: (statement: PayoutStatement): string => {
+        const money = (value: number) => `₹${Number(value).toFixed(2)}`;
+        const periodStart = statement.period_start
+            ? format(new Date(statement.period_start), 'dd MMM yyyy')
+            : '—';
+
+        const rows = statement.items.map(item => `
+            <tr>
+                <td>${format(new Date(item.occurred_at), 'dd MMM')}</td>
+                <td>${ITEM_LABELS[item.item_type]}</td>
+                <td>${item.route ?? item.description ?? ''}</td>
+                <td class="num">${money(item.gross_amount)}</td>
+                <td class="num">${money(Number(item.platform_fee) + Number(item.gst))}</td>
+                <td class="num">${money(item.net_amount)}</td>
+            </tr>
+        `).join('');
+
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <style>
+        body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1e293b; padding: 24px; }
+        .header { background: #3b82f6; color: #fff; padding: 24px; border-radius: 12px; text-align: center; }
+        .header h1 { margin: 0; font-size: 28px; }
+        .meta { margin: 24px 0; font-size: 13px; line-height: 1.6; }
+        table { width: 100%; border-collapse: collapse; font-size: 12px; }
+        th, td { padding: 8px 4px; border-bottom: 1px solid #e2e8f0; text-align: left; }
+        .num { text-align: right; }
+        .summary { margin-top: 24px; width: 50%; margin-left: auto; font-size: 13px; }
+        .summary td { border: none; padding: 4px; }
+        .total td { font-weight: bold; border-top: 2px solid #1e293b; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>TCSYGO</h1>
+        <div>Driver Settlement Statement</div>
+    </div>
+    <div class="meta">
+        <div><strong>Driver:</strong> ${statement.driver_name}</div>
+        <div><strong>Period:</strong> ${periodStart} – ${format(new Date(statement.period_end), 'dd MMM yyyy')}</div>
+        <div><strong>Status:</strong> ${statement.status.toUpperCase()}</div>
+        ${statement.transfer_reference ? `<div><strong>Transfer reference:</strong> ${statement.transfer_reference}</div>` : ''}
+    </div>
+    <table>
+        <thead>
+            <tr><th>Date</th><th>Type</th><th>Route</th><th class="num">Fare</th><th class="num">Fee + GST</th><th class="num">Net</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+    </table>
+    <table class="summary">
+        <tr><td>Gross fares</td><td class="num">${money(statement.gross_fares)}</td></tr>
+        <tr><td>Platform fees</td><td class="num">-${money(statement.platform_fees)}</td></tr>
+        <tr><td>GST</td><td class="num">-${money(statement.gst)}</td></tr>
+        <tr><td>Tips</td><td class="num">${money(statement.tips)}</td></tr>
+        <tr><td>Refunds</td><td class="num">-${money(statement.refunds)}</td></tr>
+        <tr class="total"><td>Net payout</td><td class="num">${money(statement.net_amount)}</td></tr>
+    </table>
+</body>
+</html>
+        `;
+    },
+
+    /**
+     * Generate CSV statement
+     */
+    generateCSVStatement: (statement: PayoutStatement): string => {
+        const escape = (value: string | number | null) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+        const rows = [
+            ['Date', 'Type', 'Booking', 'Route', 'Fare', 'Platform Fee', 'GST', 'Net'],
+            ...statement.items.map(item => [
+                format(new Date(item.occurred_at), 'yyyy-MM-dd HH:mm'),
+                ITEM_LABELS[item.item_type],
+                item.booking_id?.slice(0, 8) ?? '',
+                item.route ?? item.description ?? '',
+                item.gross_amount,
+                item.platform_fee,
+                item.gst,
+                item.net_amount,
+            ]),
+            [],
+            ['Gross fares', statement.gross_fares],
+            ['Platform fees', -statement.platform_fees],
+            ['GST', -statement.gst],
+            ['Tips', statement.tips],
+            ['Refunds', -statement.refunds],
+            ['Net payout', statement.net_amount],
+        ];
+
+        return rows.map(row => row.map(escape).join(',')).join('\n');
+    },
+
+    /**
+     * Export a statement as PDF or CSV and open the share sheet
+     */
+    shareStatement: async (payoutId: string, kind: 'pdf' | 'csv'): Promise<boolean> => {
+        try {
+            const statement = await PayoutService.getStatement(payoutId);
+            if (!statement) return false;
+
+            const fileUri = `${(FileSystem as any).documentDirectory}${fileNameFor(statement, kind)}`;
+
+            if (kind === 'pdf') {
+                const { uri } = await Print.printToFileAsync({
+                    html: PayoutService.generateHTMLStatement(statement),
+                });
+                await FileSystem.moveAsync({ from: uri, to: fileUri });
+            } else {
+                await FileSystem.writeAsStringAsync(fileUri, PayoutService.generateCSVStatement(statement));
+            }
+
+            const canShare = await Sharing.isAvailableAsync();
+            if (canShare) {
+                await Sharing.shareAsync(fileUri, {
+                    mimeType: kind === 'pdf' ? 'application/pdf' : 'text/csv',
+                    dialogTitle: 'Share Settlement Statement',
+                });
+                return true;
+            }
+
+            return false;
+        } catch (error) {
+            logger.error('Error sharing settlement statement:', error);
+            return false;
+        }
+    },
+};
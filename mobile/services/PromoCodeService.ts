@@ -4,18 +4,21 @@ import { Alert } from 'react-native';
 export interface PromoCode {
     id: string;
     code: string;
-    description: string;
+    description: string | null;
     discount_type: 'percentage' | 'fixed';
     discount_value: number;
-    min_order_value: number;
-    max_discount: number;
+    min_amount: number;
+    max_discount: number | null;
     valid_from: string;
     valid_until: string;
-    usage_limit: number;
-    usage_count: number;
+    max_uses: number | null;
+    current_uses: number;
+    per_user_limit: number;
     is_active: boolean;
-    user_specific?: boolean;
     applicable_vehicle_types?: string[];
+    first_ride_only?: boolean;
+    organization_id?: string | null;
+    budget_cap?: number | null;
 }
 
 export interface PromoCodeValidation {
@@ -25,121 +28,56 @@ export interface PromoCodeValidation {
     promoCode?: PromoCode;
 }
 
+export interface PromoCheckContext {
+    vehicleType?: string;
+    pickup?: { lat: number; lng: number };
+    rideAt?: Date;
+}
+
+export interface PromoRedemption {
+    promo_code_id: string;
+    code: string;
+    discount: number;
+    original_amount: number;
+    final_amount: number;
+}
+
 export const PromoCodeService = {
     /**
-     * Validate and apply promo code
+     * Quote a promo code for an order. Every campaign rule is checked on the
+     * server, so the discount shown here is the one the booking will get.
      */
     validatePromoCode: async (
         code: string,
-        userId: string,
         orderAmount: number,
-        vehicleType?: string
+        context: PromoCheckContext = {}
     ): Promise<PromoCodeValidation> => {
         try {
-            // Fetch promo code from database
-            const { data: promoCode, error } = await supabase
-                .from('promo_codes')
-                .select('*')
-                .eq('code', code.toUpperCase())
-                .eq('is_active', true)
-                .single();
-
-            if (error || !promoCode) {
-                return {
-                    valid: false,
-                    discount: 0,
-                    message: 'Invalid promo code',
-                };
-            }
-
-            // Check if promo code is expired
-            const now = new Date();
-            const validFrom = new Date(promoCode.valid_from);
-            const validUntil = new Date(promoCode.valid_until);
-
-            if (now < validFrom) {
-                return {
-                    valid: false,
-                    discount: 0,
-                    message: 'Promo code not yet active',
-                };
-            }
-
-            if (now > validUntil) {
-                return {
-                    valid: false,
-                    discount: 0,
-                    message: 'Promo code has expired',
-                };
-            }
+            const { data, error } = await supabase.rpc('check_promo_code', {
+                p_code: code.trim().toUpperCase(),
+                p_amount: orderAmount,
+                p_vehicle_type: context.vehicleType || null,
+                p_pickup_lat: context.pickup?.lat ?? null,
+                p_pickup_lng: context.pickup?.lng ?? null,
+                p_ride_at: (context.rideAt || new Date()).toISOString(),
+            });
 
-            // Check usage limit
-            if (promoCode.usage_limit && promoCode.usage_count >= promoCode.usage_limit) {
-                return {
-                    valid: false,
-                    discount: 0,
-                    message: 'Promo code usage limit reached',
-                };
-            }
+            if (error) throw error;
 
-            // Check minimum order value
-            if (orderAmount < promoCode.min_order_value) {
+            if (!data.success) {
                 return {
                     valid: false,
                     discount: 0,
-                    message: `Minimum order value of ₹${promoCode.min_order_value} required`,
+                    message: data.error || 'Invalid promo code',
                 };
             }
 
-            // Check vehicle type applicability
-            if (promoCode.applicable_vehicle_types && vehicleType) {
-                const applicableTypes = promoCode.applicable_vehicle_types;
-                if (!applicableTypes.includes(vehicleType)) {
-                    return {
-                        valid: false,
-                        discount: 0,
-                        message: `Promo code not applicable for ${vehicleType}`,
-                    };
-                }
-            }
-
-            // Check if user has already used this promo code
-            if (promoCode.user_specific) {
-                const { data: usage, error: usageError } = await supabase
-                    .from('promo_code_usage')
-                    .select('*')
-                    .eq('promo_code_id', promoCode.id)
-                    .eq('user_id', userId)
-                    .single();
-
-                if (usage && !usageError) {
-                    return {
-                        valid: false,
-                        discount: 0,
-                        message: 'You have already used this promo code',
-                    };
-                }
-            }
-
-            // Calculate discount
-            let discount = 0;
-            if (promoCode.discount_type === 'percentage') {
-                discount = (orderAmount * promoCode.discount_value) / 100;
-                if (promoCode.max_discount && discount > promoCode.max_discount) {
-                    discount = promoCode.max_discount;
-                }
-            } else {
-                discount = promoCode.discount_value;
-            }
-
-            // Ensure discount doesn't exceed order amount
-            discount = Math.min(discount, orderAmount);
-
+            const discount = Math.round(Number(data.discount));
             return {
                 valid: true,
-                discount: Math.round(discount),
-                message: `Promo code applied! You saved ₹${Math.round(discount)}`,
-                promoCode,
+                discount,
+                message: `Promo code applied! You saved ₹${discount}`,
+                promoCode: data.promo,
             };
         } catch (error: any) {
             console.error('Error validating promo code:', error);
@@ -152,52 +90,45 @@ export const PromoCodeService = {
     },
 
     /**
-     * Apply promo code to booking
+     * Redeem a promo code on a booking. Replaces any code already applied and
+     * updates the booking total.
      */
-    applyPromoCode: async (
-        promoCodeId: string,
-        userId: string,
-        bookingId: string,
-        discountAmount: number
-    ): Promise<boolean> => {
-        try {
-            // Record promo code usage
-            const { error: usageError } = await supabase
-                .from('promo_code_usage')
-                .insert({
-                    promo_code_id: promoCodeId,
-                    user_id: userId,
-                    booking_id: bookingId,
-                    discount_amount: discountAmount,
-                });
-
-            if (usageError) throw usageError;
-
-            // Update promo code usage count
-            const { error: updateError } = await supabase.rpc('increment_promo_usage', {
-                promo_id: promoCodeId,
-            });
-
-            if (updateError) {
-                console.error('Error updating promo code usage count:', updateError);
-            }
-
-            // Update booking with discount
-            const { error: bookingError } = await supabase
-                .from('bookings')
-                .update({
-                    promo_code_id: promoCodeId,
-                    discount_amount: discountAmount,
-                })
-                .eq('id', bookingId);
+    applyPromoCode: async (bookingId: string, code: string): Promise<PromoRedemption> => {
+        const { data, error } = await supabase.rpc('apply_promo_code', {
+            p_booking_id: bookingId,
+            p_code: code.trim().toUpperCase(),
+        });
+
+        if (error) throw error;
+        if (!data.success) throw new Error(data.error);
+        return data;
+    },
 
-            if (bookingError) throw bookingError;
+    /**
+     * Remove the promo code from a booking and restore its original total
+     */
+    removePromoCode: async (bookingId: string): Promise<number> => {
+        const { data, error } = await supabase.rpc('remove_promo_code', {
+            p_booking_id: bookingId,
+        });
+
+        if (error) throw error;
+        if (!data.success) throw new Error(data.error);
+        return Number(data.final_amount);
+    },
 
-            return true;
-        } catch (error: any) {
-            console.error('Error applying promo code:', error);
-            return false;
-        }
+    /**
+     * The promo redemption on a booking, if any
+     */
+    getBookingRedemption: async (bookingId: string) => {
+        const { data, error } = await supabase
+            .from('promo_code_uses')
+            .select('*, promo_code:promo_codes(code)')
+            .eq('booking_id', bookingId)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data;
     },
 
     /**
@@ -217,24 +148,16 @@ export const PromoCodeService = {
 
             if (error) throw error;
 
-            // Filter out user-specific codes that have been used
-            const availableCodes: PromoCode[] = [];
-            for (const code of data || []) {
-                if (code.user_specific) {
-                    const { data: usage } = await supabase
-                        .from('promo_code_usage')
-                        .select('*')
-                        .eq('promo_code_id', code.id)
-                        .eq('user_id', userId)
-                        .single();
+            const { data: uses } = await supabase
+                .from('promo_code_uses')
+                .select('promo_code_id')
+                .eq('user_id', userId);
 
-                    if (!usage) {
-                        availableCodes.push(code);
-                    }
-                } else {
-                    availableCodes.push(code);
-                }
-            }
+            // Hide codes the user has already used up
+            const availableCodes = (data || []).filter((code: PromoCode) => {
+                const used = (uses || []).filter((u: { promo_code_id: string }) => u.promo_code_id === code.id).length;
+                return used < (code.per_user_limit || 1);
+            });
 
             return availableCodes;
         } catch (error: any) {
@@ -249,7 +172,7 @@ export const PromoCodeService = {
     getPromoCodeUsageHistory: async (userId: string): Promise<any[]> => {
         try {
             const { data, error } = await supabase
-                .from('promo_code_usage')
+                .from('promo_code_uses')
                 .select('*, promo_code:promo_codes(*), booking:bookings(*)')
                 .eq('user_id', userId)
                 .order('created_at', { ascending: false });
@@ -303,110 +226,4 @@ export const PromoCodeService = {
             return null;
         }
     },
-
-    /**
-     * Apply referral code for new user
-     */
-    applyReferralCode: async (
-        referralCode: string,
-        newUserId: string
-    ): Promise<{ success: boolean; reward: number }> => {
-        try {
-            // Fetch referral code
-            const { data: referral, error } = await supabase
-                .from('referral_codes')
-                .select('*')
-                .eq('code', referralCode.toUpperCase())
-                .single();
-
-            if (error || !referral) {
-                return { success: false, reward: 0 };
-            }
-
-            // Check if max uses reached
-            if (referral.uses_count >= referral.max_uses) {
-                return { success: false, reward: 0 };
-            }
-
-            // Check if user already used a referral code
-            const { data: existingUse } = await supabase
-                .from('referral_usage')
-                .select('*')
-                .eq('referred_user_id', newUserId)
-                .single();
-
-            if (existingUse) {
-                return { success: false, reward: 0 };
-            }
-
-            // Record referral usage
-            const { error: usageError } = await supabase.from('referral_usage').insert({
-                referral_code_id: referral.id,
-                referrer_user_id: referral.user_id,
-                referred_user_id: newUserId,
-                reward_amount: referral.reward_amount,
-            });
-
-            if (usageError) throw usageError;
-
-            // Update referral code usage count
-            const { error: updateError } = await supabase
-                .from('referral_codes')
-                .update({ uses_count: referral.uses_count + 1 })
-                .eq('id', referral.id);
-
-            if (updateError) throw updateError;
-
-            // Add reward to both users' wallets
-            await PromoCodeService.addReferralReward(referral.user_id, referral.reward_amount);
-            await PromoCodeService.addReferralReward(newUserId, referral.reward_amount);
-
-            return { success: true, reward: referral.reward_amount };
-        } catch (error: any) {
-            console.error('Error applying referral code:', error);
-            return { success: false, reward: 0 };
-        }
-    },
-
-    /**
-     * Add referral reward to wallet
-     */
-    addReferralReward: async (userId: string, amount: number): Promise<void> => {
-        try {
-            // Get or create wallet
-            const { data: wallet, error: walletError } = await supabase
-                .from('wallets')
-                .select('*')
-                .eq('user_id', userId)
-                .single();
-
-            if (walletError && walletError.code === 'PGRST116') {
-                // Create wallet
-                await supabase.from('wallets').insert({
-                    user_id: userId,
-                    balance: amount,
-                    currency: 'INR',
-                });
-            } else if (wallet) {
-                // Update wallet
-                await supabase
-                    .from('wallets')
-                    .update({ balance: wallet.balance + amount })
-                    .eq('id', wallet.id);
-            }
-
-            // Record transaction
-            if (wallet) {
-                await supabase.from('wallet_transactions').insert({
-                    wallet_id: wallet.id,
-                    type: 'credit',
-                    amount,
-                    description: 'Referral reward',
-                    status: 'completed',
-                });
-            }
-        } catch (error: any) {
-            console.error('Error adding referral reward:', error);
-        }
-    },
 };
@@ -100,7 +100,8 @@ export const QuickBookService = {
                 dropLocation: request.dropLocation.address,
                 dropCoords: { lat: request.dropLocation.lat, lng: request.dropLocation.lng },
                 vehicleType: request.vehicleType || 'bike',
-                fare: fareEstimate.estimatedPrice,
+                // Net of the promo discount; the server re-prices the promo on insert
+                fare: fareEstimate.estimatedPrice - (request.discountAmount || 0),
                 distance: fareEstimate.distanceKm,
                 duration: fareEstimate.durationMins,
                 preferences: request.preferences,
@@ -0,0 +1,60 @@
+import { supabase } from '@/lib/supabase';
+import { logger } from './LoggerService';
+
+export type RatingCategory = 'driving' | 'punctuality' | 'cleanliness' | 'behaviour';
+
+export interface RatingSummary {
+    user_id: string;
+    role: 'passenger' | 'driver';
+    rating: number | null; // Bayesian average kept by the server
+    rating_count: number;
+    excluded_count: number;
+    categories: Partial<Record<RatingCategory, number>>;
+    updated_at: string;
+}
+
+export interface SubmitRatingInput {
+    trip_id: string;
+    to_user_id: string;
+    rating: number;
+    categories?: Partial<Record<RatingCategory, number>>;
+    review?: string;
+}
+
+export const RatingService = {
+    /**
+     * Rate the other side of a completed ride. It stays hidden from them
+     * until they rate back or the 7-day window closes.
+     */
+    submitRating: async (input: SubmitRatingInput): Promise<{ revealed: boolean }> => {
+        const { data, error } = await supabase.rpc('submit_rating', {
+            p_trip_id: input.trip_id,
+            p_to_user_id: input.to_user_id,
+            p_rating: input.rating,
+            p_categories: input.categories || {},
+            p_review: input.review || null,
+        });
+
+        if (error) throw error;
+        if (!data.success) throw new Error(data.error);
+        return { revealed: data.revealed };
+    },
+
+    /**
+     * A user's score on each side they've been rated on
+     */
+    getSummaries: async (userId: string): Promise<RatingSummary[]> => {
+        try {
+            const { data, error } = await supabase
+                .from('rating_summaries')
+                .select('*')
+                .eq('user_id', userId);
+
+            if (error) throw error;
+            return data || [];
+        } catch (error) {
+            logger.error('Error fetching rating summary:', error);
+            return [];
+        }
+    },
+};
@@ -235,72 +235,29 @@ export const ReferralService = {
     },
 
     /**
-     * Claim referral reward (after referred user completes first ride)
+     * Claim referral reward (after referred user completes first ride).
+     * The server checks the ride and credits both wallets through the ledger.
      */
     claimReferralReward: async (
         referralRewardId: string
     ): Promise<{ success: boolean; amount?: number; error?: string }> => {
         try {
-            // Get reward details
-            const { data: reward, error: fetchError } = await supabase
-                .from('referral_rewards')
-                .select('*')
-                .eq('id', referralRewardId)
-                .single();
-
-            if (!reward) {
-                return {
-                    success: false,
-                    error: 'Reward not found'
-                };
-            }
-
-            if (reward.status === 'claimed') {
-                return {
-                    success: false,
-                    error: 'Reward already claimed'
-                };
-            }
+            const { data, error } = await supabase.rpc('claim_referral_reward', {
+                p_reward_id: referralRewardId,
+            });
 
-            // Add reward to wallet
-            const { PaymentService } = await import('./PaymentService');
-            const walletResult = await PaymentService.addMoneyToWallet(
-                reward.referrer_id,
-                parseFloat(reward.reward_amount.toString()),
-                `referral_${referralRewardId}`,
-                'Referral reward'
-            );
+            if (error) throw error;
 
-            if (!walletResult) {
+            if (!data.success) {
                 return {
                     success: false,
-                    error: 'Failed to add reward to wallet'
+                    error: data.error
                 };
             }
 
-            // Mark reward as claimed
-            await supabase
-                .from('referral_rewards')
-                .update({ status: 'claimed' })
-                .eq('id', referralRewardId);
-
-            // Update total rewards in referral code
-            const { data: currentCode } = await supabase
-                .from('referral_codes')
-                .select('total_rewards')
-                .eq('user_id', reward.referrer_id)
-                .single();
-
-            await supabase
-                .from('referral_codes')
-                .update({
-                    total_rewards: (currentCode?.total_rewards || 0) + parseFloat(reward.reward_amount.toString())
-                })
-                .eq('user_id', reward.referrer_id);
-
             return {
                 success: true,
-                amount: parseFloat(reward.reward_amount.toString())
+                amount: parseFloat(data.amount.toString())
             };
         } catch (error: any) {
             console.error('Error claiming referral reward:', error);
@@ -350,17 +307,8 @@ export const ReferralService = {
 
             if (!reward) return;
 
-            // Auto-claim reward for referrer
+            // Pays both the referrer and the referred user
             await ReferralService.claimReferralReward(reward.id);
-
-            // Also give reward to referred user
-            const { PaymentService } = await import('./PaymentService');
-            await PaymentService.addMoneyToWallet(
-                referredUserId,
-                parseFloat(reward.reward_amount.toString()),
-                `welcome_${reward.id}`,
-                'Welcome bonus from referral'
-            );
         } catch (error) {
             console.error('Error activating referral reward:', error);
         }
@@ -0,0 +1,53 @@
+import { supabase } from '@/lib/supabase';
+import { logger } from './LoggerService';
+
+export interface BookingPin {
+    booking_id: string;
+    start_pin: string;
+    end_pin: string;
+    start_verified_at: string | null;
+    end_verified_at: string | null;
+}
+
+export interface VerifyRidePinResult {
+    success: boolean;
+    error?: string;
+    attempts_left?: number;
+    locked_until?: string;
+}
+
+export const RidePinService = {
+    /**
+     * Get the passenger's PINs for a booking; only the passenger can read them
+     */
+    getPin: async (bookingId: string): Promise<BookingPin | null> => {
+        try {
+            const { data, error } = await supabase
+                .from('booking_pins')
+                .select('*')
+                .eq('booking_id', bookingId)
+                .maybeSingle();
+
+            if (error) throw error;
+            return data;
+        } catch (error) {
+            logger.error('Error fetching ride PIN:', error);
+            return null;
+        }
+    },
+
+    /**
+     * Driver enters the passenger's PIN at pickup ('start') or drop-off ('end').
+     * Wrong PINs are rate-limited by the server.
+     */
+    verifyPin: async (bookingId: string, pin: string, stage: 'start' | 'end' = 'start'): Promise<VerifyRidePinResult> => {
+        const { data, error } = await supabase.rpc('verify_ride_pin', {
+            p_booking_id: bookingId,
+            p_pin: pin,
+            p_stage: stage,
+        });
+
+        if (error) throw error;
+        return data;
+    },
+};
@@ -2,6 +2,7 @@ import { RideRequest, Booking } from '@/types/schema';
 import { supabase } from '@/lib/supabase';
 import { Alert } from 'react-native';
 import { logger } from './LoggerService';
+import { VehicleService } from './VehicleService';
 
 export interface Preferences {
     acPreferred?: boolean;
@@ -302,42 +303,10 @@ export const RideService = {
                 return { success: false, error: 'Unauthorized' };
             }
 
-            // Calculate refund based on cancellation time
-            const now = new Date();
-            const rideTime = new Date(ride.trip?.departure_time || ride.created_at);
-            const hoursUntilRide = (rideTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-            let refundPercentage = 0;
-            if (hoursUntilRide > 24) {
-                refundPercentage = 100; // Full refund
-            } else if (hoursUntilRide > 12) {
-                refundPercentage = 75;
-            } else if (hoursUntilRide > 6) {
-                refundPercentage = 50;
-            } else if (hoursUntilRide > 1) {
-                refundPercentage = 25;
-            }
-
-            const refundAmount = Math.round((ride.total_amount * refundPercentage) / 100);
-
-            // Update ride status
-            const { error: updateError } = await supabase
-                .from('bookings')
-                .update({
-                    status: 'cancelled',
-                    cancellation_reason: reason,
-                    refund_amount: refundAmount,
-                    cancelled_at: new Date().toISOString(),
-                })
-                .eq('id', rideId);
-
-            if (updateError) throw updateError;
-
-            // Process refund if applicable
-            if (refundAmount > 0 && ride.payment_method === 'wallet') {
-                const { PaymentService } = await import('./PaymentService');
-                await PaymentService.addMoneyToWallet(userId, refundAmount, `refund_${rideId}`);
-            }
+            // The refund is decided by the cancellation policy and paid out on the server
+            const { CancellationService } = await import('./CancellationService');
+            const cancellation = await CancellationService.cancelBooking(rideId, reason);
+            const refundAmount = cancellation?.refund_amount ?? 0;
 
             return { success: true, refundAmount };
         } catch (error: any) {
@@ -347,12 +316,14 @@ export const RideService = {
     },
 
     /**
-     * Find available drivers near pickup location using Supabase RPC
+     * Find available drivers near pickup location using Supabase RPC.
+     * Matches on each driver's active vehicle type and seat count.
      */
     findNearbyDrivers: async (
         pickupLocation: { lat: number; lng: number },
         vehicleType: 'bike' | 'auto' | 'car',
-        radiusKm: number = DRIVER_SEARCH_RADIUS_KM
+        radiusKm: number = DRIVER_SEARCH_RADIUS_KM,
+        seats: number = 1
     ): Promise<DriverMatch[]> => {
         try {
             // Using the optimized Postgres function for spatial matching
@@ -360,7 +331,8 @@ export const RideService = {
                 p_lat: pickupLocation.lat,
                 p_lng: pickupLocation.lng,
                 p_radius: radiusKm * 1000,
-                p_vehicle_type: vehicleType
+                p_vehicle_type: vehicleType,
+                p_min_seats: seats
             });
 
             if (error) throw error;
@@ -371,7 +343,7 @@ export const RideService = {
                 name: d.driver_name || 'Driver',
                 rating: Number(d.driver_rating) || 0,
                 totalTrips: 0, // Not returned by RPC currently
-                vehicleType: vehicleType,
+                vehicleType: d.vehicle_type || vehicleType,
                 vehicleNumber: d.vehicle_info?.split(' ')[2], // Approximation
                 distance: Number(d.distance_meters),
                 eta: Math.round(Number(d.distance_meters) / 500), // Approx 30km/h
@@ -396,7 +368,7 @@ export const RideService = {
                 .from('bookings')
                 .update({
                     driver_id: driverId,
-                    status: 'accepted',
+                    status: 'confirmed',
                     accepted_at: new Date().toISOString(),
                 })
                 .eq('id', bookingId);
@@ -436,25 +408,9 @@ export const RideService = {
                 const timeDiff = now.getTime() - createdAt.getTime();
 
                 if (timeDiff > BOOKING_TIMEOUT_MS) {
-                    // Mark as timeout and process refund
-                    await supabase
-                        .from('bookings')
-                        .update({
-                            status: 'timeout',
-                            cancellation_reason: 'No driver found within timeout period',
-                            cancelled_at: new Date().toISOString(),
-                        })
-                        .eq('id', bookingId);
-
-                    // Process full refund
-                    if (booking.payment_method === 'wallet') {
-                        const { PaymentService } = await import('./PaymentService');
-                        await PaymentService.addMoneyToWallet(
-                            booking.passenger_id,
-                            booking.total_amount,
-                            `timeout_refund_${bookingId}`
-                        );
-                    }
+                    // Cancel through the policy engine, which refunds what was paid
+                    const { CancellationService } = await import('./CancellationService');
+                    await CancellationService.cancelBooking(bookingId, 'No driver found within timeout period');
 
                     // Send notification to user
                     const { NotificationService } = await import('./NotificationService');
@@ -528,26 +484,51 @@ export const RideService = {
         };
     },
 
+    /**
+     * Decline a dispatch offer; the server offers the ride to the next driver
+     */
+    declineOffer: async (offerId: string): Promise<void> => {
+        const { error } = await supabase.rpc('respond_dispatch_offer', {
+            p_offer_id: offerId,
+            p_accept: false,
+        });
+
+        if (error) throw error;
+    },
+
     /**
      * Accept a ride request (Driver Side)
-     * Handles atomic locking, booking creation, and pooling logic
+     * Handles atomic locking, booking creation, and pooling logic.
+     * Pass the dispatch offer id when accepting an offer sent to this driver.
      */
-    acceptRequest: async (request: RideRequest, driverId: string): Promise<{ id: string }> => {
+    acceptRequest: async (request: RideRequest, driverId: string, offerId?: string): Promise<{ id: string }> => {
         try {
             // 1. ATOMIC LOCK: Try to set status to 'accepted' first
-            const { data: updatedRequest, error: updateError } = await supabase
-                .from('ride_requests')
-                .update({
-                    status: 'accepted',
-                    driver_id: driverId
-                })
-                .eq('id', request.id)
-                .in('status', ['pending', 'searching']) // Only update if it's still pending
-                .select()
-                .single();
+            if (offerId) {
+                const { data: result, error: offerError } = await supabase.rpc('respond_dispatch_offer', {
+                    p_offer_id: offerId,
+                    p_accept: true,
+                });
+
+                if (offerError) throw offerError;
+                if (!result?.success) {
+                    throw new Error(result?.error || "Ride is no longer available");
+                }
+            } else {
+                const { data: updatedRequest, error: updateError } = await supabase
+                    .from('ride_requests')
+                    .update({
+                        status: 'accepted',
+                        driver_id: driverId
+                    })
+                    .eq('id', request.id)
+                    .in('status', ['pending', 'searching']) // Only update if it's still pending
+                    .select()
+                    .single();
 
-            if (updateError || !updatedRequest) {
-                throw new Error("Ride is no longer available (taken by another driver)");
+                if (updateError || !updatedRequest) {
+                    throw new Error("Ride is no longer available (taken by another driver)");
+                }
             }
 
             try {
@@ -625,7 +606,10 @@ export const RideService = {
                         .eq('id', tripId);
 
                 } else {
-                    // Create New Trip
+                    // Create New Trip, sized to the vehicle the driver is driving
+                    const vehicle = await VehicleService.getActiveVehicle(driverId);
+                    const totalSeats = vehicle?.seat_count ?? 4;
+
                     const { data: trip, error: tripError } = await supabase
                         .from('trips')
                         .insert({
@@ -641,8 +625,9 @@ export const RideService = {
                             distance: request.distance,
                             duration: request.duration,
                             price_per_seat: request.fare,
-                            available_seats: 3.0, // Assuming 4 seater - 1
-                            total_seats: 4,
+                            available_seats: totalSeats - 1,
+                            total_seats: totalSeats,
+                            vehicle_id: vehicle?.id ?? null,
                             status: 'ongoing',
                             preferences: {},
                         })
@@ -701,9 +686,10 @@ export const RideService = {
             } catch (error) {
                 // Rollback: If anything fails after "locking" the request, we should try to release it
                 console.error("Error during trip creation, rolling back request status...", error);
+                // Dispatched requests go back to searching so the next driver gets an offer
                 await supabase
                     .from('ride_requests')
-                    .update({ status: 'pending', driver_id: null })
+                    .update({ status: offerId ? 'searching' : 'pending', driver_id: null, matched_driver_id: null })
                     .eq('id', request.id)
                     .eq('driver_id', driverId);
 
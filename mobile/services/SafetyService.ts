@@ -206,16 +206,14 @@ export const SafetyService = {
                         await SMS.sendSMSAsync([contact.phone], message);
                     }
 
-                    // Also create in-app notification if contact is a user
-                    const { data: contactUser } = await supabase
-                        .from('users')
-                        .select('id')
-                        .eq('phone', contact.phone)
-                        .single();
-
-                    if (contactUser) {
+                    // Also create in-app notification if contact is a user. Phone
+                    // numbers are masked on users, so the server matches the contact.
+                    const { data: contactUserId } = await supabase
+                        .rpc('get_emergency_contact_user_id', { p_contact_id: contact.id });
+
+                    if (contactUserId) {
                         await supabase.from('notifications').insert({
-                            user_id: contactUser.id,
+                            user_id: contactUserId,
                             title: 'Emergency Alert',
                             message,
                             type: 'emergency',
@@ -6,7 +6,16 @@ export interface SurgeZone {
     current_multiplier: number;
     demand_level: 'low' | 'medium' | 'high' | 'very_high';
     is_active: boolean;
-    coordinates: Array<{ lat: number; lng: number }>;
+    zone_polygon: Array<{ lat: number; lng: number }>;
+    active_requests: number;
+    available_drivers: number;
+    min_multiplier: number;
+    max_multiplier: number;
+    override_multiplier: number | null;
+    override_expires_at: string | null;
+    active_from: string | null;
+    active_until: string | null;
+    active_days: number[];
 }
 
 export interface SurgePricingUpdate {
@@ -18,7 +27,8 @@ export interface SurgePricingUpdate {
 
 export const SurgePricingService = {
     /**
-     * Get current surge multiplier for a location
+     * Get current surge multiplier for a location. Zone multipliers are
+     * recomputed on the server from live supply and demand.
      */
     getSurgeMultiplier: async (
         lat: number,
@@ -37,7 +47,10 @@ export const SurgePricingService = {
             // Check if location is in any surge zone
             if (zones && zones.length > 0) {
                 for (const zone of zones) {
-                    if (SurgePricingService.isPointInZone(lat, lng, zone.coordinates)) {
+                    if (
+                        SurgePricingService.isZoneActiveAt(zone) &&
+                        SurgePricingService.isPointInZone(lat, lng, zone.zone_polygon)
+                    ) {
                         return {
                             multiplier: zone.current_multiplier,
                             reason: `${zone.demand_level.charAt(0).toUpperCase() + zone.demand_level.slice(1)} Demand in ${zone.zone_name}`,
@@ -78,6 +91,29 @@ export const SurgePricingService = {
         return inside;
     },
 
+    /**
+     * Check if a zone's active window (India time) covers the given moment.
+     * Windows may wrap midnight, e.g. 22:00 - 02:00.
+     */
+    isZoneActiveAt: (
+        zone: Pick<SurgeZone, 'active_from' | 'active_until' | 'active_days'>,
+        at: Date = new Date()
+    ): boolean => {
+        const ist = new Date(at.getTime() + 330 * 60000);
+        if (zone.active_days && !zone.active_days.includes(ist.getUTCDay())) return false;
+        if (!zone.active_from || !zone.active_until) return true;
+
+        const toMinutes = (time: string) => {
+            const [hours, minutes] = time.split(':').map(Number);
+            return hours * 60 + minutes;
+        };
+        const now = ist.getUTCHours() * 60 + ist.getUTCMinutes();
+        const from = toMinutes(zone.active_from);
+        const until = toMinutes(zone.active_until);
+
+        return from <= until ? now >= from && now < until : now >= from || now < until;
+    },
+
     /**
      * Get time-based surge pricing
      */
@@ -125,80 +161,30 @@ export const SurgePricingService = {
     },
 
     /**
-     * Update surge pricing for a zone
+     * Pin a zone's multiplier (admin only); pass null to return to live pricing
      */
-    updateSurgeZone: async (
+    setSurgeOverride: async (
         zoneId: string,
-        multiplier: number,
-        demandLevel: 'low' | 'medium' | 'high' | 'very_high'
+        multiplier: number | null,
+        expiresAt?: string | null,
+        reason?: string
     ): Promise<boolean> => {
         try {
-            const { error } = await supabase
-                .from('surge_pricing_zones')
-                .update({
-                    current_multiplier: multiplier,
-                    demand_level: demandLevel,
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('id', zoneId);
+            const { data, error } = await supabase.rpc('set_surge_override', {
+                p_zone_id: zoneId,
+                p_multiplier: multiplier,
+                p_expires_at: expiresAt ?? null,
+                p_reason: reason ?? null,
+            });
 
             if (error) throw error;
-            return true;
+            return !!data?.success;
         } catch (error) {
-            console.error('Error updating surge zone:', error);
+            console.error('Error setting surge override:', error);
             return false;
         }
     },
 
-    /**
-     * Calculate dynamic surge based on demand
-     */
-    calculateDynamicSurge: async (
-        lat: number,
-        lng: number,
-        radius: number = 5000 // 5km radius
-    ): Promise<number> => {
-        try {
-            // Get active bookings in the area
-            const { data: bookings, error: bookingsError } = await supabase
-                .from('bookings')
-                .select('*')
-                .in('status', ['pending', 'accepted', 'started'])
-                .gte('created_at', new Date(Date.now() - 30 * 60000).toISOString()); // Last 30 minutes
-
-            if (bookingsError) throw bookingsError;
-
-            // Get available drivers in the area
-            const { data: drivers, error: driversError } = await supabase
-                .from('drivers')
-                .select('*')
-                .eq('is_available', true)
-                .eq('verification_status', 'verified');
-
-            if (driversError) throw driversError;
-
-            // Calculate demand/supply ratio
-            const demandCount = bookings?.length || 0;
-            const supplyCount = drivers?.length || 0;
-
-            if (supplyCount === 0) return 2.0; // Maximum surge if no drivers
-
-            const ratio = demandCount / supplyCount;
-
-            // Calculate surge multiplier based on ratio
-            if (ratio >= 3) return 2.0; // Very high demand
-            if (ratio >= 2) return 1.8; // High demand
-            if (ratio >= 1.5) return 1.5; // Medium-high demand
-            if (ratio >= 1) return 1.3; // Medium demand
-            if (ratio >= 0.5) return 1.1; // Low-medium demand
-
-            return 1.0; // Normal pricing
-        } catch (error) {
-            console.error('Error calculating dynamic surge:', error);
-            return 1.0;
-        }
-    },
-
     /**
      * Get all active surge zones
      */
@@ -232,7 +218,7 @@ export const SurgePricingService = {
                 .from('surge_pricing_zones')
                 .insert({
                     zone_name: zoneName,
-                    coordinates,
+                    zone_polygon: coordinates,
                     current_multiplier: multiplier,
                     demand_level: demandLevel,
                     is_active: true,
@@ -0,0 +1,85 @@
+import { supabase } from '@/lib/supabase';
+import { logger } from './LoggerService';
+
+export interface TripStop {
+    id: string;
+    trip_id: string;
+    stop_order: number;
+    location: string;
+    lat: number;
+    lng: number;
+    distance_from_start_km: number;
+    seats_available: number | null; // seats on the segment leaving this stop
+}
+
+export interface TripStopInput {
+    location: string;
+    lat: number;
+    lng: number;
+    distance_km?: number; // road distance from the origin
+}
+
+export const TripStopsService = {
+    /**
+     * Get a trip's stops in route order
+     */
+    getStops: async (tripId: string): Promise<TripStop[]> => {
+        try {
+            const { data, error } = await supabase
+                .from('trip_stops')
+                .select('*')
+                .eq('trip_id', tripId)
+                .order('stop_order');
+
+            if (error) throw error;
+            return data || [];
+        } catch (error) {
+            logger.error('Error fetching trip stops:', error);
+            return [];
+        }
+    },
+
+    /**
+     * Replace a trip's stops, origin first and destination last. Only the
+     * driver can do this, and only before any seats are booked.
+     */
+    setStops: async (tripId: string, stops: TripStopInput[]): Promise<number> => {
+        const { data, error } = await supabase.rpc('set_trip_stops', {
+            p_trip_id: tripId,
+            p_stops: stops,
+        });
+
+        if (error) throw error;
+        return data;
+    },
+
+    /**
+     * Free seats across every segment between two stops
+     */
+    getSegmentSeats: (stops: TripStop[], boardStopOrder: number, alightStopOrder: number): number => {
+        const seats = stops
+            .filter(s => s.stop_order >= boardStopOrder && s.stop_order < alightStopOrder && s.seats_available !== null)
+            .map(s => s.seats_available as number);
+
+        return seats.length > 0 ? Math.min(...seats) : 0;
+    },
+
+    /**
+     * Per-seat price for part of a trip, pro-rated by distance
+     */
+    getSegmentSeatPrice: (
+        stops: TripStop[],
+        pricePerSeat: number,
+        boardStopOrder: number,
+        alightStopOrder: number
+    ): number => {
+        const distanceAt = (order: number) =>
+            Number(stops.find(s => s.stop_order === order)?.distance_from_start_km || 0);
+        const totalDistance = Math.max(0, ...stops.map(s => Number(s.distance_from_start_km)));
+
+        if (totalDistance === 0) return pricePerSeat;
+
+        const share = (distanceAt(alightStopOrder) - distanceAt(boardStopOrder)) / totalDistance;
+        return Math.round(pricePerSeat * share * 100) / 100;
+    },
+};
@@ -0,0 +1,118 @@
+import { supabase } from '@/lib/supabase';
+import { logger } from './LoggerService';
+
+export interface Vehicle {
+    id: string;
+    driver_id: string;
+    vehicle_type: 'bike' | 'auto' | 'car';
+    make: string;
+    model: string;
+    year: number | null;
+    color: string | null;
+    plate: string;
+    seat_count: number; // passenger seats
+    photos: string[];
+    verification_status: 'pending' | 'verified' | 'rejected';
+    rejection_reason: string | null;
+    is_archived: boolean;
+    created_at: string;
+}
+
+export interface VehicleInput {
+    vehicle_type: Vehicle['vehicle_type'];
+    make: string;
+    model: string;
+    year?: number | null;
+    color?: string | null;
+    plate: string;
+    seat_count: number;
+}
+
+export const VehicleService = {
+    /**
+     * A driver's vehicles, oldest first; archived ones are left out
+     */
+    getVehicles: async (driverId: string): Promise<Vehicle[]> => {
+        try {
+            const { data, error } = await supabase
+                .from('vehicles')
+                .select('*')
+                .eq('driver_id', driverId)
+                .eq('is_archived', false)
+                .order('created_at');
+
+            if (error) throw error;
+            return data || [];
+        } catch (error) {
+            logger.error('Error fetching vehicles:', error);
+            return [];
+        }
+    },
+
+    /**
+     * The vehicle a driver is currently driving, or null if they have none
+     */
+    getActiveVehicle: async (driverId: string): Promise<Vehicle | null> => {
+        const { data: driver, error: driverError } = await supabase
+            .from('drivers')
+            .select('active_vehicle_id')
+            .eq('id', driverId)
+            .single();
+
+        if (driverError) throw driverError;
+        if (!driver.active_vehicle_id) return null;
+
+        const { data, error } = await supabase
+            .from('vehicles')
+            .select('*')
+            .eq('id', driver.active_vehicle_id)
+            .single();
+
+        if (error) throw error;
+        return data;
+    },
+
+    /**
+     * Register a vehicle; it can be used once an admin verifies it
+     */
+    addVehicle: async (driverId: string, input: VehicleInput): Promise<Vehicle> => {
+        const { data, error } = await supabase
+            .from('vehicles')
+            .insert({
+                driver_id: driverId,
+                ...input,
+                make: input.make.trim(),
+                model: input.model.trim(),
+                plate: input.plate.trim().toUpperCase(),
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+        return data;
+    },
+
+    /**
+     * Remove a vehicle the driver no longer uses
+     */
+    archiveVehicle: async (vehicleId: string): Promise<void> => {
+        const { error } = await supabase
+            .from('vehicles')
+            .update({ is_archived: true })
+            .eq('id', vehicleId);
+
+        if (error) throw error;
+    },
+
+    /**
+     * Switch the vehicle used for matching and new trips; it must be verified
+     */
+    setActiveVehicle: async (driverId: string, vehicleId: string): Promise<void> => {
+        const { error } = await supabase
+            .from('drivers')
+            .update({ active_vehicle_id: vehicleId })
+            .eq('id', driverId);
+
+        if (error) throw error;
+    },
+};
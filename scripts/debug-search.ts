@@ -2,6 +2,7 @@
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 import { join } from 'path';
+import { matchTripToRoute } from '../client/src/lib/route-matching';
 
 // Load env vars
 dotenv.config({ path: join(__dirname, '../.env') });
@@ -74,6 +75,43 @@ async function debugSearch() {
             }
         }
     }
+
+    // 3. Check route-overlap matching for a passenger's points
+    // Usage: tsx scripts/debug-search.ts <pickupLat,pickupLng> <dropLat,dropLng>
+    const [pickupArg, dropArg] = process.argv.slice(2);
+    if (pickupArg && dropArg) {
+        const [pickupLat, pickupLng] = pickupArg.split(',').map(Number);
+        const [dropLat, dropLng] = dropArg.split(',').map(Number);
+
+        const { data: routeTrips, error: routeError } = await supabase
+            .from('trips')
+            .select('id, pickup_location, drop_location, pickup_lat, pickup_lng, drop_lat, drop_lng, departure_time, duration, route')
+            .eq('status', 'upcoming')
+            .gt('available_seats', 0);
+
+        if (routeError) {
+            console.error('Error fetching trips for route matching:', routeError);
+            return;
+        }
+
+        console.log(`Checking ${routeTrips?.length || 0} trips along route...`);
+        for (const row of routeTrips || []) {
+            const match = matchTripToRoute(
+                {
+                    pickupLat: row.pickup_lat,
+                    pickupLng: row.pickup_lng,
+                    dropLat: row.drop_lat,
+                    dropLng: row.drop_lng,
+                    departureTime: row.departure_time,
+                    duration: row.duration,
+                    route: row.route,
+                },
+                { lat: pickupLat, lng: pickupLng },
+                { lat: dropLat, lng: dropLng }
+            );
+            console.log(`${row.id} ${row.pickup_location} -> ${row.drop_location}:`, match ?? 'no match');
+        }
+    }
 }
 
 debugSearch().catch(console.error);
@@ -0,0 +1,60 @@
+// What each kind of admin may do. The database checks the same table
+// (admin_role_permissions, see
+// supabase/migrations/20260115_admin_roles_audit.sql); keep the two in sync.
+// No imports so the mobile app can use this file too.
+
+export type AdminRole = "support" | "finance" | "verification" | "superadmin";
+
+export type AdminPermission =
+  | "users.edit"
+  | "users.ban"
+  | "users.roles"
+  | "trips.cancel"
+  | "bookings.manage"
+  | "support.manage"
+  | "payments.manage"
+  | "promos.manage"
+  | "pricing.manage"
+  | "drivers.verify"
+  | "settings.manage"
+  | "audit.view";
+
+export const ADMIN_ROLES: AdminRole[] = ["support", "finance", "verification", "superadmin"];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  support: "Support",
+  finance: "Finance",
+  verification: "Verification",
+  superadmin: "Super Admin",
+};
+
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  support: ["users.edit", "users.ban", "trips.cancel", "bookings.manage", "support.manage"],
+  finance: ["payments.manage", "promos.manage", "pricing.manage"],
+  verification: ["drivers.verify"],
+  superadmin: [
+    "users.edit",
+    "users.ban",
+    "users.roles",
+    "trips.cancel",
+    "bookings.manage",
+    "support.manage",
+    "payments.manage",
+    "promos.manage",
+    "pricing.manage",
+    "drivers.verify",
+    "settings.manage",
+    "audit.view",
+  ],
+};
+
+/**
+ * Whether a signed-in user may perform an admin action
+ */
+export function hasAdminPermission(
+  user: { role: string; adminRole?: string | null } | null | undefined,
+  permission: AdminPermission
+): boolean {
+  if (!user || user.role !== "admin" || !user.adminRole) return false;
+  return (ADMIN_ROLE_PERMISSIONS[user.adminRole as AdminRole] || []).includes(permission);
+}
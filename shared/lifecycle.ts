@@ -0,0 +1,111 @@
+// Status lifecycles for bookings, trips and ride requests. The database
+// enforces the same graph (status_transitions, see
+// supabase/migrations/20260114_status_lifecycle.sql); keep the two in sync.
+// No imports so the mobile app can use this file too.
+
+export type LifecycleEntity = "booking" | "trip" | "ride_request";
+export type LifecycleActor = "passenger" | "driver" | "system";
+
+export const BOOKING_TRANSITIONS: Record<string, string[]> = {
+  pending: ["confirmed", "rejected", "cancelled"],
+  confirmed: ["picked_up", "payment_pending", "completed", "cancelled"],
+  picked_up: ["payment_pending", "completed", "cancelled"],
+  payment_pending: ["completed", "cancelled"],
+  completed: [],
+  rejected: [],
+  cancelled: [],
+};
+
+export const TRIP_TRANSITIONS: Record<string, string[]> = {
+  upcoming: ["arrived", "ongoing", "cancelled"],
+  arrived: ["ongoing", "cancelled"],
+  ongoing: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+export const RIDE_REQUEST_TRANSITIONS: Record<string, string[]> = {
+  pending: ["searching", "accepted", "cancelled", "expired"],
+  searching: ["matched", "accepted", "cancelled", "expired", "timeout"],
+  matched: ["accepted", "rejected", "searching", "cancelled", "expired"],
+  // An accepted request goes back to searching/pending if the driver's app
+  // fails to create the trip
+  accepted: ["completed", "cancelled", "searching", "pending"],
+  rejected: [],
+  cancelled: [],
+  expired: [],
+  timeout: [],
+  completed: [],
+};
+
+const TRANSITIONS: Record<LifecycleEntity, Record<string, string[]>> = {
+  booking: BOOKING_TRANSITIONS,
+  trip: TRIP_TRANSITIONS,
+  ride_request: RIDE_REQUEST_TRANSITIONS,
+};
+
+export interface LifecycleAction {
+  action: string;
+  to: string;
+  by: LifecycleActor[];
+  from?: string[]; // narrower than the graph, e.g. drop-off only once on board
+}
+
+// What each party can do; an action is available when its target status is
+// reachable from the current one
+const ACTIONS: Record<LifecycleEntity, LifecycleAction[]> = {
+  booking: [
+    { action: "confirm", to: "confirmed", by: ["driver"] },
+    { action: "reject", to: "rejected", by: ["driver"] },
+    { action: "pick_up", to: "picked_up", by: ["driver"] },
+    { action: "drop_off", to: "completed", by: ["driver"], from: ["picked_up"] },
+    { action: "request_payment", to: "payment_pending", by: ["driver", "system"] },
+    { action: "cancel", to: "cancelled", by: ["passenger", "driver", "system"] },
+  ],
+  trip: [
+    { action: "arrive", to: "arrived", by: ["driver"] },
+    { action: "start", to: "ongoing", by: ["driver"] },
+    { action: "complete", to: "completed", by: ["driver", "system"] },
+    { action: "cancel", to: "cancelled", by: ["driver", "system"] },
+  ],
+  ride_request: [
+    { action: "search", to: "searching", by: ["passenger", "system"] },
+    { action: "accept", to: "accepted", by: ["driver"] },
+    { action: "reject", to: "rejected", by: ["driver"] },
+    { action: "cancel", to: "cancelled", by: ["passenger"] },
+    { action: "expire", to: "expired", by: ["system"] },
+    { action: "complete", to: "completed", by: ["driver", "system"] },
+  ],
+};
+
+/**
+ * Whether the database will accept a status change
+ */
+export function canTransition(entity: LifecycleEntity, from: string, to: string): boolean {
+  if (from === to) return true;
+  return (TRANSITIONS[entity][from] || []).includes(to);
+}
+
+/**
+ * Actions the given party can take on a record in this status
+ */
+export function allowedActions(entity: LifecycleEntity, status: string, actor: LifecycleActor): string[] {
+  return ACTIONS[entity]
+    .filter((a) => a.by.includes(actor) && (!a.from || a.from.includes(status)))
+    .filter((a) => a.to !== status && canTransition(entity, status, a.to))
+    .map((a) => a.action);
+}
+
+/**
+ * Shorthand for checking a single action
+ */
+export function canPerform(entity: LifecycleEntity, status: string, actor: LifecycleActor, action: string): boolean {
+  return allowedActions(entity, status, actor).includes(action);
+}
+
+/**
+ * Statuses with no way out
+ */
+export function isTerminalStatus(entity: LifecycleEntity, status: string): boolean {
+  return (TRANSITIONS[entity][status] || []).length === 0;
+}
@@ -10,24 +10,21 @@ export const UserRole = {
 // Trip status enum
 export const TripStatus = {
   UPCOMING: "upcoming",
+  ARRIVED: "arrived",
   ONGOING: "ongoing",
   COMPLETED: "completed",
   CANCELLED: "cancelled"
 } as const;
 
-// Booking status enum
+// Booking status enum. Allowed transitions are in ./lifecycle.ts
 export const BookingStatus = {
   PENDING: "pending",
   CONFIRMED: "confirmed",
-  PAYMENT_PENDING: "payment_pending",
-  REJECTED: "rejected",
-  CANCELLED: "cancelled",
   PICKED_UP: "picked_up",
+  PAYMENT_PENDING: "payment_pending",
   COMPLETED: "completed",
-  MATCHED: "matched",
-  ONGOING: "ongoing",
-  PAID: "paid",
-  UPCOMING: "upcoming"
+  REJECTED: "rejected",
+  CANCELLED: "cancelled"
 } as const;
 
 // Payment status enum
@@ -53,10 +50,14 @@ export interface User {
   phone?: string | null;
   profilePhoto?: string | null;
   role: string;
+  adminRole?: string | null;
+  isBanned?: boolean;
   bio?: string | null;
   verificationStatus?: string | null;
   pushToken?: string | null;
-  organization?: string | null;
+  organization?: string | null; // name of the verified organization, kept by the server
+  reliabilityScore?: number; // 0-100, kept by the server from completed rides and no-shows
+  noShowCount?: number;
   notificationPreferences?: {
     messages: boolean;
     trips: boolean;
@@ -68,6 +69,114 @@ export interface User {
   updatedAt: string;
 }
 
+// Corporate organizations. Members prove a work email on one of the
+// organization's verified domains, then may need an org admin's approval.
+export type OrganizationMemberStatus = 'pending_email' | 'pending_approval' | 'active' | 'rejected' | 'removed';
+export type OrganizationMemberRole = 'member' | 'admin';
+
+export interface Organization {
+  id: string;
+  name: string;
+  requiresApproval: boolean;
+  isActive: boolean;
+  domains: string[];
+  createdAt: string;
+}
+
+export interface OrganizationMember {
+  id: string;
+  organizationId: string;
+  userId: string;
+  workEmail: string;
+  role: OrganizationMemberRole;
+  status: OrganizationMemberStatus;
+  emailVerifiedAt?: string | null;
+  reviewedAt?: string | null;
+  createdAt: string;
+  organization?: Organization;
+  user?: User;
+}
+
+// Corporate billing. An organization's corporate account pays for its
+// employees' rides within the account's ride policies and is invoiced monthly.
+export interface CorporateAccount {
+  id: string;
+  organizationId: string;
+  billingName: string;
+  billingEmail: string;
+  gstin?: string | null;
+  billingStateCode?: string | null;
+  billingAddress?: string | null;
+  paymentTermsDays: number;
+  isActive: boolean;
+  createdAt: string;
+  organization?: Organization;
+}
+
+export interface CostCentre {
+  id: string;
+  corporateAccountId: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+}
+
+export interface CorporatePurposeCode {
+  id: string;
+  corporateAccountId: string;
+  code: string;
+  label: string;
+  isActive: boolean;
+}
+
+// Without a cost centre the policy is the account default. allowedDays are
+// ISO weekdays (Monday = 1); times are "HH:MM" departure times in IST.
+export interface CorporateRidePolicy {
+  id: string;
+  corporateAccountId: string;
+  costCentreId?: string | null;
+  allowedDays: number[];
+  allowedStart?: string | null;
+  allowedEnd?: string | null;
+  maxFare?: string | null;
+  placesOnly: boolean;
+  requirePurpose: boolean;
+}
+
+export type CorporatePlaceType = 'office' | 'home';
+
+export interface CorporatePlace {
+  id: string;
+  corporateAccountId: string;
+  userId?: string | null;
+  placeType: CorporatePlaceType;
+  label: string;
+  address?: string | null;
+  lat: number;
+  lng: number;
+  radiusM: number;
+  user?: User;
+}
+
+export type CorporateInvoiceStatus = 'issued' | 'paid' | 'void';
+
+export interface CorporateInvoice {
+  id: string;
+  corporateAccountId: string;
+  invoiceNumber: string;
+  periodStart: string;
+  periodEnd: string;
+  rideCount: number;
+  gst: string;
+  totalAmount: string;
+  status: CorporateInvoiceStatus;
+  dueDate: string;
+  paymentReference?: string | null;
+  issuedAt: string;
+  paidAt?: string | null;
+  corporateAccount?: CorporateAccount;
+}
+
 export interface Driver {
   id: string;
   userId: string;
@@ -84,10 +193,77 @@ export interface Driver {
   totalTrips: number;
   verificationStatus: string;
   documents: { type: string; url: string }[];
+  approvedAt?: string | null;
+  activeVehicleId?: string | null; // the vehicle fields above mirror this vehicle
+  minAutoApproveReliability?: number | null; // passengers below this score need approval
   createdAt: string;
   updatedAt: string;
 }
 
+export const VehicleType = {
+  BIKE: "bike",
+  AUTO: "auto",
+  CAR: "car"
+} as const;
+
+// Passenger seats a new vehicle of each type starts with
+export const DEFAULT_SEAT_COUNT: Record<string, number> = {
+  bike: 1,
+  auto: 3,
+  car: 4,
+};
+
+// A driver's vehicle, verified on its own
+export interface Vehicle {
+  id: string;
+  driverId: string;
+  vehicleType: 'bike' | 'auto' | 'car';
+  make: string;
+  model: string;
+  year?: number | null;
+  color?: string | null;
+  plate: string;
+  seatCount: number;
+  photos: string[];
+  verificationStatus: 'pending' | 'verified' | 'rejected';
+  rejectionReason?: string | null;
+  reviewedAt?: string | null;
+  isArchived: boolean;
+  createdAt: string;
+}
+
+// Driver document types, with the labels drivers and admins see
+export const DriverDocumentType = {
+  LICENCE: "licence",
+  RC: "rc",
+  INSURANCE: "insurance",
+  PUC: "puc",
+  POLICE_VERIFICATION: "police_verification"
+} as const;
+
+export const DRIVER_DOCUMENT_LABELS: Record<string, string> = {
+  licence: "Driving Licence",
+  rc: "Registration Certificate (RC)",
+  insurance: "Vehicle Insurance",
+  puc: "Pollution Certificate (PUC)",
+  police_verification: "Police Verification",
+};
+
+// One uploaded copy of a document; approving a copy supersedes older ones
+export interface DriverDocument {
+  id: string;
+  driverId: string;
+  docType: string;
+  documentNumber?: string | null;
+  fileUrl: string;
+  issuedOn?: string | null;
+  expiresOn?: string | null;
+  status: 'pending' | 'verified' | 'rejected' | 'expired' | 'superseded';
+  rejectionReason?: string | null;
+  reviewedAt?: string | null;
+  createdAt: string;
+}
+
 export interface Trip {
   id: string;
   driverId: string;
@@ -110,13 +286,96 @@ export interface Trip {
     pets?: boolean;
     music?: boolean;
     luggage?: boolean;
+    dropoffPin?: boolean; // passengers confirm drop-off with a second PIN
   };
   basePrice?: string | null;
   surgeMultiplier?: number | null;
+  recurringTripId?: string | null; // set on trips generated from a commute
+  occurrenceDate?: string | null;
+  vehicleId?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// Commute template; weekdays uses 0 = Sunday .. 6 = Saturday, times are India time
+export interface RecurringTrip {
+  id: string;
+  driverId: string;
+  pickupLocation: string;
+  pickupLat: string;
+  pickupLng: string;
+  dropLocation: string;
+  dropLat: string;
+  dropLng: string;
+  pricePerSeat: string;
+  passDiscountPercent: number;
+  totalSeats: number;
+  weekdays: number[];
+  departureTime: string;
+  startsOn: string;
+  endsOn: string | null;
+  generatedUntil: string | null;
+  status: 'active' | 'paused' | 'ended';
+  vehicleId?: string | null;
+  createdAt: string;
+}
+
+// A passenger's seat on every occurrence of a commute for one week
+export interface RecurringTripPass {
+  id: string;
+  recurringTripId: string;
+  passengerId: string;
+  weekStart: string;
+  seats: number;
+  pricePerSeat: string;
+  paymentMethod: string;
+  status: 'active' | 'cancelled';
+  createdAt: string;
+}
+
+// Passenger-only PINs the driver enters at pickup and, optionally, drop-off
+export interface BookingPin {
+  bookingId: string;
+  startPin: string;
+  endPin: string;
+  startVerifiedAt?: string | null;
+  endVerifiedAt?: string | null;
+}
+
+// Ordered stop on a trip; seatsAvailable is for the segment leaving this stop
+export interface TripStop {
+  id: string;
+  tripId: string;
+  stopOrder: number;
+  location: string;
+  lat: string;
+  lng: string;
+  distanceFromStartKm: string;
+  seatsAvailable: number | null;
+}
+
+// Part of a trip matched by search, between a boarding and an alighting stop
+export interface TripSegment {
+  boardStopOrder: number;
+  alightStopOrder: number;
+  boardLocation: string;
+  alightLocation: string;
+  seatsAvailable: number;
+  seatPrice: string;
+}
+
+// How well a passenger's pickup and drop fit along a trip's route
+export interface RouteMatch {
+  pickupPoint: { lat: number; lng: number }; // nearest point on the route
+  dropPoint: { lat: number; lng: number };
+  pickupDistanceKm: number; // passenger pickup to the route
+  dropDistanceKm: number;
+  departureGapMinutes: number | null; // driver's ETA at pickup vs. requested time
+  detourMinutes: number | null; // null when not checked with the router
+  detourKm: number | null;
+  score: number; // 0-100, higher is better
+}
+
 export interface Booking {
   id: string;
   tripId: string;
@@ -130,6 +389,9 @@ export interface Booking {
   dropLocation?: string | null;
   dropLat?: string | null;
   dropLng?: string | null;
+  boardStopOrder?: number | null;
+  alightStopOrder?: number | null;
+  recurringPassId?: string | null;
   promoCodeId?: string | null;
   paymentStatus?: string | null;
   preferences?: {
@@ -142,6 +404,22 @@ export interface Booking {
   updatedAt: string;
 }
 
+// A driver's check-in at a passenger's pickup, and the no-show that may follow
+export interface PickupWait {
+  bookingId: string;
+  tripId: string | null;
+  passengerId: string;
+  driverId: string;
+  arrivedAt: string;
+  arrivalDistanceM: number;
+  waitUntil: string;
+  noShowAt?: string | null;
+  noShowDistanceM?: number | null;
+  feeAmount?: string | null;
+  feeCharged?: string | null;
+  feeOutstanding?: string | null;
+}
+
 export interface Payment {
   id: string;
   bookingId: string;
@@ -156,26 +434,100 @@ export interface Payment {
   updatedAt: string;
 }
 
+// Categories each side is rated on; driving only applies to drivers
+export const RATING_CATEGORIES = {
+  driver: ["driving", "punctuality", "cleanliness", "behaviour"],
+  passenger: ["punctuality", "cleanliness", "behaviour"],
+} as const;
+
+export type RatingCategory = "driving" | "punctuality" | "cleanliness" | "behaviour";
+
+export const RATING_CATEGORY_LABELS: Record<RatingCategory, string> = {
+  driving: "Driving",
+  punctuality: "Punctuality",
+  cleanliness: "Cleanliness",
+  behaviour: "Behaviour",
+};
+
 export interface Rating {
   id: string;
   tripId: string;
   fromUserId: string;
   toUserId: string;
+  raterRole: 'passenger' | 'driver';
   rating: number;
+  categories: Partial<Record<RatingCategory, number>>;
   review?: string | null;
+  visibleAt: string; // hidden from the person rated until then
+  excludedReason?: 'outlier' | 'repeat' | 'collusion' | null;
+  response?: string | null;
+  respondedAt?: string | null;
   createdAt: string;
 }
 
+// Server-maintained score for one side (driver or passenger) of a user
+export interface RatingSummary {
+  userId: string;
+  role: 'passenger' | 'driver';
+  rating: number | null; // Bayesian average; null until a rating counts
+  ratingCount: number;
+  excludedCount: number;
+  categories: Partial<Record<RatingCategory, number>>;
+  updatedAt: string;
+}
+
+export type MessageType = 'text' | 'location' | 'image' | 'quick_reply';
+
+// Canned trip chat replies; the keys are checked by the database
+export const QUICK_REPLIES = {
+  arrived: "I'm here",
+  late_5: "Running 5 min late",
+  on_my_way: "On my way",
+  cant_find: "I can't find you",
+  coming_out: "Coming out now",
+} as const;
+
+export type QuickReplyKey = keyof typeof QUICK_REPLIES;
+
+export interface MessageAttachment {
+  lat?: number; // location pins
+  lng?: number;
+  accuracy?: number;
+  path?: string; // images, in the chat-attachments bucket
+  key?: QuickReplyKey; // quick replies
+}
+
 export interface Message {
   id: string;
   tripId: string;
   senderId: string;
   receiverId: string;
   message: string;
+  messageType: MessageType;
+  attachment?: MessageAttachment | null;
   isRead: boolean;
+  readAt?: string | null;
   createdAt: string;
 }
 
+// Chat messages that appear to share contact details, queued for moderators
+export type MessageFlagReason = 'phone_number' | 'upi_id';
+export type MessageFlagStatus = 'open' | 'dismissed' | 'actioned';
+
+export interface MessageFlag {
+  id: string;
+  messageId: string;
+  tripId: string;
+  senderId: string;
+  reason: MessageFlagReason;
+  excerpt: string;
+  status: MessageFlagStatus;
+  reviewedBy?: string | null;
+  reviewedAt?: string | null;
+  createdAt: string;
+  sender?: User;
+}
+
 export interface LiveLocation {
   id: string;
   tripId: string;
@@ -198,6 +550,27 @@ export interface Notification {
   createdAt: string;
 }
 
+// A route the passenger is alerted about when matching trips are published.
+// windowStart/windowEnd are "HH:MM" departure times in IST.
+export interface SavedSearch {
+  id: string;
+  userId: string;
+  name: string;
+  pickupLocation: string;
+  pickupLat?: string | null;
+  pickupLng?: string | null;
+  dropLocation: string;
+  dropLat?: string | null;
+  dropLng?: string | null;
+  windowStart?: string | null;
+  windowEnd?: string | null;
+  maxPrice?: string | null;
+  alertsEnabled: boolean;
+  snoozedUntil?: string | null;
+  lastAlertedAt?: string | null;
+  createdAt: string;
+}
+
 export interface SupportTicket {
   id: string;
   userId?: string | null;
@@ -219,9 +592,35 @@ export interface PromoCode {
   validFrom: string;
   validUntil: string;
   isActive: boolean;
+  description?: string | null;
+  maxDiscount?: string | null;
+  minAmount?: string | null;
+  perUserLimit: number;
+  applicableVehicleTypes?: string[] | null;
+  firstRideOnly: boolean;
+  minCompletedRides: number;
+  surgeZoneIds?: string[] | null;
+  minSurgeMultiplier?: string | null;
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  activeDays: number[];
+  organizationId?: string | null;
+  budgetCap?: string | null;
   createdAt: string;
 }
 
+export interface PromoCampaignReport {
+  promoCodeId: string;
+  code: string;
+  redemptions: number;
+  uniqueUsers: number;
+  totalDiscount: number;
+  grossAmount: number;
+  budgetCap: number | null;
+  budgetRemaining: number | null;
+  lastRedeemedAt: string | null;
+}
+
 // Zod Schemas for Validation
 export const insertUserSchema = z.object({
   id: z.string().optional(),
@@ -276,6 +675,7 @@ export const insertTripSchema = z.object({
     pets: z.boolean().optional(),
     music: z.boolean().optional(),
     luggage: z.boolean().optional(),
+    dropoffPin: z.boolean().optional(),
   }).default({}),
 });
 
@@ -312,6 +712,7 @@ export const insertRatingSchema = z.object({
   fromUserId: z.string(),
   toUserId: z.string(),
   rating: z.number().min(1).max(5),
+  categories: z.record(z.enum(["driving", "punctuality", "cleanliness", "behaviour"]), z.number().min(1).max(5)).optional(),
   review: z.string().optional(),
 });
 
@@ -357,6 +758,19 @@ export const insertPromoCodeSchema = z.object({
   validFrom: z.string(),
   validUntil: z.string(),
   isActive: z.boolean().default(true),
+  description: z.string().nullable().optional(),
+  maxDiscount: z.string().nullable().optional(),
+  minAmount: z.string().nullable().optional(),
+  perUserLimit: z.number().int().min(1).default(1),
+  applicableVehicleTypes: z.array(z.enum(['bike', 'auto', 'car'])).min(1).default(['bike', 'auto', 'car']),
+  firstRideOnly: z.boolean().default(false),
+  minCompletedRides: z.number().int().min(0).default(0),
+  surgeZoneIds: z.array(z.string()).nullable().optional(),
+  minSurgeMultiplier: z.string().nullable().optional(),
+  activeFrom: z.string().nullable().optional(),
+  activeUntil: z.string().nullable().optional(),
+  organizationId: z.string().nullable().optional(),
+  budgetCap: z.string().nullable().optional(),
 });
 
 export interface PaymentMethod {
@@ -401,6 +815,8 @@ export type InsertPaymentMethod = z.infer<typeof insertPaymentMethodSchema>;
 // Extended types for application logic
 export type TripWithDriver = Trip & {
   driver: Driver & { user: User };
+  segment?: TripSegment;
+  match?: RouteMatch;
 };
 
 export type BookingWithDetails = Booking & {
@@ -434,15 +850,45 @@ export const insertEmergencyAlertSchema = z.object({
 export type InsertEmergencyAlert = z.infer<typeof insertEmergencyAlertSchema>;
 
 // System Settings
+export interface AdminAuditEntry {
+  id: string;
+  actorId: string | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  actorAdminRole: string | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  createdAt: string;
+}
+
 export interface SystemSettings {
   id: string;
   platformFeePercentage: string;
   maintenanceMode: boolean;
   supportEmail: string;
   supportPhone: string;
+  cancellationPolicies?: Record<string, CancellationPolicy> | null;
+  noShowPolicy?: NoShowPolicy | null;
   updatedAt: string;
 }
 
+// Refund tiers for passenger cancellations, keyed by trip type in system_settings
+export interface CancellationPolicy {
+  tiers: { min_hours: number; refund_percent: number }[];
+}
+
+// How long a driver waits at a pickup and what a no-show costs the passenger
+export interface NoShowPolicy {
+  wait_minutes: number;
+  radius_m: number;
+  fee_percent: number;
+  min_fee: number;
+  max_fee: number;
+}
+
 export const insertSystemSettingsSchema = z.object({
   platformFeePercentage: z.string().default("10"),
   maintenanceMode: z.boolean().default(false),
@@ -499,10 +945,43 @@ export interface RideRequest {
   organization_only?: boolean;
   scheduled_time?: string;
   seats: number;
+  passengerReliability?: number | null; // joined from the passenger for drivers
+  isMarketplace?: boolean;
+  scheduledUntil?: string | null; // End of a marketplace request's departure window
+  notes?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+// A driver's answer to a marketplace ride request
+export interface RideRequestOffer {
+  id: string;
+  rideRequestId: string;
+  driverId: string;
+  vehicleId?: string | null;
+  departureTime: string;
+  pricePerSeat: string;
+  totalSeats: number;
+  message?: string | null;
+  status: 'offered' | 'accepted' | 'declined' | 'withdrawn' | 'expired';
+  tripId?: string | null;
+  createdAt: string;
+  driver?: {
+    fullName: string;
+    profilePhoto?: string | null;
+    rating?: string | null;
+    vehicle?: string | null;
+  };
+}
+
+// A marketplace ride request as listed to drivers
+export interface MarketplaceRideRequest extends RideRequest {
+  passengerName: string;
+  distanceKm?: number | null;
+  offerCount: number;
+  myOffer?: RideRequestOffer | null;
+}
+
 export const insertRideRequestSchema = z.object({
   passengerId: z.string(),
   pickupLocation: z.string(),
@@ -198,6 +198,7 @@ serve(async (req) => {
                 amount: amount,
                 description: 'Wallet Recharge',
                 reference_id: order.id,
+                reference_type: 'topup',
                 status: 'pending',
             })
 
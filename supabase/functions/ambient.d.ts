@@ -5,6 +5,8 @@ declare namespace Deno {
         get(key: string): string | undefined;
         toObject(): { [key: string]: string };
     };
+    export function readTextFile(path: string | URL): Promise<string>;
+    export function test(name: string, fn: () => void | Promise<void>): void;
     // Add other Deno APIs as needed
 }
 
@@ -34,6 +34,8 @@ serve(async (req) => {
             .eq('trip_id', tripId)
             .eq('status', 'confirmed')
             .eq('payment_status', 'pending')
+            // Company-billed rides are invoiced to the employer instead
+            .or('payment_method.is.null,payment_method.neq.corporate')
 
         if (bookingsError) throw bookingsError
 
@@ -65,56 +67,27 @@ serve(async (req) => {
                 const paymentMethod = booking.autoPaySettings.default_payment_method
 
                 if (paymentMethod === 'wallet') {
-                    // Get wallet balance
-                    const { data: wallet } = await supabaseClient
-                        .from('wallets')
-                        .select('id, balance')
-                        .eq('user_id', booking.passenger_id)
-                        .single()
-
-                    if (!wallet || parseFloat(wallet.balance) < amount) {
+                    // Debit the wallet and credit driver / platform / GST in the ledger
+                    const { data: payResult, error: payError } = await supabaseClient.rpc('wallet_pay_booking', {
+                        p_booking_id: booking.id,
+                        p_amount: amount,
+                    })
+
+                    if (payError || !payResult?.success) {
                         results.push({
                             bookingId: booking.id,
                             success: false,
-                            reason: 'Insufficient wallet balance',
+                            reason: payError?.message || payResult?.message || 'Insufficient wallet balance',
                         })
                         continue
                     }
 
-                    // Deduct from wallet
-                    const newBalance = parseFloat(wallet.balance) - amount
-
-                    await supabaseClient
-                        .from('wallets')
-                        .update({ balance: newBalance })
-                        .eq('id', wallet.id)
-
-                    // Create transaction record
-                    await supabaseClient.from('wallet_transactions').insert({
-                        wallet_id: wallet.id,
-                        type: 'debit',
-                        amount: amount,
-                        description: `Auto-pay for trip ${tripId}`,
-                        reference_id: booking.id,
-                        status: 'completed',
-                    })
-
-                    // Update booking
-                    await supabaseClient
-                        .from('bookings')
-                        .update({
-                            payment_status: 'success',
-                            payment_method: 'wallet',
-                            updated_at: new Date().toISOString(),
-                        })
-                        .eq('id', booking.id)
-
                     // Create payment record
                     await supabaseClient.from('payments').insert({
                         booking_id: booking.id,
                         amount: amount,
                         payment_method: 'wallet',
-                        status: 'completed',
+                        status: 'success',
                         transaction_id: `auto_pay_${booking.id}_${Date.now()}`,
                     })
 
@@ -0,0 +1,113 @@
+import type { CallRelayProvider } from './providers.ts'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type DatabaseResult<T> = PromiseLike<{ data: T; error: { message: string } | null }>
+
+// The part of the Supabase client the relay uses, so tests can record calls
+export interface CallRelayDatabase {
+    auth: {
+        getUser(token: string): DatabaseResult<{ user: { id: string } | null }>
+    }
+    rpc(fn: string, params: Record<string, unknown>): DatabaseResult<any>
+    from(table: string): {
+        insert(row: Record<string, unknown>): PromiseLike<{ error: { message: string } | null }>
+    }
+}
+
+export interface CallRelayDependencies {
+    getDatabase: () => CallRelayDatabase
+    getProvider: () => CallRelayProvider
+}
+
+export async function handleCallRelay(req: Request, deps: CallRelayDependencies): Promise<Response> {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const supabaseClient = deps.getDatabase()
+
+        // Get user from JWT
+        const authHeader = req.headers.get('Authorization')
+        if (!authHeader) {
+            throw new Error('Authentication required')
+        }
+
+        const token = authHeader.replace('Bearer ', '')
+        const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token)
+
+        if (userError || !user) {
+            throw new Error('Unauthorized')
+        }
+
+        const { bookingId } = await req.json()
+
+        if (!bookingId) {
+            throw new Error('Missing required field: bookingId')
+        }
+
+        // The database decides whether the two may talk; real numbers never leave this function
+        const { data: contact, error: contactError } = await supabaseClient.rpc('get_booking_contact', {
+            p_booking_id: bookingId,
+            p_actor_id: user.id,
+        })
+
+        if (contactError) {
+            throw new Error(contactError.message)
+        }
+
+        if (!contact?.success) {
+            throw new Error(contact?.error || 'Calling is not available for this booking')
+        }
+
+        const provider = deps.getProvider()
+
+        try {
+            const session = await provider.createSession({
+                bookingId,
+                callerPhone: contact.caller_phone,
+                calleePhone: contact.callee_phone,
+            })
+
+            await supabaseClient.from('call_sessions').insert({
+                booking_id: bookingId,
+                caller_id: user.id,
+                callee_id: contact.callee_id,
+                provider: provider.name,
+                provider_session_id: session.sessionId,
+            })
+
+            return new Response(
+                JSON.stringify({
+                    success: true,
+                    sessionId: session.sessionId,
+                    dialNumber: session.dialNumber ?? null,
+                }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+            )
+        } catch (providerError) {
+            console.error('Call relay failed:', providerError)
+
+            await supabaseClient.from('call_sessions').insert({
+                booking_id: bookingId,
+                caller_id: user.id,
+                callee_id: contact.callee_id,
+                provider: provider.name,
+                status: 'failed',
+                error: providerError instanceof Error ? providerError.message : String(providerError),
+            })
+
+            throw new Error('Could not connect the call. Please try again or use chat.')
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        return new Response(
+            JSON.stringify({ success: false, error: message }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+    }
+}
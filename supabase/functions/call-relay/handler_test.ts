@@ -0,0 +1,133 @@
+import assert from "node:assert/strict"
+import { handleCallRelay, type CallRelayDatabase } from './handler.ts'
+import { getCallRelayProvider, type CallRelayProvider } from './providers.ts'
+
+const CALLER_ID = 'user-passenger'
+
+// Answers get_booking_contact with the given result and records every
+// call_sessions row, standing in for the database in these tests
+function recordingDatabase(contact: Record<string, unknown>): CallRelayDatabase & { sessions: Record<string, unknown>[] } {
+    const sessions: Record<string, unknown>[] = []
+
+    return {
+        sessions,
+        auth: {
+            getUser: (token) => Promise.resolve(
+                token === 'valid-token'
+                    ? { data: { user: { id: CALLER_ID } }, error: null }
+                    : { data: { user: null }, error: { message: 'invalid JWT' } }
+            ),
+        },
+        rpc: (fn, params) => {
+            assert.equal(fn, 'get_booking_contact')
+            assert.equal(params.p_actor_id, CALLER_ID)
+            return Promise.resolve({ data: contact, error: null })
+        },
+        from: (table) => {
+            assert.equal(table, 'call_sessions')
+            return {
+                insert: (row) => {
+                    sessions.push(row)
+                    return Promise.resolve({ error: null })
+                },
+            }
+        },
+    }
+}
+
+const ACTIVE_CONTACT = {
+    success: true,
+    caller_phone: '+911111111111',
+    callee_phone: '+912222222222',
+    callee_id: 'user-driver',
+}
+
+const stubProvider = () => getCallRelayProvider((key) => key === 'CALL_RELAY_PROVIDER' ? 'stub' : undefined)
+
+function callRequest(body: unknown, token = 'valid-token'): Request {
+    return new Request('http://localhost/call-relay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(body),
+    })
+}
+
+Deno.test('connects an active booking through the stub provider', async () => {
+    const db = recordingDatabase(ACTIVE_CONTACT)
+    const response = await handleCallRelay(callRequest({ bookingId: 'booking-1' }), {
+        getDatabase: () => db,
+        getProvider: stubProvider,
+    })
+
+    assert.equal(response.status, 200)
+    const body = await response.json()
+    assert.equal(body.success, true)
+    assert.match(body.sessionId, /^stub-/)
+    assert.equal(body.dialNumber, null)
+
+    // Real numbers stay on the server
+    assert.equal(JSON.stringify(body).includes(ACTIVE_CONTACT.callee_phone), false)
+
+    assert.deepEqual(db.sessions, [{
+        booking_id: 'booking-1',
+        caller_id: CALLER_ID,
+        callee_id: 'user-driver',
+        provider: 'stub',
+        provider_session_id: body.sessionId,
+    }])
+})
+
+Deno.test('refuses a booking the database will not connect', async () => {
+    const db = recordingDatabase({ success: false, error: 'Calling is only available while the booking is active' })
+    const response = await handleCallRelay(callRequest({ bookingId: 'booking-1' }), {
+        getDatabase: () => db,
+        getProvider: stubProvider,
+    })
+
+    assert.equal(response.status, 400)
+    assert.equal((await response.json()).error, 'Calling is only available while the booking is active')
+    assert.equal(db.sessions.length, 0)
+})
+
+Deno.test('rejects unauthenticated callers', async () => {
+    const db = recordingDatabase(ACTIVE_CONTACT)
+    const response = await handleCallRelay(callRequest({ bookingId: 'booking-1' }, 'bad-token'), {
+        getDatabase: () => db,
+        getProvider: stubProvider,
+    })
+
+    assert.equal(response.status, 400)
+    assert.equal((await response.json()).error, 'Unauthorized')
+    assert.equal(db.sessions.length, 0)
+})
+
+Deno.test('records a failed session when the provider cannot connect', async () => {
+    const db = recordingDatabase(ACTIVE_CONTACT)
+    const failingProvider: CallRelayProvider = {
+        name: 'stub',
+        createSession: () => Promise.reject(new Error('provider down')),
+    }
+
+    const response = await handleCallRelay(callRequest({ bookingId: 'booking-1' }), {
+        getDatabase: () => db,
+        getProvider: () => failingProvider,
+    })
+
+    assert.equal(response.status, 400)
+    assert.match((await response.json()).error, /Could not connect the call/)
+    assert.equal(db.sessions.length, 1)
+    assert.equal(db.sessions[0].status, 'failed')
+    assert.equal(db.sessions[0].error, 'provider down')
+})
+
+Deno.test('fails closed when no provider is configured', async () => {
+    const db = recordingDatabase(ACTIVE_CONTACT)
+    const response = await handleCallRelay(callRequest({ bookingId: 'booking-1' }), {
+        getDatabase: () => db,
+        getProvider: () => getCallRelayProvider(() => undefined),
+    })
+
+    assert.equal(response.status, 400)
+    assert.equal((await response.json()).error, 'Call relay provider not configured')
+    assert.equal(db.sessions.length, 0)
+})
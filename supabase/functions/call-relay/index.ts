@@ -0,0 +1,12 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { handleCallRelay } from './handler.ts'
+import { getCallRelayProvider } from './providers.ts'
+
+serve((req) => handleCallRelay(req, {
+    getDatabase: () => createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    ),
+    getProvider: () => getCallRelayProvider(),
+}))
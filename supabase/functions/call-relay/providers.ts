@@ -0,0 +1,102 @@
+export interface CallSessionRequest {
+    bookingId: string
+    callerPhone: string
+    calleePhone: string
+}
+
+export interface CallSession {
+    // Provider's id for the call, kept for support lookups
+    sessionId: string
+    // Set when the caller should dial a proxy number themselves; otherwise
+    // the provider rings the caller and bridges them to the callee
+    dialNumber?: string
+}
+
+// A telephony provider that connects two people without either seeing the other's number
+export interface CallRelayProvider {
+    name: string
+    createSession(request: CallSessionRequest): Promise<CallSession>
+}
+
+// Exotel click-to-call: rings the caller from the virtual number, then connects the callee
+class ExotelProvider implements CallRelayProvider {
+    name = 'exotel'
+
+    constructor(
+        private sid: string,
+        private apiKey: string,
+        private apiToken: string,
+        private callerId: string,
+        private subdomain: string
+    ) { }
+
+    async createSession(request: CallSessionRequest): Promise<CallSession> {
+        const body = new URLSearchParams({
+            From: request.callerPhone,
+            To: request.calleePhone,
+            CallerId: this.callerId,
+            CustomField: request.bookingId,
+        })
+
+        const response = await fetch(
+            `https://${this.subdomain}/v1/Accounts/${this.sid}/Calls/connect.json`,
+            {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Basic ${btoa(`${this.apiKey}:${this.apiToken}`)}`,
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                },
+                body,
+            }
+        )
+
+        const result = await response.json()
+
+        if (!response.ok) {
+            throw new Error(result?.RestException?.Message || 'Failed to place call')
+        }
+
+        return { sessionId: result.Call?.Sid }
+    }
+}
+
+// Places no call; used locally and in tests so nobody's phone actually rings
+class StubProvider implements CallRelayProvider {
+    name = 'stub'
+
+    async createSession(_request: CallSessionRequest): Promise<CallSession> {
+        return { sessionId: `stub-${crypto.randomUUID()}` }
+    }
+}
+
+/**
+ * Provider chosen by CALL_RELAY_PROVIDER. There is no default: a deploy
+ * without it must fail loudly rather than "connect" calls that never ring.
+ */
+export function getCallRelayProvider(
+    getEnv: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): CallRelayProvider {
+    const provider = getEnv('CALL_RELAY_PROVIDER')
+
+    switch (provider) {
+        case undefined:
+        case '':
+            throw new Error('Call relay provider not configured')
+        case 'exotel': {
+            const sid = getEnv('EXOTEL_SID')
+            const apiKey = getEnv('EXOTEL_API_KEY')
+            const apiToken = getEnv('EXOTEL_API_TOKEN')
+            const callerId = getEnv('EXOTEL_CALLER_ID')
+
+            if (!sid || !apiKey || !apiToken || !callerId) {
+                throw new Error('Exotel credentials not configured')
+            }
+
+            return new ExotelProvider(sid, apiKey, apiToken, callerId, getEnv('EXOTEL_SUBDOMAIN') ?? 'api.exotel.com')
+        }
+        case 'stub':
+            return new StubProvider()
+        default:
+            throw new Error(`Unknown call relay provider: ${provider}`)
+    }
+}
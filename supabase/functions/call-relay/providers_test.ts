@@ -0,0 +1,43 @@
+import assert from "node:assert/strict"
+import { getCallRelayProvider } from './providers.ts'
+
+function envOf(values: Record<string, string>) {
+    return (key: string) => values[key]
+}
+
+Deno.test('getCallRelayProvider refuses to run without a configured provider', () => {
+    assert.throws(() => getCallRelayProvider(envOf({})), /not configured/)
+    assert.throws(() => getCallRelayProvider(envOf({ CALL_RELAY_PROVIDER: '' })), /not configured/)
+})
+
+Deno.test('getCallRelayProvider rejects unknown providers', () => {
+    assert.throws(() => getCallRelayProvider(envOf({ CALL_RELAY_PROVIDER: 'twilio' })), /Unknown call relay provider: twilio/)
+})
+
+Deno.test('getCallRelayProvider needs every Exotel credential', () => {
+    assert.throws(
+        () => getCallRelayProvider(envOf({ CALL_RELAY_PROVIDER: 'exotel', EXOTEL_SID: 'sid', EXOTEL_API_KEY: 'key' })),
+        /Exotel credentials not configured/
+    )
+
+    const provider = getCallRelayProvider(envOf({
+        CALL_RELAY_PROVIDER: 'exotel',
+        EXOTEL_SID: 'sid',
+        EXOTEL_API_KEY: 'key',
+        EXOTEL_API_TOKEN: 'token',
+        EXOTEL_CALLER_ID: '08000000000',
+    }))
+    assert.equal(provider.name, 'exotel')
+})
+
+Deno.test('stub provider opens a session without placing a call', async () => {
+    const provider = getCallRelayProvider(envOf({ CALL_RELAY_PROVIDER: 'stub' }))
+    assert.equal(provider.name, 'stub')
+
+    const first = await provider.createSession({ bookingId: 'booking-1', callerPhone: '+911111111111', calleePhone: '+912222222222' })
+    const second = await provider.createSession({ bookingId: 'booking-1', callerPhone: '+911111111111', calleePhone: '+912222222222' })
+
+    assert.match(first.sessionId, /^stub-/)
+    assert.notEqual(first.sessionId, second.sessionId)
+    assert.equal(first.dialNumber, undefined)
+})
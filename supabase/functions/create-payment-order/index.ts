@@ -13,11 +13,11 @@ serve(async (req) => {
     }
 
     try {
-        const { bookingId, amount, promoCodeId } = await req.json()
+        const { bookingId, amount } = await req.json()
 
         // Validate inputs
-        if (!bookingId || !amount) {
-            throw new Error('Missing required fields: bookingId, amount')
+        if (!bookingId) {
+            throw new Error('Missing required field: bookingId')
         }
 
         // Initialize Supabase client
@@ -37,30 +37,28 @@ serve(async (req) => {
             throw new Error('Booking not found')
         }
 
-        // Apply promo code if provided
-        let finalAmount = amount
-        let discount = 0
-
-        if (promoCodeId) {
-            const { data: promo } = await supabaseClient
-                .from('promo_codes')
-                .select('*')
-                .eq('id', promoCodeId)
-                .single()
-
-            if (promo && promo.is_active) {
-                if (promo.discount_type === 'percentage') {
-                    discount = (amount * promo.discount_value) / 100
-                    if (promo.max_discount && discount > promo.max_discount) {
-                        discount = promo.max_discount
-                    }
-                } else {
-                    discount = promo.discount_value
-                }
-                finalAmount = amount - discount
-            }
+        // The server priced the booking and any promo is already taken off
+        // total_amount, so that is what gets charged. A client that shows a
+        // different amount is out of date and must not pay it.
+        const finalAmount = Number(booking.total_amount)
+
+        if (!(finalAmount > 0)) {
+            throw new Error('Nothing to pay for this booking')
+        }
+
+        if (amount != null && Math.abs(Number(amount) - finalAmount) >= 0.01) {
+            throw new Error('The amount due has changed. Please refresh and try again.')
         }
 
+        const { data: redemption } = await supabaseClient
+            .from('promo_code_uses')
+            .select('promo_code_id, discount_amount')
+            .eq('booking_id', bookingId)
+            .maybeSingle()
+
+        const discount = redemption ? Number(redemption.discount_amount) : 0
+        const promoCodeId = redemption?.promo_code_id ?? null
+
         // Create Razorpay order
         const razorpayKeyId = Deno.env.get('RAZORPAY_KEY_ID')
         const razorpayKeySecret = Deno.env.get('RAZORPAY_KEY_SECRET')
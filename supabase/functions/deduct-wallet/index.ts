@@ -18,50 +18,62 @@ serve(async (req) => {
             Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
         )
 
-        const { userId, amount } = await req.json()
+        // Get user from JWT
+        const authHeader = req.headers.get('Authorization')
+        if (!authHeader) {
+            throw new Error('Authentication required')
+        }
+
+        const token = authHeader.replace('Bearer ', '')
+        const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token)
+
+        if (userError || !user) {
+            throw new Error('Unauthorized')
+        }
+
+        const { bookingId, amount } = await req.json()
 
-        if (!userId || !amount || amount <= 0) {
+        if (!bookingId || (amount !== undefined && amount <= 0)) {
             throw new Error('Invalid parameters')
         }
 
-        // specific wallet fetch
-        const { data: wallet, error: walletError } = await supabaseClient
-            .from('wallets')
-            .select('id, balance')
-            .eq('user_id', userId)
+        const { data: booking, error: bookingError } = await supabaseClient
+            .from('bookings')
+            .select('id, passenger_id')
+            .eq('id', bookingId)
             .single()
 
-        if (walletError || !wallet) {
-            throw new Error('Wallet not found')
+        if (bookingError || !booking || booking.passenger_id !== user.id) {
+            throw new Error('Booking not found')
         }
 
-        if (wallet.balance < amount) {
-            throw new Error('Insufficient balance')
+        // Posts wallet -> driver payable / platform fee / GST in one ledger transaction
+        const { data: result, error: payError } = await supabaseClient.rpc('wallet_pay_booking', {
+            p_booking_id: bookingId,
+            p_amount: amount ?? null,
+        })
+
+        if (payError) throw payError
+
+        if (!result?.success) {
+            throw new Error(result?.message || 'Insufficient balance')
+        }
+
+        // Store the PDF for the tax invoice the ledger posting just issued
+        const { data: invoice } = await supabaseClient
+            .from('tax_invoices')
+            .select('id')
+            .eq('booking_id', bookingId)
+            .eq('document_type', 'invoice')
+            .order('issued_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+
+        if (invoice) {
+            await supabaseClient.functions.invoke('generate-invoice', { body: { invoiceId: invoice.id } })
         }
 
-        // atomic decrement not strictly possible without RPC, but we can update
-        // For better concurrency usage, an RPC or specific SQL query is better, 
-        // but for now we follow the simple pattern:
-        const newBalance = wallet.balance - amount
-
-        const { error: updateError } = await supabaseClient
-            .from('wallets')
-            .update({ balance: newBalance })
-            .eq('id', wallet.id)
-
-        if (updateError) throw updateError
-
-        // Log transaction
-        await supabaseClient
-            .from('wallet_transactions')
-            .insert({
-                wallet_id: wallet.id,
-                amount: -amount,
-                type: 'debit',
-                description: 'Ride Payment',
-                status: 'completed',
-                date: new Date().toISOString()
-            })
+        const newBalance = result.new_balance
 
         return new Response(
             JSON.stringify({ success: true, newBalance }),
@@ -0,0 +1,208 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { jsPDF } from 'https://esm.sh/jspdf@2.5.1'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BUCKET = 'invoices'
+
+const money = (value: number | string) => `Rs. ${Number(value).toFixed(2)}`
+
+// Tax invoices and credit notes are issued in the database when the ledger
+// posts a payment or refund. This renders the PDF (once), stores it in the
+// invoices bucket and returns a short-lived signed URL. Payment functions call
+// it with the service role key right after a payment settles; passengers call
+// it from payment history for anything not rendered yet.
+serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const supabaseClient = createClient(
+            Deno.env.get('SUPABASE_URL') ?? '',
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+        )
+
+        const authHeader = req.headers.get('Authorization')!
+        const token = authHeader.replace('Bearer ', '')
+        const isServiceCall = token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+        let userId: string | null = null
+        if (!isServiceCall) {
+            const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token)
+
+            if (userError || !user) {
+                throw new Error('Unauthorized')
+            }
+            userId = user.id
+        }
+
+        const { invoiceId } = await req.json()
+
+        const { data: invoice, error: invoiceError } = await supabaseClient
+            .from('tax_invoices')
+            .select('*, original:tax_invoices!original_invoice_id(invoice_number), driver:drivers(user_id)')
+            .eq('id', invoiceId)
+            .single()
+
+        if (invoiceError || !invoice) {
+            throw new Error('Invoice not found')
+        }
+
+        if (userId && invoice.passenger_id !== userId && invoice.driver?.user_id !== userId) {
+            const { data: profile } = await supabaseClient
+                .from('users')
+                .select('role')
+                .eq('id', userId)
+                .single()
+
+            if (profile?.role !== 'admin') {
+                throw new Error('Invoice not found')
+            }
+        }
+
+        let path = invoice.pdf_path
+
+        if (!path) {
+            path = `${invoice.passenger_id}/${invoice.invoice_number.replace(/\//g, '-')}.pdf`
+
+            const { error: uploadError } = await supabaseClient.storage
+                .from(BUCKET)
+                .upload(path, renderInvoice(invoice), { contentType: 'application/pdf', upsert: true })
+
+            if (uploadError) {
+                throw new Error(uploadError.message)
+            }
+
+            await supabaseClient
+                .from('tax_invoices')
+                .update({ pdf_path: path })
+                .eq('id', invoice.id)
+        }
+
+        const { data: signed, error: signError } = await supabaseClient.storage
+            .from(BUCKET)
+            .createSignedUrl(path, 300)
+
+        if (signError) {
+            throw new Error(signError.message)
+        }
+
+        return new Response(
+            JSON.stringify({ success: true, url: signed.signedUrl, path }),
+            {
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                status: 200,
+            }
+        )
+    } catch (error) {
+        return new Response(
+            JSON.stringify({ error: error.message }),
+            {
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                status: 400,
+            }
+        )
+    }
+})
+
+function renderInvoice(invoice: any): Uint8Array {
+    const doc = new jsPDF()
+    const isCreditNote = invoice.document_type === 'credit_note'
+
+    doc.setFillColor(59, 130, 246)
+    doc.rect(0, 0, 210, 40, 'F')
+    doc.setFontSize(24)
+    doc.setTextColor(255, 255, 255)
+    doc.text(invoice.supplier_name, 105, 22, { align: 'center' })
+    doc.setFontSize(14)
+    doc.text(isCreditNote ? 'Credit Note' : 'Tax Invoice', 105, 33, { align: 'center' })
+
+    doc.setTextColor(0, 0, 0)
+    doc.setFontSize(10)
+    let y = 52
+
+    doc.text(`${isCreditNote ? 'Credit Note' : 'Invoice'} No: ${invoice.invoice_number}`, 20, y)
+    doc.text(`Date: ${new Date(invoice.issued_at).toLocaleDateString('en-IN')}`, 190, y, { align: 'right' })
+    y += 6
+    if (isCreditNote && invoice.original?.invoice_number) {
+        doc.text(`Against Invoice: ${invoice.original.invoice_number}`, 20, y)
+        y += 6
+    }
+    doc.text(`Supplier GSTIN: ${invoice.supplier_gstin || 'Not registered'}`, 20, y)
+    doc.text(`State Code: ${invoice.supplier_state_code}`, 190, y, { align: 'right' })
+    y += 6
+    if (invoice.supplier_address) {
+        doc.text(invoice.supplier_address, 20, y)
+        y += 6
+    }
+
+    y += 4
+    doc.setFont('helvetica', 'bold')
+    doc.text('Billed To', 20, y)
+    doc.text('Service Provided By', 110, y)
+    doc.setFont('helvetica', 'normal')
+    y += 6
+    doc.text(invoice.recipient_name, 20, y)
+    doc.text(invoice.driver_name || '-', 110, y)
+    y += 6
+    doc.text(`GSTIN: ${invoice.recipient_gstin || 'Unregistered'}`, 20, y)
+    doc.text(`GSTIN: ${invoice.driver_gstin || 'Unregistered'}`, 110, y)
+    y += 6
+    doc.text(`Place of Supply: ${invoice.place_of_supply}`, 20, y)
+
+    y += 10
+    doc.setDrawColor(230, 230, 230)
+    doc.line(20, y, 190, y)
+    y += 8
+
+    doc.setFont('helvetica', 'bold')
+    doc.text('Description', 20, y)
+    doc.text('SAC', 140, y)
+    doc.text('Taxable Value', 190, y, { align: 'right' })
+    doc.setFont('helvetica', 'normal')
+    y += 6
+    const descriptionLines = doc.splitTextToSize(invoice.description, 110)
+    doc.text(descriptionLines, 20, y)
+    doc.text(invoice.sac_code, 140, y)
+    doc.text(money(invoice.taxable_value), 190, y, { align: 'right' })
+    y += descriptionLines.length * 5 + 6
+
+    doc.line(20, y, 190, y)
+    y += 8
+
+    const addRow = (label: string, value: number | string, isBold = false) => {
+        if (isBold) doc.setFont('helvetica', 'bold')
+        doc.text(label, 110, y)
+        doc.text(money(value), 190, y, { align: 'right' })
+        doc.setFont('helvetica', 'normal')
+        y += 6
+    }
+
+    addRow('Taxable Value', invoice.taxable_value)
+    if (Number(invoice.igst) > 0) {
+        addRow(`IGST @ ${Number(invoice.igst_rate)}%`, invoice.igst)
+    } else {
+        addRow(`CGST @ ${Number(invoice.cgst_rate)}%`, invoice.cgst)
+        addRow(`SGST @ ${Number(invoice.sgst_rate)}%`, invoice.sgst)
+    }
+    addRow(isCreditNote ? 'Total Credit' : 'Total', invoice.total_amount, true)
+
+    y += 10
+    doc.setFontSize(8)
+    doc.setTextColor(120, 120, 120)
+    doc.text(
+        'Tax on passenger transport booked through the platform is paid by the electronic commerce operator under section 9(5) of the CGST Act.',
+        105,
+        y,
+        { align: 'center', maxWidth: 170 }
+    )
+    y += 10
+    doc.text('This is a computer generated document and does not require a signature.', 105, y, { align: 'center' })
+
+    return new Uint8Array(doc.output('arraybuffer'))
+}
@@ -0,0 +1,227 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface CancellationResult {
+    cancellation_id: string
+    booking_id: string
+    refund_amount: number
+    refund_method: 'none' | 'wallet' | 'razorpay'
+    refund_status: string
+    razorpay_payment_id: string | null
+}
+
+// Pays a cancellation's refund back through Razorpay. A failure is kept on the
+// cancellation with its error so finance admins can retry it from the Payments tab.
+async function refundThroughRazorpay(
+    supabaseClient: ReturnType<typeof createClient>,
+    cancellation: CancellationResult,
+    previousAttempts: number,
+    auth: string
+) {
+    try {
+        const refundResponse = await fetch(
+            `https://api.razorpay.com/v1/payments/${cancellation.razorpay_payment_id}/refund`,
+            {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Basic ${auth}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    amount: Math.round(cancellation.refund_amount * 100), // Convert to paise
+                    notes: {
+                        booking_id: cancellation.booking_id,
+                        cancellation_id: cancellation.cancellation_id,
+                    },
+                }),
+            }
+        )
+
+        const refund = await refundResponse.json()
+
+        if (!refundResponse.ok) {
+            throw new Error(refund.error?.description || 'Unknown error')
+        }
+
+        const processed = refund.status === 'processed'
+
+        // Reverse the booking's ledger postings against the gateway
+        await supabaseClient.rpc('gateway_refund_booking', {
+            p_booking_id: cancellation.booking_id,
+            p_amount: cancellation.refund_amount,
+            p_razorpay_refund_id: refund.id,
+        })
+
+        await supabaseClient
+            .from('booking_cancellations')
+            .update({
+                razorpay_refund_id: refund.id,
+                refund_status: processed ? 'processed' : 'pending',
+                refund_error: null,
+                refund_attempts: previousAttempts + 1,
+            })
+            .eq('id', cancellation.cancellation_id)
+
+        await supabaseClient
+            .from('payments')
+            .update({ refund_status: processed ? 'completed' : 'processing' })
+            .eq('razorpay_payment_id', cancellation.razorpay_payment_id)
+
+        if (processed) {
+            await supabaseClient
+                .from('bookings')
+                .update({ payment_status: 'refunded' })
+                .eq('id', cancellation.booking_id)
+        }
+
+        cancellation.refund_status = processed ? 'processed' : 'pending'
+    } catch (refundError) {
+        console.error('Razorpay refund failed:', refundError)
+
+        await supabaseClient
+            .from('booking_cancellations')
+            .update({
+                refund_status: 'failed',
+                refund_error: refundError instanceof Error ? refundError.message : String(refundError),
+                refund_attempts: previousAttempts + 1,
+            })
+            .eq('id', cancellation.cancellation_id)
+
+        cancellation.refund_status = 'failed'
+    }
+}
+
+serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const supabaseClient = createClient(
+            Deno.env.get('SUPABASE_URL') ?? '',
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+        )
+
+        // Get user from JWT
+        const authHeader = req.headers.get('Authorization')
+        if (!authHeader) {
+            throw new Error('Authentication required')
+        }
+
+        const token = authHeader.replace('Bearer ', '')
+        const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token)
+
+        if (userError || !user) {
+            throw new Error('Unauthorized')
+        }
+
+        const { bookingId, tripId, reason, retryCancellationId } = await req.json()
+
+        const razorpayKeyId = Deno.env.get('RAZORPAY_KEY_ID')
+        const razorpayKeySecret = Deno.env.get('RAZORPAY_KEY_SECRET')
+        const razorpayAuth = razorpayKeyId && razorpayKeySecret
+            ? btoa(`${razorpayKeyId}:${razorpayKeySecret}`)
+            : null
+
+        // Finance admins retry a Razorpay refund that failed earlier
+        if (retryCancellationId) {
+            const { data: allowed } = await supabaseClient.rpc('user_has_admin_permission', {
+                p_user_id: user.id,
+                p_permission: 'payments.manage',
+            })
+
+            if (!allowed) {
+                throw new Error('Not allowed')
+            }
+
+            const { data: failed, error: failedError } = await supabaseClient
+                .from('booking_cancellations')
+                .select('id, booking_id, refund_amount, refund_method, refund_status, razorpay_payment_id, refund_attempts')
+                .eq('id', retryCancellationId)
+                .eq('refund_method', 'razorpay')
+                .eq('refund_status', 'failed')
+                .maybeSingle()
+
+            if (failedError) {
+                throw new Error(failedError.message)
+            }
+
+            if (!failed?.razorpay_payment_id) {
+                throw new Error('No failed refund found for this cancellation')
+            }
+
+            if (!razorpayAuth) {
+                throw new Error('Razorpay credentials not configured')
+            }
+
+            const cancellation: CancellationResult = {
+                cancellation_id: failed.id,
+                booking_id: failed.booking_id,
+                refund_amount: Number(failed.refund_amount),
+                refund_method: failed.refund_method,
+                refund_status: failed.refund_status,
+                razorpay_payment_id: failed.razorpay_payment_id,
+            }
+
+            await refundThroughRazorpay(supabaseClient, cancellation, failed.refund_attempts ?? 0, razorpayAuth)
+
+            return new Response(
+                JSON.stringify({ success: cancellation.refund_status !== 'failed', cancellations: [cancellation] }),
+                { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+            )
+        }
+
+        if (!bookingId && !tripId) {
+            throw new Error('Missing required fields: bookingId or tripId')
+        }
+
+        // The policy engine lives in the database; it decides the refund and
+        // posts wallet refunds to the ledger in the same transaction as the cancellation.
+        const { data: result, error: cancelError } = tripId
+            ? await supabaseClient.rpc('cancel_trip', {
+                p_trip_id: tripId,
+                p_actor_id: user.id,
+                p_reason: reason ?? null,
+            })
+            : await supabaseClient.rpc('cancel_booking', {
+                p_booking_id: bookingId,
+                p_actor_id: user.id,
+                p_reason: reason ?? null,
+            })
+
+        if (cancelError) {
+            throw new Error(cancelError.message)
+        }
+
+        const cancellations: CancellationResult[] = result?.cancellations ?? []
+
+        // Pay out card/UPI refunds through Razorpay
+        for (const cancellation of cancellations) {
+            if (cancellation.refund_method !== 'razorpay' || !cancellation.razorpay_payment_id) {
+                continue
+            }
+
+            if (!razorpayAuth) {
+                console.error('Razorpay credentials not configured; refund left pending', cancellation.cancellation_id)
+                continue
+            }
+
+            await refundThroughRazorpay(supabaseClient, cancellation, 0, razorpayAuth)
+        }
+
+        return new Response(
+            JSON.stringify({ success: true, cancellations }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+        )
+    } catch (error) {
+        return new Response(
+            JSON.stringify({ success: false, error: error.message }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+    }
+})
@@ -0,0 +1,129 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-razorpay-signature, x-razorpay-event-id',
+}
+
+const HANDLED_EVENTS = ['payment.authorized', 'payment.captured', 'payment.failed', 'refund.processed']
+
+// The part of the Supabase client the webhook uses, so tests can record calls
+export interface WebhookDatabase {
+    rpc(fn: string, params: Record<string, unknown>): PromiseLike<{ data: any; error: { message: string } | null }>
+}
+
+export interface WebhookDependencies {
+    webhookSecret: string | undefined
+    getDatabase: () => WebhookDatabase
+}
+
+/**
+ * Constant-time check of the X-Razorpay-Signature header against the raw body
+ */
+export function verifyWebhookSignature(rawBody: string, signature: string, secret: string): boolean {
+    if (!signature) return false
+
+    const encoder = new TextEncoder()
+    const expected = encoder.encode(createHmac('sha256', secret).update(rawBody).digest('hex'))
+    const received = encoder.encode(signature)
+
+    return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+export async function handleRazorpayWebhook(req: Request, deps: WebhookDependencies): Promise<Response> {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    const jsonHeaders = { ...corsHeaders, 'Content-Type': 'application/json' }
+
+    if (!deps.webhookSecret) {
+        return new Response(
+            JSON.stringify({ error: 'Webhook secret not configured' }),
+            { headers: jsonHeaders, status: 500 }
+        )
+    }
+
+    // The signature covers the raw body, so read it before parsing
+    const rawBody = await req.text()
+    const signature = req.headers.get('x-razorpay-signature') ?? ''
+
+    if (!verifyWebhookSignature(rawBody, signature, deps.webhookSecret)) {
+        return new Response(
+            JSON.stringify({ error: 'Invalid webhook signature' }),
+            { headers: jsonHeaders, status: 401 }
+        )
+    }
+
+    let event
+    try {
+        event = JSON.parse(rawBody)
+    } catch {
+        return new Response(
+            JSON.stringify({ error: 'Invalid JSON payload' }),
+            { headers: jsonHeaders, status: 400 }
+        )
+    }
+
+    // Razorpay sends the same event id on every redelivery
+    const eventId = req.headers.get('x-razorpay-event-id') ?? event.id
+    if (!eventId) {
+        return new Response(
+            JSON.stringify({ error: 'Missing event id' }),
+            { headers: jsonHeaders, status: 400 }
+        )
+    }
+
+    if (!HANDLED_EVENTS.includes(event.event)) {
+        return new Response(
+            JSON.stringify({ received: true, ignored: true }),
+            { headers: jsonHeaders, status: 200 }
+        )
+    }
+
+    const database = deps.getDatabase()
+
+    try {
+        // State transition, ledger posting and event log commit together
+        const { data: result, error } = await database.rpc('process_razorpay_webhook_event', {
+            p_event_id: eventId,
+            p_event_type: event.event,
+            p_payload: event.payload,
+        })
+
+        if (error) {
+            throw new Error(error.message)
+        }
+
+        // A capture that does not match the payment is held for finance, not
+        // retried: redelivering the same payload cannot change the outcome
+        if (result?.status === 'review') {
+            console.warn('Webhook held for review:', eventId, result.result?.reason)
+            return new Response(
+                JSON.stringify({ received: true, review: true, ...result }),
+                { headers: jsonHeaders, status: 200 }
+            )
+        }
+
+        return new Response(
+            JSON.stringify({ received: true, ...result }),
+            { headers: jsonHeaders, status: 200 }
+        )
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.error('Webhook processing failed:', eventId, message)
+
+        await database.rpc('mark_razorpay_webhook_failed', {
+            p_event_id: eventId,
+            p_event_type: event.event,
+            p_payload: event.payload,
+            p_error: message,
+        })
+
+        // Non-2xx makes Razorpay retry the delivery
+        return new Response(
+            JSON.stringify({ error: message }),
+            { headers: jsonHeaders, status: 500 }
+        )
+    }
+}
@@ -0,0 +1,283 @@
+import assert from "node:assert/strict"
+import { createHmac } from "node:crypto"
+import { handleRazorpayWebhook, verifyWebhookSignature, type WebhookDatabase } from './handler.ts'
+
+const SECRET = 'whsec_test_secret'
+
+type RpcCall = { fn: string; params: Record<string, any> }
+
+// Answers process_razorpay_webhook_event with what the SQL returned for each
+// event type and records every call, standing in for the database in these tests
+function scriptedDatabase(results: Record<string, unknown> = {}): WebhookDatabase & { calls: RpcCall[] } {
+    const calls: RpcCall[] = []
+
+    return {
+        calls,
+        rpc(fn, params) {
+            calls.push({ fn, params })
+            if (fn !== 'process_razorpay_webhook_event') {
+                return Promise.resolve({ data: null, error: null })
+            }
+
+            return Promise.resolve({
+                data: results[params.p_event_type as string] ?? { duplicate: false, status: 'processed', result: { success: true } },
+                error: null,
+            })
+        },
+    }
+}
+
+function sign(body: string, secret = SECRET): string {
+    return createHmac('sha256', secret).update(body).digest('hex')
+}
+
+async function loadFixture(name: string): Promise<string> {
+    return await Deno.readTextFile(new URL(`./fixtures/${name}.json`, import.meta.url))
+}
+
+function webhookRequest(body: string, headers: Record<string, string>): Request {
+    return new Request('http://localhost/razorpay-webhook', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body,
+    })
+}
+
+const FIXTURES = [
+    { name: 'payment_authorized', event: 'payment.authorized', eventId: 'evt_authorized_1' },
+    { name: 'payment_captured', event: 'payment.captured', eventId: 'evt_captured_1' },
+    { name: 'payment_failed', event: 'payment.failed', eventId: 'evt_failed_1' },
+    { name: 'refund_processed', event: 'refund.processed', eventId: 'evt_refund_1' },
+]
+
+Deno.test('verifyWebhookSignature accepts only the exact HMAC', () => {
+    const body = '{"event":"payment.captured"}'
+    const signature = sign(body)
+
+    assert.equal(verifyWebhookSignature(body, signature, SECRET), true)
+    assert.equal(verifyWebhookSignature(body, signature.toUpperCase(), SECRET), false)
+    assert.equal(verifyWebhookSignature(body, signature.slice(0, -1), SECRET), false)
+    assert.equal(verifyWebhookSignature(body, '', SECRET), false)
+    assert.equal(verifyWebhookSignature(body + ' ', signature, SECRET), false)
+})
+
+for (const fixture of FIXTURES) {
+    Deno.test(`${fixture.event}: rejects a missing or forged signature`, async () => {
+        const body = await loadFixture(fixture.name)
+        const database = scriptedDatabase()
+        const deps = { webhookSecret: SECRET, getDatabase: () => database }
+
+        const unsigned = await handleRazorpayWebhook(
+            webhookRequest(body, { 'x-razorpay-event-id': fixture.eventId }),
+            deps
+        )
+        const forged = await handleRazorpayWebhook(
+            webhookRequest(body, {
+                'x-razorpay-event-id': fixture.eventId,
+                'x-razorpay-signature': sign(body, 'some_other_secret'),
+            }),
+            deps
+        )
+        const tampered = await handleRazorpayWebhook(
+            webhookRequest(body.replace('"amount": 45000', '"amount": 1'), {
+                'x-razorpay-event-id': fixture.eventId,
+                'x-razorpay-signature': sign(body),
+            }),
+            deps
+        )
+
+        assert.equal(unsigned.status, 401)
+        assert.equal(forged.status, 401)
+        assert.equal(tampered.status, 401)
+        assert.equal(database.calls.length, 0)
+    })
+
+    Deno.test(`${fixture.event}: hands a signed delivery to the database`, async () => {
+        const body = await loadFixture(fixture.name)
+        const database = scriptedDatabase()
+        const headers = { 'x-razorpay-event-id': fixture.eventId, 'x-razorpay-signature': sign(body) }
+
+        const response = await handleRazorpayWebhook(webhookRequest(body, headers), {
+            webhookSecret: SECRET,
+            getDatabase: () => database,
+        })
+
+        assert.equal(response.status, 200)
+        assert.deepEqual(await response.json(), {
+            received: true,
+            duplicate: false,
+            status: 'processed',
+            result: { success: true },
+        })
+
+        assert.equal(database.calls.length, 1)
+        assert.equal(database.calls[0].fn, 'process_razorpay_webhook_event')
+        assert.equal(database.calls[0].params.p_event_id, fixture.eventId)
+        assert.equal(database.calls[0].params.p_event_type, fixture.event)
+        assert.deepEqual(database.calls[0].params.p_payload, JSON.parse(body).payload)
+    })
+}
+
+Deno.test('acknowledges a redelivery the database has already processed', async () => {
+    const body = await loadFixture('payment_captured')
+    const database = scriptedDatabase({
+        'payment.captured': { duplicate: true, status: 'processed', result: { success: true, changed: true } },
+    })
+
+    const response = await handleRazorpayWebhook(
+        webhookRequest(body, { 'x-razorpay-event-id': 'evt_captured_1', 'x-razorpay-signature': sign(body) }),
+        { webhookSecret: SECRET, getDatabase: () => database }
+    )
+
+    assert.equal(response.status, 200)
+    assert.equal((await response.json()).duplicate, true)
+    assert.deepEqual(database.calls.map((c) => c.fn), ['process_razorpay_webhook_event'])
+})
+
+Deno.test('rejects a bad signature before reading the event', async () => {
+    const body = '{"event": "payment.captured", "payload": not json'
+    const database = scriptedDatabase()
+
+    const response = await handleRazorpayWebhook(
+        webhookRequest(body, { 'x-razorpay-event-id': 'evt_bad_sig', 'x-razorpay-signature': 'deadbeef' }),
+        { webhookSecret: SECRET, getDatabase: () => database }
+    )
+
+    assert.equal(response.status, 401)
+    assert.deepEqual(await response.json(), { error: 'Invalid webhook signature' })
+    assert.equal(database.calls.length, 0)
+})
+
+Deno.test('accepts an authorization delivered after its capture without a retry', async () => {
+    const captured = await loadFixture('payment_captured')
+    const authorized = await loadFixture('payment_authorized')
+    // What process_razorpay_webhook_event returns once the payment is already success
+    const database = scriptedDatabase({
+        'payment.authorized': {
+            duplicate: false,
+            status: 'ignored',
+            result: {
+                success: false,
+                changed: false,
+                status: 'success',
+                error: 'Invalid payment status transition: success -> authorized',
+            },
+        },
+    })
+    const deps = { webhookSecret: SECRET, getDatabase: () => database }
+
+    const first = await handleRazorpayWebhook(
+        webhookRequest(captured, { 'x-razorpay-event-id': 'evt_captured_1', 'x-razorpay-signature': sign(captured) }),
+        deps
+    )
+    const late = await handleRazorpayWebhook(
+        webhookRequest(authorized, { 'x-razorpay-event-id': 'evt_authorized_1', 'x-razorpay-signature': sign(authorized) }),
+        deps
+    )
+
+    assert.equal(first.status, 200)
+    assert.equal((await first.json()).status, 'processed')
+
+    assert.equal(late.status, 200)
+    const lateBody = await late.json()
+    assert.equal(lateBody.status, 'ignored')
+    assert.equal(lateBody.review, undefined)
+
+    assert.deepEqual(database.calls.map((c) => c.params.p_event_type), ['payment.captured', 'payment.authorized'])
+    assert.equal(database.calls.some((c) => c.fn === 'mark_razorpay_webhook_failed'), false)
+})
+
+Deno.test('holds a capture whose amount does not match the payment for review', async () => {
+    const body = (await loadFixture('payment_captured')).replace('"amount": 45000', '"amount": 4500')
+    const database = scriptedDatabase({
+        'payment.captured': {
+            duplicate: false,
+            status: 'review',
+            result: {
+                reason: 'Captured amount does not match the payment',
+                payment_id: 'payment-1',
+                expected_amount: 450,
+                captured_amount: 45,
+            },
+        },
+    })
+
+    const response = await handleRazorpayWebhook(
+        webhookRequest(body, { 'x-razorpay-event-id': 'evt_captured_short', 'x-razorpay-signature': sign(body) }),
+        { webhookSecret: SECRET, getDatabase: () => database }
+    )
+
+    // 200 so Razorpay stops redelivering; finance settles it from the event log
+    assert.equal(response.status, 200)
+    const responseBody = await response.json()
+    assert.equal(responseBody.review, true)
+    assert.equal(responseBody.status, 'review')
+    assert.equal(responseBody.result.captured_amount, 45)
+
+    assert.deepEqual(database.calls.map((c) => c.fn), ['process_razorpay_webhook_event'])
+    assert.equal(database.calls[0].params.p_payload.payment.entity.amount, 4500)
+})
+
+Deno.test('falls back to the event id in the body', async () => {
+    const body = JSON.stringify({ ...JSON.parse(await loadFixture('payment_captured')), id: 'evt_from_body' })
+    const database = scriptedDatabase()
+
+    const response = await handleRazorpayWebhook(
+        webhookRequest(body, { 'x-razorpay-signature': sign(body) }),
+        { webhookSecret: SECRET, getDatabase: () => database }
+    )
+
+    assert.equal(response.status, 200)
+    assert.equal(database.calls[0].params.p_event_id, 'evt_from_body')
+})
+
+Deno.test('acknowledges unhandled events without touching the database', async () => {
+    const body = JSON.stringify({ event: 'order.paid', payload: {} })
+    const database = scriptedDatabase()
+
+    const response = await handleRazorpayWebhook(
+        webhookRequest(body, { 'x-razorpay-event-id': 'evt_order_paid', 'x-razorpay-signature': sign(body) }),
+        { webhookSecret: SECRET, getDatabase: () => database }
+    )
+
+    assert.equal(response.status, 200)
+    assert.deepEqual(await response.json(), { received: true, ignored: true })
+    assert.equal(database.calls.length, 0)
+})
+
+Deno.test('marks the event failed and asks for a retry when processing errors', async () => {
+    const body = await loadFixture('payment_captured')
+    const calls: RpcCall[] = []
+    const database: WebhookDatabase = {
+        rpc(fn, params) {
+            calls.push({ fn, params })
+            return Promise.resolve(
+                fn === 'process_razorpay_webhook_event'
+                    ? { data: null, error: { message: 'deadlock detected' } }
+                    : { data: null, error: null }
+            )
+        },
+    }
+
+    const response = await handleRazorpayWebhook(
+        webhookRequest(body, { 'x-razorpay-event-id': 'evt_captured_err', 'x-razorpay-signature': sign(body) }),
+        { webhookSecret: SECRET, getDatabase: () => database }
+    )
+
+    assert.equal(response.status, 500)
+    assert.deepEqual(calls.map((c) => c.fn), ['process_razorpay_webhook_event', 'mark_razorpay_webhook_failed'])
+    assert.equal(calls[1].params.p_error, 'deadlock detected')
+})
+
+Deno.test('refuses every delivery when the secret is not configured', async () => {
+    const body = await loadFixture('payment_captured')
+    const database = scriptedDatabase()
+
+    const response = await handleRazorpayWebhook(
+        webhookRequest(body, { 'x-razorpay-event-id': 'evt_captured_1', 'x-razorpay-signature': sign(body) }),
+        { webhookSecret: undefined, getDatabase: () => database }
+    )
+
+    assert.equal(response.status, 500)
+    assert.equal(database.calls.length, 0)
+})
@@ -0,0 +1,14 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { handleRazorpayWebhook } from './handler.ts'
+
+// Receives Razorpay webhooks so payments settle even if the app never calls
+// verify-payment. Deploy with --no-verify-jwt; requests are authenticated by
+// the X-Razorpay-Signature header instead.
+serve((req) => handleRazorpayWebhook(req, {
+    webhookSecret: Deno.env.get('RAZORPAY_WEBHOOK_SECRET'),
+    getDatabase: () => createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    ),
+}))
@@ -0,0 +1,85 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface SavedSearchAlert {
+    user_id: string
+    saved_search_id: string
+    push_token: string | null
+    trip_ids: string[]
+    pickup_location: string
+    drop_location: string
+    title: string
+    message: string
+}
+
+// Runs on a schedule: matches newly published trips against saved searches
+// and sends each alert through send-push-notification.
+serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const supabaseClient = createClient(
+            Deno.env.get('SUPABASE_URL') ?? '',
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+        )
+
+        const { data, error } = await supabaseClient.rpc('collect_saved_search_alerts')
+
+        if (error) throw error
+        if (!data.success) throw new Error(data.error)
+
+        const alerts: SavedSearchAlert[] = data.alerts
+        let sent = 0
+
+        for (const alert of alerts) {
+            // A failed push shouldn't stop the other alerts; the match is already recorded
+            const { error: pushError } = await supabaseClient.functions.invoke('send-push-notification', {
+                body: {
+                    userId: alert.user_id,
+                    title: alert.title,
+                    message: alert.message,
+                    data: {
+                        type: 'saved_search',
+                        savedSearchId: alert.saved_search_id,
+                        tripIds: alert.trip_ids,
+                        pickup: alert.pickup_location,
+                        drop: alert.drop_location,
+                    },
+                    pushTokens: alert.push_token ? [alert.push_token] : [],
+                },
+            })
+
+            if (pushError) {
+                console.error(`Failed to send alert for saved search ${alert.saved_search_id}:`, pushError)
+            } else {
+                sent++
+            }
+        }
+
+        return new Response(
+            JSON.stringify({ success: true, alerts: alerts.length, sent }),
+            {
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                status: 200,
+            }
+        )
+    } catch (error) {
+        return new Response(
+            JSON.stringify({
+                success: false,
+                error: error.message,
+            }),
+            {
+                headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+                status: 400,
+            }
+        )
+    }
+})
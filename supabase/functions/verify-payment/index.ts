@@ -45,87 +45,52 @@ serve(async (req) => {
             Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
         )
 
-        // Update payment status
         const { data: payment, error: paymentError } = await supabaseClient
             .from('payments')
-            .update({
-                razorpay_payment_id,
-                status: 'success',
-                updated_at: new Date().toISOString(),
-            })
+            .select('*')
             .eq('razorpay_order_id', razorpay_order_id)
-            .select()
+            .eq('booking_id', bookingId)
             .single()
 
-        if (paymentError) {
-            throw new Error(`Failed to update payment: ${paymentError.message}`)
+        if (paymentError || !payment) {
+            throw new Error('Payment not found')
         }
 
-        // Update booking status to confirmed
-        const { error: bookingError } = await supabaseClient
-            .from('bookings')
-            .update({
-                status: 'completed',
-                payment_status: 'paid',
-                updated_at: new Date().toISOString(),
-            })
-            .eq('id', bookingId)
-
-        if (bookingError) {
-            throw new Error(`Failed to update booking: ${bookingError.message}`)
-        }
+        // Same state machine as the razorpay-webhook function: whichever arrives
+        // first applies the transition, the other sees changed = false.
+        const { data: transition, error: transitionError } = await supabaseClient.rpc('apply_payment_transition', {
+            p_payment_id: payment.id,
+            p_to_status: 'success',
+            p_razorpay_payment_id: razorpay_payment_id,
+        })
 
-        // Get booking details for notification
-        const { data: booking } = await supabaseClient
-            .from('bookings')
-            .select('*, trip:trips(*, driver:drivers(user:users(*)))')
-            .eq('id', bookingId)
-            .single()
+        if (transitionError) {
+            throw new Error(`Failed to update payment: ${transitionError.message}`)
+        }
 
-        // Create notifications
-        if (booking) {
-            // Notify passenger
-            await supabaseClient.from('notifications').insert({
-                user_id: booking.passenger_id,
-                title: 'Payment Successful',
-                message: `Your payment of ₹${payment.amount} was successful. Booking confirmed!`,
-                type: 'payment',
-                data: {
-                    booking_id: bookingId,
-                    payment_id: payment.id,
-                    amount: payment.amount,
-                },
-            })
-
-            // Notify driver
-            if (booking.trip?.driver?.user?.id) {
-                await supabaseClient.from('notifications').insert({
-                    user_id: booking.trip.driver.user.id,
-                    title: 'New Booking',
-                    message: `You have a new booking for ${booking.seats_booked} seat(s)`,
-                    type: 'booking',
-                    data: {
-                        booking_id: bookingId,
-                        passenger_id: booking.passenger_id,
-                        seats: booking.seats_booked,
-                    },
-                })
-            }
+        if (!transition.success) {
+            throw new Error(transition.error)
         }
 
-        // Update promo code usage if used
-        if (payment.promo_code_id) {
-            await supabaseClient
-                .from('promo_codes')
-                .update({ current_uses: supabaseClient.raw('current_uses + 1') })
-                .eq('id', payment.promo_code_id)
+        // Store the PDF for the tax invoice the ledger posting just issued
+        const { data: invoice } = await supabaseClient
+            .from('tax_invoices')
+            .select('id')
+            .eq('booking_id', payment.booking_id)
+            .eq('document_type', 'invoice')
+            .order('issued_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+
+        if (invoice) {
+            await supabaseClient.functions.invoke('generate-invoice', { body: { invoiceId: invoice.id } })
         }
 
         return new Response(
             JSON.stringify({
                 success: true,
                 message: 'Payment verified successfully',
-                payment,
+                payment: { ...payment, status: transition.status, razorpay_payment_id },
             }),
             {
                 headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -52,28 +52,29 @@ serve(async (req) => {
             throw new Error('Transaction not found')
         }
 
-        // Update transaction status
-        await supabaseClient
-            .from('wallet_transactions')
-            .update({
-                status: 'completed',
-                updated_at: new Date().toISOString(),
-            })
-            .eq('id', transaction.id)
-
-        // Update wallet balance
         const { data: wallet } = await supabaseClient
             .from('wallets')
-            .select('balance')
+            .select('user_id')
             .eq('id', transaction.wallet_id)
             .single()
 
-        const newBalance = parseFloat(wallet.balance) + parseFloat(transaction.amount)
+        if (!wallet || wallet.user_id !== user.id) {
+            throw new Error('Transaction not found')
+        }
 
-        await supabaseClient
-            .from('wallets')
-            .update({ balance: newBalance })
-            .eq('id', transaction.wallet_id)
+        // Credit the wallet through the ledger; completes the pending transaction row
+        const { data: result, error: topupError } = await supabaseClient.rpc('wallet_topup', {
+            p_user_id: user.id,
+            p_amount: transaction.amount,
+            p_reference_id: razorpayOrderId,
+            p_razorpay_payment_id: razorpayPaymentId,
+        })
+
+        if (topupError) {
+            throw new Error(topupError.message)
+        }
+
+        const newBalance = result.new_balance
 
         // Send notification
         await supabaseClient.from('notifications').insert({
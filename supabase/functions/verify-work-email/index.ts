@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const SENDGRID_API_KEY = Deno.env.get('SENDGRID_API_KEY') || ''
+const SENDGRID_FROM_EMAIL = Deno.env.get('SENDGRID_FROM_EMAIL') || 'noreply@tcsygo.com'
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders })
+    }
+
+    try {
+        const supabaseClient = createClient(
+            Deno.env.get('SUPABASE_URL') ?? '',
+            Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+        )
+
+        // Get user from JWT
+        const authHeader = req.headers.get('Authorization')
+        if (!authHeader) {
+            throw new Error('Authentication required')
+        }
+
+        const token = authHeader.replace('Bearer ', '')
+        const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token)
+
+        if (userError || !user) {
+            throw new Error('Unauthorized')
+        }
+
+        const { workEmail } = await req.json()
+
+        if (!workEmail) {
+            throw new Error('Missing required field: workEmail')
+        }
+
+        // The database checks the domain and creates the pending membership;
+        // the token only ever travels in the email below
+        const { data: request, error: requestError } = await supabaseClient.rpc('request_organization_membership', {
+            p_work_email: workEmail,
+            p_actor_id: user.id,
+        })
+
+        if (requestError) {
+            throw new Error(requestError.message)
+        }
+
+        if (!request?.success) {
+            throw new Error(request?.error || 'Could not start verification')
+        }
+
+        const siteUrl = Deno.env.get('SITE_URL') ?? req.headers.get('origin') ?? ''
+        const verifyLink = `${siteUrl}/organization/verify?token=${request.token}`
+
+        const emailResponse = await fetch('https://api.sendgrid.com/v3/mail/send', {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${SENDGRID_API_KEY}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                personalizations: [
+                    {
+                        to: [{ email: request.work_email }],
+                        subject: `Confirm your ${request.organization_name} email`,
+                    },
+                ],
+                from: {
+                    email: SENDGRID_FROM_EMAIL,
+                    name: 'TCSYGO',
+                },
+                content: [
+                    {
+                        type: 'text/html',
+                        value: `
+              <!DOCTYPE html>
+              <html>
+              <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+                <h1 style="color: #667eea; margin: 0 0 20px 0;">TCSYGO</h1>
+                <p style="font-size: 16px;">
+                  Confirm this is your work email to join <strong>${request.organization_name}</strong>
+                  on TCSYGO and ride with verified colleagues.
+                </p>
+                <p style="text-align: center; margin: 30px 0;">
+                  <a href="${verifyLink}" style="display: inline-block; background: #667eea; color: white; padding: 15px 40px; text-decoration: none; border-radius: 25px; font-size: 16px; font-weight: bold;">
+                    Confirm Work Email
+                  </a>
+                </p>
+                <p style="font-size: 14px; color: #666;">
+                  Open the link while signed in to TCSYGO. It expires in 24 hours.
+                  If you didn't ask for this, you can ignore this email.
+                </p>
+              </body>
+              </html>
+            `,
+                    },
+                ],
+            }),
+        })
+
+        if (!emailResponse.ok) {
+            const errorText = await emailResponse.text()
+            console.error('SendGrid error:', errorText)
+            throw new Error('Failed to send verification email')
+        }
+
+        return new Response(
+            JSON.stringify({
+                success: true,
+                organizationName: request.organization_name,
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+        )
+    } catch (error) {
+        return new Response(
+            JSON.stringify({ success: false, error: error.message }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+    }
+})
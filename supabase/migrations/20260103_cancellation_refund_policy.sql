@@ -0,0 +1,403 @@
+-- ============================================
+-- Cancellation & Refund Policy Engine
+-- Description: Per trip-type cancellation policies in system_settings,
+-- server-side refund calculation, cancellation records and driver
+-- cancellation tracking.
+-- ============================================
+
+-- 1. SYSTEM SETTINGS
+CREATE TABLE IF NOT EXISTS public.system_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  platform_fee_percentage TEXT DEFAULT '10',
+  maintenance_mode BOOLEAN DEFAULT FALSE,
+  support_email TEXT,
+  support_phone TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Tiers are evaluated top-down: the first tier whose min_hours is <= the hours
+-- remaining before departure decides the refund percentage. No match = no refund.
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS cancellation_policies JSONB DEFAULT '{
+  "carpool": {
+    "tiers": [
+      {"min_hours": 24, "refund_percent": 100},
+      {"min_hours": 6, "refund_percent": 50},
+      {"min_hours": 0, "refund_percent": 0}
+    ]
+  },
+  "instant": {
+    "tiers": [
+      {"min_hours": 0, "refund_percent": 100}
+    ]
+  }
+}'::jsonb;
+
+INSERT INTO public.system_settings (platform_fee_percentage)
+SELECT '10'
+WHERE NOT EXISTS (SELECT 1 FROM public.system_settings);
+
+-- Settings drive refunds and fees, so clients may only read them
+ALTER TABLE public.system_settings ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.system_settings FROM anon, authenticated;
+GRANT SELECT ON public.system_settings TO anon, authenticated;
+GRANT INSERT, UPDATE ON public.system_settings TO authenticated;
+GRANT ALL ON public.system_settings TO service_role;
+
+DROP POLICY IF EXISTS "Anyone can read system settings" ON public.system_settings;
+CREATE POLICY "Anyone can read system settings" ON public.system_settings FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins manage system settings" ON public.system_settings;
+CREATE POLICY "Admins manage system settings" ON public.system_settings FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+) WITH CHECK (
+  EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- 2. TRIP TYPE & DRIVER RECORD
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS trip_type TEXT DEFAULT 'carpool';
+ALTER TABLE public.trips DROP CONSTRAINT IF EXISTS trips_trip_type_check;
+ALTER TABLE public.trips ADD CONSTRAINT trips_trip_type_check CHECK (trip_type IN ('carpool', 'instant'));
+
+-- Trips created from an accepted ride request are instant rides
+UPDATE public.trips t
+SET trip_type = 'instant'
+WHERE EXISTS (SELECT 1 FROM public.ride_requests rr WHERE rr.trip_id = t.id);
+
+ALTER TABLE public.drivers ADD COLUMN IF NOT EXISTS cancellation_count INTEGER DEFAULT 0;
+ALTER TABLE public.drivers ADD COLUMN IF NOT EXISTS last_cancellation_at TIMESTAMPTZ;
+
+-- 3. CANCELLATION RECORDS
+CREATE TABLE IF NOT EXISTS public.booking_cancellations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  cancelled_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('passenger', 'driver', 'admin')),
+  reason TEXT,
+  trip_type TEXT,
+  hours_before_departure DECIMAL(10,2),
+  paid_amount DECIMAL(10,2) DEFAULT 0,
+  refund_percent DECIMAL(5,2) DEFAULT 0,
+  refund_amount DECIMAL(10,2) DEFAULT 0,
+  refund_method TEXT DEFAULT 'none' CHECK (refund_method IN ('none', 'wallet', 'razorpay')),
+  refund_status TEXT DEFAULT 'not_applicable' CHECK (refund_status IN ('not_applicable', 'pending', 'processed', 'failed')),
+  razorpay_payment_id TEXT,
+  razorpay_refund_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_cancellations_trip ON public.booking_cancellations(trip_id);
+CREATE INDEX IF NOT EXISTS idx_booking_cancellations_refund_status ON public.booking_cancellations(refund_status);
+
+-- Written only by apply_booking_cancellation
+REVOKE ALL ON public.booking_cancellations FROM anon, authenticated;
+GRANT SELECT ON public.booking_cancellations TO authenticated;
+GRANT ALL ON public.booking_cancellations TO service_role;
+ALTER TABLE public.booking_cancellations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "View own booking cancellations" ON public.booking_cancellations;
+CREATE POLICY "View own booking cancellations" ON public.booking_cancellations FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.bookings b
+    WHERE b.id = booking_cancellations.booking_id
+    AND (
+      b.passenger_id = auth.uid()
+      OR EXISTS (SELECT 1 FROM public.trips t JOIN public.drivers d ON d.id = t.driver_id WHERE t.id = b.trip_id AND d.user_id = auth.uid())
+    )
+  )
+  OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP TRIGGER IF EXISTS update_booking_cancellations_updated_at ON public.booking_cancellations;
+CREATE TRIGGER update_booking_cancellations_updated_at BEFORE UPDATE ON public.booking_cancellations FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 4. REFUND CALCULATION
+-- Pure calculation, no side effects. Used for both the UI quote and the actual cancellation.
+CREATE OR REPLACE FUNCTION public.calculate_cancellation_refund(
+  p_booking_id UUID,
+  p_actor_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_actor_role TEXT;
+  v_policy JSONB;
+  v_tier JSONB;
+  v_hours NUMERIC;
+  v_paid NUMERIC := 0;
+  v_percent NUMERIC := 0;
+BEGIN
+  SELECT b.*, t.departure_time, COALESCE(t.trip_type, 'carpool') AS trip_type, d.user_id AS driver_user_id
+  INTO v_booking
+  FROM public.bookings b
+  LEFT JOIN public.trips t ON t.id = b.trip_id
+  LEFT JOIN public.drivers d ON d.id = t.driver_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.passenger_id = p_actor_id THEN
+    v_actor_role := 'passenger';
+  ELSIF v_booking.driver_user_id = p_actor_id THEN
+    v_actor_role := 'driver';
+  ELSIF EXISTS (SELECT 1 FROM public.users WHERE id = p_actor_id AND role = 'admin') THEN
+    v_actor_role := 'admin';
+  ELSE
+    RAISE EXCEPTION 'Not allowed to cancel this booking';
+  END IF;
+
+  v_hours := ROUND((EXTRACT(EPOCH FROM (v_booking.departure_time - NOW())) / 3600)::numeric, 2);
+
+  IF v_booking.payment_status IN ('paid', 'success', 'PAID') THEN
+    v_paid := COALESCE(v_booking.total_amount, 0);
+  END IF;
+
+  IF v_actor_role IN ('driver', 'admin') THEN
+    -- Driver/admin initiated cancellations always refund in full
+    v_percent := 100;
+  ELSE
+    SELECT cancellation_policies -> v_booking.trip_type INTO v_policy
+    FROM public.system_settings
+    ORDER BY updated_at DESC NULLS LAST
+    LIMIT 1;
+
+    IF v_policy IS NOT NULL AND v_hours IS NOT NULL THEN
+      FOR v_tier IN SELECT * FROM jsonb_array_elements(v_policy -> 'tiers') LOOP
+        IF v_hours >= (v_tier ->> 'min_hours')::numeric THEN
+          v_percent := (v_tier ->> 'refund_percent')::numeric;
+          EXIT;
+        END IF;
+      END LOOP;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'actor_role', v_actor_role,
+    'trip_type', v_booking.trip_type,
+    'hours_before_departure', v_hours,
+    'paid_amount', v_paid,
+    'refund_percent', v_percent,
+    'refund_amount', ROUND(v_paid * v_percent / 100, 2)
+  );
+END;
+$$;
+
+-- Quote for the signed-in user, shown before they confirm a cancellation
+CREATE OR REPLACE FUNCTION public.get_cancellation_quote(p_booking_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT public.calculate_cancellation_refund(p_booking_id, auth.uid());
+$$;
+
+-- 5. APPLY CANCELLATION
+-- Cancels one booking, records the refund and credits the wallet when the
+-- refund goes there. Razorpay refunds are left 'pending' for the
+-- process-cancellation edge function to pay out.
+CREATE OR REPLACE FUNCTION public.apply_booking_cancellation(
+  p_booking_id UUID,
+  p_actor_id UUID,
+  p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_quote JSONB;
+  v_booking RECORD;
+  v_payment RECORD;
+  v_refund NUMERIC;
+  v_method TEXT := 'none';
+  v_status TEXT := 'not_applicable';
+  v_wallet_id UUID;
+  v_cancellation_id UUID;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF v_booking.status IN ('cancelled', 'completed', 'rejected') THEN
+    RAISE EXCEPTION 'Booking is already %', v_booking.status;
+  END IF;
+
+  v_quote := public.calculate_cancellation_refund(p_booking_id, p_actor_id);
+  v_refund := (v_quote ->> 'refund_amount')::numeric;
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE booking_id = p_booking_id AND status = 'success'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_refund > 0 THEN
+    IF COALESCE(v_booking.payment_method, '') <> 'wallet' AND v_payment.razorpay_payment_id IS NOT NULL THEN
+      v_method := 'razorpay';
+      v_status := 'pending';
+    ELSE
+      -- Wallet and cash payments are refunded to the passenger's wallet
+      INSERT INTO public.wallets (user_id, balance) VALUES (v_booking.passenger_id, 0)
+      ON CONFLICT (user_id) DO NOTHING;
+
+      UPDATE public.wallets
+      SET balance = balance + v_refund, updated_at = NOW()
+      WHERE user_id = v_booking.passenger_id
+      RETURNING id INTO v_wallet_id;
+
+      INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status)
+      VALUES (v_wallet_id, 'credit', v_refund, 'Cancellation refund', p_booking_id::text, 'refund', 'completed');
+
+      v_method := 'wallet';
+      v_status := 'processed';
+    END IF;
+
+    IF v_payment.id IS NOT NULL THEN
+      UPDATE public.payments
+      SET refund_status = CASE WHEN v_status = 'processed' THEN 'completed' ELSE 'processing' END,
+          refund_amount = v_refund,
+          updated_at = NOW()
+      WHERE id = v_payment.id;
+    END IF;
+  END IF;
+
+  UPDATE public.bookings
+  SET status = 'cancelled',
+      payment_status = CASE WHEN v_status = 'processed' AND v_refund > 0 THEN 'refunded' ELSE payment_status END
+  WHERE id = p_booking_id;
+
+  INSERT INTO public.booking_cancellations (
+    booking_id, trip_id, cancelled_by, actor_role, reason, trip_type,
+    hours_before_departure, paid_amount, refund_percent, refund_amount,
+    refund_method, refund_status, razorpay_payment_id
+  ) VALUES (
+    p_booking_id, v_booking.trip_id, p_actor_id, v_quote ->> 'actor_role', p_reason, v_quote ->> 'trip_type',
+    (v_quote ->> 'hours_before_departure')::numeric, (v_quote ->> 'paid_amount')::numeric,
+    (v_quote ->> 'refund_percent')::numeric, v_refund,
+    v_method, v_status, v_payment.razorpay_payment_id
+  )
+  RETURNING id INTO v_cancellation_id;
+
+  IF v_quote ->> 'actor_role' <> 'passenger' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      v_booking.passenger_id,
+      'Booking Cancelled',
+      CASE WHEN v_refund > 0
+        THEN 'Your booking was cancelled by the ' || (v_quote ->> 'actor_role') || '. A full refund of ₹' || v_refund || ' has been initiated.'
+        ELSE 'Your booking was cancelled by the ' || (v_quote ->> 'actor_role') || '.'
+      END,
+      'booking',
+      jsonb_build_object('booking_id', p_booking_id, 'refund_amount', v_refund)
+    );
+  END IF;
+
+  RETURN v_quote || jsonb_build_object(
+    'cancellation_id', v_cancellation_id,
+    'refund_method', v_method,
+    'refund_status', v_status,
+    'razorpay_payment_id', v_payment.razorpay_payment_id
+  );
+END;
+$$;
+
+-- Cancel a single booking (passenger, driver of the trip, or admin)
+CREATE OR REPLACE FUNCTION public.cancel_booking(
+  p_booking_id UUID,
+  p_actor_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  v_result := public.apply_booking_cancellation(p_booking_id, p_actor_id, p_reason);
+
+  IF v_result ->> 'actor_role' = 'driver' THEN
+    UPDATE public.drivers
+    SET cancellation_count = COALESCE(cancellation_count, 0) + 1,
+        last_cancellation_at = NOW()
+    WHERE user_id = p_actor_id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'cancellations', jsonb_build_array(v_result));
+END;
+$$;
+
+-- Cancel a whole trip: every active booking is refunded in full
+CREATE OR REPLACE FUNCTION public.cancel_trip(
+  p_trip_id UUID,
+  p_actor_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_trip RECORD;
+  v_is_admin BOOLEAN;
+  v_booking_id UUID;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  SELECT t.*, d.user_id AS driver_user_id INTO v_trip
+  FROM public.trips t
+  JOIN public.drivers d ON d.id = t.driver_id
+  WHERE t.id = p_trip_id
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  v_is_admin := EXISTS (SELECT 1 FROM public.users WHERE id = p_actor_id AND role = 'admin');
+
+  IF v_trip.driver_user_id <> p_actor_id AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to cancel this trip';
+  END IF;
+
+  IF v_trip.status IN ('cancelled', 'completed') THEN
+    RAISE EXCEPTION 'Trip is already %', v_trip.status;
+  END IF;
+
+  FOR v_booking_id IN
+    SELECT id FROM public.bookings
+    WHERE trip_id = p_trip_id AND status NOT IN ('cancelled', 'completed', 'rejected')
+  LOOP
+    v_results := v_results || jsonb_build_array(public.apply_booking_cancellation(v_booking_id, p_actor_id, p_reason));
+  END LOOP;
+
+  UPDATE public.trips SET status = 'cancelled' WHERE id = p_trip_id;
+
+  IF NOT v_is_admin THEN
+    UPDATE public.drivers
+    SET cancellation_count = COALESCE(cancellation_count, 0) + 1,
+        last_cancellation_at = NOW()
+    WHERE id = v_trip.driver_id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'cancellations', v_results);
+END;
+$$;
+
+-- The actor id is trusted by these functions, so only the service role
+-- (process-cancellation edge function) may call them.
+REVOKE ALL ON FUNCTION public.calculate_cancellation_refund(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.apply_booking_cancellation(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.cancel_booking(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.cancel_trip(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_cancellation_refund(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.apply_booking_cancellation(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_booking(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_trip(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_cancellation_quote(UUID) TO authenticated, service_role;
@@ -0,0 +1,1031 @@
+-- ============================================
+-- Double-Entry Ledger
+-- Description: Append-only ledger behind wallets, booking payments, refunds,
+-- tips and driver earnings. wallets.balance is derived from the ledger and
+-- can no longer be written directly.
+-- ============================================
+
+-- 1. TABLES
+CREATE TABLE IF NOT EXISTS public.ledger_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_type TEXT NOT NULL CHECK (account_type IN (
+    'passenger_wallet',  -- liability: money we hold for a passenger
+    'driver_payable',    -- liability: earnings owed to a driver
+    'platform_fees',     -- revenue
+    'gst_payable',       -- liability: tax collected
+    'payment_gateway',   -- asset: money received through Razorpay
+    'opening_balance'    -- equity: balances carried over from before the ledger
+  )),
+  owner_user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+  normal_balance TEXT NOT NULL CHECK (normal_balance IN ('debit', 'credit')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One account per (type, owner); system accounts have no owner
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_accounts_type_owner
+  ON public.ledger_accounts(account_type, COALESCE(owner_user_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+CREATE TABLE IF NOT EXISTS public.ledger_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  description TEXT NOT NULL,
+  reference_type TEXT,
+  reference_id TEXT,
+  idempotency_key TEXT UNIQUE,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID REFERENCES public.ledger_transactions(id) ON DELETE RESTRICT NOT NULL,
+  account_id UUID REFERENCES public.ledger_accounts(id) ON DELETE RESTRICT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account ON public.ledger_entries(account_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction ON public.ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_reference ON public.ledger_transactions(reference_type, reference_id);
+
+ALTER TABLE public.wallet_transactions ADD COLUMN IF NOT EXISTS ledger_transaction_id UUID REFERENCES public.ledger_transactions(id);
+ALTER TABLE public.wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_reference_type_check;
+ALTER TABLE public.wallet_transactions ADD CONSTRAINT wallet_transactions_reference_type_check
+CHECK (reference_type IN ('booking', 'refund', 'topup', 'tip', 'payout', 'opening_balance', 'promotion'));
+
+GRANT SELECT ON public.ledger_accounts TO authenticated, service_role;
+GRANT SELECT ON public.ledger_transactions TO authenticated, service_role;
+GRANT SELECT ON public.ledger_entries TO authenticated, service_role;
+GRANT ALL ON public.ledger_accounts, public.ledger_transactions, public.ledger_entries TO service_role;
+
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins view ledger accounts" ON public.ledger_accounts;
+CREATE POLICY "Admins view ledger accounts" ON public.ledger_accounts FOR SELECT USING (
+  owner_user_id = auth.uid() OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Admins view ledger transactions" ON public.ledger_transactions;
+CREATE POLICY "Admins view ledger transactions" ON public.ledger_transactions FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Admins view ledger entries" ON public.ledger_entries;
+CREATE POLICY "Admins view ledger entries" ON public.ledger_entries FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- 2. APPEND-ONLY & BALANCE GUARDS
+CREATE OR REPLACE FUNCTION public.prevent_ledger_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Ledger is append-only: % on % is not allowed. Post a reversing transaction instead.', TG_OP, TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON public.ledger_entries;
+CREATE TRIGGER ledger_entries_append_only BEFORE UPDATE OR DELETE ON public.ledger_entries
+FOR EACH ROW EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+DROP TRIGGER IF EXISTS ledger_transactions_append_only ON public.ledger_transactions;
+CREATE TRIGGER ledger_transactions_append_only BEFORE UPDATE OR DELETE ON public.ledger_transactions
+FOR EACH ROW EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+-- Checked at commit so all entries of a transaction can be inserted first
+CREATE OR REPLACE FUNCTION public.check_ledger_transaction_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_debits NUMERIC;
+  v_credits NUMERIC;
+BEGIN
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)
+  INTO v_debits, v_credits
+  FROM public.ledger_entries
+  WHERE transaction_id = NEW.transaction_id;
+
+  IF v_debits <> v_credits THEN
+    RAISE EXCEPTION 'Ledger transaction % is unbalanced (debits %, credits %)', NEW.transaction_id, v_debits, v_credits;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_entries_balanced ON public.ledger_entries;
+CREATE CONSTRAINT TRIGGER ledger_entries_balanced
+AFTER INSERT ON public.ledger_entries
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW EXECUTE FUNCTION public.check_ledger_transaction_balanced();
+
+-- 3. ACCOUNTS & POSTING
+CREATE OR REPLACE FUNCTION public.get_ledger_account(
+  p_account_type TEXT,
+  p_owner_user_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM public.ledger_accounts
+  WHERE account_type = p_account_type
+    AND owner_user_id IS NOT DISTINCT FROM p_owner_user_id;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.ledger_accounts (account_type, owner_user_id, normal_balance)
+    VALUES (
+      p_account_type,
+      p_owner_user_id,
+      CASE WHEN p_account_type = 'payment_gateway' THEN 'debit' ELSE 'credit' END
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO v_account_id;
+
+    IF v_account_id IS NULL THEN
+      SELECT id INTO v_account_id
+      FROM public.ledger_accounts
+      WHERE account_type = p_account_type
+        AND owner_user_id IS NOT DISTINCT FROM p_owner_user_id;
+    END IF;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ledger_account_balance(p_account_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(SUM(
+    CASE WHEN e.direction = a.normal_balance THEN e.amount ELSE -e.amount END
+  ), 0)
+  FROM public.ledger_accounts a
+  LEFT JOIN public.ledger_entries e ON e.account_id = a.id
+  WHERE a.id = p_account_id;
+$$;
+
+-- p_entries: [{"account_id": uuid, "direction": "debit"|"credit", "amount": number}, ...]
+-- Returns the existing transaction when the idempotency key was already posted.
+CREATE OR REPLACE FUNCTION public.post_ledger_transaction(
+  p_description TEXT,
+  p_reference_type TEXT,
+  p_reference_id TEXT,
+  p_entries JSONB,
+  p_idempotency_key TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_entry JSONB;
+  v_debits NUMERIC := 0;
+  v_credits NUMERIC := 0;
+BEGIN
+  IF p_idempotency_key IS NOT NULL THEN
+    SELECT id INTO v_transaction_id FROM public.ledger_transactions WHERE idempotency_key = p_idempotency_key;
+    IF v_transaction_id IS NOT NULL THEN
+      RETURN v_transaction_id;
+    END IF;
+  END IF;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_entries) LOOP
+    IF (v_entry ->> 'direction') = 'debit' THEN
+      v_debits := v_debits + (v_entry ->> 'amount')::numeric;
+    ELSE
+      v_credits := v_credits + (v_entry ->> 'amount')::numeric;
+    END IF;
+  END LOOP;
+
+  IF v_debits <= 0 OR v_debits <> v_credits THEN
+    RAISE EXCEPTION 'Unbalanced ledger transaction (debits %, credits %)', v_debits, v_credits;
+  END IF;
+
+  INSERT INTO public.ledger_transactions (description, reference_type, reference_id, idempotency_key, created_by)
+  VALUES (p_description, p_reference_type, p_reference_id, p_idempotency_key, auth.uid())
+  RETURNING id INTO v_transaction_id;
+
+  INSERT INTO public.ledger_entries (transaction_id, account_id, direction, amount)
+  SELECT v_transaction_id, (e ->> 'account_id')::uuid, e ->> 'direction', (e ->> 'amount')::numeric
+  FROM jsonb_array_elements(p_entries) e
+  WHERE (e ->> 'amount')::numeric > 0;
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- 4. DERIVED WALLET BALANCES
+CREATE OR REPLACE VIEW public.wallet_balances AS
+SELECT
+  w.id AS wallet_id,
+  w.user_id,
+  COALESCE(public.ledger_account_balance(a.id), 0) AS balance
+FROM public.wallets w
+LEFT JOIN public.ledger_accounts a
+  ON a.account_type = 'passenger_wallet' AND a.owner_user_id = w.user_id;
+
+GRANT SELECT ON public.wallet_balances TO authenticated, service_role;
+
+-- wallets.balance is a cache of the ledger, refreshed whenever a wallet account is posted to
+CREATE OR REPLACE FUNCTION public.sync_wallet_balance_from_ledger()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_owner UUID;
+BEGIN
+  SELECT owner_user_id INTO v_owner
+  FROM public.ledger_accounts
+  WHERE id = NEW.account_id AND account_type = 'passenger_wallet';
+
+  IF v_owner IS NOT NULL THEN
+    PERFORM set_config('ledger.syncing', 'on', true);
+
+    INSERT INTO public.wallets (user_id, balance) VALUES (v_owner, 0)
+    ON CONFLICT (user_id) DO NOTHING;
+
+    UPDATE public.wallets
+    SET balance = public.ledger_account_balance(NEW.account_id), updated_at = NOW()
+    WHERE user_id = v_owner;
+
+    PERFORM set_config('ledger.syncing', 'off', true);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS ledger_entries_sync_wallet ON public.ledger_entries;
+CREATE TRIGGER ledger_entries_sync_wallet AFTER INSERT ON public.ledger_entries
+FOR EACH ROW EXECUTE FUNCTION public.sync_wallet_balance_from_ledger();
+
+CREATE OR REPLACE FUNCTION public.guard_wallet_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('ledger.syncing', true), 'off') <> 'on' THEN
+    IF TG_OP = 'INSERT' AND COALESCE(NEW.balance, 0) <> 0 THEN
+      RAISE EXCEPTION 'wallets.balance is derived from the ledger; new wallets start at 0';
+    ELSIF TG_OP = 'UPDATE' AND NEW.balance IS DISTINCT FROM OLD.balance THEN
+      RAISE EXCEPTION 'wallets.balance is derived from the ledger; post a ledger transaction instead';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 5. OPENING BALANCES
+-- Carry existing wallet balances into the ledger before the guard is switched on
+DO $$
+DECLARE
+  v_wallet RECORD;
+  v_transaction_id UUID;
+  v_opening UUID;
+BEGIN
+  v_opening := public.get_ledger_account('opening_balance');
+
+  FOR v_wallet IN SELECT * FROM public.wallets WHERE balance > 0 LOOP
+    v_transaction_id := public.post_ledger_transaction(
+      'Opening wallet balance',
+      'opening_balance',
+      v_wallet.id::text,
+      jsonb_build_array(
+        jsonb_build_object('account_id', v_opening, 'direction', 'debit', 'amount', v_wallet.balance),
+        jsonb_build_object('account_id', public.get_ledger_account('passenger_wallet', v_wallet.user_id), 'direction', 'credit', 'amount', v_wallet.balance)
+      ),
+      'opening_balance:' || v_wallet.id
+    );
+  END LOOP;
+
+  RAISE NOTICE 'Opening balances posted to ledger.';
+END $$;
+
+DROP TRIGGER IF EXISTS wallets_balance_guard ON public.wallets;
+CREATE TRIGGER wallets_balance_guard BEFORE INSERT OR UPDATE ON public.wallets
+FOR EACH ROW EXECUTE FUNCTION public.guard_wallet_balance();
+
+-- 6. BUSINESS OPERATIONS
+-- Every balance change goes through one of these functions, each posting a
+-- single balanced ledger transaction plus its wallet_transactions history row.
+
+-- Split a booking amount (GST inclusive) into driver share, platform fee and GST
+CREATE OR REPLACE FUNCTION public.split_booking_amount(p_amount NUMERIC)
+RETURNS TABLE (driver_share NUMERIC, platform_fee NUMERIC, gst NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_fee_percent NUMERIC := 10;
+BEGIN
+  SELECT COALESCE(NULLIF(platform_fee_percentage, '')::numeric, 10) INTO v_fee_percent
+  FROM public.system_settings
+  ORDER BY updated_at DESC NULLS LAST
+  LIMIT 1;
+
+  gst := ROUND(p_amount * 5 / 105, 2);
+  platform_fee := ROUND((p_amount - gst) * COALESCE(v_fee_percent, 10) / 100, 2);
+  driver_share := p_amount - gst - platform_fee;
+  RETURN NEXT;
+END;
+$$;
+
+-- Ledger legs crediting (or with p_direction = 'debit', reversing) a booking's earnings split
+CREATE OR REPLACE FUNCTION public.booking_split_entries(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_direction TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_driver_user_id UUID;
+  v_split RECORD;
+BEGIN
+  SELECT d.user_id INTO v_driver_user_id
+  FROM public.bookings b
+  JOIN public.trips t ON t.id = b.trip_id
+  JOIN public.drivers d ON d.id = t.driver_id
+  WHERE b.id = p_booking_id;
+
+  IF v_driver_user_id IS NULL THEN
+    RAISE EXCEPTION 'No driver found for booking %', p_booking_id;
+  END IF;
+
+  SELECT * INTO v_split FROM public.split_booking_amount(p_amount);
+
+  RETURN jsonb_build_array(
+    jsonb_build_object('account_id', public.get_ledger_account('driver_payable', v_driver_user_id), 'direction', p_direction, 'amount', v_split.driver_share),
+    jsonb_build_object('account_id', public.get_ledger_account('platform_fees'), 'direction', p_direction, 'amount', v_split.platform_fee),
+    jsonb_build_object('account_id', public.get_ledger_account('gst_payable'), 'direction', p_direction, 'amount', v_split.gst)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_service_or_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT auth.uid() IS NULL OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin');
+$$;
+
+-- 6.1 Wallet top-up confirmed by Razorpay
+CREATE OR REPLACE FUNCTION public.wallet_topup(
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_reference_id TEXT,
+  p_razorpay_payment_id TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_wallet_account UUID;
+  v_transaction_id UUID;
+  v_wallet_id UUID;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  v_wallet_account := public.get_ledger_account('passenger_wallet', p_user_id);
+
+  v_transaction_id := public.post_ledger_transaction(
+    'Wallet top-up',
+    'topup',
+    p_reference_id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.get_ledger_account('payment_gateway'), 'direction', 'debit', 'amount', p_amount),
+      jsonb_build_object('account_id', v_wallet_account, 'direction', 'credit', 'amount', p_amount)
+    ),
+    'topup:' || p_reference_id
+  );
+
+  SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = p_user_id;
+
+  -- Complete the pending row created with the Razorpay order, or record a new one
+  UPDATE public.wallet_transactions
+  SET status = 'completed', razorpay_payment_id = p_razorpay_payment_id, ledger_transaction_id = v_transaction_id
+  WHERE wallet_id = v_wallet_id AND reference_id = p_reference_id AND ledger_transaction_id IS NULL;
+
+  IF NOT FOUND AND NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE ledger_transaction_id = v_transaction_id) THEN
+    INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, razorpay_payment_id, ledger_transaction_id)
+    VALUES (v_wallet_id, 'credit', p_amount, 'Wallet Recharge', p_reference_id, 'topup', 'completed', p_razorpay_payment_id, v_transaction_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'new_balance', public.ledger_account_balance(v_wallet_account)
+  );
+END;
+$$;
+
+-- 6.2 Booking paid from the passenger's wallet
+CREATE OR REPLACE FUNCTION public.wallet_pay_booking(
+  p_booking_id UUID,
+  p_amount NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_amount NUMERIC;
+  v_wallet_account UUID;
+  v_transaction_id UUID;
+  v_wallet_id UUID;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> v_booking.passenger_id THEN
+    RAISE EXCEPTION 'Not allowed to pay for this booking';
+  END IF;
+
+  -- The booking total is the price; p_amount is kept for older callers and ignored
+  v_amount := v_booking.total_amount;
+
+  IF v_booking.status IN ('cancelled', 'rejected') THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Booking is ' || v_booking.status);
+  END IF;
+  v_wallet_account := public.get_ledger_account('passenger_wallet', v_booking.passenger_id);
+
+  IF EXISTS (SELECT 1 FROM public.ledger_transactions WHERE idempotency_key = 'booking_payment:' || p_booking_id) THEN
+    RETURN jsonb_build_object('success', true, 'already_paid', true, 'new_balance', public.ledger_account_balance(v_wallet_account));
+  END IF;
+
+  IF public.ledger_account_balance(v_wallet_account) < v_amount THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Insufficient wallet balance');
+  END IF;
+
+  v_transaction_id := public.post_ledger_transaction(
+    'Ride payment from wallet',
+    'booking',
+    p_booking_id::text,
+    jsonb_build_array(jsonb_build_object('account_id', v_wallet_account, 'direction', 'debit', 'amount', v_amount))
+      || public.booking_split_entries(p_booking_id, v_amount, 'credit'),
+    'booking_payment:' || p_booking_id
+  );
+
+  SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = v_booking.passenger_id;
+
+  INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, ledger_transaction_id)
+  VALUES (v_wallet_id, 'debit', v_amount, 'Ride payment', p_booking_id::text, 'booking', 'completed', v_transaction_id);
+
+  UPDATE public.bookings
+  SET payment_status = 'paid', payment_method = 'wallet'
+  WHERE id = p_booking_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'new_balance', public.ledger_account_balance(v_wallet_account)
+  );
+END;
+$$;
+
+-- 6.3 Booking paid through Razorpay
+CREATE OR REPLACE FUNCTION public.gateway_pay_booking(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_razorpay_payment_id TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN public.post_ledger_transaction(
+    'Ride payment via Razorpay',
+    'booking',
+    p_booking_id::text,
+    jsonb_build_array(jsonb_build_object('account_id', public.get_ledger_account('payment_gateway'), 'direction', 'debit', 'amount', p_amount))
+      || public.booking_split_entries(p_booking_id, p_amount, 'credit'),
+    'gateway_payment:' || p_razorpay_payment_id
+  );
+END;
+$$;
+
+-- 6.4 Refund a booking to the passenger's wallet
+CREATE OR REPLACE FUNCTION public.wallet_refund_booking(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT 'Ride refund'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_passenger_id UUID;
+  v_wallet_account UUID;
+  v_transaction_id UUID;
+  v_wallet_id UUID;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT passenger_id INTO v_passenger_id FROM public.bookings WHERE id = p_booking_id;
+  v_wallet_account := public.get_ledger_account('passenger_wallet', v_passenger_id);
+
+  v_transaction_id := public.post_ledger_transaction(
+    p_description,
+    'refund',
+    p_booking_id::text,
+    public.booking_split_entries(p_booking_id, p_amount, 'debit')
+      || jsonb_build_array(jsonb_build_object('account_id', v_wallet_account, 'direction', 'credit', 'amount', p_amount)),
+    'refund:' || p_booking_id
+  );
+
+  SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = v_passenger_id;
+
+  IF NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE ledger_transaction_id = v_transaction_id) THEN
+    INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, ledger_transaction_id)
+    VALUES (v_wallet_id, 'credit', p_amount, p_description, p_booking_id::text, 'refund', 'completed', v_transaction_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'new_balance', public.ledger_account_balance(v_wallet_account)
+  );
+END;
+$$;
+
+-- 6.5 Refund a Razorpay payment back to the card/UPI it came from
+CREATE OR REPLACE FUNCTION public.gateway_refund_booking(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_razorpay_refund_id TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN public.post_ledger_transaction(
+    'Ride refund via Razorpay',
+    'refund',
+    p_booking_id::text,
+    public.booking_split_entries(p_booking_id, p_amount, 'debit')
+      || jsonb_build_array(jsonb_build_object('account_id', public.get_ledger_account('payment_gateway'), 'direction', 'credit', 'amount', p_amount)),
+    'gateway_refund:' || p_razorpay_refund_id
+  );
+END;
+$$;
+
+-- 6.6 Tip the driver from the wallet (no platform fee or GST on tips)
+CREATE OR REPLACE FUNCTION public.wallet_tip_driver(
+  p_booking_id UUID,
+  p_amount NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_wallet_account UUID;
+  v_transaction_id UUID;
+  v_wallet_id UUID;
+BEGIN
+  SELECT b.passenger_id, d.user_id AS driver_user_id INTO v_booking
+  FROM public.bookings b
+  JOIN public.trips t ON t.id = b.trip_id
+  JOIN public.drivers d ON d.id = t.driver_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> v_booking.passenger_id THEN
+    RAISE EXCEPTION 'Not allowed to tip for this booking';
+  END IF;
+
+  v_wallet_account := public.get_ledger_account('passenger_wallet', v_booking.passenger_id);
+
+  IF public.ledger_account_balance(v_wallet_account) < p_amount THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Insufficient wallet balance');
+  END IF;
+
+  v_transaction_id := public.post_ledger_transaction(
+    'Driver tip',
+    'tip',
+    p_booking_id::text,
+    jsonb_build_array(
+      jsonb_build_object('account_id', v_wallet_account, 'direction', 'debit', 'amount', p_amount),
+      jsonb_build_object('account_id', public.get_ledger_account('driver_payable', v_booking.driver_user_id), 'direction', 'credit', 'amount', p_amount)
+    )
+  );
+
+  SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = v_booking.passenger_id;
+
+  INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, ledger_transaction_id)
+  VALUES (v_wallet_id, 'debit', p_amount, 'Tip to driver', p_booking_id::text, 'tip', 'completed', v_transaction_id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'new_balance', public.ledger_account_balance(v_wallet_account)
+  );
+END;
+$$;
+
+-- 6.7 Platform-funded credit (referral rewards, goodwill adjustments)
+-- Internal posting; wallet_credit and claim_referral_reward check the caller
+CREATE OR REPLACE FUNCTION public.post_wallet_credit(
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT,
+  p_reference_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_wallet_account UUID;
+  v_transaction_id UUID;
+  v_wallet_id UUID;
+BEGIN
+  v_wallet_account := public.get_ledger_account('passenger_wallet', p_user_id);
+
+  v_transaction_id := public.post_ledger_transaction(
+    p_description,
+    'promotion',
+    p_reference_id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.get_ledger_account('platform_fees'), 'direction', 'debit', 'amount', p_amount),
+      jsonb_build_object('account_id', v_wallet_account, 'direction', 'credit', 'amount', p_amount)
+    ),
+    'promotion:' || p_user_id || ':' || p_reference_id
+  );
+
+  SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = p_user_id;
+
+  IF NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE ledger_transaction_id = v_transaction_id) THEN
+    INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, ledger_transaction_id)
+    VALUES (v_wallet_id, 'credit', p_amount, p_description, p_reference_id, 'promotion', 'completed', v_transaction_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'new_balance', public.ledger_account_balance(v_wallet_account)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.wallet_credit(
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT,
+  p_reference_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN public.post_wallet_credit(p_user_id, p_amount, p_description, p_reference_id);
+END;
+$$;
+
+-- 6.8 Referral rewards
+-- A referral is recorded at signup and pays both users once the referred
+-- user completes a ride. The amount is fixed here, not by the client.
+CREATE TABLE IF NOT EXISTS public.referral_rewards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  referred_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  reward_amount DECIMAL(10,2) NOT NULL DEFAULT 50,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed')),
+  claimed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (referrer_id <> referred_id)
+);
+
+ALTER TABLE public.referral_rewards ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.referral_rewards FROM anon, authenticated;
+GRANT SELECT, INSERT ON public.referral_rewards TO authenticated;
+GRANT ALL ON public.referral_rewards TO service_role;
+
+DROP POLICY IF EXISTS "Users view own referral rewards" ON public.referral_rewards;
+CREATE POLICY "Users view own referral rewards" ON public.referral_rewards FOR SELECT USING (
+  referrer_id = auth.uid() OR referred_id = auth.uid()
+);
+
+DROP POLICY IF EXISTS "Users record their own referral" ON public.referral_rewards;
+CREATE POLICY "Users record their own referral" ON public.referral_rewards FOR INSERT WITH CHECK (
+  referred_id = auth.uid()
+);
+
+CREATE OR REPLACE FUNCTION public.guard_referral_reward()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only new riders can be referred
+  IF EXISTS (SELECT 1 FROM public.bookings WHERE passenger_id = NEW.referred_id AND status = 'completed')
+    OR EXISTS (SELECT 1 FROM public.ride_requests WHERE passenger_id = NEW.referred_id AND status = 'completed') THEN
+    RAISE EXCEPTION 'Referral codes can only be used before your first ride';
+  END IF;
+
+  NEW.reward_amount := 50;
+  NEW.status := 'pending';
+  NEW.claimed_at := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_referral_reward ON public.referral_rewards;
+CREATE TRIGGER trigger_guard_referral_reward
+BEFORE INSERT ON public.referral_rewards
+FOR EACH ROW EXECUTE FUNCTION public.guard_referral_reward();
+
+CREATE OR REPLACE FUNCTION public.claim_referral_reward(p_reward_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_reward public.referral_rewards%ROWTYPE;
+BEGIN
+  SELECT * INTO v_reward FROM public.referral_rewards WHERE id = p_reward_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reward not found');
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND (auth.uid() IS NULL OR auth.uid() NOT IN (v_reward.referrer_id, v_reward.referred_id)) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed');
+  END IF;
+
+  IF v_reward.status = 'claimed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Reward already claimed');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.bookings WHERE passenger_id = v_reward.referred_id AND status = 'completed')
+    AND NOT EXISTS (SELECT 1 FROM public.ride_requests WHERE passenger_id = v_reward.referred_id AND status = 'completed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The referred rider has not completed a ride yet');
+  END IF;
+
+  PERFORM public.post_wallet_credit(v_reward.referrer_id, v_reward.reward_amount, 'Referral reward', 'referral_' || v_reward.id);
+  PERFORM public.post_wallet_credit(v_reward.referred_id, v_reward.reward_amount, 'Welcome bonus from referral', 'welcome_' || v_reward.id);
+
+  UPDATE public.referral_rewards
+  SET status = 'claimed', claimed_at = NOW()
+  WHERE id = v_reward.id;
+
+  RETURN jsonb_build_object('success', true, 'amount', v_reward.reward_amount);
+END;
+$$;
+
+-- 7. CANCELLATION REFUNDS THROUGH THE LEDGER
+CREATE OR REPLACE FUNCTION public.apply_booking_cancellation(
+  p_booking_id UUID,
+  p_actor_id UUID,
+  p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_quote JSONB;
+  v_booking RECORD;
+  v_payment RECORD;
+  v_refund NUMERIC;
+  v_method TEXT := 'none';
+  v_status TEXT := 'not_applicable';
+  v_cancellation_id UUID;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF v_booking.status IN ('cancelled', 'completed', 'rejected') THEN
+    RAISE EXCEPTION 'Booking is already %', v_booking.status;
+  END IF;
+
+  v_quote := public.calculate_cancellation_refund(p_booking_id, p_actor_id);
+  v_refund := (v_quote ->> 'refund_amount')::numeric;
+
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE booking_id = p_booking_id AND status = 'success'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_refund > 0 THEN
+    IF COALESCE(v_booking.payment_method, '') <> 'wallet' AND v_payment.razorpay_payment_id IS NOT NULL THEN
+      v_method := 'razorpay';
+      v_status := 'pending';
+    ELSE
+      -- Wallet and cash payments are refunded to the passenger's wallet
+      PERFORM public.wallet_refund_booking(p_booking_id, v_refund, 'Cancellation refund');
+      v_method := 'wallet';
+      v_status := 'processed';
+    END IF;
+
+    IF v_payment.id IS NOT NULL THEN
+      UPDATE public.payments
+      SET refund_status = CASE WHEN v_status = 'processed' THEN 'completed' ELSE 'processing' END,
+          refund_amount = v_refund,
+          updated_at = NOW()
+      WHERE id = v_payment.id;
+    END IF;
+  END IF;
+
+  UPDATE public.bookings
+  SET status = 'cancelled',
+      payment_status = CASE WHEN v_status = 'processed' AND v_refund > 0 THEN 'refunded' ELSE payment_status END
+  WHERE id = p_booking_id;
+
+  INSERT INTO public.booking_cancellations (
+    booking_id, trip_id, cancelled_by, actor_role, reason, trip_type,
+    hours_before_departure, paid_amount, refund_percent, refund_amount,
+    refund_method, refund_status, razorpay_payment_id
+  ) VALUES (
+    p_booking_id, v_booking.trip_id, p_actor_id, v_quote ->> 'actor_role', p_reason, v_quote ->> 'trip_type',
+    (v_quote ->> 'hours_before_departure')::numeric, (v_quote ->> 'paid_amount')::numeric,
+    (v_quote ->> 'refund_percent')::numeric, v_refund,
+    v_method, v_status, v_payment.razorpay_payment_id
+  )
+  RETURNING id INTO v_cancellation_id;
+
+  IF v_quote ->> 'actor_role' <> 'passenger' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      v_booking.passenger_id,
+      'Booking Cancelled',
+      CASE WHEN v_refund > 0
+        THEN 'Your booking was cancelled by the ' || (v_quote ->> 'actor_role') || '. A full refund of ₹' || v_refund || ' has been initiated.'
+        ELSE 'Your booking was cancelled by the ' || (v_quote ->> 'actor_role') || '.'
+      END,
+      'booking',
+      jsonb_build_object('booking_id', p_booking_id, 'refund_amount', v_refund)
+    );
+  END IF;
+
+  RETURN v_quote || jsonb_build_object(
+    'cancellation_id', v_cancellation_id,
+    'refund_method', v_method,
+    'refund_status', v_status,
+    'razorpay_payment_id', v_payment.razorpay_payment_id
+  );
+END;
+$$;
+
+-- 8. RECONCILIATION
+-- Wallet cache vs ledger, unbalanced transactions and totals per account type
+CREATE OR REPLACE FUNCTION public.get_ledger_reconciliation()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_wallet_drift JSONB;
+  v_unbalanced JSONB;
+  v_accounts JSONB;
+  v_total_debits NUMERIC;
+  v_total_credits NUMERIC;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'wallet_id', w.id,
+    'user_id', w.user_id,
+    'full_name', u.full_name,
+    'stored_balance', w.balance,
+    'ledger_balance', wb.balance,
+    'drift', w.balance - wb.balance
+  )), '[]'::jsonb)
+  INTO v_wallet_drift
+  FROM public.wallets w
+  JOIN public.wallet_balances wb ON wb.wallet_id = w.id
+  LEFT JOIN public.users u ON u.id = w.user_id
+  WHERE w.balance <> wb.balance;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'transaction_id', t.id,
+    'description', t.description,
+    'debits', s.debits,
+    'credits', s.credits
+  )), '[]'::jsonb)
+  INTO v_unbalanced
+  FROM public.ledger_transactions t
+  JOIN (
+    SELECT transaction_id,
+      COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0) AS debits,
+      COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) AS credits
+    FROM public.ledger_entries
+    GROUP BY transaction_id
+  ) s ON s.transaction_id = t.id
+  WHERE s.debits <> s.credits;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'account_type', x.account_type,
+    'accounts', x.accounts,
+    'balance', x.balance
+  ) ORDER BY x.account_type), '[]'::jsonb)
+  INTO v_accounts
+  FROM (
+    SELECT a.account_type, COUNT(DISTINCT a.id) AS accounts,
+      COALESCE(SUM(CASE WHEN e.direction = a.normal_balance THEN e.amount ELSE -e.amount END), 0) AS balance
+    FROM public.ledger_accounts a
+    LEFT JOIN public.ledger_entries e ON e.account_id = a.id
+    GROUP BY a.account_type
+  ) x;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)
+  INTO v_total_debits, v_total_credits
+  FROM public.ledger_entries;
+
+  RETURN jsonb_build_object(
+    'generated_at', NOW(),
+    'total_debits', v_total_debits,
+    'total_credits', v_total_credits,
+    'is_balanced', v_total_debits = v_total_credits
+      AND jsonb_array_length(v_unbalanced) = 0
+      AND jsonb_array_length(v_wallet_drift) = 0,
+    'wallet_drift', v_wallet_drift,
+    'unbalanced_transactions', v_unbalanced,
+    'accounts', v_accounts
+  );
+END;
+$$;
+
+-- 9. PERMISSIONS
+-- Low-level posting is internal; clients use the business operations above
+REVOKE ALL ON FUNCTION public.post_ledger_transaction(TEXT, TEXT, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_ledger_account(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.booking_split_entries(UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.apply_booking_cancellation(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.wallet_topup(UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.gateway_pay_booking(UUID, NUMERIC, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.gateway_refund_booking(UUID, NUMERIC, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.wallet_refund_booking(UUID, NUMERIC, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.wallet_pay_booking(UUID, NUMERIC) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.wallet_tip_driver(UUID, NUMERIC) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.wallet_credit(UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.post_wallet_credit(UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.guard_referral_reward() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_referral_reward(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_ledger_reconciliation() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_ledger_transaction(TEXT, TEXT, TEXT, JSONB, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_ledger_account(TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.booking_split_entries(UUID, NUMERIC, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.apply_booking_cancellation(UUID, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.wallet_topup(UUID, NUMERIC, TEXT, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.gateway_pay_booking(UUID, NUMERIC, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.gateway_refund_booking(UUID, NUMERIC, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.wallet_refund_booking(UUID, NUMERIC, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.wallet_pay_booking(UUID, NUMERIC) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.wallet_tip_driver(UUID, NUMERIC) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.wallet_credit(UUID, NUMERIC, TEXT, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.post_wallet_credit(UUID, NUMERIC, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_referral_reward(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_ledger_reconciliation() TO authenticated, service_role;
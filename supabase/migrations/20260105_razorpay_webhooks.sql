@@ -0,0 +1,355 @@
+-- ============================================
+-- Razorpay Webhooks & Payment State Machine
+-- Description: Strict payment status transitions shared by verify-payment and
+-- the razorpay-webhook function, plus an event log that makes every webhook
+-- event apply exactly once.
+-- ============================================
+
+-- 1. PAYMENT COLUMNS
+-- Columns written by create-payment-order / verify-payment that were never declared
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS razorpay_order_id TEXT;
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS razorpay_payment_id TEXT;
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS platform_fee DECIMAL(10,2);
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS payment_method TEXT;
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) DEFAULT 0;
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES public.promo_codes(id);
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_payments_razorpay_order ON public.payments(razorpay_order_id);
+CREATE INDEX IF NOT EXISTS idx_payments_razorpay_payment ON public.payments(razorpay_payment_id);
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_status_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_status_check
+CHECK (status IN ('pending', 'authorized', 'success', 'failed', 'partially_refunded', 'refunded'));
+
+-- 2. STATE MACHINE
+--   pending -> authorized -> success -> partially_refunded -> refunded
+--   pending/authorized -> failed -> success (a retried payment on the same order)
+-- Repeating the current status is always allowed so replays are no-ops.
+CREATE OR REPLACE FUNCTION public.is_valid_payment_transition(p_from TEXT, p_to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(p_from, 'pending') = p_to OR (COALESCE(p_from, 'pending'), p_to) IN (
+    ('pending', 'authorized'),
+    ('pending', 'success'),
+    ('pending', 'failed'),
+    ('authorized', 'success'),
+    ('authorized', 'failed'),
+    ('failed', 'success'),
+    ('success', 'partially_refunded'),
+    ('success', 'refunded'),
+    ('partially_refunded', 'refunded')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_payment_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.is_valid_payment_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Invalid payment status transition: % -> %', COALESCE(OLD.status, 'pending'), NEW.status;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payments_status_transition ON public.payments;
+CREATE TRIGGER payments_status_transition BEFORE UPDATE OF status ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.enforce_payment_transition();
+
+-- Move a payment to a new status and apply its side effects (booking status,
+-- ledger posting, notifications). Returns changed = false for replays and
+-- success = false for transitions the state machine rejects.
+CREATE OR REPLACE FUNCTION public.apply_payment_transition(
+  p_payment_id UUID,
+  p_to_status TEXT,
+  p_razorpay_payment_id TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment RECORD;
+  v_booking RECORD;
+  v_driver_user_id UUID;
+BEGIN
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status = p_to_status THEN
+    RETURN jsonb_build_object('success', true, 'changed', false, 'status', v_payment.status, 'payment_id', v_payment.id);
+  END IF;
+
+  IF NOT public.is_valid_payment_transition(v_payment.status, p_to_status) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'changed', false,
+      'status', v_payment.status,
+      'payment_id', v_payment.id,
+      'error', 'Invalid payment status transition: ' || COALESCE(v_payment.status, 'pending') || ' -> ' || p_to_status
+    );
+  END IF;
+
+  UPDATE public.payments
+  SET status = p_to_status,
+      razorpay_payment_id = COALESCE(p_razorpay_payment_id, razorpay_payment_id),
+      failure_reason = CASE WHEN p_to_status = 'failed' THEN p_failure_reason ELSE failure_reason END,
+      updated_at = NOW()
+  WHERE id = p_payment_id;
+
+  SELECT * INTO v_booking FROM public.bookings WHERE id = v_payment.booking_id;
+
+  IF p_to_status = 'success' THEN
+    -- A post-trip payment completes the booking; a prepaid booking keeps its status
+    UPDATE public.bookings
+    SET payment_status = 'paid',
+        status = CASE WHEN status = 'payment_pending' THEN 'completed' ELSE status END
+    WHERE id = v_payment.booking_id;
+
+    PERFORM public.gateway_pay_booking(
+      v_payment.booking_id,
+      v_payment.amount,
+      COALESCE(p_razorpay_payment_id, v_payment.razorpay_payment_id)
+    );
+
+    IF v_payment.promo_code_id IS NOT NULL THEN
+      UPDATE public.promo_codes
+      SET current_uses = COALESCE(current_uses, 0) + 1
+      WHERE id = v_payment.promo_code_id;
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      v_booking.passenger_id,
+      'Payment Successful',
+      'Your payment of ₹' || v_payment.amount || ' was successful. Booking confirmed!',
+      'payment',
+      jsonb_build_object('booking_id', v_payment.booking_id, 'payment_id', v_payment.id, 'amount', v_payment.amount)
+    );
+
+    SELECT d.user_id INTO v_driver_user_id
+    FROM public.trips t
+    JOIN public.drivers d ON d.id = t.driver_id
+    WHERE t.id = v_booking.trip_id;
+
+    IF v_driver_user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, title, message, type, data)
+      VALUES (
+        v_driver_user_id,
+        'New Booking',
+        'You have a new booking for ' || v_booking.seats_booked || ' seat(s)',
+        'booking',
+        jsonb_build_object('booking_id', v_payment.booking_id, 'passenger_id', v_booking.passenger_id, 'seats', v_booking.seats_booked)
+      );
+    END IF;
+  ELSIF p_to_status = 'failed' THEN
+    UPDATE public.bookings
+    SET payment_status = 'failed'
+    WHERE id = v_payment.booking_id AND payment_status IS DISTINCT FROM 'paid';
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      v_booking.passenger_id,
+      'Payment Failed',
+      'Your payment of ₹' || v_payment.amount || ' could not be completed. Please try again.',
+      'payment',
+      jsonb_build_object('booking_id', v_payment.booking_id, 'payment_id', v_payment.id)
+    );
+  ELSIF p_to_status = 'refunded' THEN
+    UPDATE public.bookings
+    SET payment_status = 'refunded'
+    WHERE id = v_payment.booking_id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'changed', true, 'status', p_to_status, 'payment_id', v_payment.id);
+END;
+$$;
+
+-- 3. WEBHOOK EVENT LOG
+CREATE TABLE IF NOT EXISTS public.razorpay_webhook_events (
+  event_id TEXT PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+  result JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_razorpay_webhook_events_type ON public.razorpay_webhook_events(event_type, received_at DESC);
+
+GRANT ALL ON public.razorpay_webhook_events TO service_role;
+GRANT SELECT ON public.razorpay_webhook_events TO authenticated;
+
+ALTER TABLE public.razorpay_webhook_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins view webhook events" ON public.razorpay_webhook_events;
+CREATE POLICY "Admins view webhook events" ON public.razorpay_webhook_events FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- 4. EVENT PROCESSING
+-- Runs in a single transaction: the event row and its effects commit together,
+-- so a redelivered event id is skipped. Failed events may be retried.
+CREATE OR REPLACE FUNCTION public.process_razorpay_webhook_event(
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_payload JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_existing RECORD;
+  v_entity JSONB;
+  v_payment RECORD;
+  v_topup RECORD;
+  v_result JSONB;
+  v_status TEXT := 'processed';
+  v_refund_total NUMERIC;
+BEGIN
+  SELECT * INTO v_existing FROM public.razorpay_webhook_events WHERE event_id = p_event_id FOR UPDATE;
+
+  IF FOUND AND v_existing.status <> 'failed' THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', v_existing.status, 'result', v_existing.result);
+  END IF;
+
+  IF FOUND THEN
+    UPDATE public.razorpay_webhook_events
+    SET status = 'processing', attempts = attempts + 1, error = NULL
+    WHERE event_id = p_event_id;
+  ELSE
+    INSERT INTO public.razorpay_webhook_events (event_id, event_type, payload)
+    VALUES (p_event_id, p_event_type, p_payload);
+  END IF;
+
+  IF p_event_type IN ('payment.captured', 'payment.failed') THEN
+    v_entity := p_payload -> 'payment' -> 'entity';
+
+    SELECT * INTO v_payment
+    FROM public.payments
+    WHERE razorpay_order_id = v_entity ->> 'order_id'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_payment.id IS NOT NULL THEN
+      v_result := public.apply_payment_transition(
+        v_payment.id,
+        CASE WHEN p_event_type = 'payment.captured' THEN 'success' ELSE 'failed' END,
+        v_entity ->> 'id',
+        v_entity ->> 'error_description'
+      );
+
+      IF NOT (v_result ->> 'success')::boolean THEN
+        v_status := 'ignored';
+      END IF;
+    ELSE
+      -- Not a booking payment: check for a pending wallet top-up on this order
+      SELECT wt.*, w.user_id INTO v_topup
+      FROM public.wallet_transactions wt
+      JOIN public.wallets w ON w.id = wt.wallet_id
+      WHERE wt.reference_id = v_entity ->> 'order_id' AND wt.reference_type = 'topup'
+      LIMIT 1;
+
+      IF v_topup.id IS NULL THEN
+        v_status := 'ignored';
+        v_result := jsonb_build_object('reason', 'No payment or top-up for order ' || (v_entity ->> 'order_id'));
+      ELSIF p_event_type = 'payment.captured' THEN
+        v_result := public.wallet_topup(v_topup.user_id, v_topup.amount, v_topup.reference_id, v_entity ->> 'id');
+      ELSE
+        UPDATE public.wallet_transactions
+        SET status = 'failed'
+        WHERE id = v_topup.id AND status = 'pending';
+        v_result := jsonb_build_object('wallet_transaction_id', v_topup.id, 'status', 'failed');
+      END IF;
+    END IF;
+  ELSIF p_event_type = 'refund.processed' THEN
+    v_entity := p_payload -> 'refund' -> 'entity';
+
+    SELECT * INTO v_payment
+    FROM public.payments
+    WHERE razorpay_payment_id = v_entity ->> 'payment_id'
+    LIMIT 1;
+
+    IF v_payment.id IS NULL THEN
+      v_status := 'ignored';
+      v_result := jsonb_build_object('reason', 'No payment for ' || (v_entity ->> 'payment_id'));
+    ELSE
+      -- Idempotent with the posting made by process-cancellation for the same refund id
+      PERFORM public.gateway_refund_booking(
+        v_payment.booking_id,
+        (v_entity ->> 'amount')::numeric / 100,
+        v_entity ->> 'id'
+      );
+
+      UPDATE public.booking_cancellations
+      SET refund_status = 'processed', razorpay_refund_id = v_entity ->> 'id'
+      WHERE booking_id = v_payment.booking_id AND refund_method = 'razorpay';
+
+      SELECT COALESCE(SUM(e.amount), 0) INTO v_refund_total
+      FROM public.ledger_transactions t
+      JOIN public.ledger_entries e ON e.transaction_id = t.id
+      JOIN public.ledger_accounts a ON a.id = e.account_id
+      WHERE t.reference_type = 'refund'
+        AND t.reference_id = v_payment.booking_id::text
+        AND t.idempotency_key LIKE 'gateway_refund:%'
+        AND a.account_type = 'payment_gateway';
+
+      UPDATE public.payments
+      SET refund_status = 'completed', refund_amount = v_refund_total, updated_at = NOW()
+      WHERE id = v_payment.id;
+
+      v_result := public.apply_payment_transition(
+        v_payment.id,
+        CASE WHEN v_refund_total >= v_payment.amount THEN 'refunded' ELSE 'partially_refunded' END
+      );
+    END IF;
+  ELSE
+    v_status := 'ignored';
+    v_result := jsonb_build_object('reason', 'Unhandled event type');
+  END IF;
+
+  UPDATE public.razorpay_webhook_events
+  SET status = v_status, result = v_result, processed_at = NOW()
+  WHERE event_id = p_event_id;
+
+  RETURN jsonb_build_object('duplicate', false, 'status', v_status, 'result', v_result);
+END;
+$$;
+
+-- Record a processing failure outside the rolled-back transaction so it can be retried
+CREATE OR REPLACE FUNCTION public.mark_razorpay_webhook_failed(
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_payload JSONB,
+  p_error TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO public.razorpay_webhook_events (event_id, event_type, payload, status, error)
+  VALUES (p_event_id, p_event_type, p_payload, 'failed', p_error)
+  ON CONFLICT (event_id) DO UPDATE
+  SET status = 'failed', error = EXCLUDED.error, attempts = razorpay_webhook_events.attempts + 1
+  WHERE razorpay_webhook_events.status IN ('processing', 'failed');
+END;
+$$;
+
+-- 5. PERMISSIONS
+REVOKE ALL ON FUNCTION public.apply_payment_transition(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.process_razorpay_webhook_event(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.mark_razorpay_webhook_failed(TEXT, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_payment_transition(UUID, TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.process_razorpay_webhook_event(TEXT, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_razorpay_webhook_failed(TEXT, TEXT, JSONB, TEXT) TO service_role;
@@ -0,0 +1,516 @@
+-- ============================================
+-- Driver Payouts & Settlement Statements
+-- Description: Payout requests, weekly settlement batches built from each
+-- driver's unsettled ledger balance (ride earnings net of platform fee and
+-- GST, plus tips, minus refunds) and per-payout settlement statements.
+-- ============================================
+
+-- 1. TABLES
+CREATE TABLE IF NOT EXISTS public.payout_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  payout_count INTEGER DEFAULT 0,
+  total_amount DECIMAL(12,2) DEFAULT 0,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS public.driver_payouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id UUID REFERENCES public.drivers(id) ON DELETE CASCADE NOT NULL,
+  batch_id UUID REFERENCES public.payout_batches(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('request', 'weekly')),
+  status TEXT NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'processing', 'paid', 'failed')),
+  period_start TIMESTAMPTZ,
+  period_end TIMESTAMPTZ NOT NULL,
+  gross_fares DECIMAL(12,2) NOT NULL DEFAULT 0,
+  platform_fees DECIMAL(12,2) NOT NULL DEFAULT 0,
+  gst DECIMAL(12,2) NOT NULL DEFAULT 0,
+  tips DECIMAL(12,2) NOT NULL DEFAULT 0,
+  refunds DECIMAL(12,2) NOT NULL DEFAULT 0,
+  net_amount DECIMAL(12,2) NOT NULL CHECK (net_amount > 0),
+  transfer_reference TEXT,
+  failure_reason TEXT,
+  ledger_transaction_id UUID REFERENCES public.ledger_transactions(id),
+  requested_at TIMESTAMPTZ DEFAULT NOW(),
+  paid_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_payouts_driver ON public.driver_payouts(driver_id, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_driver_payouts_batch ON public.driver_payouts(batch_id);
+
+-- One line per driver_payable ledger entry; an entry can only be settled once
+CREATE TABLE IF NOT EXISTS public.driver_payout_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payout_id UUID REFERENCES public.driver_payouts(id) ON DELETE CASCADE NOT NULL,
+  ledger_entry_id UUID REFERENCES public.ledger_entries(id) NOT NULL UNIQUE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  item_type TEXT NOT NULL CHECK (item_type IN ('ride', 'tip', 'refund', 'adjustment')),
+  description TEXT,
+  gross_amount DECIMAL(12,2) NOT NULL,
+  platform_fee DECIMAL(12,2) NOT NULL DEFAULT 0,
+  gst DECIMAL(12,2) NOT NULL DEFAULT 0,
+  net_amount DECIMAL(12,2) NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_payout_items_payout ON public.driver_payout_items(payout_id);
+
+GRANT ALL ON public.payout_batches, public.driver_payouts, public.driver_payout_items TO service_role;
+GRANT SELECT ON public.payout_batches, public.driver_payouts, public.driver_payout_items TO authenticated;
+
+ALTER TABLE public.payout_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_payouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.driver_payout_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins view payout batches" ON public.payout_batches;
+CREATE POLICY "Admins view payout batches" ON public.payout_batches FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Drivers view own payouts" ON public.driver_payouts;
+CREATE POLICY "Drivers view own payouts" ON public.driver_payouts FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.drivers WHERE id = driver_payouts.driver_id AND user_id = auth.uid())
+  OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Drivers view own payout items" ON public.driver_payout_items;
+CREATE POLICY "Drivers view own payout items" ON public.driver_payout_items FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.driver_payouts p
+    JOIN public.drivers d ON d.id = p.driver_id
+    WHERE p.id = driver_payout_items.payout_id AND d.user_id = auth.uid()
+  )
+  OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP TRIGGER IF EXISTS update_driver_payouts_updated_at ON public.driver_payouts;
+CREATE TRIGGER update_driver_payouts_updated_at BEFORE UPDATE ON public.driver_payouts
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. SETTLEMENT
+-- Unsettled driver_payable entries with the platform fee and GST legs of the
+-- same ledger transaction, signed from the driver's point of view.
+CREATE OR REPLACE FUNCTION public.driver_unsettled_items(
+  p_driver_id UUID,
+  p_until TIMESTAMPTZ
+)
+RETURNS TABLE (
+  ledger_entry_id UUID,
+  booking_id UUID,
+  item_type TEXT,
+  description TEXT,
+  gross_amount NUMERIC,
+  platform_fee NUMERIC,
+  gst NUMERIC,
+  net_amount NUMERIC,
+  occurred_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    e.id,
+    CASE WHEN t.reference_id ~ '^[0-9a-f-]{36}$' THEN t.reference_id::uuid END,
+    CASE t.reference_type
+      WHEN 'booking' THEN 'ride'
+      WHEN 'tip' THEN 'tip'
+      WHEN 'refund' THEN 'refund'
+      ELSE 'adjustment'
+    END,
+    t.description,
+    x.net + x.fee + x.tax,
+    x.fee,
+    x.tax,
+    x.net,
+    e.created_at
+  FROM public.drivers d
+  JOIN public.ledger_accounts a ON a.account_type = 'driver_payable' AND a.owner_user_id = d.user_id
+  JOIN public.ledger_entries e ON e.account_id = a.id
+  JOIN public.ledger_transactions t ON t.id = e.transaction_id
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE WHEN e.direction = 'credit' THEN e.amount ELSE -e.amount END AS net,
+      COALESCE(SUM(CASE WHEN o.direction = 'credit' THEN o.amount ELSE -o.amount END)
+        FILTER (WHERE oa.account_type = 'platform_fees'), 0) AS fee,
+      COALESCE(SUM(CASE WHEN o.direction = 'credit' THEN o.amount ELSE -o.amount END)
+        FILTER (WHERE oa.account_type = 'gst_payable'), 0) AS tax
+    FROM public.ledger_entries o
+    JOIN public.ledger_accounts oa ON oa.id = o.account_id
+    WHERE o.transaction_id = t.id AND o.id <> e.id
+  ) x
+  WHERE d.id = p_driver_id
+    AND e.created_at < p_until
+    AND NOT EXISTS (SELECT 1 FROM public.driver_payout_items i WHERE i.ledger_entry_id = e.id)
+    -- Payout postings settle the balance; they are not statement lines
+    AND t.reference_type IS DISTINCT FROM 'payout';
+$$;
+
+-- Claim a driver's unsettled items into a new payout. Returns NULL when the
+-- net is not positive (e.g. refunds exceed earnings); the balance carries over.
+CREATE OR REPLACE FUNCTION public.build_driver_payout(
+  p_driver_id UUID,
+  p_source TEXT,
+  p_until TIMESTAMPTZ,
+  p_batch_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_totals RECORD;
+  v_payout_id UUID;
+BEGIN
+  -- Serialise settlement per driver so an entry is never claimed twice
+  PERFORM 1 FROM public.drivers WHERE id = p_driver_id FOR UPDATE;
+
+  SELECT
+    MIN(occurred_at) AS first_at,
+    COALESCE(SUM(gross_amount) FILTER (WHERE item_type = 'ride'), 0) AS gross_fares,
+    COALESCE(SUM(platform_fee), 0) AS platform_fees,
+    COALESCE(SUM(gst), 0) AS gst,
+    COALESCE(SUM(net_amount) FILTER (WHERE item_type = 'tip'), 0) AS tips,
+    COALESCE(-SUM(gross_amount) FILTER (WHERE item_type = 'refund'), 0) AS refunds,
+    COALESCE(SUM(net_amount), 0) AS net_amount
+  INTO v_totals
+  FROM public.driver_unsettled_items(p_driver_id, p_until);
+
+  IF v_totals.net_amount <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.driver_payouts (
+    driver_id, batch_id, source, status, period_start, period_end,
+    gross_fares, platform_fees, gst, tips, refunds, net_amount
+  ) VALUES (
+    p_driver_id, p_batch_id, p_source,
+    CASE WHEN p_batch_id IS NULL THEN 'requested' ELSE 'processing' END,
+    v_totals.first_at, p_until,
+    v_totals.gross_fares, v_totals.platform_fees, v_totals.gst, v_totals.tips, v_totals.refunds, v_totals.net_amount
+  )
+  RETURNING id INTO v_payout_id;
+
+  INSERT INTO public.driver_payout_items (
+    payout_id, ledger_entry_id, booking_id, item_type, description,
+    gross_amount, platform_fee, gst, net_amount, occurred_at
+  )
+  SELECT v_payout_id, ledger_entry_id, booking_id, item_type, description,
+    gross_amount, platform_fee, gst, net_amount, occurred_at
+  FROM public.driver_unsettled_items(p_driver_id, p_until);
+
+  RETURN v_payout_id;
+END;
+$$;
+
+-- 3. PAYOUT REQUESTS
+-- A driver asks for everything earned so far; it is paid with the next batch
+CREATE OR REPLACE FUNCTION public.request_payout(p_driver_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payout_id UUID;
+  v_amount NUMERIC;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.drivers WHERE id = p_driver_id AND user_id = auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Only the driver can request this payout');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.driver_payouts WHERE driver_id = p_driver_id AND status IN ('requested', 'processing')) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'A payout is already in progress');
+  END IF;
+
+  v_payout_id := public.build_driver_payout(p_driver_id, 'request', NOW());
+
+  IF v_payout_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'message', 'No earnings available for payout');
+  END IF;
+
+  SELECT net_amount INTO v_amount FROM public.driver_payouts WHERE id = v_payout_id;
+
+  RETURN jsonb_build_object('success', true, 'payout_id', v_payout_id, 'amount', v_amount);
+END;
+$$;
+
+-- 4. WEEKLY BATCHES
+-- Settles every driver's balance up to p_period_end (a Monday by default) and
+-- picks up outstanding requests. Safe to call repeatedly for the same week.
+CREATE OR REPLACE FUNCTION public.create_weekly_payout_batch(
+  p_period_end DATE DEFAULT date_trunc('week', NOW())::date
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_batch_id UUID;
+  v_driver RECORD;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT id INTO v_batch_id FROM public.payout_batches WHERE period_end = p_period_end;
+
+  IF v_batch_id IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'batch_id', v_batch_id, 'created', false);
+  END IF;
+
+  INSERT INTO public.payout_batches (period_start, period_end, created_by)
+  VALUES (p_period_end - 7, p_period_end, auth.uid())
+  RETURNING id INTO v_batch_id;
+
+  UPDATE public.driver_payouts
+  SET batch_id = v_batch_id, status = 'processing'
+  WHERE status = 'requested' AND batch_id IS NULL;
+
+  FOR v_driver IN
+    SELECT DISTINCT d.id
+    FROM public.drivers d
+    JOIN public.ledger_accounts a ON a.account_type = 'driver_payable' AND a.owner_user_id = d.user_id
+  LOOP
+    PERFORM public.build_driver_payout(v_driver.id, 'weekly', p_period_end::timestamptz, v_batch_id);
+  END LOOP;
+
+  UPDATE public.payout_batches b
+  SET payout_count = s.payout_count, total_amount = s.total_amount
+  FROM (
+    SELECT COUNT(*) AS payout_count, COALESCE(SUM(net_amount), 0) AS total_amount
+    FROM public.driver_payouts WHERE batch_id = v_batch_id
+  ) s
+  WHERE b.id = v_batch_id;
+
+  RETURN jsonb_build_object('success', true, 'batch_id', v_batch_id, 'created', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_payout_batch_if_done(p_batch_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE public.payout_batches
+  SET status = 'completed', completed_at = NOW()
+  WHERE id = p_batch_id
+    AND status = 'processing'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.driver_payouts
+      WHERE batch_id = p_batch_id AND status IN ('requested', 'processing')
+    );
+$$;
+
+-- 5. PAYOUT STATUS
+-- Bank transfer confirmed: settle the driver's payable against the gateway account
+CREATE OR REPLACE FUNCTION public.mark_payout_paid(
+  p_payout_id UUID,
+  p_transfer_reference TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payout RECORD;
+  v_transaction_id UUID;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT p.*, d.user_id AS driver_user_id INTO v_payout
+  FROM public.driver_payouts p
+  JOIN public.drivers d ON d.id = p.driver_id
+  WHERE p.id = p_payout_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  IF v_payout.status = 'paid' THEN
+    RETURN jsonb_build_object('success', true, 'changed', false);
+  END IF;
+
+  IF v_payout.status NOT IN ('requested', 'processing') THEN
+    RAISE EXCEPTION 'Cannot mark a % payout as paid', v_payout.status;
+  END IF;
+
+  v_transaction_id := public.post_ledger_transaction(
+    'Driver payout',
+    'payout',
+    p_payout_id::text,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.get_ledger_account('driver_payable', v_payout.driver_user_id), 'direction', 'debit', 'amount', v_payout.net_amount),
+      jsonb_build_object('account_id', public.get_ledger_account('payment_gateway'), 'direction', 'credit', 'amount', v_payout.net_amount)
+    ),
+    'payout:' || p_payout_id
+  );
+
+  UPDATE public.driver_payouts
+  SET status = 'paid', paid_at = NOW(), transfer_reference = p_transfer_reference, ledger_transaction_id = v_transaction_id
+  WHERE id = p_payout_id;
+
+  UPDATE public.payments
+  SET payout_status = 'paid'
+  WHERE booking_id IN (
+    SELECT booking_id FROM public.driver_payout_items WHERE payout_id = p_payout_id AND item_type = 'ride'
+  );
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  VALUES (
+    v_payout.driver_user_id,
+    'Payout Sent',
+    '₹' || v_payout.net_amount || ' has been transferred to your bank account.',
+    'payment',
+    jsonb_build_object('payout_id', p_payout_id, 'amount', v_payout.net_amount)
+  );
+
+  IF v_payout.batch_id IS NOT NULL THEN
+    PERFORM public.complete_payout_batch_if_done(v_payout.batch_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'changed', true);
+END;
+$$;
+
+-- Transfer failed: release the items so the next batch picks them up again
+CREATE OR REPLACE FUNCTION public.mark_payout_failed(
+  p_payout_id UUID,
+  p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payout RECORD;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT * INTO v_payout FROM public.driver_payouts WHERE id = p_payout_id FOR UPDATE;
+
+  IF NOT FOUND OR v_payout.status NOT IN ('requested', 'processing') THEN
+    RAISE EXCEPTION 'Only requested or processing payouts can fail';
+  END IF;
+
+  DELETE FROM public.driver_payout_items WHERE payout_id = p_payout_id;
+
+  UPDATE public.driver_payouts
+  SET status = 'failed', failure_reason = p_reason
+  WHERE id = p_payout_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  SELECT d.user_id, 'Payout Failed',
+    'Your payout of ₹' || v_payout.net_amount || ' could not be transferred. It will be retried with the next settlement.',
+    'payment',
+    jsonb_build_object('payout_id', p_payout_id, 'reason', p_reason)
+  FROM public.drivers d WHERE d.id = v_payout.driver_id;
+
+  IF v_payout.batch_id IS NOT NULL THEN
+    PERFORM public.complete_payout_batch_if_done(v_payout.batch_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- 6. STATEMENTS
+CREATE OR REPLACE FUNCTION public.get_payout_statement(p_payout_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payout RECORD;
+BEGIN
+  SELECT p.*, d.user_id AS driver_user_id, u.full_name AS driver_name, u.email AS driver_email,
+    b.period_start AS batch_period_start, b.period_end AS batch_period_end
+  INTO v_payout
+  FROM public.driver_payouts p
+  JOIN public.drivers d ON d.id = p.driver_id
+  JOIN public.users u ON u.id = d.user_id
+  LEFT JOIN public.payout_batches b ON b.id = p.batch_id
+  WHERE p.id = p_payout_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND auth.uid() <> v_payout.driver_user_id AND NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payout_id', v_payout.id,
+    'driver_name', v_payout.driver_name,
+    'driver_email', v_payout.driver_email,
+    'source', v_payout.source,
+    'status', v_payout.status,
+    'period_start', COALESCE(v_payout.batch_period_start::timestamptz, v_payout.period_start),
+    'period_end', v_payout.period_end,
+    'gross_fares', v_payout.gross_fares,
+    'platform_fees', v_payout.platform_fees,
+    'gst', v_payout.gst,
+    'tips', v_payout.tips,
+    'refunds', v_payout.refunds,
+    'net_amount', v_payout.net_amount,
+    'transfer_reference', v_payout.transfer_reference,
+    'requested_at', v_payout.requested_at,
+    'paid_at', v_payout.paid_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'booking_id', i.booking_id,
+        'item_type', i.item_type,
+        'description', i.description,
+        'route', CASE WHEN bk.id IS NOT NULL THEN bk.pickup_location || ' → ' || bk.drop_location END,
+        'gross_amount', i.gross_amount,
+        'platform_fee', i.platform_fee,
+        'gst', i.gst,
+        'net_amount', i.net_amount,
+        'occurred_at', i.occurred_at
+      ) ORDER BY i.occurred_at)
+      FROM public.driver_payout_items i
+      LEFT JOIN public.bookings bk ON bk.id = i.booking_id
+      WHERE i.payout_id = p_payout_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- 7. SCHEDULE
+-- Run the settlement every Monday at 02:00 where pg_cron is available;
+-- otherwise admins trigger it from the Payments tab.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('weekly-driver-payouts', '0 2 * * 1', 'SELECT public.create_weekly_payout_batch()');
+  END IF;
+END $$;
+
+-- 8. PERMISSIONS
+REVOKE ALL ON FUNCTION public.driver_unsettled_items(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.build_driver_payout(UUID, TEXT, TIMESTAMPTZ, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.complete_payout_batch_if_done(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.request_payout(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.create_weekly_payout_batch(DATE) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.mark_payout_paid(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.mark_payout_failed(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_payout_statement(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.driver_unsettled_items(UUID, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION public.build_driver_payout(UUID, TEXT, TIMESTAMPTZ, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_payout_batch_if_done(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.request_payout(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.create_weekly_payout_batch(DATE) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.mark_payout_paid(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.mark_payout_failed(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_payout_statement(UUID) TO authenticated, service_role;
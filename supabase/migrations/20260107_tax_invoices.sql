@@ -0,0 +1,306 @@
+-- ============================================
+-- GST Tax Invoices & Credit Notes
+-- Description: A tax invoice is issued for every booking payment posted to
+-- the ledger and a credit note for every refund, numbered sequentially per
+-- financial year, with CGST/SGST or IGST depending on place of supply.
+-- PDFs are rendered by the generate-invoice edge function into the private
+-- invoices bucket.
+-- ============================================
+
+-- 1. GSTIN & BILLING DETAILS
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS platform_legal_name TEXT DEFAULT 'TCSYGO';
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS platform_gstin TEXT;
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS platform_state_code TEXT DEFAULT '27';
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS platform_address TEXT;
+
+ALTER TABLE public.drivers ADD COLUMN IF NOT EXISTS gstin TEXT;
+
+-- Corporate riders enter these so the invoice is issued to their company
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS gstin TEXT;
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS billing_name TEXT;
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS billing_state_code TEXT;
+
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_gstin_format;
+ALTER TABLE public.users ADD CONSTRAINT users_gstin_format
+CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z0-9]{10}[0-9A-Z]Z[0-9A-Z]$');
+
+-- 2. TABLES
+CREATE TABLE IF NOT EXISTS public.invoice_sequences (
+  document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  financial_year TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (document_type, financial_year)
+);
+
+CREATE TABLE IF NOT EXISTS public.tax_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number TEXT NOT NULL UNIQUE,
+  document_type TEXT NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  financial_year TEXT NOT NULL,
+  original_invoice_id UUID REFERENCES public.tax_invoices(id),
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  ledger_transaction_id UUID REFERENCES public.ledger_transactions(id) NOT NULL UNIQUE,
+  passenger_id UUID REFERENCES public.users(id) NOT NULL,
+  driver_id UUID REFERENCES public.drivers(id),
+  supplier_name TEXT NOT NULL,
+  supplier_gstin TEXT,
+  supplier_state_code TEXT NOT NULL,
+  supplier_address TEXT,
+  driver_name TEXT,
+  driver_gstin TEXT,
+  recipient_name TEXT NOT NULL,
+  recipient_gstin TEXT,
+  place_of_supply TEXT NOT NULL,
+  description TEXT NOT NULL,
+  sac_code TEXT NOT NULL DEFAULT '996412',
+  taxable_value DECIMAL(12,2) NOT NULL,
+  cgst_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+  cgst DECIMAL(12,2) NOT NULL DEFAULT 0,
+  sgst_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+  sgst DECIMAL(12,2) NOT NULL DEFAULT 0,
+  igst_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+  igst DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(12,2) NOT NULL,
+  pdf_path TEXT,
+  issued_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_invoices_passenger ON public.tax_invoices(passenger_id, issued_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tax_invoices_booking ON public.tax_invoices(booking_id);
+
+GRANT ALL ON public.invoice_sequences, public.tax_invoices TO service_role;
+GRANT SELECT ON public.tax_invoices TO authenticated;
+
+ALTER TABLE public.invoice_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users view own tax invoices" ON public.tax_invoices;
+CREATE POLICY "Users view own tax invoices" ON public.tax_invoices FOR SELECT USING (
+  passenger_id = auth.uid()
+  OR EXISTS (SELECT 1 FROM public.drivers WHERE id = tax_invoices.driver_id AND user_id = auth.uid())
+  OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- 3. NUMBERING
+-- Indian financial year (April–March), e.g. '2026-27'
+CREATE OR REPLACE FUNCTION public.financial_year_for(p_at TIMESTAMPTZ)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN EXTRACT(MONTH FROM p_at AT TIME ZONE 'Asia/Kolkata') >= 4
+      THEN EXTRACT(YEAR FROM p_at AT TIME ZONE 'Asia/Kolkata')::int || '-' || LPAD(((EXTRACT(YEAR FROM p_at AT TIME ZONE 'Asia/Kolkata')::int + 1) % 100)::text, 2, '0')
+    ELSE (EXTRACT(YEAR FROM p_at AT TIME ZONE 'Asia/Kolkata')::int - 1) || '-' || LPAD((EXTRACT(YEAR FROM p_at AT TIME ZONE 'Asia/Kolkata')::int % 100)::text, 2, '0')
+  END;
+$$;
+
+-- Gapless within a financial year: the sequence row stays locked until the
+-- issuing transaction commits.
+CREATE OR REPLACE FUNCTION public.next_invoice_number(
+  p_document_type TEXT,
+  p_financial_year TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_number INTEGER;
+BEGIN
+  INSERT INTO public.invoice_sequences (document_type, financial_year, last_number)
+  VALUES (p_document_type, p_financial_year, 1)
+  ON CONFLICT (document_type, financial_year)
+  DO UPDATE SET last_number = public.invoice_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  RETURN CASE WHEN p_document_type = 'invoice' THEN 'TCS' ELSE 'CN' END
+    || '/' || p_financial_year || '/' || LPAD(v_number::text, 6, '0');
+END;
+$$;
+
+-- 4. ISSUING
+-- Builds the invoice (booking payment) or credit note (refund) for a ledger
+-- transaction. Amounts come from the posted legs, so the document always
+-- matches what the ledger recorded.
+CREATE OR REPLACE FUNCTION public.issue_tax_document(p_ledger_transaction_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tx RECORD;
+  v_booking RECORD;
+  v_settings RECORD;
+  v_document_type TEXT;
+  v_original_id UUID;
+  v_total NUMERIC;
+  v_gst NUMERIC;
+  v_place_of_supply TEXT;
+  v_intra_state BOOLEAN;
+  v_financial_year TEXT;
+  v_invoice_id UUID;
+BEGIN
+  SELECT id INTO v_invoice_id FROM public.tax_invoices WHERE ledger_transaction_id = p_ledger_transaction_id;
+  IF v_invoice_id IS NOT NULL THEN
+    RETURN v_invoice_id;
+  END IF;
+
+  SELECT * INTO v_tx FROM public.ledger_transactions WHERE id = p_ledger_transaction_id;
+  IF NOT FOUND OR v_tx.reference_type NOT IN ('booking', 'refund') THEN
+    RETURN NULL;
+  END IF;
+
+  v_document_type := CASE WHEN v_tx.reference_type = 'booking' THEN 'invoice' ELSE 'credit_note' END;
+
+  SELECT b.id, b.passenger_id, b.pickup_location, b.drop_location, b.seats_booked,
+    t.driver_id, du.full_name AS driver_name, d.gstin AS driver_gstin,
+    pu.full_name AS passenger_name, pu.gstin AS passenger_gstin,
+    pu.billing_name, pu.billing_state_code
+  INTO v_booking
+  FROM public.bookings b
+  JOIN public.trips t ON t.id = b.trip_id
+  JOIN public.drivers d ON d.id = t.driver_id
+  JOIN public.users du ON du.id = d.user_id
+  JOIN public.users pu ON pu.id = b.passenger_id
+  WHERE b.id = v_tx.reference_id::uuid;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_document_type = 'credit_note' THEN
+    SELECT id INTO v_original_id
+    FROM public.tax_invoices
+    WHERE booking_id = v_booking.id AND document_type = 'invoice'
+    ORDER BY issued_at DESC
+    LIMIT 1;
+
+    -- Nothing to credit if the payment predates invoicing
+    IF v_original_id IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(e.amount) FILTER (WHERE a.account_type IN ('driver_payable', 'platform_fees', 'gst_payable')), 0),
+    COALESCE(SUM(e.amount) FILTER (WHERE a.account_type = 'gst_payable'), 0)
+  INTO v_total, v_gst
+  FROM public.ledger_entries e
+  JOIN public.ledger_accounts a ON a.id = e.account_id
+  WHERE e.transaction_id = p_ledger_transaction_id;
+
+  IF v_total <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_settings FROM public.system_settings ORDER BY updated_at DESC NULLS LAST LIMIT 1;
+
+  -- Registered recipients are taxed by the state in their GSTIN; otherwise
+  -- the billing state, falling back to the platform's own state.
+  v_place_of_supply := COALESCE(
+    LEFT(v_booking.passenger_gstin, 2),
+    NULLIF(v_booking.billing_state_code, ''),
+    COALESCE(v_settings.platform_state_code, '27')
+  );
+  v_intra_state := v_place_of_supply = COALESCE(v_settings.platform_state_code, '27');
+  v_financial_year := public.financial_year_for(v_tx.created_at);
+
+  INSERT INTO public.tax_invoices (
+    invoice_number, document_type, financial_year, original_invoice_id, booking_id,
+    ledger_transaction_id, passenger_id, driver_id,
+    supplier_name, supplier_gstin, supplier_state_code, supplier_address,
+    driver_name, driver_gstin, recipient_name, recipient_gstin, place_of_supply,
+    description, taxable_value,
+    cgst_rate, cgst, sgst_rate, sgst, igst_rate, igst,
+    total_amount, issued_at
+  )
+  VALUES (
+    public.next_invoice_number(v_document_type, v_financial_year),
+    v_document_type,
+    v_financial_year,
+    v_original_id,
+    v_booking.id,
+    p_ledger_transaction_id,
+    v_booking.passenger_id,
+    v_booking.driver_id,
+    COALESCE(v_settings.platform_legal_name, 'TCSYGO'),
+    v_settings.platform_gstin,
+    COALESCE(v_settings.platform_state_code, '27'),
+    v_settings.platform_address,
+    v_booking.driver_name,
+    v_booking.driver_gstin,
+    COALESCE(NULLIF(v_booking.billing_name, ''), v_booking.passenger_name),
+    v_booking.passenger_gstin,
+    v_place_of_supply,
+    CASE WHEN v_document_type = 'invoice' THEN 'Passenger transport' ELSE 'Refund of passenger transport' END
+      || ': ' || v_booking.pickup_location || ' → ' || v_booking.drop_location
+      || ' (' || v_booking.seats_booked || ' seat' || CASE WHEN v_booking.seats_booked > 1 THEN 's' ELSE '' END || ')',
+    v_total - v_gst,
+    CASE WHEN v_intra_state THEN 2.5 ELSE 0 END,
+    CASE WHEN v_intra_state THEN ROUND(v_gst / 2, 2) ELSE 0 END,
+    CASE WHEN v_intra_state THEN 2.5 ELSE 0 END,
+    CASE WHEN v_intra_state THEN v_gst - ROUND(v_gst / 2, 2) ELSE 0 END,
+    CASE WHEN v_intra_state THEN 0 ELSE 5 END,
+    CASE WHEN v_intra_state THEN 0 ELSE v_gst END,
+    v_total,
+    v_tx.created_at
+  )
+  RETURNING id INTO v_invoice_id;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+-- Deferred so the ledger legs are in place by the time the document is built
+CREATE OR REPLACE FUNCTION public.issue_tax_document_on_posting()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM public.issue_tax_document(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_transactions_issue_tax_document ON public.ledger_transactions;
+CREATE CONSTRAINT TRIGGER ledger_transactions_issue_tax_document
+AFTER INSERT ON public.ledger_transactions
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW
+WHEN (NEW.reference_type IN ('booking', 'refund'))
+EXECUTE FUNCTION public.issue_tax_document_on_posting();
+
+-- 5. STORAGE
+DO $$
+BEGIN
+  BEGIN
+    INSERT INTO storage.buckets (id, name, public) VALUES
+    ('invoices', 'invoices', false)
+    ON CONFLICT (id) DO NOTHING;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE NOTICE 'Could not create invoices bucket: %', SQLERRM;
+  END;
+END $$;
+
+-- Files live under <passenger_id>/; only the edge function writes them
+DO $$
+BEGIN
+  BEGIN
+    DROP POLICY IF EXISTS "Users read own invoices" ON storage.objects;
+    CREATE POLICY "Users read own invoices" ON storage.objects FOR SELECT USING (
+      bucket_id = 'invoices' AND auth.uid()::text = (storage.foldername(name))[1]
+    );
+  EXCEPTION WHEN OTHERS THEN
+    RAISE NOTICE 'Could not create invoices storage policy: %', SQLERRM;
+  END;
+END $$;
+
+-- 6. PERMISSIONS
+REVOKE ALL ON FUNCTION public.next_invoice_number(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.issue_tax_document(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.issue_tax_document_on_posting() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.next_invoice_number(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.issue_tax_document(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.financial_year_for(TIMESTAMPTZ) TO authenticated, service_role;
@@ -0,0 +1,325 @@
+-- ============================================
+-- Dynamic Surge Pricing
+-- Description: Recomputes every active surge zone's multiplier from open
+-- ride requests against online drivers inside its polygon, with per-zone
+-- caps, smoothing and an admin override. Every change is logged to
+-- trip_surge_pricing for fare audits.
+-- ============================================
+
+-- 1. ZONE SETTINGS
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS active_requests INTEGER DEFAULT 0;
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS available_drivers INTEGER DEFAULT 0;
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS min_multiplier DECIMAL(3,2) NOT NULL DEFAULT 1.00;
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS max_multiplier DECIMAL(3,2) NOT NULL DEFAULT 2.00;
+-- Weight given to the newly computed value; the rest is the previous multiplier
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS smoothing_factor DECIMAL(3,2) NOT NULL DEFAULT 0.50;
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS override_multiplier DECIMAL(3,2);
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS override_expires_at TIMESTAMPTZ;
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS override_reason TEXT;
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS override_by UUID REFERENCES public.users(id);
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS last_computed_at TIMESTAMPTZ;
+
+ALTER TABLE public.surge_pricing_zones DROP CONSTRAINT IF EXISTS surge_pricing_zones_caps_check;
+ALTER TABLE public.surge_pricing_zones ADD CONSTRAINT surge_pricing_zones_caps_check
+CHECK (min_multiplier >= 1 AND max_multiplier >= min_multiplier AND smoothing_factor > 0 AND smoothing_factor <= 1);
+
+ALTER TABLE public.surge_pricing_zones DROP CONSTRAINT IF EXISTS surge_pricing_zones_demand_level_check;
+ALTER TABLE public.surge_pricing_zones ADD CONSTRAINT surge_pricing_zones_demand_level_check
+CHECK (demand_level IN ('low', 'medium', 'high', 'very_high'));
+
+-- 2. AUDIT LOG
+-- trip_surge_pricing now records zone multiplier changes as well; trip_id is
+-- set when a row describes a specific trip's fare.
+ALTER TABLE public.trip_surge_pricing ALTER COLUMN trip_id DROP NOT NULL;
+ALTER TABLE public.trip_surge_pricing ADD COLUMN IF NOT EXISTS zone_id UUID REFERENCES public.surge_pricing_zones(id) ON DELETE SET NULL;
+ALTER TABLE public.trip_surge_pricing ADD COLUMN IF NOT EXISTS previous_multiplier DECIMAL(3,2);
+ALTER TABLE public.trip_surge_pricing ADD COLUMN IF NOT EXISTS computed_multiplier DECIMAL(4,2);
+ALTER TABLE public.trip_surge_pricing ADD COLUMN IF NOT EXISTS demand_level TEXT;
+ALTER TABLE public.trip_surge_pricing ADD COLUMN IF NOT EXISTS active_requests INTEGER;
+ALTER TABLE public.trip_surge_pricing ADD COLUMN IF NOT EXISTS available_drivers INTEGER;
+ALTER TABLE public.trip_surge_pricing ADD COLUMN IF NOT EXISTS source TEXT CHECK (source IN ('recompute', 'override', 'trip'));
+ALTER TABLE public.trip_surge_pricing ADD COLUMN IF NOT EXISTS reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_trip_surge_pricing_zone ON public.trip_surge_pricing(zone_id, created_at DESC);
+
+ALTER TABLE public.surge_pricing_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.trip_surge_pricing ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view surge zones" ON public.surge_pricing_zones;
+CREATE POLICY "Anyone can view surge zones" ON public.surge_pricing_zones FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins manage surge zones" ON public.surge_pricing_zones;
+CREATE POLICY "Admins manage surge zones" ON public.surge_pricing_zones FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Admins view surge history" ON public.trip_surge_pricing;
+CREATE POLICY "Admins view surge history" ON public.trip_surge_pricing FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- 3. GEOMETRY
+-- Ray casting over a JSONB polygon [{"lat": .., "lng": ..}, ...], matching
+-- SurgePricingService.isPointInZone on the clients.
+CREATE OR REPLACE FUNCTION public.point_in_polygon(
+  p_lat NUMERIC,
+  p_lng NUMERIC,
+  p_polygon JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_count INTEGER;
+  v_inside BOOLEAN := false;
+  i INTEGER;
+  j INTEGER;
+  xi NUMERIC; yi NUMERIC; xj NUMERIC; yj NUMERIC;
+BEGIN
+  IF p_lat IS NULL OR p_lng IS NULL OR p_polygon IS NULL OR jsonb_typeof(p_polygon) <> 'array' THEN
+    RETURN false;
+  END IF;
+
+  v_count := jsonb_array_length(p_polygon);
+  IF v_count < 3 THEN
+    RETURN false;
+  END IF;
+
+  j := v_count - 1;
+  FOR i IN 0..v_count - 1 LOOP
+    xi := (p_polygon -> i ->> 'lng')::numeric;
+    yi := (p_polygon -> i ->> 'lat')::numeric;
+    xj := (p_polygon -> j ->> 'lng')::numeric;
+    yj := (p_polygon -> j ->> 'lat')::numeric;
+
+    IF (yi > p_lat) <> (yj > p_lat) AND p_lng < (xj - xi) * (p_lat - yi) / (yj - yi) + xi THEN
+      v_inside := NOT v_inside;
+    END IF;
+    j := i;
+  END LOOP;
+
+  RETURN v_inside;
+END;
+$$;
+
+-- 4. RECOMPUTE
+-- Same demand/supply tiers the apps used when surge was computed client-side
+CREATE OR REPLACE FUNCTION public.surge_multiplier_for_ratio(
+  p_requests INTEGER,
+  p_drivers INTEGER
+)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_requests = 0 THEN 1.0
+    WHEN p_drivers = 0 THEN 2.0
+    WHEN p_requests::numeric / p_drivers >= 3 THEN 2.0
+    WHEN p_requests::numeric / p_drivers >= 2 THEN 1.8
+    WHEN p_requests::numeric / p_drivers >= 1.5 THEN 1.5
+    WHEN p_requests::numeric / p_drivers >= 1 THEN 1.3
+    WHEN p_requests::numeric / p_drivers >= 0.5 THEN 1.1
+    ELSE 1.0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.recompute_surge_zone(
+  p_zone_id UUID,
+  p_source TEXT DEFAULT 'recompute'
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_zone RECORD;
+  v_requests INTEGER;
+  v_drivers INTEGER;
+  v_computed NUMERIC;
+  v_multiplier NUMERIC;
+  v_demand TEXT;
+  v_reason TEXT;
+BEGIN
+  SELECT * INTO v_zone FROM public.surge_pricing_zones WHERE id = p_zone_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Surge zone not found';
+  END IF;
+
+  -- Demand: requests still looking for a driver, raised in the last 15 minutes
+  SELECT COUNT(*) INTO v_requests
+  FROM public.ride_requests r
+  WHERE r.status IN ('pending', 'searching')
+    AND r.created_at >= NOW() - INTERVAL '15 minutes'
+    AND public.point_in_polygon(r.pickup_lat, r.pickup_lng, v_zone.zone_polygon);
+
+  -- Supply: online, free drivers whose location is fresh
+  SELECT COUNT(*) INTO v_drivers
+  FROM public.driver_availability da
+  WHERE da.is_online = true
+    AND da.is_available = true
+    AND da.last_location_update >= NOW() - INTERVAL '10 minutes'
+    AND public.point_in_polygon(da.current_lat, da.current_lng, v_zone.zone_polygon);
+
+  v_computed := public.surge_multiplier_for_ratio(v_requests, v_drivers);
+
+  v_demand := CASE
+    WHEN v_computed >= 1.8 THEN 'very_high'
+    WHEN v_computed >= 1.5 THEN 'high'
+    WHEN v_computed >= 1.1 THEN 'medium'
+    ELSE 'low'
+  END;
+
+  IF v_zone.override_multiplier IS NOT NULL
+    AND (v_zone.override_expires_at IS NULL OR v_zone.override_expires_at > NOW()) THEN
+    v_multiplier := v_zone.override_multiplier;
+    v_reason := COALESCE('Admin override: ' || v_zone.override_reason, 'Admin override');
+  ELSE
+    v_multiplier := ROUND(
+      COALESCE(v_zone.current_multiplier, 1)
+        + v_zone.smoothing_factor * (v_computed - COALESCE(v_zone.current_multiplier, 1)),
+      2
+    );
+    v_multiplier := LEAST(GREATEST(v_multiplier, v_zone.min_multiplier), v_zone.max_multiplier);
+    v_reason := v_requests || ' open requests / ' || v_drivers || ' available drivers';
+  END IF;
+
+  UPDATE public.surge_pricing_zones
+  SET current_multiplier = v_multiplier,
+      demand_level = v_demand,
+      active_requests = v_requests,
+      available_drivers = v_drivers,
+      last_computed_at = NOW(),
+      -- Expired overrides are cleared so the zone goes back to live pricing
+      override_multiplier = CASE WHEN override_expires_at <= NOW() THEN NULL ELSE override_multiplier END,
+      override_expires_at = CASE WHEN override_expires_at <= NOW() THEN NULL ELSE override_expires_at END,
+      override_reason = CASE WHEN override_expires_at <= NOW() THEN NULL ELSE override_reason END,
+      updated_at = CASE WHEN current_multiplier IS DISTINCT FROM v_multiplier THEN NOW() ELSE updated_at END
+  WHERE id = p_zone_id;
+
+  IF v_zone.current_multiplier IS DISTINCT FROM v_multiplier THEN
+    INSERT INTO public.trip_surge_pricing (
+      zone_id, surge_multiplier, previous_multiplier, computed_multiplier,
+      demand_level, active_requests, available_drivers, source, reason
+    )
+    VALUES (
+      p_zone_id, v_multiplier, v_zone.current_multiplier, v_computed,
+      v_demand, v_requests, v_drivers, p_source, v_reason
+    );
+  END IF;
+
+  RETURN v_multiplier;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.recompute_surge_zones()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_zone_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  FOR v_zone_id IN SELECT id FROM public.surge_pricing_zones WHERE is_active = true LOOP
+    PERFORM public.recompute_surge_zone(v_zone_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- 5. ADMIN OVERRIDE
+-- Pass p_multiplier NULL to clear the override and return to live pricing
+CREATE OR REPLACE FUNCTION public.set_surge_override(
+  p_zone_id UUID,
+  p_multiplier NUMERIC,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_multiplier NUMERIC;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF p_multiplier IS NOT NULL AND (p_multiplier < 1 OR p_multiplier > 5) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Override must be between 1.0x and 5.0x');
+  END IF;
+
+  UPDATE public.surge_pricing_zones
+  SET override_multiplier = p_multiplier,
+      override_expires_at = CASE WHEN p_multiplier IS NULL THEN NULL ELSE p_expires_at END,
+      override_reason = CASE WHEN p_multiplier IS NULL THEN NULL ELSE p_reason END,
+      override_by = CASE WHEN p_multiplier IS NULL THEN NULL ELSE auth.uid() END
+  WHERE id = p_zone_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Surge zone not found');
+  END IF;
+
+  v_multiplier := public.recompute_surge_zone(p_zone_id, 'override');
+
+  RETURN jsonb_build_object('success', true, 'multiplier', v_multiplier);
+END;
+$$;
+
+-- 6. TRIP FARES
+-- Snapshot the multiplier a trip was priced with and the zone it started in
+CREATE OR REPLACE FUNCTION public.log_trip_surge_pricing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_zone_id UUID;
+BEGIN
+  SELECT id INTO v_zone_id
+  FROM public.surge_pricing_zones
+  WHERE is_active = true
+    AND public.point_in_polygon(NEW.pickup_lat, NEW.pickup_lng, zone_polygon)
+  ORDER BY current_multiplier DESC
+  LIMIT 1;
+
+  INSERT INTO public.trip_surge_pricing (trip_id, zone_id, surge_multiplier, base_fare, surge_fare, source)
+  VALUES (NEW.id, v_zone_id, COALESCE(NEW.surge_multiplier, 1), NEW.base_price, NEW.price_per_seat, 'trip');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trips_log_surge_pricing ON public.trips;
+CREATE TRIGGER trips_log_surge_pricing
+AFTER INSERT ON public.trips
+FOR EACH ROW EXECUTE FUNCTION public.log_trip_surge_pricing();
+
+-- 7. SCHEDULE
+-- Recompute every 2 minutes where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('recompute-surge-zones', '*/2 * * * *', 'SELECT public.recompute_surge_zones()');
+  END IF;
+END $$;
+
+-- 8. PERMISSIONS
+REVOKE ALL ON FUNCTION public.recompute_surge_zone(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.recompute_surge_zones() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.set_surge_override(UUID, NUMERIC, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.log_trip_surge_pricing() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.point_in_polygon(NUMERIC, NUMERIC, JSONB) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.surge_multiplier_for_ratio(INTEGER, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.recompute_surge_zone(UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.recompute_surge_zones() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.set_surge_override(UUID, NUMERIC, TIMESTAMPTZ, TEXT) TO authenticated, service_role;
@@ -0,0 +1,75 @@
+-- ============================================
+-- Surge Zone Active Windows
+-- Description: Zones drawn in the admin editor can be limited to a daily
+-- time window (India time) and to certain weekdays. Outside the window the
+-- zone does not surge.
+-- ============================================
+
+-- 1. COLUMNS
+-- NULL active_from/active_until = all day; active_days uses 0 = Sunday .. 6 = Saturday
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS active_from TIME;
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS active_until TIME;
+ALTER TABLE public.surge_pricing_zones ADD COLUMN IF NOT EXISTS active_days SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}';
+
+-- 2. WINDOW CHECK
+-- Windows may wrap midnight, e.g. 22:00 - 02:00
+CREATE OR REPLACE FUNCTION public.surge_zone_in_window(
+  p_active_from TIME,
+  p_active_until TIME,
+  p_active_days SMALLINT[],
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXTRACT(DOW FROM p_at AT TIME ZONE 'Asia/Kolkata')::smallint = ANY (p_active_days)
+    AND (
+      p_active_from IS NULL OR p_active_until IS NULL
+      OR CASE
+        WHEN p_active_from <= p_active_until
+          THEN (p_at AT TIME ZONE 'Asia/Kolkata')::time >= p_active_from
+           AND (p_at AT TIME ZONE 'Asia/Kolkata')::time < p_active_until
+        ELSE (p_at AT TIME ZONE 'Asia/Kolkata')::time >= p_active_from
+          OR (p_at AT TIME ZONE 'Asia/Kolkata')::time < p_active_until
+      END
+    );
+$$;
+
+-- 3. RECOMPUTE OUTSIDE THE WINDOW
+-- Zones outside their window drop to 1.00x (logged like any other change)
+-- instead of being recomputed from demand. Admin overrides still apply.
+CREATE OR REPLACE FUNCTION public.recompute_surge_zones()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_zone RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  FOR v_zone IN SELECT * FROM public.surge_pricing_zones WHERE is_active = true LOOP
+    IF v_zone.override_multiplier IS NOT NULL
+      OR public.surge_zone_in_window(v_zone.active_from, v_zone.active_until, v_zone.active_days) THEN
+      PERFORM public.recompute_surge_zone(v_zone.id);
+    ELSIF v_zone.current_multiplier IS DISTINCT FROM 1.00 THEN
+      UPDATE public.surge_pricing_zones
+      SET current_multiplier = 1.00, demand_level = 'low', last_computed_at = NOW(), updated_at = NOW()
+      WHERE id = v_zone.id;
+
+      INSERT INTO public.trip_surge_pricing (zone_id, surge_multiplier, previous_multiplier, source, reason)
+      VALUES (v_zone.id, 1.00, v_zone.current_multiplier, 'recompute', 'Outside active hours');
+    END IF;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- 4. PERMISSIONS
+GRANT EXECUTE ON FUNCTION public.surge_zone_in_window(TIME, TIME, SMALLINT[], TIMESTAMPTZ) TO authenticated, service_role;
@@ -0,0 +1,482 @@
+-- ============================================
+-- Multi-Stop Trips with Per-Segment Seats
+-- Description: Trips get an ordered list of stops. Seats are tracked per
+-- segment (stop N to stop N+1), so a seat freed at Dewas can be resold for
+-- Dewas - Ujjain. Bookings board and alight at any stop, and are priced by
+-- the share of the route's distance they ride.
+-- ============================================
+
+-- 1. STOPS
+-- stop_order 0 is the origin, the highest stop_order is the destination.
+-- seats_available counts free seats on the segment leaving this stop, so it
+-- is NULL at the final stop.
+CREATE TABLE IF NOT EXISTS public.trip_stops (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id UUID REFERENCES public.trips(id) ON DELETE CASCADE NOT NULL,
+  stop_order INTEGER NOT NULL CHECK (stop_order >= 0),
+  location TEXT NOT NULL,
+  lat DECIMAL(10,7) NOT NULL,
+  lng DECIMAL(10,7) NOT NULL,
+  distance_from_start_km DECIMAL(10,2) NOT NULL DEFAULT 0,
+  seats_available INTEGER CHECK (seats_available >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (trip_id, stop_order)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_stops_location ON public.trip_stops(location);
+
+ALTER TABLE public.trip_stops ENABLE ROW LEVEL SECURITY;
+
+-- Stops are visible wherever the trip itself is visible; writes go through set_trip_stops()
+DROP POLICY IF EXISTS "View stops of visible trips" ON public.trip_stops;
+CREATE POLICY "View stops of visible trips" ON public.trip_stops
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.trips t WHERE t.id = trip_id));
+
+-- 2. BOOKING SEGMENT
+-- NULL on bookings made before stops existed or without a trip; the booking
+-- trigger fills them in as origin -> destination when left out.
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS board_stop_order INTEGER;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS alight_stop_order INTEGER;
+
+-- 3. HELPERS
+CREATE OR REPLACE FUNCTION public.distance_km(
+  p_lat1 NUMERIC,
+  p_lng1 NUMERIC,
+  p_lat2 NUMERIC,
+  p_lng2 NUMERIC
+)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 6371 * 2 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2) +
+    cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$;
+
+-- Per-seat price for riding part of a trip, pro-rated by distance
+CREATE OR REPLACE FUNCTION public.segment_seat_price(
+  p_trip_id UUID,
+  p_board_stop_order INTEGER,
+  p_alight_stop_order INTEGER
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN total.km IS NULL OR total.km = 0 THEN t.price_per_seat
+    ELSE ROUND(t.price_per_seat * (a.distance_from_start_km - b.distance_from_start_km) / total.km, 2)
+  END
+  FROM public.trips t
+  JOIN public.trip_stops b ON b.trip_id = t.id AND b.stop_order = p_board_stop_order
+  JOIN public.trip_stops a ON a.trip_id = t.id AND a.stop_order = p_alight_stop_order
+  CROSS JOIN LATERAL (
+    SELECT MAX(s.distance_from_start_km) AS km FROM public.trip_stops s WHERE s.trip_id = t.id
+  ) total
+  WHERE t.id = p_trip_id;
+$$;
+
+-- What the passenger pays for a booking: the segment's seat price (the full
+-- trip price without stops) for every seat, plus 5% GST, matching the GST
+-- inclusive split the ledger makes in split_booking_amount()
+CREATE OR REPLACE FUNCTION public.booking_total_amount(
+  p_trip_id UUID,
+  p_board_stop_order INTEGER,
+  p_alight_stop_order INTEGER,
+  p_seats INTEGER
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ROUND(
+    COALESCE(public.segment_seat_price(p_trip_id, p_board_stop_order, p_alight_stop_order), t.price_per_seat)
+      * COALESCE(p_seats, 1) * 1.05,
+    2
+  )
+  FROM public.trips t
+  WHERE t.id = p_trip_id;
+$$;
+
+-- Free seats across every segment between two stops
+CREATE OR REPLACE FUNCTION public.segment_seats_available(
+  p_trip_id UUID,
+  p_board_stop_order INTEGER,
+  p_alight_stop_order INTEGER
+)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT MIN(seats_available)::integer
+  FROM public.trip_stops
+  WHERE trip_id = p_trip_id
+    AND stop_order >= p_board_stop_order
+    AND stop_order < p_alight_stop_order;
+$$;
+
+-- 4. SET STOPS
+-- Replaces a trip's stops. p_stops is an ordered array of
+-- {location, lat, lng, distance_km?}; distance_km is the road distance from
+-- the origin, falling back to straight-line distance between stops.
+CREATE OR REPLACE FUNCTION public.set_trip_stops(
+  p_trip_id UUID,
+  p_stops JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_trip RECORD;
+  v_stop JSONB;
+  v_index INTEGER := 0;
+  v_count INTEGER;
+  v_distance NUMERIC := 0;
+  v_prev_lat NUMERIC;
+  v_prev_lng NUMERIC;
+BEGIN
+  SELECT t.*, d.user_id AS driver_user_id INTO v_trip
+  FROM public.trips t
+  JOIN public.drivers d ON d.id = t.driver_id
+  WHERE t.id = p_trip_id
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  IF v_trip.driver_user_id IS DISTINCT FROM auth.uid() AND NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  v_count := jsonb_array_length(p_stops);
+  IF v_count < 2 THEN
+    RAISE EXCEPTION 'A trip needs at least an origin and a destination';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.bookings WHERE trip_id = p_trip_id AND status <> 'cancelled') THEN
+    RAISE EXCEPTION 'Stops cannot change once seats are booked';
+  END IF;
+
+  DELETE FROM public.trip_stops WHERE trip_id = p_trip_id;
+
+  FOR v_stop IN SELECT value FROM jsonb_array_elements(p_stops) LOOP
+    IF v_stop ? 'distance_km' THEN
+      v_distance := (v_stop->>'distance_km')::numeric;
+    ELSIF v_index > 0 THEN
+      v_distance := v_distance + public.distance_km(
+        v_prev_lat, v_prev_lng, (v_stop->>'lat')::numeric, (v_stop->>'lng')::numeric
+      );
+    END IF;
+
+    INSERT INTO public.trip_stops (trip_id, stop_order, location, lat, lng, distance_from_start_km, seats_available)
+    VALUES (
+      p_trip_id,
+      v_index,
+      v_stop->>'location',
+      (v_stop->>'lat')::numeric,
+      (v_stop->>'lng')::numeric,
+      ROUND(v_distance, 2),
+      CASE WHEN v_index < v_count - 1 THEN COALESCE(v_trip.available_seats, v_trip.total_seats) END
+    );
+
+    v_prev_lat := (v_stop->>'lat')::numeric;
+    v_prev_lng := (v_stop->>'lng')::numeric;
+    v_index := v_index + 1;
+  END LOOP;
+
+  -- Keep the trip's own endpoints in step with the first and last stop
+  UPDATE public.trips
+  SET pickup_location = p_stops->0->>'location',
+      pickup_lat = (p_stops->0->>'lat')::numeric,
+      pickup_lng = (p_stops->0->>'lng')::numeric,
+      drop_location = p_stops->(v_count - 1)->>'location',
+      drop_lat = (p_stops->(v_count - 1)->>'lat')::numeric,
+      drop_lng = (p_stops->(v_count - 1)->>'lng')::numeric,
+      updated_at = NOW()
+  WHERE id = p_trip_id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- 5. DEFAULT STOPS
+-- Every trip starts with origin and destination stops so seat tracking works
+-- for trips created without waypoints too.
+CREATE OR REPLACE FUNCTION public.create_default_trip_stops()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.pickup_lat IS NULL OR NEW.drop_lat IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.trip_stops (trip_id, stop_order, location, lat, lng, distance_from_start_km, seats_available)
+  VALUES
+    (NEW.id, 0, COALESCE(NEW.pickup_location, 'Pickup'), NEW.pickup_lat, NEW.pickup_lng, 0,
+      COALESCE(NEW.available_seats, NEW.total_seats, 0)),
+    (NEW.id, 1, COALESCE(NEW.drop_location, 'Drop'), NEW.drop_lat, NEW.drop_lng,
+      ROUND(public.distance_km(NEW.pickup_lat, NEW.pickup_lng, NEW.drop_lat, NEW.drop_lng), 2), NULL)
+  ON CONFLICT (trip_id, stop_order) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trips_create_default_stops ON public.trips;
+CREATE TRIGGER trips_create_default_stops
+AFTER INSERT ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.create_default_trip_stops();
+
+-- Drivers editing a trip's seat count directly shift every segment by the
+-- same amount. Updates made by the booking trigger itself are skipped.
+CREATE OR REPLACE FUNCTION public.sync_trip_stop_seats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 OR NEW.available_seats IS NOT DISTINCT FROM OLD.available_seats THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.trip_stops
+  SET seats_available = GREATEST(seats_available + (NEW.available_seats - COALESCE(OLD.available_seats, 0)), 0)
+  WHERE trip_id = NEW.id
+    AND seats_available IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trips_sync_stop_seats ON public.trips;
+CREATE TRIGGER trips_sync_stop_seats
+AFTER UPDATE OF available_seats ON public.trips
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_trip_stop_seats();
+
+-- Backfill existing trips, taking their current confirmed bookings into account
+INSERT INTO public.trip_stops (trip_id, stop_order, location, lat, lng, distance_from_start_km, seats_available)
+SELECT t.id, 0, COALESCE(t.pickup_location, 'Pickup'), t.pickup_lat, t.pickup_lng, 0,
+  GREATEST(COALESCE(t.available_seats, 0), 0)
+FROM public.trips t
+WHERE t.pickup_lat IS NOT NULL AND t.drop_lat IS NOT NULL
+ON CONFLICT (trip_id, stop_order) DO NOTHING;
+
+INSERT INTO public.trip_stops (trip_id, stop_order, location, lat, lng, distance_from_start_km, seats_available)
+SELECT t.id, 1, COALESCE(t.drop_location, 'Drop'), t.drop_lat, t.drop_lng,
+  ROUND(public.distance_km(t.pickup_lat, t.pickup_lng, t.drop_lat, t.drop_lng), 2), NULL
+FROM public.trips t
+WHERE t.pickup_lat IS NOT NULL AND t.drop_lat IS NOT NULL
+ON CONFLICT (trip_id, stop_order) DO NOTHING;
+
+UPDATE public.bookings b
+SET board_stop_order = 0, alight_stop_order = 1
+FROM public.trip_stops s
+WHERE s.trip_id = b.trip_id
+  AND s.stop_order = 1
+  AND b.board_stop_order IS NULL;
+
+-- 6. BOOKING SEGMENT CHECK
+-- Defaults the segment to the whole trip and refuses confirmed bookings that
+-- would oversell any segment they ride. Bookings made by the apps are priced
+-- here from the trip row, whatever total_amount they send; server paths that
+-- agree their own price (ride passes, accepted offers) set app.booking_priced.
+CREATE OR REPLACE FUNCTION public.assign_booking_segment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_last_stop INTEGER;
+  v_seats INTEGER;
+  v_client_priced BOOLEAN := auth.uid() IS NOT NULL
+    AND COALESCE(current_setting('app.booking_priced', true), 'off') <> 'on';
+BEGIN
+  IF NEW.trip_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT MAX(stop_order) INTO v_last_stop FROM public.trip_stops WHERE trip_id = NEW.trip_id;
+  IF v_last_stop IS NULL THEN
+    IF v_client_priced THEN
+      NEW.total_amount := public.booking_total_amount(NEW.trip_id, NULL, NULL, NEW.seats_booked);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.board_stop_order := COALESCE(NEW.board_stop_order, 0);
+  NEW.alight_stop_order := COALESCE(NEW.alight_stop_order, v_last_stop);
+
+  IF NEW.board_stop_order < 0 OR NEW.alight_stop_order > v_last_stop
+    OR NEW.board_stop_order >= NEW.alight_stop_order THEN
+    RAISE EXCEPTION 'Invalid boarding and alighting stops';
+  END IF;
+
+  IF NEW.status = 'confirmed' THEN
+    PERFORM 1 FROM public.trip_stops
+    WHERE trip_id = NEW.trip_id
+      AND stop_order >= NEW.board_stop_order
+      AND stop_order < NEW.alight_stop_order
+    FOR UPDATE;
+
+    v_seats := public.segment_seats_available(NEW.trip_id, NEW.board_stop_order, NEW.alight_stop_order);
+    IF v_seats < COALESCE(NEW.seats_booked, 1) THEN
+      RAISE EXCEPTION 'Only % seat(s) left between these stops', v_seats;
+    END IF;
+  END IF;
+
+  IF v_client_priced THEN
+    NEW.total_amount := public.booking_total_amount(
+      NEW.trip_id, NEW.board_stop_order, NEW.alight_stop_order, NEW.seats_booked
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_assign_segment ON public.bookings;
+CREATE TRIGGER bookings_assign_segment
+BEFORE INSERT ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_booking_segment();
+
+-- 7. SEAT TRIGGER
+-- Same transitions as before (confirmed insert, cancellation, delete), now
+-- applied to the segments the booking rides. trips.available_seats holds the
+-- seats free for the whole route.
+CREATE OR REPLACE FUNCTION public.adjust_segment_seats(
+  p_trip_id UUID,
+  p_board_stop_order INTEGER,
+  p_alight_stop_order INTEGER,
+  p_delta INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_board_stop_order IS NULL OR NOT EXISTS (SELECT 1 FROM public.trip_stops WHERE trip_id = p_trip_id) THEN
+    -- Trips without stops keep the single counter
+    UPDATE public.trips
+    SET available_seats = available_seats + p_delta
+    WHERE id = p_trip_id;
+    RETURN;
+  END IF;
+
+  UPDATE public.trip_stops
+  SET seats_available = seats_available + p_delta
+  WHERE trip_id = p_trip_id
+    AND stop_order >= p_board_stop_order
+    AND stop_order < p_alight_stop_order;
+
+  UPDATE public.trips
+  SET available_seats = (
+    SELECT MIN(seats_available) FROM public.trip_stops
+    WHERE trip_id = p_trip_id AND seats_available IS NOT NULL
+  )
+  WHERE id = p_trip_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_available_seats()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- When a new booking is confirmed
+  IF (TG_OP = 'INSERT' AND NEW.status = 'confirmed') THEN
+    PERFORM public.adjust_segment_seats(NEW.trip_id, NEW.board_stop_order, NEW.alight_stop_order, -NEW.seats_booked);
+
+  -- When a booking is cancelled
+  ELSIF (TG_OP = 'UPDATE' AND OLD.status = 'confirmed' AND NEW.status = 'cancelled') THEN
+    PERFORM public.adjust_segment_seats(NEW.trip_id, OLD.board_stop_order, OLD.alight_stop_order, OLD.seats_booked);
+
+  -- When a booking is deleted
+  ELSIF (TG_OP = 'DELETE' AND OLD.status = 'confirmed') THEN
+    PERFORM public.adjust_segment_seats(OLD.trip_id, OLD.board_stop_order, OLD.alight_stop_order, OLD.seats_booked);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Bring segment seats in line with bookings that already exist
+UPDATE public.trip_stops s
+SET seats_available = GREATEST(t.total_seats - (
+  SELECT COALESCE(SUM(b.seats_booked), 0)
+  FROM public.bookings b
+  WHERE b.trip_id = s.trip_id
+    AND b.status = 'confirmed'
+    AND b.board_stop_order <= s.stop_order
+    AND b.alight_stop_order > s.stop_order
+), 0)
+FROM public.trips t
+WHERE t.id = s.trip_id
+  AND s.seats_available IS NOT NULL
+  AND t.status IN ('upcoming', 'confirmed');
+
+-- 8. SEGMENT SEARCH
+-- Finds upcoming trips that pass a pickup stop before a drop stop, with the
+-- seats and per-seat price for that part of the route. Runs with the
+-- caller's rights so trip visibility rules still apply.
+CREATE OR REPLACE FUNCTION public.search_trip_segments(
+  p_pickup TEXT DEFAULT NULL,
+  p_drop TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  trip_id UUID,
+  board_stop_order INTEGER,
+  alight_stop_order INTEGER,
+  board_location TEXT,
+  alight_location TEXT,
+  seats_available INTEGER,
+  seat_price NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT ON (m.trip_id)
+    m.trip_id, m.board_stop_order, m.alight_stop_order, m.board_location, m.alight_location,
+    m.seats_available, public.segment_seat_price(m.trip_id, m.board_stop_order, m.alight_stop_order)
+  FROM (
+    SELECT
+      t.id AS trip_id,
+      b.stop_order AS board_stop_order,
+      a.stop_order AS alight_stop_order,
+      b.location AS board_location,
+      a.location AS alight_location,
+      public.segment_seats_available(t.id, b.stop_order, a.stop_order) AS seats_available
+    FROM public.trips t
+    JOIN public.trip_stops b ON b.trip_id = t.id
+    JOIN public.trip_stops a ON a.trip_id = t.id AND a.stop_order > b.stop_order
+    WHERE t.status = 'upcoming'
+      AND (p_pickup IS NULL OR b.location ILIKE '%' || p_pickup || '%')
+      AND (p_drop IS NULL OR a.location ILIKE '%' || p_drop || '%')
+      AND (p_from IS NULL OR t.departure_time >= p_from)
+      AND (p_to IS NULL OR t.departure_time <= p_to)
+  ) m
+  WHERE m.seats_available > 0
+  ORDER BY m.trip_id, m.board_stop_order ASC, m.alight_stop_order DESC;
+$$;
+
+-- 9. PERMISSIONS
+REVOKE ALL ON FUNCTION public.set_trip_stops(UUID, JSONB) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.adjust_segment_seats(UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.create_default_trip_stops() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.sync_trip_stop_seats() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.assign_booking_segment() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.distance_km(NUMERIC, NUMERIC, NUMERIC, NUMERIC) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.segment_seat_price(UUID, INTEGER, INTEGER) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.booking_total_amount(UUID, INTEGER, INTEGER, INTEGER) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.segment_seats_available(UUID, INTEGER, INTEGER) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.search_trip_segments(TEXT, TEXT, TIMESTAMPTZ, TIMESTAMPTZ) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.set_trip_stops(UUID, JSONB) TO authenticated, service_role;
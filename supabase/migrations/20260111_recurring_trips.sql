@@ -0,0 +1,518 @@
+-- ============================================
+-- Recurring Commute Trips
+-- Description: Drivers save a commute once as a template (weekdays, departure
+-- time, date range). Concrete trips are generated a couple of weeks ahead.
+-- Single days can be skipped without touching the rest of the series, and
+-- passengers can hold a seat for a whole week with a weekly pass.
+-- ============================================
+
+-- 1. TEMPLATES
+-- weekdays uses 0 = Sunday .. 6 = Saturday; departure_time is India time.
+-- stops is the same [{location, lat, lng, distance_km?}] list set_trip_stops()
+-- takes, or NULL for a direct trip.
+CREATE TABLE IF NOT EXISTS public.recurring_trips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id UUID REFERENCES public.drivers(id) ON DELETE CASCADE NOT NULL,
+  pickup_location TEXT NOT NULL,
+  pickup_lat DECIMAL(10,7) NOT NULL,
+  pickup_lng DECIMAL(10,7) NOT NULL,
+  drop_location TEXT NOT NULL,
+  drop_lat DECIMAL(10,7) NOT NULL,
+  drop_lng DECIMAL(10,7) NOT NULL,
+  stops JSONB,
+  route JSONB,
+  distance TEXT,
+  duration INTEGER,
+  price_per_seat DECIMAL(10,2) NOT NULL CHECK (price_per_seat >= 0),
+  pass_discount_percent INTEGER NOT NULL DEFAULT 10 CHECK (pass_discount_percent BETWEEN 0 AND 50),
+  total_seats INTEGER NOT NULL CHECK (total_seats > 0),
+  preferences JSONB DEFAULT '{}'::jsonb,
+  weekdays SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}' CHECK (cardinality(weekdays) > 0),
+  departure_time TIME NOT NULL,
+  starts_on DATE NOT NULL,
+  ends_on DATE,
+  generate_days_ahead INTEGER NOT NULL DEFAULT 14 CHECK (generate_days_ahead BETWEEN 1 AND 60),
+  generated_until DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_trips_driver ON public.recurring_trips(driver_id);
+
+DROP TRIGGER IF EXISTS update_recurring_trips_updated_at ON public.recurring_trips;
+CREATE TRIGGER update_recurring_trips_updated_at BEFORE UPDATE ON public.recurring_trips FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Days the driver isn't going; nothing is generated for them
+CREATE TABLE IF NOT EXISTS public.recurring_trip_exceptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recurring_trip_id UUID REFERENCES public.recurring_trips(id) ON DELETE CASCADE NOT NULL,
+  on_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (recurring_trip_id, on_date)
+);
+
+-- 2. OCCURRENCES
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS recurring_trip_id UUID REFERENCES public.recurring_trips(id) ON DELETE SET NULL;
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trips_recurring_occurrence
+ON public.trips(recurring_trip_id, occurrence_date)
+WHERE recurring_trip_id IS NOT NULL;
+
+-- 3. WEEKLY PASSES
+-- A pass holds the same seat on every occurrence in one week (Monday start)
+-- at the template's pass price. Each occurrence is still a normal booking.
+CREATE TABLE IF NOT EXISTS public.recurring_trip_passes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  recurring_trip_id UUID REFERENCES public.recurring_trips(id) ON DELETE CASCADE NOT NULL,
+  passenger_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  week_start DATE NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+  seats INTEGER NOT NULL DEFAULT 1 CHECK (seats > 0),
+  price_per_seat DECIMAL(10,2) NOT NULL,
+  payment_method TEXT NOT NULL DEFAULT 'cash',
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  cancelled_at TIMESTAMPTZ,
+  UNIQUE (recurring_trip_id, passenger_id, week_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_trip_passes_passenger ON public.recurring_trip_passes(passenger_id);
+
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS recurring_pass_id UUID REFERENCES public.recurring_trip_passes(id) ON DELETE SET NULL;
+
+-- 4. RLS
+ALTER TABLE public.recurring_trips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_trip_exceptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.recurring_trip_passes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "View active recurring trips" ON public.recurring_trips;
+CREATE POLICY "View active recurring trips" ON public.recurring_trips
+FOR SELECT
+USING (
+  status = 'active'
+  OR EXISTS (SELECT 1 FROM public.drivers WHERE id = driver_id AND user_id = auth.uid())
+  OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Drivers manage own recurring trips" ON public.recurring_trips;
+CREATE POLICY "Drivers manage own recurring trips" ON public.recurring_trips
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.drivers WHERE id = driver_id AND user_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.drivers WHERE id = driver_id AND user_id = auth.uid()));
+
+-- Exceptions are written through skip_recurring_occurrence()
+DROP POLICY IF EXISTS "View exceptions of visible recurring trips" ON public.recurring_trip_exceptions;
+CREATE POLICY "View exceptions of visible recurring trips" ON public.recurring_trip_exceptions
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.recurring_trips r WHERE r.id = recurring_trip_id));
+
+-- Passes are written through subscribe_recurring_pass() / cancel_recurring_pass()
+DROP POLICY IF EXISTS "View own or driven passes" ON public.recurring_trip_passes;
+CREATE POLICY "View own or driven passes" ON public.recurring_trip_passes
+FOR SELECT
+USING (
+  passenger_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.recurring_trips r
+    JOIN public.drivers d ON d.id = r.driver_id
+    WHERE r.id = recurring_trip_id AND d.user_id = auth.uid()
+  )
+  OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- 5. BOOK A PASS ON ONE OCCURRENCE
+-- Seats were checked when the pass was bought; a failure here (e.g. the
+-- driver cut the seat count) skips that day rather than the whole run.
+CREATE OR REPLACE FUNCTION public.book_pass_occurrence(
+  p_pass_id UUID,
+  p_trip_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_pass RECORD;
+  v_trip RECORD;
+  v_booking_id UUID;
+BEGIN
+  SELECT * INTO v_pass FROM public.recurring_trip_passes WHERE id = p_pass_id AND status = 'active';
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_trip FROM public.trips WHERE id = p_trip_id AND status = 'upcoming';
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE trip_id = p_trip_id AND recurring_pass_id = p_pass_id AND status <> 'cancelled'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    -- The pass price was agreed up front, so the booking trigger keeps it
+    PERFORM set_config('app.booking_priced', 'on', true);
+    INSERT INTO public.bookings (
+      trip_id, passenger_id, seats_booked, total_amount, status, payment_status, payment_method,
+      pickup_location, pickup_lat, pickup_lng, drop_location, drop_lat, drop_lng, recurring_pass_id
+    )
+    VALUES (
+      p_trip_id, v_pass.passenger_id, v_pass.seats, v_pass.price_per_seat * v_pass.seats,
+      'confirmed', 'pending', v_pass.payment_method,
+      v_trip.pickup_location, v_trip.pickup_lat, v_trip.pickup_lng,
+      v_trip.drop_location, v_trip.drop_lat, v_trip.drop_lng, p_pass_id
+    )
+    RETURNING id INTO v_booking_id;
+    PERFORM set_config('app.booking_priced', 'off', true);
+  EXCEPTION WHEN OTHERS THEN
+    PERFORM set_config('app.booking_priced', 'off', true);
+    RAISE WARNING 'Could not book pass % on trip %: %', p_pass_id, p_trip_id, SQLERRM;
+    RETURN NULL;
+  END;
+
+  RETURN v_booking_id;
+END;
+$$;
+
+-- 6. GENERATION
+-- Creates the missing trips from today (India time) up to generate_days_ahead
+-- days out, skipping exceptions and days already generated, then books the
+-- week's passes onto them.
+CREATE OR REPLACE FUNCTION public.generate_recurring_trip_occurrences(p_recurring_trip_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_template RECORD;
+  v_today DATE := (NOW() AT TIME ZONE 'Asia/Kolkata')::date;
+  v_until DATE;
+  v_day DATE;
+  v_departure TIMESTAMPTZ;
+  v_trip_id UUID;
+  v_pass_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_template FROM public.recurring_trips WHERE id = p_recurring_trip_id FOR UPDATE;
+
+  IF NOT FOUND OR v_template.status <> 'active' THEN
+    RETURN 0;
+  END IF;
+
+  v_until := v_today + v_template.generate_days_ahead;
+  IF v_template.ends_on IS NOT NULL AND v_template.ends_on < v_until THEN
+    v_until := v_template.ends_on;
+  END IF;
+
+  FOR v_day IN
+    SELECT d::date FROM generate_series(GREATEST(v_template.starts_on, v_today), v_until, INTERVAL '1 day') d
+  LOOP
+    CONTINUE WHEN NOT (EXTRACT(DOW FROM v_day)::smallint = ANY (v_template.weekdays));
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.recurring_trip_exceptions
+      WHERE recurring_trip_id = v_template.id AND on_date = v_day
+    );
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.trips
+      WHERE recurring_trip_id = v_template.id AND occurrence_date = v_day
+    );
+
+    v_departure := (v_day + v_template.departure_time) AT TIME ZONE 'Asia/Kolkata';
+    CONTINUE WHEN v_departure <= NOW();
+
+    INSERT INTO public.trips (
+      driver_id, pickup_location, pickup_lat, pickup_lng, drop_location, drop_lat, drop_lng,
+      departure_time, distance, duration, price_per_seat, base_price, available_seats, total_seats,
+      status, route, preferences, recurring_trip_id, occurrence_date
+    )
+    VALUES (
+      v_template.driver_id, v_template.pickup_location, v_template.pickup_lat, v_template.pickup_lng,
+      v_template.drop_location, v_template.drop_lat, v_template.drop_lng,
+      v_departure, v_template.distance, v_template.duration, v_template.price_per_seat,
+      v_template.price_per_seat, v_template.total_seats, v_template.total_seats,
+      'upcoming', v_template.route, v_template.preferences, v_template.id, v_day
+    )
+    RETURNING id INTO v_trip_id;
+
+    IF v_template.stops IS NOT NULL AND jsonb_array_length(v_template.stops) > 2 THEN
+      PERFORM public.set_trip_stops(v_trip_id, v_template.stops);
+    END IF;
+
+    FOR v_pass_id IN
+      SELECT id FROM public.recurring_trip_passes
+      WHERE recurring_trip_id = v_template.id
+        AND status = 'active'
+        AND week_start = date_trunc('week', v_day)::date
+      ORDER BY created_at
+    LOOP
+      PERFORM public.book_pass_occurrence(v_pass_id, v_trip_id);
+    END LOOP;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE public.recurring_trips
+  SET generated_until = GREATEST(COALESCE(generated_until, v_until), v_until)
+  WHERE id = v_template.id;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Drivers generate their own templates right after saving; the schedule
+-- below tops up every active template daily.
+CREATE OR REPLACE FUNCTION public.generate_recurring_trips(p_recurring_trip_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_template_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF p_recurring_trip_id IS NOT NULL THEN
+    IF NOT public.is_service_or_admin() AND NOT EXISTS (
+      SELECT 1 FROM public.recurring_trips r
+      JOIN public.drivers d ON d.id = r.driver_id
+      WHERE r.id = p_recurring_trip_id AND d.user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Not allowed';
+    END IF;
+
+    RETURN public.generate_recurring_trip_occurrences(p_recurring_trip_id);
+  END IF;
+
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  FOR v_template_id IN SELECT id FROM public.recurring_trips WHERE status = 'active' LOOP
+    v_count := v_count + public.generate_recurring_trip_occurrences(v_template_id);
+  END LOOP;
+
+  -- Templates past their end date are finished
+  UPDATE public.recurring_trips
+  SET status = 'ended'
+  WHERE status = 'active'
+    AND ends_on < (NOW() AT TIME ZONE 'Asia/Kolkata')::date;
+
+  RETURN v_count;
+END;
+$$;
+
+-- 7. SKIP ONE DAY
+-- Records the exception and cancels that day's trip if it was already
+-- generated. Bookings on it are refunded in full as a driver cancellation,
+-- but the skip doesn't count against the driver's cancellation record.
+CREATE OR REPLACE FUNCTION public.skip_recurring_occurrence(
+  p_recurring_trip_id UUID,
+  p_date DATE,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_driver_user_id UUID;
+  v_trip_id UUID;
+  v_booking_id UUID;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  SELECT d.user_id INTO v_driver_user_id
+  FROM public.recurring_trips r
+  JOIN public.drivers d ON d.id = r.driver_id
+  WHERE r.id = p_recurring_trip_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recurring trip not found';
+  END IF;
+
+  IF v_driver_user_id IS DISTINCT FROM auth.uid() AND NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF p_date < (NOW() AT TIME ZONE 'Asia/Kolkata')::date THEN
+    RAISE EXCEPTION 'Cannot skip a past day';
+  END IF;
+
+  INSERT INTO public.recurring_trip_exceptions (recurring_trip_id, on_date, reason)
+  VALUES (p_recurring_trip_id, p_date, p_reason)
+  ON CONFLICT (recurring_trip_id, on_date) DO NOTHING;
+
+  SELECT id INTO v_trip_id
+  FROM public.trips
+  WHERE recurring_trip_id = p_recurring_trip_id AND occurrence_date = p_date AND status = 'upcoming'
+  FOR UPDATE;
+
+  IF v_trip_id IS NOT NULL THEN
+    FOR v_booking_id IN
+      SELECT id FROM public.bookings
+      WHERE trip_id = v_trip_id AND status NOT IN ('cancelled', 'completed', 'rejected')
+    LOOP
+      v_results := v_results || jsonb_build_array(
+        public.apply_booking_cancellation(v_booking_id, v_driver_user_id, COALESCE(p_reason, 'Driver skipped this day'))
+      );
+    END LOOP;
+
+    UPDATE public.trips SET status = 'cancelled', updated_at = NOW() WHERE id = v_trip_id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'trip_id', v_trip_id, 'cancellations', v_results);
+END;
+$$;
+
+-- 8. WEEKLY PASS
+CREATE OR REPLACE FUNCTION public.subscribe_recurring_pass(
+  p_recurring_trip_id UUID,
+  p_week_start DATE,
+  p_seats INTEGER DEFAULT 1,
+  p_payment_method TEXT DEFAULT 'cash'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_template RECORD;
+  v_held INTEGER;
+  v_pass_id UUID;
+  v_trip_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Must be logged in';
+  END IF;
+
+  SELECT r.*, d.user_id AS driver_user_id INTO v_template
+  FROM public.recurring_trips r
+  JOIN public.drivers d ON d.id = r.driver_id
+  WHERE r.id = p_recurring_trip_id
+  FOR UPDATE OF r;
+
+  IF NOT FOUND OR v_template.status <> 'active' THEN
+    RAISE EXCEPTION 'This commute is not taking passes';
+  END IF;
+
+  IF v_template.driver_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Drivers cannot buy a pass for their own commute';
+  END IF;
+
+  IF EXTRACT(ISODOW FROM p_week_start) <> 1 THEN
+    RAISE EXCEPTION 'A pass week starts on Monday';
+  END IF;
+
+  IF p_week_start + 6 < (NOW() AT TIME ZONE 'Asia/Kolkata')::date
+    OR p_week_start + 6 < v_template.starts_on
+    OR (v_template.ends_on IS NOT NULL AND p_week_start > v_template.ends_on) THEN
+    RAISE EXCEPTION 'The commute does not run that week';
+  END IF;
+
+  IF p_seats < 1 THEN
+    RAISE EXCEPTION 'Book at least one seat';
+  END IF;
+
+  SELECT COALESCE(SUM(seats), 0) INTO v_held
+  FROM public.recurring_trip_passes
+  WHERE recurring_trip_id = p_recurring_trip_id AND week_start = p_week_start AND status = 'active';
+
+  IF v_held + p_seats > v_template.total_seats THEN
+    RAISE EXCEPTION 'Only % pass seat(s) left that week', GREATEST(v_template.total_seats - v_held, 0);
+  END IF;
+
+  INSERT INTO public.recurring_trip_passes (
+    recurring_trip_id, passenger_id, week_start, seats, price_per_seat, payment_method
+  )
+  VALUES (
+    p_recurring_trip_id, auth.uid(), p_week_start, p_seats,
+    ROUND(v_template.price_per_seat * (100 - v_template.pass_discount_percent) / 100, 2),
+    p_payment_method
+  )
+  RETURNING id INTO v_pass_id;
+
+  -- Days that were generated already get booked now, the rest as they're generated
+  FOR v_trip_id IN
+    SELECT id FROM public.trips
+    WHERE recurring_trip_id = p_recurring_trip_id
+      AND occurrence_date BETWEEN p_week_start AND p_week_start + 6
+      AND status = 'upcoming'
+      AND departure_time > NOW()
+  LOOP
+    PERFORM public.book_pass_occurrence(v_pass_id, v_trip_id);
+  END LOOP;
+
+  RETURN v_pass_id;
+END;
+$$;
+
+-- Cancels the pass and its remaining bookings under the normal refund policy
+CREATE OR REPLACE FUNCTION public.cancel_recurring_pass(p_pass_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_pass RECORD;
+  v_booking_id UUID;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO v_pass FROM public.recurring_trip_passes WHERE id = p_pass_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pass not found';
+  END IF;
+
+  IF v_pass.passenger_id IS DISTINCT FROM auth.uid() AND NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF v_pass.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Pass is already cancelled';
+  END IF;
+
+  FOR v_booking_id IN
+    SELECT b.id FROM public.bookings b
+    JOIN public.trips t ON t.id = b.trip_id
+    WHERE b.recurring_pass_id = p_pass_id
+      AND b.status NOT IN ('cancelled', 'completed', 'rejected')
+      AND t.departure_time > NOW()
+  LOOP
+    v_results := v_results || jsonb_build_array(
+      public.apply_booking_cancellation(v_booking_id, v_pass.passenger_id, 'Weekly pass cancelled')
+    );
+  END LOOP;
+
+  UPDATE public.recurring_trip_passes
+  SET status = 'cancelled', cancelled_at = NOW()
+  WHERE id = p_pass_id;
+
+  RETURN jsonb_build_object('success', true, 'cancellations', v_results);
+END;
+$$;
+
+-- 9. SCHEDULE
+-- Top up every template once a day, just after midnight India time
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('generate-recurring-trips', '35 18 * * *', 'SELECT public.generate_recurring_trips()');
+  END IF;
+END $$;
+
+-- 10. PERMISSIONS
+REVOKE ALL ON FUNCTION public.book_pass_occurrence(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.generate_recurring_trip_occurrences(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.generate_recurring_trips(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.skip_recurring_occurrence(UUID, DATE, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.subscribe_recurring_pass(UUID, DATE, INTEGER, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.cancel_recurring_pass(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_recurring_trips(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.skip_recurring_occurrence(UUID, DATE, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.subscribe_recurring_pass(UUID, DATE, INTEGER, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.cancel_recurring_pass(UUID) TO authenticated, service_role;
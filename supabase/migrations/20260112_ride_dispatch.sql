@@ -0,0 +1,383 @@
+-- ============================================
+-- Server-side Ride Dispatch
+-- Description: Instant ride requests are dispatched by the database instead
+-- of the passenger's browser. Drivers are ranked by distance, rating,
+-- acceptance rate and idle time, and offered the request one at a time (or
+-- in a small batch) with an accept timeout. A driver who declined or let an
+-- offer lapse is never offered the same request again.
+-- ============================================
+
+-- 1. OFFERS
+CREATE TABLE IF NOT EXISTS public.dispatch_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_request_id UUID REFERENCES public.ride_requests(id) ON DELETE CASCADE NOT NULL,
+  driver_id UUID REFERENCES public.drivers(id) ON DELETE CASCADE NOT NULL,
+  score NUMERIC(5,4) NOT NULL,
+  distance_meters INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'offered' CHECK (status IN ('offered', 'accepted', 'declined', 'expired', 'withdrawn')),
+  offered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  responded_at TIMESTAMPTZ,
+  UNIQUE (ride_request_id, driver_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispatch_offers_open ON public.dispatch_offers(ride_request_id) WHERE status = 'offered';
+CREATE INDEX IF NOT EXISTS idx_dispatch_offers_driver ON public.dispatch_offers(driver_id, offered_at DESC);
+
+-- 2. RLS
+-- Offers are written through the dispatch functions only
+ALTER TABLE public.dispatch_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Drivers view own offers" ON public.dispatch_offers;
+CREATE POLICY "Drivers view own offers" ON public.dispatch_offers
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.drivers WHERE id = driver_id AND user_id = auth.uid())
+  OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Drivers' apps listen for new offers
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.dispatch_offers;
+EXCEPTION WHEN duplicate_object THEN
+  RAISE NOTICE 'dispatch_offers already in publication';
+WHEN OTHERS THEN
+  RAISE NOTICE 'Error adding dispatch_offers to publication: %', SQLERRM;
+END $$;
+
+-- 3. RANKING
+-- Share of the last 30 days' offers a driver accepted. Smoothed towards 80%
+-- so a new driver isn't ranked on one or two answers.
+CREATE OR REPLACE FUNCTION public.driver_acceptance_rate(p_driver_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT (COUNT(*) FILTER (WHERE status = 'accepted') + 4)::NUMERIC / (COUNT(*) + 5)
+  FROM public.dispatch_offers
+  WHERE driver_id = p_driver_id
+    AND status IN ('accepted', 'declined', 'expired')
+    AND offered_at >= NOW() - INTERVAL '30 days';
+$$;
+
+-- Online, free drivers in range, best first. Score weights: 40% distance
+-- (relative to the search radius), 25% rating, 20% acceptance rate and 15%
+-- time since the driver's last job, capped at an hour. Drivers who already
+-- had an offer for this request, or are holding another open offer, are left
+-- out.
+CREATE OR REPLACE FUNCTION public.rank_dispatch_candidates(
+  p_request_id UUID,
+  p_limit INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  driver_id UUID,
+  user_id UUID,
+  distance_meters DOUBLE PRECISION,
+  score NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  SELECT * INTO v_request FROM public.ride_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH nearby AS (
+    SELECT
+      d.id AS driver_id,
+      d.user_id,
+      d.rating,
+      (
+        6371000 * acos(LEAST(1, GREATEST(-1,
+          cos(radians(v_request.pickup_lat)) * cos(radians(da.current_lat)) *
+          cos(radians(da.current_lng) - radians(v_request.pickup_lng)) +
+          sin(radians(v_request.pickup_lat)) * sin(radians(da.current_lat))
+        )))
+      )::DOUBLE PRECISION AS distance_meters,
+      (
+        SELECT GREATEST(
+          (SELECT MAX(t.updated_at) FROM public.trips t WHERE t.driver_id = d.id AND t.status = 'completed'),
+          (SELECT MAX(o.responded_at) FROM public.dispatch_offers o WHERE o.driver_id = d.id AND o.status = 'accepted')
+        )
+      ) AS last_job_at
+    FROM public.drivers d
+    JOIN public.driver_availability da ON da.driver_id = d.id
+    JOIN public.users u ON u.id = d.user_id
+    WHERE da.is_online = true
+      AND da.is_available = true
+      AND da.current_lat IS NOT NULL
+      AND da.last_location_update >= NOW() - INTERVAL '10 minutes'
+      AND d.vehicle_type = v_request.vehicle_type
+      AND d.user_id <> v_request.passenger_id
+      AND (NOT COALESCE(v_request.organization_only, false) OR u.organization = v_request.organization)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.dispatch_offers o
+        WHERE o.driver_id = d.id
+          AND (o.ride_request_id = p_request_id OR (o.status = 'offered' AND o.expires_at > NOW()))
+      )
+  )
+  SELECT
+    n.driver_id,
+    n.user_id,
+    n.distance_meters,
+    ROUND((
+      0.40 * GREATEST(0, 1 - n.distance_meters / GREATEST(v_request.search_radius, 1))
+      + 0.25 * COALESCE(n.rating, 4) / 5
+      + 0.20 * public.driver_acceptance_rate(n.driver_id)
+      + 0.15 * COALESCE(LEAST(EXTRACT(EPOCH FROM NOW() - n.last_job_at) / 3600, 1), 1)
+    )::NUMERIC, 4) AS score
+  FROM nearby n
+  WHERE n.distance_meters <= v_request.search_radius
+  ORDER BY score DESC, n.distance_meters ASC
+  LIMIT p_limit;
+END;
+$$;
+
+-- 4. DISPATCH
+-- One dispatch step for a request: lapse stale offers, expire the request
+-- past its timeout, and when nobody holds an open offer, offer it to the next
+-- best drivers. Widens the search by 2 km (up to 20 km) when nobody is left.
+-- Returns how many offers were made.
+CREATE OR REPLACE FUNCTION public.offer_ride_request(
+  p_request_id UUID,
+  p_batch_size INTEGER DEFAULT 1,
+  p_offer_seconds INTEGER DEFAULT 20
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request RECORD;
+  v_candidate RECORD;
+  v_offer_id UUID;
+  v_expires_at TIMESTAMPTZ := NOW() + make_interval(secs => p_offer_seconds);
+  v_offers INTEGER := 0;
+BEGIN
+  SELECT * INTO v_request
+  FROM public.ride_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_request.status <> 'searching' THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.dispatch_offers
+  SET status = 'expired'
+  WHERE ride_request_id = p_request_id
+    AND status = 'offered'
+    AND expires_at <= NOW();
+
+  IF v_request.timeout_at IS NOT NULL AND v_request.timeout_at <= NOW() THEN
+    UPDATE public.ride_requests
+    SET status = 'expired', updated_at = NOW()
+    WHERE id = p_request_id;
+    RETURN 0;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.dispatch_offers
+    WHERE ride_request_id = p_request_id AND status = 'offered'
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_candidate IN
+    SELECT * FROM public.rank_dispatch_candidates(p_request_id, p_batch_size)
+  LOOP
+    v_offer_id := NULL;
+    INSERT INTO public.dispatch_offers (ride_request_id, driver_id, score, distance_meters, expires_at)
+    VALUES (p_request_id, v_candidate.driver_id, v_candidate.score, ROUND(v_candidate.distance_meters), v_expires_at)
+    ON CONFLICT (ride_request_id, driver_id) DO NOTHING
+    RETURNING id INTO v_offer_id;
+
+    IF v_offer_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, title, message, type, data)
+      VALUES (
+        v_candidate.user_id,
+        'New Ride Request',
+        format('Pickup %s km away: %s', ROUND((v_candidate.distance_meters / 1000)::NUMERIC, 1), v_request.pickup_location),
+        'ride_offer',
+        jsonb_build_object('offerId', v_offer_id, 'rideRequestId', p_request_id, 'expiresAt', v_expires_at)
+      );
+      v_offers := v_offers + 1;
+    END IF;
+  END LOOP;
+
+  IF v_offers = 0 AND COALESCE(v_request.search_radius, 5000) < 20000 THEN
+    UPDATE public.ride_requests
+    SET search_radius = LEAST(COALESCE(search_radius, 5000) + 2000, 20000), updated_at = NOW()
+    WHERE id = p_request_id;
+  END IF;
+
+  RETURN v_offers;
+END;
+$$;
+
+-- Nudge dispatch for one request; the passenger's app may call this instead
+-- of waiting for the next sweep
+CREATE OR REPLACE FUNCTION public.dispatch_ride_request(p_request_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.is_service_or_admin() AND NOT EXISTS (
+    SELECT 1 FROM public.ride_requests WHERE id = p_request_id AND passenger_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to dispatch this ride request';
+  END IF;
+
+  RETURN public.offer_ride_request(p_request_id);
+END;
+$$;
+
+-- Sweep every searching request so offers move on after a timeout even when
+-- nobody has the app open
+CREATE OR REPLACE FUNCTION public.dispatch_ride_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request_id UUID;
+  v_offers INTEGER := 0;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Only admins can run dispatch';
+  END IF;
+
+  FOR v_request_id IN
+    SELECT id FROM public.ride_requests WHERE status = 'searching' ORDER BY created_at
+  LOOP
+    BEGIN
+      v_offers := v_offers + public.offer_ride_request(v_request_id);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Dispatch failed for ride request %: %', v_request_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN v_offers;
+END;
+$$;
+
+-- 5. TRIGGER
+-- Start dispatch as soon as a request starts searching, and withdraw open
+-- offers once it stops (accepted, cancelled, expired)
+CREATE OR REPLACE FUNCTION public.handle_ride_request_dispatch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status = 'searching' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'searching') THEN
+    PERFORM public.offer_ride_request(NEW.id);
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'searching' AND NEW.status <> 'searching' THEN
+    UPDATE public.dispatch_offers
+    SET status = 'withdrawn', responded_at = NOW()
+    WHERE ride_request_id = NEW.id AND status = 'offered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_ride_request_dispatch ON public.ride_requests;
+CREATE TRIGGER trigger_ride_request_dispatch
+AFTER INSERT OR UPDATE OF status ON public.ride_requests
+FOR EACH ROW EXECUTE FUNCTION public.handle_ride_request_dispatch();
+
+-- 6. DRIVER RESPONSE
+-- Accepting claims the request for the driver; the app then creates the
+-- booking and trip. Declining moves dispatch straight on to the next driver.
+CREATE OR REPLACE FUNCTION public.respond_dispatch_offer(
+  p_offer_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_offer RECORD;
+BEGIN
+  SELECT o.* INTO v_offer
+  FROM public.dispatch_offers o
+  JOIN public.drivers d ON d.id = o.driver_id
+  WHERE o.id = p_offer_id AND d.user_id = auth.uid()
+  FOR UPDATE OF o;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offer not found';
+  END IF;
+
+  IF v_offer.status <> 'offered' OR v_offer.expires_at <= NOW() THEN
+    IF v_offer.status = 'offered' THEN
+      UPDATE public.dispatch_offers SET status = 'expired' WHERE id = p_offer_id;
+    END IF;
+    RETURN jsonb_build_object('success', false, 'error', 'This offer is no longer available');
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE public.dispatch_offers
+    SET status = 'declined', responded_at = NOW()
+    WHERE id = p_offer_id;
+
+    PERFORM public.offer_ride_request(v_offer.ride_request_id);
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  -- Mark the offer first so the status trigger only withdraws the others
+  UPDATE public.dispatch_offers
+  SET status = 'accepted', responded_at = NOW()
+  WHERE id = p_offer_id;
+
+  UPDATE public.ride_requests
+  SET status = 'accepted',
+      driver_id = v_offer.driver_id,
+      matched_driver_id = v_offer.driver_id,
+      matched_at = NOW(),
+      accepted_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_offer.ride_request_id
+    AND status IN ('pending', 'searching');
+
+  IF NOT FOUND THEN
+    UPDATE public.dispatch_offers SET status = 'withdrawn' WHERE id = p_offer_id;
+    RETURN jsonb_build_object('success', false, 'error', 'Ride is no longer available');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'ride_request_id', v_offer.ride_request_id);
+END;
+$$;
+
+-- 7. SCHEDULE
+-- Offers time out after 20 seconds, so sweep often
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('dispatch-ride-requests', '10 seconds', 'SELECT public.dispatch_ride_requests()');
+  END IF;
+END $$;
+
+-- 8. PERMISSIONS
+REVOKE ALL ON FUNCTION public.driver_acceptance_rate(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.rank_dispatch_candidates(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.offer_ride_request(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.dispatch_ride_request(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.dispatch_ride_requests() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.handle_ride_request_dispatch() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.respond_dispatch_offer(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.driver_acceptance_rate(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.dispatch_ride_request(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.dispatch_ride_requests() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.respond_dispatch_offer(UUID, BOOLEAN) TO authenticated, service_role;
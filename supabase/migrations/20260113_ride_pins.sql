@@ -0,0 +1,205 @@
+-- ============================================
+-- Ride PIN Verification
+-- Description: Every booking gets a 4-digit start PIN that only the passenger
+-- can see. The driver enters it to move the booking to picked_up, and the
+-- database refuses that transition otherwise. Wrong guesses are rate-limited.
+-- Trips with preferences.dropoffPin also need an end PIN before drop-off.
+-- ============================================
+
+-- 1. PINS
+-- Kept out of bookings because drivers can read their trips' bookings
+CREATE TABLE IF NOT EXISTS public.booking_pins (
+  booking_id UUID PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+  start_pin TEXT NOT NULL CHECK (start_pin ~ '^[0-9]{4}$'),
+  end_pin TEXT NOT NULL CHECK (end_pin ~ '^[0-9]{4}$'),
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  start_verified_at TIMESTAMPTZ,
+  end_verified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE OR REPLACE FUNCTION public.generate_ride_pin()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT lpad(floor(random() * 10000)::INTEGER::TEXT, 4, '0');
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_booking_pins()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO public.booking_pins (booking_id, start_pin, end_pin)
+  VALUES (NEW.id, public.generate_ride_pin(), public.generate_ride_pin())
+  ON CONFLICT (booking_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_create_booking_pins ON public.bookings;
+CREATE TRIGGER trigger_create_booking_pins
+AFTER INSERT ON public.bookings
+FOR EACH ROW EXECUTE FUNCTION public.create_booking_pins();
+
+-- Bookings that are still to be picked up or dropped off
+INSERT INTO public.booking_pins (booking_id, start_pin, end_pin)
+SELECT id, public.generate_ride_pin(), public.generate_ride_pin()
+FROM public.bookings
+WHERE status IN ('pending', 'confirmed', 'payment_pending', 'matched', 'upcoming', 'ongoing', 'picked_up')
+ON CONFLICT (booking_id) DO NOTHING;
+
+-- 2. RLS
+-- Only the passenger reads their PINs; checks go through verify_ride_pin()
+ALTER TABLE public.booking_pins ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Passengers view own ride pins" ON public.booking_pins;
+CREATE POLICY "Passengers view own ride pins" ON public.booking_pins
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.bookings b WHERE b.id = booking_id AND b.passenger_id = auth.uid()));
+
+-- 3. ENFORCEMENT
+-- picked_up (and completed, when the trip asks for a drop-off PIN) can only
+-- be set by verify_ride_pin(), or by admins and the service role
+CREATE OR REPLACE FUNCTION public.enforce_ride_pin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_verified BOOLEAN := current_setting('app.ride_pin_verified', true) = NEW.id::TEXT;
+BEGIN
+  IF v_verified OR public.is_service_or_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'picked_up' AND OLD.status IS DISTINCT FROM 'picked_up' THEN
+    RAISE EXCEPTION 'Enter the passenger''s ride PIN to start this ride';
+  END IF;
+
+  IF OLD.status = 'picked_up' AND NEW.status IN ('completed', 'payment_pending') AND EXISTS (
+    SELECT 1 FROM public.trips t
+    WHERE t.id = NEW.trip_id AND COALESCE((t.preferences->>'dropoffPin')::BOOLEAN, false)
+  ) THEN
+    RAISE EXCEPTION 'Enter the passenger''s drop-off PIN to end this ride';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_ride_pin ON public.bookings;
+CREATE TRIGGER trigger_enforce_ride_pin
+BEFORE UPDATE OF status ON public.bookings
+FOR EACH ROW EXECUTE FUNCTION public.enforce_ride_pin();
+
+-- 4. VERIFY
+-- Driver enters the passenger's PIN. Three wrong guesses lock the booking
+-- for 5 minutes. Wrong guesses return success = false rather than raising,
+-- so the attempt counter is kept.
+CREATE OR REPLACE FUNCTION public.verify_ride_pin(
+  p_booking_id UUID,
+  p_pin TEXT,
+  p_stage TEXT DEFAULT 'start'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_pins RECORD;
+  v_max_attempts CONSTANT INTEGER := 3;
+BEGIN
+  IF p_stage NOT IN ('start', 'end') THEN
+    RAISE EXCEPTION 'Unknown PIN stage: %', p_stage;
+  END IF;
+
+  SELECT b.id, b.status INTO v_booking
+  FROM public.bookings b
+  JOIN public.trips t ON t.id = b.trip_id
+  JOIN public.drivers d ON d.id = t.driver_id
+  WHERE b.id = p_booking_id AND d.user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found on your trips';
+  END IF;
+
+  IF p_stage = 'start' AND v_booking.status NOT IN ('confirmed', 'pending', 'matched', 'upcoming', 'ongoing') THEN
+    RETURN jsonb_build_object('success', false, 'error', format('Booking is %s and cannot be picked up', v_booking.status));
+  END IF;
+
+  IF p_stage = 'end' AND v_booking.status <> 'picked_up' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Passenger has not been picked up');
+  END IF;
+
+  SELECT * INTO v_pins
+  FROM public.booking_pins
+  WHERE booking_id = p_booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No ride PIN for this booking';
+  END IF;
+
+  IF v_pins.locked_until IS NOT NULL AND v_pins.locked_until > NOW() THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Too many wrong attempts. Try again later.',
+      'locked_until', v_pins.locked_until
+    );
+  END IF;
+
+  IF p_pin IS DISTINCT FROM (CASE WHEN p_stage = 'start' THEN v_pins.start_pin ELSE v_pins.end_pin END) THEN
+    IF v_pins.failed_attempts + 1 >= v_max_attempts THEN
+      UPDATE public.booking_pins
+      SET failed_attempts = 0, locked_until = NOW() + INTERVAL '5 minutes'
+      WHERE booking_id = p_booking_id;
+
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', 'Too many wrong attempts. Try again in 5 minutes.',
+        'locked_until', NOW() + INTERVAL '5 minutes'
+      );
+    END IF;
+
+    UPDATE public.booking_pins
+    SET failed_attempts = failed_attempts + 1
+    WHERE booking_id = p_booking_id;
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Incorrect PIN',
+      'attempts_left', v_max_attempts - v_pins.failed_attempts - 1
+    );
+  END IF;
+
+  UPDATE public.booking_pins
+  SET failed_attempts = 0,
+      locked_until = NULL,
+      start_verified_at = CASE WHEN p_stage = 'start' THEN NOW() ELSE start_verified_at END,
+      end_verified_at = CASE WHEN p_stage = 'end' THEN NOW() ELSE end_verified_at END
+  WHERE booking_id = p_booking_id;
+
+  PERFORM set_config('app.ride_pin_verified', p_booking_id::TEXT, true);
+
+  UPDATE public.bookings
+  SET status = CASE WHEN p_stage = 'start' THEN 'picked_up' ELSE 'completed' END,
+      updated_at = NOW()
+  WHERE id = p_booking_id;
+
+  PERFORM set_config('app.ride_pin_verified', '', true);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- 5. PERMISSIONS
+REVOKE ALL ON FUNCTION public.create_booking_pins() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.enforce_ride_pin() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.verify_ride_pin(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.verify_ride_pin(UUID, TEXT, TEXT) TO authenticated, service_role;
@@ -0,0 +1,202 @@
+-- ============================================
+-- Status Lifecycles
+-- Description: One documented transition graph for bookings, trips and ride
+-- requests, replacing the ever-wider CHECK constraints. Triggers reject any
+-- status change that isn't in the graph and record every change, with who
+-- made it, in status_history. The same graph lives in shared/lifecycle.ts
+-- for the apps; keep the two in sync.
+-- ============================================
+
+-- 1. TRANSITION GRAPH
+CREATE TABLE IF NOT EXISTS public.status_transitions (
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('booking', 'trip', 'ride_request')),
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  PRIMARY KEY (entity_type, from_status, to_status)
+);
+
+DELETE FROM public.status_transitions;
+INSERT INTO public.status_transitions (entity_type, from_status, to_status) VALUES
+  -- Bookings: pending -> confirmed -> picked_up -> payment_pending -> completed
+  ('booking', 'pending', 'confirmed'),
+  ('booking', 'pending', 'rejected'),
+  ('booking', 'pending', 'cancelled'),
+  ('booking', 'confirmed', 'picked_up'),
+  ('booking', 'confirmed', 'payment_pending'),
+  ('booking', 'confirmed', 'completed'),
+  ('booking', 'confirmed', 'cancelled'),
+  ('booking', 'picked_up', 'payment_pending'),
+  ('booking', 'picked_up', 'completed'),
+  ('booking', 'picked_up', 'cancelled'),
+  ('booking', 'payment_pending', 'completed'),
+  ('booking', 'payment_pending', 'cancelled'),
+  -- Trips: upcoming -> (arrived) -> ongoing -> completed
+  ('trip', 'upcoming', 'arrived'),
+  ('trip', 'upcoming', 'ongoing'),
+  ('trip', 'upcoming', 'cancelled'),
+  ('trip', 'arrived', 'ongoing'),
+  ('trip', 'arrived', 'cancelled'),
+  ('trip', 'ongoing', 'completed'),
+  ('trip', 'ongoing', 'cancelled'),
+  -- Ride requests: pending (scheduled) / searching -> accepted -> completed
+  ('ride_request', 'pending', 'searching'),
+  ('ride_request', 'pending', 'accepted'),
+  ('ride_request', 'pending', 'cancelled'),
+  ('ride_request', 'pending', 'expired'),
+  ('ride_request', 'searching', 'matched'),
+  ('ride_request', 'searching', 'accepted'),
+  ('ride_request', 'searching', 'cancelled'),
+  ('ride_request', 'searching', 'expired'),
+  ('ride_request', 'searching', 'timeout'),
+  ('ride_request', 'matched', 'accepted'),
+  ('ride_request', 'matched', 'rejected'),
+  ('ride_request', 'matched', 'searching'),
+  ('ride_request', 'matched', 'cancelled'),
+  ('ride_request', 'matched', 'expired'),
+  ('ride_request', 'accepted', 'completed'),
+  ('ride_request', 'accepted', 'cancelled'),
+  -- Released again when the driver's app fails to create the trip
+  ('ride_request', 'accepted', 'searching'),
+  ('ride_request', 'accepted', 'pending');
+
+ALTER TABLE public.status_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view status transitions" ON public.status_transitions;
+CREATE POLICY "Anyone can view status transitions" ON public.status_transitions
+FOR SELECT
+USING (true);
+
+-- 2. NORMALISE LEGACY STATUSES
+-- Older code wrote aliases; fold them into the canonical status before the
+-- constraints are tightened
+UPDATE public.bookings SET status = 'confirmed' WHERE status IN ('matched', 'upcoming');
+UPDATE public.bookings SET status = 'picked_up' WHERE status = 'ongoing';
+UPDATE public.bookings
+SET status = 'completed', payment_status = COALESCE(payment_status, 'paid')
+WHERE status = 'paid';
+
+UPDATE public.trips SET status = 'upcoming' WHERE status = 'confirmed';
+UPDATE public.trips SET status = 'ongoing' WHERE status = 'started';
+
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE public.bookings ADD CONSTRAINT bookings_status_check
+CHECK (status IN ('pending', 'confirmed', 'picked_up', 'payment_pending', 'completed', 'rejected', 'cancelled'));
+
+ALTER TABLE public.trips DROP CONSTRAINT IF EXISTS trips_status_check;
+ALTER TABLE public.trips ADD CONSTRAINT trips_status_check
+CHECK (status IN ('upcoming', 'arrived', 'ongoing', 'completed', 'cancelled'));
+
+-- 3. HISTORY
+-- actor_id is NULL for changes made by the service role or scheduled jobs
+CREATE TABLE IF NOT EXISTS public.status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('booking', 'trip', 'ride_request')),
+  entity_id UUID NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_history_entity ON public.status_history(entity_type, entity_id, created_at);
+
+ALTER TABLE public.status_history ENABLE ROW LEVEL SECURITY;
+
+-- Written by the triggers only; readable by whoever can read the record
+DROP POLICY IF EXISTS "View history of own records" ON public.status_history;
+CREATE POLICY "View history of own records" ON public.status_history
+FOR SELECT
+USING (
+  (entity_type = 'booking' AND EXISTS (
+    SELECT 1 FROM public.bookings b
+    LEFT JOIN public.trips t ON t.id = b.trip_id
+    LEFT JOIN public.drivers d ON d.id = t.driver_id
+    WHERE b.id = entity_id AND (b.passenger_id = auth.uid() OR d.user_id = auth.uid())
+  ))
+  OR (entity_type = 'trip' AND EXISTS (
+    SELECT 1 FROM public.trips t
+    JOIN public.drivers d ON d.id = t.driver_id
+    WHERE t.id = entity_id AND d.user_id = auth.uid()
+  ))
+  OR (entity_type = 'ride_request' AND EXISTS (
+    SELECT 1 FROM public.ride_requests r
+    LEFT JOIN public.drivers d ON d.id = r.driver_id
+    WHERE r.id = entity_id AND (r.passenger_id = auth.uid() OR d.user_id = auth.uid())
+  ))
+  OR EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- 4. ENFORCEMENT
+-- TG_ARGV[0] is the entity type
+CREATE OR REPLACE FUNCTION public.enforce_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM public.status_transitions
+    WHERE entity_type = TG_ARGV[0] AND from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Cannot change % status from % to %', replace(TG_ARGV[0], '_', ' '), OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.status_history (entity_type, entity_id, from_status, to_status, actor_id)
+    VALUES (
+      TG_ARGV[0],
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_booking_status ON public.bookings;
+CREATE TRIGGER trigger_enforce_booking_status
+BEFORE UPDATE OF status ON public.bookings
+FOR EACH ROW EXECUTE FUNCTION public.enforce_status_transition('booking');
+
+DROP TRIGGER IF EXISTS trigger_record_booking_status ON public.bookings;
+CREATE TRIGGER trigger_record_booking_status
+AFTER INSERT OR UPDATE OF status ON public.bookings
+FOR EACH ROW EXECUTE FUNCTION public.record_status_transition('booking');
+
+DROP TRIGGER IF EXISTS trigger_enforce_trip_status ON public.trips;
+CREATE TRIGGER trigger_enforce_trip_status
+BEFORE UPDATE OF status ON public.trips
+FOR EACH ROW EXECUTE FUNCTION public.enforce_status_transition('trip');
+
+DROP TRIGGER IF EXISTS trigger_record_trip_status ON public.trips;
+CREATE TRIGGER trigger_record_trip_status
+AFTER INSERT OR UPDATE OF status ON public.trips
+FOR EACH ROW EXECUTE FUNCTION public.record_status_transition('trip');
+
+DROP TRIGGER IF EXISTS trigger_enforce_ride_request_status ON public.ride_requests;
+CREATE TRIGGER trigger_enforce_ride_request_status
+BEFORE UPDATE OF status ON public.ride_requests
+FOR EACH ROW EXECUTE FUNCTION public.enforce_status_transition('ride_request');
+
+DROP TRIGGER IF EXISTS trigger_record_ride_request_status ON public.ride_requests;
+CREATE TRIGGER trigger_record_ride_request_status
+AFTER INSERT OR UPDATE OF status ON public.ride_requests
+FOR EACH ROW EXECUTE FUNCTION public.record_status_transition('ride_request');
+
+-- 5. PERMISSIONS
+REVOKE ALL ON FUNCTION public.enforce_status_transition() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.record_status_transition() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,412 @@
+-- ============================================
+-- Driver Documents & Re-verification
+-- Description: Typed driver documents (licence, RC, insurance, PUC, police
+-- verification) with issue/expiry dates and a review status each. A new
+-- upload is reviewed on its own while the previously approved copy keeps
+-- the driver on the road. A daily job reminds drivers 30, 7 and 1 days
+-- before expiry and takes them offline once an approved document lapses
+-- with no approved replacement. Approving a driver snapshots their profile
+-- so the re-verification queue can show what changed since.
+-- ============================================
+
+-- 1. DOCUMENTS
+-- One row per upload. Approving a row supersedes older rows of the same type.
+CREATE TABLE IF NOT EXISTS public.driver_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  doc_type TEXT NOT NULL CHECK (doc_type IN ('licence', 'rc', 'insurance', 'puc', 'police_verification')),
+  document_number TEXT,
+  file_url TEXT NOT NULL,
+  issued_on DATE,
+  expires_on DATE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'rejected', 'expired', 'superseded')),
+  rejection_reason TEXT,
+  reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  -- Smallest reminder threshold (in days) already sent for this document
+  reminder_days_sent INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (expires_on IS NULL OR issued_on IS NULL OR expires_on > issued_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_documents_driver ON public.driver_documents(driver_id, doc_type, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_driver_documents_pending ON public.driver_documents(created_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_driver_documents_expiry ON public.driver_documents(expires_on) WHERE status = 'verified';
+
+-- Snapshot of what was approved, for the re-verification diff
+ALTER TABLE public.drivers ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+ALTER TABLE public.drivers ADD COLUMN IF NOT EXISTS approved_snapshot JSONB;
+
+-- Existing licence photos become licence documents. Their expiry is unknown,
+-- so they never lapse until the driver uploads a dated copy.
+INSERT INTO public.driver_documents (driver_id, doc_type, document_number, file_url, status, reviewed_at)
+SELECT d.id, 'licence', d.license_number, d.license_photo,
+       CASE WHEN d.verification_status = 'verified' THEN 'verified' ELSE 'pending' END,
+       CASE WHEN d.verification_status = 'verified' THEN NOW() END
+FROM public.drivers d
+WHERE d.license_photo IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.driver_documents dd WHERE dd.driver_id = d.id);
+
+-- 2. RLS
+ALTER TABLE public.driver_documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Drivers view own documents" ON public.driver_documents;
+CREATE POLICY "Drivers view own documents" ON public.driver_documents
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.drivers d WHERE d.id = driver_id AND d.user_id = auth.uid())
+  OR public.has_admin_permission('drivers.verify')
+);
+
+-- Drivers add new uploads; review happens through review_driver_document()
+DROP POLICY IF EXISTS "Drivers upload own documents" ON public.driver_documents;
+CREATE POLICY "Drivers upload own documents" ON public.driver_documents
+FOR INSERT
+WITH CHECK (
+  status = 'pending'
+  AND EXISTS (SELECT 1 FROM public.drivers d WHERE d.id = driver_id AND d.user_id = auth.uid())
+);
+
+-- 3. HELPERS
+-- Document types whose approved copy has expired with no approved
+-- replacement. Types a driver never had approved don't count, so drivers
+-- from before this migration aren't taken offline for missing uploads.
+CREATE OR REPLACE FUNCTION public.lapsed_driver_documents(p_driver_id UUID)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT e.doc_type), ARRAY[]::TEXT[])
+  FROM public.driver_documents e
+  WHERE e.driver_id = p_driver_id
+    AND e.status = 'expired'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.driver_documents v
+      WHERE v.driver_id = e.driver_id
+        AND v.doc_type = e.doc_type
+        AND v.status = 'verified'
+        AND (v.expires_on IS NULL OR v.expires_on >= CURRENT_DATE)
+    );
+$$;
+
+-- What an admin approves: the vehicle/licence details plus the current
+-- approved document of each type
+CREATE OR REPLACE FUNCTION public.driver_profile_snapshot(p_driver_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'license_number', d.license_number,
+    'vehicle_make', d.vehicle_make,
+    'vehicle_model', d.vehicle_model,
+    'vehicle_year', d.vehicle_year,
+    'vehicle_color', d.vehicle_color,
+    'vehicle_plate', d.vehicle_plate,
+    'vehicle_type', d.vehicle_type,
+    'documents', COALESCE((
+      SELECT jsonb_object_agg(doc.doc_type, jsonb_build_object(
+        'id', doc.id,
+        'document_number', doc.document_number,
+        'file_url', doc.file_url,
+        'issued_on', doc.issued_on,
+        'expires_on', doc.expires_on
+      ))
+      FROM public.driver_documents doc
+      WHERE doc.driver_id = d.id AND doc.status = 'verified'
+    ), '{}'::JSONB)
+  )
+  FROM public.drivers d
+  WHERE d.id = p_driver_id;
+$$;
+
+-- 4. ENFORCEMENT
+-- Approving a driver approves their pending uploads and records the snapshot
+CREATE OR REPLACE FUNCTION public.handle_driver_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.verification_status = 'verified' AND OLD.verification_status IS DISTINCT FROM 'verified' THEN
+    -- Restoring a driver after a single document review leaves their other
+    -- pending uploads for the admin to review one by one
+    IF COALESCE(current_setting('app.driver_restore', true), 'off') = 'on' THEN
+      NEW.approved_snapshot := public.driver_profile_snapshot(NEW.id);
+      RETURN NEW;
+    END IF;
+
+    UPDATE public.driver_documents old_doc
+    SET status = 'superseded', updated_at = NOW()
+    WHERE old_doc.driver_id = NEW.id
+      AND old_doc.status IN ('verified', 'expired')
+      AND EXISTS (
+        SELECT 1 FROM public.driver_documents p
+        WHERE p.driver_id = NEW.id AND p.doc_type = old_doc.doc_type AND p.status = 'pending'
+      );
+
+    UPDATE public.driver_documents
+    SET status = 'verified', reviewed_by = auth.uid(), reviewed_at = NOW(), updated_at = NOW()
+    WHERE driver_id = NEW.id AND status = 'pending';
+
+    NEW.approved_at := NOW();
+    NEW.approved_snapshot := public.driver_profile_snapshot(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_handle_driver_approval ON public.drivers;
+CREATE TRIGGER trigger_handle_driver_approval
+BEFORE UPDATE OF verification_status ON public.drivers
+FOR EACH ROW EXECUTE FUNCTION public.handle_driver_approval();
+
+-- Drivers with a lapsed document can't go online
+CREATE OR REPLACE FUNCTION public.enforce_driver_documents_valid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_lapsed TEXT[];
+BEGIN
+  IF NOT COALESCE(NEW.is_online, false) OR (TG_OP = 'UPDATE' AND COALESCE(OLD.is_online, false)) THEN
+    RETURN NEW;
+  END IF;
+
+  v_lapsed := public.lapsed_driver_documents(NEW.driver_id);
+  IF cardinality(v_lapsed) > 0 THEN
+    RAISE EXCEPTION 'Your % expired. Upload a renewed copy to go online.', array_to_string(v_lapsed, ', ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_driver_documents_valid ON public.driver_availability;
+CREATE TRIGGER trigger_enforce_driver_documents_valid
+BEFORE INSERT OR UPDATE OF is_online ON public.driver_availability
+FOR EACH ROW EXECUTE FUNCTION public.enforce_driver_documents_valid();
+
+-- 5. REVIEW
+CREATE OR REPLACE FUNCTION public.review_driver_document(
+  p_document_id UUID,
+  p_approve BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_doc RECORD;
+  v_driver RECORD;
+BEGIN
+  IF NOT public.has_admin_permission('drivers.verify') THEN
+    RAISE EXCEPTION 'You do not have permission to verify drivers';
+  END IF;
+
+  SELECT * INTO v_doc FROM public.driver_documents WHERE id = p_document_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  IF v_doc.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', format('Document is already %s', v_doc.status));
+  END IF;
+
+  IF NOT p_approve THEN
+    UPDATE public.driver_documents
+    SET status = 'rejected', rejection_reason = p_reason, reviewed_by = auth.uid(), reviewed_at = NOW(), updated_at = NOW()
+    WHERE id = p_document_id;
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    SELECT d.user_id, 'Document Rejected',
+           format('Your %s was not accepted%s', replace(v_doc.doc_type, '_', ' '), COALESCE(': ' || p_reason, '.')),
+           'document_rejected', jsonb_build_object('documentId', p_document_id, 'docType', v_doc.doc_type)
+    FROM public.drivers d WHERE d.id = v_doc.driver_id;
+
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  IF v_doc.expires_on IS NOT NULL AND v_doc.expires_on < CURRENT_DATE THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This document has already expired');
+  END IF;
+
+  UPDATE public.driver_documents
+  SET status = 'superseded', updated_at = NOW()
+  WHERE driver_id = v_doc.driver_id AND doc_type = v_doc.doc_type
+    AND status IN ('verified', 'expired') AND id <> p_document_id;
+
+  UPDATE public.driver_documents
+  SET status = 'verified', rejection_reason = NULL, reviewed_by = auth.uid(), reviewed_at = NOW(), updated_at = NOW()
+  WHERE id = p_document_id;
+
+  -- A driver taken offline for a lapsed document is restored once every
+  -- lapse is covered, unless their profile is waiting on a full review
+  SELECT * INTO v_driver FROM public.drivers WHERE id = v_doc.driver_id FOR UPDATE;
+
+  IF v_driver.approved_at IS NOT NULL AND v_driver.verification_status = 'pending'
+     AND cardinality(public.lapsed_driver_documents(v_driver.id)) = 0
+     AND (public.driver_profile_snapshot(v_driver.id) - 'documents') = (v_driver.approved_snapshot - 'documents') THEN
+    PERFORM set_config('app.driver_restore', 'on', true);
+    UPDATE public.drivers SET verification_status = 'verified', updated_at = NOW() WHERE id = v_driver.id;
+    PERFORM set_config('app.driver_restore', 'off', true);
+  ELSIF v_driver.verification_status = 'verified' THEN
+    UPDATE public.drivers SET approved_snapshot = public.driver_profile_snapshot(v_driver.id) WHERE id = v_driver.id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- 6. EXPIRY SWEEP
+CREATE OR REPLACE FUNCTION public.process_driver_document_expiry()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_doc RECORD;
+  v_driver RECORD;
+  v_threshold INTEGER;
+  v_reminded INTEGER := 0;
+  v_offline INTEGER := 0;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  -- Reminders at 30, 7 and 1 days, each sent once
+  FOR v_doc IN
+    SELECT dd.*, d.user_id, (dd.expires_on - CURRENT_DATE) AS days_left
+    FROM public.driver_documents dd
+    JOIN public.drivers d ON d.id = dd.driver_id
+    WHERE dd.status = 'verified'
+      AND dd.expires_on BETWEEN CURRENT_DATE AND CURRENT_DATE + 30
+  LOOP
+    v_threshold := CASE WHEN v_doc.days_left <= 1 THEN 1 WHEN v_doc.days_left <= 7 THEN 7 ELSE 30 END;
+
+    IF v_doc.reminder_days_sent IS NULL OR v_doc.reminder_days_sent > v_threshold THEN
+      INSERT INTO public.notifications (user_id, title, message, type, data)
+      VALUES (
+        v_doc.user_id,
+        'Document Expiring Soon',
+        format('Your %s expires on %s. Upload a renewed copy to keep driving.',
+               replace(v_doc.doc_type, '_', ' '), to_char(v_doc.expires_on, 'DD Mon YYYY')),
+        'document_expiry',
+        jsonb_build_object('documentId', v_doc.id, 'docType', v_doc.doc_type, 'expiresOn', v_doc.expires_on)
+      );
+
+      UPDATE public.driver_documents SET reminder_days_sent = v_threshold WHERE id = v_doc.id;
+      v_reminded := v_reminded + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE public.driver_documents
+  SET status = 'expired', updated_at = NOW()
+  WHERE status = 'verified' AND expires_on < CURRENT_DATE;
+
+  -- Take drivers with a lapsed document offline until it's replaced
+  FOR v_driver IN
+    SELECT d.id, d.user_id, public.lapsed_driver_documents(d.id) AS lapsed
+    FROM public.drivers d
+    WHERE d.verification_status = 'verified'
+      AND cardinality(public.lapsed_driver_documents(d.id)) > 0
+  LOOP
+    UPDATE public.drivers
+    SET verification_status = 'pending', is_available = false, updated_at = NOW()
+    WHERE id = v_driver.id;
+
+    UPDATE public.driver_availability
+    SET is_online = false, is_available = false, updated_at = NOW()
+    WHERE driver_id = v_driver.id;
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      v_driver.user_id,
+      'You Are Offline',
+      format('Your %s expired. Upload a renewed copy to start driving again.',
+             replace(array_to_string(v_driver.lapsed, ', '), '_', ' ')),
+      'document_expired',
+      jsonb_build_object('docTypes', to_jsonb(v_driver.lapsed))
+    );
+
+    v_offline := v_offline + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('reminded', v_reminded, 'taken_offline', v_offline);
+END;
+$$;
+
+-- 7. RE-VERIFICATION QUEUE
+-- Previously approved drivers with pending uploads or a profile that is
+-- back in review, with the approved snapshot to diff against
+CREATE OR REPLACE FUNCTION public.get_reverification_queue()
+RETURNS TABLE (
+  driver_id UUID,
+  user_id UUID,
+  full_name TEXT,
+  email TEXT,
+  verification_status TEXT,
+  approved_at TIMESTAMPTZ,
+  approved_snapshot JSONB,
+  current_snapshot JSONB,
+  lapsed_documents TEXT[],
+  pending_documents JSONB,
+  waiting_since TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.has_admin_permission('drivers.verify') THEN
+    RAISE EXCEPTION 'You do not have permission to verify drivers';
+  END IF;
+
+  RETURN QUERY
+  SELECT d.id, d.user_id, u.full_name, u.email, d.verification_status, d.approved_at,
+         d.approved_snapshot, public.driver_profile_snapshot(d.id),
+         public.lapsed_driver_documents(d.id),
+         COALESCE(p.docs, '[]'::JSONB),
+         LEAST(p.oldest, CASE WHEN d.verification_status = 'pending' THEN d.updated_at END)
+  FROM public.drivers d
+  JOIN public.users u ON u.id = d.user_id
+  LEFT JOIN LATERAL (
+    SELECT jsonb_agg(to_jsonb(dd) ORDER BY dd.created_at) AS docs, MIN(dd.created_at) AS oldest
+    FROM public.driver_documents dd
+    WHERE dd.driver_id = d.id AND dd.status = 'pending'
+  ) p ON true
+  WHERE d.approved_at IS NOT NULL
+    AND (p.docs IS NOT NULL OR d.verification_status = 'pending')
+  ORDER BY 11 ASC NULLS LAST;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('driver-document-expiry', '30 0 * * *', $job$
+      SELECT set_config('request.jwt.claim.role', 'service_role', true);
+      SELECT public.process_driver_document_expiry();
+    $job$);
+  END IF;
+END $$;
+
+-- 8. PERMISSIONS
+REVOKE ALL ON FUNCTION public.handle_driver_approval() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.enforce_driver_documents_valid() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.process_driver_document_expiry() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.driver_profile_snapshot(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.review_driver_document(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_reverification_queue() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_driver_document(UUID, BOOLEAN, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_reverification_queue() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.lapsed_driver_documents(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.process_driver_document_expiry() TO service_role;
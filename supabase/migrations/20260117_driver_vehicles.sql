@@ -0,0 +1,638 @@
+-- ============================================
+-- Multiple Vehicles per Driver
+-- Description: Drivers register any number of vehicles, each verified on
+-- its own. One of them is the active vehicle: it's mirrored into the legacy
+-- drivers.vehicle_* columns, used for matching, and picked by default for
+-- new trips. Trips record the vehicle they run with, and their seat count
+-- can't exceed it.
+-- ============================================
+
+-- 1. VEHICLES
+CREATE TABLE IF NOT EXISTS public.vehicles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  vehicle_type TEXT NOT NULL CHECK (vehicle_type IN ('bike', 'auto', 'car')),
+  make TEXT NOT NULL,
+  model TEXT NOT NULL,
+  year INTEGER,
+  color TEXT,
+  plate TEXT NOT NULL,
+  -- Passenger seats, not counting the driver
+  seat_count INTEGER NOT NULL CHECK (seat_count BETWEEN 1 AND 7),
+  photos TEXT[] DEFAULT '{}',
+  verification_status TEXT NOT NULL DEFAULT 'pending' CHECK (verification_status IN ('pending', 'verified', 'rejected')),
+  rejection_reason TEXT,
+  reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  -- Vehicles used by past trips are archived rather than deleted
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicles_driver ON public.vehicles(driver_id) WHERE NOT is_archived;
+CREATE INDEX IF NOT EXISTS idx_vehicles_pending ON public.vehicles(created_at) WHERE verification_status = 'pending' AND NOT is_archived;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicles_plate ON public.vehicles(upper(replace(plate, ' ', ''))) WHERE NOT is_archived;
+
+ALTER TABLE public.drivers ADD COLUMN IF NOT EXISTS active_vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL;
+ALTER TABLE public.trips ADD COLUMN IF NOT EXISTS vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL;
+ALTER TABLE public.recurring_trips ADD COLUMN IF NOT EXISTS vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trips_vehicle ON public.trips(vehicle_id);
+
+-- Each driver's current vehicle becomes their first vehicle, verified if
+-- the driver was
+INSERT INTO public.vehicles (driver_id, vehicle_type, make, model, year, color, plate, seat_count, photos, verification_status, reviewed_at)
+SELECT d.id,
+       COALESCE(d.vehicle_type, 'car'),
+       COALESCE(d.vehicle_make, 'Unknown'),
+       COALESCE(d.vehicle_model, 'Unknown'),
+       d.vehicle_year,
+       d.vehicle_color,
+       d.vehicle_plate,
+       CASE COALESCE(d.vehicle_type, 'car') WHEN 'bike' THEN 1 WHEN 'auto' THEN 3 ELSE 4 END,
+       COALESCE(d.vehicle_photos, '{}'),
+       CASE WHEN d.verification_status = 'verified' THEN 'verified' ELSE 'pending' END,
+       CASE WHEN d.verification_status = 'verified' THEN NOW() END
+FROM public.drivers d
+WHERE d.vehicle_plate IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.vehicles v WHERE v.driver_id = d.id)
+ON CONFLICT DO NOTHING;
+
+UPDATE public.drivers d
+SET active_vehicle_id = v.id
+FROM public.vehicles v
+WHERE v.driver_id = d.id AND d.active_vehicle_id IS NULL;
+
+UPDATE public.trips t
+SET vehicle_id = d.active_vehicle_id
+FROM public.drivers d
+WHERE d.id = t.driver_id AND t.vehicle_id IS NULL;
+
+UPDATE public.recurring_trips r
+SET vehicle_id = d.active_vehicle_id
+FROM public.drivers d
+WHERE d.id = r.driver_id AND r.vehicle_id IS NULL;
+
+-- Vehicles are verified on their own now, so they leave the driver snapshot
+UPDATE public.drivers
+SET approved_snapshot = approved_snapshot - ARRAY['vehicle_make', 'vehicle_model', 'vehicle_year', 'vehicle_color', 'vehicle_plate', 'vehicle_type']
+WHERE approved_snapshot IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.driver_profile_snapshot(p_driver_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT jsonb_build_object(
+    'license_number', d.license_number,
+    'documents', COALESCE((
+      SELECT jsonb_object_agg(doc.doc_type, jsonb_build_object(
+        'id', doc.id,
+        'document_number', doc.document_number,
+        'file_url', doc.file_url,
+        'issued_on', doc.issued_on,
+        'expires_on', doc.expires_on
+      ))
+      FROM public.driver_documents doc
+      WHERE doc.driver_id = d.id AND doc.status = 'verified'
+    ), '{}'::JSONB)
+  )
+  FROM public.drivers d
+  WHERE d.id = p_driver_id;
+$$;
+
+-- 2. RLS
+ALTER TABLE public.vehicles ENABLE ROW LEVEL SECURITY;
+
+-- Passengers see the vehicle on the trips they book
+DROP POLICY IF EXISTS "Public vehicles view" ON public.vehicles;
+CREATE POLICY "Public vehicles view" ON public.vehicles
+FOR SELECT
+USING (true);
+
+DROP POLICY IF EXISTS "Drivers add own vehicles" ON public.vehicles;
+CREATE POLICY "Drivers add own vehicles" ON public.vehicles
+FOR INSERT
+WITH CHECK (EXISTS (SELECT 1 FROM public.drivers d WHERE d.id = driver_id AND d.user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Drivers update own vehicles" ON public.vehicles;
+CREATE POLICY "Drivers update own vehicles" ON public.vehicles
+FOR UPDATE
+USING (EXISTS (SELECT 1 FROM public.drivers d WHERE d.id = driver_id AND d.user_id = auth.uid()));
+
+-- 3. VEHICLE CHANGES
+-- Only verifiers set the status. Changing a verified vehicle's details sends
+-- it back for review; matching and new trips only use verified vehicles.
+CREATE OR REPLACE FUNCTION public.guard_vehicle_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_can_verify BOOLEAN := public.has_admin_permission('drivers.verify');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT v_can_verify THEN
+      NEW.verification_status := 'pending';
+      NEW.rejection_reason := NULL;
+      NEW.reviewed_by := NULL;
+      NEW.reviewed_at := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.verification_status IS DISTINCT FROM OLD.verification_status
+     AND NEW.verification_status <> 'pending'
+     AND NOT v_can_verify THEN
+    RAISE EXCEPTION 'You do not have permission to verify vehicles';
+  END IF;
+
+  IF NEW.verification_status = OLD.verification_status
+     AND OLD.verification_status <> 'pending'
+     AND (NEW.vehicle_type, NEW.make, NEW.model, NEW.year, NEW.color, NEW.plate, NEW.seat_count)
+         IS DISTINCT FROM (OLD.vehicle_type, OLD.make, OLD.model, OLD.year, OLD.color, OLD.plate, OLD.seat_count) THEN
+    NEW.verification_status := 'pending';
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+  END IF;
+
+  IF NEW.is_archived AND NOT OLD.is_archived THEN
+    IF EXISTS (
+      SELECT 1 FROM public.trips
+      WHERE vehicle_id = NEW.id AND status IN ('upcoming', 'arrived', 'ongoing')
+    ) OR EXISTS (
+      SELECT 1 FROM public.recurring_trips
+      WHERE vehicle_id = NEW.id AND status <> 'ended'
+    ) THEN
+      RAISE EXCEPTION 'This vehicle is assigned to upcoming trips';
+    END IF;
+
+    UPDATE public.drivers
+    SET active_vehicle_id = NULL, is_available = false, updated_at = NOW()
+    WHERE active_vehicle_id = NEW.id;
+  END IF;
+
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_vehicle_changes ON public.vehicles;
+CREATE TRIGGER trigger_guard_vehicle_changes
+BEFORE INSERT OR UPDATE ON public.vehicles
+FOR EACH ROW EXECUTE FUNCTION public.guard_vehicle_changes();
+
+-- 4. ACTIVE VEHICLE
+-- Drivers switch to one of their verified vehicles, and not mid-trip. Its
+-- details are copied into the legacy drivers.vehicle_* columns. Internal
+-- updates (onboarding, below) may assign a vehicle still in review.
+CREATE OR REPLACE FUNCTION public.sync_active_vehicle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vehicle RECORD;
+BEGIN
+  IF NEW.active_vehicle_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.active_vehicle_id IS DISTINCT FROM OLD.active_vehicle_id) THEN
+    SELECT * INTO v_vehicle FROM public.vehicles WHERE id = NEW.active_vehicle_id;
+
+    IF NOT FOUND OR v_vehicle.driver_id <> NEW.id OR v_vehicle.is_archived THEN
+      RAISE EXCEPTION 'Vehicle not found';
+    END IF;
+
+    IF pg_trigger_depth() = 1 THEN
+      IF v_vehicle.verification_status <> 'verified' THEN
+        RAISE EXCEPTION 'Your % % has not been verified yet', v_vehicle.make, v_vehicle.model;
+      END IF;
+
+      IF TG_OP = 'UPDATE' AND EXISTS (
+        SELECT 1 FROM public.trips WHERE driver_id = NEW.id AND status IN ('arrived', 'ongoing')
+      ) THEN
+        RAISE EXCEPTION 'Finish your current trip before switching vehicles';
+      END IF;
+    END IF;
+
+    NEW.vehicle_type := v_vehicle.vehicle_type;
+    NEW.vehicle_make := v_vehicle.make;
+    NEW.vehicle_model := v_vehicle.model;
+    NEW.vehicle_year := v_vehicle.year;
+    NEW.vehicle_color := v_vehicle.color;
+    NEW.vehicle_plate := v_vehicle.plate;
+    NEW.vehicle_photos := v_vehicle.photos;
+  END IF;
+
+  IF COALESCE(NEW.is_available, false)
+     AND (TG_OP = 'INSERT' OR NOT COALESCE(OLD.is_available, false))
+     AND NOT EXISTS (
+       SELECT 1 FROM public.vehicles
+       WHERE id = NEW.active_vehicle_id AND verification_status = 'verified'
+     ) THEN
+    RAISE EXCEPTION 'Choose a verified vehicle before going online';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_active_vehicle ON public.drivers;
+CREATE TRIGGER trigger_sync_active_vehicle
+BEFORE INSERT OR UPDATE OF active_vehicle_id, is_available ON public.drivers
+FOR EACH ROW EXECUTE FUNCTION public.sync_active_vehicle();
+
+-- Onboarding still writes the vehicle onto the driver row: the first time
+-- that creates the driver's first vehicle, later it edits the active one
+CREATE OR REPLACE FUNCTION public.sync_driver_vehicle_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vehicle_id UUID;
+BEGIN
+  IF pg_trigger_depth() > 1 OR NEW.vehicle_plate IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.active_vehicle_id IS NULL THEN
+    INSERT INTO public.vehicles (driver_id, vehicle_type, make, model, year, color, plate, seat_count, photos)
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.vehicle_type, 'car'),
+      COALESCE(NEW.vehicle_make, 'Unknown'),
+      COALESCE(NEW.vehicle_model, 'Unknown'),
+      NEW.vehicle_year,
+      NEW.vehicle_color,
+      NEW.vehicle_plate,
+      CASE COALESCE(NEW.vehicle_type, 'car') WHEN 'bike' THEN 1 WHEN 'auto' THEN 3 ELSE 4 END,
+      COALESCE(NEW.vehicle_photos, '{}')
+    )
+    RETURNING id INTO v_vehicle_id;
+
+    UPDATE public.drivers SET active_vehicle_id = v_vehicle_id WHERE id = NEW.id;
+  ELSE
+    UPDATE public.vehicles
+    SET vehicle_type = COALESCE(NEW.vehicle_type, vehicle_type),
+        make = COALESCE(NEW.vehicle_make, make),
+        model = COALESCE(NEW.vehicle_model, model),
+        year = NEW.vehicle_year,
+        color = NEW.vehicle_color,
+        plate = NEW.vehicle_plate,
+        photos = COALESCE(NEW.vehicle_photos, photos)
+    WHERE id = NEW.active_vehicle_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_driver_vehicle_fields ON public.drivers;
+CREATE TRIGGER trigger_sync_driver_vehicle_fields
+AFTER INSERT OR UPDATE OF vehicle_type, vehicle_make, vehicle_model, vehicle_year, vehicle_color, vehicle_plate, vehicle_photos ON public.drivers
+FOR EACH ROW EXECUTE FUNCTION public.sync_driver_vehicle_fields();
+
+-- Approving a driver approves the vehicle on their application with them
+CREATE OR REPLACE FUNCTION public.verify_active_vehicle_on_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.verification_status = 'verified' AND OLD.verification_status IS DISTINCT FROM 'verified' THEN
+    UPDATE public.vehicles
+    SET verification_status = 'verified', rejection_reason = NULL, reviewed_by = auth.uid(), reviewed_at = NOW()
+    WHERE id = NEW.active_vehicle_id AND verification_status = 'pending';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_verify_active_vehicle_on_approval ON public.drivers;
+CREATE TRIGGER trigger_verify_active_vehicle_on_approval
+AFTER UPDATE OF verification_status ON public.drivers
+FOR EACH ROW EXECUTE FUNCTION public.verify_active_vehicle_on_approval();
+
+-- 5. TRIP VEHICLE
+-- New trips and commutes default to the commute's vehicle (for generated
+-- trips) or the driver's active vehicle. The vehicle must be the driver's
+-- own and verified, and have room for the seats offered. Its type is kept
+-- in preferences.vehicleType, which older clients read.
+CREATE OR REPLACE FUNCTION public.assign_trip_vehicle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vehicle RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.vehicle_id IS NULL THEN
+    IF TG_TABLE_NAME = 'trips' THEN
+      IF NEW.recurring_trip_id IS NOT NULL THEN
+        SELECT v.id INTO NEW.vehicle_id
+        FROM public.recurring_trips r
+        JOIN public.vehicles v ON v.id = r.vehicle_id
+        WHERE r.id = NEW.recurring_trip_id
+          AND v.verification_status = 'verified'
+          AND NOT v.is_archived;
+      END IF;
+    END IF;
+
+    IF NEW.vehicle_id IS NULL THEN
+      SELECT active_vehicle_id INTO NEW.vehicle_id FROM public.drivers WHERE id = NEW.driver_id;
+    END IF;
+  END IF;
+
+  -- Drivers who never registered a vehicle keep working as before
+  IF NEW.vehicle_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_vehicle FROM public.vehicles WHERE id = NEW.vehicle_id;
+
+  IF TG_OP = 'INSERT' OR NEW.vehicle_id IS DISTINCT FROM OLD.vehicle_id THEN
+    IF NOT FOUND OR v_vehicle.driver_id <> NEW.driver_id OR v_vehicle.is_archived THEN
+      RAISE EXCEPTION 'Vehicle not found';
+    END IF;
+
+    IF v_vehicle.verification_status <> 'verified' THEN
+      RAISE EXCEPTION 'Your % % has not been verified yet', v_vehicle.make, v_vehicle.model;
+    END IF;
+
+    NEW.preferences := COALESCE(NEW.preferences, '{}'::JSONB) || jsonb_build_object('vehicleType', v_vehicle.vehicle_type);
+  END IF;
+
+  IF FOUND AND NEW.total_seats > v_vehicle.seat_count THEN
+    RAISE EXCEPTION 'Your % % only has % passenger seat(s)', v_vehicle.make, v_vehicle.model, v_vehicle.seat_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_assign_trip_vehicle ON public.trips;
+CREATE TRIGGER trigger_assign_trip_vehicle
+BEFORE INSERT OR UPDATE OF vehicle_id, total_seats ON public.trips
+FOR EACH ROW EXECUTE FUNCTION public.assign_trip_vehicle();
+
+DROP TRIGGER IF EXISTS trigger_assign_recurring_trip_vehicle ON public.recurring_trips;
+CREATE TRIGGER trigger_assign_recurring_trip_vehicle
+BEFORE INSERT OR UPDATE OF vehicle_id, total_seats ON public.recurring_trips
+FOR EACH ROW EXECUTE FUNCTION public.assign_trip_vehicle();
+
+-- 6. REVIEW
+CREATE OR REPLACE FUNCTION public.review_vehicle(
+  p_vehicle_id UUID,
+  p_approve BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_vehicle RECORD;
+BEGIN
+  IF NOT public.has_admin_permission('drivers.verify') THEN
+    RAISE EXCEPTION 'You do not have permission to verify vehicles';
+  END IF;
+
+  SELECT * INTO v_vehicle FROM public.vehicles WHERE id = p_vehicle_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vehicle not found';
+  END IF;
+
+  IF v_vehicle.verification_status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', format('Vehicle is already %s', v_vehicle.verification_status));
+  END IF;
+
+  UPDATE public.vehicles
+  SET verification_status = CASE WHEN p_approve THEN 'verified' ELSE 'rejected' END,
+      rejection_reason = CASE WHEN p_approve THEN NULL ELSE p_reason END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW()
+  WHERE id = p_vehicle_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  SELECT d.user_id,
+         CASE WHEN p_approve THEN 'Vehicle Approved' ELSE 'Vehicle Rejected' END,
+         CASE WHEN p_approve
+           THEN format('Your %s %s (%s) is approved. You can now drive with it.', v_vehicle.make, v_vehicle.model, v_vehicle.plate)
+           ELSE format('Your %s %s (%s) was not approved%s', v_vehicle.make, v_vehicle.model, v_vehicle.plate, COALESCE(': ' || p_reason, '.'))
+         END,
+         CASE WHEN p_approve THEN 'vehicle_approved' ELSE 'vehicle_rejected' END,
+         jsonb_build_object('vehicleId', p_vehicle_id)
+  FROM public.drivers d WHERE d.id = v_vehicle.driver_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Vehicle reviews show up in the admin audit log like driver reviews
+CREATE OR REPLACE FUNCTION public.record_admin_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_admin_role TEXT;
+  v_before JSONB := to_jsonb(OLD);
+  v_after JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(NEW) END;
+  v_action TEXT;
+BEGIN
+  SELECT admin_role INTO v_admin_role
+  FROM public.users
+  WHERE id = auth.uid() AND role = 'admin';
+
+  IF NOT FOUND OR v_before = v_after THEN
+    RETURN NULL;
+  END IF;
+
+  v_action := CASE
+    WHEN TG_OP = 'DELETE' THEN TG_ARGV[0] || '.delete'
+    WHEN TG_ARGV[0] = 'user' AND v_before->'is_banned' IS DISTINCT FROM v_after->'is_banned' THEN
+      CASE WHEN (v_after->>'is_banned')::BOOLEAN THEN 'user.ban' ELSE 'user.unban' END
+    WHEN TG_ARGV[0] = 'user' AND (v_before->>'role', v_before->>'admin_role') IS DISTINCT FROM (v_after->>'role', v_after->>'admin_role') THEN
+      'user.role_change'
+    WHEN TG_ARGV[0] IN ('driver', 'vehicle') AND v_before->'verification_status' IS DISTINCT FROM v_after->'verification_status' THEN
+      TG_ARGV[0] || '.' || (v_after->>'verification_status')
+    WHEN TG_ARGV[0] IN ('trip', 'booking') AND v_before->'status' IS DISTINCT FROM v_after->'status' THEN
+      TG_ARGV[0] || '.' || (v_after->>'status')
+    ELSE TG_ARGV[0] || '.update'
+  END;
+
+  INSERT INTO public.admin_audit_log (actor_id, actor_admin_role, action, entity_type, entity_id, before_data, after_data)
+  VALUES (auth.uid(), v_admin_role, v_action, TG_ARGV[0], OLD.id, v_before, v_after);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_audit_vehicles ON public.vehicles;
+CREATE TRIGGER trigger_audit_vehicles
+AFTER UPDATE OR DELETE ON public.vehicles
+FOR EACH ROW EXECUTE FUNCTION public.record_admin_change('vehicle');
+
+-- 7. MATCHING
+-- Nearby drivers by their active vehicle, which must be verified and seat
+-- at least p_min_seats passengers
+DROP FUNCTION IF EXISTS public.find_nearby_drivers(NUMERIC, NUMERIC, INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.find_nearby_drivers(
+  p_lat NUMERIC,
+  p_lng NUMERIC,
+  p_radius INTEGER DEFAULT 5000,
+  p_vehicle_type TEXT DEFAULT NULL,
+  p_organization TEXT DEFAULT NULL,
+  p_min_seats INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  driver_id UUID,
+  distance_meters DOUBLE PRECISION,
+  driver_name TEXT,
+  driver_rating NUMERIC,
+  vehicle_info TEXT,
+  current_lat NUMERIC,
+  current_lng NUMERIC,
+  organization TEXT,
+  vehicle_id UUID,
+  vehicle_type TEXT,
+  seat_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    d.id AS driver_id,
+    (
+      6371000 * acos(LEAST(1, GREATEST(-1,
+        cos(radians(p_lat)) * cos(radians(da.current_lat)) *
+        cos(radians(da.current_lng) - radians(p_lng)) +
+        sin(radians(p_lat)) * sin(radians(da.current_lat))
+      )))
+    )::DOUBLE PRECISION AS distance_meters,
+    u.full_name AS driver_name,
+    d.rating AS driver_rating,
+    v.make || ' ' || v.model AS vehicle_info,
+    da.current_lat,
+    da.current_lng,
+    u.organization,
+    v.id AS vehicle_id,
+    v.vehicle_type,
+    v.seat_count
+  FROM public.drivers d
+  JOIN public.vehicles v ON v.id = d.active_vehicle_id
+  JOIN public.driver_availability da ON da.driver_id = d.id
+  JOIN public.users u ON u.id = d.user_id
+  WHERE da.is_online = true
+    AND da.is_available = true
+    AND v.verification_status = 'verified'
+    AND v.seat_count >= COALESCE(p_min_seats, 1)
+    AND (p_vehicle_type IS NULL OR v.vehicle_type = p_vehicle_type)
+    AND (p_organization IS NULL OR u.organization = p_organization)
+    AND (
+      6371000 * acos(LEAST(1, GREATEST(-1,
+        cos(radians(p_lat)) * cos(radians(da.current_lat)) *
+        cos(radians(da.current_lng) - radians(p_lng)) +
+        sin(radians(p_lat)) * sin(radians(da.current_lat))
+      )))
+    ) <= p_radius
+  ORDER BY distance_meters ASC
+  LIMIT 10;
+END;
+$$;
+
+-- Same ranking as before, matched on the active vehicle's type and seats
+CREATE OR REPLACE FUNCTION public.rank_dispatch_candidates(
+  p_request_id UUID,
+  p_limit INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  driver_id UUID,
+  user_id UUID,
+  distance_meters DOUBLE PRECISION,
+  score NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  SELECT * INTO v_request FROM public.ride_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH nearby AS (
+    SELECT
+      d.id AS driver_id,
+      d.user_id,
+      d.rating,
+      (
+        6371000 * acos(LEAST(1, GREATEST(-1,
+          cos(radians(v_request.pickup_lat)) * cos(radians(da.current_lat)) *
+          cos(radians(da.current_lng) - radians(v_request.pickup_lng)) +
+          sin(radians(v_request.pickup_lat)) * sin(radians(da.current_lat))
+        )))
+      )::DOUBLE PRECISION AS distance_meters,
+      (
+        SELECT GREATEST(
+          (SELECT MAX(t.updated_at) FROM public.trips t WHERE t.driver_id = d.id AND t.status = 'completed'),
+          (SELECT MAX(o.responded_at) FROM public.dispatch_offers o WHERE o.driver_id = d.id AND o.status = 'accepted')
+        )
+      ) AS last_job_at
+    FROM public.drivers d
+    JOIN public.vehicles v ON v.id = d.active_vehicle_id
+    JOIN public.driver_availability da ON da.driver_id = d.id
+    JOIN public.users u ON u.id = d.user_id
+    WHERE da.is_online = true
+      AND da.is_available = true
+      AND da.current_lat IS NOT NULL
+      AND da.last_location_update >= NOW() - INTERVAL '10 minutes'
+      AND v.verification_status = 'verified'
+      AND v.vehicle_type = v_request.vehicle_type
+      AND v.seat_count >= COALESCE(v_request.seats, 1)
+      AND d.user_id <> v_request.passenger_id
+      AND (NOT COALESCE(v_request.organization_only, false) OR u.organization = v_request.organization)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.dispatch_offers o
+        WHERE o.driver_id = d.id
+          AND (o.ride_request_id = p_request_id OR (o.status = 'offered' AND o.expires_at > NOW()))
+      )
+  )
+  SELECT
+    n.driver_id,
+    n.user_id,
+    n.distance_meters,
+    ROUND((
+      0.40 * GREATEST(0, 1 - n.distance_meters / GREATEST(v_request.search_radius, 1))
+      + 0.25 * COALESCE(n.rating, 4) / 5
+      + 0.20 * public.driver_acceptance_rate(n.driver_id)
+      + 0.15 * COALESCE(LEAST(EXTRACT(EPOCH FROM NOW() - n.last_job_at) / 3600, 1), 1)
+    )::NUMERIC, 4) AS score
+  FROM nearby n
+  WHERE n.distance_meters <= v_request.search_radius
+  ORDER BY score DESC, n.distance_meters ASC
+  LIMIT p_limit;
+END;
+$$;
+
+-- 8. PERMISSIONS
+REVOKE ALL ON FUNCTION public.guard_vehicle_changes() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.sync_active_vehicle() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.sync_driver_vehicle_fields() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.verify_active_vehicle_on_approval() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.assign_trip_vehicle() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.review_vehicle(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_vehicle(UUID, BOOLEAN, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.find_nearby_drivers(NUMERIC, NUMERIC, INTEGER, TEXT, TEXT, INTEGER) TO anon, authenticated, service_role;
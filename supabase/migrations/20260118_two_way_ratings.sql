@@ -0,0 +1,459 @@
+-- ============================================
+-- Two-way Ratings
+-- Description: Drivers and passengers rate each other after a ride, with an
+-- overall score plus driving, punctuality, cleanliness and behaviour. A
+-- rating stays hidden from the person rated until they rate back or the
+-- 7-day window after drop-off closes. Each person's score is a Bayesian
+-- average kept by the database (rating_summaries, mirrored into
+-- drivers.rating) that leaves out outliers, repeat ratings from the same
+-- rater and suspected collusion. The person rated can reply once it's
+-- revealed. Ratings are written through submit_rating() only.
+-- ============================================
+
+-- 1. RATINGS
+ALTER TABLE public.ratings ADD COLUMN IF NOT EXISTS rater_role TEXT CHECK (rater_role IN ('passenger', 'driver'));
+ALTER TABLE public.ratings ADD COLUMN IF NOT EXISTS driving SMALLINT CHECK (driving BETWEEN 1 AND 5);
+ALTER TABLE public.ratings ADD COLUMN IF NOT EXISTS punctuality SMALLINT CHECK (punctuality BETWEEN 1 AND 5);
+ALTER TABLE public.ratings ADD COLUMN IF NOT EXISTS cleanliness SMALLINT CHECK (cleanliness BETWEEN 1 AND 5);
+ALTER TABLE public.ratings ADD COLUMN IF NOT EXISTS behaviour SMALLINT CHECK (behaviour BETWEEN 1 AND 5);
+-- When the person rated can see it: the window close, or earlier once they rate back
+ALTER TABLE public.ratings ADD COLUMN IF NOT EXISTS visible_at TIMESTAMPTZ;
+-- Set when the rating was last folded into the summary
+ALTER TABLE public.ratings ADD COLUMN IF NOT EXISTS aggregated_at TIMESTAMPTZ;
+-- Why the rating doesn't count towards the average: outlier, repeat or collusion
+ALTER TABLE public.ratings ADD COLUMN IF NOT EXISTS excluded_reason TEXT CHECK (excluded_reason IN ('outlier', 'repeat', 'collusion'));
+ALTER TABLE public.ratings ADD COLUMN IF NOT EXISTS response TEXT CHECK (char_length(response) <= 500);
+ALTER TABLE public.ratings ADD COLUMN IF NOT EXISTS responded_at TIMESTAMPTZ;
+
+-- Existing ratings were public already, and all of them came from passengers
+-- unless the rater drove the trip
+UPDATE public.ratings r
+SET rater_role = CASE WHEN EXISTS (
+      SELECT 1 FROM public.trips t JOIN public.drivers d ON d.id = t.driver_id
+      WHERE t.id = r.trip_id AND d.user_id = r.from_user_id
+    ) THEN 'driver' ELSE 'passenger' END
+WHERE r.rater_role IS NULL;
+
+UPDATE public.ratings SET visible_at = created_at WHERE visible_at IS NULL;
+
+ALTER TABLE public.ratings ALTER COLUMN rater_role SET NOT NULL;
+ALTER TABLE public.ratings ALTER COLUMN visible_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ratings_to_user ON public.ratings(to_user_id, rater_role, visible_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ratings_pair ON public.ratings(trip_id, from_user_id, to_user_id);
+CREATE INDEX IF NOT EXISTS idx_ratings_unaggregated ON public.ratings(visible_at) WHERE aggregated_at IS NULL;
+
+-- 2. SUMMARIES
+-- role is the side the person was rated on
+CREATE TABLE IF NOT EXISTS public.rating_summaries (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('passenger', 'driver')),
+  rating NUMERIC(3,2),
+  rating_count INTEGER NOT NULL DEFAULT 0,
+  excluded_count INTEGER NOT NULL DEFAULT 0,
+  -- Plain average of each category over the counted ratings
+  categories JSONB NOT NULL DEFAULT '{}'::JSONB,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, role)
+);
+
+-- 3. RLS
+ALTER TABLE public.rating_summaries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Public view rating summaries" ON public.rating_summaries;
+CREATE POLICY "Public view rating summaries" ON public.rating_summaries FOR SELECT USING (true);
+
+-- Hidden ratings are visible to their author only
+DROP POLICY IF EXISTS "Public view ratings" ON public.ratings;
+DROP POLICY IF EXISTS "View revealed ratings" ON public.ratings;
+CREATE POLICY "View revealed ratings" ON public.ratings
+FOR SELECT
+USING (
+  visible_at <= NOW()
+  OR from_user_id = auth.uid()
+  OR public.has_admin_permission('support.manage')
+);
+
+-- Writes go through submit_rating() and respond_to_rating()
+DROP POLICY IF EXISTS "Users can create ratings" ON public.ratings;
+REVOKE INSERT, UPDATE, DELETE ON public.ratings FROM anon, authenticated;
+
+-- 4. HELPERS
+-- Ratings for a ride can be left for 7 days after the passenger was dropped off
+CREATE OR REPLACE FUNCTION public.rating_window_closes_at(p_trip_id UUID, p_passenger_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(
+    (SELECT MIN(h.created_at) FROM public.status_history h
+     WHERE h.entity_type = 'booking' AND h.entity_id = b.id
+       AND h.to_status IN ('payment_pending', 'completed')),
+    b.updated_at
+  ) + INTERVAL '7 days'
+  FROM public.bookings b
+  WHERE b.trip_id = p_trip_id
+    AND b.passenger_id = p_passenger_id
+    AND b.status IN ('payment_pending', 'completed')
+  ORDER BY b.updated_at DESC
+  LIMIT 1;
+$$;
+
+-- Recompute one person's score on one side. Only revealed ratings count.
+--   * repeat:    a rater's ratings beyond their 3 most recent of this person
+--   * collusion: the two rated each other five stars on every shared ride
+--                (3 or more) and the rater has rated nobody else
+--   * outlier:   with 5 or more counted ratings, anything 3+ stars from the median
+-- The score is (5 * 4.5 + sum) / (5 + count): a newcomer starts near 4.5 and
+-- moves towards their own average as ratings come in.
+CREATE OR REPLACE FUNCTION public.refresh_rating_summary(p_user_id UUID, p_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_rater_role TEXT := CASE WHEN p_role = 'driver' THEN 'passenger' ELSE 'driver' END;
+  v_median NUMERIC;
+  v_count INTEGER;
+  v_sum NUMERIC;
+  v_rating NUMERIC(3,2);
+BEGIN
+  UPDATE public.ratings
+  SET excluded_reason = NULL
+  WHERE to_user_id = p_user_id AND rater_role = v_rater_role AND excluded_reason IS NOT NULL;
+
+  UPDATE public.ratings r
+  SET excluded_reason = 'repeat'
+  FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY from_user_id ORDER BY created_at DESC) AS n
+    FROM public.ratings
+    WHERE to_user_id = p_user_id AND rater_role = v_rater_role AND visible_at <= NOW()
+  ) ranked
+  WHERE r.id = ranked.id AND ranked.n > 3;
+
+  UPDATE public.ratings r
+  SET excluded_reason = 'collusion'
+  WHERE r.to_user_id = p_user_id AND r.rater_role = v_rater_role AND r.visible_at <= NOW()
+    AND r.from_user_id IN (
+      SELECT given.from_user_id
+      FROM public.ratings given
+      JOIN public.ratings back
+        ON back.trip_id = given.trip_id
+       AND back.from_user_id = given.to_user_id
+       AND back.to_user_id = given.from_user_id
+      WHERE given.to_user_id = p_user_id AND given.rater_role = v_rater_role
+      GROUP BY given.from_user_id
+      HAVING COUNT(*) >= 3
+         AND bool_and(given.rating = 5 AND back.rating = 5)
+         AND NOT EXISTS (
+           SELECT 1 FROM public.ratings other
+           WHERE other.from_user_id = given.from_user_id AND other.to_user_id <> p_user_id
+         )
+    );
+
+  SELECT percentile_cont(0.5) WITHIN GROUP (ORDER BY rating), COUNT(*)
+  INTO v_median, v_count
+  FROM public.ratings
+  WHERE to_user_id = p_user_id AND rater_role = v_rater_role
+    AND visible_at <= NOW() AND excluded_reason IS NULL;
+
+  IF v_count >= 5 THEN
+    UPDATE public.ratings
+    SET excluded_reason = 'outlier'
+    WHERE to_user_id = p_user_id AND rater_role = v_rater_role
+      AND visible_at <= NOW() AND excluded_reason IS NULL
+      AND ABS(rating - v_median) >= 3;
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(rating), 0)
+  INTO v_count, v_sum
+  FROM public.ratings
+  WHERE to_user_id = p_user_id AND rater_role = v_rater_role
+    AND visible_at <= NOW() AND excluded_reason IS NULL;
+
+  v_rating := CASE WHEN v_count > 0 THEN (5 * 4.5 + v_sum) / (5 + v_count) END;
+
+  INSERT INTO public.rating_summaries (user_id, role, rating, rating_count, excluded_count, categories, updated_at)
+  SELECT p_user_id, p_role, v_rating, v_count,
+         (SELECT COUNT(*) FROM public.ratings
+          WHERE to_user_id = p_user_id AND rater_role = v_rater_role AND excluded_reason IS NOT NULL),
+         jsonb_strip_nulls(jsonb_build_object(
+           'driving', ROUND(AVG(driving), 2),
+           'punctuality', ROUND(AVG(punctuality), 2),
+           'cleanliness', ROUND(AVG(cleanliness), 2),
+           'behaviour', ROUND(AVG(behaviour), 2)
+         )),
+         NOW()
+  FROM public.ratings
+  WHERE to_user_id = p_user_id AND rater_role = v_rater_role
+    AND visible_at <= NOW() AND excluded_reason IS NULL
+  ON CONFLICT (user_id, role) DO UPDATE
+  SET rating = EXCLUDED.rating,
+      rating_count = EXCLUDED.rating_count,
+      excluded_count = EXCLUDED.excluded_count,
+      categories = EXCLUDED.categories,
+      updated_at = NOW();
+
+  UPDATE public.ratings
+  SET aggregated_at = NOW()
+  WHERE to_user_id = p_user_id AND rater_role = v_rater_role
+    AND visible_at <= NOW() AND aggregated_at IS NULL;
+
+  IF p_role = 'driver' THEN
+    PERFORM set_config('app.rating_refresh', 'on', true);
+    UPDATE public.drivers SET rating = v_rating WHERE user_id = p_user_id;
+    PERFORM set_config('app.rating_refresh', 'off', true);
+  END IF;
+END;
+$$;
+
+-- 5. ENFORCEMENT
+-- drivers.rating is maintained by refresh_rating_summary(); apps can't set it
+CREATE OR REPLACE FUNCTION public.protect_driver_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR COALESCE(current_setting('app.rating_refresh', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.rating := NULL;
+  ELSE
+    NEW.rating := OLD.rating;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_driver_rating ON public.drivers;
+CREATE TRIGGER trigger_protect_driver_rating
+BEFORE INSERT OR UPDATE OF rating ON public.drivers
+FOR EACH ROW EXECUTE FUNCTION public.protect_driver_rating();
+
+-- 6. SUBMIT & RESPOND
+-- p_categories holds any of driving, punctuality, cleanliness and behaviour
+-- (1-5). driving only applies when rating a driver.
+CREATE OR REPLACE FUNCTION public.submit_rating(
+  p_trip_id UUID,
+  p_to_user_id UUID,
+  p_rating INTEGER,
+  p_categories JSONB DEFAULT '{}'::JSONB,
+  p_review TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_driver_user_id UUID;
+  v_rater_role TEXT;
+  v_closes_at TIMESTAMPTZ;
+  v_key TEXT;
+  v_score INTEGER;
+  v_rating_id UUID;
+  v_counterpart_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating NOT BETWEEN 1 AND 5 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Rating must be between 1 and 5');
+  END IF;
+
+  SELECT d.user_id INTO v_driver_user_id
+  FROM public.trips t JOIN public.drivers d ON d.id = t.driver_id
+  WHERE t.id = p_trip_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  IF auth.uid() = v_driver_user_id THEN
+    v_rater_role := 'driver';
+    v_closes_at := public.rating_window_closes_at(p_trip_id, p_to_user_id);
+  ELSIF p_to_user_id = v_driver_user_id THEN
+    v_rater_role := 'passenger';
+    v_closes_at := public.rating_window_closes_at(p_trip_id, auth.uid());
+  END IF;
+
+  IF v_rater_role IS NULL OR v_closes_at IS NULL OR p_to_user_id = auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You can only rate people you completed this ride with');
+  END IF;
+
+  IF v_closes_at < NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Ratings for this ride have closed');
+  END IF;
+
+  FOR v_key IN SELECT jsonb_object_keys(COALESCE(p_categories, '{}'::JSONB)) LOOP
+    IF v_key NOT IN ('driving', 'punctuality', 'cleanliness', 'behaviour')
+       OR (v_key = 'driving' AND v_rater_role = 'driver') THEN
+      RETURN jsonb_build_object('success', false, 'error', format('Unknown rating category %s', v_key));
+    END IF;
+
+    v_score := (p_categories->>v_key)::INTEGER;
+    IF v_score NOT BETWEEN 1 AND 5 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Ratings must be between 1 and 5');
+    END IF;
+  END LOOP;
+
+  -- Serialise the two sides of the same ride
+  PERFORM 1 FROM public.trips WHERE id = p_trip_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.ratings
+    WHERE trip_id = p_trip_id AND from_user_id = auth.uid() AND to_user_id = p_to_user_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You have already rated this ride');
+  END IF;
+
+  INSERT INTO public.ratings (
+    trip_id, from_user_id, to_user_id, rater_role, rating,
+    driving, punctuality, cleanliness, behaviour, review, visible_at
+  ) VALUES (
+    p_trip_id, auth.uid(), p_to_user_id, v_rater_role, p_rating,
+    (p_categories->>'driving')::SMALLINT,
+    (p_categories->>'punctuality')::SMALLINT,
+    (p_categories->>'cleanliness')::SMALLINT,
+    (p_categories->>'behaviour')::SMALLINT,
+    NULLIF(btrim(p_review), ''),
+    v_closes_at
+  )
+  RETURNING id INTO v_rating_id;
+
+  SELECT id INTO v_counterpart_id
+  FROM public.ratings
+  WHERE trip_id = p_trip_id AND from_user_id = p_to_user_id AND to_user_id = auth.uid();
+
+  IF v_counterpart_id IS NULL THEN
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      p_to_user_id,
+      'You Have a New Rating',
+      'Rate your ride to see what they said.',
+      'rating_pending',
+      jsonb_build_object('tripId', p_trip_id)
+    );
+
+    RETURN jsonb_build_object('success', true, 'revealed', false, 'visible_at', v_closes_at);
+  END IF;
+
+  -- Both sides are in: reveal both and count them
+  UPDATE public.ratings SET visible_at = NOW() WHERE id IN (v_rating_id, v_counterpart_id);
+
+  PERFORM public.refresh_rating_summary(p_to_user_id, CASE WHEN v_rater_role = 'passenger' THEN 'driver' ELSE 'passenger' END);
+  PERFORM public.refresh_rating_summary(auth.uid(), v_rater_role);
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  VALUES (
+    p_to_user_id,
+    'Ratings Revealed',
+    'You can now see how your ride was rated.',
+    'rating_revealed',
+    jsonb_build_object('tripId', p_trip_id, 'ratingId', v_rating_id)
+  );
+
+  RETURN jsonb_build_object('success', true, 'revealed', true);
+END;
+$$;
+
+-- The person rated can reply publicly once the rating is revealed
+CREATE OR REPLACE FUNCTION public.respond_to_rating(p_rating_id UUID, p_response TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_rating RECORD;
+BEGIN
+  SELECT * INTO v_rating FROM public.ratings WHERE id = p_rating_id FOR UPDATE;
+
+  IF NOT FOUND OR v_rating.to_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Rating not found';
+  END IF;
+
+  IF v_rating.visible_at > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This rating has not been revealed yet');
+  END IF;
+
+  IF char_length(btrim(COALESCE(p_response, ''))) NOT BETWEEN 1 AND 500 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Replies must be between 1 and 500 characters');
+  END IF;
+
+  UPDATE public.ratings
+  SET response = btrim(p_response), responded_at = NOW()
+  WHERE id = p_rating_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- 7. REVEAL SWEEP
+-- Counts ratings whose window closed without the other side rating back
+CREATE OR REPLACE FUNCTION public.process_rating_reveals()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_target RECORD;
+  v_refreshed INTEGER := 0;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  FOR v_target IN
+    SELECT DISTINCT r.to_user_id, CASE WHEN r.rater_role = 'passenger' THEN 'driver' ELSE 'passenger' END AS role
+    FROM public.ratings r
+    WHERE r.aggregated_at IS NULL AND r.visible_at <= NOW()
+  LOOP
+    PERFORM public.refresh_rating_summary(v_target.to_user_id, v_target.role);
+    v_refreshed := v_refreshed + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('refreshed', v_refreshed);
+END;
+$$;
+
+-- Fold in the ratings that were already public
+DO $$
+DECLARE
+  v_target RECORD;
+BEGIN
+  FOR v_target IN
+    SELECT DISTINCT r.to_user_id, CASE WHEN r.rater_role = 'passenger' THEN 'driver' ELSE 'passenger' END AS role
+    FROM public.ratings r
+    WHERE r.aggregated_at IS NULL
+  LOOP
+    PERFORM public.refresh_rating_summary(v_target.to_user_id, v_target.role);
+  END LOOP;
+END $$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('rating-reveals', '15 * * * *', $job$
+      SELECT set_config('request.jwt.claim.role', 'service_role', true);
+      SELECT public.process_rating_reveals();
+    $job$);
+  END IF;
+END $$;
+
+-- 8. PERMISSIONS
+REVOKE ALL ON FUNCTION public.refresh_rating_summary(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.protect_driver_rating() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.process_rating_reveals() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.submit_rating(UUID, UUID, INTEGER, JSONB, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.respond_to_rating(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_rating(UUID, UUID, INTEGER, JSONB, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.respond_to_rating(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.rating_window_closes_at(UUID, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.process_rating_reveals() TO service_role;
+GRANT SELECT ON public.rating_summaries TO anon, authenticated;
+GRANT ALL ON public.rating_summaries TO service_role;
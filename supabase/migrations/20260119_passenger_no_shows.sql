@@ -0,0 +1,558 @@
+-- ============================================
+-- Passenger No-shows & Reliability
+-- Description: A driver checks in at a passenger's pickup, and the latest
+-- live_locations fix has to put them within the geofence. Once the wait
+-- (5 minutes by default) has run out, and they are still there, they can
+-- report a no-show. The booking is cancelled and a no-show fee goes to the
+-- driver through the ledger. If the passenger paid upfront, the fee is kept
+-- and the rest goes back to their wallet. Otherwise the fee is taken from
+-- their wallet, as far as the balance allows. Every passenger has a
+-- reliability score built from completed rides, no-shows and late
+-- cancellations. A driver can ask to approve bookings themselves when the
+-- passenger's score is below a threshold.
+-- ============================================
+
+-- 1. SETTINGS
+ALTER TABLE public.system_settings ADD COLUMN IF NOT EXISTS no_show_policy JSONB DEFAULT '{
+  "wait_minutes": 5,
+  "radius_m": 150,
+  "fee_percent": 50,
+  "min_fee": 30,
+  "max_fee": 200
+}'::jsonb;
+
+UPDATE public.system_settings
+SET no_show_policy = '{"wait_minutes": 5, "radius_m": 150, "fee_percent": 50, "min_fee": 30, "max_fee": 200}'::jsonb
+WHERE no_show_policy IS NULL;
+
+-- 2. PICKUP WAITS
+-- One row per booking the driver checked in for; no_show_at is set when
+-- they report the passenger missing. Distances are the geofence evidence.
+CREATE TABLE IF NOT EXISTS public.pickup_waits (
+  booking_id UUID PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  passenger_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  arrived_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  arrival_distance_m NUMERIC(8,1) NOT NULL,
+  wait_until TIMESTAMPTZ NOT NULL,
+  no_show_at TIMESTAMPTZ,
+  no_show_distance_m NUMERIC(8,1),
+  fee_amount DECIMAL(10,2),
+  fee_charged DECIMAL(10,2),
+  -- Part of the fee the wallet couldn't cover
+  fee_outstanding DECIMAL(10,2),
+  ledger_transaction_id UUID REFERENCES public.ledger_transactions(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pickup_waits_passenger_no_show ON public.pickup_waits(passenger_id, no_show_at) WHERE no_show_at IS NOT NULL;
+
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS reliability_score NUMERIC(5,2) NOT NULL DEFAULT 100;
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS no_show_count INTEGER NOT NULL DEFAULT 0;
+
+-- Bookings from passengers below this score wait for the driver's approval
+ALTER TABLE public.drivers ADD COLUMN IF NOT EXISTS min_auto_approve_reliability INTEGER
+  CHECK (min_auto_approve_reliability BETWEEN 0 AND 100);
+
+-- 3. RLS
+-- Written through the functions below only
+ALTER TABLE public.pickup_waits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "View own pickup waits" ON public.pickup_waits;
+CREATE POLICY "View own pickup waits" ON public.pickup_waits
+FOR SELECT
+USING (
+  passenger_id = auth.uid()
+  OR EXISTS (SELECT 1 FROM public.drivers d WHERE d.id = driver_id AND d.user_id = auth.uid())
+  OR public.has_admin_permission('bookings.manage')
+);
+
+GRANT SELECT ON public.pickup_waits TO authenticated;
+GRANT ALL ON public.pickup_waits TO service_role;
+
+-- 4. HELPERS
+CREATE OR REPLACE FUNCTION public.no_show_policy()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(
+    (SELECT no_show_policy FROM public.system_settings ORDER BY updated_at DESC NULLS LAST LIMIT 1),
+    '{"wait_minutes": 5, "radius_m": 150, "fee_percent": 50, "min_fee": 30, "max_fee": 200}'::jsonb
+  );
+$$;
+
+-- Metres between the driver's latest fix on the booking's trip and the
+-- passenger's pickup. NULL when there is no fix from the last 2 minutes,
+-- or when the caller is neither the booking's passenger nor its driver.
+CREATE OR REPLACE FUNCTION public.driver_distance_from_pickup(p_booking_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT ROUND(public.distance_km(l.lat, l.lng, b.pickup_lat, b.pickup_lng) * 1000, 1)
+  FROM public.bookings b
+  JOIN public.trips t ON t.id = b.trip_id
+  JOIN public.drivers d ON d.id = t.driver_id
+  JOIN public.live_locations l ON l.trip_id = b.trip_id
+  WHERE b.id = p_booking_id
+    AND (auth.uid() IN (b.passenger_id, d.user_id) OR public.is_service_role())
+    AND l.updated_at >= NOW() - INTERVAL '2 minutes'
+  ORDER BY l.updated_at DESC
+  LIMIT 1;
+$$;
+
+-- Completed rides, no-shows (weighted 3x) and passenger cancellations less
+-- than 2 hours before departure over the last 180 days. Five phantom
+-- completed rides keep newcomers at 100 and soften a single slip.
+CREATE OR REPLACE FUNCTION public.refresh_passenger_reliability(p_user_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_completed INTEGER;
+  v_no_shows INTEGER;
+  v_late INTEGER;
+  v_score NUMERIC(5,2);
+BEGIN
+  SELECT COUNT(*) INTO v_completed
+  FROM public.bookings
+  WHERE passenger_id = p_user_id AND status = 'completed'
+    AND updated_at >= NOW() - INTERVAL '180 days';
+
+  SELECT COUNT(*) INTO v_no_shows
+  FROM public.pickup_waits
+  WHERE passenger_id = p_user_id AND no_show_at >= NOW() - INTERVAL '180 days';
+
+  SELECT COUNT(*) INTO v_late
+  FROM public.booking_cancellations c
+  JOIN public.bookings b ON b.id = c.booking_id
+  WHERE b.passenger_id = p_user_id
+    AND c.actor_role = 'passenger'
+    AND c.hours_before_departure < 2
+    AND c.created_at >= NOW() - INTERVAL '180 days';
+
+  v_score := ROUND(100.0 * (v_completed + 5) / (v_completed + 5 + 3 * v_no_shows + v_late), 2);
+
+  PERFORM set_config('app.reliability_refresh', 'on', true);
+  UPDATE public.users
+  SET reliability_score = v_score,
+      no_show_count = (SELECT COUNT(*) FROM public.pickup_waits WHERE passenger_id = p_user_id AND no_show_at IS NOT NULL)
+  WHERE id = p_user_id;
+  PERFORM set_config('app.reliability_refresh', 'off', true);
+
+  RETURN v_score;
+END;
+$$;
+
+-- Credit a booking refund to the passenger's wallet, reversing the driver's
+-- share. Same ledger shape and idempotency key as wallet_refund_booking(),
+-- without its service-role check, for the driver-initiated flows below.
+CREATE OR REPLACE FUNCTION public.refund_booking_to_wallet(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_passenger_id UUID;
+  v_transaction_id UUID;
+  v_wallet_id UUID;
+BEGIN
+  SELECT passenger_id INTO v_passenger_id FROM public.bookings WHERE id = p_booking_id;
+
+  v_transaction_id := public.post_ledger_transaction(
+    p_description,
+    'refund',
+    p_booking_id::text,
+    public.booking_split_entries(p_booking_id, p_amount, 'debit')
+      || jsonb_build_array(jsonb_build_object(
+        'account_id', public.get_ledger_account('passenger_wallet', v_passenger_id),
+        'direction', 'credit',
+        'amount', p_amount
+      )),
+    'refund:' || p_booking_id
+  );
+
+  SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = v_passenger_id;
+
+  IF NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE ledger_transaction_id = v_transaction_id) THEN
+    INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, ledger_transaction_id)
+    VALUES (v_wallet_id, 'credit', p_amount, p_description, p_booking_id::text, 'refund', 'completed', v_transaction_id);
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- 5. ENFORCEMENT
+-- reliability_score and no_show_count are kept by refresh_passenger_reliability()
+CREATE OR REPLACE FUNCTION public.protect_reliability_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND COALESCE(current_setting('app.reliability_refresh', true), 'off') <> 'on' THEN
+    NEW.reliability_score := OLD.reliability_score;
+    NEW.no_show_count := OLD.no_show_count;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_reliability_score ON public.users;
+CREATE TRIGGER trigger_protect_reliability_score
+BEFORE UPDATE OF reliability_score, no_show_count ON public.users
+FOR EACH ROW EXECUTE FUNCTION public.protect_reliability_score();
+
+CREATE OR REPLACE FUNCTION public.refresh_reliability_on_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'booking_cancellations' THEN
+    PERFORM public.refresh_passenger_reliability(b.passenger_id)
+    FROM public.bookings b WHERE b.id = NEW.booking_id;
+  ELSIF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM public.refresh_passenger_reliability(NEW.passenger_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_refresh_reliability_on_completion ON public.bookings;
+CREATE TRIGGER trigger_refresh_reliability_on_completion
+AFTER UPDATE OF status ON public.bookings
+FOR EACH ROW EXECUTE FUNCTION public.refresh_reliability_on_booking();
+
+DROP TRIGGER IF EXISTS trigger_refresh_reliability_on_cancellation ON public.booking_cancellations;
+CREATE TRIGGER trigger_refresh_reliability_on_cancellation
+AFTER INSERT ON public.booking_cancellations
+FOR EACH ROW EXECUTE FUNCTION public.refresh_reliability_on_booking();
+
+-- A passenger's own booking below the driver's threshold starts as a
+-- request the driver approves or declines
+CREATE OR REPLACE FUNCTION public.apply_booking_auto_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_driver RECORD;
+  v_score NUMERIC;
+BEGIN
+  IF NEW.status <> 'confirmed' OR NEW.trip_id IS NULL OR auth.uid() IS DISTINCT FROM NEW.passenger_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT d.user_id, d.min_auto_approve_reliability INTO v_driver
+  FROM public.trips t JOIN public.drivers d ON d.id = t.driver_id
+  WHERE t.id = NEW.trip_id;
+
+  IF v_driver.min_auto_approve_reliability IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT reliability_score INTO v_score FROM public.users WHERE id = NEW.passenger_id;
+
+  IF COALESCE(v_score, 100) < v_driver.min_auto_approve_reliability THEN
+    NEW.status := 'pending';
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      v_driver.user_id,
+      'Booking Request',
+      format('A passenger with a reliability score of %s wants to join your trip.', ROUND(COALESCE(v_score, 100))),
+      'booking_request',
+      jsonb_build_object('bookingId', NEW.id, 'tripId', NEW.trip_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_apply_booking_auto_approval ON public.bookings;
+CREATE TRIGGER trigger_apply_booking_auto_approval
+BEFORE INSERT ON public.bookings
+FOR EACH ROW EXECUTE FUNCTION public.apply_booking_auto_approval();
+
+-- 6. BOOKING REQUESTS
+CREATE OR REPLACE FUNCTION public.respond_to_booking_request(p_booking_id UUID, p_approve BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+BEGIN
+  SELECT b.*, d.user_id AS driver_user_id INTO v_booking
+  FROM public.bookings b
+  JOIN public.trips t ON t.id = b.trip_id
+  JOIN public.drivers d ON d.id = t.driver_id
+  WHERE b.id = p_booking_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.driver_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', format('Booking is already %s', v_booking.status));
+  END IF;
+
+  IF p_approve THEN
+    UPDATE public.bookings SET status = 'confirmed', updated_at = NOW() WHERE id = p_booking_id;
+  ELSE
+    IF v_booking.payment_status IN ('paid', 'success', 'PAID') AND COALESCE(v_booking.total_amount, 0) > 0 THEN
+      PERFORM public.refund_booking_to_wallet(p_booking_id, v_booking.total_amount, 'Booking request declined');
+    END IF;
+
+    UPDATE public.bookings
+    SET status = 'rejected',
+        payment_status = CASE WHEN payment_status IN ('paid', 'success', 'PAID') THEN 'refunded' ELSE payment_status END,
+        updated_at = NOW()
+    WHERE id = p_booking_id;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  VALUES (
+    v_booking.passenger_id,
+    CASE WHEN p_approve THEN 'Booking Confirmed' ELSE 'Booking Declined' END,
+    CASE WHEN p_approve
+      THEN 'The driver approved your booking.'
+      ELSE 'The driver declined your booking request. Any payment has been refunded to your wallet.'
+    END,
+    'booking',
+    jsonb_build_object('booking_id', p_booking_id, 'trip_id', v_booking.trip_id)
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- 7. ARRIVAL & NO-SHOW
+CREATE OR REPLACE FUNCTION public.mark_arrived_at_pickup(p_booking_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_policy JSONB := public.no_show_policy();
+  v_distance NUMERIC;
+  v_wait_until TIMESTAMPTZ;
+BEGIN
+  SELECT b.*, t.driver_id AS trip_driver_id, d.user_id AS driver_user_id INTO v_booking
+  FROM public.bookings b
+  JOIN public.trips t ON t.id = b.trip_id
+  JOIN public.drivers d ON d.id = t.driver_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND OR v_booking.driver_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This passenger is not waiting for pickup');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.pickup_waits WHERE booking_id = p_booking_id) THEN
+    RETURN jsonb_build_object('success', true, 'wait_until', (SELECT wait_until FROM public.pickup_waits WHERE booking_id = p_booking_id));
+  END IF;
+
+  v_distance := public.driver_distance_from_pickup(p_booking_id);
+
+  IF v_distance IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'We have no recent location for you. Turn on location sharing and try again.');
+  END IF;
+
+  IF v_distance > (v_policy->>'radius_m')::NUMERIC THEN
+    RETURN jsonb_build_object('success', false, 'error', format('You are %sm from the pickup point', ROUND(v_distance)));
+  END IF;
+
+  v_wait_until := NOW() + make_interval(mins => (v_policy->>'wait_minutes')::INTEGER);
+
+  INSERT INTO public.pickup_waits (booking_id, trip_id, passenger_id, driver_id, arrival_distance_m, wait_until)
+  VALUES (p_booking_id, v_booking.trip_id, v_booking.passenger_id, v_booking.trip_driver_id, v_distance, v_wait_until);
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  VALUES (
+    v_booking.passenger_id,
+    'Your Driver Is Here',
+    format('Your driver is waiting at %s until %s. A no-show fee applies after that.',
+           v_booking.pickup_location, to_char(v_wait_until AT TIME ZONE 'Asia/Kolkata', 'HH12:MI AM')),
+    'driver_arrived',
+    jsonb_build_object('bookingId', p_booking_id, 'tripId', v_booking.trip_id, 'waitUntil', v_wait_until)
+  );
+
+  RETURN jsonb_build_object('success', true, 'wait_until', v_wait_until);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_passenger_no_show(p_booking_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_wait RECORD;
+  v_policy JSONB := public.no_show_policy();
+  v_distance NUMERIC;
+  v_paid NUMERIC := 0;
+  v_fee NUMERIC;
+  v_charged NUMERIC := 0;
+  v_refund NUMERIC := 0;
+  v_wallet_account UUID;
+  v_wallet_id UUID;
+  v_transaction_id UUID;
+BEGIN
+  SELECT b.*, t.departure_time, COALESCE(t.trip_type, 'carpool') AS trip_type, d.user_id AS driver_user_id
+  INTO v_booking
+  FROM public.bookings b
+  JOIN public.trips t ON t.id = b.trip_id
+  JOIN public.drivers d ON d.id = t.driver_id
+  WHERE b.id = p_booking_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.driver_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This passenger is not waiting for pickup');
+  END IF;
+
+  SELECT * INTO v_wait FROM public.pickup_waits WHERE booking_id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Check in at the pickup point first');
+  END IF;
+
+  IF NOW() < v_wait.wait_until THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The wait time has not run out yet', 'wait_until', v_wait.wait_until);
+  END IF;
+
+  v_distance := public.driver_distance_from_pickup(p_booking_id);
+
+  IF v_distance IS NULL OR v_distance > (v_policy->>'radius_m')::NUMERIC THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Your location no longer shows you at the pickup point');
+  END IF;
+
+  v_fee := LEAST(
+    COALESCE(v_booking.total_amount, 0),
+    GREATEST(
+      (v_policy->>'min_fee')::NUMERIC,
+      LEAST((v_policy->>'max_fee')::NUMERIC, ROUND(COALESCE(v_booking.total_amount, 0) * (v_policy->>'fee_percent')::NUMERIC / 100, 2))
+    )
+  );
+
+  IF v_booking.payment_status IN ('paid', 'success', 'PAID') THEN
+    -- Prepaid: keep the fee, refund the rest
+    v_paid := COALESCE(v_booking.total_amount, 0);
+    v_charged := v_fee;
+    v_refund := v_paid - v_fee;
+
+    IF v_refund > 0 THEN
+      PERFORM public.refund_booking_to_wallet(p_booking_id, v_refund, 'No-show refund (fee kept)');
+    END IF;
+  ELSIF v_fee > 0 THEN
+    -- Pay-later: take what the wallet can cover
+    v_wallet_account := public.get_ledger_account('passenger_wallet', v_booking.passenger_id);
+    v_charged := LEAST(v_fee, GREATEST(public.ledger_account_balance(v_wallet_account), 0));
+
+    IF v_charged > 0 THEN
+      v_transaction_id := public.post_ledger_transaction(
+        'No-show fee',
+        'booking',
+        p_booking_id::text,
+        jsonb_build_array(jsonb_build_object('account_id', v_wallet_account, 'direction', 'debit', 'amount', v_charged))
+          || public.booking_split_entries(p_booking_id, v_charged, 'credit'),
+        'no_show:' || p_booking_id
+      );
+
+      SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = v_booking.passenger_id;
+
+      INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, ledger_transaction_id)
+      VALUES (v_wallet_id, 'debit', v_charged, 'No-show fee', p_booking_id::text, 'booking', 'completed', v_transaction_id);
+    END IF;
+  END IF;
+
+  UPDATE public.pickup_waits
+  SET no_show_at = NOW(),
+      no_show_distance_m = v_distance,
+      fee_amount = v_fee,
+      fee_charged = v_charged,
+      fee_outstanding = v_fee - v_charged,
+      ledger_transaction_id = v_transaction_id
+  WHERE booking_id = p_booking_id;
+
+  UPDATE public.bookings
+  SET status = 'cancelled',
+      payment_status = CASE WHEN v_refund > 0 THEN 'refunded' ELSE payment_status END,
+      updated_at = NOW()
+  WHERE id = p_booking_id;
+
+  INSERT INTO public.booking_cancellations (
+    booking_id, trip_id, cancelled_by, actor_role, reason, trip_type,
+    hours_before_departure, paid_amount, refund_percent, refund_amount,
+    refund_method, refund_status
+  ) VALUES (
+    p_booking_id, v_booking.trip_id, auth.uid(), 'driver', 'Passenger did not show up', v_booking.trip_type,
+    ROUND((EXTRACT(EPOCH FROM (v_booking.departure_time - NOW())) / 3600)::numeric, 2),
+    v_paid,
+    CASE WHEN v_paid > 0 THEN ROUND(v_refund * 100 / v_paid, 2) ELSE 0 END,
+    v_refund,
+    CASE WHEN v_refund > 0 THEN 'wallet' ELSE 'none' END,
+    CASE WHEN v_refund > 0 THEN 'processed' ELSE 'not_applicable' END
+  );
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  VALUES (
+    v_booking.passenger_id,
+    'Marked as No-show',
+    format('Your driver waited at %s but you did not turn up. A no-show fee of ₹%s was charged%s.',
+           v_booking.pickup_location, v_fee,
+           CASE WHEN v_refund > 0 THEN format(' and ₹%s refunded to your wallet', v_refund) ELSE '' END),
+    'no_show',
+    jsonb_build_object('bookingId', p_booking_id, 'fee', v_fee, 'charged', v_charged, 'refund', v_refund)
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'fee', v_fee,
+    'charged', v_charged,
+    'outstanding', v_fee - v_charged,
+    'refund', v_refund
+  );
+END;
+$$;
+
+-- 8. PERMISSIONS
+REVOKE ALL ON FUNCTION public.refresh_passenger_reliability(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.refund_booking_to_wallet(UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.protect_reliability_score() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.refresh_reliability_on_booking() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.apply_booking_auto_approval() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.driver_distance_from_pickup(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.respond_to_booking_request(UUID, BOOLEAN) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.mark_arrived_at_pickup(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.report_passenger_no_show(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.no_show_policy() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.driver_distance_from_pickup(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.respond_to_booking_request(UUID, BOOLEAN) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.mark_arrived_at_pickup(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.report_passenger_no_show(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_passenger_reliability(UUID) TO service_role;
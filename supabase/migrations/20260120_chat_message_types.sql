@@ -0,0 +1,183 @@
+-- ============================================
+-- Trip Chat Message Types & Read Receipts
+-- Description: Trip chat messages get a type. Besides text, a message can be
+-- a location pin, a photo or a canned quick reply. Photos live in a private
+-- chat-attachments bucket under <sender_id>/<trip_id>/, and only people on
+-- the trip can read them. Messages record when they were read, and only the
+-- receiver can mark them read. Typing indicators are realtime broadcasts and
+-- never touch the database.
+-- ============================================
+
+-- 1. MESSAGE COLUMNS
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS message_type TEXT NOT NULL DEFAULT 'text';
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'location', 'image', 'quick_reply'));
+
+-- location: {lat, lng, accuracy?}; image: {path, width?, height?}; quick_reply: {key}
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS attachment JSONB;
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+
+UPDATE public.messages SET read_at = created_at WHERE is_read AND read_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_unread ON public.messages(receiver_id, trip_id) WHERE NOT is_read;
+
+-- 2. HELPERS
+-- The trip's driver, or a passenger with a booking on it
+CREATE OR REPLACE FUNCTION public.is_trip_participant(p_trip_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.trips t
+    JOIN public.drivers d ON d.id = t.driver_id
+    WHERE t.id = p_trip_id AND d.user_id = p_user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.bookings b
+    WHERE b.trip_id = p_trip_id AND b.passenger_id = p_user_id
+  );
+$$;
+
+-- Storage policy check for chat-attachments/<sender_id>/<trip_id>/<file>
+CREATE OR REPLACE FUNCTION public.can_access_chat_attachment(p_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_folders TEXT[] := storage.foldername(p_name);
+BEGIN
+  RETURN public.is_trip_participant(v_folders[2]::uuid, auth.uid());
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN false;
+END;
+$$;
+
+-- 3. ENFORCEMENT
+CREATE OR REPLACE FUNCTION public.validate_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF auth.uid() IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    -- Sent messages are immutable; the receiver can only mark them read
+    IF auth.uid() IS DISTINCT FROM OLD.receiver_id
+       OR (NEW.message, NEW.message_type, NEW.attachment, NEW.sender_id, NEW.receiver_id, NEW.trip_id)
+          IS DISTINCT FROM (OLD.message, OLD.message_type, OLD.attachment, OLD.sender_id, OLD.receiver_id, OLD.trip_id) THEN
+      RAISE EXCEPTION 'Messages cannot be edited';
+    END IF;
+
+    NEW.is_read := OLD.is_read OR NEW.is_read;
+    NEW.read_at := CASE WHEN NEW.is_read THEN COALESCE(OLD.read_at, NOW()) END;
+    RETURN NEW;
+  END IF;
+
+  NEW.is_read := false;
+  NEW.read_at := NULL;
+
+  IF NOT public.is_trip_participant(NEW.trip_id, NEW.sender_id)
+     OR NOT public.is_trip_participant(NEW.trip_id, NEW.receiver_id) THEN
+    RAISE EXCEPTION 'Both people must be on this trip';
+  END IF;
+
+  IF NEW.message_type = 'location' THEN
+    IF jsonb_typeof(NEW.attachment->'lat') IS DISTINCT FROM 'number'
+       OR jsonb_typeof(NEW.attachment->'lng') IS DISTINCT FROM 'number' THEN
+      RAISE EXCEPTION 'A location pin needs a valid lat and lng';
+    END IF;
+
+    IF (NEW.attachment->>'lat')::numeric NOT BETWEEN -90 AND 90
+       OR (NEW.attachment->>'lng')::numeric NOT BETWEEN -180 AND 180 THEN
+      RAISE EXCEPTION 'A location pin needs a valid lat and lng';
+    END IF;
+  ELSIF NEW.message_type = 'image' THEN
+    IF NEW.attachment->>'path' IS NULL
+       OR NEW.attachment->>'path' NOT LIKE NEW.sender_id || '/' || NEW.trip_id || '/%' THEN
+      RAISE EXCEPTION 'Photos must be uploaded to this trip''s chat folder';
+    END IF;
+  ELSIF NEW.message_type = 'quick_reply' THEN
+    IF NEW.attachment->>'key' IS NULL OR NEW.attachment->>'key' NOT IN ('arrived', 'late_5', 'on_my_way', 'cant_find', 'coming_out') THEN
+      RAISE EXCEPTION 'Unknown quick reply';
+    END IF;
+  ELSE
+    NEW.attachment := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_validate_message ON public.messages;
+CREATE TRIGGER trigger_validate_message
+BEFORE INSERT OR UPDATE ON public.messages
+FOR EACH ROW EXECUTE FUNCTION public.validate_message();
+
+-- 4. READ RECEIPTS
+-- Mark everything one person sent you on a trip as read
+CREATE OR REPLACE FUNCTION public.mark_messages_read(p_trip_id UUID, p_sender_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.messages
+  SET is_read = true
+  WHERE trip_id = p_trip_id
+    AND sender_id = p_sender_id
+    AND receiver_id = auth.uid()
+    AND NOT is_read;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- 5. STORAGE
+DO $$
+BEGIN
+  BEGIN
+    INSERT INTO storage.buckets (id, name, public) VALUES
+    ('chat-attachments', 'chat-attachments', false)
+    ON CONFLICT (id) DO NOTHING;
+  EXCEPTION WHEN OTHERS THEN
+    RAISE NOTICE 'Could not create chat-attachments bucket: %', SQLERRM;
+  END;
+END $$;
+
+-- Uploads go under the sender's own folder; everyone on the trip can read them
+DO $$
+BEGIN
+  BEGIN
+    DROP POLICY IF EXISTS "Trip members upload chat attachments" ON storage.objects;
+    CREATE POLICY "Trip members upload chat attachments" ON storage.objects FOR INSERT WITH CHECK (
+      bucket_id = 'chat-attachments'
+      AND auth.uid()::text = (storage.foldername(name))[1]
+      AND public.can_access_chat_attachment(name)
+    );
+
+    DROP POLICY IF EXISTS "Trip members read chat attachments" ON storage.objects;
+    CREATE POLICY "Trip members read chat attachments" ON storage.objects FOR SELECT USING (
+      bucket_id = 'chat-attachments' AND public.can_access_chat_attachment(name)
+    );
+  EXCEPTION WHEN OTHERS THEN
+    RAISE NOTICE 'Could not create chat-attachments storage policies: %', SQLERRM;
+  END;
+END $$;
+
+-- 6. PERMISSIONS
+REVOKE ALL ON FUNCTION public.validate_message() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.is_trip_participant(UUID, UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.mark_messages_read(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_trip_participant(UUID, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.can_access_chat_attachment(TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.mark_messages_read(UUID, UUID) TO authenticated, service_role;
@@ -0,0 +1,299 @@
+-- ============================================
+-- Contact Masking & Chat Moderation
+-- Description: Riders and drivers no longer see each other's phone numbers.
+-- The real number moves to a private user_phone_numbers table and
+-- users.phone only keeps a masked copy (••••••1234). Calls go through the
+-- call-relay edge function, which looks the numbers up with
+-- get_booking_contact while the booking is confirmed or picked up. Chat
+-- messages that look like they share a phone number or UPI ID are flagged
+-- for the support team.
+-- ============================================
+
+-- 1. PRIVATE PHONE NUMBERS
+CREATE TABLE IF NOT EXISTS public.user_phone_numbers (
+  -- Deferred because the row is written from a BEFORE INSERT trigger on users
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  phone TEXT NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A number belongs to one account. users.phone only keeps the masked copy,
+-- which many people share, so uniqueness moves to the private table.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_phone_numbers_phone ON public.user_phone_numbers(phone);
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_phone_key;
+
+ALTER TABLE public.user_phone_numbers ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the trigger below; changing users.phone is how a number is updated
+DROP POLICY IF EXISTS "View own phone number" ON public.user_phone_numbers;
+CREATE POLICY "View own phone number" ON public.user_phone_numbers
+FOR SELECT USING (
+  user_id = auth.uid()
+  OR public.has_admin_permission('users.edit')
+  OR public.has_admin_permission('support.manage')
+);
+
+-- 2. MASKING
+CREATE OR REPLACE FUNCTION public.mask_phone(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_phone IS NULL OR btrim(p_phone) = '' THEN NULL
+    ELSE '••••••' || right(regexp_replace(p_phone, '[^0-9]', '', 'g'), 4)
+  END;
+$$;
+
+-- Any real number written to users.phone is moved to the private table and
+-- replaced with its masked form. Writing the masked value back is a no-op.
+CREATE OR REPLACE FUNCTION public.vault_user_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.phone IS NOT DISTINCT FROM OLD.phone THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.phone IS NULL OR btrim(NEW.phone) = '' THEN
+    NEW.phone := NULL;
+    IF TG_OP = 'UPDATE' THEN
+      DELETE FROM public.user_phone_numbers WHERE user_id = NEW.id;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.phone LIKE '•%' THEN
+    RETURN NEW;
+  END IF;
+
+  BEGIN
+    INSERT INTO public.user_phone_numbers (user_id, phone, updated_at)
+    VALUES (NEW.id, btrim(NEW.phone), NOW())
+    ON CONFLICT (user_id) DO UPDATE SET phone = EXCLUDED.phone, updated_at = NOW();
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'This phone number is already registered to another account';
+  END;
+
+  NEW.phone := public.mask_phone(NEW.phone);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_vault_user_phone ON public.users;
+CREATE TRIGGER trigger_vault_user_phone
+BEFORE INSERT OR UPDATE OF phone ON public.users
+FOR EACH ROW EXECUTE FUNCTION public.vault_user_phone();
+
+-- Backfill existing numbers. The admin-field guard treats a migration as
+-- "someone else" editing the row, so it is paused while we mask.
+INSERT INTO public.user_phone_numbers (user_id, phone)
+SELECT id, btrim(phone) FROM public.users
+WHERE phone IS NOT NULL AND btrim(phone) <> '' AND phone NOT LIKE '•%'
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.users DISABLE TRIGGER trigger_guard_user_admin_fields;
+UPDATE public.users SET phone = public.mask_phone(phone)
+WHERE phone IS NOT NULL AND phone NOT LIKE '•%';
+ALTER TABLE public.users ENABLE TRIGGER trigger_guard_user_admin_fields;
+
+-- 3. CALL RELAY
+-- Real numbers for both sides of a booking, only while it is active.
+-- Called by the call-relay edge function on behalf of p_actor_id.
+CREATE OR REPLACE FUNCTION public.get_booking_contact(p_booking_id UUID, p_actor_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_passenger_id UUID;
+  v_driver_user_id UUID;
+  v_status TEXT;
+  v_callee_id UUID;
+  v_caller_phone TEXT;
+  v_callee_phone TEXT;
+BEGIN
+  SELECT b.passenger_id, d.user_id, b.status
+  INTO v_passenger_id, v_driver_user_id, v_status
+  FROM public.bookings b
+  JOIN public.trips t ON t.id = b.trip_id
+  JOIN public.drivers d ON d.id = t.driver_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF p_actor_id = v_passenger_id THEN
+    v_callee_id := v_driver_user_id;
+  ELSIF p_actor_id = v_driver_user_id THEN
+    v_callee_id := v_passenger_id;
+  ELSE
+    RETURN jsonb_build_object('success', false, 'error', 'You are not part of this booking');
+  END IF;
+
+  IF v_status NOT IN ('confirmed', 'picked_up') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Calling is only available while the booking is active');
+  END IF;
+
+  SELECT phone INTO v_caller_phone FROM public.user_phone_numbers WHERE user_id = p_actor_id;
+  SELECT phone INTO v_callee_phone FROM public.user_phone_numbers WHERE user_id = v_callee_id;
+
+  IF v_caller_phone IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Add a phone number to your profile to place calls');
+  END IF;
+
+  IF v_callee_phone IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This person has no phone number on file. Try chat instead.');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'callee_id', v_callee_id,
+    'caller_phone', v_caller_phone,
+    'callee_phone', v_callee_phone
+  );
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.call_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  caller_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  callee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_session_id TEXT,
+  status TEXT NOT NULL DEFAULT 'initiated' CHECK (status IN ('initiated', 'failed')),
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_sessions_booking ON public.call_sessions(booking_id);
+
+ALTER TABLE public.call_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "View own call sessions" ON public.call_sessions;
+CREATE POLICY "View own call sessions" ON public.call_sessions
+FOR SELECT USING (
+  auth.uid() IN (caller_id, callee_id)
+  OR public.has_admin_permission('support.manage')
+);
+
+-- Which registered user, if any, one of the caller's own emergency contacts
+-- is, so safety alerts can also reach them in the app. Matching is on the
+-- private number; users.phone is masked and can't be compared.
+CREATE OR REPLACE FUNCTION public.get_emergency_contact_user_id(p_contact_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.user_id
+  FROM public.emergency_contacts c
+  JOIN public.user_phone_numbers p ON p.phone = btrim(c.phone)
+  WHERE c.id = p_contact_id
+    AND c.user_id = auth.uid();
+$$;
+
+-- 4. CHAT MODERATION
+CREATE TABLE IF NOT EXISTS public.message_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('phone_number', 'upi_id')),
+  excerpt TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  reviewed_by UUID REFERENCES public.users(id),
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (message_id, reason)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_flags_open ON public.message_flags(created_at) WHERE status = 'open';
+
+ALTER TABLE public.message_flags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Moderators view message flags" ON public.message_flags;
+CREATE POLICY "Moderators view message flags" ON public.message_flags
+FOR SELECT USING (public.has_admin_permission('support.manage'));
+
+-- Indian mobile numbers (spaces, dots, dashes and brackets ignored) and
+-- UPI handles like name@okicici. Email addresses are not UPI IDs: the handle
+-- part must not be followed by a dot.
+CREATE OR REPLACE FUNCTION public.flag_message_contact_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_compact TEXT;
+BEGIN
+  IF NEW.message_type NOT IN ('text', 'quick_reply') OR NEW.message IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_compact := regexp_replace(NEW.message, '[\s().-]', '', 'g');
+  IF v_compact ~ '(^|[^0-9])(\+?91|0)?[6-9][0-9]{9}([^0-9]|$)' THEN
+    INSERT INTO public.message_flags (message_id, trip_id, sender_id, reason, excerpt)
+    VALUES (NEW.id, NEW.trip_id, NEW.sender_id, 'phone_number', left(NEW.message, 200))
+    ON CONFLICT (message_id, reason) DO NOTHING;
+  END IF;
+
+  IF NEW.message ~* '[a-z0-9._-]{2,}@[a-z]{2,}(?![a-z.])' THEN
+    INSERT INTO public.message_flags (message_id, trip_id, sender_id, reason, excerpt)
+    VALUES (NEW.id, NEW.trip_id, NEW.sender_id, 'upi_id', left(NEW.message, 200))
+    ON CONFLICT (message_id, reason) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_flag_message_contact_details ON public.messages;
+CREATE TRIGGER trigger_flag_message_contact_details
+AFTER INSERT ON public.messages
+FOR EACH ROW EXECUTE FUNCTION public.flag_message_contact_details();
+
+-- Close a flag; 'actioned' means the moderator followed up with the sender
+CREATE OR REPLACE FUNCTION public.resolve_message_flag(p_flag_id UUID, p_status TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.has_admin_permission('support.manage') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You do not have permission to moderate chat');
+  END IF;
+
+  IF p_status NOT IN ('dismissed', 'actioned') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid status');
+  END IF;
+
+  UPDATE public.message_flags
+  SET status = p_status, reviewed_by = auth.uid(), reviewed_at = NOW()
+  WHERE id = p_flag_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Flag not found or already resolved');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- 5. PERMISSIONS
+REVOKE ALL ON public.user_phone_numbers FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON public.user_phone_numbers FROM authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.call_sessions FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON public.message_flags FROM anon, authenticated;
+REVOKE ALL ON FUNCTION public.vault_user_phone() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.flag_message_contact_details() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.get_booking_contact(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.resolve_message_flag(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_emergency_contact_user_id(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_booking_contact(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_message_flag(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_emergency_contact_user_id(UUID) TO authenticated, service_role;
@@ -0,0 +1,664 @@
+-- ============================================
+-- Verified Organizations
+-- Description: Corporate carpooling used to trust users.organization, a free
+-- text field anyone could set. Organizations now own verified email domains,
+-- added by platform admins. A user joins by proving a work email on one of
+-- those domains through a magic link; organizations can also require an org
+-- admin to approve each member. users.organization is kept as a read-only
+-- copy of the active membership's name, and organization-only matching
+-- compares memberships instead of strings.
+-- ============================================
+
+-- 1. TABLES
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  requires_approval BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A domain is verified when a platform admin adds it
+CREATE TABLE IF NOT EXISTS public.organization_domains (
+  domain TEXT PRIMARY KEY CHECK (domain = lower(domain) AND domain ~ '^[a-z0-9.-]+\.[a-z]{2,}$'),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  verified_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_domains_org ON public.organization_domains(organization_id);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  work_email TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'admin')),
+  status TEXT NOT NULL DEFAULT 'pending_email'
+    CHECK (status IN ('pending_email', 'pending_approval', 'active', 'rejected', 'removed')),
+  email_verified_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES public.users(id),
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One organization per user at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_members_current
+  ON public.organization_members(user_id)
+  WHERE status IN ('pending_email', 'pending_approval', 'active');
+CREATE INDEX IF NOT EXISTS idx_organization_members_org ON public.organization_members(organization_id, status);
+
+-- Magic link tokens; only the SHA-256 of the token is stored
+CREATE TABLE IF NOT EXISTS public.organization_email_tokens (
+  token_hash TEXT PRIMARY KEY,
+  member_id UUID NOT NULL REFERENCES public.organization_members(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_organizations_updated_at ON public.organizations;
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_organization_members_updated_at ON public.organization_members;
+CREATE TRIGGER update_organization_members_updated_at
+BEFORE UPDATE ON public.organization_members
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. HELPERS
+-- The organization a user is an active member of, if any
+CREATE OR REPLACE FUNCTION public.user_organization_id(p_user_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT m.organization_id
+  FROM public.organization_members m
+  JOIN public.organizations o ON o.id = m.organization_id
+  WHERE m.user_id = p_user_id AND m.status = 'active' AND o.is_active;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_admin(p_organization_id UUID, p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = p_organization_id
+      AND user_id = p_user_id
+      AND role = 'admin'
+      AND status = 'active'
+  );
+$$;
+
+-- users.organization mirrors the active membership and can't be set directly
+CREATE OR REPLACE FUNCTION public.protect_user_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND COALESCE(current_setting('app.organization_sync', true), 'off') <> 'on' THEN
+    NEW.organization := OLD.organization;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_user_organization ON public.users;
+CREATE TRIGGER trigger_protect_user_organization
+BEFORE UPDATE OF organization ON public.users
+FOR EACH ROW EXECUTE FUNCTION public.protect_user_organization();
+
+CREATE OR REPLACE FUNCTION public.sync_user_organization(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM set_config('app.organization_sync', 'on', true);
+  UPDATE public.users
+  SET organization = (SELECT name FROM public.organizations WHERE id = public.user_organization_id(p_user_id))
+  WHERE id = p_user_id;
+  PERFORM set_config('app.organization_sync', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_user_organization_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'organizations' THEN
+    PERFORM public.sync_user_organization(m.user_id)
+    FROM public.organization_members m
+    WHERE m.organization_id = NEW.id AND m.status = 'active';
+  ELSE
+    PERFORM public.sync_user_organization(NEW.user_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_user_organization ON public.organization_members;
+CREATE TRIGGER trigger_sync_user_organization
+AFTER INSERT OR UPDATE OF status ON public.organization_members
+FOR EACH ROW EXECUTE FUNCTION public.sync_user_organization_on_change();
+
+DROP TRIGGER IF EXISTS trigger_sync_organization_name ON public.organizations;
+CREATE TRIGGER trigger_sync_organization_name
+AFTER UPDATE OF name, is_active ON public.organizations
+FOR EACH ROW EXECUTE FUNCTION public.sync_user_organization_on_change();
+
+-- Free-text organizations were never verified; members re-join through their work email
+UPDATE public.users SET organization = NULL WHERE organization IS NOT NULL;
+
+-- 3. MEMBERSHIP
+-- Start joining the organization that owns the work email's domain. Returns
+-- the magic link token, so only the edge function that emails it may call this.
+CREATE OR REPLACE FUNCTION public.request_organization_membership(p_work_email TEXT, p_actor_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_email TEXT := lower(btrim(p_work_email));
+  v_org RECORD;
+  v_member_id UUID;
+  v_token TEXT;
+BEGIN
+  IF v_email !~ '^[^@\s]+@[a-z0-9.-]+\.[a-z]{2,}$' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Enter a valid work email');
+  END IF;
+
+  SELECT o.* INTO v_org
+  FROM public.organization_domains d
+  JOIN public.organizations o ON o.id = d.organization_id
+  WHERE d.domain = split_part(v_email, '@', 2) AND o.is_active;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This email domain does not belong to a verified organization');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE user_id = p_actor_id AND status = 'active'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Leave your current organization before joining another');
+  END IF;
+
+  -- A new request replaces any unfinished one
+  UPDATE public.organization_members
+  SET status = 'removed'
+  WHERE user_id = p_actor_id AND status IN ('pending_email', 'pending_approval');
+
+  INSERT INTO public.organization_members (organization_id, user_id, work_email)
+  VALUES (v_org.id, p_actor_id, v_email)
+  RETURNING id INTO v_member_id;
+
+  v_token := encode(gen_random_bytes(32), 'hex');
+
+  INSERT INTO public.organization_email_tokens (token_hash, member_id, expires_at)
+  VALUES (encode(digest(v_token, 'sha256'), 'hex'), v_member_id, NOW() + INTERVAL '24 hours');
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'member_id', v_member_id,
+    'organization_name', v_org.name,
+    'work_email', v_email,
+    'token', v_token
+  );
+END;
+$$;
+
+-- Redeem a magic link. It has to be opened while signed in as the user who asked for it.
+CREATE OR REPLACE FUNCTION public.confirm_organization_email(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_token RECORD;
+  v_member RECORD;
+  v_org RECORD;
+  v_status TEXT;
+BEGIN
+  SELECT * INTO v_token
+  FROM public.organization_email_tokens
+  WHERE token_hash = encode(digest(p_token, 'sha256'), 'hex')
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_token.used_at IS NOT NULL OR v_token.expires_at < NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This link is invalid or has expired. Request a new one.');
+  END IF;
+
+  SELECT * INTO v_member FROM public.organization_members WHERE id = v_token.member_id FOR UPDATE;
+
+  IF v_member.user_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Sign in with the account that requested this link');
+  END IF;
+
+  IF v_member.status <> 'pending_email' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This link is no longer valid');
+  END IF;
+
+  SELECT * INTO v_org FROM public.organizations WHERE id = v_member.organization_id;
+  v_status := CASE WHEN v_org.requires_approval THEN 'pending_approval' ELSE 'active' END;
+
+  UPDATE public.organization_email_tokens SET used_at = NOW() WHERE token_hash = v_token.token_hash;
+  UPDATE public.organization_members
+  SET status = v_status, email_verified_at = NOW()
+  WHERE id = v_member.id;
+
+  IF v_status = 'pending_approval' THEN
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    SELECT
+      m.user_id,
+      'Membership Request',
+      (SELECT full_name FROM public.users WHERE id = v_member.user_id) || ' verified their ' || v_org.name || ' email and is waiting for approval',
+      'organization',
+      jsonb_build_object('organization_id', v_org.id, 'member_id', v_member.id)
+    FROM public.organization_members m
+    WHERE m.organization_id = v_org.id AND m.role = 'admin' AND m.status = 'active';
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', v_status, 'organization_name', v_org.name);
+END;
+$$;
+
+-- Org admins (or platform admins) approve or reject a verified member
+CREATE OR REPLACE FUNCTION public.review_organization_member(p_member_id UUID, p_approve BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_member RECORD;
+  v_org_name TEXT;
+BEGIN
+  SELECT * INTO v_member FROM public.organization_members WHERE id = p_member_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Member not found');
+  END IF;
+
+  IF NOT public.is_organization_admin(v_member.organization_id) AND NOT public.has_admin_permission('users.edit') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only organization admins can review members');
+  END IF;
+
+  IF v_member.status <> 'pending_approval' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This member is not waiting for approval');
+  END IF;
+
+  UPDATE public.organization_members
+  SET status = CASE WHEN p_approve THEN 'active' ELSE 'rejected' END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW()
+  WHERE id = p_member_id;
+
+  SELECT name INTO v_org_name FROM public.organizations WHERE id = v_member.organization_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  VALUES (
+    v_member.user_id,
+    CASE WHEN p_approve THEN 'Membership Approved' ELSE 'Membership Declined' END,
+    CASE WHEN p_approve
+      THEN 'You can now ride with verified colleagues from ' || v_org_name
+      ELSE 'Your request to join ' || v_org_name || ' was declined'
+    END,
+    'organization',
+    jsonb_build_object('organization_id', v_member.organization_id)
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Promote or demote an active member. Org admins can't change their own role,
+-- so an organization always keeps the admin doing the promoting.
+CREATE OR REPLACE FUNCTION public.set_organization_member_role(p_member_id UUID, p_role TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_member RECORD;
+BEGIN
+  IF p_role NOT IN ('member', 'admin') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid role');
+  END IF;
+
+  SELECT * INTO v_member FROM public.organization_members WHERE id = p_member_id FOR UPDATE;
+
+  IF NOT FOUND OR v_member.status <> 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Member not found');
+  END IF;
+
+  IF NOT public.has_admin_permission('users.edit') THEN
+    IF NOT public.is_organization_admin(v_member.organization_id) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Only organization admins can change roles');
+    END IF;
+
+    IF v_member.user_id = auth.uid() THEN
+      RETURN jsonb_build_object('success', false, 'error', 'You cannot change your own role');
+    END IF;
+  END IF;
+
+  UPDATE public.organization_members SET role = p_role WHERE id = p_member_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Leave an organization, or remove someone from it as an org admin
+CREATE OR REPLACE FUNCTION public.remove_organization_member(p_member_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_member RECORD;
+BEGIN
+  SELECT * INTO v_member FROM public.organization_members WHERE id = p_member_id FOR UPDATE;
+
+  IF NOT FOUND OR v_member.status IN ('rejected', 'removed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Member not found');
+  END IF;
+
+  IF v_member.user_id IS DISTINCT FROM auth.uid()
+     AND NOT public.is_organization_admin(v_member.organization_id)
+     AND NOT public.has_admin_permission('users.edit') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You cannot remove this member');
+  END IF;
+
+  UPDATE public.organization_members
+  SET status = 'removed', role = 'member'
+  WHERE id = p_member_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- 4. RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_domains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_email_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone signed in views organizations" ON public.organizations;
+CREATE POLICY "Anyone signed in views organizations" ON public.organizations
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins manage organizations" ON public.organizations;
+CREATE POLICY "Admins manage organizations" ON public.organizations
+FOR ALL TO authenticated USING (public.has_admin_permission('users.edit'))
+WITH CHECK (public.has_admin_permission('users.edit'));
+
+-- Org admins may edit their own organization's approval setting
+DROP POLICY IF EXISTS "Org admins update their organization" ON public.organizations;
+CREATE POLICY "Org admins update their organization" ON public.organizations
+FOR UPDATE USING (public.is_organization_admin(id))
+WITH CHECK (public.is_organization_admin(id));
+
+DROP POLICY IF EXISTS "Anyone signed in views organization domains" ON public.organization_domains;
+CREATE POLICY "Anyone signed in views organization domains" ON public.organization_domains
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Admins manage organization domains" ON public.organization_domains;
+CREATE POLICY "Admins manage organization domains" ON public.organization_domains
+FOR ALL TO authenticated USING (public.has_admin_permission('users.edit'))
+WITH CHECK (public.has_admin_permission('users.edit'));
+
+DROP POLICY IF EXISTS "View organization memberships" ON public.organization_members;
+CREATE POLICY "View organization memberships" ON public.organization_members
+FOR SELECT USING (
+  user_id = auth.uid()
+  OR public.is_organization_admin(organization_id)
+  OR public.has_admin_permission('users.edit')
+);
+
+-- Org admins only change requires_approval; renaming and deactivating stay with platform admins
+CREATE OR REPLACE FUNCTION public.guard_organization_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND NOT public.has_admin_permission('users.edit')
+     AND (NEW.name, NEW.is_active, NEW.created_by) IS DISTINCT FROM (OLD.name, OLD.is_active, OLD.created_by) THEN
+    RAISE EXCEPTION 'Only platform admins can rename or deactivate organizations';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_guard_organization_changes ON public.organizations;
+CREATE TRIGGER trigger_guard_organization_changes
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW EXECUTE FUNCTION public.guard_organization_changes();
+
+-- 5. MATCHING
+ALTER TABLE public.ride_requests ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id);
+
+-- Organization-only requests are scoped to the passenger's verified membership,
+-- whatever organization text the client sent
+CREATE OR REPLACE FUNCTION public.scope_ride_request_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF COALESCE(NEW.organization_only, false) THEN
+    NEW.organization_id := public.user_organization_id(NEW.passenger_id);
+
+    IF NEW.organization_id IS NULL THEN
+      RAISE EXCEPTION 'Verify your work email to ride with colleagues only';
+    END IF;
+
+    SELECT name INTO NEW.organization FROM public.organizations WHERE id = NEW.organization_id;
+  ELSE
+    NEW.organization_id := NULL;
+    NEW.organization := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_scope_ride_request_organization ON public.ride_requests;
+CREATE TRIGGER trigger_scope_ride_request_organization
+BEFORE INSERT OR UPDATE OF organization_only, organization, organization_id ON public.ride_requests
+FOR EACH ROW EXECUTE FUNCTION public.scope_ride_request_organization();
+
+-- Nearby drivers; with p_organization_only, only verified colleagues of the caller
+DROP FUNCTION IF EXISTS public.find_nearby_drivers(NUMERIC, NUMERIC, INTEGER, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.find_nearby_drivers(
+  p_lat NUMERIC,
+  p_lng NUMERIC,
+  p_radius INTEGER DEFAULT 5000,
+  p_vehicle_type TEXT DEFAULT NULL,
+  p_organization_only BOOLEAN DEFAULT false,
+  p_min_seats INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  driver_id UUID,
+  distance_meters DOUBLE PRECISION,
+  driver_name TEXT,
+  driver_rating NUMERIC,
+  vehicle_info TEXT,
+  current_lat NUMERIC,
+  current_lng NUMERIC,
+  organization TEXT,
+  vehicle_id UUID,
+  vehicle_type TEXT,
+  seat_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_organization_id UUID;
+BEGIN
+  IF COALESCE(p_organization_only, false) THEN
+    v_organization_id := public.user_organization_id(auth.uid());
+    IF v_organization_id IS NULL THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.id AS driver_id,
+    (
+      6371000 * acos(LEAST(1, GREATEST(-1,
+        cos(radians(p_lat)) * cos(radians(da.current_lat)) *
+        cos(radians(da.current_lng) - radians(p_lng)) +
+        sin(radians(p_lat)) * sin(radians(da.current_lat))
+      )))
+    )::DOUBLE PRECISION AS distance_meters,
+    u.full_name AS driver_name,
+    d.rating AS driver_rating,
+    v.make || ' ' || v.model AS vehicle_info,
+    da.current_lat,
+    da.current_lng,
+    u.organization,
+    v.id AS vehicle_id,
+    v.vehicle_type,
+    v.seat_count
+  FROM public.drivers d
+  JOIN public.vehicles v ON v.id = d.active_vehicle_id
+  JOIN public.driver_availability da ON da.driver_id = d.id
+  JOIN public.users u ON u.id = d.user_id
+  WHERE da.is_online = true
+    AND da.is_available = true
+    AND v.verification_status = 'verified'
+    AND v.seat_count >= COALESCE(p_min_seats, 1)
+    AND (p_vehicle_type IS NULL OR v.vehicle_type = p_vehicle_type)
+    AND (v_organization_id IS NULL OR public.user_organization_id(d.user_id) = v_organization_id)
+    AND (
+      6371000 * acos(LEAST(1, GREATEST(-1,
+        cos(radians(p_lat)) * cos(radians(da.current_lat)) *
+        cos(radians(da.current_lng) - radians(p_lng)) +
+        sin(radians(p_lat)) * sin(radians(da.current_lat))
+      )))
+    ) <= p_radius
+  ORDER BY distance_meters ASC
+  LIMIT 10;
+END;
+$$;
+
+-- Same ranking as before; organization-only requests match on verified membership
+CREATE OR REPLACE FUNCTION public.rank_dispatch_candidates(
+  p_request_id UUID,
+  p_limit INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  driver_id UUID,
+  user_id UUID,
+  distance_meters DOUBLE PRECISION,
+  score NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request RECORD;
+BEGIN
+  SELECT * INTO v_request FROM public.ride_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH nearby AS (
+    SELECT
+      d.id AS driver_id,
+      d.user_id,
+      d.rating,
+      (
+        6371000 * acos(LEAST(1, GREATEST(-1,
+          cos(radians(v_request.pickup_lat)) * cos(radians(da.current_lat)) *
+          cos(radians(da.current_lng) - radians(v_request.pickup_lng)) +
+          sin(radians(v_request.pickup_lat)) * sin(radians(da.current_lat))
+        )))
+      )::DOUBLE PRECISION AS distance_meters,
+      (
+        SELECT GREATEST(
+          (SELECT MAX(t.updated_at) FROM public.trips t WHERE t.driver_id = d.id AND t.status = 'completed'),
+          (SELECT MAX(o.responded_at) FROM public.dispatch_offers o WHERE o.driver_id = d.id AND o.status = 'accepted')
+        )
+      ) AS last_job_at
+    FROM public.drivers d
+    JOIN public.vehicles v ON v.id = d.active_vehicle_id
+    JOIN public.driver_availability da ON da.driver_id = d.id
+    WHERE da.is_online = true
+      AND da.is_available = true
+      AND da.current_lat IS NOT NULL
+      AND da.last_location_update >= NOW() - INTERVAL '10 minutes'
+      AND v.verification_status = 'verified'
+      AND v.vehicle_type = v_request.vehicle_type
+      AND v.seat_count >= COALESCE(v_request.seats, 1)
+      AND d.user_id <> v_request.passenger_id
+      AND (
+        NOT COALESCE(v_request.organization_only, false)
+        OR public.user_organization_id(d.user_id) = v_request.organization_id
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM public.dispatch_offers o
+        WHERE o.driver_id = d.id
+          AND (o.ride_request_id = p_request_id OR (o.status = 'offered' AND o.expires_at > NOW()))
+      )
+  )
+  SELECT
+    n.driver_id,
+    n.user_id,
+    n.distance_meters,
+    ROUND((
+      0.40 * GREATEST(0, 1 - n.distance_meters / GREATEST(v_request.search_radius, 1))
+      + 0.25 * COALESCE(n.rating, 4) / 5
+      + 0.20 * public.driver_acceptance_rate(n.driver_id)
+      + 0.15 * COALESCE(LEAST(EXTRACT(EPOCH FROM NOW() - n.last_job_at) / 3600, 1), 1)
+    )::NUMERIC, 4) AS score
+  FROM nearby n
+  WHERE n.distance_meters <= v_request.search_radius
+  ORDER BY score DESC, n.distance_meters ASC
+  LIMIT p_limit;
+END;
+$$;
+
+-- 6. PERMISSIONS
+REVOKE INSERT, UPDATE, DELETE ON public.organization_members FROM anon, authenticated;
+REVOKE ALL ON public.organization_email_tokens FROM anon, authenticated;
+REVOKE ALL ON FUNCTION public.protect_user_organization() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.guard_organization_changes() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.sync_user_organization(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.sync_user_organization_on_change() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.scope_ride_request_organization() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.request_organization_membership(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.confirm_organization_email(TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.review_organization_member(UUID, BOOLEAN) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.set_organization_member_role(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.remove_organization_member(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.user_organization_id(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.is_organization_admin(UUID, UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.request_organization_membership(TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.confirm_organization_email(TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.review_organization_member(UUID, BOOLEAN) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.set_organization_member_role(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.remove_organization_member(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.find_nearby_drivers(NUMERIC, NUMERIC, INTEGER, TEXT, BOOLEAN, INTEGER) TO anon, authenticated, service_role;
@@ -0,0 +1,1008 @@
+-- ============================================
+-- Corporate Billing
+-- Description: Verified organizations can open a corporate account so
+-- employee rides are billed to the company instead of the passenger. Each
+-- account has cost centres, purpose codes and ride policies (allowed days
+-- and hours, a fare cap, home/office geofences, a required purpose). A
+-- company-billed booking is checked against the policy when it is made and
+-- posted to a corporate receivable when the ride ends; the month's rides are
+-- then gathered into one invoice. Org admins see spend per employee.
+-- ============================================
+
+-- 1. TABLES
+CREATE TABLE IF NOT EXISTS public.corporate_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL UNIQUE REFERENCES public.organizations(id) ON DELETE CASCADE,
+  billing_name TEXT NOT NULL,
+  billing_email TEXT NOT NULL,
+  gstin TEXT CHECK (gstin IS NULL OR gstin ~ '^[0-9]{2}[A-Z0-9]{10}[0-9A-Z]Z[0-9A-Z]$'),
+  billing_state_code TEXT,
+  billing_address TEXT,
+  payment_terms_days INTEGER NOT NULL DEFAULT 15 CHECK (payment_terms_days > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.cost_centres (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  corporate_account_id UUID NOT NULL REFERENCES public.corporate_accounts(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (corporate_account_id, code)
+);
+
+CREATE TABLE IF NOT EXISTS public.corporate_purpose_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  corporate_account_id UUID NOT NULL REFERENCES public.corporate_accounts(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  label TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (corporate_account_id, code)
+);
+
+-- A policy without a cost centre is the account default; a cost centre's
+-- own policy replaces it. Times are departure times in Asia/Kolkata and the
+-- window may wrap past midnight.
+CREATE TABLE IF NOT EXISTS public.corporate_ride_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  corporate_account_id UUID NOT NULL REFERENCES public.corporate_accounts(id) ON DELETE CASCADE,
+  cost_centre_id UUID REFERENCES public.cost_centres(id) ON DELETE CASCADE,
+  allowed_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5,6,7}' CHECK (allowed_days <@ '{1,2,3,4,5,6,7}'::smallint[]),
+  allowed_start TIME,
+  allowed_end TIME,
+  max_fare DECIMAL(10,2) CHECK (max_fare IS NULL OR max_fare > 0),
+  places_only BOOLEAN NOT NULL DEFAULT false,
+  require_purpose BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK ((allowed_start IS NULL) = (allowed_end IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_corporate_ride_policies_scope
+  ON public.corporate_ride_policies(corporate_account_id, COALESCE(cost_centre_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+-- Offices belong to the account; each employee registers their own home
+CREATE TABLE IF NOT EXISTS public.corporate_places (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  corporate_account_id UUID NOT NULL REFERENCES public.corporate_accounts(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  place_type TEXT NOT NULL CHECK (place_type IN ('office', 'home')),
+  label TEXT NOT NULL,
+  address TEXT,
+  lat NUMERIC NOT NULL,
+  lng NUMERIC NOT NULL,
+  radius_m INTEGER NOT NULL DEFAULT 300 CHECK (radius_m BETWEEN 50 AND 5000),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK ((place_type = 'home') = (user_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_corporate_places_account ON public.corporate_places(corporate_account_id);
+
+CREATE TABLE IF NOT EXISTS public.corporate_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  corporate_account_id UUID NOT NULL REFERENCES public.corporate_accounts(id) ON DELETE RESTRICT,
+  invoice_number TEXT NOT NULL UNIQUE,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  ride_count INTEGER NOT NULL DEFAULT 0,
+  gst DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'paid', 'void')),
+  due_date DATE NOT NULL,
+  payment_reference TEXT,
+  ledger_transaction_id UUID REFERENCES public.ledger_transactions(id),
+  issued_at TIMESTAMPTZ DEFAULT NOW(),
+  paid_at TIMESTAMPTZ,
+  UNIQUE (corporate_account_id, period_start)
+);
+
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS corporate_account_id UUID REFERENCES public.corporate_accounts(id);
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS cost_centre_id UUID REFERENCES public.cost_centres(id);
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS purpose_code TEXT;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS corporate_billed_at TIMESTAMPTZ;
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS corporate_invoice_id UUID REFERENCES public.corporate_invoices(id);
+
+CREATE INDEX IF NOT EXISTS idx_bookings_corporate_account
+  ON public.bookings(corporate_account_id, corporate_billed_at)
+  WHERE corporate_account_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_corporate_accounts_updated_at ON public.corporate_accounts;
+CREATE TRIGGER update_corporate_accounts_updated_at
+BEFORE UPDATE ON public.corporate_accounts
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_corporate_ride_policies_updated_at ON public.corporate_ride_policies;
+CREATE TRIGGER update_corporate_ride_policies_updated_at
+BEFORE UPDATE ON public.corporate_ride_policies
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. LEDGER & NUMBERING
+-- Rides billed to companies are an asset until the monthly invoice is paid
+ALTER TABLE public.ledger_accounts DROP CONSTRAINT IF EXISTS ledger_accounts_account_type_check;
+ALTER TABLE public.ledger_accounts ADD CONSTRAINT ledger_accounts_account_type_check
+CHECK (account_type IN (
+  'passenger_wallet',
+  'driver_payable',
+  'platform_fees',
+  'gst_payable',
+  'payment_gateway',
+  'opening_balance',
+  'corporate_receivable'
+));
+
+CREATE OR REPLACE FUNCTION public.get_ledger_account(
+  p_account_type TEXT,
+  p_owner_user_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id
+  FROM public.ledger_accounts
+  WHERE account_type = p_account_type
+    AND owner_user_id IS NOT DISTINCT FROM p_owner_user_id;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.ledger_accounts (account_type, owner_user_id, normal_balance)
+    VALUES (
+      p_account_type,
+      p_owner_user_id,
+      CASE WHEN p_account_type IN ('payment_gateway', 'corporate_receivable') THEN 'debit' ELSE 'credit' END
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO v_account_id;
+
+    IF v_account_id IS NULL THEN
+      SELECT id INTO v_account_id
+      FROM public.ledger_accounts
+      WHERE account_type = p_account_type
+        AND owner_user_id IS NOT DISTINCT FROM p_owner_user_id;
+    END IF;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+ALTER TABLE public.invoice_sequences DROP CONSTRAINT IF EXISTS invoice_sequences_document_type_check;
+ALTER TABLE public.invoice_sequences ADD CONSTRAINT invoice_sequences_document_type_check
+CHECK (document_type IN ('invoice', 'credit_note', 'corporate_invoice'));
+
+CREATE OR REPLACE FUNCTION public.next_invoice_number(
+  p_document_type TEXT,
+  p_financial_year TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_number INTEGER;
+BEGIN
+  INSERT INTO public.invoice_sequences (document_type, financial_year, last_number)
+  VALUES (p_document_type, p_financial_year, 1)
+  ON CONFLICT (document_type, financial_year)
+  DO UPDATE SET last_number = public.invoice_sequences.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  RETURN CASE p_document_type
+      WHEN 'invoice' THEN 'TCS'
+      WHEN 'corporate_invoice' THEN 'CORP'
+      ELSE 'CN'
+    END
+    || '/' || p_financial_year || '/' || LPAD(v_number::text, 6, '0');
+END;
+$$;
+
+-- Tax invoices for company-billed rides are issued to the company's GSTIN
+CREATE OR REPLACE FUNCTION public.issue_tax_document(p_ledger_transaction_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_tx RECORD;
+  v_booking RECORD;
+  v_settings RECORD;
+  v_document_type TEXT;
+  v_original_id UUID;
+  v_total NUMERIC;
+  v_gst NUMERIC;
+  v_place_of_supply TEXT;
+  v_intra_state BOOLEAN;
+  v_financial_year TEXT;
+  v_invoice_id UUID;
+BEGIN
+  SELECT id INTO v_invoice_id FROM public.tax_invoices WHERE ledger_transaction_id = p_ledger_transaction_id;
+  IF v_invoice_id IS NOT NULL THEN
+    RETURN v_invoice_id;
+  END IF;
+
+  SELECT * INTO v_tx FROM public.ledger_transactions WHERE id = p_ledger_transaction_id;
+  IF NOT FOUND OR v_tx.reference_type NOT IN ('booking', 'refund') THEN
+    RETURN NULL;
+  END IF;
+
+  v_document_type := CASE WHEN v_tx.reference_type = 'booking' THEN 'invoice' ELSE 'credit_note' END;
+
+  SELECT b.id, b.passenger_id, b.pickup_location, b.drop_location, b.seats_booked,
+    t.driver_id, du.full_name AS driver_name, d.gstin AS driver_gstin,
+    pu.full_name AS passenger_name,
+    COALESCE(ca.gstin, pu.gstin) AS passenger_gstin,
+    COALESCE(ca.billing_name, pu.billing_name) AS billing_name,
+    COALESCE(ca.billing_state_code, pu.billing_state_code) AS billing_state_code
+  INTO v_booking
+  FROM public.bookings b
+  JOIN public.trips t ON t.id = b.trip_id
+  JOIN public.drivers d ON d.id = t.driver_id
+  JOIN public.users du ON du.id = d.user_id
+  JOIN public.users pu ON pu.id = b.passenger_id
+  LEFT JOIN public.corporate_accounts ca ON ca.id = b.corporate_account_id
+  WHERE b.id = v_tx.reference_id::uuid;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_document_type = 'credit_note' THEN
+    SELECT id INTO v_original_id
+    FROM public.tax_invoices
+    WHERE booking_id = v_booking.id AND document_type = 'invoice'
+    ORDER BY issued_at DESC
+    LIMIT 1;
+
+    -- Nothing to credit if the payment predates invoicing
+    IF v_original_id IS NULL THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(e.amount) FILTER (WHERE a.account_type IN ('driver_payable', 'platform_fees', 'gst_payable')), 0),
+    COALESCE(SUM(e.amount) FILTER (WHERE a.account_type = 'gst_payable'), 0)
+  INTO v_total, v_gst
+  FROM public.ledger_entries e
+  JOIN public.ledger_accounts a ON a.id = e.account_id
+  WHERE e.transaction_id = p_ledger_transaction_id;
+
+  IF v_total <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_settings FROM public.system_settings ORDER BY updated_at DESC NULLS LAST LIMIT 1;
+
+  -- Registered recipients are taxed by the state in their GSTIN; otherwise
+  -- the billing state, falling back to the platform's own state.
+  v_place_of_supply := COALESCE(
+    LEFT(v_booking.passenger_gstin, 2),
+    NULLIF(v_booking.billing_state_code, ''),
+    COALESCE(v_settings.platform_state_code, '27')
+  );
+  v_intra_state := v_place_of_supply = COALESCE(v_settings.platform_state_code, '27');
+  v_financial_year := public.financial_year_for(v_tx.created_at);
+
+  INSERT INTO public.tax_invoices (
+    invoice_number, document_type, financial_year, original_invoice_id, booking_id,
+    ledger_transaction_id, passenger_id, driver_id,
+    supplier_name, supplier_gstin, supplier_state_code, supplier_address,
+    driver_name, driver_gstin, recipient_name, recipient_gstin, place_of_supply,
+    description, taxable_value,
+    cgst_rate, cgst, sgst_rate, sgst, igst_rate, igst,
+    total_amount, issued_at
+  )
+  VALUES (
+    public.next_invoice_number(v_document_type, v_financial_year),
+    v_document_type,
+    v_financial_year,
+    v_original_id,
+    v_booking.id,
+    p_ledger_transaction_id,
+    v_booking.passenger_id,
+    v_booking.driver_id,
+    COALESCE(v_settings.platform_legal_name, 'TCSYGO'),
+    v_settings.platform_gstin,
+    COALESCE(v_settings.platform_state_code, '27'),
+    v_settings.platform_address,
+    v_booking.driver_name,
+    v_booking.driver_gstin,
+    COALESCE(NULLIF(v_booking.billing_name, ''), v_booking.passenger_name),
+    v_booking.passenger_gstin,
+    v_place_of_supply,
+    CASE WHEN v_document_type = 'invoice' THEN 'Passenger transport' ELSE 'Refund of passenger transport' END
+      || ': ' || v_booking.pickup_location || ' → ' || v_booking.drop_location
+      || ' (' || v_booking.seats_booked || ' seat' || CASE WHEN v_booking.seats_booked > 1 THEN 's' ELSE '' END || ')',
+    v_total - v_gst,
+    CASE WHEN v_intra_state THEN 2.5 ELSE 0 END,
+    CASE WHEN v_intra_state THEN ROUND(v_gst / 2, 2) ELSE 0 END,
+    CASE WHEN v_intra_state THEN 2.5 ELSE 0 END,
+    CASE WHEN v_intra_state THEN v_gst - ROUND(v_gst / 2, 2) ELSE 0 END,
+    CASE WHEN v_intra_state THEN 0 ELSE 5 END,
+    CASE WHEN v_intra_state THEN 0 ELSE v_gst END,
+    v_total,
+    v_tx.created_at
+  )
+  RETURNING id INTO v_invoice_id;
+
+  RETURN v_invoice_id;
+END;
+$$;
+
+-- 3. HELPERS
+CREATE OR REPLACE FUNCTION public.is_corporate_account_admin(p_corporate_account_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT public.has_admin_permission('payments.manage') OR EXISTS (
+    SELECT 1 FROM public.corporate_accounts
+    WHERE id = p_corporate_account_id AND public.is_organization_admin(organization_id)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_corporate_account_member(p_corporate_account_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.corporate_accounts
+    WHERE id = p_corporate_account_id AND organization_id = public.user_organization_id(auth.uid())
+  );
+$$;
+
+-- Whether a point falls inside one of the account's offices or the rider's home
+CREATE OR REPLACE FUNCTION public.is_corporate_place(
+  p_corporate_account_id UUID,
+  p_user_id UUID,
+  p_lat NUMERIC,
+  p_lng NUMERIC
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p_lat IS NOT NULL AND p_lng IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.corporate_places
+    WHERE corporate_account_id = p_corporate_account_id
+      AND (place_type = 'office' OR user_id = p_user_id)
+      AND public.distance_km(lat, lng, p_lat, p_lng) * 1000 <= radius_m
+  );
+$$;
+
+-- What a ride actually put on the company's receivable when it was billed
+CREATE OR REPLACE FUNCTION public.corporate_billed_amount(p_booking_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(SUM(e.amount), 0)
+  FROM public.ledger_transactions lt
+  JOIN public.ledger_entries e ON e.transaction_id = lt.id
+  JOIN public.ledger_accounts a ON a.id = e.account_id
+  WHERE lt.idempotency_key = 'corporate_billing:' || p_booking_id
+    AND e.direction = 'debit'
+    AND a.account_type = 'corporate_receivable';
+$$;
+
+-- 4. POLICY CHECK AT BOOKING
+-- A company-billed booking is attached to the passenger's corporate account
+-- and rejected with the reason when it breaks the ride policy. Once booked,
+-- only billing and invoicing (which set app.corporate_billing) may change
+-- the company fields. A change of seats re-prices the ride from the trip and
+-- checks it against the fare cap again; the fare itself can't be edited.
+CREATE OR REPLACE FUNCTION public.apply_corporate_ride_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_account RECORD;
+  v_policy RECORD;
+  v_departure TIMESTAMP;
+  v_time TIME;
+  v_max_fare NUMERIC;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    -- Also stops wallet or gateway payment paths from charging a company-billed ride
+    IF COALESCE(current_setting('app.corporate_billing', true), 'off') <> 'on'
+       AND (
+         (COALESCE(NEW.payment_method, '') = 'corporate') IS DISTINCT FROM (COALESCE(OLD.payment_method, '') = 'corporate')
+         OR (NEW.corporate_account_id, NEW.cost_centre_id, NEW.purpose_code, NEW.corporate_billed_at, NEW.corporate_invoice_id)
+           IS DISTINCT FROM (OLD.corporate_account_id, OLD.cost_centre_id, OLD.purpose_code, OLD.corporate_billed_at, OLD.corporate_invoice_id)
+       ) THEN
+      RAISE EXCEPTION 'Company billing cannot be changed after booking';
+    END IF;
+
+    IF NEW.corporate_account_id IS NULL
+       OR COALESCE(current_setting('app.corporate_billing', true), 'off') = 'on'
+       OR (NEW.total_amount, NEW.seats_booked) IS NOT DISTINCT FROM (OLD.total_amount, OLD.seats_booked) THEN
+      RETURN NEW;
+    END IF;
+
+    IF OLD.corporate_billed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'This ride has already been billed to your company';
+    END IF;
+
+    IF NEW.seats_booked IS NOT DISTINCT FROM OLD.seats_booked THEN
+      RAISE EXCEPTION 'The fare of a company-billed ride cannot be changed';
+    END IF;
+
+    IF COALESCE(current_setting('app.booking_priced', true), 'off') <> 'on' THEN
+      NEW.total_amount := COALESCE(
+        public.booking_total_amount(NEW.trip_id, NEW.board_stop_order, NEW.alight_stop_order, NEW.seats_booked),
+        ROUND(OLD.total_amount / GREATEST(OLD.seats_booked, 1) * NEW.seats_booked, 2)
+      );
+    END IF;
+
+    SELECT max_fare INTO v_max_fare
+    FROM public.corporate_ride_policies
+    WHERE corporate_account_id = NEW.corporate_account_id
+      AND (cost_centre_id = NEW.cost_centre_id OR cost_centre_id IS NULL)
+    ORDER BY cost_centre_id NULLS LAST
+    LIMIT 1;
+
+    IF v_max_fare IS NOT NULL AND COALESCE(NEW.total_amount, 0) > v_max_fare THEN
+      RAISE EXCEPTION 'This fare is above your company''s limit of ₹%', v_max_fare;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(NEW.payment_method, '') <> 'corporate' THEN
+    NEW.corporate_account_id := NULL;
+    NEW.cost_centre_id := NULL;
+    NEW.purpose_code := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_account
+  FROM public.corporate_accounts
+  WHERE organization_id = public.user_organization_id(NEW.passenger_id) AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your organization does not pay for rides';
+  END IF;
+
+  NEW.corporate_account_id := v_account.id;
+  NEW.purpose_code := NULLIF(btrim(NEW.purpose_code), '');
+  NEW.payment_status := 'pending';
+  NEW.corporate_billed_at := NULL;
+  NEW.corporate_invoice_id := NULL;
+
+  IF NEW.cost_centre_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.cost_centres WHERE corporate_account_id = v_account.id AND is_active) THEN
+      RAISE EXCEPTION 'Choose a cost centre for this ride';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.cost_centres
+    WHERE id = NEW.cost_centre_id AND corporate_account_id = v_account.id AND is_active
+  ) THEN
+    RAISE EXCEPTION 'This cost centre is not available';
+  END IF;
+
+  IF NEW.purpose_code IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.corporate_purpose_codes
+    WHERE corporate_account_id = v_account.id AND code = NEW.purpose_code AND is_active
+  ) THEN
+    RAISE EXCEPTION 'This purpose code is not available';
+  END IF;
+
+  SELECT * INTO v_policy
+  FROM public.corporate_ride_policies
+  WHERE corporate_account_id = v_account.id
+    AND (cost_centre_id = NEW.cost_centre_id OR cost_centre_id IS NULL)
+  ORDER BY cost_centre_id NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT departure_time AT TIME ZONE 'Asia/Kolkata' INTO v_departure FROM public.trips WHERE id = NEW.trip_id;
+  v_departure := COALESCE(v_departure, NOW() AT TIME ZONE 'Asia/Kolkata');
+  v_time := v_departure::time;
+
+  IF NOT (EXTRACT(ISODOW FROM v_departure)::smallint = ANY(v_policy.allowed_days)) THEN
+    RAISE EXCEPTION 'Your company does not pay for rides on %', to_char(v_departure, 'FMDay');
+  END IF;
+
+  IF v_policy.allowed_start IS NOT NULL AND NOT (CASE
+    WHEN v_policy.allowed_start <= v_policy.allowed_end
+      THEN v_time BETWEEN v_policy.allowed_start AND v_policy.allowed_end
+    ELSE v_time >= v_policy.allowed_start OR v_time <= v_policy.allowed_end
+  END) THEN
+    RAISE EXCEPTION 'Your company only pays for rides departing between % and %',
+      to_char(v_policy.allowed_start, 'HH24:MI'), to_char(v_policy.allowed_end, 'HH24:MI');
+  END IF;
+
+  -- total_amount was already priced from the trip by assign_booking_segment
+  IF v_policy.max_fare IS NOT NULL AND COALESCE(NEW.total_amount, 0) > v_policy.max_fare THEN
+    RAISE EXCEPTION 'This fare is above your company''s limit of ₹%', v_policy.max_fare;
+  END IF;
+
+  IF v_policy.places_only AND NOT (
+    public.is_corporate_place(v_account.id, NEW.passenger_id, NEW.pickup_lat, NEW.pickup_lng)
+    AND public.is_corporate_place(v_account.id, NEW.passenger_id, NEW.drop_lat, NEW.drop_lng)
+  ) THEN
+    RAISE EXCEPTION 'Your company only pays for rides between your home and an office';
+  END IF;
+
+  IF v_policy.require_purpose AND NEW.purpose_code IS NULL THEN
+    RAISE EXCEPTION 'Choose a purpose for this ride';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_apply_corporate_ride_policy ON public.bookings;
+CREATE TRIGGER trigger_apply_corporate_ride_policy
+BEFORE INSERT OR UPDATE OF payment_method, corporate_account_id, cost_centre_id, purpose_code, corporate_billed_at, corporate_invoice_id, total_amount, seats_booked ON public.bookings
+FOR EACH ROW EXECUTE FUNCTION public.apply_corporate_ride_policy();
+
+-- 5. BILLING
+-- Post a finished company-billed ride to the corporate receivable. The
+-- passenger has nothing left to pay, so the booking completes straight away.
+CREATE OR REPLACE FUNCTION public.bill_corporate_booking(p_booking_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_billing_name TEXT;
+  v_transaction_id UUID;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR v_booking.corporate_account_id IS NULL THEN
+    RAISE EXCEPTION 'Booking is not billed to a company';
+  END IF;
+
+  SELECT id INTO v_transaction_id
+  FROM public.ledger_transactions
+  WHERE idempotency_key = 'corporate_billing:' || p_booking_id;
+
+  IF v_transaction_id IS NOT NULL THEN
+    RETURN v_transaction_id;
+  END IF;
+
+  SELECT billing_name INTO v_billing_name FROM public.corporate_accounts WHERE id = v_booking.corporate_account_id;
+
+  IF COALESCE(v_booking.total_amount, 0) > 0 THEN
+    v_transaction_id := public.post_ledger_transaction(
+      'Ride billed to ' || v_billing_name,
+      'booking',
+      p_booking_id::text,
+      jsonb_build_array(jsonb_build_object('account_id', public.get_ledger_account('corporate_receivable'), 'direction', 'debit', 'amount', v_booking.total_amount))
+        || public.booking_split_entries(p_booking_id, v_booking.total_amount, 'credit'),
+      'corporate_billing:' || p_booking_id
+    );
+
+    INSERT INTO public.payments (booking_id, amount, status, payment_method)
+    VALUES (p_booking_id, v_booking.total_amount, 'success', 'corporate');
+  END IF;
+
+  PERFORM set_config('app.corporate_billing', 'on', true);
+  UPDATE public.bookings
+  SET payment_status = 'paid',
+      corporate_billed_at = NOW(),
+      status = CASE WHEN status = 'payment_pending' THEN 'completed' ELSE status END
+  WHERE id = p_booking_id;
+  PERFORM set_config('app.corporate_billing', 'off', true);
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.bill_corporate_booking_on_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.corporate_account_id IS NOT NULL
+     AND NEW.status IN ('payment_pending', 'completed')
+     AND OLD.status NOT IN ('payment_pending', 'completed') THEN
+    PERFORM public.bill_corporate_booking(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_bill_corporate_booking ON public.bookings;
+CREATE TRIGGER trigger_bill_corporate_booking
+AFTER UPDATE OF status ON public.bookings
+FOR EACH ROW EXECUTE FUNCTION public.bill_corporate_booking_on_completion();
+
+-- 6. MONTHLY INVOICES
+-- One invoice per account for the rides billed up to the end of the period
+-- that aren't on an earlier invoice, for the amounts posted to the ledger
+-- when they were billed. Running it again for the same month is a no-op.
+CREATE OR REPLACE FUNCTION public.generate_corporate_invoices(
+  p_period_start DATE DEFAULT (date_trunc('month', NOW() AT TIME ZONE 'Asia/Kolkata') - INTERVAL '1 month')::date
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_period_start DATE := date_trunc('month', p_period_start)::date;
+  v_period_end DATE := (date_trunc('month', p_period_start) + INTERVAL '1 month')::date;
+  v_account RECORD;
+  v_invoice_id UUID;
+  v_invoices INTEGER := 0;
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF v_period_end > (NOW() AT TIME ZONE 'Asia/Kolkata')::date THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This month has not ended yet');
+  END IF;
+
+  FOR v_account IN
+    SELECT a.id, a.organization_id, a.payment_terms_days, s.ride_count, s.total_amount
+    FROM public.corporate_accounts a
+    JOIN (
+      SELECT corporate_account_id, COUNT(*) AS ride_count, SUM(public.corporate_billed_amount(id)) AS total_amount
+      FROM public.bookings
+      WHERE corporate_account_id IS NOT NULL
+        AND corporate_invoice_id IS NULL
+        AND corporate_billed_at < (v_period_end::timestamp AT TIME ZONE 'Asia/Kolkata')
+      GROUP BY corporate_account_id
+    ) s ON s.corporate_account_id = a.id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.corporate_invoices
+      WHERE corporate_account_id = a.id AND period_start = v_period_start
+    )
+  LOOP
+    INSERT INTO public.corporate_invoices (
+      corporate_account_id, invoice_number, period_start, period_end,
+      ride_count, gst, total_amount, due_date
+    )
+    VALUES (
+      v_account.id,
+      public.next_invoice_number('corporate_invoice', public.financial_year_for(v_period_start::timestamp AT TIME ZONE 'Asia/Kolkata')),
+      v_period_start,
+      v_period_end - 1,
+      v_account.ride_count,
+      ROUND(v_account.total_amount * 5 / 105, 2),
+      v_account.total_amount,
+      v_period_end - 1 + v_account.payment_terms_days
+    )
+    RETURNING id INTO v_invoice_id;
+
+    PERFORM set_config('app.corporate_billing', 'on', true);
+    UPDATE public.bookings
+    SET corporate_invoice_id = v_invoice_id
+    WHERE corporate_account_id = v_account.id
+      AND corporate_invoice_id IS NULL
+      AND corporate_billed_at < (v_period_end::timestamp AT TIME ZONE 'Asia/Kolkata');
+    PERFORM set_config('app.corporate_billing', 'off', true);
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    SELECT
+      m.user_id,
+      'Corporate Invoice Issued',
+      'Your ' || to_char(v_period_start, 'FMMonth YYYY') || ' invoice for ' || v_account.ride_count
+        || ' ride(s) totalling ₹' || v_account.total_amount || ' is ready',
+      'organization',
+      jsonb_build_object('corporate_invoice_id', v_invoice_id)
+    FROM public.organization_members m
+    WHERE m.organization_id = v_account.organization_id AND m.role = 'admin' AND m.status = 'active';
+
+    v_invoices := v_invoices + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'period_start', v_period_start, 'invoices', v_invoices);
+END;
+$$;
+
+-- Settle an invoice once the company's transfer arrives
+CREATE OR REPLACE FUNCTION public.record_corporate_invoice_payment(
+  p_invoice_id UUID,
+  p_reference TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_invoice RECORD;
+  v_transaction_id UUID;
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not allowed');
+  END IF;
+
+  IF NULLIF(btrim(p_reference), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Enter the payment reference');
+  END IF;
+
+  SELECT * INTO v_invoice FROM public.corporate_invoices WHERE id = p_invoice_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invoice not found');
+  END IF;
+
+  IF v_invoice.status <> 'issued' THEN
+    RETURN jsonb_build_object('success', false, 'error', format('Invoice is already %s', v_invoice.status));
+  END IF;
+
+  IF v_invoice.total_amount > 0 THEN
+    v_transaction_id := public.post_ledger_transaction(
+      'Corporate invoice ' || v_invoice.invoice_number || ' paid',
+      'corporate_invoice',
+      p_invoice_id::text,
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.get_ledger_account('payment_gateway'), 'direction', 'debit', 'amount', v_invoice.total_amount),
+        jsonb_build_object('account_id', public.get_ledger_account('corporate_receivable'), 'direction', 'credit', 'amount', v_invoice.total_amount)
+      ),
+      'corporate_invoice_payment:' || p_invoice_id
+    );
+  END IF;
+
+  UPDATE public.corporate_invoices
+  SET status = 'paid', paid_at = NOW(), payment_reference = btrim(p_reference), ledger_transaction_id = v_transaction_id
+  WHERE id = p_invoice_id;
+
+  RETURN jsonb_build_object('success', true, 'transaction_id', v_transaction_id);
+END;
+$$;
+
+-- Rides on an invoice, for the statement org admins download
+CREATE OR REPLACE FUNCTION public.get_corporate_invoice_lines(p_invoice_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_invoice RECORD;
+BEGIN
+  SELECT * INTO v_invoice FROM public.corporate_invoices WHERE id = p_invoice_id;
+
+  IF NOT FOUND OR NOT public.is_corporate_account_admin(v_invoice.corporate_account_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invoice not found');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'lines', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'booking_id', b.id,
+        'billed_at', b.corporate_billed_at,
+        'employee_name', u.full_name,
+        'work_email', m.work_email,
+        'cost_centre', c.code,
+        'purpose_code', b.purpose_code,
+        'route', b.pickup_location || ' → ' || b.drop_location,
+        'seats', b.seats_booked,
+        'amount', public.corporate_billed_amount(b.id)
+      ) ORDER BY b.corporate_billed_at)
+      FROM public.bookings b
+      JOIN public.users u ON u.id = b.passenger_id
+      LEFT JOIN public.cost_centres c ON c.id = b.cost_centre_id
+      LEFT JOIN public.corporate_accounts a ON a.id = b.corporate_account_id
+      LEFT JOIN public.organization_members m
+        ON m.user_id = b.passenger_id AND m.organization_id = a.organization_id AND m.status = 'active'
+      WHERE b.corporate_invoice_id = p_invoice_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- 7. SPEND REPORT
+-- Company-billed spend per employee and per cost centre between two dates,
+-- from the bookings and the payments recorded when they were billed
+CREATE OR REPLACE FUNCTION public.get_corporate_spend(
+  p_corporate_account_id UUID,
+  p_from DATE,
+  p_to DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_from TIMESTAMPTZ := p_from::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_to TIMESTAMPTZ := (p_to + 1)::timestamp AT TIME ZONE 'Asia/Kolkata';
+  v_organization_id UUID;
+  v_result JSONB;
+BEGIN
+  IF NOT public.is_corporate_account_admin(p_corporate_account_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only organization admins can view company spend');
+  END IF;
+
+  SELECT organization_id INTO v_organization_id FROM public.corporate_accounts WHERE id = p_corporate_account_id;
+
+  WITH rides AS (
+    SELECT b.passenger_id, b.cost_centre_id, p.amount
+    FROM public.bookings b
+    JOIN public.payments p ON p.booking_id = b.id AND p.payment_method = 'corporate' AND p.status = 'success'
+    WHERE b.corporate_account_id = p_corporate_account_id
+      AND b.corporate_billed_at >= v_from
+      AND b.corporate_billed_at < v_to
+  ),
+  employees AS (
+    SELECT passenger_id, COUNT(*) AS ride_count, SUM(amount) AS total_amount
+    FROM rides
+    GROUP BY passenger_id
+  ),
+  centres AS (
+    SELECT cost_centre_id, COUNT(*) AS ride_count, SUM(amount) AS total_amount
+    FROM rides
+    GROUP BY cost_centre_id
+  )
+  SELECT jsonb_build_object(
+    'success', true,
+    'ride_count', (SELECT COUNT(*) FROM rides),
+    'total_amount', (SELECT COALESCE(SUM(amount), 0) FROM rides),
+    'employees', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'user_id', e.passenger_id,
+        'full_name', u.full_name,
+        'work_email', m.work_email,
+        'ride_count', e.ride_count,
+        'total_amount', e.total_amount
+      ) ORDER BY e.total_amount DESC)
+      FROM employees e
+      JOIN public.users u ON u.id = e.passenger_id
+      LEFT JOIN public.organization_members m
+        ON m.user_id = e.passenger_id AND m.organization_id = v_organization_id AND m.status = 'active'
+    ), '[]'::jsonb),
+    'cost_centres', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'cost_centre_id', c.cost_centre_id,
+        'code', cc.code,
+        'name', cc.name,
+        'ride_count', c.ride_count,
+        'total_amount', c.total_amount
+      ) ORDER BY c.total_amount DESC)
+      FROM centres c
+      LEFT JOIN public.cost_centres cc ON cc.id = c.cost_centre_id
+    ), '[]'::jsonb)
+  )
+  INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+-- 8. RLS
+ALTER TABLE public.corporate_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cost_centres ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.corporate_purpose_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.corporate_ride_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.corporate_places ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.corporate_invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members view their corporate account" ON public.corporate_accounts;
+CREATE POLICY "Members view their corporate account" ON public.corporate_accounts
+FOR SELECT USING (
+  organization_id = public.user_organization_id(auth.uid())
+  OR public.has_admin_permission('payments.manage')
+);
+
+DROP POLICY IF EXISTS "Admins manage corporate accounts" ON public.corporate_accounts;
+CREATE POLICY "Admins manage corporate accounts" ON public.corporate_accounts
+FOR ALL USING (public.has_admin_permission('payments.manage'))
+WITH CHECK (public.has_admin_permission('payments.manage'));
+
+DROP POLICY IF EXISTS "Members view cost centres" ON public.cost_centres;
+CREATE POLICY "Members view cost centres" ON public.cost_centres
+FOR SELECT USING (
+  public.is_corporate_account_member(corporate_account_id)
+  OR public.is_corporate_account_admin(corporate_account_id)
+);
+
+DROP POLICY IF EXISTS "Org admins manage cost centres" ON public.cost_centres;
+CREATE POLICY "Org admins manage cost centres" ON public.cost_centres
+FOR ALL USING (public.is_corporate_account_admin(corporate_account_id))
+WITH CHECK (public.is_corporate_account_admin(corporate_account_id));
+
+DROP POLICY IF EXISTS "Members view purpose codes" ON public.corporate_purpose_codes;
+CREATE POLICY "Members view purpose codes" ON public.corporate_purpose_codes
+FOR SELECT USING (
+  public.is_corporate_account_member(corporate_account_id)
+  OR public.is_corporate_account_admin(corporate_account_id)
+);
+
+DROP POLICY IF EXISTS "Org admins manage purpose codes" ON public.corporate_purpose_codes;
+CREATE POLICY "Org admins manage purpose codes" ON public.corporate_purpose_codes
+FOR ALL USING (public.is_corporate_account_admin(corporate_account_id))
+WITH CHECK (public.is_corporate_account_admin(corporate_account_id));
+
+DROP POLICY IF EXISTS "Members view ride policies" ON public.corporate_ride_policies;
+CREATE POLICY "Members view ride policies" ON public.corporate_ride_policies
+FOR SELECT USING (
+  public.is_corporate_account_member(corporate_account_id)
+  OR public.is_corporate_account_admin(corporate_account_id)
+);
+
+DROP POLICY IF EXISTS "Org admins manage ride policies" ON public.corporate_ride_policies;
+CREATE POLICY "Org admins manage ride policies" ON public.corporate_ride_policies
+FOR ALL USING (public.is_corporate_account_admin(corporate_account_id))
+WITH CHECK (public.is_corporate_account_admin(corporate_account_id));
+
+-- Members see the offices and their own home; org admins see every place
+DROP POLICY IF EXISTS "View corporate places" ON public.corporate_places;
+CREATE POLICY "View corporate places" ON public.corporate_places
+FOR SELECT USING (
+  (public.is_corporate_account_member(corporate_account_id) AND (place_type = 'office' OR user_id = auth.uid()))
+  OR public.is_corporate_account_admin(corporate_account_id)
+);
+
+DROP POLICY IF EXISTS "Members manage their home" ON public.corporate_places;
+CREATE POLICY "Members manage their home" ON public.corporate_places
+FOR ALL USING (place_type = 'home' AND user_id = auth.uid())
+WITH CHECK (
+  place_type = 'home'
+  AND user_id = auth.uid()
+  AND public.is_corporate_account_member(corporate_account_id)
+);
+
+DROP POLICY IF EXISTS "Org admins manage corporate places" ON public.corporate_places;
+CREATE POLICY "Org admins manage corporate places" ON public.corporate_places
+FOR ALL USING (public.is_corporate_account_admin(corporate_account_id))
+WITH CHECK (public.is_corporate_account_admin(corporate_account_id));
+
+DROP POLICY IF EXISTS "Org admins view corporate invoices" ON public.corporate_invoices;
+CREATE POLICY "Org admins view corporate invoices" ON public.corporate_invoices
+FOR SELECT USING (public.is_corporate_account_admin(corporate_account_id));
+
+-- 9. SCHEDULE
+-- Invoice the previous month on the 1st at 06:00 IST where pg_cron is
+-- available; otherwise admins run it from the Corporate tab.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('monthly-corporate-invoices', '30 0 1 * *', $job$
+      SELECT set_config('request.jwt.claim.role', 'service_role', true);
+      SELECT public.generate_corporate_invoices();
+    $job$);
+  END IF;
+END $$;
+
+-- 10. PERMISSIONS
+GRANT SELECT ON public.corporate_accounts, public.cost_centres, public.corporate_purpose_codes,
+  public.corporate_ride_policies, public.corporate_places, public.corporate_invoices TO authenticated;
+GRANT INSERT, UPDATE, DELETE ON public.corporate_accounts, public.cost_centres, public.corporate_purpose_codes,
+  public.corporate_ride_policies, public.corporate_places TO authenticated;
+GRANT ALL ON public.corporate_accounts, public.cost_centres, public.corporate_purpose_codes,
+  public.corporate_ride_policies, public.corporate_places, public.corporate_invoices TO service_role;
+
+REVOKE ALL ON FUNCTION public.is_corporate_place(UUID, UUID, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.corporate_billed_amount(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.apply_corporate_ride_policy() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.bill_corporate_booking(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.bill_corporate_booking_on_completion() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.generate_corporate_invoices(DATE) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.record_corporate_invoice_payment(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_corporate_invoice_lines(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_corporate_spend(UUID, DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_corporate_account_admin(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.is_corporate_account_member(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.is_corporate_place(UUID, UUID, NUMERIC, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION public.corporate_billed_amount(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.bill_corporate_booking(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.generate_corporate_invoices(DATE) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.record_corporate_invoice_payment(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_corporate_invoice_lines(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_corporate_spend(UUID, DATE, DATE) TO authenticated, service_role;
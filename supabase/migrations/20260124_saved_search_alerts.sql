@@ -0,0 +1,183 @@
+-- ============================================
+-- Saved Search Alerts
+-- Description: Passengers save a route with an optional departure window and
+-- seat price cap, and are alerted when a matching trip is published. Matching
+-- reuses search_trip_segments(), the stop matching behind the search page, so
+-- an alert never points at a trip the search would not show. A scheduled job
+-- records each match once and hands the alerts to the saved-search-alerts
+-- edge function, which delivers them through send-push-notification. Each
+-- saved search can be snoozed or unsubscribed without deleting it.
+-- ============================================
+
+-- 1. TABLES
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  pickup_location TEXT NOT NULL CHECK (length(trim(pickup_location)) > 0),
+  pickup_lat NUMERIC,
+  pickup_lng NUMERIC,
+  drop_location TEXT NOT NULL CHECK (length(trim(drop_location)) > 0),
+  drop_lat NUMERIC,
+  drop_lng NUMERIC,
+  -- Departure time of day in IST, both or neither
+  window_start TIME,
+  window_end TIME,
+  max_price NUMERIC(10,2) CHECK (max_price IS NULL OR max_price > 0),
+  alerts_enabled BOOLEAN NOT NULL DEFAULT true,
+  snoozed_until TIMESTAMPTZ,
+  -- Trips published before this are never alerted, so resubscribing does not replay old trips
+  alerts_since TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_alerted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK ((window_start IS NULL) = (window_end IS NULL)),
+  CHECK (window_start IS NULL OR window_start < window_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON public.saved_searches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerting ON public.saved_searches(alerts_enabled) WHERE alerts_enabled;
+
+-- One row per trip a saved search has alerted about
+CREATE TABLE IF NOT EXISTS public.saved_search_matches (
+  saved_search_id UUID NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  trip_id UUID NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (saved_search_id, trip_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trips_created_at ON public.trips(created_at DESC);
+
+-- 2. SUBSCRIPTION STATE
+CREATE OR REPLACE FUNCTION public.track_saved_search_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.alerts_enabled AND NOT OLD.alerts_enabled THEN
+    NEW.alerts_since := NOW();
+    NEW.snoozed_until := NULL;
+  END IF;
+
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_track_saved_search_alerts ON public.saved_searches;
+CREATE TRIGGER trg_track_saved_search_alerts
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_saved_search_alerts();
+
+-- 3. MATCHING
+-- Records new matches for every subscribed, unsnoozed search and returns one
+-- alert per search. Only trips published in the last day are considered; a
+-- trip published while a search was snoozed is skipped, not delivered late.
+CREATE OR REPLACE FUNCTION public.collect_saved_search_alerts()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alerts JSONB;
+BEGIN
+  WITH candidates AS (
+    SELECT s.id AS saved_search_id, seg.trip_id
+    FROM public.saved_searches s
+    CROSS JOIN LATERAL public.search_trip_segments(s.pickup_location, s.drop_location, NOW(), NULL) seg
+    JOIN public.trips t ON t.id = seg.trip_id
+    JOIN public.drivers d ON d.id = t.driver_id
+    WHERE s.alerts_enabled
+      AND (s.snoozed_until IS NULL OR s.snoozed_until <= NOW())
+      AND t.created_at >= GREATEST(s.alerts_since, COALESCE(s.snoozed_until, s.alerts_since), NOW() - INTERVAL '1 day')
+      AND d.verification_status = 'verified'
+      AND d.user_id <> s.user_id
+      AND (s.max_price IS NULL OR seg.seat_price <= s.max_price)
+      AND (s.window_start IS NULL
+        OR (t.departure_time AT TIME ZONE 'Asia/Kolkata')::TIME BETWEEN s.window_start AND s.window_end)
+  ),
+  inserted AS (
+    INSERT INTO public.saved_search_matches (saved_search_id, trip_id)
+    SELECT saved_search_id, trip_id FROM candidates
+    ON CONFLICT DO NOTHING
+    RETURNING saved_search_id, trip_id
+  ),
+  touched AS (
+    UPDATE public.saved_searches
+    SET last_alerted_at = NOW()
+    WHERE id IN (SELECT saved_search_id FROM inserted)
+    RETURNING id
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'user_id', s.user_id,
+    'saved_search_id', s.id,
+    'push_token', u.push_token,
+    'trip_ids', m.trip_ids,
+    'pickup_location', s.pickup_location,
+    'drop_location', s.drop_location,
+    'title', 'New rides: ' || s.name,
+    'message', CASE WHEN m.trip_count = 1
+      THEN 'A new ride from ' || s.pickup_location || ' to ' || s.drop_location || ' was just published'
+      ELSE m.trip_count || ' new rides from ' || s.pickup_location || ' to ' || s.drop_location || ' were just published'
+    END
+  )), '[]'::JSONB)
+  INTO v_alerts
+  FROM (
+    SELECT saved_search_id, jsonb_agg(trip_id) AS trip_ids, COUNT(*) AS trip_count
+    FROM inserted
+    GROUP BY saved_search_id
+  ) m
+  JOIN public.saved_searches s ON s.id = m.saved_search_id
+  JOIN public.users u ON u.id = s.user_id;
+
+  RETURN jsonb_build_object('success', true, 'alerts', v_alerts);
+END;
+$$;
+
+-- 4. RLS
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their saved searches" ON public.saved_searches;
+CREATE POLICY "Users manage their saved searches" ON public.saved_searches
+  FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users view their saved search matches" ON public.saved_search_matches;
+CREATE POLICY "Users view their saved search matches" ON public.saved_search_matches
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.saved_searches s
+    WHERE s.id = saved_search_id AND s.user_id = auth.uid()
+  ));
+
+-- 5. SCHEDULE
+-- Every 5 minutes, call the edge function that collects and delivers alerts.
+-- Needs pg_cron and pg_net, with the project URL and service role key stored
+-- in Vault as 'project_url' and 'service_role_key'.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule('saved-search-alerts', '*/5 * * * *', $job$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/saved-search-alerts',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::JSONB
+      )
+    $job$);
+  END IF;
+END $$;
+
+-- 6. PERMISSIONS
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.saved_searches TO authenticated;
+GRANT SELECT ON public.saved_search_matches TO authenticated;
+GRANT ALL ON public.saved_searches, public.saved_search_matches TO service_role;
+
+REVOKE ALL ON FUNCTION public.track_saved_search_alerts() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.collect_saved_search_alerts() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.collect_saved_search_alerts() TO service_role;
@@ -0,0 +1,553 @@
+-- ============================================
+-- Ride Request Marketplace
+-- Description: Passengers post a future ride request (route, departure
+-- window, seats and what they are willing to pay) for drivers to browse.
+-- Drivers answer with an offer: a departure time inside the window, a seat
+-- price and the seats they will publish. Accepting an offer creates the trip
+-- and the passenger's booking in one transaction; seats beyond the
+-- passenger's stay bookable by others. Marketplace requests are never
+-- dispatched and are left out of the instant request list.
+-- ============================================
+
+-- 1. REQUEST COLUMNS
+-- scheduled_time is the start of the departure window, scheduled_until its end.
+-- fare is the total the passenger is willing to pay for all their seats.
+ALTER TABLE public.ride_requests ADD COLUMN IF NOT EXISTS is_marketplace BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.ride_requests ADD COLUMN IF NOT EXISTS scheduled_until TIMESTAMPTZ;
+ALTER TABLE public.ride_requests ADD COLUMN IF NOT EXISTS notes TEXT;
+
+ALTER TABLE public.ride_requests DROP CONSTRAINT IF EXISTS check_marketplace_window;
+ALTER TABLE public.ride_requests ADD CONSTRAINT check_marketplace_window
+CHECK (
+  NOT is_marketplace
+  OR (scheduled_time IS NOT NULL AND scheduled_until IS NOT NULL AND scheduled_until > scheduled_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ride_requests_marketplace
+ON public.ride_requests(scheduled_time)
+WHERE is_marketplace AND status = 'pending';
+
+-- 2. OFFERS
+CREATE TABLE IF NOT EXISTS public.ride_request_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_request_id UUID REFERENCES public.ride_requests(id) ON DELETE CASCADE NOT NULL,
+  driver_id UUID REFERENCES public.drivers(id) ON DELETE CASCADE NOT NULL,
+  vehicle_id UUID REFERENCES public.vehicles(id) ON DELETE SET NULL,
+  departure_time TIMESTAMPTZ NOT NULL,
+  price_per_seat DECIMAL(10,2) NOT NULL CHECK (price_per_seat > 0),
+  -- Seats published on the trip; those beyond the request's stay open to others
+  total_seats INTEGER NOT NULL CHECK (total_seats > 0),
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'offered' CHECK (status IN ('offered', 'accepted', 'declined', 'withdrawn', 'expired')),
+  trip_id UUID REFERENCES public.trips(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  responded_at TIMESTAMPTZ
+);
+
+-- A driver has at most one open offer per request; a withdrawn one can be replaced
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ride_request_offers_open
+ON public.ride_request_offers(ride_request_id, driver_id)
+WHERE status = 'offered';
+
+CREATE INDEX IF NOT EXISTS idx_ride_request_offers_driver ON public.ride_request_offers(driver_id, created_at DESC);
+
+-- 3. RLS
+-- Offers are written through the functions below only
+ALTER TABLE public.ride_request_offers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "View own or received ride request offers" ON public.ride_request_offers;
+CREATE POLICY "View own or received ride request offers" ON public.ride_request_offers
+FOR SELECT
+USING (
+  EXISTS (SELECT 1 FROM public.drivers WHERE id = driver_id AND user_id = auth.uid())
+  OR EXISTS (SELECT 1 FROM public.ride_requests WHERE id = ride_request_id AND passenger_id = auth.uid())
+  OR public.has_admin_permission('bookings.manage')
+);
+
+-- Passengers' apps listen for new offers
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE public.ride_request_offers;
+EXCEPTION WHEN duplicate_object THEN
+  RAISE NOTICE 'ride_request_offers already in publication';
+WHEN OTHERS THEN
+  RAISE NOTICE 'Error adding ride_request_offers to publication: %', SQLERRM;
+END $$;
+
+-- 4. BROWSING
+-- Open marketplace requests near the driver, nearest pickup first. Uses the
+-- given position, else the driver's last known one; with neither, every
+-- open request is listed. Organization-only requests are shown to colleagues only.
+CREATE OR REPLACE FUNCTION public.find_marketplace_ride_requests(
+  p_lat NUMERIC DEFAULT NULL,
+  p_lng NUMERIC DEFAULT NULL,
+  p_radius_km NUMERIC DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  passenger_id UUID,
+  passenger_name TEXT,
+  passenger_reliability NUMERIC,
+  pickup_location TEXT,
+  pickup_lat NUMERIC,
+  pickup_lng NUMERIC,
+  drop_location TEXT,
+  drop_lat NUMERIC,
+  drop_lng NUMERIC,
+  vehicle_type TEXT,
+  seats INTEGER,
+  fare NUMERIC,
+  distance NUMERIC,
+  duration INTEGER,
+  scheduled_time TIMESTAMPTZ,
+  scheduled_until TIMESTAMPTZ,
+  notes TEXT,
+  distance_km NUMERIC,
+  offer_count BIGINT,
+  my_offer JSONB,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_driver RECORD;
+  v_lat NUMERIC := p_lat;
+  v_lng NUMERIC := p_lng;
+BEGIN
+  SELECT d.id, d.user_id INTO v_driver FROM public.drivers d WHERE d.user_id = auth.uid();
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF v_lat IS NULL OR v_lng IS NULL THEN
+    SELECT da.current_lat, da.current_lng INTO v_lat, v_lng
+    FROM public.driver_availability da
+    WHERE da.driver_id = v_driver.id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.passenger_id,
+    u.full_name::TEXT,
+    u.reliability_score::NUMERIC,
+    r.pickup_location,
+    r.pickup_lat::NUMERIC,
+    r.pickup_lng::NUMERIC,
+    r.drop_location,
+    r.drop_lat::NUMERIC,
+    r.drop_lng::NUMERIC,
+    r.vehicle_type,
+    r.seats,
+    r.fare::NUMERIC,
+    r.distance::NUMERIC,
+    r.duration,
+    r.scheduled_time,
+    r.scheduled_until,
+    r.notes,
+    CASE WHEN v_lat IS NOT NULL AND v_lng IS NOT NULL
+      THEN ROUND(public.distance_km(v_lat, v_lng, r.pickup_lat, r.pickup_lng), 1)
+    END,
+    (SELECT COUNT(*) FROM public.ride_request_offers o WHERE o.ride_request_id = r.id AND o.status = 'offered'),
+    (
+      SELECT to_jsonb(o) FROM public.ride_request_offers o
+      WHERE o.ride_request_id = r.id AND o.driver_id = v_driver.id AND o.status = 'offered'
+    ),
+    r.created_at
+  FROM public.ride_requests r
+  JOIN public.users u ON u.id = r.passenger_id
+  WHERE r.is_marketplace
+    AND r.status = 'pending'
+    AND r.scheduled_until > NOW()
+    AND r.passenger_id <> v_driver.user_id
+    AND (
+      NOT COALESCE(r.organization_only, false)
+      OR public.user_organization_id(v_driver.user_id) = r.organization_id
+    )
+    AND (
+      v_lat IS NULL OR v_lng IS NULL
+      OR public.distance_km(v_lat, v_lng, r.pickup_lat, r.pickup_lng) <= p_radius_km
+    )
+  ORDER BY
+    CASE WHEN v_lat IS NOT NULL AND v_lng IS NOT NULL
+      THEN public.distance_km(v_lat, v_lng, r.pickup_lat, r.pickup_lng)
+    END NULLS LAST,
+    r.scheduled_time;
+END;
+$$;
+
+-- 5. DRIVER OFFERS
+-- The offer is made with the driver's active vehicle, which must be verified,
+-- of the requested type and have room for the passenger's seats
+CREATE OR REPLACE FUNCTION public.make_ride_request_offer(
+  p_request_id UUID,
+  p_departure_time TIMESTAMPTZ,
+  p_price_per_seat NUMERIC,
+  p_total_seats INTEGER DEFAULT NULL,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_driver RECORD;
+  v_vehicle RECORD;
+  v_request RECORD;
+  v_total_seats INTEGER;
+  v_offer_id UUID;
+BEGIN
+  SELECT * INTO v_driver FROM public.drivers WHERE user_id = auth.uid();
+  IF NOT FOUND OR v_driver.verification_status <> 'verified' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only verified drivers can make offers');
+  END IF;
+
+  SELECT * INTO v_vehicle FROM public.vehicles WHERE id = v_driver.active_vehicle_id;
+  IF NOT FOUND OR v_vehicle.verification_status <> 'verified' OR v_vehicle.is_archived THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose a verified vehicle before making offers');
+  END IF;
+
+  SELECT * INTO v_request FROM public.ride_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND OR NOT v_request.is_marketplace OR v_request.status <> 'pending' OR v_request.scheduled_until <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This ride request is no longer open');
+  END IF;
+
+  IF v_request.passenger_id = v_driver.user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You cannot offer a ride on your own request');
+  END IF;
+
+  IF COALESCE(v_request.organization_only, false)
+    AND public.user_organization_id(v_driver.user_id) IS DISTINCT FROM v_request.organization_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This request is open to the passenger''s organization only');
+  END IF;
+
+  IF v_vehicle.vehicle_type <> v_request.vehicle_type THEN
+    RETURN jsonb_build_object('success', false, 'error', format('The passenger asked for a %s', v_request.vehicle_type));
+  END IF;
+
+  IF p_departure_time < v_request.scheduled_time OR p_departure_time > v_request.scheduled_until
+    OR p_departure_time <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Departure must be within the passenger''s window');
+  END IF;
+
+  IF p_price_per_seat IS NULL OR p_price_per_seat <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Enter a seat price');
+  END IF;
+
+  v_total_seats := COALESCE(p_total_seats, v_request.seats);
+  IF v_total_seats < v_request.seats OR v_total_seats > v_vehicle.seat_count THEN
+    RETURN jsonb_build_object('success', false, 'error',
+      format('Offer between %s and %s seats', v_request.seats, v_vehicle.seat_count));
+  END IF;
+
+  -- A new offer from the same driver replaces their open one
+  UPDATE public.ride_request_offers
+  SET status = 'withdrawn', responded_at = NOW()
+  WHERE ride_request_id = p_request_id AND driver_id = v_driver.id AND status = 'offered';
+
+  INSERT INTO public.ride_request_offers (
+    ride_request_id, driver_id, vehicle_id, departure_time, price_per_seat, total_seats, message
+  )
+  VALUES (
+    p_request_id, v_driver.id, v_vehicle.id, p_departure_time, p_price_per_seat, v_total_seats,
+    NULLIF(trim(p_message), '')
+  )
+  RETURNING id INTO v_offer_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  VALUES (
+    v_request.passenger_id,
+    'New Ride Offer',
+    format('A driver offered ₹%s per seat for %s → %s', p_price_per_seat, v_request.pickup_location, v_request.drop_location),
+    'booking',
+    jsonb_build_object('rideRequestId', p_request_id, 'offerId', v_offer_id)
+  );
+
+  RETURN jsonb_build_object('success', true, 'offer_id', v_offer_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.withdraw_ride_request_offer(p_offer_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.ride_request_offers o
+  SET status = 'withdrawn', responded_at = NOW()
+  FROM public.drivers d
+  WHERE o.id = p_offer_id
+    AND d.id = o.driver_id
+    AND d.user_id = auth.uid()
+    AND o.status = 'offered';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This offer is no longer open');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- 6. PASSENGER RESPONSE
+CREATE OR REPLACE FUNCTION public.decline_ride_request_offer(p_offer_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE public.ride_request_offers o
+  SET status = 'declined', responded_at = NOW()
+  FROM public.ride_requests r
+  WHERE o.id = p_offer_id
+    AND r.id = o.ride_request_id
+    AND r.passenger_id = auth.uid()
+    AND o.status = 'offered';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This offer is no longer open');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Creates the driver's trip and the passenger's confirmed booking, then
+-- closes the request. The driver agreed to this passenger by offering, so
+-- the reliability auto-approval check is skipped for this booking.
+CREATE OR REPLACE FUNCTION public.accept_ride_request_offer(p_offer_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_offer RECORD;
+  v_request RECORD;
+  v_driver_user_id UUID;
+  v_trip_id UUID;
+  v_booking_id UUID;
+BEGIN
+  SELECT * INTO v_offer FROM public.ride_request_offers WHERE id = p_offer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Offer not found');
+  END IF;
+
+  SELECT * INTO v_request
+  FROM public.ride_requests
+  WHERE id = v_offer.ride_request_id AND passenger_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Offer not found');
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This ride request is no longer open');
+  END IF;
+
+  IF v_offer.status <> 'offered' OR v_offer.departure_time <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This offer is no longer available');
+  END IF;
+
+  SELECT user_id INTO v_driver_user_id FROM public.drivers WHERE id = v_offer.driver_id;
+
+  INSERT INTO public.trips (
+    driver_id, vehicle_id, pickup_location, pickup_lat, pickup_lng, drop_location, drop_lat, drop_lng,
+    departure_time, distance, duration, price_per_seat, base_price, available_seats, total_seats,
+    status, preferences
+  )
+  VALUES (
+    v_offer.driver_id, v_offer.vehicle_id, v_request.pickup_location, v_request.pickup_lat, v_request.pickup_lng,
+    v_request.drop_location, v_request.drop_lat, v_request.drop_lng,
+    v_offer.departure_time, v_request.distance, v_request.duration, v_offer.price_per_seat,
+    v_offer.price_per_seat, v_offer.total_seats, v_offer.total_seats,
+    'upcoming', COALESCE(v_request.preferences, '{}'::JSONB)
+  )
+  RETURNING id INTO v_trip_id;
+
+  PERFORM set_config('app.ride_request_offer', 'on', true);
+  PERFORM set_config('app.booking_priced', 'on', true);
+  INSERT INTO public.bookings (
+    trip_id, passenger_id, driver_id, seats_booked, total_amount, status, payment_status,
+    pickup_location, pickup_lat, pickup_lng, drop_location, drop_lat, drop_lng
+  )
+  VALUES (
+    v_trip_id, v_request.passenger_id, v_offer.driver_id, v_request.seats, v_offer.price_per_seat * v_request.seats,
+    'confirmed', 'pending',
+    v_request.pickup_location, v_request.pickup_lat, v_request.pickup_lng,
+    v_request.drop_location, v_request.drop_lat, v_request.drop_lng
+  )
+  RETURNING id INTO v_booking_id;
+  PERFORM set_config('app.ride_request_offer', 'off', true);
+  PERFORM set_config('app.booking_priced', 'off', true);
+
+  UPDATE public.trips SET booking_id = v_booking_id WHERE id = v_trip_id;
+
+  UPDATE public.ride_request_offers
+  SET status = 'accepted', trip_id = v_trip_id, responded_at = NOW()
+  WHERE id = p_offer_id;
+
+  -- The status trigger declines the other open offers
+  UPDATE public.ride_requests
+  SET status = 'accepted',
+      driver_id = v_offer.driver_id,
+      matched_driver_id = v_offer.driver_id,
+      trip_id = v_trip_id,
+      fare = v_offer.price_per_seat * v_request.seats,
+      matched_at = NOW(),
+      accepted_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_request.id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  VALUES (
+    v_driver_user_id,
+    'Offer Accepted',
+    format('Your ride %s → %s on %s is booked', v_request.pickup_location, v_request.drop_location,
+      to_char(v_offer.departure_time AT TIME ZONE 'Asia/Kolkata', 'DD Mon, HH12:MI AM')),
+    'booking',
+    jsonb_build_object('tripId', v_trip_id, 'bookingId', v_booking_id, 'rideRequestId', v_request.id)
+  );
+
+  RETURN jsonb_build_object('success', true, 'trip_id', v_trip_id, 'booking_id', v_booking_id);
+END;
+$$;
+
+-- Same as before, except for bookings created by accepting a driver's offer
+CREATE OR REPLACE FUNCTION public.apply_booking_auto_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_driver RECORD;
+  v_score NUMERIC;
+BEGIN
+  IF NEW.status <> 'confirmed' OR NEW.trip_id IS NULL OR auth.uid() IS DISTINCT FROM NEW.passenger_id
+    OR COALESCE(current_setting('app.ride_request_offer', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT d.user_id, d.min_auto_approve_reliability INTO v_driver
+  FROM public.trips t JOIN public.drivers d ON d.id = t.driver_id
+  WHERE t.id = NEW.trip_id;
+
+  IF v_driver.min_auto_approve_reliability IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT reliability_score INTO v_score FROM public.users WHERE id = NEW.passenger_id;
+
+  IF COALESCE(v_score, 100) < v_driver.min_auto_approve_reliability THEN
+    NEW.status := 'pending';
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      v_driver.user_id,
+      'Booking Request',
+      format('A passenger with a reliability score of %s wants to join your trip.', ROUND(COALESCE(v_score, 100))),
+      'booking_request',
+      jsonb_build_object('bookingId', NEW.id, 'tripId', NEW.trip_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 7. CLOSING OFFERS
+-- Once a request leaves pending its open offers are closed: declined when
+-- another offer was accepted, expired when the request was cancelled or expired
+CREATE OR REPLACE FUNCTION public.close_ride_request_offers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status <> 'pending' THEN
+    UPDATE public.ride_request_offers
+    SET status = CASE WHEN NEW.status = 'accepted' THEN 'declined' ELSE 'expired' END,
+        responded_at = NOW()
+    WHERE ride_request_id = NEW.id AND status = 'offered';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_close_ride_request_offers ON public.ride_requests;
+CREATE TRIGGER trigger_close_ride_request_offers
+AFTER UPDATE OF status ON public.ride_requests
+FOR EACH ROW EXECUTE FUNCTION public.close_ride_request_offers();
+
+-- Expire requests whose window has passed and offers whose departure has
+CREATE OR REPLACE FUNCTION public.expire_marketplace_ride_requests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT public.is_service_or_admin() THEN
+    RAISE EXCEPTION 'Only admins can expire ride requests';
+  END IF;
+
+  UPDATE public.ride_request_offers
+  SET status = 'expired', responded_at = NOW()
+  WHERE status = 'offered' AND departure_time <= NOW();
+
+  WITH expired AS (
+    UPDATE public.ride_requests
+    SET status = 'expired', updated_at = NOW()
+    WHERE is_marketplace AND status = 'pending' AND scheduled_until <= NOW()
+    RETURNING id, passenger_id, pickup_location, drop_location
+  ),
+  notified AS (
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    SELECT
+      passenger_id,
+      'Ride Request Expired',
+      format('No offer was accepted for %s → %s', pickup_location, drop_location),
+      'info',
+      jsonb_build_object('rideRequestId', id)
+    FROM expired
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_count FROM notified;
+
+  RETURN v_count;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-marketplace-ride-requests', '*/15 * * * *', $job$
+      SELECT set_config('request.jwt.claim.role', 'service_role', true);
+      SELECT public.expire_marketplace_ride_requests();
+    $job$);
+  END IF;
+END $$;
+
+-- 8. PERMISSIONS
+REVOKE INSERT, UPDATE, DELETE ON public.ride_request_offers FROM anon, authenticated;
+GRANT SELECT ON public.ride_request_offers TO authenticated;
+GRANT ALL ON public.ride_request_offers TO service_role;
+
+REVOKE ALL ON FUNCTION public.close_ride_request_offers() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.apply_booking_auto_approval() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.find_marketplace_ride_requests(NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.make_ride_request_offer(UUID, TIMESTAMPTZ, NUMERIC, INTEGER, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.withdraw_ride_request_offer(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.decline_ride_request_offer(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.accept_ride_request_offer(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.expire_marketplace_ride_requests() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.find_marketplace_ride_requests(NUMERIC, NUMERIC, NUMERIC) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.make_ride_request_offer(UUID, TIMESTAMPTZ, NUMERIC, INTEGER, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.withdraw_ride_request_offer(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.decline_ride_request_offer(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.accept_ride_request_offer(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.expire_marketplace_ride_requests() TO authenticated, service_role;
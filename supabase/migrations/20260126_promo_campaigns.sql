@@ -0,0 +1,545 @@
+-- ============================================
+-- Promo Campaigns
+-- Description: Promo codes become campaigns with rule-based eligibility
+-- (first ride only, minimum completed rides, vehicle types, surge zones,
+-- time of day, organization) and an optional total budget. Eligibility and
+-- the discount are worked out here, so the web and mobile apps always get
+-- the same answer. Redemptions are recorded against a booking or an instant
+-- ride request in promo_code_uses, which is also the ledger the budget and
+-- the admin report are read from.
+-- ============================================
+
+-- 1. CAMPAIGN RULES
+ALTER TABLE public.promo_codes ADD COLUMN IF NOT EXISTS first_ride_only BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.promo_codes ADD COLUMN IF NOT EXISTS min_completed_rides INTEGER NOT NULL DEFAULT 0;
+-- NULL surge_zone_ids = any zone; NULL min_surge_multiplier = surge not required
+ALTER TABLE public.promo_codes ADD COLUMN IF NOT EXISTS surge_zone_ids UUID[];
+ALTER TABLE public.promo_codes ADD COLUMN IF NOT EXISTS min_surge_multiplier DECIMAL(3,2);
+-- Time of day in IST, same semantics as surge zone windows (may wrap midnight)
+ALTER TABLE public.promo_codes ADD COLUMN IF NOT EXISTS active_from TIME;
+ALTER TABLE public.promo_codes ADD COLUMN IF NOT EXISTS active_until TIME;
+ALTER TABLE public.promo_codes ADD COLUMN IF NOT EXISTS active_days SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}';
+ALTER TABLE public.promo_codes ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE CASCADE;
+-- Total discount the campaign may give away; NULL = uncapped
+ALTER TABLE public.promo_codes ADD COLUMN IF NOT EXISTS budget_cap DECIMAL(10,2);
+
+ALTER TABLE public.promo_codes DROP CONSTRAINT IF EXISTS promo_codes_campaign_rules_check;
+ALTER TABLE public.promo_codes ADD CONSTRAINT promo_codes_campaign_rules_check
+CHECK (
+  min_completed_rides >= 0
+  AND (min_surge_multiplier IS NULL OR min_surge_multiplier >= 1)
+  AND (budget_cap IS NULL OR budget_cap > 0)
+  AND (active_from IS NULL) = (active_until IS NULL)
+);
+
+ALTER TABLE public.bookings ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE SET NULL;
+
+-- 2. REDEMPTIONS
+-- One redemption per booking or ride request; applying another code replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_code_uses_booking ON public.promo_code_uses(booking_id) WHERE booking_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_code_uses_ride_request ON public.promo_code_uses(ride_request_id) WHERE ride_request_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_promo_code_uses_promo ON public.promo_code_uses(promo_code_id);
+CREATE INDEX IF NOT EXISTS idx_promo_code_uses_user ON public.promo_code_uses(user_id, promo_code_id);
+
+ALTER TABLE public.promo_code_uses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users view own promo uses" ON public.promo_code_uses;
+CREATE POLICY "Users view own promo uses" ON public.promo_code_uses
+FOR SELECT
+USING (user_id = auth.uid() OR public.has_admin_permission('promos.manage'));
+
+DROP POLICY IF EXISTS "Admins manage promo codes" ON public.promo_codes;
+CREATE POLICY "Admins manage promo codes" ON public.promo_codes
+FOR ALL
+USING (public.has_admin_permission('promos.manage'))
+WITH CHECK (public.has_admin_permission('promos.manage'));
+
+-- 3. ELIGIBILITY
+-- Checks every campaign rule for a user and works out the discount on
+-- p_amount. p_booking_id excludes that booking's own redemption from the
+-- usage and budget counts so a code can be re-applied to the same booking.
+CREATE OR REPLACE FUNCTION public.evaluate_promo_code(
+  p_promo public.promo_codes,
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_vehicle_type TEXT DEFAULT NULL,
+  p_pickup_lat NUMERIC DEFAULT NULL,
+  p_pickup_lng NUMERIC DEFAULT NULL,
+  p_ride_at TIMESTAMPTZ DEFAULT NOW(),
+  p_booking_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_redemptions INTEGER;
+  v_user_redemptions INTEGER;
+  v_spent NUMERIC;
+  v_remaining NUMERIC;
+  v_completed INTEGER;
+  v_surge NUMERIC;
+  v_discount NUMERIC;
+BEGIN
+  IF NOT COALESCE(p_promo.is_active, false)
+    OR NOW() < COALESCE(p_promo.valid_from, NOW())
+    OR NOW() > p_promo.valid_until THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This promo code has expired');
+  END IF;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE user_id = p_user_id), COALESCE(SUM(discount_amount), 0)
+  INTO v_redemptions, v_user_redemptions, v_spent
+  FROM public.promo_code_uses
+  WHERE promo_code_id = p_promo.id
+    AND (p_booking_id IS NULL OR booking_id IS DISTINCT FROM p_booking_id);
+
+  IF p_promo.max_uses IS NOT NULL AND v_redemptions >= p_promo.max_uses THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This promo code has reached its usage limit');
+  END IF;
+
+  v_remaining := p_promo.budget_cap - v_spent;
+  IF v_remaining IS NOT NULL AND v_remaining <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This offer has ended');
+  END IF;
+
+  IF v_user_redemptions >= COALESCE(p_promo.per_user_limit, p_promo.user_usage_limit, 1) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You have already used this promo code');
+  END IF;
+
+  IF p_promo.organization_id IS NOT NULL
+    AND public.user_organization_id(p_user_id) IS DISTINCT FROM p_promo.organization_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This promo code is only for members of another organization');
+  END IF;
+
+  IF p_promo.first_ride_only OR p_promo.min_completed_rides > 0 THEN
+    SELECT
+      (SELECT COUNT(*) FROM public.bookings WHERE passenger_id = p_user_id AND status = 'completed')
+      + (SELECT COUNT(*) FROM public.ride_requests WHERE passenger_id = p_user_id AND status = 'completed')
+    INTO v_completed;
+
+    IF p_promo.first_ride_only AND v_completed > 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', 'This promo code is for your first ride only');
+    END IF;
+
+    IF v_completed < p_promo.min_completed_rides THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'error', format('This promo code unlocks after %s completed rides', p_promo.min_completed_rides)
+      );
+    END IF;
+  END IF;
+
+  IF p_vehicle_type IS NOT NULL
+    AND p_promo.applicable_vehicle_types IS NOT NULL
+    AND NOT (p_vehicle_type = ANY (p_promo.applicable_vehicle_types)) THEN
+    RETURN jsonb_build_object('success', false, 'error', format('This promo code is not valid for %s rides', p_vehicle_type));
+  END IF;
+
+  IF NOT public.surge_zone_in_window(p_promo.active_from, p_promo.active_until, p_promo.active_days, COALESCE(p_ride_at, NOW())) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This promo code is not valid at this time');
+  END IF;
+
+  IF p_promo.surge_zone_ids IS NOT NULL OR p_promo.min_surge_multiplier IS NOT NULL THEN
+    SELECT MAX(z.current_multiplier) INTO v_surge
+    FROM public.surge_pricing_zones z
+    WHERE z.is_active = true
+      AND (p_promo.surge_zone_ids IS NULL OR z.id = ANY (p_promo.surge_zone_ids))
+      AND public.point_in_polygon(p_pickup_lat, p_pickup_lng, z.zone_polygon);
+
+    IF v_surge IS NULL OR v_surge < COALESCE(p_promo.min_surge_multiplier, 1) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'This promo code is not valid for this pickup area');
+    END IF;
+  END IF;
+
+  IF p_amount IS NULL THEN
+    RETURN jsonb_build_object('success', true, 'budget_remaining', v_remaining);
+  END IF;
+
+  IF p_amount < COALESCE(p_promo.min_amount, p_promo.min_fare, 0) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('Minimum fare for this promo code is ₹%s', COALESCE(p_promo.min_amount, p_promo.min_fare))
+    );
+  END IF;
+
+  IF p_promo.discount_type = 'percentage' THEN
+    v_discount := p_amount * p_promo.discount_value / 100;
+    IF p_promo.max_discount IS NOT NULL THEN
+      v_discount := LEAST(v_discount, p_promo.max_discount);
+    END IF;
+  ELSE
+    v_discount := p_promo.discount_value;
+  END IF;
+
+  -- The last redemptions of a capped campaign get whatever budget is left
+  v_discount := ROUND(LEAST(v_discount, p_amount, COALESCE(v_remaining, v_discount)), 2);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'discount', v_discount,
+    'final_amount', p_amount - v_discount,
+    'budget_remaining', v_remaining
+  );
+END;
+$$;
+
+-- 4. QUOTES
+-- What the signed-in passenger would save with a code, before a booking exists
+CREATE OR REPLACE FUNCTION public.check_promo_code(
+  p_code TEXT,
+  p_amount NUMERIC DEFAULT NULL,
+  p_vehicle_type TEXT DEFAULT NULL,
+  p_pickup_lat NUMERIC DEFAULT NULL,
+  p_pickup_lng NUMERIC DEFAULT NULL,
+  p_ride_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_promo public.promo_codes%ROWTYPE;
+  v_result JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Sign in to use promo codes');
+  END IF;
+
+  SELECT * INTO v_promo FROM public.promo_codes WHERE code = UPPER(TRIM(p_code));
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid promo code');
+  END IF;
+
+  v_result := public.evaluate_promo_code(
+    v_promo, auth.uid(), p_amount, p_vehicle_type, p_pickup_lat, p_pickup_lng, COALESCE(p_ride_at, NOW())
+  );
+
+  IF (v_result->>'success')::boolean THEN
+    v_result := v_result || jsonb_build_object('promo', to_jsonb(v_promo));
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+-- 5. REDEEMING
+-- Applies a code to the passenger's unpaid booking. The discount comes off
+-- the booking's amount before any earlier promo, and the campaign row is
+-- locked so concurrent redemptions cannot overspend its budget.
+CREATE OR REPLACE FUNCTION public.apply_promo_code(
+  p_booking_id UUID,
+  p_code TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_promo public.promo_codes%ROWTYPE;
+  v_previous public.promo_code_uses%ROWTYPE;
+  v_original NUMERIC;
+  v_result JSONB;
+BEGIN
+  SELECT b.*, t.departure_time,
+         COALESCE(b.pickup_lat, t.pickup_lat) AS ride_pickup_lat,
+         COALESCE(b.pickup_lng, t.pickup_lng) AS ride_pickup_lng,
+         COALESCE(v.vehicle_type, d.vehicle_type) AS ride_vehicle_type
+  INTO v_booking
+  FROM public.bookings b
+  LEFT JOIN public.trips t ON t.id = b.trip_id
+  LEFT JOIN public.vehicles v ON v.id = t.vehicle_id
+  LEFT JOIN public.drivers d ON d.id = t.driver_id
+  WHERE b.id = p_booking_id
+  FOR UPDATE OF b;
+
+  IF NOT FOUND OR v_booking.passenger_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF v_booking.status = 'cancelled' OR v_booking.payment_status IN ('paid', 'success', 'PAID', 'completed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Promo codes can only be applied before payment');
+  END IF;
+
+  SELECT * INTO v_promo FROM public.promo_codes WHERE code = UPPER(TRIM(p_code)) FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid promo code');
+  END IF;
+
+  SELECT * INTO v_previous FROM public.promo_code_uses WHERE booking_id = p_booking_id;
+  v_original := COALESCE(v_previous.original_amount, v_booking.total_amount);
+
+  v_result := public.evaluate_promo_code(
+    v_promo, v_booking.passenger_id, v_original, v_booking.ride_vehicle_type,
+    v_booking.ride_pickup_lat, v_booking.ride_pickup_lng, COALESCE(v_booking.departure_time, NOW()), p_booking_id
+  );
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RETURN v_result;
+  END IF;
+
+  DELETE FROM public.promo_code_uses WHERE booking_id = p_booking_id;
+
+  INSERT INTO public.promo_code_uses (
+    promo_code_id, user_id, booking_id, discount_amount, original_amount, final_amount
+  )
+  VALUES (
+    v_promo.id, v_booking.passenger_id, p_booking_id,
+    (v_result->>'discount')::numeric, v_original, (v_result->>'final_amount')::numeric
+  );
+
+  UPDATE public.bookings
+  SET total_amount = (v_result->>'final_amount')::numeric,
+      promo_code_id = v_promo.id,
+      updated_at = NOW()
+  WHERE id = p_booking_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'promo_code_id', v_promo.id,
+    'code', v_promo.code,
+    'discount', (v_result->>'discount')::numeric,
+    'original_amount', v_original,
+    'final_amount', (v_result->>'final_amount')::numeric
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_promo_code(p_booking_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_use public.promo_code_uses%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR v_booking.passenger_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF v_booking.payment_status IN ('paid', 'success', 'PAID', 'completed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This booking has already been paid');
+  END IF;
+
+  DELETE FROM public.promo_code_uses WHERE booking_id = p_booking_id RETURNING * INTO v_use;
+
+  UPDATE public.bookings
+  SET total_amount = COALESCE(v_use.original_amount, total_amount),
+      promo_code_id = NULL,
+      updated_at = NOW()
+  WHERE id = p_booking_id;
+
+  RETURN jsonb_build_object('success', true, 'final_amount', COALESCE(v_use.original_amount, v_booking.total_amount));
+END;
+$$;
+
+-- Instant ride requests carry the code the passenger applied, with the
+-- app's discount already taken off the fare. The fare is re-priced here and
+-- the request is redeemed like a booking; an ineligible code fails the insert.
+CREATE OR REPLACE FUNCTION public.redeem_ride_request_promo()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_promo public.promo_codes%ROWTYPE;
+  v_original NUMERIC;
+  v_result JSONB;
+BEGIN
+  IF TG_WHEN = 'AFTER' THEN
+    INSERT INTO public.promo_code_uses (
+      promo_code_id, user_id, ride_request_id, discount_amount, original_amount, final_amount
+    )
+    SELECT p.id, NEW.passenger_id, NEW.id, NEW.discount_amount, NEW.fare + NEW.discount_amount, NEW.fare
+    FROM public.promo_codes p
+    WHERE p.code = NEW.promo_code;
+
+    RETURN NULL;
+  END IF;
+
+  IF NULLIF(TRIM(NEW.promo_code), '') IS NULL THEN
+    NEW.promo_code := NULL;
+    NEW.discount_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_promo FROM public.promo_codes WHERE code = UPPER(TRIM(NEW.promo_code)) FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid promo code';
+  END IF;
+
+  v_original := NEW.fare + COALESCE(NEW.discount_amount, 0);
+  v_result := public.evaluate_promo_code(
+    v_promo, NEW.passenger_id, v_original, NEW.vehicle_type,
+    NEW.pickup_lat, NEW.pickup_lng, COALESCE(NEW.scheduled_time, NOW())
+  );
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  NEW.promo_code := v_promo.code;
+  NEW.discount_amount := (v_result->>'discount')::numeric;
+  NEW.fare := (v_result->>'final_amount')::numeric;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_price_ride_request_promo ON public.ride_requests;
+CREATE TRIGGER trigger_price_ride_request_promo
+BEFORE INSERT ON public.ride_requests
+FOR EACH ROW EXECUTE FUNCTION public.redeem_ride_request_promo();
+
+DROP TRIGGER IF EXISTS trigger_record_ride_request_promo ON public.ride_requests;
+CREATE TRIGGER trigger_record_ride_request_promo
+AFTER INSERT ON public.ride_requests
+FOR EACH ROW
+WHEN (NEW.promo_code IS NOT NULL)
+EXECUTE FUNCTION public.redeem_ride_request_promo();
+
+-- A cancelled booking, or a ride request that never became a ride, gives its
+-- redemption back to the campaign budget and the passenger's per-user limit
+CREATE OR REPLACE FUNCTION public.release_cancelled_promo_redemption()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'bookings' THEN
+    IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+      DELETE FROM public.promo_code_uses WHERE booking_id = NEW.id;
+    END IF;
+  ELSIF NEW.status IN ('cancelled', 'expired', 'timeout', 'rejected')
+    AND OLD.status NOT IN ('cancelled', 'expired', 'timeout', 'rejected') THEN
+    DELETE FROM public.promo_code_uses WHERE ride_request_id = NEW.id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_release_cancelled_promo_redemption ON public.bookings;
+CREATE TRIGGER trigger_release_cancelled_promo_redemption
+AFTER UPDATE OF status ON public.bookings
+FOR EACH ROW EXECUTE FUNCTION public.release_cancelled_promo_redemption();
+
+DROP TRIGGER IF EXISTS trigger_release_cancelled_promo_redemption ON public.ride_requests;
+CREATE TRIGGER trigger_release_cancelled_promo_redemption
+AFTER UPDATE OF status ON public.ride_requests
+FOR EACH ROW EXECUTE FUNCTION public.release_cancelled_promo_redemption();
+
+-- A booking that is still unpaid two days after its ride (or after the code
+-- was applied, for a booking without a trip) stops holding the campaign
+-- budget: the redemption is dropped and the booking goes back to full price
+CREATE OR REPLACE FUNCTION public.expire_unpaid_promo_redemptions()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_use RECORD;
+  v_expired INTEGER := 0;
+BEGIN
+  IF NOT public.has_admin_permission('promos.manage') THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  FOR v_use IN
+    SELECT u.id, u.booking_id, u.original_amount
+    FROM public.promo_code_uses u
+    JOIN public.bookings b ON b.id = u.booking_id
+    LEFT JOIN public.trips t ON t.id = b.trip_id
+    WHERE COALESCE(b.payment_status, '') NOT IN ('paid', 'success', 'PAID', 'completed')
+      AND COALESCE(t.departure_time, u.used_at) < NOW() - INTERVAL '2 days'
+    FOR UPDATE OF u, b SKIP LOCKED
+  LOOP
+    DELETE FROM public.promo_code_uses WHERE id = v_use.id;
+
+    UPDATE public.bookings
+    SET total_amount = COALESCE(v_use.original_amount, total_amount),
+        promo_code_id = NULL,
+        updated_at = NOW()
+    WHERE id = v_use.booking_id;
+
+    v_expired := v_expired + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'expired', v_expired);
+END;
+$$;
+
+-- 6. CAMPAIGN REPORT
+CREATE OR REPLACE FUNCTION public.get_promo_campaign_report()
+RETURNS TABLE (
+  promo_code_id UUID,
+  code TEXT,
+  redemptions BIGINT,
+  unique_users BIGINT,
+  total_discount NUMERIC,
+  gross_amount NUMERIC,
+  budget_cap NUMERIC,
+  budget_remaining NUMERIC,
+  last_redeemed_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.has_admin_permission('promos.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to view promo campaigns';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.code,
+         COUNT(u.id),
+         COUNT(DISTINCT u.user_id),
+         COALESCE(SUM(u.discount_amount), 0),
+         COALESCE(SUM(u.original_amount), 0),
+         p.budget_cap,
+         p.budget_cap - COALESCE(SUM(u.discount_amount), 0),
+         MAX(u.used_at)
+  FROM public.promo_codes p
+  LEFT JOIN public.promo_code_uses u ON u.promo_code_id = p.id
+  GROUP BY p.id
+  ORDER BY p.created_at DESC;
+END;
+$$;
+
+-- 7. SCHEDULE
+-- Expire unpaid redemptions hourly where pg_cron is available. Scheduled jobs
+-- claim the service role so has_admin_permission() lets them through.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-unpaid-promo-redemptions', '15 * * * *', $job$
+      SELECT set_config('request.jwt.claim.role', 'service_role', true);
+      SELECT public.expire_unpaid_promo_redemptions();
+    $job$);
+  END IF;
+END $$;
+
+-- 8. PERMISSIONS
+REVOKE INSERT, UPDATE, DELETE ON public.promo_code_uses FROM anon, authenticated;
+GRANT SELECT ON public.promo_code_uses TO authenticated;
+GRANT ALL ON public.promo_code_uses TO service_role;
+
+REVOKE ALL ON FUNCTION public.evaluate_promo_code(public.promo_codes, UUID, NUMERIC, TEXT, NUMERIC, NUMERIC, TIMESTAMPTZ, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.redeem_ride_request_promo() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_cancelled_promo_redemption() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.check_promo_code(TEXT, NUMERIC, TEXT, NUMERIC, NUMERIC, TIMESTAMPTZ) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.apply_promo_code(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.remove_promo_code(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_promo_campaign_report() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.expire_unpaid_promo_redemptions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.evaluate_promo_code(public.promo_codes, UUID, NUMERIC, TEXT, NUMERIC, NUMERIC, TIMESTAMPTZ, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.check_promo_code(TEXT, NUMERIC, TEXT, NUMERIC, NUMERIC, TIMESTAMPTZ) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.apply_promo_code(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.remove_promo_code(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_promo_campaign_report() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.expire_unpaid_promo_redemptions() TO authenticated, service_role;
@@ -0,0 +1,86 @@
+-- ============================================
+-- Booking Update Guard
+-- Description: Passengers may update their own bookings, but the price,
+-- payment state, seat count and boarding segment of a booking are only ever
+-- set by the server: assign_booking_segment() prices new bookings, and the
+-- payment, promo, cancellation and corporate functions change them later.
+-- Those run as SECURITY DEFINER (or as service_role from edge functions), so
+-- this guard only has to refuse writes made directly through the API roles.
+-- Tips, the one price change the apps make, go through add_booking_tip().
+-- ============================================
+
+-- 1. GUARD TRIGGER
+CREATE OR REPLACE FUNCTION public.guard_booking_server_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Security definer functions run as their owner, edge functions as service_role
+  IF current_user NOT IN ('anon', 'authenticated')
+     OR COALESCE(current_setting('app.booking_server_update', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.total_amount, NEW.payment_status, NEW.seats_booked, NEW.board_stop_order, NEW.alight_stop_order, NEW.promo_code_id)
+     IS DISTINCT FROM (OLD.total_amount, OLD.payment_status, OLD.seats_booked, OLD.board_stop_order, OLD.alight_stop_order, OLD.promo_code_id) THEN
+    RAISE EXCEPTION 'The fare, payment and stops of a booking can only be changed by the server';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bookings_guard_server_fields ON public.bookings;
+CREATE TRIGGER bookings_guard_server_fields
+BEFORE UPDATE ON public.bookings
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_booking_server_fields();
+
+-- 2. TIPS
+-- Adds a tip to an unpaid booking; a promo redemption keeps its discount and
+-- carries the tip, so removing the code later does not drop it.
+CREATE OR REPLACE FUNCTION public.add_booking_tip(p_booking_id UUID, p_amount NUMERIC)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_total NUMERIC;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount > 1000 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Tips must be between ₹1 and ₹1000');
+  END IF;
+
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR v_booking.passenger_id IS DISTINCT FROM auth.uid() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Booking not found');
+  END IF;
+
+  IF v_booking.status = 'cancelled' OR v_booking.payment_status IN ('paid', 'success', 'PAID', 'completed', 'refunded') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Tips can only be added before payment');
+  END IF;
+
+  v_total := ROUND(COALESCE(v_booking.total_amount, 0) + p_amount, 2);
+
+  -- apply_corporate_ride_policy still refuses this for company-billed rides
+  UPDATE public.bookings
+  SET total_amount = v_total,
+      updated_at = NOW()
+  WHERE id = p_booking_id;
+
+  UPDATE public.promo_code_uses
+  SET original_amount = original_amount + p_amount,
+      final_amount = final_amount + p_amount
+  WHERE booking_id = p_booking_id;
+
+  RETURN jsonb_build_object('success', true, 'total_amount', v_total);
+END;
+$$;
+
+-- 3. PERMISSIONS
+REVOKE ALL ON FUNCTION public.guard_booking_server_fields() FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION public.add_booking_tip(UUID, NUMERIC) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_booking_tip(UUID, NUMERIC) TO authenticated;
@@ -0,0 +1,867 @@
+-- ============================================
+-- Admin Permission Checks
+-- Description: Moves the money, pricing, ride PIN and cancellation functions
+-- and the read policies written before 20260115_admin_roles_audit.sql from
+-- users.role = 'admin' or is_service_or_admin() to the admin area that owns
+-- them. Scheduled jobs that call those functions claim the service role,
+-- since has_admin_permission() no longer trusts a missing auth.uid().
+-- ============================================
+
+-- 1. HELPERS
+-- has_admin_permission() for a user other than the caller; the cancellation
+-- functions are called by the service role on behalf of p_actor_id
+CREATE OR REPLACE FUNCTION public.user_has_admin_permission(p_user_id UUID, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.users u
+    JOIN public.admin_role_permissions p ON p.admin_role = u.admin_role
+    WHERE u.id = p_user_id AND u.role = 'admin' AND p.permission = p_permission
+  );
+$$;
+
+-- 2. CANCELLATIONS
+-- cancel_booking() takes the actor's role from calculate_cancellation_refund()
+CREATE OR REPLACE FUNCTION public.calculate_cancellation_refund(
+  p_booking_id UUID,
+  p_actor_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_booking RECORD;
+  v_actor_role TEXT;
+  v_policy JSONB;
+  v_tier JSONB;
+  v_hours NUMERIC;
+  v_paid NUMERIC := 0;
+  v_percent NUMERIC := 0;
+BEGIN
+  SELECT b.*, t.departure_time, COALESCE(t.trip_type, 'carpool') AS trip_type, d.user_id AS driver_user_id
+  INTO v_booking
+  FROM public.bookings b
+  LEFT JOIN public.trips t ON t.id = b.trip_id
+  LEFT JOIN public.drivers d ON d.id = t.driver_id
+  WHERE b.id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.passenger_id = p_actor_id THEN
+    v_actor_role := 'passenger';
+  ELSIF v_booking.driver_user_id = p_actor_id THEN
+    v_actor_role := 'driver';
+  ELSIF public.user_has_admin_permission(p_actor_id, 'bookings.manage') THEN
+    v_actor_role := 'admin';
+  ELSE
+    RAISE EXCEPTION 'Not allowed to cancel this booking';
+  END IF;
+
+  v_hours := ROUND((EXTRACT(EPOCH FROM (v_booking.departure_time - NOW())) / 3600)::numeric, 2);
+
+  IF v_booking.payment_status IN ('paid', 'success', 'PAID') THEN
+    v_paid := COALESCE(v_booking.total_amount, 0);
+  END IF;
+
+  IF v_actor_role IN ('driver', 'admin') THEN
+    -- Driver/admin initiated cancellations always refund in full
+    v_percent := 100;
+  ELSE
+    SELECT cancellation_policies -> v_booking.trip_type INTO v_policy
+    FROM public.system_settings
+    ORDER BY updated_at DESC NULLS LAST
+    LIMIT 1;
+
+    IF v_policy IS NOT NULL AND v_hours IS NOT NULL THEN
+      FOR v_tier IN SELECT * FROM jsonb_array_elements(v_policy -> 'tiers') LOOP
+        IF v_hours >= (v_tier ->> 'min_hours')::numeric THEN
+          v_percent := (v_tier ->> 'refund_percent')::numeric;
+          EXIT;
+        END IF;
+      END LOOP;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'booking_id', p_booking_id,
+    'actor_role', v_actor_role,
+    'trip_type', v_booking.trip_type,
+    'hours_before_departure', v_hours,
+    'paid_amount', v_paid,
+    'refund_percent', v_percent,
+    'refund_amount', ROUND(v_paid * v_percent / 100, 2)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_trip(
+  p_trip_id UUID,
+  p_actor_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_trip RECORD;
+  v_is_admin BOOLEAN;
+  v_booking_id UUID;
+  v_results JSONB := '[]'::jsonb;
+BEGIN
+  SELECT t.*, d.user_id AS driver_user_id INTO v_trip
+  FROM public.trips t
+  JOIN public.drivers d ON d.id = t.driver_id
+  WHERE t.id = p_trip_id
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trip not found';
+  END IF;
+
+  v_is_admin := public.user_has_admin_permission(p_actor_id, 'trips.cancel');
+
+  IF v_trip.driver_user_id <> p_actor_id AND NOT v_is_admin THEN
+    RAISE EXCEPTION 'Not allowed to cancel this trip';
+  END IF;
+
+  IF v_trip.status IN ('cancelled', 'completed') THEN
+    RAISE EXCEPTION 'Trip is already %', v_trip.status;
+  END IF;
+
+  FOR v_booking_id IN
+    SELECT id FROM public.bookings
+    WHERE trip_id = p_trip_id AND status NOT IN ('cancelled', 'completed', 'rejected')
+  LOOP
+    v_results := v_results || jsonb_build_array(public.apply_booking_cancellation(v_booking_id, p_actor_id, p_reason));
+  END LOOP;
+
+  UPDATE public.trips SET status = 'cancelled' WHERE id = p_trip_id;
+
+  IF NOT v_is_admin THEN
+    UPDATE public.drivers
+    SET cancellation_count = COALESCE(cancellation_count, 0) + 1,
+        last_cancellation_at = NOW()
+    WHERE id = v_trip.driver_id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'cancellations', v_results);
+END;
+$$;
+
+-- 3. LEDGER
+CREATE OR REPLACE FUNCTION public.wallet_topup(
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_reference_id TEXT,
+  p_razorpay_payment_id TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_wallet_account UUID;
+  v_transaction_id UUID;
+  v_wallet_id UUID;
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  v_wallet_account := public.get_ledger_account('passenger_wallet', p_user_id);
+
+  v_transaction_id := public.post_ledger_transaction(
+    'Wallet top-up',
+    'topup',
+    p_reference_id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.get_ledger_account('payment_gateway'), 'direction', 'debit', 'amount', p_amount),
+      jsonb_build_object('account_id', v_wallet_account, 'direction', 'credit', 'amount', p_amount)
+    ),
+    'topup:' || p_reference_id
+  );
+
+  SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = p_user_id;
+
+  -- Complete the pending row created with the Razorpay order, or record a new one
+  UPDATE public.wallet_transactions
+  SET status = 'completed', razorpay_payment_id = p_razorpay_payment_id, ledger_transaction_id = v_transaction_id
+  WHERE wallet_id = v_wallet_id AND reference_id = p_reference_id AND ledger_transaction_id IS NULL;
+
+  IF NOT FOUND AND NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE ledger_transaction_id = v_transaction_id) THEN
+    INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, razorpay_payment_id, ledger_transaction_id)
+    VALUES (v_wallet_id, 'credit', p_amount, 'Wallet Recharge', p_reference_id, 'topup', 'completed', p_razorpay_payment_id, v_transaction_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'new_balance', public.ledger_account_balance(v_wallet_account)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.gateway_pay_booking(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_razorpay_payment_id TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN public.post_ledger_transaction(
+    'Ride payment via Razorpay',
+    'booking',
+    p_booking_id::text,
+    jsonb_build_array(jsonb_build_object('account_id', public.get_ledger_account('payment_gateway'), 'direction', 'debit', 'amount', p_amount))
+      || public.booking_split_entries(p_booking_id, p_amount, 'credit'),
+    'gateway_payment:' || p_razorpay_payment_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.wallet_refund_booking(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT 'Ride refund'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_passenger_id UUID;
+  v_wallet_account UUID;
+  v_transaction_id UUID;
+  v_wallet_id UUID;
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT passenger_id INTO v_passenger_id FROM public.bookings WHERE id = p_booking_id;
+  v_wallet_account := public.get_ledger_account('passenger_wallet', v_passenger_id);
+
+  v_transaction_id := public.post_ledger_transaction(
+    p_description,
+    'refund',
+    p_booking_id::text,
+    public.booking_split_entries(p_booking_id, p_amount, 'debit')
+      || jsonb_build_array(jsonb_build_object('account_id', v_wallet_account, 'direction', 'credit', 'amount', p_amount)),
+    'refund:' || p_booking_id
+  );
+
+  SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = v_passenger_id;
+
+  IF NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE ledger_transaction_id = v_transaction_id) THEN
+    INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, ledger_transaction_id)
+    VALUES (v_wallet_id, 'credit', p_amount, p_description, p_booking_id::text, 'refund', 'completed', v_transaction_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'new_balance', public.ledger_account_balance(v_wallet_account)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.gateway_refund_booking(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_razorpay_refund_id TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN public.post_ledger_transaction(
+    'Ride refund via Razorpay',
+    'refund',
+    p_booking_id::text,
+    public.booking_split_entries(p_booking_id, p_amount, 'debit')
+      || jsonb_build_array(jsonb_build_object('account_id', public.get_ledger_account('payment_gateway'), 'direction', 'credit', 'amount', p_amount)),
+    'gateway_refund:' || p_razorpay_refund_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.wallet_credit(
+  p_user_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT,
+  p_reference_id TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN public.post_wallet_credit(p_user_id, p_amount, p_description, p_reference_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_ledger_reconciliation()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_wallet_drift JSONB;
+  v_unbalanced JSONB;
+  v_accounts JSONB;
+  v_total_debits NUMERIC;
+  v_total_credits NUMERIC;
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'wallet_id', w.id,
+    'user_id', w.user_id,
+    'full_name', u.full_name,
+    'stored_balance', w.balance,
+    'ledger_balance', wb.balance,
+    'drift', w.balance - wb.balance
+  )), '[]'::jsonb)
+  INTO v_wallet_drift
+  FROM public.wallets w
+  JOIN public.wallet_balances wb ON wb.wallet_id = w.id
+  LEFT JOIN public.users u ON u.id = w.user_id
+  WHERE w.balance <> wb.balance;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'transaction_id', t.id,
+    'description', t.description,
+    'debits', s.debits,
+    'credits', s.credits
+  )), '[]'::jsonb)
+  INTO v_unbalanced
+  FROM public.ledger_transactions t
+  JOIN (
+    SELECT transaction_id,
+      COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0) AS debits,
+      COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0) AS credits
+    FROM public.ledger_entries
+    GROUP BY transaction_id
+  ) s ON s.transaction_id = t.id
+  WHERE s.debits <> s.credits;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'account_type', x.account_type,
+    'accounts', x.accounts,
+    'balance', x.balance
+  ) ORDER BY x.account_type), '[]'::jsonb)
+  INTO v_accounts
+  FROM (
+    SELECT a.account_type, COUNT(DISTINCT a.id) AS accounts,
+      COALESCE(SUM(CASE WHEN e.direction = a.normal_balance THEN e.amount ELSE -e.amount END), 0) AS balance
+    FROM public.ledger_accounts a
+    LEFT JOIN public.ledger_entries e ON e.account_id = a.id
+    GROUP BY a.account_type
+  ) x;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE direction = 'debit'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE direction = 'credit'), 0)
+  INTO v_total_debits, v_total_credits
+  FROM public.ledger_entries;
+
+  RETURN jsonb_build_object(
+    'generated_at', NOW(),
+    'total_debits', v_total_debits,
+    'total_credits', v_total_credits,
+    'is_balanced', v_total_debits = v_total_credits
+      AND jsonb_array_length(v_unbalanced) = 0
+      AND jsonb_array_length(v_wallet_drift) = 0,
+    'wallet_drift', v_wallet_drift,
+    'unbalanced_transactions', v_unbalanced,
+    'accounts', v_accounts
+  );
+END;
+$$;
+
+-- 4. DRIVER PAYOUTS
+CREATE OR REPLACE FUNCTION public.create_weekly_payout_batch(
+  p_period_end DATE DEFAULT date_trunc('week', NOW())::date
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_batch_id UUID;
+  v_driver RECORD;
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT id INTO v_batch_id FROM public.payout_batches WHERE period_end = p_period_end;
+
+  IF v_batch_id IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'batch_id', v_batch_id, 'created', false);
+  END IF;
+
+  INSERT INTO public.payout_batches (period_start, period_end, created_by)
+  VALUES (p_period_end - 7, p_period_end, auth.uid())
+  RETURNING id INTO v_batch_id;
+
+  UPDATE public.driver_payouts
+  SET batch_id = v_batch_id, status = 'processing'
+  WHERE status = 'requested' AND batch_id IS NULL;
+
+  FOR v_driver IN
+    SELECT DISTINCT d.id
+    FROM public.drivers d
+    JOIN public.ledger_accounts a ON a.account_type = 'driver_payable' AND a.owner_user_id = d.user_id
+  LOOP
+    PERFORM public.build_driver_payout(v_driver.id, 'weekly', p_period_end::timestamptz, v_batch_id);
+  END LOOP;
+
+  UPDATE public.payout_batches b
+  SET payout_count = s.payout_count, total_amount = s.total_amount
+  FROM (
+    SELECT COUNT(*) AS payout_count, COALESCE(SUM(net_amount), 0) AS total_amount
+    FROM public.driver_payouts WHERE batch_id = v_batch_id
+  ) s
+  WHERE b.id = v_batch_id;
+
+  RETURN jsonb_build_object('success', true, 'batch_id', v_batch_id, 'created', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_payout_paid(
+  p_payout_id UUID,
+  p_transfer_reference TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payout RECORD;
+  v_transaction_id UUID;
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT p.*, d.user_id AS driver_user_id INTO v_payout
+  FROM public.driver_payouts p
+  JOIN public.drivers d ON d.id = p.driver_id
+  WHERE p.id = p_payout_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  IF v_payout.status = 'paid' THEN
+    RETURN jsonb_build_object('success', true, 'changed', false);
+  END IF;
+
+  IF v_payout.status NOT IN ('requested', 'processing') THEN
+    RAISE EXCEPTION 'Cannot mark a % payout as paid', v_payout.status;
+  END IF;
+
+  v_transaction_id := public.post_ledger_transaction(
+    'Driver payout',
+    'payout',
+    p_payout_id::text,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.get_ledger_account('driver_payable', v_payout.driver_user_id), 'direction', 'debit', 'amount', v_payout.net_amount),
+      jsonb_build_object('account_id', public.get_ledger_account('payment_gateway'), 'direction', 'credit', 'amount', v_payout.net_amount)
+    ),
+    'payout:' || p_payout_id
+  );
+
+  UPDATE public.driver_payouts
+  SET status = 'paid', paid_at = NOW(), transfer_reference = p_transfer_reference, ledger_transaction_id = v_transaction_id
+  WHERE id = p_payout_id;
+
+  UPDATE public.payments
+  SET payout_status = 'paid'
+  WHERE booking_id IN (
+    SELECT booking_id FROM public.driver_payout_items WHERE payout_id = p_payout_id AND item_type = 'ride'
+  );
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  VALUES (
+    v_payout.driver_user_id,
+    'Payout Sent',
+    '₹' || v_payout.net_amount || ' has been transferred to your bank account.',
+    'payment',
+    jsonb_build_object('payout_id', p_payout_id, 'amount', v_payout.net_amount)
+  );
+
+  IF v_payout.batch_id IS NOT NULL THEN
+    PERFORM public.complete_payout_batch_if_done(v_payout.batch_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'changed', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_payout_failed(
+  p_payout_id UUID,
+  p_reason TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payout RECORD;
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT * INTO v_payout FROM public.driver_payouts WHERE id = p_payout_id FOR UPDATE;
+
+  IF NOT FOUND OR v_payout.status NOT IN ('requested', 'processing') THEN
+    RAISE EXCEPTION 'Only requested or processing payouts can fail';
+  END IF;
+
+  DELETE FROM public.driver_payout_items WHERE payout_id = p_payout_id;
+
+  UPDATE public.driver_payouts
+  SET status = 'failed', failure_reason = p_reason
+  WHERE id = p_payout_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, data)
+  SELECT d.user_id, 'Payout Failed',
+    'Your payout of ₹' || v_payout.net_amount || ' could not be transferred. It will be retried with the next settlement.',
+    'payment',
+    jsonb_build_object('payout_id', p_payout_id, 'reason', p_reason)
+  FROM public.drivers d WHERE d.id = v_payout.driver_id;
+
+  IF v_payout.batch_id IS NOT NULL THEN
+    PERFORM public.complete_payout_batch_if_done(v_payout.batch_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_payout_statement(p_payout_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payout RECORD;
+BEGIN
+  SELECT p.*, d.user_id AS driver_user_id, u.full_name AS driver_name, u.email AS driver_email,
+    b.period_start AS batch_period_start, b.period_end AS batch_period_end
+  INTO v_payout
+  FROM public.driver_payouts p
+  JOIN public.drivers d ON d.id = p.driver_id
+  JOIN public.users u ON u.id = d.user_id
+  LEFT JOIN public.payout_batches b ON b.id = p.batch_id
+  WHERE p.id = p_payout_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM v_payout.driver_user_id AND NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payout_id', v_payout.id,
+    'driver_name', v_payout.driver_name,
+    'driver_email', v_payout.driver_email,
+    'source', v_payout.source,
+    'status', v_payout.status,
+    'period_start', COALESCE(v_payout.batch_period_start::timestamptz, v_payout.period_start),
+    'period_end', v_payout.period_end,
+    'gross_fares', v_payout.gross_fares,
+    'platform_fees', v_payout.platform_fees,
+    'gst', v_payout.gst,
+    'tips', v_payout.tips,
+    'refunds', v_payout.refunds,
+    'net_amount', v_payout.net_amount,
+    'transfer_reference', v_payout.transfer_reference,
+    'requested_at', v_payout.requested_at,
+    'paid_at', v_payout.paid_at,
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'booking_id', i.booking_id,
+        'item_type', i.item_type,
+        'description', i.description,
+        'route', CASE WHEN bk.id IS NOT NULL THEN bk.pickup_location || ' → ' || bk.drop_location END,
+        'gross_amount', i.gross_amount,
+        'platform_fee', i.platform_fee,
+        'gst', i.gst,
+        'net_amount', i.net_amount,
+        'occurred_at', i.occurred_at
+      ) ORDER BY i.occurred_at)
+      FROM public.driver_payout_items i
+      LEFT JOIN public.bookings bk ON bk.id = i.booking_id
+      WHERE i.payout_id = p_payout_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+-- 5. SURGE PRICING
+CREATE OR REPLACE FUNCTION public.set_surge_override(
+  p_zone_id UUID,
+  p_multiplier NUMERIC,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_multiplier NUMERIC;
+BEGIN
+  IF NOT public.has_admin_permission('pricing.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  IF p_multiplier IS NOT NULL AND (p_multiplier < 1 OR p_multiplier > 5) THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Override must be between 1.0x and 5.0x');
+  END IF;
+
+  UPDATE public.surge_pricing_zones
+  SET override_multiplier = p_multiplier,
+      override_expires_at = CASE WHEN p_multiplier IS NULL THEN NULL ELSE p_expires_at END,
+      override_reason = CASE WHEN p_multiplier IS NULL THEN NULL ELSE p_reason END,
+      override_by = CASE WHEN p_multiplier IS NULL THEN NULL ELSE auth.uid() END
+  WHERE id = p_zone_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'message', 'Surge zone not found');
+  END IF;
+
+  v_multiplier := public.recompute_surge_zone(p_zone_id, 'override');
+
+  RETURN jsonb_build_object('success', true, 'multiplier', v_multiplier);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.recompute_surge_zones()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_zone RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT public.has_admin_permission('pricing.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  FOR v_zone IN SELECT * FROM public.surge_pricing_zones WHERE is_active = true LOOP
+    IF v_zone.override_multiplier IS NOT NULL
+      OR public.surge_zone_in_window(v_zone.active_from, v_zone.active_until, v_zone.active_days) THEN
+      PERFORM public.recompute_surge_zone(v_zone.id);
+    ELSIF v_zone.current_multiplier IS DISTINCT FROM 1.00 THEN
+      UPDATE public.surge_pricing_zones
+      SET current_multiplier = 1.00, demand_level = 'low', last_computed_at = NOW(), updated_at = NOW()
+      WHERE id = v_zone.id;
+
+      INSERT INTO public.trip_surge_pricing (zone_id, surge_multiplier, previous_multiplier, source, reason)
+      VALUES (v_zone.id, 1.00, v_zone.current_multiplier, 'recompute', 'Outside active hours');
+    END IF;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- 6. RIDE PINS
+CREATE OR REPLACE FUNCTION public.enforce_ride_pin()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_verified BOOLEAN := current_setting('app.ride_pin_verified', true) = NEW.id::TEXT;
+BEGIN
+  IF v_verified OR public.has_admin_permission('bookings.manage') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'picked_up' AND OLD.status IS DISTINCT FROM 'picked_up' THEN
+    RAISE EXCEPTION 'Enter the passenger''s ride PIN to start this ride';
+  END IF;
+
+  IF OLD.status = 'picked_up' AND NEW.status IN ('completed', 'payment_pending') AND EXISTS (
+    SELECT 1 FROM public.trips t
+    WHERE t.id = NEW.trip_id AND COALESCE((t.preferences->>'dropoffPin')::BOOLEAN, false)
+  ) THEN
+    RAISE EXCEPTION 'Enter the passenger''s drop-off PIN to end this ride';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 7. ROW-LEVEL CHECKS
+-- has_admin_permission() is not granted to anon, so these apply to signed-in users
+DROP POLICY IF EXISTS "View own booking cancellations" ON public.booking_cancellations;
+CREATE POLICY "View own booking cancellations" ON public.booking_cancellations
+FOR SELECT TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.bookings b
+    WHERE b.id = booking_cancellations.booking_id
+    AND (
+      b.passenger_id = auth.uid()
+      OR EXISTS (SELECT 1 FROM public.trips t JOIN public.drivers d ON d.id = t.driver_id WHERE t.id = b.trip_id AND d.user_id = auth.uid())
+    )
+  )
+  OR public.has_admin_permission('bookings.manage')
+);
+
+DROP POLICY IF EXISTS "Admins view ledger accounts" ON public.ledger_accounts;
+CREATE POLICY "Admins view ledger accounts" ON public.ledger_accounts
+FOR SELECT TO authenticated
+USING (owner_user_id = auth.uid() OR public.has_admin_permission('payments.manage'));
+
+DROP POLICY IF EXISTS "Admins view ledger transactions" ON public.ledger_transactions;
+CREATE POLICY "Admins view ledger transactions" ON public.ledger_transactions
+FOR SELECT TO authenticated
+USING (public.has_admin_permission('payments.manage'));
+
+DROP POLICY IF EXISTS "Admins view ledger entries" ON public.ledger_entries;
+CREATE POLICY "Admins view ledger entries" ON public.ledger_entries
+FOR SELECT TO authenticated
+USING (public.has_admin_permission('payments.manage'));
+
+DROP POLICY IF EXISTS "Admins view webhook events" ON public.razorpay_webhook_events;
+CREATE POLICY "Admins view webhook events" ON public.razorpay_webhook_events
+FOR SELECT TO authenticated
+USING (public.has_admin_permission('payments.manage'));
+
+DROP POLICY IF EXISTS "Users view own tax invoices" ON public.tax_invoices;
+CREATE POLICY "Users view own tax invoices" ON public.tax_invoices
+FOR SELECT TO authenticated
+USING (
+  passenger_id = auth.uid()
+  OR EXISTS (SELECT 1 FROM public.drivers WHERE id = tax_invoices.driver_id AND user_id = auth.uid())
+  OR public.has_admin_permission('payments.manage')
+);
+
+-- Active recurring trips stay visible to signed-out visitors
+DROP POLICY IF EXISTS "View active recurring trips" ON public.recurring_trips;
+CREATE POLICY "View active recurring trips" ON public.recurring_trips
+FOR SELECT
+USING (
+  status = 'active'
+  OR EXISTS (SELECT 1 FROM public.drivers WHERE id = driver_id AND user_id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Admins view recurring trips" ON public.recurring_trips;
+CREATE POLICY "Admins view recurring trips" ON public.recurring_trips
+FOR SELECT TO authenticated
+USING (public.has_admin_permission('bookings.manage'));
+
+DROP POLICY IF EXISTS "View own or driven passes" ON public.recurring_trip_passes;
+CREATE POLICY "View own or driven passes" ON public.recurring_trip_passes
+FOR SELECT TO authenticated
+USING (
+  passenger_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.recurring_trips r
+    JOIN public.drivers d ON d.id = r.driver_id
+    WHERE r.id = recurring_trip_id AND d.user_id = auth.uid()
+  )
+  OR public.has_admin_permission('bookings.manage')
+);
+
+DROP POLICY IF EXISTS "Drivers view own offers" ON public.dispatch_offers;
+CREATE POLICY "Drivers view own offers" ON public.dispatch_offers
+FOR SELECT TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.drivers WHERE id = driver_id AND user_id = auth.uid())
+  OR public.has_admin_permission('bookings.manage')
+);
+
+DROP POLICY IF EXISTS "View history of own records" ON public.status_history;
+CREATE POLICY "View history of own records" ON public.status_history
+FOR SELECT TO authenticated
+USING (
+  (entity_type = 'booking' AND EXISTS (
+    SELECT 1 FROM public.bookings b
+    LEFT JOIN public.trips t ON t.id = b.trip_id
+    LEFT JOIN public.drivers d ON d.id = t.driver_id
+    WHERE b.id = entity_id AND (b.passenger_id = auth.uid() OR d.user_id = auth.uid())
+  ))
+  OR (entity_type = 'trip' AND EXISTS (
+    SELECT 1 FROM public.trips t
+    JOIN public.drivers d ON d.id = t.driver_id
+    WHERE t.id = entity_id AND d.user_id = auth.uid()
+  ))
+  OR (entity_type = 'ride_request' AND EXISTS (
+    SELECT 1 FROM public.ride_requests r
+    LEFT JOIN public.drivers d ON d.id = r.driver_id
+    WHERE r.id = entity_id AND (r.passenger_id = auth.uid() OR d.user_id = auth.uid())
+  ))
+  OR public.has_admin_permission('bookings.manage')
+);
+
+-- 8. SCHEDULE
+-- Jobs scheduled before 20260115 ran with no auth.uid(), which is no longer
+-- trusted; re-register them so they claim the service role.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('weekly-driver-payouts', '0 2 * * 1', $job$
+      SELECT set_config('request.jwt.claim.role', 'service_role', true);
+      SELECT public.create_weekly_payout_batch();
+    $job$);
+    PERFORM cron.schedule('recompute-surge-zones', '*/2 * * * *', $job$
+      SELECT set_config('request.jwt.claim.role', 'service_role', true);
+      SELECT public.recompute_surge_zones();
+    $job$);
+    PERFORM cron.schedule('generate-recurring-trips', '35 18 * * *', $job$
+      SELECT set_config('request.jwt.claim.role', 'service_role', true);
+      SELECT public.generate_recurring_trips();
+    $job$);
+    PERFORM cron.schedule('dispatch-ride-requests', '10 seconds', $job$
+      SELECT set_config('request.jwt.claim.role', 'service_role', true);
+      SELECT public.dispatch_ride_requests();
+    $job$);
+  END IF;
+END $$;
+
+-- 9. PERMISSIONS
+REVOKE ALL ON FUNCTION public.user_has_admin_permission(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.user_has_admin_permission(UUID, TEXT) TO service_role;
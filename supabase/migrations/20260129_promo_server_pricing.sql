@@ -0,0 +1,264 @@
+-- ============================================
+-- Promo Server Pricing
+-- Description: Instant ride requests that carry a promo code are priced here
+-- from fare_config and the surge zone at the pickup, the way the apps'
+-- calculateFare() does, instead of trusting the fare and discount_amount the
+-- app sent. The route distance is floored at the straight-line distance and
+-- the surge at the pickup zone's multiplier, so a client can raise but not
+-- lower the price it is charged; the trip duration is still the app's
+-- estimate. Marketplace requests keep the fare the passenger offered.
+-- promo_codes.current_uses now follows promo_code_uses instead of being
+-- counted again when a payment succeeds.
+-- ============================================
+
+-- 1. RIDE REQUEST FARES
+CREATE OR REPLACE FUNCTION public.ride_request_fare(
+  p_vehicle_type TEXT,
+  p_distance NUMERIC,
+  p_duration INTEGER,
+  p_pickup_lat NUMERIC,
+  p_pickup_lng NUMERIC,
+  p_drop_lat NUMERIC,
+  p_drop_lng NUMERIC,
+  p_surge_multiplier NUMERIC DEFAULT 1
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_config public.fare_config%ROWTYPE;
+  v_distance NUMERIC;
+  v_surge NUMERIC;
+  v_subtotal NUMERIC;
+BEGIN
+  SELECT * INTO v_config FROM public.fare_config WHERE vehicle_type = p_vehicle_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fares are not configured for %', p_vehicle_type;
+  END IF;
+
+  v_distance := GREATEST(
+    COALESCE(p_distance, 0),
+    public.distance_km(p_pickup_lat, p_pickup_lng, p_drop_lat, p_drop_lng)
+  );
+
+  SELECT MAX(current_multiplier) INTO v_surge
+  FROM public.surge_pricing_zones
+  WHERE is_active = true
+    AND public.point_in_polygon(p_pickup_lat, p_pickup_lng, zone_polygon);
+  v_surge := GREATEST(COALESCE(v_surge, 1), COALESCE(p_surge_multiplier, 1), 1);
+
+  v_subtotal := GREATEST(
+    v_config.base_fare + v_distance * v_config.per_km + GREATEST(COALESCE(p_duration, 0), 0) * v_config.per_minute,
+    v_config.min_fare
+  );
+
+  -- 5% platform fee, then 5% GST on the fare and fee
+  RETURN ROUND(v_subtotal * v_surge * 1.05 * 1.05);
+END;
+$$;
+
+-- 2. RIDE REQUEST REDEMPTION
+-- The incoming discount_amount is ignored: the fare is re-priced before the
+-- code is evaluated, and discount_amount is what evaluate_promo_code allows.
+CREATE OR REPLACE FUNCTION public.redeem_ride_request_promo()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_promo public.promo_codes%ROWTYPE;
+  v_original NUMERIC;
+  v_result JSONB;
+BEGIN
+  IF TG_WHEN = 'AFTER' THEN
+    INSERT INTO public.promo_code_uses (
+      promo_code_id, user_id, ride_request_id, discount_amount, original_amount, final_amount
+    )
+    SELECT p.id, NEW.passenger_id, NEW.id, NEW.discount_amount, NEW.fare + NEW.discount_amount, NEW.fare
+    FROM public.promo_codes p
+    WHERE p.code = NEW.promo_code;
+
+    RETURN NULL;
+  END IF;
+
+  IF NULLIF(TRIM(NEW.promo_code), '') IS NULL THEN
+    NEW.promo_code := NULL;
+    NEW.discount_amount := 0;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_promo FROM public.promo_codes WHERE code = UPPER(TRIM(NEW.promo_code)) FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid promo code';
+  END IF;
+
+  IF COALESCE(NEW.is_marketplace, false) THEN
+    v_original := NEW.fare;
+  ELSE
+    v_original := public.ride_request_fare(
+      NEW.vehicle_type, NEW.distance, NEW.duration,
+      NEW.pickup_lat, NEW.pickup_lng, NEW.drop_lat, NEW.drop_lng, NEW.surge_multiplier
+    );
+  END IF;
+
+  v_result := public.evaluate_promo_code(
+    v_promo, NEW.passenger_id, v_original, NEW.vehicle_type,
+    NEW.pickup_lat, NEW.pickup_lng, COALESCE(NEW.scheduled_time, NOW())
+  );
+
+  IF NOT (v_result->>'success')::boolean THEN
+    RAISE EXCEPTION '%', v_result->>'error';
+  END IF;
+
+  NEW.promo_code := v_promo.code;
+  NEW.discount_amount := (v_result->>'discount')::numeric;
+  NEW.fare := (v_result->>'final_amount')::numeric;
+  RETURN NEW;
+END;
+$$;
+
+-- 3. REDEMPTION COUNT
+-- promo_code_uses is the only count; current_uses is kept for the apps' "uses left"
+CREATE OR REPLACE FUNCTION public.sync_promo_code_current_uses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_promo_ids UUID[] := '{}';
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_promo_ids := v_promo_ids || NEW.promo_code_id;
+  END IF;
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_promo_ids := v_promo_ids || OLD.promo_code_id;
+  END IF;
+
+  UPDATE public.promo_codes p
+  SET current_uses = (SELECT COUNT(*) FROM public.promo_code_uses u WHERE u.promo_code_id = p.id)
+  WHERE p.id = ANY(v_promo_ids);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_promo_code_current_uses ON public.promo_code_uses;
+CREATE TRIGGER trigger_sync_promo_code_current_uses
+AFTER INSERT OR DELETE OR UPDATE OF promo_code_id ON public.promo_code_uses
+FOR EACH ROW EXECUTE FUNCTION public.sync_promo_code_current_uses();
+
+UPDATE public.promo_codes p
+SET current_uses = (SELECT COUNT(*) FROM public.promo_code_uses u WHERE u.promo_code_id = p.id);
+
+-- 4. PAYMENT TRANSITIONS
+-- As in 20260105_razorpay_webhooks.sql, without counting the promo code again
+CREATE OR REPLACE FUNCTION public.apply_payment_transition(
+  p_payment_id UUID,
+  p_to_status TEXT,
+  p_razorpay_payment_id TEXT DEFAULT NULL,
+  p_failure_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_payment RECORD;
+  v_booking RECORD;
+  v_driver_user_id UUID;
+BEGIN
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status = p_to_status THEN
+    RETURN jsonb_build_object('success', true, 'changed', false, 'status', v_payment.status, 'payment_id', v_payment.id);
+  END IF;
+
+  IF NOT public.is_valid_payment_transition(v_payment.status, p_to_status) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'changed', false,
+      'status', v_payment.status,
+      'payment_id', v_payment.id,
+      'error', 'Invalid payment status transition: ' || COALESCE(v_payment.status, 'pending') || ' -> ' || p_to_status
+    );
+  END IF;
+
+  UPDATE public.payments
+  SET status = p_to_status,
+      razorpay_payment_id = COALESCE(p_razorpay_payment_id, razorpay_payment_id),
+      failure_reason = CASE WHEN p_to_status = 'failed' THEN p_failure_reason ELSE failure_reason END,
+      updated_at = NOW()
+  WHERE id = p_payment_id;
+
+  SELECT * INTO v_booking FROM public.bookings WHERE id = v_payment.booking_id;
+
+  IF p_to_status = 'success' THEN
+    -- A post-trip payment completes the booking; a prepaid booking keeps its status
+    UPDATE public.bookings
+    SET payment_status = 'paid',
+        status = CASE WHEN status = 'payment_pending' THEN 'completed' ELSE status END
+    WHERE id = v_payment.booking_id;
+
+    PERFORM public.gateway_pay_booking(
+      v_payment.booking_id,
+      v_payment.amount,
+      COALESCE(p_razorpay_payment_id, v_payment.razorpay_payment_id)
+    );
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      v_booking.passenger_id,
+      'Payment Successful',
+      'Your payment of ₹' || v_payment.amount || ' was successful. Booking confirmed!',
+      'payment',
+      jsonb_build_object('booking_id', v_payment.booking_id, 'payment_id', v_payment.id, 'amount', v_payment.amount)
+    );
+
+    SELECT d.user_id INTO v_driver_user_id
+    FROM public.trips t
+    JOIN public.drivers d ON d.id = t.driver_id
+    WHERE t.id = v_booking.trip_id;
+
+    IF v_driver_user_id IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, title, message, type, data)
+      VALUES (
+        v_driver_user_id,
+        'New Booking',
+        'You have a new booking for ' || v_booking.seats_booked || ' seat(s)',
+        'booking',
+        jsonb_build_object('booking_id', v_payment.booking_id, 'passenger_id', v_booking.passenger_id, 'seats', v_booking.seats_booked)
+      );
+    END IF;
+  ELSIF p_to_status = 'failed' THEN
+    UPDATE public.bookings
+    SET payment_status = 'failed'
+    WHERE id = v_payment.booking_id AND payment_status IS DISTINCT FROM 'paid';
+
+    INSERT INTO public.notifications (user_id, title, message, type, data)
+    VALUES (
+      v_booking.passenger_id,
+      'Payment Failed',
+      'Your payment of ₹' || v_payment.amount || ' could not be completed. Please try again.',
+      'payment',
+      jsonb_build_object('booking_id', v_payment.booking_id, 'payment_id', v_payment.id)
+    );
+  ELSIF p_to_status = 'refunded' THEN
+    UPDATE public.bookings
+    SET payment_status = 'refunded'
+    WHERE id = v_payment.booking_id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'changed', true, 'status', p_to_status, 'payment_id', v_payment.id);
+END;
+$$;
+
+-- 5. PERMISSIONS
+REVOKE ALL ON FUNCTION public.ride_request_fare(TEXT, NUMERIC, INTEGER, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.sync_promo_code_current_uses() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ride_request_fare(TEXT, NUMERIC, INTEGER, NUMERIC, NUMERIC, NUMERIC, NUMERIC, NUMERIC) TO authenticated, service_role;
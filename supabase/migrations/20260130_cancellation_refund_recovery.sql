@@ -0,0 +1,200 @@
+-- ============================================
+-- Cancellation Refund Recovery
+-- Description: Refunds to a wallet or back through Razorpay now reverse only
+-- the driver, platform and GST credits that were actually posted for the
+-- booking; whatever was never posted (cash rides, bookings paid before the
+-- ledger) is paid by the platform, like other wallet credits. Razorpay
+-- refunds that fail keep the error and attempt count on the cancellation,
+-- and finance admins see them in the Payments tab and retry them through
+-- the process-cancellation edge function.
+-- ============================================
+
+-- 1. COLUMNS
+ALTER TABLE public.booking_cancellations ADD COLUMN IF NOT EXISTS refund_error TEXT;
+ALTER TABLE public.booking_cancellations ADD COLUMN IF NOT EXISTS refund_attempts INTEGER NOT NULL DEFAULT 0;
+
+DROP POLICY IF EXISTS "Admins view failed refunds" ON public.booking_cancellations;
+CREATE POLICY "Admins view failed refunds" ON public.booking_cancellations
+FOR SELECT TO authenticated
+USING (refund_method = 'razorpay' AND public.has_admin_permission('payments.manage'));
+
+-- 2. REFUND ENTRIES
+-- Debits the booking's posted splits in proportion, up to p_amount, and the
+-- rest from platform fees. Earlier refunds of the booking are netted off.
+CREATE OR REPLACE FUNCTION public.booking_refund_entries(
+  p_booking_id UUID,
+  p_amount NUMERIC
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_posted RECORD;
+  v_total NUMERIC := 0;
+  v_reversed NUMERIC;
+  v_left NUMERIC;
+  v_amount NUMERIC;
+  v_entries JSONB := '[]'::jsonb;
+BEGIN
+  FOR v_posted IN
+    SELECT e.account_id, SUM(CASE WHEN e.direction = 'credit' THEN e.amount ELSE -e.amount END) AS net
+    FROM public.ledger_transactions t
+    JOIN public.ledger_entries e ON e.transaction_id = t.id
+    JOIN public.ledger_accounts a ON a.id = e.account_id
+    WHERE t.reference_type IN ('booking', 'refund')
+      AND t.reference_id = p_booking_id::text
+      AND a.account_type IN ('driver_payable', 'platform_fees', 'gst_payable')
+    GROUP BY e.account_id
+    HAVING SUM(CASE WHEN e.direction = 'credit' THEN e.amount ELSE -e.amount END) > 0
+    ORDER BY net
+  LOOP
+    v_total := v_total + v_posted.net;
+    v_entries := v_entries || jsonb_build_array(
+      jsonb_build_object('account_id', v_posted.account_id, 'direction', 'debit', 'amount', v_posted.net)
+    );
+  END LOOP;
+
+  v_reversed := LEAST(p_amount, v_total);
+  v_left := v_reversed;
+
+  -- Scale each posted split down to the refund; the largest takes the rounding
+  FOR i IN 0 .. jsonb_array_length(v_entries) - 1 LOOP
+    v_amount := CASE
+      WHEN i = jsonb_array_length(v_entries) - 1 THEN v_left
+      ELSE LEAST(ROUND((v_entries->i->>'amount')::numeric * v_reversed / v_total, 2), v_left)
+    END;
+    v_entries := jsonb_set(v_entries, ARRAY[i::text, 'amount'], to_jsonb(v_amount));
+    v_left := v_left - v_amount;
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(x), '[]'::jsonb) INTO v_entries
+  FROM jsonb_array_elements(v_entries) x
+  WHERE (x->>'amount')::numeric > 0;
+
+  IF p_amount > v_reversed THEN
+    v_entries := v_entries || jsonb_build_array(
+      jsonb_build_object('account_id', public.get_ledger_account('platform_fees'), 'direction', 'debit', 'amount', p_amount - v_reversed)
+    );
+  END IF;
+
+  RETURN v_entries;
+END;
+$$;
+
+-- 3. REFUNDS
+-- Unchanged apart from booking_refund_entries() in place of booking_split_entries()
+CREATE OR REPLACE FUNCTION public.wallet_refund_booking(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT 'Ride refund'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_passenger_id UUID;
+  v_wallet_account UUID;
+  v_transaction_id UUID;
+  v_wallet_id UUID;
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT passenger_id INTO v_passenger_id FROM public.bookings WHERE id = p_booking_id;
+  v_wallet_account := public.get_ledger_account('passenger_wallet', v_passenger_id);
+
+  v_transaction_id := public.post_ledger_transaction(
+    p_description,
+    'refund',
+    p_booking_id::text,
+    public.booking_refund_entries(p_booking_id, p_amount)
+      || jsonb_build_array(jsonb_build_object('account_id', v_wallet_account, 'direction', 'credit', 'amount', p_amount)),
+    'refund:' || p_booking_id
+  );
+
+  SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = v_passenger_id;
+
+  IF NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE ledger_transaction_id = v_transaction_id) THEN
+    INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, ledger_transaction_id)
+    VALUES (v_wallet_id, 'credit', p_amount, p_description, p_booking_id::text, 'refund', 'completed', v_transaction_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'new_balance', public.ledger_account_balance(v_wallet_account)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.gateway_refund_booking(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_razorpay_refund_id TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.has_admin_permission('payments.manage') THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  RETURN public.post_ledger_transaction(
+    'Ride refund via Razorpay',
+    'refund',
+    p_booking_id::text,
+    public.booking_refund_entries(p_booking_id, p_amount)
+      || jsonb_build_array(jsonb_build_object('account_id', public.get_ledger_account('payment_gateway'), 'direction', 'credit', 'amount', p_amount)),
+    'gateway_refund:' || p_razorpay_refund_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refund_booking_to_wallet(
+  p_booking_id UUID,
+  p_amount NUMERIC,
+  p_description TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_passenger_id UUID;
+  v_transaction_id UUID;
+  v_wallet_id UUID;
+BEGIN
+  SELECT passenger_id INTO v_passenger_id FROM public.bookings WHERE id = p_booking_id;
+
+  v_transaction_id := public.post_ledger_transaction(
+    p_description,
+    'refund',
+    p_booking_id::text,
+    public.booking_refund_entries(p_booking_id, p_amount)
+      || jsonb_build_array(jsonb_build_object(
+        'account_id', public.get_ledger_account('passenger_wallet', v_passenger_id),
+        'direction', 'credit',
+        'amount', p_amount
+      )),
+    'refund:' || p_booking_id
+  );
+
+  SELECT id INTO v_wallet_id FROM public.wallets WHERE user_id = v_passenger_id;
+
+  IF NOT EXISTS (SELECT 1 FROM public.wallet_transactions WHERE ledger_transaction_id = v_transaction_id) THEN
+    INSERT INTO public.wallet_transactions (wallet_id, type, amount, description, reference_id, reference_type, status, ledger_transaction_id)
+    VALUES (v_wallet_id, 'credit', p_amount, p_description, p_booking_id::text, 'refund', 'completed', v_transaction_id);
+  END IF;
+
+  RETURN v_transaction_id;
+END;
+$$;
+
+-- 4. PERMISSIONS
+REVOKE ALL ON FUNCTION public.booking_refund_entries(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.booking_refund_entries(UUID, NUMERIC) TO service_role;
@@ -0,0 +1,182 @@
+-- ============================================
+-- Razorpay Webhook Amount Review
+-- Description: A payment.captured event is only posted when the amount
+-- Razorpay captured matches the payment (or wallet top-up) it settles.
+-- Anything else is kept on the event log with status 'review' and both
+-- amounts, and the payment is left where it was for finance to reconcile.
+-- payment.authorized is now handled too; since Razorpay does not promise
+-- delivery order, an authorization that arrives after the capture is
+-- recorded as ignored instead of failing and being retried.
+-- ============================================
+
+-- 1. REVIEW STATUS
+ALTER TABLE public.razorpay_webhook_events DROP CONSTRAINT IF EXISTS razorpay_webhook_events_status_check;
+ALTER TABLE public.razorpay_webhook_events ADD CONSTRAINT razorpay_webhook_events_status_check
+CHECK (status IN ('processing', 'processed', 'ignored', 'review', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_razorpay_webhook_events_review
+ON public.razorpay_webhook_events(received_at DESC)
+WHERE status = 'review';
+
+-- 2. EVENT PROCESSING
+-- As in 20260105_razorpay_webhooks.sql, posting the captured amount only
+-- when it matches, and moving payments to authorized.
+CREATE OR REPLACE FUNCTION public.process_razorpay_webhook_event(
+  p_event_id TEXT,
+  p_event_type TEXT,
+  p_payload JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_existing RECORD;
+  v_entity JSONB;
+  v_payment RECORD;
+  v_topup RECORD;
+  v_result JSONB;
+  v_status TEXT := 'processed';
+  v_refund_total NUMERIC;
+  v_captured_amount NUMERIC;
+BEGIN
+  SELECT * INTO v_existing FROM public.razorpay_webhook_events WHERE event_id = p_event_id FOR UPDATE;
+
+  IF FOUND AND v_existing.status <> 'failed' THEN
+    RETURN jsonb_build_object('duplicate', true, 'status', v_existing.status, 'result', v_existing.result);
+  END IF;
+
+  IF FOUND THEN
+    UPDATE public.razorpay_webhook_events
+    SET status = 'processing', attempts = attempts + 1, error = NULL
+    WHERE event_id = p_event_id;
+  ELSE
+    INSERT INTO public.razorpay_webhook_events (event_id, event_type, payload)
+    VALUES (p_event_id, p_event_type, p_payload);
+  END IF;
+
+  IF p_event_type IN ('payment.authorized', 'payment.captured', 'payment.failed') THEN
+    v_entity := p_payload -> 'payment' -> 'entity';
+    -- Razorpay amounts are in paise
+    v_captured_amount := (v_entity ->> 'amount')::numeric / 100;
+
+    SELECT * INTO v_payment
+    FROM public.payments
+    WHERE razorpay_order_id = v_entity ->> 'order_id'
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_payment.id IS NOT NULL THEN
+      IF p_event_type = 'payment.captured' AND v_captured_amount IS DISTINCT FROM v_payment.amount THEN
+        v_status := 'review';
+        v_result := jsonb_build_object(
+          'reason', 'Captured amount does not match the payment',
+          'payment_id', v_payment.id,
+          'expected_amount', v_payment.amount,
+          'captured_amount', v_captured_amount
+        );
+      ELSE
+        v_result := public.apply_payment_transition(
+          v_payment.id,
+          CASE p_event_type
+            WHEN 'payment.captured' THEN 'success'
+            WHEN 'payment.authorized' THEN 'authorized'
+            ELSE 'failed'
+          END,
+          v_entity ->> 'id',
+          v_entity ->> 'error_description'
+        );
+
+        -- Includes an authorization delivered after its capture
+        IF NOT (v_result ->> 'success')::boolean THEN
+          v_status := 'ignored';
+        END IF;
+      END IF;
+    ELSE
+      -- Not a booking payment: check for a pending wallet top-up on this order
+      SELECT wt.*, w.user_id INTO v_topup
+      FROM public.wallet_transactions wt
+      JOIN public.wallets w ON w.id = wt.wallet_id
+      WHERE wt.reference_id = v_entity ->> 'order_id' AND wt.reference_type = 'topup'
+      LIMIT 1;
+
+      IF v_topup.id IS NULL THEN
+        v_status := 'ignored';
+        v_result := jsonb_build_object('reason', 'No payment or top-up for order ' || (v_entity ->> 'order_id'));
+      ELSIF p_event_type = 'payment.authorized' THEN
+        v_status := 'ignored';
+        v_result := jsonb_build_object('reason', 'Top-ups are credited on capture');
+      ELSIF p_event_type = 'payment.captured' AND v_captured_amount IS DISTINCT FROM v_topup.amount THEN
+        v_status := 'review';
+        v_result := jsonb_build_object(
+          'reason', 'Captured amount does not match the top-up',
+          'wallet_transaction_id', v_topup.id,
+          'expected_amount', v_topup.amount,
+          'captured_amount', v_captured_amount
+        );
+      ELSIF p_event_type = 'payment.captured' THEN
+        v_result := public.wallet_topup(v_topup.user_id, v_topup.amount, v_topup.reference_id, v_entity ->> 'id');
+      ELSE
+        UPDATE public.wallet_transactions
+        SET status = 'failed'
+        WHERE id = v_topup.id AND status = 'pending';
+        v_result := jsonb_build_object('wallet_transaction_id', v_topup.id, 'status', 'failed');
+      END IF;
+    END IF;
+  ELSIF p_event_type = 'refund.processed' THEN
+    v_entity := p_payload -> 'refund' -> 'entity';
+
+    SELECT * INTO v_payment
+    FROM public.payments
+    WHERE razorpay_payment_id = v_entity ->> 'payment_id'
+    LIMIT 1;
+
+    IF v_payment.id IS NULL THEN
+      v_status := 'ignored';
+      v_result := jsonb_build_object('reason', 'No payment for ' || (v_entity ->> 'payment_id'));
+    ELSE
+      -- Idempotent with the posting made by process-cancellation for the same refund id
+      PERFORM public.gateway_refund_booking(
+        v_payment.booking_id,
+        (v_entity ->> 'amount')::numeric / 100,
+        v_entity ->> 'id'
+      );
+
+      UPDATE public.booking_cancellations
+      SET refund_status = 'processed', razorpay_refund_id = v_entity ->> 'id'
+      WHERE booking_id = v_payment.booking_id AND refund_method = 'razorpay';
+
+      SELECT COALESCE(SUM(e.amount), 0) INTO v_refund_total
+      FROM public.ledger_transactions t
+      JOIN public.ledger_entries e ON e.transaction_id = t.id
+      JOIN public.ledger_accounts a ON a.id = e.account_id
+      WHERE t.reference_type = 'refund'
+        AND t.reference_id = v_payment.booking_id::text
+        AND t.idempotency_key LIKE 'gateway_refund:%'
+        AND a.account_type = 'payment_gateway';
+
+      UPDATE public.payments
+      SET refund_status = 'completed', refund_amount = v_refund_total, updated_at = NOW()
+      WHERE id = v_payment.id;
+
+      v_result := public.apply_payment_transition(
+        v_payment.id,
+        CASE WHEN v_refund_total >= v_payment.amount THEN 'refunded' ELSE 'partially_refunded' END
+      );
+    END IF;
+  ELSE
+    v_status := 'ignored';
+    v_result := jsonb_build_object('reason', 'Unhandled event type');
+  END IF;
+
+  UPDATE public.razorpay_webhook_events
+  SET status = v_status, result = v_result, processed_at = NOW()
+  WHERE event_id = p_event_id;
+
+  RETURN jsonb_build_object('duplicate', false, 'status', v_status, 'result', v_result);
+END;
+$$;
+
+-- 3. PERMISSIONS
+REVOKE ALL ON FUNCTION public.process_razorpay_webhook_event(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.process_razorpay_webhook_event(TEXT, TEXT, JSONB) TO service_role;